@@ -4,7 +4,7 @@
  */
 
 import { NextRequest } from 'next/server'
-import { POST, GET } from '@/app/api/transcribe/route'
+import { GET, POST } from '@/app/api/transcribe/route'
 
 // Mock dependencies
 const mockOptimizedTranscribe = jest.fn()
@@ -30,6 +30,7 @@ const mockSecurity = {
   },
 }
 const mockMeasureApiCall = jest.fn((name, fn) => fn())
+const mockCheckRateLimit = jest.fn()
 
 jest.mock('@/lib/modassembly/openai/optimized-transcribe', () => ({
   optimizedTranscribeAudioFile: (...args: any[]) => mockOptimizedTranscribe(...args),
@@ -47,6 +48,11 @@ jest.mock('@/lib/security', () => ({
   Security: mockSecurity,
 }))
 
+jest.mock('@/lib/security/rate-limit', () => ({
+  ...jest.requireActual('@/lib/security/rate-limit'),
+  checkRateLimit: (...args: any[]) => mockCheckRateLimit(...args),
+}))
+
 jest.mock('@/lib/performance-utils', () => ({
   measureApiCall: (name: string, fn: Function) => mockMeasureApiCall(name, fn),
 }))
@@ -61,6 +67,14 @@ describe('/api/transcribe', () => {
     // Setup default mocks
     mockSecurity.validate.validateRequest.mockReturnValue({ isValid: true })
     mockSecurity.rateLimit.isAllowed.mockReturnValue(true)
+    mockCheckRateLimit.mockResolvedValue({
+      allowed: true,
+      limit: 10,
+      remaining: 9,
+      resetMs: 30000,
+      retryAfterMs: 0,
+      windowMs: 60000,
+    })
     
     mockUsageTracker = {
       getUsageStats: jest.fn().mockResolvedValue({ totalCost: 0 }),
@@ -191,7 +205,14 @@ describe('/api/transcribe', () => {
 
     describe('Rate Limiting', () => {
       it('returns 429 when rate limit exceeded', async () => {
-        mockSecurity.rateLimit.isAllowed.mockReturnValue(false)
+        mockCheckRateLimit.mockResolvedValue({
+          allowed: false,
+          limit: 10,
+          remaining: 0,
+          resetMs: 30000,
+          retryAfterMs: 42000,
+          windowMs: 60000,
+        })
 
         const request = createMockRequest()
         const response = await POST(request)
@@ -199,7 +220,13 @@ describe('/api/transcribe', () => {
 
         expect(response.status).toBe(429)
         expect(data.error).toContain('Rate limit exceeded')
-        expect(response.headers.get('Retry-After')).toBe('60')
+        expect(response.headers.get('Retry-After')).toBe('42')
+        expect(response.headers.get('RateLimit-Remaining')).toBe('0')
+        expect(response.headers.get('RateLimit-Policy')).toBe('10;w=60')
+        expect(mockCheckRateLimit).toHaveBeenCalledWith(
+          expect.objectContaining({ name: 'transcribe', limit: 10 }),
+          'test-user-id'
+        )
       })
 
       it('returns 429 when daily budget exceeded', async () => {
@@ -216,7 +243,6 @@ describe('/api/transcribe', () => {
 
       it('proceeds when within limits', async () => {
         mockUsageTracker.getUsageStats.mockResolvedValue({ totalCost: 1.0 })
-        mockSecurity.rateLimit.isAllowed.mockReturnValue(true)
 
         const request = createMockRequest()
         const response = await POST(request)
@@ -18,6 +18,27 @@ jest.mock('@/lib/modassembly/supabase/client', () => ({
   createClient: jest.fn(() => mockSupabase),
 }))
 
+// What createOrder looks up before the insert (the running meal service,
+// the table's section, the resident) comes back empty
+const createEmptyLookup = () => {
+  const lookup: Record<string, unknown> = {
+    then: (resolve: (_result: unknown) => unknown) =>
+      resolve({ data: [], error: null }),
+    single: jest.fn().mockResolvedValue({ data: null, error: null }),
+    maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+  }
+  for (const method of ['select', 'eq', 'neq', 'in', 'is', 'or', 'order', 'gte', 'lte', 'limit']) {
+    lookup[method] = jest.fn(() => lookup)
+  }
+  return lookup
+}
+
+const mockOrdersTable = (ordersQuery: object) => {
+  ;(mockSupabase.from as jest.Mock).mockImplementation((table: string) =>
+    table === 'orders' ? ordersQuery : createEmptyLookup()
+  )
+}
+
 describe('Order Database Operations', () => {
   beforeEach(() => {
     mockSupabase = createMockSupabaseClient()
@@ -105,7 +126,7 @@ describe('Order Database Operations', () => {
         single: jest.fn().mockRejectedValue(new Error('Connection failed')),
       }
 
-      mockSupabase.from.mockReturnValue(mockQueryBuilder)
+      mockOrdersTable(mockQueryBuilder)
 
       await expect(createOrder(orderData)).rejects.toThrow('Connection failed')
     })
@@ -652,7 +673,7 @@ describe('Order Database Operations', () => {
         single: jest.fn().mockRejectedValue(new Error('Transaction failed')),
       }
 
-      mockSupabase.from.mockReturnValue(mockQueryBuilder)
+      mockOrdersTable(mockQueryBuilder)
 
       await expect(createOrder(orderData)).rejects.toThrow('Transaction failed')
 
@@ -0,0 +1,163 @@
+import {
+  assignTablesToZones,
+  findItemAt,
+  findVertexAt,
+  getStackOrder,
+  isPointInBox,
+  isPointInPolygon,
+  snapPoint,
+} from '@/lib/floor-plan-geometry'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
+
+const table = (overrides: Partial<Table>): Table => ({
+  id: 'table-1',
+  type: 'square',
+  x: 100,
+  y: 100,
+  width: 100,
+  height: 100,
+  seats: 4,
+  label: '1',
+  zIndex: 1,
+  ...overrides,
+})
+
+const fixture = (overrides: Partial<Fixture>): Fixture => ({
+  id: 'fixture-1',
+  kind: 'wall',
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 10,
+  zIndex: 0,
+  ...overrides,
+})
+
+const zone = (overrides: Partial<Zone>): Zone => ({
+  id: 'zone-1',
+  name: 'Section 1',
+  color: '#3b82f6',
+  points: [
+    { x: 0, y: 0 },
+    { x: 300, y: 0 },
+    { x: 300, y: 300 },
+    { x: 0, y: 300 },
+  ],
+  ...overrides,
+})
+
+describe('hit-testing', () => {
+  it('accounts for rotation', () => {
+    const wall = fixture({ x: 0, y: 95, width: 200, height: 10, rotation: 90 })
+
+    expect(isPointInBox(wall, 100, 20)).toBe(true)
+    expect(isPointInBox(wall, 20, 100)).toBe(false)
+  })
+
+  it('keeps thin walls easy to grab', () => {
+    expect(isPointInBox(fixture({ height: 2 }), 50, 5)).toBe(true)
+  })
+
+  it('tests circles by radius', () => {
+    const round = table({ type: 'circle' })
+
+    expect(isPointInBox(round, 150, 150, true)).toBe(true)
+    expect(isPointInBox(round, 105, 105, true)).toBe(false)
+  })
+
+  it('tests polygons, including concave ones', () => {
+    const lShape = [
+      { x: 0, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 200 },
+      { x: 0, y: 200 },
+    ]
+
+    expect(isPointInPolygon(lShape, 50, 150)).toBe(true)
+    expect(isPointInPolygon(lShape, 150, 150)).toBe(false)
+  })
+})
+
+describe('stacking', () => {
+  it('puts fixtures under tables at the same level', () => {
+    const stack = getStackOrder(
+      [table({ zIndex: 0 })],
+      [fixture({ id: 'top', zIndex: 2 }), fixture({ zIndex: 0 })]
+    )
+
+    expect(stack.map(entry => entry.item.id)).toEqual([
+      'fixture-1',
+      'table-1',
+      'top',
+    ])
+  })
+
+  it('picks the topmost item, then the zone underneath', () => {
+    const tables = [table({})]
+    const fixtures = [
+      fixture({
+        id: 'buffet',
+        kind: 'buffet',
+        x: 100,
+        y: 100,
+        height: 20,
+        zIndex: 5,
+      }),
+    ]
+    const zones = [zone({})]
+
+    expect(findItemAt(150, 105, tables, fixtures, zones)).toEqual({
+      kind: 'fixture',
+      id: 'buffet',
+    })
+    expect(findItemAt(150, 150, tables, fixtures, zones)).toEqual({
+      kind: 'table',
+      id: 'table-1',
+    })
+    expect(findItemAt(250, 250, tables, fixtures, zones)).toEqual({
+      kind: 'zone',
+      id: 'zone-1',
+    })
+    expect(findItemAt(400, 400, tables, fixtures, zones)).toBeNull()
+  })
+})
+
+describe('zones', () => {
+  it('finds a corner within the radius', () => {
+    expect(findVertexAt(zone({}), 296, 4, 10)).toBe(1)
+    expect(findVertexAt(zone({}), 150, 150, 10)).toBe(-1)
+  })
+
+  it('assigns tables to the zone under their centre', () => {
+    const zones = [
+      zone({}),
+      zone({
+        id: 'zone-2',
+        points: [
+          { x: 300, y: 0 },
+          { x: 600, y: 0 },
+          { x: 600, y: 300 },
+        ],
+      }),
+    ]
+    const tables = assignTablesToZones(
+      [
+        table({}),
+        table({ id: 'table-2', x: 500, y: 50, width: 60, height: 60 }),
+        table({ id: 'table-3', x: 700, y: 700, zoneId: 'zone-1' }),
+      ],
+      zones
+    )
+
+    expect(tables.map(t => t.zoneId)).toEqual(['zone-1', 'zone-2', null])
+  })
+})
+
+describe('snapPoint', () => {
+  it('snaps to the grid only when enabled', () => {
+    expect(snapPoint({ x: 74, y: 126 }, 50)).toEqual({ x: 50, y: 150 })
+    expect(snapPoint({ x: 74, y: 126 }, 50, false)).toEqual({ x: 74, y: 126 })
+  })
+})
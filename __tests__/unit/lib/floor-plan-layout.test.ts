@@ -0,0 +1,201 @@
+import {
+  createFloorPlanLayout,
+  diffFloorPlanLayouts,
+  floorPlanLayoutToSvg,
+  getLayoutObjects,
+  getLayoutTables,
+  parseFloorPlanLayoutJson,
+} from '@/lib/floor-plan-layout'
+import type { Table } from '@/lib/floor-plan-utils'
+
+const room = {
+  name: 'Main Dining Room',
+  canvas_width: 800,
+  canvas_height: 600,
+  background_color: null,
+  background_image_url: null,
+}
+
+const table = (overrides: Partial<Table>): Table => ({
+  id: 'table-1',
+  type: 'circle',
+  x: 100,
+  y: 100,
+  width: 80,
+  height: 80,
+  seats: 4,
+  label: '1',
+  rotation: 0,
+  status: 'available',
+  zIndex: 1,
+  ...overrides,
+})
+
+describe('floor plan layout documents', () => {
+  it('round-trips tables through JSON', () => {
+    const tables = [table({}), table({ id: 'table-2', label: '2', x: 250 })]
+    const json = JSON.stringify(createFloorPlanLayout(room, tables))
+
+    expect(getLayoutTables(parseFloorPlanLayoutJson(json))).toEqual(tables)
+  })
+
+  it('fills in optional table fields on import', () => {
+    const layout = parseFloorPlanLayoutJson(
+      JSON.stringify({
+        format: 'plater.floor-plan-layout',
+        version: 1,
+        floor_plan: { name: 'Patio', canvas_width: 600, canvas_height: 400 },
+        tables: [
+          {
+            id: 'a',
+            label: '1',
+            type: 'square',
+            x: 0,
+            y: 0,
+            width: 90,
+            height: 90,
+            seats: 2,
+          },
+        ],
+      })
+    )
+
+    expect(layout.tables[0]).toMatchObject({
+      rotation: 0,
+      status: 'available',
+      zIndex: 1,
+    })
+    expect(layout.floor_plan.background_color).toBeNull()
+  })
+
+  it('says where an invalid document is wrong', () => {
+    const layout = createFloorPlanLayout(room, [table({ width: 0 })])
+
+    expect(() => parseFloorPlanLayoutJson(JSON.stringify(layout))).toThrow(
+      /tables\.0\.width/
+    )
+    expect(() => parseFloorPlanLayoutJson('{"tables": [')).toThrow(
+      'not a JSON document'
+    )
+    expect(() =>
+      parseFloorPlanLayoutJson(JSON.stringify({ ...layout, version: 2 }))
+    ).toThrow(/version/)
+  })
+
+  it('gives fixtures and zones new IDs when put on a canvas', () => {
+    const zone = {
+      id: 'zone-1',
+      name: 'Patio',
+      color: '#10b981',
+      points: [
+        { x: 0, y: 0 },
+        { x: 400, y: 0 },
+        { x: 400, y: 300 },
+      ],
+    }
+    const layout = parseFloorPlanLayoutJson(
+      JSON.stringify(
+        createFloorPlanLayout(room, [table({ zoneId: 'zone-1' })], {
+          fixtures: [
+            {
+              id: 'wall-1',
+              kind: 'wall',
+              x: 0,
+              y: 0,
+              width: 200,
+              height: 10,
+            },
+          ],
+          zones: [zone],
+        })
+      )
+    )
+    let next = 0
+    const { tables, fixtures, zones } = getLayoutObjects(
+      layout,
+      () => `new-${++next}`
+    )
+
+    expect(zones).toEqual([{ ...zone, id: 'new-1' }])
+    expect(tables[0].zoneId).toBe('new-1')
+    expect(fixtures[0]).toMatchObject({
+      id: 'new-2',
+      kind: 'wall',
+      label: null,
+    })
+  })
+
+  it('reads layouts saved before fixtures and zones', () => {
+    const layout = {
+      ...createFloorPlanLayout(room, []),
+      fixtures: undefined,
+      zones: undefined,
+    }
+
+    expect(parseFloorPlanLayoutJson(JSON.stringify(layout))).toMatchObject({
+      fixtures: [],
+      zones: [],
+    })
+  })
+
+  it('rejects duplicate table IDs', () => {
+    const layout = createFloorPlanLayout(room, [
+      table({}),
+      table({ label: '2' }),
+    ])
+
+    expect(() => parseFloorPlanLayoutJson(JSON.stringify(layout))).toThrow(
+      'Table IDs must be unique'
+    )
+  })
+})
+
+describe('diffFloorPlanLayouts', () => {
+  it('lists added, removed and changed tables', () => {
+    const before = [
+      table({}),
+      table({ id: 'table-2', label: '2' }),
+      table({ id: 'table-3', label: '3' }),
+    ]
+    const after = [
+      table({ x: 140, seats: 6 }),
+      table({ id: 'table-3', label: '3' }),
+      table({ id: 'table-4', label: '4' }),
+    ]
+
+    const diff = diffFloorPlanLayouts(before, after)
+
+    expect(diff.added.map(t => t.label)).toEqual(['4'])
+    expect(diff.removed.map(t => t.label)).toEqual(['2'])
+    expect(diff.changed).toEqual([
+      { table: after[0], changes: ['seats 4 → 6', 'moved'] },
+    ])
+  })
+
+  it('matches tables by label when the IDs come from another plan', () => {
+    const diff = diffFloorPlanLayouts(
+      [table({})],
+      [table({ id: 'imported-1', rotation: 45 })]
+    )
+
+    expect(diff.added).toEqual([])
+    expect(diff.removed).toEqual([])
+    expect(diff.changed[0].changes).toEqual(['rotated'])
+  })
+})
+
+describe('floorPlanLayoutToSvg', () => {
+  it('draws each table with its label and escapes text', () => {
+    const svg = floorPlanLayoutToSvg(
+      createFloorPlanLayout({ ...room, name: 'Fish & Chips' }, [
+        table({ label: '<1>' }),
+        table({ id: 'table-2', label: '2', type: 'rectangle', seats: 6 }),
+      ])
+    )
+
+    expect(svg).toContain('Fish &amp; Chips · 2 tables · 10 seats')
+    expect(svg).toContain('&lt;1&gt;')
+    expect(svg).toContain('<ellipse')
+    expect(svg).toContain('<rect x="100" y="100" width="80" height="80"')
+  })
+})
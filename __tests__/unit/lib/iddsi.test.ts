@@ -0,0 +1,106 @@
+/**
+ * IDDSI Tests
+ * Verifies texture levels on orders and the thickened-drink fix-up
+ */
+
+import {
+  createThicknessRequiredError,
+  findThicknessInText,
+  formatTextureLevel,
+  getOrderTextureLevels,
+  isThicknessRequiredError,
+  withRequiredThickness,
+} from '@/lib/iddsi'
+
+describe('findThicknessInText', () => {
+  it('finds IDDSI and legacy thickness names in free text', () => {
+    expect(findThicknessInText('Orange juice, mildly thick')).toBe('mildly_thick')
+    expect(findThicknessInText('Tea honey-thick')).toBe('moderately_thick')
+    expect(findThicknessInText('Coffee')).toBeNull()
+  })
+})
+
+describe('getOrderTextureLevels', () => {
+  it('collects the modified levels on the order lines', () => {
+    expect(
+      getOrderTextureLevels({
+        type: 'food',
+        order_items: [
+          { texture_diet: 'minced_moist', fluid_thickness: null },
+          { texture_diet: 'minced_moist', fluid_thickness: null },
+          { texture_diet: null, fluid_thickness: 'mildly_thick' },
+        ],
+      })
+    ).toEqual({ textures: ['minced_moist'], thicknesses: ['mildly_thick'] })
+  })
+
+  it('ignores regular diets and thin drinks', () => {
+    expect(
+      getOrderTextureLevels({
+        order_items: [{ texture_diet: 'regular', fluid_thickness: 'thin' }],
+      })
+    ).toEqual({ textures: [], thicknesses: [] })
+  })
+
+  it('falls back to the care snapshot for free-text orders', () => {
+    const resident_care = {
+      texture_diet: 'pureed' as const,
+      fluid_thickness: 'extremely_thick' as const,
+    }
+
+    expect(getOrderTextureLevels({ type: 'drink', resident_care })).toEqual({
+      textures: [],
+      thicknesses: ['extremely_thick'],
+    })
+    expect(getOrderTextureLevels({ type: 'food', resident_care })).toEqual({
+      textures: ['pureed'],
+      thicknesses: [],
+    })
+  })
+})
+
+describe('thickness required', () => {
+  it('builds a recognisable error', () => {
+    const error = createThicknessRequiredError(['Orange Juice'], 'mildly_thick', ['juice'])
+
+    expect(isThicknessRequiredError(error)).toBe(true)
+    expect(isThicknessRequiredError(new Error('other'))).toBe(false)
+    expect(error.message).toBe('Mildly thick fluids required: Orange Juice')
+  })
+
+  it('thickens only the refused drinks', () => {
+    const error = createThicknessRequiredError(
+      ['Orange Juice', 'Tea'],
+      'moderately_thick',
+      ['juice']
+    )
+
+    const order = withRequiredThickness(
+      {
+        lines: [
+          {
+            menu_item_id: 'juice',
+            modifiers: [
+              { modifier_id: null, name: 'ice', kind: 'remove' as const },
+              { modifier_id: null, name: 'Mildly thick', kind: 'thickness' as const },
+            ],
+          },
+          { menu_item_id: 'water' },
+        ],
+        items: ['Tea', 'Milk, moderately thick'],
+      },
+      error
+    )
+
+    expect(order.lines?.[0].modifiers).toEqual([
+      { modifier_id: null, name: 'ice', kind: 'remove' },
+      { modifier_id: null, name: 'Moderately thick', kind: 'thickness' },
+    ])
+    expect(order.lines?.[1]).toEqual({ menu_item_id: 'water' })
+    expect(order.items).toEqual(['Tea, moderately thick', 'Milk, moderately thick'])
+  })
+
+  it('formats levels with their IDDSI number', () => {
+    expect(formatTextureLevel('minced_moist')).toBe('IDDSI 5 · Minced & moist')
+  })
+})
@@ -0,0 +1,94 @@
+import { aggregateAllDayCounts } from '@/lib/kds/all-day'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds/types'
+
+const ticket = (overrides: Partial<KDSOrderRouting>): KDSOrderRouting =>
+  ({
+    id: 'routing-1',
+    order_id: 'order-1',
+    station_id: 'station-grill',
+    course: null,
+    held_at: null,
+    completed_at: null,
+    items: [],
+    order: { items: [], order_items: [] },
+    ...overrides,
+  }) as unknown as KDSOrderRouting
+
+const line = (id: string, name: string, quantity = 1, menuItemId = name) => ({
+  id,
+  name,
+  quantity,
+  menu_item_id: menuItemId,
+  position: 0,
+  modifiers: [],
+  course: null,
+})
+
+describe('aggregateAllDayCounts', () => {
+  const orders = [
+    ticket({
+      id: 'grill-1',
+      order: {
+        order_items: [line('a', 'Burger', 2), line('b', 'Fries')],
+      } as unknown as KDSOrderRouting['order'],
+      items: [
+        { id: 'i1', order_item_id: 'a', line_index: 0, started_at: null, completed_at: null },
+      ],
+    }),
+    ticket({
+      id: 'fryer-1',
+      station_id: 'station-fryer',
+      order: {
+        order_items: [line('a', 'Burger', 2), line('b', 'Fries')],
+      } as unknown as KDSOrderRouting['order'],
+      items: [
+        { id: 'i2', order_item_id: 'b', line_index: 1, started_at: null, completed_at: null },
+      ],
+    }),
+    ticket({
+      id: 'grill-2',
+      order_id: 'order-2',
+      order: { items: ['Soup'], order_items: [] } as unknown as KDSOrderRouting['order'],
+    }),
+    ticket({
+      id: 'grill-3',
+      order_id: 'order-3',
+      held_at: new Date().toISOString(),
+      order: { order_items: [line('c', 'Burger', 1)] } as unknown as KDSOrderRouting['order'],
+    }),
+  ]
+
+  it('sums outstanding quantities per item across open tickets', () => {
+    const counts = aggregateAllDayCounts(orders)
+
+    expect(counts.map(item => [item.name, item.quantity])).toEqual([
+      ['Burger', 3],
+      ['Fries', 1],
+      ['Soup', 1],
+    ])
+    const burger = counts.find(item => item.key === 'Burger')!
+    expect(burger.routingIds).toEqual(['grill-1', 'grill-3'])
+    expect(burger.heldQuantity).toBe(1)
+  })
+
+  it('counts only the selected station and skips finished lines', () => {
+    const fryerOnly = aggregateAllDayCounts(orders, 'station-fryer')
+    expect(fryerOnly).toEqual([
+      expect.objectContaining({ name: 'Fries', quantity: 1, routingIds: ['fryer-1'] }),
+    ])
+
+    const done = ticket({
+      ...orders[1],
+      items: [
+        {
+          id: 'i2',
+          order_item_id: 'b',
+          line_index: 1,
+          started_at: null,
+          completed_at: new Date().toISOString(),
+        },
+      ],
+    })
+    expect(aggregateAllDayCounts([done])).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+/** @jest-environment node */
+jest.mock('@/lib/modassembly/supabase/server', () => ({
+  createClient: jest.fn(),
+}))
+jest.mock('@/lib/modassembly/supabase/service', () => ({
+  createServiceClient: jest.fn(),
+}))
+
+import {
+  checkTranscriptionBudget,
+  decideBudgetMode,
+  evaluateBudgetStatus,
+} from '@/lib/modassembly/openai/transcription-budgets'
+import { createClient } from '@/lib/modassembly/supabase/server'
+import { createServiceClient } from '@/lib/modassembly/supabase/service'
+
+const row = (
+  overrides: Partial<Parameters<typeof evaluateBudgetStatus>[0]> = {}
+): Parameters<typeof evaluateBudgetStatus>[0] => ({
+  budget_id: 'budget-1',
+  scope: 'role',
+  scope_value: 'server',
+  period: 'day',
+  limit_usd: 5,
+  warning_pct: 80,
+  exhausted_action: 'cheaper_model',
+  spent_usd: 0,
+  ...overrides,
+})
+
+describe('transcription budgets', () => {
+  it('warns from the warning threshold and is critical once spent', () => {
+    expect(evaluateBudgetStatus(row({ spent_usd: 3.99 })).severity).toBe('ok')
+    expect(evaluateBudgetStatus(row({ spent_usd: 4 })).severity).toBe('warning')
+    expect(evaluateBudgetStatus(row({ spent_usd: 5 }))).toMatchObject({
+      severity: 'critical',
+      percentUsed: 100,
+    })
+  })
+
+  it('treats a zero limit as already spent', () => {
+    expect(evaluateBudgetStatus(row({ limit_usd: 0 })).severity).toBe('critical')
+  })
+
+  it('applies the strictest action of the exhausted budgets', () => {
+    const cheaper = evaluateBudgetStatus(row({ spent_usd: 6 }))
+    const cacheOnly = evaluateBudgetStatus(
+      row({ budget_id: 'budget-2', scope: 'facility', exhausted_action: 'cache_only', spent_usd: 1 })
+    )
+
+    expect(decideBudgetMode([])).toBe('normal')
+    expect(decideBudgetMode([cheaper, cacheOnly])).toBe('cheaper_model')
+    expect(
+      decideBudgetMode([cheaper, { ...cacheOnly, severity: 'critical' }])
+    ).toBe('cache_only')
+  })
+})
+
+describe('checkTranscriptionBudget', () => {
+  const useRpc = (rpc: jest.Mock) =>
+    (createClient as jest.Mock).mockResolvedValue({ rpc })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('degrades once a budget is spent and raises its alert', async () => {
+    useRpc(
+      jest.fn().mockResolvedValue({ data: [row({ spent_usd: 5 })], error: null })
+    )
+    const alertRpc = jest.fn().mockResolvedValue({ error: null })
+    ;(createServiceClient as jest.Mock).mockReturnValue({ rpc: alertRpc })
+
+    const decision = await checkTranscriptionBudget('user-1')
+
+    expect(decision).toMatchObject({ mode: 'cheaper_model', checked: true })
+    // The database works out the spend; the caller only names the budget
+    expect(alertRpc).toHaveBeenCalledWith('record_transcription_budget_alert', {
+      p_budget_id: 'budget-1',
+      p_user_id: 'user-1',
+    })
+  })
+
+  it('still enforces budgets when alerts cannot be recorded', async () => {
+    useRpc(
+      jest.fn().mockResolvedValue({ data: [row({ spent_usd: 5 })], error: null })
+    )
+    ;(createServiceClient as jest.Mock).mockImplementation(() => {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is required on server side')
+    })
+
+    expect(await checkTranscriptionBudget('user-1')).toMatchObject({
+      mode: 'cheaper_model',
+      checked: true,
+    })
+  })
+
+  it('runs normally but says so when the budgets cannot be read', async () => {
+    useRpc(
+      jest.fn().mockResolvedValue({ data: null, error: new Error('offline') })
+    )
+
+    expect(await checkTranscriptionBudget('user-1')).toEqual({
+      mode: 'normal',
+      statuses: [],
+      checked: false,
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import {
+  type DietaryCheckItem,
+  checkDietaryConflicts,
+  createDietaryViolationError,
+  createUnrecognisedRestrictionWarnings,
+  createUnverifiedItemWarnings,
+  formatDietaryViolations,
+  formatDietaryWarnings,
+  isDietaryViolationError,
+  parseDietaryRestriction,
+} from '@/lib/modassembly/supabase/database/dietary'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const cheeseburger: DietaryCheckItem = {
+  menu_item_id: 'item-burger',
+  name: 'Cheeseburger',
+  allergens: ['dairy', 'gluten', 'sesame'],
+  diet_tags: [],
+}
+
+const gardenSalad: DietaryCheckItem = {
+  menu_item_id: 'item-salad',
+  name: 'Garden Salad',
+  allergens: [],
+  diet_tags: ['vegetarian', 'vegan'],
+}
+
+describe('dietary restriction checks', () => {
+  describe('parseDietaryRestriction', () => {
+    it('maps free-text allergies to allergens', () => {
+      expect(parseDietaryRestriction('Lactose intolerant').allergens).toEqual([
+        'dairy',
+      ])
+      expect(parseDietaryRestriction('nut-free').allergens).toEqual([
+        'tree_nuts',
+      ])
+    })
+
+    it('does not confuse peanuts with tree nuts or shellfish with fish', () => {
+      expect(parseDietaryRestriction('Peanut allergy').allergens).toEqual([
+        'peanuts',
+      ])
+      expect(parseDietaryRestriction('shellfish allergy').allergens).toEqual([
+        'shellfish',
+      ])
+    })
+
+    it('maps diets to the tags an item must carry', () => {
+      expect(
+        parseDietaryRestriction('vegetarian').requiredDietTags
+      ).toEqual(['vegetarian', 'vegan'])
+      expect(parseDietaryRestriction('Low sodium').requiredDietTags).toEqual([
+        'low_sodium',
+      ])
+    })
+
+    it('ignores restrictions it does not understand', () => {
+      expect(parseDietaryRestriction('prefers soft foods')).toEqual({
+        allergens: [],
+        requiredDietTags: [],
+      })
+    })
+  })
+
+  describe('checkDietaryConflicts', () => {
+    it('reports allergens present in ordered items', () => {
+      const violations = checkDietaryConflicts(['dairy-free'], [
+        cheeseburger,
+        gardenSalad,
+      ])
+
+      expect(violations).toEqual([
+        {
+          menuItemId: 'item-burger',
+          itemName: 'Cheeseburger',
+          restriction: 'dairy-free',
+          kind: 'allergen',
+          detail: 'dairy',
+        },
+      ])
+    })
+
+    it('reports items missing a required diet tag', () => {
+      const violations = checkDietaryConflicts(['vegetarian'], [
+        cheeseburger,
+        gardenSalad,
+      ])
+
+      expect(violations).toHaveLength(1)
+      expect(violations[0]).toMatchObject({
+        itemName: 'Cheeseburger',
+        kind: 'diet',
+      })
+    })
+
+    it('returns no violations for compatible orders', () => {
+      expect(
+        checkDietaryConflicts(['vegan', 'nut allergy'], [gardenSalad])
+      ).toEqual([])
+    })
+  })
+
+  it('creates identifiable violation errors', () => {
+    const error = createDietaryViolationError(
+      checkDietaryConflicts(['gluten free'], [cheeseburger])
+    )
+
+    expect(isDietaryViolationError(error)).toBe(true)
+    expect(error.message).toContain('Cheeseburger contains gluten')
+    expect(isDietaryViolationError(new Error('other'))).toBe(false)
+  })
+
+  it('spells out allergens and diet tags', () => {
+    expect(
+      formatDietaryViolations([
+        {
+          menuItemId: 'item-brownie',
+          itemName: 'Brownie',
+          restriction: 'nut allergy',
+          kind: 'allergen',
+          detail: 'tree_nuts',
+        },
+        {
+          menuItemId: 'item-brownie',
+          itemName: 'Brownie',
+          restriction: 'diabetic',
+          kind: 'diet',
+          detail: 'diabetic_friendly',
+        },
+      ])
+    ).toBe(
+      'Brownie contains tree nuts (nut allergy); Brownie is not diabetic friendly (diabetic)'
+    )
+  })
+
+  it('warns about items it could not check', () => {
+    const warnings = createUnverifiedItemWarnings(['Mystery stew'])
+
+    expect(warnings).toEqual([
+      { kind: 'unverified_item', itemName: 'Mystery stew' },
+    ])
+    expect(formatDietaryWarnings(warnings)).toContain('Mystery stew')
+  })
+
+  it('warns about restrictions it does not understand', () => {
+    const warnings = createUnrecognisedRestrictionWarnings([
+      'nut allergy',
+      'prefers soft foods',
+    ])
+
+    expect(warnings).toEqual([
+      { kind: 'unrecognised_restriction', restriction: 'prefers soft foods' },
+    ])
+    expect(formatDietaryWarnings(warnings)).toBe(
+      'Restrictions the check does not understand, check these by hand: prefers soft foods'
+    )
+  })
+})
@@ -0,0 +1,24 @@
+import { getActiveFloorPlans } from '@/lib/modassembly/supabase/database/floor-plan'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const mainDining = { id: 'main', name: 'Main Dining Room', is_active: true }
+const patio = { id: 'patio', name: 'Patio', is_active: true }
+const privateDining = { id: 'private', name: 'Private Dining', is_active: false }
+const floorPlans = [mainDining, patio, privateDining]
+
+describe('getActiveFloorPlans', () => {
+  it('opens every active plan when the service has none chosen', () => {
+    expect(getActiveFloorPlans(floorPlans, [])).toEqual([mainDining, patio])
+  })
+
+  it('opens only the plans chosen for the service', () => {
+    expect(getActiveFloorPlans(floorPlans, ['patio'])).toEqual([patio])
+  })
+
+  it('never opens an inactive plan, even when chosen', () => {
+    expect(getActiveFloorPlans(floorPlans, ['private', 'main'])).toEqual([
+      mainDining,
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+import {
+  fireNextCourse,
+  summarizeCourses,
+} from '@/lib/modassembly/supabase/database/kds/courses'
+import { calculateTablePriority } from '@/lib/modassembly/supabase/database/kds/table-grouping'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds/types'
+import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/performance-utils', () => ({
+  measureApiCall: (_name: string, fn: () => Promise<unknown>) => fn(),
+}))
+
+const ticket = (overrides: Partial<KDSOrderRouting>): KDSOrderRouting =>
+  ({
+    id: 'routing-1',
+    order_id: 'order-1',
+    station_id: 'station-grill',
+    priority: 1,
+    course: null,
+    held_at: null,
+    fired_at: null,
+    started_at: null,
+    completed_at: null,
+    routed_at: new Date().toISOString(),
+    order: { created_at: new Date().toISOString(), items: ['Burger'] },
+    ...overrides,
+  }) as KDSOrderRouting
+
+describe('course firing', () => {
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase = createMockSupabaseClient()
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  it('fires the next course through the database', async () => {
+    const tableId = '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f'
+    mockSupabase.rpc.mockResolvedValueOnce({ data: 'entree', error: null })
+
+    await expect(fireNextCourse(tableId)).resolves.toBe('entree')
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('fire_next_course', {
+      p_table_id: tableId,
+    })
+  })
+
+  it('rejects malformed table IDs before firing', async () => {
+    await expect(fireNextCourse('table-1')).rejects.toThrow('Invalid table ID')
+    expect(mockSupabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('rolls station tickets up into one state per course', () => {
+    const summary = summarizeCourses([
+      ticket({ course: 'appetizer', completed_at: new Date().toISOString() }),
+      ticket({ course: 'entree', held_at: new Date().toISOString() }),
+      ticket({ course: 'entree', held_at: new Date().toISOString() }),
+    ])
+
+    expect(summary.map(course => course.state)).toEqual([
+      'ready',
+      'held',
+      'none',
+    ])
+    expect(summary[1]).toMatchObject({ tickets: 2, held: 2 })
+  })
+
+  it('ignores held courses and favours earlier courses in table priority', () => {
+    const appetizer = ticket({ course: 'appetizer' })
+    const dessert = ticket({ course: 'dessert' })
+    const heldDessert = ticket({
+      course: 'dessert',
+      held_at: new Date().toISOString(),
+    })
+
+    expect(calculateTablePriority([heldDessert])).toBe(0)
+    expect(calculateTablePriority([appetizer, heldDessert])).toBe(
+      calculateTablePriority([appetizer])
+    )
+    expect(calculateTablePriority([appetizer])).toBeGreaterThan(
+      calculateTablePriority([dessert])
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import {
+  sendCourseToTable,
+  summarizeExpoTables,
+  updateRunnerTaskStatus,
+} from '@/lib/modassembly/supabase/database/kds/expo'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds/types'
+import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/performance-utils', () => ({
+  measureApiCall: (_name: string, fn: () => Promise<unknown>) => fn(),
+}))
+
+const ticket = (overrides: Partial<KDSOrderRouting>): KDSOrderRouting =>
+  ({
+    id: 'routing-1',
+    order_id: 'order-1',
+    station_id: 'station-grill',
+    course: 'entree',
+    held_at: null,
+    completed_at: null,
+    routed_at: '2025-06-20T18:00:00.000Z',
+    items: [],
+    station: { id: 'station-grill', name: 'Grill', type: 'grill', color: '#f00' },
+    order: {
+      items: ['Steak'],
+      order_items: [],
+      table: { id: 'table-1', label: '4' },
+      seat: { id: 'seat-1', label: '1' },
+    },
+    ...overrides,
+  }) as unknown as KDSOrderRouting
+
+describe('expo table readiness', () => {
+  it('holds a course until every station has finished it', () => {
+    const now = new Date().toISOString()
+    const [table] = summarizeExpoTables([
+      ticket({ id: 'grill', completed_at: now }),
+      ticket({
+        id: 'fryer',
+        station_id: 'station-fryer',
+        station: { id: 'station-fryer', name: 'Fryer' } as KDSOrderRouting['station'],
+      }),
+      ticket({ id: 'salad', course: 'appetizer', completed_at: now }),
+    ])
+
+    expect(table.tableLabel).toBe('4')
+    expect(table.courses.map(course => course.course)).toEqual([
+      'appetizer',
+      'entree',
+    ])
+    expect(table.courses[0]).toMatchObject({ ready: true, outstandingStations: [] })
+    expect(table.courses[1]).toMatchObject({
+      ready: false,
+      tickets: 2,
+      completed: 1,
+      outstandingStations: ['Fryer'],
+    })
+  })
+
+  it('counts a ticket whose lines are all done as ready, but not a held one', () => {
+    const [table] = summarizeExpoTables([
+      ticket({
+        items: [
+          {
+            id: 'item-1',
+            order_item_id: null,
+            line_index: 0,
+            started_at: null,
+            completed_at: new Date().toISOString(),
+          },
+        ],
+      }),
+      ticket({ id: 'dessert', course: 'dessert', held_at: new Date().toISOString() }),
+    ])
+
+    expect(table.courses[0].ready).toBe(true)
+    expect(table.courses[1]).toMatchObject({ ready: false, held: 1 })
+  })
+})
+
+describe('sendCourseToTable', () => {
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase = createMockSupabaseClient()
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  it('sends the course through the database and returns the runner task', async () => {
+    const tableId = '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f'
+    const userId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+    mockSupabase.rpc.mockResolvedValueOnce({ data: 'task-1', error: null })
+
+    await expect(sendCourseToTable(tableId, 'entree', userId)).resolves.toBe('task-1')
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('send_course_to_table', {
+      p_table_id: tableId,
+      p_course: 'entree',
+      p_user_id: userId,
+    })
+  })
+
+  it('surfaces the stations still cooking', async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({
+      data: null,
+      error: new Error('Still cooking at: Fryer'),
+    })
+
+    await expect(
+      sendCourseToTable(
+        '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f',
+        null,
+        '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+      )
+    ).rejects.toThrow('Still cooking at: Fryer')
+  })
+})
+
+describe('updateRunnerTaskStatus', () => {
+  const taskId = '6d1f2e3a-4b5c-4d7e-8f90-a1b2c3d4e5f6'
+  const userId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+  let update: jest.Mock
+  let eq: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    eq = jest.fn().mockResolvedValue({ error: null })
+    update = jest.fn(() => ({ eq }))
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue({ from: jest.fn(() => ({ update })) })
+  })
+
+  it('records who picked the task up', async () => {
+    await updateRunnerTaskStatus(taskId, 'picked_up', ` ${userId} `)
+
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'picked_up', picked_up_by: userId })
+    )
+    expect(eq).toHaveBeenCalledWith('id', taskId)
+  })
+
+  it('rejects a runner that is not a user ID', async () => {
+    await expect(
+      updateRunnerTaskStatus(
+        taskId,
+        'picked_up',
+        "'; DROP TABLE runner_tasks; --"
+      )
+    ).rejects.toThrow('Invalid user ID')
+    expect(update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,135 @@
+import {
+  applyTicketItemState,
+  getTicketProgress,
+  isTicketComplete,
+  nextTicketItemState,
+  setTicketItemState,
+} from '@/lib/modassembly/supabase/database/kds/item-progress'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import type {
+  KDSOrderRouting,
+  KDSTicketItemProgress,
+} from '@/lib/modassembly/supabase/database/kds/types'
+import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/performance-utils', () => ({
+  measureApiCall: (_name: string, fn: () => Promise<unknown>) => fn(),
+}))
+
+const item = (
+  overrides: Partial<KDSTicketItemProgress>
+): KDSTicketItemProgress => ({
+  id: 'item-1',
+  order_item_id: null,
+  line_index: 0,
+  started_at: null,
+  completed_at: null,
+  ...overrides,
+})
+
+describe('ticket item progress', () => {
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase = createMockSupabaseClient()
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  it('counts started and done lines on a ticket', () => {
+    const now = new Date().toISOString()
+    expect(
+      getTicketProgress({
+        items: [
+          item({ id: 'a' }),
+          item({ id: 'b', started_at: now }),
+          item({ id: 'c', started_at: now, completed_at: now }),
+        ],
+      })
+    ).toEqual({ total: 3, started: 1, done: 1 })
+  })
+
+  it('treats a ticket as complete when bumped or when every line is done', () => {
+    const now = new Date().toISOString()
+
+    expect(isTicketComplete({ completed_at: now, items: [] })).toBe(true)
+    expect(
+      isTicketComplete({
+        completed_at: null,
+        items: [item({ completed_at: now }), item({ completed_at: now })],
+      })
+    ).toBe(true)
+    expect(
+      isTicketComplete({
+        completed_at: null,
+        items: [item({ completed_at: now }), item({ started_at: now })],
+      })
+    ).toBe(false)
+    // Tickets without tracked lines only complete when bumped
+    expect(isTicketComplete({ completed_at: null, items: [] })).toBe(false)
+  })
+
+  it('cycles a tapped line and mirrors the change optimistically', () => {
+    const now = '2025-06-20T12:00:00.000Z'
+    expect(nextTicketItemState('pending')).toBe('started')
+    expect(nextTicketItemState('started')).toBe('done')
+    expect(nextTicketItemState('done')).toBe('pending')
+
+    const [done, untouched] = applyTicketItemState(
+      [item({ id: 'a' }), item({ id: 'b' })],
+      'a',
+      'done',
+      now
+    )
+    expect(done).toMatchObject({ started_at: now, completed_at: now })
+    expect(untouched).toMatchObject({ started_at: null, completed_at: null })
+
+    const [reset] = applyTicketItemState([done], 'a', 'pending', now)
+    expect(reset).toMatchObject({ started_at: null, completed_at: null })
+  })
+
+  it('updates a line through the database', async () => {
+    const itemId = '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f'
+    const userId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+    mockSupabase.rpc.mockResolvedValueOnce({ data: false, error: null })
+
+    await expect(setTicketItemState(itemId, 'started', userId)).resolves.toBe(
+      false
+    )
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('set_ticket_item_state', {
+      p_item_id: itemId,
+      p_state: 'started',
+      p_user_id: userId,
+    })
+  })
+
+  it('rejects malformed item IDs before updating', async () => {
+    await expect(
+      setTicketItemState('item-1', 'done', 'user-1')
+    ).rejects.toThrow('Invalid item ID or user ID')
+    expect(mockSupabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('shows only the lines routed to the ticket', () => {
+    const routing = {
+      course: null,
+      items: [item({ id: 'ticket-fries', order_item_id: 'line-fries', line_index: 1 })],
+      order: {
+        items: ['Burger', 'Fries'],
+        order_items: [
+          { id: 'line-burger', name: 'Burger', quantity: 1, position: 0, modifiers: [] },
+          { id: 'line-fries', name: 'Fries', quantity: 2, position: 1, modifiers: [] },
+        ],
+      },
+    } as unknown as KDSOrderRouting
+
+    const lines = getTicketDisplayLines(routing)
+    expect(lines.map(line => line.name)).toEqual(['Fries'])
+    expect(lines[0].ticketItem?.id).toBe('ticket-fries')
+  })
+})
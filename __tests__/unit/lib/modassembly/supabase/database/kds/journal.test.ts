@@ -0,0 +1,92 @@
+import {
+  type KDSAction,
+  applyKDSAction,
+  applyKDSActionLocally,
+  isKDSConflictError,
+} from '@/lib/modassembly/supabase/database/kds/journal'
+import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/performance-utils', () => ({
+  measureApiCall: (_name: string, fn: () => Promise<unknown>) => fn(),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/kds/routing', () => ({
+  checkAndCompleteOrder: jest.fn(),
+}))
+
+const routingId = '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f'
+const userId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+const performedAt = '2025-06-20T12:30:00.000Z'
+
+const bump: KDSAction = {
+  type: 'bump',
+  routing_id: routingId,
+  user_id: userId,
+  performed_at: performedAt,
+}
+
+describe('KDS action journal', () => {
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase = createMockSupabaseClient()
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  it('shows actions on the ticket with the time they were made', () => {
+    expect(applyKDSActionLocally(bump)).toEqual({
+      completed_at: performedAt,
+      bumped_at: performedAt,
+      bumped_by: userId,
+    })
+    expect(
+      applyKDSActionLocally({ type: 'recall', routing_id: routingId, performed_at: performedAt })
+    ).toEqual({
+      completed_at: null,
+      bumped_at: null,
+      bumped_by: null,
+      recalled_at: performedAt,
+    })
+  })
+
+  it('sends the action and its timestamp for the server to check', async () => {
+    localStorage.setItem('plater-device-id', 'grill-screen')
+    mockSupabase.rpc.mockResolvedValueOnce({ data: { status: 'duplicate' }, error: null })
+
+    await expect(applyKDSAction(bump)).resolves.toEqual({ status: 'duplicate' })
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('apply_kds_action', {
+      p_routing_id: routingId,
+      p_action: 'bump',
+      p_performed_at: performedAt,
+      p_user_id: userId,
+      p_priority: null,
+      p_device_id: 'grill-screen',
+    })
+  })
+
+  it('reports a ticket changed elsewhere as a conflict', async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({
+      data: { status: 'conflict', reason: 'Already bumped by Sam' },
+      error: null,
+    })
+
+    const error = await applyKDSAction(bump).catch(err => err)
+
+    expect(isKDSConflictError(error)).toBe(true)
+    expect(error.message).toBe('Bump not applied: Already bumped by Sam')
+    expect(error.action).toBe(bump)
+  })
+
+  it('rejects malformed IDs before calling the server', async () => {
+    await expect(applyKDSAction({ ...bump, user_id: 'unknown-user' })).rejects.toThrow(
+      'Invalid routing ID or user ID'
+    )
+    expect(mockSupabase.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  DEFAULT_ROUTING_PRIORITY,
+  createRoutingRule,
+  intelligentOrderRouting,
+  previewOrderRouting,
+} from '@/lib/modassembly/supabase/database/kds/routing'
+import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/performance-utils', () => ({
+  measureApiCall: (_name: string, fn: () => Promise<unknown>) => fn(),
+}))
+
+describe('KDS routing rules', () => {
+  let mockSupabase: ReturnType<typeof createMockSupabaseClient>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase = createMockSupabaseClient()
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  it('routes orders through the shared database rules', async () => {
+    const orderId = '3f2b8a52-7c1e-4d6a-9b0f-1a2b3c4d5e6f'
+
+    await intelligentOrderRouting(orderId)
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('route_order_to_stations', {
+      p_order_id: orderId,
+    })
+  })
+
+  it('rejects malformed order IDs before routing', async () => {
+    await expect(intelligentOrderRouting('not-a-uuid')).rejects.toThrow(
+      'Invalid order ID'
+    )
+    expect(mockSupabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('previews catalog and free-text lines without routing them', async () => {
+    const preview = [
+      {
+        line_index: 0,
+        line_name: 'Chicken bowl',
+        station_type: 'grill',
+        station_id: 'station-grill',
+        station_name: 'Grill Station',
+        rule_id: 'rule-chicken',
+        rule_name: 'Chicken → grill',
+        source: 'rule',
+      },
+    ]
+    mockSupabase.rpc.mockResolvedValueOnce({ data: preview, error: null })
+
+    const result = await previewOrderRouting('food', [
+      { name: 'Chicken bowl' },
+      { name: 'Cheeseburger', menu_item_id: 'item-burger' },
+    ])
+
+    expect(result).toEqual(preview)
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('preview_order_routing', {
+      p_order_type: 'food',
+      p_lines: [
+        { name: 'Chicken bowl', menu_item_id: null },
+        { name: 'Cheeseburger', menu_item_id: 'item-burger' },
+      ],
+    })
+  })
+
+  it('requires rules to say what they match', async () => {
+    await expect(
+      createRoutingRule({
+        name: 'Empty keyword',
+        match_type: 'keyword',
+        pattern: '  ',
+        station_type: 'grill',
+      })
+    ).rejects.toThrow('Routing rule pattern is required')
+
+    await expect(
+      createRoutingRule({
+        name: 'Missing item',
+        match_type: 'menu_item',
+        station_type: 'grill',
+      })
+    ).rejects.toThrow('Menu item rules need a menu item')
+
+    expect(mockSupabase.from).not.toHaveBeenCalled()
+  })
+
+  it('lets drink orders outrank text rules', () => {
+    // The seeded rules live in SQL, so check them against the same defaults
+    const migration = readFileSync(
+      path.join(
+        process.cwd(),
+        'supabase/migrations/20250620030000_kds_routing_rules.sql'
+      ),
+      'utf8'
+    )
+    const keywordSeed = migration.match(
+      /'keyword', k\.keyword, s\.station_type, (\d+)/
+    )
+    const drinkSeeds = Array.from(
+      migration.matchAll(/'order_type', '(?:drink|beverage)', 'bar', (\d+)/g),
+      match => Number(match[1])
+    )
+
+    expect(Number(keywordSeed?.[1])).toBe(DEFAULT_ROUTING_PRIORITY.keyword)
+    expect(drinkSeeds).toEqual([
+      DEFAULT_ROUTING_PRIORITY.order_type,
+      DEFAULT_ROUTING_PRIORITY.order_type,
+    ])
+    expect(DEFAULT_ROUTING_PRIORITY.order_type).toBeGreaterThan(
+      Math.max(DEFAULT_ROUTING_PRIORITY.keyword, DEFAULT_ROUTING_PRIORITY.regex)
+    )
+    expect(DEFAULT_ROUTING_PRIORITY.order_type).toBeLessThan(
+      DEFAULT_ROUTING_PRIORITY.category
+    )
+  })
+})
@@ -0,0 +1,100 @@
+import {
+  createOutOfServiceError,
+  findServiceAt,
+  isItemServedIn,
+  isOutOfServiceError,
+  isServiceOpenAt,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import type { MealService } from '@/types/database'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const service = (overrides: Partial<MealService>): MealService => ({
+  id: 'service-id',
+  name: 'Service',
+  start_time: '00:00:00',
+  end_time: '23:59:00',
+  days_of_week: null,
+  out_of_service_policy: 'warn',
+  position: 0,
+  is_active: true,
+  created_at: '2025-06-20T00:00:00Z',
+  updated_at: '2025-06-20T00:00:00Z',
+  ...overrides,
+})
+
+const breakfast = service({
+  id: 'breakfast',
+  name: 'Breakfast',
+  start_time: '07:00:00',
+  end_time: '10:30:00',
+  position: 1,
+})
+const lunch = service({
+  id: 'lunch',
+  name: 'Lunch',
+  start_time: '11:30:00',
+  end_time: '14:00:00',
+  position: 2,
+})
+
+// Friday 20 June 2025, local time
+const at = (hours: number, minutes = 0) => new Date(2025, 5, 20, hours, minutes)
+
+describe('meal services', () => {
+  describe('isServiceOpenAt', () => {
+    it('is open from the start time up to, not including, the end time', () => {
+      expect(isServiceOpenAt(breakfast, at(7))).toBe(true)
+      expect(isServiceOpenAt(breakfast, at(10, 29))).toBe(true)
+      expect(isServiceOpenAt(breakfast, at(10, 30))).toBe(false)
+      expect(isServiceOpenAt(breakfast, at(6, 59))).toBe(false)
+    })
+
+    it('respects the days of the week and the active flag', () => {
+      expect(isServiceOpenAt({ ...breakfast, days_of_week: [0, 6] }, at(8))).toBe(false)
+      expect(isServiceOpenAt({ ...breakfast, days_of_week: [5] }, at(8))).toBe(true)
+      expect(isServiceOpenAt({ ...breakfast, is_active: false }, at(8))).toBe(false)
+    })
+  })
+
+  describe('findServiceAt', () => {
+    it('returns the running service, or null between services', () => {
+      expect(findServiceAt([lunch, breakfast], at(8))?.id).toBe('breakfast')
+      expect(findServiceAt([lunch, breakfast], at(12))?.id).toBe('lunch')
+      expect(findServiceAt([lunch, breakfast], at(11))).toBeNull()
+    })
+
+    it('resolves overlapping services in calendar order', () => {
+      const brunch = service({
+        id: 'brunch',
+        start_time: '10:00:00',
+        end_time: '13:00:00',
+        position: 3,
+      })
+      expect(findServiceAt([brunch, breakfast], at(10))?.id).toBe('breakfast')
+    })
+  })
+
+  describe('isItemServedIn', () => {
+    it('serves items without services in every service and between them', () => {
+      expect(isItemServedIn({ services: [] }, 'lunch')).toBe(true)
+      expect(isItemServedIn({}, null)).toBe(true)
+    })
+
+    it('limits items with services to those services', () => {
+      const pancakes = { services: [{ service_id: 'breakfast' }] }
+      expect(isItemServedIn(pancakes, 'breakfast')).toBe(true)
+      expect(isItemServedIn(pancakes, 'lunch')).toBe(false)
+      expect(isItemServedIn(pancakes, null)).toBe(false)
+    })
+  })
+
+  it('builds a recognisable out-of-service error', () => {
+    const error = createOutOfServiceError(['Pancakes'], lunch, true)
+
+    expect(isOutOfServiceError(error)).toBe(true)
+    expect(isOutOfServiceError(new Error('other'))).toBe(false)
+    expect(error.message).toBe('Not on the Lunch menu: Pancakes')
+    expect(error.blocking).toBe(true)
+  })
+})
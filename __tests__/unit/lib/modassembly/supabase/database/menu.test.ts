@@ -0,0 +1,234 @@
+import {
+  fetchMenuItemsByIds,
+  formatOrderLine,
+  isMenuItemAvailableAt,
+  resolveItemCourse,
+  resolveItemStationType,
+  setMenuItemAvailability,
+  timeToMinutes,
+} from '@/lib/modassembly/supabase/database/menu'
+import type { MenuAvailabilityWindow } from '@/types/database'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+const menuWindow = (
+  overrides: Partial<MenuAvailabilityWindow>
+): MenuAvailabilityWindow => ({
+  id: 'window-id',
+  menu_item_id: 'item-id',
+  day_of_week: null,
+  start_time: '11:00:00',
+  end_time: '14:00:00',
+  created_at: '2025-06-20T00:00:00Z',
+  ...overrides,
+})
+
+// Friday 20 June 2025, local time
+const at = (hours: number, minutes = 0) => new Date(2025, 5, 20, hours, minutes)
+
+describe('menu catalog', () => {
+  let mockSupabase: { from: jest.Mock }
+
+  beforeEach(() => {
+    mockSupabase = { from: jest.fn() }
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue(mockSupabase)
+  })
+
+  describe('isMenuItemAvailableAt', () => {
+    it("never offers 86'd items", () => {
+      expect(
+        isMenuItemAvailableAt({ is_available: false, availability: [] }, at(12))
+      ).toBe(false)
+    })
+
+    it('offers items without windows all day', () => {
+      expect(
+        isMenuItemAvailableAt({ is_available: true, availability: [] }, at(3))
+      ).toBe(true)
+    })
+
+    it('offers windowed items from the start time up to the end time', () => {
+      const item = { is_available: true, availability: [menuWindow({})] }
+
+      expect(isMenuItemAvailableAt(item, at(11))).toBe(true)
+      expect(isMenuItemAvailableAt(item, at(13, 59))).toBe(true)
+      expect(isMenuItemAvailableAt(item, at(14))).toBe(false)
+      expect(isMenuItemAvailableAt(item, at(10, 59))).toBe(false)
+    })
+
+    it('only applies a window on its day of the week', () => {
+      const friday = {
+        is_available: true,
+        availability: [menuWindow({ day_of_week: 5 })],
+      }
+      const sunday = {
+        is_available: true,
+        availability: [menuWindow({ day_of_week: 0 })],
+      }
+
+      expect(isMenuItemAvailableAt(friday, at(12))).toBe(true)
+      expect(isMenuItemAvailableAt(sunday, at(12))).toBe(false)
+    })
+  })
+
+  describe('resolveItemCourse', () => {
+    it('serves drinks without a course', () => {
+      expect(
+        resolveItemCourse({
+          type: 'drink',
+          category: {
+            id: 'cat',
+            name: 'Desserts',
+            station_type: null,
+            default_course: 'dessert',
+          },
+        })
+      ).toBeNull()
+    })
+
+    it("uses the category's course, else the entrée", () => {
+      expect(
+        resolveItemCourse({
+          type: 'food',
+          category: {
+            id: 'cat',
+            name: 'Starters',
+            station_type: null,
+            default_course: 'appetizer',
+          },
+        })
+      ).toBe('appetizer')
+      expect(resolveItemCourse({ type: 'food', category: null })).toBe('entree')
+    })
+  })
+
+  describe('resolveItemStationType', () => {
+    it("prefers the item's station over its category's", () => {
+      const category = {
+        id: 'cat',
+        name: 'Mains',
+        station_type: 'grill' as const,
+        default_course: null,
+      }
+
+      expect(resolveItemStationType({ station_type: 'fryer', category })).toBe(
+        'fryer'
+      )
+      expect(resolveItemStationType({ station_type: null, category })).toBe(
+        'grill'
+      )
+      expect(
+        resolveItemStationType({ station_type: null, category: null })
+      ).toBeNull()
+    })
+  })
+
+  describe('formatOrderLine', () => {
+    it('shows the quantity and modifiers the kitchen needs', () => {
+      expect(
+        formatOrderLine({
+          name: 'Cheeseburger',
+          quantity: 2,
+          modifiers: [
+            { modifier_id: null, name: 'onion', kind: 'remove' },
+            { modifier_id: null, name: 'Medium Rare', kind: 'temperature' },
+          ],
+        })
+      ).toBe('2x Cheeseburger - NO onion, MEDIUM RARE')
+      expect(formatOrderLine({ name: 'Iced Tea', quantity: 1 })).toBe(
+        'Iced Tea'
+      )
+    })
+  })
+
+  describe('timeToMinutes', () => {
+    it('reads times with or without seconds', () => {
+      expect(timeToMinutes('07:30')).toBe(450)
+      expect(timeToMinutes('14:00:00')).toBe(840)
+    })
+  })
+
+  describe('fetchMenuItemsByIds', () => {
+    it('skips the query when there is nothing to fetch', async () => {
+      expect(await fetchMenuItemsByIds([])).toEqual([])
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
+    it('fetches each item once', async () => {
+      const query = {
+        select: jest.fn().mockReturnThis(),
+        in: jest.fn().mockResolvedValue({ data: [], error: null }),
+      }
+      mockSupabase.from.mockReturnValue(query)
+
+      await fetchMenuItemsByIds(['item-1', 'item-2', 'item-1'])
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('menu_items')
+      expect(query.in).toHaveBeenCalledWith('id', ['item-1', 'item-2'])
+    })
+
+    it('reports query errors', async () => {
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        in: jest
+          .fn()
+          .mockResolvedValue({ data: null, error: { message: 'offline' } }),
+      })
+
+      await expect(fetchMenuItemsByIds(['item-1'])).rejects.toThrow(
+        'Failed to fetch menu items: offline'
+      )
+    })
+  })
+
+  describe('setMenuItemAvailability', () => {
+    let deleteEq: jest.Mock
+    let insert: jest.Mock
+
+    beforeEach(() => {
+      deleteEq = jest.fn().mockResolvedValue({ error: null })
+      insert = jest.fn().mockResolvedValue({ error: null })
+      mockSupabase.from.mockReturnValue({
+        delete: jest.fn(() => ({ eq: deleteEq })),
+        insert,
+      })
+    })
+
+    it("replaces the item's windows", async () => {
+      await setMenuItemAvailability('item-1', [
+        { day_of_week: 1, start_time: '07:00', end_time: '10:30' },
+      ])
+
+      expect(deleteEq).toHaveBeenCalledWith('menu_item_id', 'item-1')
+      expect(insert).toHaveBeenCalledWith([
+        {
+          day_of_week: 1,
+          start_time: '07:00',
+          end_time: '10:30',
+          menu_item_id: 'item-1',
+        },
+      ])
+    })
+
+    it('clears the windows when given none', async () => {
+      await setMenuItemAvailability('item-1', [])
+
+      expect(deleteEq).toHaveBeenCalledWith('menu_item_id', 'item-1')
+      expect(insert).not.toHaveBeenCalled()
+    })
+
+    it('keeps the old windows when they cannot be removed', async () => {
+      deleteEq.mockResolvedValue({ error: { message: 'denied' } })
+
+      await expect(
+        setMenuItemAvailability('item-1', [
+          { day_of_week: null, start_time: '07:00', end_time: '10:30' },
+        ])
+      ).rejects.toThrow('Failed to update menu availability: denied')
+      expect(insert).not.toHaveBeenCalled()
+    })
+  })
+})
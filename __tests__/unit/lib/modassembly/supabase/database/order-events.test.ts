@@ -0,0 +1,80 @@
+import {
+  type OrderEvent,
+  describeOrderEvent,
+  getDeviceId,
+  withEventContext,
+} from '@/lib/modassembly/supabase/database/order-events'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const event = (overrides: Partial<OrderEvent>): OrderEvent => ({
+  id: 'event-id',
+  order_id: 'order-id',
+  routing_id: null,
+  station_id: null,
+  event_type: 'created',
+  previous_state: null,
+  new_state: 'new',
+  actor_id: null,
+  device_id: null,
+  reason: null,
+  metadata: {},
+  created_at: '2025-06-20T12:00:00Z',
+  actor_name: null,
+  station_name: null,
+  ...overrides,
+})
+
+describe('describeOrderEvent', () => {
+  it('names the station a ticket action happened at', () => {
+    expect(
+      describeOrderEvent(
+        event({ event_type: 'bumped', new_state: 'bumped', station_name: 'Grill' })
+      )
+    ).toBe('Bumped at Grill')
+  })
+
+  it('shows status changes from and to', () => {
+    expect(
+      describeOrderEvent(
+        event({
+          event_type: 'status_changed',
+          previous_state: 'in_progress',
+          new_state: 'ready',
+        })
+      )
+    ).toBe('Status changed: In progress → Ready')
+  })
+
+  it('shows the old and new priority', () => {
+    expect(
+      describeOrderEvent(
+        event({
+          event_type: 'priority_changed',
+          station_name: 'Salad',
+          metadata: { from: 1, to: 3 },
+        })
+      )
+    ).toBe('Priority changed at Salad: 1 → 3')
+  })
+})
+
+describe('withEventContext', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('tags writes with this device and a trimmed reason', () => {
+    localStorage.setItem('plater-device-id', 'server-tablet-2')
+
+    expect(withEventContext('  Wrong table  ')).toEqual({
+      event_device_id: 'server-tablet-2',
+      event_reason: 'Wrong table',
+    })
+    expect(withEventContext('   ').event_reason).toBeNull()
+  })
+
+  it('keeps the same device ID across calls', () => {
+    expect(getDeviceId()).toBe(getDeviceId())
+  })
+})
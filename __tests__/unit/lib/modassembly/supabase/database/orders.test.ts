@@ -0,0 +1,259 @@
+import { createOrder } from '@/lib/modassembly/supabase/database/orders'
+import {
+  fetchMenuItems,
+  fetchMenuItemsByIds,
+} from '@/lib/modassembly/supabase/database/menu'
+import { fetchResidentDietaryRestrictions } from '@/lib/modassembly/supabase/database/dietary'
+import { intelligentOrderRouting } from '@/lib/modassembly/supabase/database/kds/routing'
+import type { MenuItemWithDetails, OrderItemModifier } from '@/types/database'
+
+jest.mock('@/lib/modassembly/supabase/client', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/menu', () => ({
+  ...jest.requireActual('@/lib/modassembly/supabase/database/menu'),
+  fetchMenuItems: jest.fn().mockResolvedValue([]),
+  fetchMenuItemsByIds: jest.fn(),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/meal-services', () => ({
+  ...jest.requireActual('@/lib/modassembly/supabase/database/meal-services'),
+  getCurrentService: jest.fn().mockResolvedValue(null),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/server-sections', () => ({
+  ...jest.requireActual('@/lib/modassembly/supabase/database/server-sections'),
+  fetchTableOwner: jest.fn().mockResolvedValue(null),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/dietary', () => ({
+  ...jest.requireActual('@/lib/modassembly/supabase/database/dietary'),
+  fetchResidentDietaryRestrictions: jest.fn().mockResolvedValue([]),
+  recordDietaryViolation: jest.fn(),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/residents', () => ({
+  fetchResidentCareSnapshot: jest.fn().mockResolvedValue(null),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/kds/routing', () => ({
+  intelligentOrderRouting: jest.fn().mockResolvedValue(undefined),
+}))
+
+jest.mock('@/lib/modassembly/supabase/database/users', () => ({
+  getUserName: jest.fn(),
+}))
+
+const menuItem = (
+  overrides: Partial<MenuItemWithDetails>
+): MenuItemWithDetails => ({
+  id: 'item-id',
+  category_id: null,
+  name: 'Item',
+  description: null,
+  type: 'food',
+  station_type: null,
+  price_cents: null,
+  estimated_prep_time: null,
+  allergens: [],
+  diet_tags: [],
+  is_available: true,
+  position: 0,
+  created_at: '2025-06-20T00:00:00Z',
+  updated_at: '2025-06-20T00:00:00Z',
+  category: null,
+  modifiers: [],
+  availability: [],
+  services: [],
+  ...overrides,
+})
+
+const cheeseburger = menuItem({ id: 'item-burger', name: 'Cheeseburger' })
+const icedTea = menuItem({ id: 'item-tea', name: 'Iced Tea', type: 'drink' })
+
+const orderData = {
+  table_id: 'table-1',
+  seat_id: 'seat-1',
+  resident_id: 'resident-1',
+  server_id: 'server-1',
+  transcript: 'cheeseburger and an iced tea',
+  type: 'food' as const,
+}
+
+const orderRow = {
+  ...orderData,
+  id: 'order-1',
+  items: [],
+  status: 'new',
+  created_at: '2025-06-20T12:00:00Z',
+}
+
+describe('createOrder', () => {
+  let orderInsert: jest.Mock
+  let orderDeleteEq: jest.Mock
+  let itemsInsert: jest.Mock
+  let itemsSelect: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    orderInsert = jest.fn(() => ({
+      select: () => ({
+        single: jest.fn().mockResolvedValue({ data: orderRow, error: null }),
+      }),
+    }))
+    orderDeleteEq = jest.fn().mockResolvedValue({ error: null })
+    itemsSelect = jest.fn(async () => ({
+      data: itemsInsert.mock.calls[0][0],
+      error: null,
+    }))
+    itemsInsert = jest.fn(() => ({ select: itemsSelect }))
+    const label = {
+      select: () => ({
+        eq: () => ({
+          single: jest.fn().mockResolvedValue({ data: { label: 1 } }),
+        }),
+      }),
+    }
+    const tables: Record<string, object> = {
+      orders: {
+        insert: orderInsert,
+        delete: jest.fn(() => ({ eq: orderDeleteEq })),
+      },
+      order_items: { insert: itemsInsert },
+      tables: label,
+      seats: label,
+    }
+
+    const { createClient } = require('@/lib/modassembly/supabase/client')
+    createClient.mockReturnValue({
+      from: jest.fn((table: string) => tables[table]),
+    })
+    ;(fetchMenuItemsByIds as jest.Mock).mockResolvedValue([
+      cheeseburger,
+      icedTea,
+    ])
+  })
+
+  it('stores each line with its menu name, quantity, modifiers and course', async () => {
+    const order = await createOrder({
+      ...orderData,
+      lines: [
+        {
+          menu_item_id: 'item-burger',
+          quantity: 80,
+          modifiers: [
+            'medium rare' as unknown as OrderItemModifier,
+            { modifier_id: 'mod-onion', name: 'onion', kind: 'remove' },
+          ],
+          notes: '  cut in half ',
+        },
+        { menu_item_id: 'item-tea' },
+      ],
+    })
+
+    expect(itemsInsert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        order_id: 'order-1',
+        menu_item_id: 'item-burger',
+        name: 'Cheeseburger',
+        quantity: 50,
+        modifiers: [
+          { modifier_id: null, name: 'Medium Rare', kind: 'temperature' },
+          {
+            modifier_id: 'mod-onion',
+            name: 'onion',
+            kind: 'remove',
+            replaces: null,
+          },
+        ],
+        notes: 'cut in half',
+        position: 0,
+        course: 'entree',
+      }),
+      expect.objectContaining({
+        menu_item_id: 'item-tea',
+        name: 'Iced Tea',
+        quantity: 1,
+        modifiers: [],
+        notes: null,
+        position: 1,
+        course: null,
+      }),
+    ])
+    // The display list follows the structured lines
+    expect(orderInsert.mock.calls[0][0][0].items).toEqual([
+      '50x Cheeseburger - MEDIUM RARE, NO onion',
+      'Iced Tea',
+    ])
+    expect(order.order_items).toHaveLength(2)
+    expect(intelligentOrderRouting).toHaveBeenCalledWith('order-1')
+  })
+
+  it('rejects items missing from the catalog before writing anything', async () => {
+    await expect(
+      createOrder({
+        ...orderData,
+        lines: [{ menu_item_id: 'item-burger' }, { menu_item_id: 'item-gone' }],
+      })
+    ).rejects.toThrow('Unknown menu items: item-gone')
+    expect(orderInsert).not.toHaveBeenCalled()
+  })
+
+  it("rejects items that are 86'd", async () => {
+    ;(fetchMenuItemsByIds as jest.Mock).mockResolvedValue([
+      { ...cheeseburger, is_available: false },
+    ])
+
+    await expect(
+      createOrder({ ...orderData, lines: [{ menu_item_id: 'item-burger' }] })
+    ).rejects.toThrow('Menu items not currently available: Cheeseburger')
+    expect(orderInsert).not.toHaveBeenCalled()
+  })
+
+  it('deletes the order again when its lines cannot be saved', async () => {
+    itemsSelect.mockResolvedValue({
+      data: null,
+      error: { message: 'permission denied' },
+    })
+
+    await expect(
+      createOrder({ ...orderData, lines: [{ menu_item_id: 'item-burger' }] })
+    ).rejects.toThrow('Failed to create order items: permission denied')
+    expect(orderDeleteEq).toHaveBeenCalledWith('id', 'order-1')
+    expect(intelligentOrderRouting).not.toHaveBeenCalled()
+  })
+
+  it('warns about free-text items the dietary check could not verify', async () => {
+    ;(fetchResidentDietaryRestrictions as jest.Mock).mockResolvedValueOnce([
+      'dairy-free',
+    ])
+    ;(fetchMenuItems as jest.Mock).mockResolvedValueOnce([cheeseburger])
+
+    const order = await createOrder({
+      ...orderData,
+      items: ['Cheeseburger', 'Mystery stew'],
+    })
+
+    expect(order.dietary_warnings).toEqual([
+      { kind: 'unverified_item', itemName: 'Mystery stew' },
+    ])
+    expect(itemsInsert).not.toHaveBeenCalled()
+  })
+
+  it("warns about restrictions the dietary check doesn't understand", async () => {
+    ;(fetchResidentDietaryRestrictions as jest.Mock).mockResolvedValueOnce([
+      'no red meat on fridays',
+    ])
+
+    const order = await createOrder({
+      ...orderData,
+      lines: [{ menu_item_id: 'item-burger' }],
+    })
+
+    expect(order.dietary_warnings).toEqual([
+      { kind: 'unrecognised_restriction', restriction: 'no red meat on fridays' },
+    ])
+  })
+})
@@ -0,0 +1,122 @@
+import {
+  type ResidentDirectoryEntry,
+  exportResidentDirectoryCsv,
+  parseResidentDirectoryCsv,
+} from '@/lib/modassembly/supabase/database/residents'
+import type { ResidentDetails } from '@/types/database'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const ALICE = '11111111-1111-4111-8111-111111111111'
+const BOB = '22222222-2222-4222-8222-222222222222'
+
+const tables = [
+  { id: 'table-1', label: '1' },
+  { id: 'table-2', label: '2' },
+]
+
+const details = (overrides: Partial<ResidentDetails>): ResidentDetails => ({
+  user_id: ALICE,
+  photo_path: null,
+  room_number: null,
+  preferred_table_id: null,
+  preferred_seat: null,
+  texture_diet: null,
+  fluid_thickness: null,
+  assistance_notes: null,
+  updated_by: null,
+  created_at: '2025-06-20T00:00:00Z',
+  updated_at: '2025-06-20T00:00:00Z',
+  ...overrides,
+})
+
+const residents: ResidentDirectoryEntry[] = [
+  {
+    id: ALICE,
+    name: 'Alice Smith',
+    dietary_restrictions: ['gluten', 'dairy'],
+    details: details({
+      room_number: '12B',
+      preferred_table_id: 'table-2',
+      preferred_seat: 3,
+      texture_diet: 'minced_moist',
+      fluid_thickness: 'mildly_thick',
+      assistance_notes: 'Cut food, "no" straws',
+    }),
+    photo_url: null,
+  },
+  { id: BOB, name: 'Bob Jones', dietary_restrictions: [], details: null, photo_url: null },
+]
+
+describe('resident directory', () => {
+  it('round-trips the directory through CSV', () => {
+    const csv = exportResidentDirectoryCsv(residents, tables)
+    const { rows, errors } = parseResidentDirectoryCsv(csv, residents, tables)
+
+    expect(errors).toEqual([])
+    expect(rows[0]).toEqual({
+      user_id: ALICE,
+      name: 'Alice Smith',
+      details: {
+        room_number: '12B',
+        preferred_table_id: 'table-2',
+        preferred_seat: 3,
+        texture_diet: 'minced_moist',
+        fluid_thickness: 'mildly_thick',
+        assistance_notes: 'Cut food, "no" straws',
+      },
+      dietary_restrictions: ['gluten', 'dairy'],
+    })
+    expect(rows[1].details).toEqual({
+      room_number: null,
+      preferred_table_id: null,
+      preferred_seat: null,
+      texture_diet: null,
+      fluid_thickness: null,
+      assistance_notes: null,
+    })
+  })
+
+  it('accepts labels, matches names loosely and only sets columns in the file', () => {
+    const { rows, errors } = parseResidentDirectoryCsv(
+      'Name,Texture Diet,Fluid Thickness\n  alice   SMITH ,Soft & bite-sized,Moderately thick\n',
+      residents,
+      tables
+    )
+
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      {
+        user_id: ALICE,
+        name: 'Alice Smith',
+        details: {
+          texture_diet: 'soft_bite_sized',
+          fluid_thickness: 'moderately_thick',
+        },
+        dietary_restrictions: undefined,
+      },
+    ])
+  })
+
+  it('reports rows it cannot import by line', () => {
+    const { rows, errors } = parseResidentDirectoryCsv(
+      [
+        'name,preferred_table,preferred_seat,texture_diet',
+        'Carol King,,,',
+        'Alice Smith,9,1,',
+        'Bob Jones,,2,',
+        'Bob Jones,1,1,crunchy',
+      ].join('\n'),
+      residents,
+      tables
+    )
+
+    expect(rows).toEqual([])
+    expect(errors).toEqual([
+      { line: 2, name: 'Carol King', reason: 'No resident with this name' },
+      { line: 3, name: 'Alice Smith', reason: 'Unknown table "9"' },
+      { line: 4, name: 'Bob Jones', reason: 'A preferred seat needs a preferred table' },
+      { line: 5, name: 'Bob Jones', reason: 'Unknown texture diet "crunchy"' },
+    ])
+  })
+})
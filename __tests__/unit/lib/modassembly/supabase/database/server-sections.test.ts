@@ -0,0 +1,148 @@
+import {
+  createOutOfSectionError,
+  isOutOfSectionError,
+  resolveTableOwners,
+  summarizeServerMetrics,
+  toServiceDate,
+} from '@/lib/modassembly/supabase/database/server-sections'
+import type { SectionAssignment, TableTransfer } from '@/types/database'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+const assignment = (
+  overrides: Partial<SectionAssignment>
+): SectionAssignment => ({
+  id: 'assignment-id',
+  zone_id: 'patio',
+  server_id: 'alice',
+  service_date: '2025-06-20',
+  service_id: null,
+  assigned_by: null,
+  created_at: '2025-06-20T08:00:00Z',
+  updated_at: '2025-06-20T08:00:00Z',
+  ...overrides,
+})
+
+const transfer = (overrides: Partial<TableTransfer>): TableTransfer => ({
+  id: 'transfer-id',
+  table_id: 'table-1',
+  from_server_id: 'alice',
+  to_server_id: 'bob',
+  service_date: '2025-06-20',
+  service_id: null,
+  reason: null,
+  transferred_by: 'alice',
+  created_at: '2025-06-20T12:00:00Z',
+  ...overrides,
+})
+
+const tables = [
+  { id: 'table-1', zone_id: 'patio' },
+  { id: 'table-2', zone_id: 'patio' },
+  { id: 'table-3', zone_id: 'window' },
+  { id: 'table-4', zone_id: null },
+]
+
+describe('resolveTableOwners', () => {
+  it('gives each table the server assigned its section', () => {
+    const owners = resolveTableOwners(
+      tables,
+      [assignment({}), assignment({ zone_id: 'window', server_id: 'bob' })],
+      []
+    )
+
+    expect(Object.fromEntries(owners)).toEqual({
+      'table-1': 'alice',
+      'table-2': 'alice',
+      'table-3': 'bob',
+    })
+  })
+
+  it("prefers the service's assignment over the whole-day one", () => {
+    const owners = resolveTableOwners(
+      tables,
+      [
+        assignment({ server_id: 'carol', service_id: 'lunch' }),
+        assignment({}),
+      ],
+      []
+    )
+
+    expect(owners.get('table-1')).toBe('carol')
+  })
+
+  it('lets the latest transfer win over the section', () => {
+    const owners = resolveTableOwners(
+      tables,
+      [assignment({})],
+      [
+        transfer({ to_server_id: 'carol', created_at: '2025-06-20T13:00:00Z' }),
+        transfer({}),
+        transfer({ table_id: 'table-4', from_server_id: null }),
+      ]
+    )
+
+    expect(owners.get('table-1')).toBe('carol')
+    expect(owners.get('table-2')).toBe('alice')
+    expect(owners.get('table-4')).toBe('bob')
+  })
+})
+
+describe('summarizeServerMetrics', () => {
+  it('counts orders for the section owner, not whoever took them', () => {
+    const owners = new Map([
+      ['table-1', 'alice'],
+      ['table-2', 'alice'],
+      ['table-3', 'bob'],
+    ])
+    const metrics = summarizeServerMetrics(
+      owners,
+      [
+        { server_id: 'alice', section_server_id: 'alice', status: 'new' },
+        { server_id: 'bob', section_server_id: 'alice', status: 'delivered' },
+        { server_id: 'bob', section_server_id: null, status: 'ready' },
+      ],
+      [transfer({ table_id: 'table-3' })]
+    )
+
+    expect(metrics).toEqual([
+      {
+        serverId: 'alice',
+        tables: 2,
+        orders: 2,
+        openOrders: 1,
+        coveredOrders: 0,
+        transfersIn: 0,
+        transfersOut: 1,
+      },
+      {
+        serverId: 'bob',
+        tables: 1,
+        orders: 1,
+        openOrders: 1,
+        coveredOrders: 1,
+        transfersIn: 1,
+        transfersOut: 0,
+      },
+    ])
+  })
+})
+
+describe('toServiceDate', () => {
+  it('uses the local calendar date', () => {
+    expect(toServiceDate(new Date(2025, 0, 5, 23, 30))).toBe('2025-01-05')
+  })
+})
+
+describe('out-of-section errors', () => {
+  it('names the server whose section it is', () => {
+    const error = createOutOfSectionError('table-1', {
+      id: 'alice',
+      name: 'Alice',
+    })
+
+    expect(error.message).toBe("Table is in Alice's section")
+    expect(isOutOfSectionError(error)).toBe(true)
+    expect(isOutOfSectionError(new Error('other'))).toBe(false)
+  })
+})
@@ -1,4 +1,11 @@
-import { getOrderSuggestions, getPopularItems } from '@/lib/modassembly/supabase/database/suggestions'
+import {
+  getOrderSuggestions,
+  getPopularItems,
+  getPredictedResident,
+  groupUsualOrders,
+  rankSeatResidents,
+  withPreferredResidents,
+} from '@/lib/modassembly/supabase/database/suggestions'
 import { createMockSupabaseClient } from '@/__tests__/utils/test-utils'
 
 // Mock the Supabase client
@@ -6,16 +13,32 @@ jest.mock('@/lib/modassembly/supabase/client', () => ({
   createClient: jest.fn(),
 }))
 
+jest.mock('@/lib/modassembly/supabase/database/orders', () => ({
+  matchFreeTextItems: jest.fn(),
+  toDietaryCheckItem: jest.fn(),
+}))
+
 // Mock the security utils
 jest.mock('@/lib/utils/security', () => ({
   sanitizeOrderItems: jest.fn((items) => items.filter(item => item && typeof item === 'string')),
 }))
 
+// One builder for every from() call, so a test can set what the end of the
+// chain resolves to
+const createQueryBuilder = () => {
+  const builder: Record<string, jest.Mock> = {}
+  for (const method of ['select', 'eq', 'neq', 'gte', 'order', 'limit']) {
+    builder[method] = jest.fn(() => builder)
+  }
+  return builder
+}
+
 describe('Order Suggestions', () => {
   let mockSupabase: ReturnType<typeof createMockSupabaseClient>
 
   beforeEach(() => {
     mockSupabase = createMockSupabaseClient()
+    mockSupabase.from.mockReturnValue(createQueryBuilder() as any)
     const { createClient } = require('@/lib/modassembly/supabase/client')
     createClient.mockReturnValue(mockSupabase)
     jest.clearAllMocks()
@@ -36,6 +59,8 @@ describe('Order Suggestions', () => {
         data: mockOrders,
         error: null,
       })
+      // Forget the calls made setting up the chain
+      jest.clearAllMocks()
     })
 
     it('returns empty array when no userId provided', async () => {
@@ -190,6 +215,8 @@ describe('Order Suggestions', () => {
         data: mockOrdersWithItems,
         error: null,
       })
+      // Forget the calls made setting up the chain
+      jest.clearAllMocks()
     })
 
     it('returns empty array when no orders found', async () => {
@@ -252,13 +279,39 @@ describe('Order Suggestions', () => {
       expect(result).toEqual(['chicken', 'pasta', 'valid-item'])
     })
 
+    it('counts catalog order lines by quantity instead of free text', async () => {
+      mockSupabase.from().select().eq().gte().limit.mockResolvedValue({
+        data: [
+          {
+            items: ['2x Cheeseburger'],
+            order_items: [
+              { name: 'Cheeseburger', quantity: 2, menu_item_id: 'item-1' },
+            ],
+          },
+          {
+            items: ['Caesar Salad', 'Cheeseburger'],
+            order_items: [
+              { name: 'Caesar Salad', quantity: 1, menu_item_id: 'item-2' },
+              { name: 'Cheeseburger', quantity: 1, menu_item_id: 'item-1' },
+            ],
+          },
+          { items: ['caesar salad'] }, // Legacy order without catalog lines
+        ],
+        error: null,
+      })
+
+      const result = await getPopularItems('food', 10)
+
+      expect(result).toEqual(['Cheeseburger', 'Caesar Salad', 'caesar salad'])
+    })
+
     it('uses correct query parameters', async () => {
-      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
-      
       await getPopularItems('drink', 5)
 
       expect(mockSupabase.from).toHaveBeenCalledWith('orders')
-      expect(mockSupabase.from().select).toHaveBeenCalledWith('items')
+      expect(mockSupabase.from().select).toHaveBeenCalledWith(
+        'items, order_items(name, quantity, menu_item_id)'
+      )
       expect(mockSupabase.from().select().eq).toHaveBeenCalledWith('type', 'drink')
       expect(mockSupabase.from().select().eq().gte).toHaveBeenCalledWith(
         'created_at',
@@ -300,15 +353,103 @@ describe('Order Suggestions', () => {
     })
   })
 
-  describe('Placeholder Functions', () => {
-    it('getSeatResidentSuggestions returns empty array', async () => {
-      const result = await require('@/lib/modassembly/supabase/database/suggestions').getSeatResidentSuggestions('table-1', 1, 3)
-      expect(result).toEqual([])
+  describe('resident prediction', () => {
+    const ALICE = '11111111-1111-4111-8111-111111111111'
+    const BOB = '22222222-2222-4222-8222-222222222222'
+    const lunch = (day: number, minute = 0) =>
+      new Date(2025, 5, day, 12, minute).toISOString()
+    const dinner = (day: number) => new Date(2025, 5, day, 18, 0).toISOString()
+
+    it('ranks residents by meals at this seat in this meal period', () => {
+      const ranked = rankSeatResidents(
+        [
+          // Two orders in one lunch count as one meal
+          { resident_id: ALICE, created_at: lunch(1), seats: { label: 2 } },
+          { resident_id: ALICE, created_at: lunch(1, 20), seats: { label: 2 } },
+          { resident_id: ALICE, created_at: lunch(2), seats: { label: 2 } },
+          { resident_id: BOB, created_at: dinner(1), seats: { label: 2 } },
+          { resident_id: BOB, created_at: lunch(3), seats: { label: 1 } },
+          { resident_id: 'guest-user', created_at: lunch(3), seats: { label: 2 } },
+        ],
+        2,
+        'lunch'
+      )
+
+      expect(ranked).toEqual([
+        { resident_id: ALICE, visits: 2, score: 2 },
+        { resident_id: BOB, visits: 0, score: 0.75 },
+      ])
     })
 
-    it('getTimeBasedResidentSuggestions returns empty array', async () => {
-      const result = await require('@/lib/modassembly/supabase/database/suggestions').getTimeBasedResidentSuggestions(12, 2)
-      expect(result).toEqual([])
+    it('only pre-selects a clear regular', () => {
+      const suggestion = (resident_id: string, visits: number) => ({
+        resident_id,
+        name: resident_id,
+        dietary_restrictions: [],
+        visits,
+        score: visits,
+      })
+
+      expect(getPredictedResident([suggestion(ALICE, 3), suggestion(BOB, 1)])?.resident_id).toBe(
+        ALICE
+      )
+      expect(getPredictedResident([suggestion(ALICE, 1)])).toBeNull()
+      expect(getPredictedResident([suggestion(ALICE, 2), suggestion(BOB, 2)])).toBeNull()
+      expect(getPredictedResident([])).toBeNull()
+    })
+
+    it('puts residents whose usual seat this is first and pre-selects them', () => {
+      const ranked = withPreferredResidents(
+        [
+          { resident_id: ALICE, visits: 2, score: 2 },
+          { resident_id: BOB, visits: 0, score: 0.75 },
+        ],
+        [BOB]
+      )
+
+      expect(ranked).toEqual([
+        { resident_id: BOB, visits: 0, score: 0.75, preferred: true },
+        { resident_id: ALICE, visits: 2, score: 2 },
+      ])
+
+      const suggestions = ranked.map(entry => ({
+        ...entry,
+        name: entry.resident_id,
+        dietary_restrictions: [],
+      }))
+      expect(getPredictedResident(suggestions)?.resident_id).toBe(BOB)
+      expect(
+        getPredictedResident(suggestions.map(entry => ({ ...entry, preferred: true })))
+      ).toBeNull()
+    })
+  })
+
+  describe('groupUsualOrders', () => {
+    it('keeps the latest catalog lines for each repeated combo', () => {
+      const usual = groupUsualOrders([
+        {
+          items: ['Tea', 'Oatmeal'],
+          created_at: '2025-06-03T08:00:00.000Z',
+          order_items: [
+            { menu_item_id: 'tea', quantity: 1, modifiers: [], notes: null, course: null, position: 1 },
+            { menu_item_id: 'oats', quantity: 1, modifiers: [], notes: 'warm', course: null, position: 0 },
+          ],
+        },
+        { items: ['Oatmeal', 'Tea'], created_at: '2025-06-02T08:00:00.000Z', order_items: [] },
+        { items: ['Toast'], created_at: '2025-06-01T08:00:00.000Z', order_items: [] },
+      ])
+
+      expect(usual).toHaveLength(2)
+      expect(usual[0]).toMatchObject({
+        items: ['Tea', 'Oatmeal'],
+        frequency: 2,
+        lastOrderedAt: '2025-06-03T08:00:00.000Z',
+      })
+      expect(usual[0].lines.map(line => line.menu_item_id)).toEqual(['oats', 'tea'])
+      expect(usual[0].lines[0].notes).toBe('warm')
+
+      // Orders from before the catalog reorder as free text
+      expect(usual[1]).toMatchObject({ items: ['Toast'], lines: [], frequency: 1 })
     })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,115 @@
+import {
+  type TurnRecord,
+  formatElapsed,
+  getNextTableState,
+  summarizeTurnTimes,
+} from '@/lib/modassembly/supabase/database/table-lifecycle'
+
+jest.mock('@/lib/modassembly/supabase/client')
+
+// Minutes after 18:00 on the same evening
+const at = (minutes: number) =>
+  new Date(Date.UTC(2025, 5, 20, 18, minutes)).toISOString()
+
+const turn = (overrides: Partial<TurnRecord>): TurnRecord => ({
+  id: 'turn-id',
+  table_id: 'table-1',
+  table_label: '1',
+  service_id: 'dinner',
+  service_name: 'Dinner',
+  seated_at: at(0),
+  ordered_at: at(10),
+  served_at: at(30),
+  finished_at: at(70),
+  bussing_at: at(75),
+  available_at: at(80),
+  created_at: at(0),
+  ...overrides,
+})
+
+describe('getNextTableState', () => {
+  it('walks the turn and starts over when the table is reset', () => {
+    expect(getNextTableState('available')).toBe('seated')
+    expect(getNextTableState('served')).toBe('finished')
+    expect(getNextTableState('bussing')).toBe('available')
+  })
+})
+
+describe('formatElapsed', () => {
+  const since = at(0)
+
+  it('shows minutes and seconds under an hour', () => {
+    expect(formatElapsed(since, Date.parse(at(12)) + 5000)).toBe('12:05')
+  })
+
+  it('adds hours for long turns', () => {
+    expect(formatElapsed(since, Date.parse(at(95)))).toBe('1:35:00')
+  })
+
+  it('never counts below zero', () => {
+    expect(formatElapsed(at(5), Date.parse(at(0)))).toBe('0:00')
+  })
+})
+
+describe('summarizeTurnTimes', () => {
+  it('averages each part of the turn per table', () => {
+    const [summary] = summarizeTurnTimes(
+      [
+        turn({}),
+        turn({
+          seated_at: at(100),
+          ordered_at: at(120),
+          served_at: at(150),
+          finished_at: at(190),
+          available_at: at(200),
+        }),
+      ],
+      'table'
+    )
+
+    expect(summary).toEqual({
+      key: 'table-1',
+      label: 'Table 1',
+      turns: 2,
+      toOrder: 15,
+      kitchen: 25,
+      dining: 40,
+      reset: 10,
+      total: 90,
+    })
+  })
+
+  it('leaves out turns still in progress and skipped parts', () => {
+    const [summary] = summarizeTurnTimes(
+      [
+        turn({ served_at: null, finished_at: null }),
+        turn({ available_at: null }),
+      ],
+      'table'
+    )
+
+    expect(summary.turns).toBe(1)
+    expect(summary.kitchen).toBeNull()
+    expect(summary.dining).toBeNull()
+    expect(summary.total).toBe(80)
+  })
+
+  it('groups by meal period with turns outside services last', () => {
+    const summaries = summarizeTurnTimes(
+      [
+        turn({ service_id: null, service_name: null }),
+        turn({ table_id: 'table-2', table_label: '2' }),
+        turn({ table_id: 'table-3', table_label: '3' }),
+        turn({ table_id: 'table-3', table_label: '3', available_at: null }),
+        turn({ service_id: 'brunch', service_name: 'Brunch' }),
+      ],
+      'service'
+    )
+
+    expect(summaries.map(summary => [summary.label, summary.turns])).toEqual([
+      ['Brunch', 1],
+      ['Dinner', 2],
+      ['Outside services', 1],
+    ])
+  })
+})
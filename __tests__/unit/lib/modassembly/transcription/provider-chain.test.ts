@@ -0,0 +1,109 @@
+/** @jest-environment node */
+import {
+  type TranscriptionProvider,
+  TranscriptionProviderChain,
+  type TranscriptionProviderName,
+  getProviderOrder,
+  parseLocalSttAddress,
+} from '@/lib/modassembly/transcription'
+
+const provider = (
+  name: TranscriptionProviderName,
+  transcribe: TranscriptionProvider['transcribe'],
+  configured = true
+): TranscriptionProvider => ({
+  name,
+  costPerMinute: name === 'openai' ? 0.006 : 0,
+  isConfigured: () => configured,
+  transcribe: jest.fn(transcribe),
+})
+
+const audio = new Blob([new Uint8Array(1000)], { type: 'audio/webm' })
+
+describe('transcription provider selection', () => {
+  it('uses the configured order and defaults per environment', () => {
+    expect(getProviderOrder({ TRANSCRIPTION_PROVIDERS: 'local, openai, bogus' })).toEqual([
+      'local',
+      'openai',
+    ])
+    expect(getProviderOrder({ NODE_ENV: 'production' })).toEqual(['openai', 'local'])
+    expect(getProviderOrder({ NODE_ENV: 'development' })).toEqual(['local', 'openai'])
+  })
+
+  it('parses Unix socket and TCP addresses for the local engine', () => {
+    expect(parseLocalSttAddress('/run/stt.sock')).toEqual({ path: '/run/stt.sock' })
+    expect(parseLocalSttAddress('unix:/run/stt.sock')).toEqual({ path: '/run/stt.sock' })
+    expect(parseLocalSttAddress('tcp://127.0.0.1:8910')).toEqual({
+      host: '127.0.0.1',
+      port: 8910,
+    })
+    expect(parseLocalSttAddress('')).toBeNull()
+  })
+})
+
+describe('TranscriptionProviderChain', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fails over to the next provider and reports which one served', async () => {
+    const openai = provider('openai', async () => {
+      throw new Error('429 rate limit')
+    })
+    const local = provider('local', async () => ({
+      text: 'two coffees',
+      confidence: 0.9,
+      model: 'whisper.cpp',
+    }))
+    const chain = new TranscriptionProviderChain([openai, local])
+
+    const result = await chain.transcribe(audio, { timeoutMs: 1000 })
+
+    expect(result).toMatchObject({ text: 'two coffees', provider: 'local' })
+    expect(result.failedOver).toEqual([{ provider: 'openai', error: '429 rate limit' }])
+
+    // The failed provider moves to the back until its cooldown passes
+    expect(chain.getCandidates().map(candidate => candidate.name)).toEqual([
+      'local',
+      'openai',
+    ])
+  })
+
+  it('keeps to free engines when only those are within budget', async () => {
+    const openai = provider('openai', async () => ({
+      text: 'soup',
+      confidence: 0.9,
+      model: 'whisper-1',
+    }))
+    const chain = new TranscriptionProviderChain([openai])
+
+    await expect(
+      chain.transcribe(audio, { timeoutMs: 1000, maxCostPerMinute: 0 })
+    ).rejects.toThrow('No transcription provider within budget')
+    expect(openai.transcribe).not.toHaveBeenCalled()
+
+    const local = provider('local', async () => ({
+      text: 'soup',
+      confidence: 0.8,
+      model: 'whisper.cpp',
+    }))
+    const cheapest = new TranscriptionProviderChain([openai, local])
+    expect(
+      cheapest.getCandidates(Date.now(), { preferCheapest: true }).map(p => p.name)
+    ).toEqual(['local', 'openai'])
+  })
+
+  it('skips unconfigured providers and explains when none are left', async () => {
+    const chain = new TranscriptionProviderChain([
+      provider('openai', async () => ({ text: '', confidence: 0, model: 'whisper-1' }), false),
+    ])
+
+    await expect(chain.transcribe(audio, { timeoutMs: 1000 })).rejects.toThrow(
+      'No transcription provider configured'
+    )
+  })
+})
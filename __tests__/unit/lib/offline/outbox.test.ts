@@ -0,0 +1,188 @@
+/** @jest-environment node */
+import { MemoryOfflineStore } from '@/lib/offline/memory-store'
+import {
+  Outbox,
+  type OutboxOptions,
+  getRetryDelay,
+  isNetworkError,
+} from '@/lib/offline/outbox'
+import type { OutboxEntry } from '@/lib/offline/types'
+
+type Payload = { item: string }
+
+const networkError = () => new Error('Failed to create order: TypeError: Failed to fetch')
+
+function createOutbox(
+  send: OutboxOptions<Payload, string>['send'],
+  ordered = false
+) {
+  let clock = 1000
+  let online = true
+  let nextId = 0
+  const outbox = new Outbox<Payload, string>({
+    store: new MemoryOfflineStore<OutboxEntry<Payload>>(),
+    send,
+    now: () => clock,
+    random: () => 1,
+    isOnline: () => online,
+    createId: () => `key-${++nextId}`,
+    ordered,
+  })
+  return {
+    outbox,
+    advance: (ms: number) => {
+      clock += ms
+    },
+    setOnline: (value: boolean) => {
+      online = value
+    },
+  }
+}
+
+describe('Outbox', () => {
+  it('sends at once and keeps nothing when the server answers', async () => {
+    const send = jest.fn(async (payload: Payload) => `order for ${payload.item}`)
+    const { outbox } = createOutbox(send)
+
+    const outcome = await outbox.submit({ item: 'Soup' }, 'Table 1')
+
+    expect(outcome).toEqual({ status: 'sent', result: 'order for Soup' })
+    expect(send).toHaveBeenCalledWith({ item: 'Soup' }, 'key-1')
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('queues offline and replays in order when the connection returns', async () => {
+    const sent: string[] = []
+    const { outbox, setOnline } = createOutbox(async payload => {
+      sent.push(payload.item)
+      return payload.item
+    })
+
+    setOnline(false)
+    await outbox.submit({ item: 'Soup' }, 'Table 1')
+    await outbox.submit({ item: 'Tea' }, 'Table 2')
+    expect(sent).toEqual([])
+
+    setOnline(true)
+    expect(await outbox.sync()).toEqual({ sent: 2, pending: 0, conflicts: 0 })
+    expect(sent).toEqual(['Soup', 'Tea'])
+  })
+
+  it('backs off after a network failure and stops later entries overtaking', async () => {
+    const send = jest.fn<Promise<string>, [Payload, string]>()
+    const { outbox, advance } = createOutbox(send)
+
+    send.mockRejectedValue(networkError())
+    await outbox.submit({ item: 'Soup' }, 'Table 1')
+    await outbox.submit({ item: 'Tea' }, 'Table 2')
+    send.mockClear()
+
+    // Not due yet
+    expect(await outbox.sync()).toEqual({ sent: 0, pending: 2, conflicts: 0 })
+    expect(send).not.toHaveBeenCalled()
+
+    advance(2000)
+    send.mockResolvedValue('ok')
+    expect(await outbox.sync()).toMatchObject({ sent: 2, pending: 0 })
+    expect(send.mock.calls.map(([payload]) => payload.item)).toEqual(['Soup', 'Tea'])
+  })
+
+  it('replays with the same key, so a lost response cannot duplicate the order', async () => {
+    const created = new Map<string, Payload>()
+    let dropResponse = true
+    const { outbox, advance } = createOutbox(async (payload, key) => {
+      created.set(key, payload)
+      if (dropResponse) {
+        dropResponse = false
+        throw networkError()
+      }
+      return key
+    })
+
+    const outcome = await outbox.submit({ item: 'Soup' }, 'Table 1')
+    expect(outcome.status).toBe('queued')
+
+    advance(60000)
+    await outbox.sync()
+
+    expect(Array.from(created.keys())).toEqual(['key-1'])
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('hands a refusal on the first send back to the caller', async () => {
+    const { outbox } = createOutbox(async () => {
+      throw Object.assign(new Error('Dietary conflict'), { code: 'DIETARY_VIOLATION' })
+    })
+
+    await expect(outbox.submit({ item: 'Soup' }, 'Table 1')).rejects.toThrow(
+      'Dietary conflict'
+    )
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('marks entries the server refuses on replay for review', async () => {
+    const send = jest.fn<Promise<string>, [Payload, string]>()
+    const { outbox, advance } = createOutbox(send)
+
+    send.mockRejectedValueOnce(networkError())
+    await outbox.submit({ item: 'Soup' }, 'Table 1')
+
+    advance(60000)
+    send.mockRejectedValueOnce(
+      Object.assign(new Error('Not on the lunch menu'), { code: 'OUT_OF_SERVICE' })
+    )
+    expect(await outbox.sync()).toEqual({ sent: 0, pending: 0, conflicts: 1 })
+
+    const [entry] = await outbox.list()
+    expect(entry).toMatchObject({
+      status: 'conflict',
+      last_error: 'Not on the lunch menu',
+      error_code: 'OUT_OF_SERVICE',
+    })
+
+    // Conflicts are left alone until someone retries them
+    send.mockResolvedValue('ok')
+    await outbox.sync()
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(await outbox.retry(entry.id)).toMatchObject({ sent: 1, conflicts: 0 })
+  })
+
+  it('keeps ordered work behind entries still waiting to sync', async () => {
+    const send = jest.fn<Promise<string>, [Payload, string]>()
+    const { outbox, advance } = createOutbox(send, true)
+
+    send.mockRejectedValueOnce(networkError())
+    await outbox.submit({ item: 'Bump' }, 'Ticket 1')
+
+    // The connection is back but the bump hasn't replayed yet
+    send.mockResolvedValue('ok')
+    const outcome = await outbox.submit({ item: 'Recall' }, 'Ticket 1')
+    expect(outcome.status).toBe('queued')
+    expect(send).toHaveBeenCalledTimes(1)
+
+    advance(2000)
+    await outbox.sync()
+    expect(send.mock.calls.map(([payload]) => payload.item)).toEqual([
+      'Bump',
+      'Bump',
+      'Recall',
+    ])
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('doubles each attempt up to the cap', () => {
+    expect(getRetryDelay(1, () => 1)).toBe(2000)
+    expect(getRetryDelay(3, () => 1)).toBe(8000)
+    expect(getRetryDelay(20, () => 1)).toBe(5 * 60 * 1000)
+    expect(getRetryDelay(1, () => 0)).toBe(1000)
+  })
+})
+
+describe('isNetworkError', () => {
+  it('tells unreachable servers from refusals', () => {
+    expect(isNetworkError(networkError())).toBe(true)
+    expect(isNetworkError(new Error('Dietary conflict'))).toBe(false)
+    expect(isNetworkError(new Error('Dietary conflict'), false)).toBe(true)
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Order Modifier Tests
+ * Verifies classification and ticket formatting of line modifiers
+ */
+
+import {
+  formatModifier,
+  getModifierThickness,
+  normalizeModifier,
+  parseModifierPhrase,
+  sortModifiers,
+} from '@/lib/order-modifiers'
+import type { OrderItemModifier } from '@/types/database'
+
+describe('parseModifierPhrase', () => {
+  it.each([
+    ['no onion', { kind: 'remove', name: 'onion' }],
+    ['with no ice', { kind: 'remove', name: 'ice' }],
+    ['hold the mayo', { kind: 'remove', name: 'mayo' }],
+    ['add bacon', { kind: 'add', name: 'bacon' }],
+    ['extra pickles', { kind: 'add', name: 'extra pickles' }],
+    ['medium-rare', { kind: 'temperature', name: 'Medium Rare' }],
+    ['cooked well done', { kind: 'temperature', name: 'Well Done' }],
+    ['salad instead of fries', { kind: 'substitute', name: 'salad', replaces: 'fries' }],
+    ['sub salad for the fries', { kind: 'substitute', name: 'salad', replaces: 'fries' }],
+    ['swap fries for salad', { kind: 'substitute', name: 'salad', replaces: 'fries' }],
+    ['mildly thick', { kind: 'thickness', name: 'Mildly thick' }],
+    ['honey-thick', { kind: 'thickness', name: 'Moderately thick' }],
+  ])('classifies "%s"', (phrase, expected) => {
+    expect(parseModifierPhrase(phrase)).toMatchObject(expected)
+  })
+
+  it('leaves free-form instructions unclassified', () => {
+    expect(parseModifierPhrase('dressing on the side')).toBeNull()
+    expect(parseModifierPhrase('  ')).toBeNull()
+  })
+})
+
+describe('formatModifier', () => {
+  it('prints each kind so it parses back to the same modifier', () => {
+    const modifiers: OrderItemModifier[] = [
+      { modifier_id: null, name: 'onion', kind: 'remove' },
+      { modifier_id: null, name: 'bacon', kind: 'add' },
+      { modifier_id: null, name: 'Medium Rare', kind: 'temperature' },
+      { modifier_id: null, name: 'salad', kind: 'substitute', replaces: 'fries' },
+      { modifier_id: null, name: 'Extremely thick', kind: 'thickness' },
+    ]
+
+    expect(modifiers.map(formatModifier)).toEqual([
+      'NO onion',
+      'ADD bacon',
+      'MEDIUM RARE',
+      'SUB salad for fries',
+      'EXTREMELY THICK',
+    ])
+    modifiers.forEach(modifier =>
+      expect(parseModifierPhrase(formatModifier(modifier))?.kind).toBe(
+        modifier.kind
+      )
+    )
+  })
+
+  it('does not repeat a prefix already in a catalog name', () => {
+    expect(
+      formatModifier({ modifier_id: 'mod-1', name: 'No Onions', kind: 'remove' })
+    ).toBe('NO Onions')
+  })
+})
+
+describe('normalizeModifier', () => {
+  it('reads legacy strings and modifiers without a kind', () => {
+    expect(normalizeModifier('no salt')).toMatchObject({ kind: 'remove', name: 'salt' })
+    expect(normalizeModifier({ modifier_id: 'mod-1', name: 'No Onions' })).toEqual({
+      modifier_id: 'mod-1',
+      name: 'No Onions',
+      kind: 'remove',
+      replaces: null,
+    })
+    expect(normalizeModifier({ foo: 'bar' })).toBeNull()
+  })
+})
+
+describe('sortModifiers', () => {
+  it('puts temperature first and keeps the order within a kind', () => {
+    const sorted = sortModifiers([
+      { modifier_id: null, name: 'bacon', kind: 'add' },
+      { modifier_id: null, name: 'onion', kind: 'remove' },
+      { modifier_id: null, name: 'Rare', kind: 'temperature' },
+      { modifier_id: null, name: 'pickles', kind: 'remove' },
+    ])
+
+    expect(sorted.map(modifier => modifier.name)).toEqual([
+      'Rare',
+      'onion',
+      'pickles',
+      'bacon',
+    ])
+  })
+})
+
+describe('getModifierThickness', () => {
+  it('reads the IDDSI thickness a line asks for', () => {
+    expect(
+      getModifierThickness([
+        { modifier_id: null, name: 'ice', kind: 'remove' },
+        { modifier_id: 'mod-2', name: 'Nectar thick', kind: 'thickness' },
+      ])
+    ).toBe('mildly_thick')
+    expect(getModifierThickness([])).toBeNull()
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * ESC/POS Rendering Tests
+ * Verifies the command bytes and layout of printed kitchen tickets
+ */
+
+import {
+  EscPosBuilder,
+  type KitchenTicket,
+  renderKitchenTicket,
+  renderKitchenTicketText,
+  toPrintableAscii,
+  wrapText,
+} from '@/lib/printing/escpos'
+
+const ticket: KitchenTicket = {
+  stationName: 'Grill',
+  orderNumber: 'abc123',
+  tableLabel: '12',
+  seatLabel: '3',
+  residentName: 'Margaret Smith',
+  course: 'entree',
+  routedAt: '2025-06-20T17:30:00Z',
+  lines: [
+    {
+      quantity: 2,
+      name: 'Cheeseburger',
+      modifiers: ['No Onions', 'Extra Pickles'],
+      notes: 'Well done',
+    },
+  ],
+  dietaryAlerts: ['Peanuts'],
+  overrideReason: null,
+  notes: null,
+}
+
+const includesSequence = (bytes: Uint8Array, sequence: number[]) =>
+  Buffer.from(bytes).includes(Buffer.from(sequence))
+
+describe('toPrintableAscii', () => {
+  it('folds accents and typographic punctuation to ASCII', () => {
+    expect(toPrintableAscii('Entrée – “chef’s” crème brûlée')).toBe(
+      'Entree - "chef\'s" creme brulee'
+    )
+  })
+
+  it('replaces characters the printer cannot print', () => {
+    expect(toPrintableAscii('½ portion')).toBe('? portion')
+  })
+})
+
+describe('wrapText', () => {
+  it('wraps on word boundaries and indents continuations', () => {
+    expect(wrapText('1x Grilled chicken sandwich', 16, 3)).toEqual([
+      '1x Grilled',
+      '   chicken',
+      '   sandwich',
+    ])
+  })
+
+  it('keeps leading spaces on the first line', () => {
+    expect(wrapText('   + No onions', 42, 5)).toEqual(['   + No onions'])
+  })
+
+  it('hard-splits words longer than a line', () => {
+    expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij'])
+  })
+})
+
+describe('EscPosBuilder', () => {
+  it('starts with a printer reset and ends with a cut', () => {
+    const bytes = new EscPosBuilder(42).line('Hello').cut().toBytes()
+
+    expect(Array.from(bytes.slice(0, 5))).toEqual([0x1b, 0x40, 0x1b, 0x74, 0])
+    expect(Array.from(bytes.slice(-4))).toEqual([0x1d, 0x56, 0x42, 0x03])
+  })
+})
+
+describe('renderKitchenTicket', () => {
+  it('prints the location, items and indented modifiers', () => {
+    const text = renderKitchenTicketText(ticket)
+
+    expect(text).toContain('GRILL')
+    expect(text).toContain('#abc123')
+    expect(text).toContain('TABLE 12 / SEAT 3')
+    expect(text).toContain('COURSE: ENTREE')
+    expect(text).toContain('2x Cheeseburger')
+    expect(text).toContain('   + No Onions')
+    expect(text).toContain('   + Extra Pickles')
+    expect(text).toContain('   * Well done')
+  })
+
+  it('prints the allergy banner in reverse video', () => {
+    const bytes = renderKitchenTicket(ticket)
+
+    expect(renderKitchenTicketText(ticket)).toContain('ALLERGY: PEANUTS')
+    expect(includesSequence(bytes, [0x1d, 0x42, 1])).toBe(true)
+  })
+
+  it('omits the allergy banner when there are no alerts', () => {
+    const text = renderKitchenTicketText({ ...ticket, dietaryAlerts: [] })
+    expect(text).not.toContain('ALLERGY')
+  })
+
+  it('marks reprints', () => {
+    expect(renderKitchenTicketText({ ...ticket, reprint: true })).toContain(
+      'REPRINT'
+    )
+    expect(renderKitchenTicketText(ticket)).not.toContain('REPRINT')
+  })
+
+  it('fits every line to the paper width', () => {
+    const text = renderKitchenTicketText(
+      {
+        ...ticket,
+        lines: [
+          {
+            quantity: 1,
+            name: 'Slow roasted herb chicken with seasonal vegetables',
+            modifiers: ['Substitute mashed potatoes for rice pilaf'],
+            notes: null,
+          },
+        ],
+      },
+      { charsPerLine: 32 }
+    )
+
+    text.split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(32))
+  })
+})
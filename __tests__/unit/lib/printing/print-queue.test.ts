@@ -0,0 +1,150 @@
+/**
+ * Print Queue Tests
+ * Covers retry scheduling, keeping a printer's tickets in order after a
+ * failure and the print worker lease
+ */
+
+import {
+  PRINT_WORKER_LEASE_SECONDS,
+  acquirePrintWorkerLease,
+  getRetryDelay,
+  processPrintQueue,
+} from '@/lib/printing/print-queue'
+import { sendToPrinter } from '@/lib/printing/transport'
+import type { KDSPrinter, PrintJob } from '@/types/database'
+
+jest.mock('@/lib/printing/transport', () => ({
+  sendToPrinter: jest.fn(),
+}))
+
+const printer: KDSPrinter = {
+  id: 'printer-1',
+  name: 'Grill',
+  host: '192.168.1.50',
+  port: 9100,
+  chars_per_line: 42,
+  auto_print: true,
+  is_active: true,
+  created_at: '2025-06-20T00:00:00Z',
+  updated_at: '2025-06-20T00:00:00Z',
+}
+
+const job = (id: string): PrintJob => ({
+  id,
+  printer_id: 'printer-1',
+  routing_id: null,
+  kind: 'test',
+  status: 'printing',
+  attempts: 1,
+  max_attempts: 5,
+  next_attempt_at: '2025-06-20T12:00:00Z',
+  last_error: null,
+  printed_at: null,
+  requested_by: null,
+  created_at: '2025-06-20T12:00:00Z',
+  updated_at: '2025-06-20T12:00:00Z',
+})
+
+const createClient = (jobs: PrintJob[]) => {
+  const updates: { id: string; values: Record<string, unknown> }[] = []
+  const client = {
+    rpc: jest.fn().mockResolvedValue({ data: jobs, error: null }),
+    from: jest.fn((table: string) =>
+      table === 'kds_printers'
+        ? {
+            select: () => ({
+              in: jest.fn().mockResolvedValue({ data: [printer], error: null }),
+            }),
+          }
+        : {
+            update: (values: Record<string, unknown>) => ({
+              eq: jest.fn(async (_column: string, id: string) => {
+                updates.push({ id, values })
+                return { error: null }
+              }),
+            }),
+          }
+    ),
+  }
+  return { client, updates }
+}
+
+describe('getRetryDelay', () => {
+  it('doubles the delay per attempt up to five minutes', () => {
+    expect(getRetryDelay(1)).toBe(5000)
+    expect(getRetryDelay(3)).toBe(20000)
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000)
+  })
+})
+
+describe('processPrintQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('prints each claimed job in order', async () => {
+    ;(sendToPrinter as jest.Mock).mockResolvedValue(undefined)
+    const { client, updates } = createClient([job('job-1'), job('job-2')])
+
+    const result = await processPrintQueue(client as any)
+
+    expect(result).toEqual({ claimed: 2, printed: 2, retrying: 0, failed: 0 })
+    expect(updates.map(update => update.id)).toEqual(['job-1', 'job-2'])
+  })
+
+  it("hands a down printer's later jobs back after the failed one", async () => {
+    ;(sendToPrinter as jest.Mock).mockRejectedValueOnce(
+      new Error('connect ECONNREFUSED')
+    )
+    const { client, updates } = createClient([
+      job('job-1'),
+      job('job-2'),
+      job('job-3'),
+    ])
+
+    const result = await processPrintQueue(client as any)
+
+    expect(result).toEqual({ claimed: 3, printed: 0, retrying: 3, failed: 0 })
+    expect(sendToPrinter).toHaveBeenCalledTimes(1)
+    expect(updates[0]).toEqual({
+      id: 'job-1',
+      values: expect.objectContaining({
+        status: 'pending',
+        last_error: 'connect ECONNREFUSED',
+      }),
+    })
+    // Not charged an attempt; claim_print_jobs holds them behind job-1
+    expect(updates.slice(1)).toEqual([
+      { id: 'job-2', values: { status: 'pending', attempts: 0 } },
+      { id: 'job-3', values: { status: 'pending', attempts: 0 } },
+    ])
+  })
+})
+
+describe('acquirePrintWorkerLease', () => {
+  it('asks for the lease on behalf of the screen', async () => {
+    const client = { rpc: jest.fn().mockResolvedValue({ data: false }) }
+
+    expect(await acquirePrintWorkerLease(client as any, 'screen-1')).toBe(false)
+    expect(client.rpc).toHaveBeenCalledWith('acquire_print_worker_lease', {
+      p_holder: 'screen-1',
+      p_ttl_seconds: PRINT_WORKER_LEASE_SECONDS,
+    })
+  })
+
+  it('reports errors', async () => {
+    const client = {
+      rpc: jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Only staff can run the print worker' },
+      }),
+    }
+
+    await expect(
+      acquirePrintWorkerLease(client as any, 'screen-1')
+    ).rejects.toThrow(
+      'Failed to acquire print worker lease: Only staff can run the print worker'
+    )
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Printer Transport Tests
+ * Sends tickets to a local TCP socket standing in for a port 9100 printer
+ */
+
+import net, { type AddressInfo } from 'node:net'
+import { sendToPrinter } from '@/lib/printing/transport'
+
+describe('sendToPrinter', () => {
+  let server: net.Server
+  let port: number
+  let received: Promise<Buffer>
+
+  beforeEach(async () => {
+    received = new Promise(resolve => {
+      server = net.createServer(socket => {
+        const chunks: Buffer[] = []
+        socket.on('data', chunk => chunks.push(chunk))
+        socket.on('end', () => resolve(Buffer.concat(chunks)))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterEach(async () => {
+    if (server.listening) {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+
+  it('delivers the bytes to the printer', async () => {
+    const bytes = Uint8Array.from([0x1b, 0x40, 0x48, 0x69, 0x0a, 0x1d, 0x56, 0x42, 0x03])
+
+    await sendToPrinter({ host: '127.0.0.1', port }, bytes)
+
+    expect(Array.from(await received)).toEqual(Array.from(bytes))
+  })
+
+  it('rejects when the printer is unreachable', async () => {
+    await new Promise(resolve => server.close(resolve))
+
+    await expect(
+      sendToPrinter({ host: '127.0.0.1', port }, Uint8Array.from([0x0a]))
+    ).rejects.toThrow(/unreachable/)
+  })
+})
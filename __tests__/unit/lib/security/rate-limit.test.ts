@@ -0,0 +1,140 @@
+/** @jest-environment node */
+jest.mock('@/lib/modassembly/supabase/service', () => ({
+  createServiceClient: jest.fn(),
+}))
+
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  checkRateLimit,
+  getRateLimitStoreName,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
+
+const MINUTE = 60 * 1000
+
+describe('MemoryRateLimitStore', () => {
+  it('allows up to the limit within a window', async () => {
+    const store = new MemoryRateLimitStore()
+    const start = 10 * MINUTE
+
+    for (let i = 0; i < 3; i++) {
+      expect((await store.hit('key', 3, MINUTE, start + i)).allowed).toBe(true)
+    }
+
+    const denied = await store.hit('key', 3, MINUTE, start + 10)
+    expect(denied).toMatchObject({ allowed: false, remaining: 0 })
+    expect(denied.retryAfterMs).toBeGreaterThan(0)
+  })
+
+  it('slides the previous window out instead of resetting at the boundary', async () => {
+    const store = new MemoryRateLimitStore()
+    const start = 10 * MINUTE
+
+    for (let i = 0; i < 4; i++) {
+      await store.hit('key', 4, MINUTE, start + 50000)
+    }
+
+    // Just past the boundary the last window still counts almost fully
+    expect((await store.hit('key', 4, MINUTE, start + MINUTE + 1000)).allowed).toBe(false)
+
+    // Halfway through, half of it has slid out
+    const halfway = await store.hit('key', 4, MINUTE, start + MINUTE + 30000)
+    expect(halfway).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  it('reports when a denied caller can retry', async () => {
+    const store = new MemoryRateLimitStore()
+    const start = 10 * MINUTE
+
+    await store.hit('key', 1, MINUTE, start)
+    const denied = await store.hit('key', 1, MINUTE, start + 20000)
+    const retryAt = start + 20000 + denied.retryAfterMs
+
+    expect((await store.hit('key', 1, MINUTE, retryAt - 1000)).allowed).toBe(false)
+    expect((await store.hit('key', 1, MINUTE, retryAt)).allowed).toBe(true)
+  })
+
+  it('drops windows that no longer count', async () => {
+    const store = new MemoryRateLimitStore()
+    await store.hit('key', 1, MINUTE, 0)
+
+    store.cleanup(2 * MINUTE)
+
+    expect((await store.hit('key', 1, MINUTE, 2 * MINUTE)).allowed).toBe(true)
+  })
+})
+
+describe('PostgresRateLimitStore', () => {
+  const client = (rpc: jest.Mock) => async () => ({ rpc }) as any
+
+  it('builds the result from the database counts and clock', async () => {
+    const rpc = jest.fn().mockResolvedValue({
+      data: [
+        {
+          allowed: true,
+          current_hits: 2,
+          previous_hits: 0,
+          window_start_ms: 600000,
+          now_ms: 615000,
+        },
+      ],
+      error: null,
+    })
+    const store = new PostgresRateLimitStore(client(rpc))
+
+    const result = await checkRateLimit(
+      { name: 'transcribe', limit: 10, windowMs: MINUTE },
+      'user-1',
+      store
+    )
+
+    expect(rpc).toHaveBeenCalledWith('rate_limit_hit', {
+      p_key: 'transcribe:user-1',
+      p_limit: 10,
+      p_window_ms: MINUTE,
+    })
+    expect(result).toMatchObject({ allowed: true, remaining: 8, resetMs: 45000 })
+  })
+
+  it('falls back to the in-memory store when the database fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const rpc = jest.fn().mockResolvedValue({ data: null, error: new Error('down') })
+    const fallback = new MemoryRateLimitStore()
+    const store = new PostgresRateLimitStore(client(rpc), fallback)
+
+    expect((await store.hit('key', 1, MINUTE)).allowed).toBe(true)
+    expect((await store.hit('key', 1, MINUTE)).allowed).toBe(false)
+
+    jest.restoreAllMocks()
+  })
+})
+
+describe('rate limit configuration and headers', () => {
+  it('picks the store per environment', () => {
+    expect(getRateLimitStoreName({ RATE_LIMIT_STORE: 'memory', NODE_ENV: 'production' })).toBe(
+      'memory'
+    )
+    expect(getRateLimitStoreName({ NODE_ENV: 'production' })).toBe('postgres')
+    expect(getRateLimitStoreName({ NODE_ENV: 'test' })).toBe('memory')
+  })
+
+  it('emits RateLimit-* headers and Retry-After when denied', () => {
+    expect(
+      rateLimitHeaders({
+        allowed: false,
+        limit: 10,
+        remaining: 0,
+        resetMs: 12500,
+        retryAfterMs: 30200,
+        windowMs: MINUTE,
+      })
+    ).toEqual({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '13',
+      'RateLimit-Policy': '10;w=60',
+      'Retry-After': '31',
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Menu Item Resolver Tests
+ * Verifies synonym and edit-distance matching of transcribed item phrases
+ */
+
+import {
+  type KnownMenuItem,
+  confirmResolvedLine,
+  levenshteinDistance,
+  resolveOrderPhrase,
+  resolveOrderPhrases,
+  toOrderLineInput,
+} from '@/lib/modassembly/openai/menu-item-resolver'
+
+const knownItems: KnownMenuItem[] = [
+  {
+    id: 'item-burger',
+    name: 'Cheeseburger',
+    synonyms: [
+      {
+        id: 'syn-1',
+        menu_item_id: 'item-burger',
+        phrase: 'burger with cheese',
+        created_at: '2025-06-20T00:00:00Z',
+      },
+    ],
+    modifiers: [
+      {
+        id: 'mod-no-onions',
+        menu_item_id: 'item-burger',
+        name: 'No Onions',
+        kind: 'remove',
+        price_delta_cents: 0,
+        is_active: true,
+        created_at: '2025-06-20T00:00:00Z',
+        updated_at: '2025-06-20T00:00:00Z',
+      },
+    ],
+  },
+  { id: 'item-caesar', name: 'Caesar Salad', synonyms: [], modifiers: [] },
+  { id: 'item-garden', name: 'Garden Salad', synonyms: [], modifiers: [] },
+  { id: 'item-tea', name: 'Iced Tea', synonyms: [], modifiers: [] },
+  { id: 'item-coffee', name: 'Coffee', synonyms: [], modifiers: [] },
+]
+
+describe('Menu Item Resolver', () => {
+  it('treats spacing variants of the same name as a confident match', () => {
+    const line = resolveOrderPhrase('cheese burger', knownItems)
+
+    expect(line.match?.menuItemId).toBe('item-burger')
+    expect(line.confidence).toBeGreaterThanOrEqual(0.95)
+    expect(line.needsConfirmation).toBe(false)
+  })
+
+  it('matches admin-managed synonyms and resolves catalog modifiers', () => {
+    const line = resolveOrderPhrase('Burger w/ cheese - no onions', knownItems)
+
+    expect(line.match).toMatchObject({
+      menuItemId: 'item-burger',
+      matchedOn: 'synonym',
+      confidence: 1,
+    })
+    expect(line.modifiers).toEqual([
+      { modifier_id: 'mod-no-onions', name: 'No Onions', kind: 'remove' },
+    ])
+  })
+
+  it('structures free-form modifiers and keeps other instructions as notes', () => {
+    const line = resolveOrderPhrase(
+      'Cheeseburger - medium rare, fries instead of salad, ketchup on the side',
+      knownItems
+    )
+
+    expect(line.modifiers).toEqual([
+      { modifier_id: null, name: 'Medium Rare', kind: 'temperature' },
+      {
+        modifier_id: null,
+        name: 'fries',
+        kind: 'substitute',
+        replaces: 'salad',
+      },
+    ])
+    expect(line.notes).toBe('ketchup on the side')
+    expect(toOrderLineInput(line)).toMatchObject({
+      notes: 'ketchup on the side',
+    })
+  })
+
+  it('tolerates small transcription typos', () => {
+    const line = resolveOrderPhrase('chesseburger', knownItems)
+
+    expect(line.match?.menuItemId).toBe('item-burger')
+    expect(line.needsConfirmation).toBe(false)
+  })
+
+  it('flags ambiguous phrases for confirmation with alternatives', () => {
+    const line = resolveOrderPhrase('salad', knownItems)
+
+    expect(line.needsConfirmation).toBe(true)
+    expect(
+      [line.match, ...line.alternatives].map(match => match?.menuItemId)
+    ).toEqual(expect.arrayContaining(['item-caesar', 'item-garden']))
+  })
+
+  it('returns no match for unknown items', () => {
+    const line = resolveOrderPhrase('spaghetti carbonara', knownItems)
+
+    expect(line.match).toBeNull()
+    expect(line.confidence).toBe(0)
+    expect(line.needsConfirmation).toBe(true)
+    expect(toOrderLineInput(line)).toBeNull()
+  })
+
+  it('extracts quantities from digits and number words', () => {
+    const [coffee, tea] = resolveOrderPhrases(
+      ['2x Coffee', 'two iced teas'],
+      knownItems
+    )
+
+    expect(coffee.quantity).toBe(2)
+    expect(coffee.match?.menuItemId).toBe('item-coffee')
+    expect(tea.quantity).toBe(2)
+    expect(tea.match?.menuItemId).toBe('item-tea')
+  })
+
+  it('applies the chosen alternative and clears the confirmation flag', () => {
+    const line = resolveOrderPhrase('salad', knownItems)
+    const confirmed = confirmResolvedLine(line, 'item-garden', knownItems)
+
+    expect(confirmed.match?.menuItemId).toBe('item-garden')
+    expect(confirmed.needsConfirmation).toBe(false)
+    expect(toOrderLineInput(confirmed)).toEqual({
+      menu_item_id: 'item-garden',
+      quantity: 1,
+      modifiers: [],
+    })
+  })
+
+  it('computes edit distance', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3)
+    expect(levenshteinDistance('', 'abc')).toBe(3)
+    expect(levenshteinDistance('same', 'same')).toBe(0)
+  })
+})
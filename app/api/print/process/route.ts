@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Security } from '@/lib/security'
+import {
+  type RateLimitPolicy,
+  checkRateLimit,
+  rateLimitExceeded,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
+import { createClient } from '@/lib/modassembly/supabase/server'
+import { measureApiCall } from '@/lib/performance-utils'
+import {
+  acquirePrintWorkerLease,
+  processPrintQueue,
+} from '@/lib/printing/print-queue'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const PRINT_ROLES = ['admin', 'cook', 'server']
+
+// A print bridge drains the queue on a timer; faster than once a second is a runaway loop
+const RATE_LIMIT: RateLimitPolicy = {
+  name: 'print_process',
+  limit: 60,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/print/process
+ * Drain due kitchen print jobs to their printers. The server this runs on
+ * must be on the printers' network - it is the print bridge.
+ * KDS screens pass ?worker=<id> and only drain while holding the print
+ * worker lease; without it the queue is drained right away.
+ */
+export async function POST(request: NextRequest) {
+  return measureApiCall('print_process_api', async () => {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Authentication required' },
+        { status: 401, headers: Security.headers.getHeaders() }
+      )
+    }
+
+    const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(RATE_LIMIT, rateLimit, Security.headers.getHeaders())
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!profile?.role || !PRINT_ROLES.includes(profile.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden - Staff access required' },
+        { status: 403, headers: Security.headers.getHeaders() }
+      )
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const limit = Number(searchParams.get('limit')) || 10
+    const worker = searchParams.get('worker')
+
+    try {
+      if (worker !== null) {
+        const holder = Security.sanitize.sanitizeIdentifier(worker)
+        if (!holder) {
+          return NextResponse.json(
+            { error: 'Invalid worker ID' },
+            { status: 400, headers: Security.headers.getHeaders() }
+          )
+        }
+
+        // Another screen is draining the queue
+        if (!(await acquirePrintWorkerLease(supabase, holder))) {
+          return NextResponse.json(
+            { claimed: 0, printed: 0, retrying: 0, failed: 0, leased: false },
+            {
+              headers: {
+                ...Security.headers.getHeaders(),
+                ...rateLimitHeaders(rateLimit),
+              },
+            }
+          )
+        }
+      }
+
+      const result = await processPrintQueue(supabase, limit)
+      return NextResponse.json({ ...result, leased: true }, {
+        headers: {
+          ...Security.headers.getHeaders(),
+          ...rateLimitHeaders(rateLimit),
+        },
+      })
+    } catch (error) {
+      console.error('Print queue error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to process print queue',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500, headers: Security.headers.getHeaders() }
+      )
+    }
+  })
+}
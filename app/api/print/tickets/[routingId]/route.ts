@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Security } from '@/lib/security'
+import {
+  type RateLimitPolicy,
+  checkRateLimit,
+  rateLimitExceeded,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
+import { createClient } from '@/lib/modassembly/supabase/server'
+import { measureApiCall } from '@/lib/performance-utils'
+import { fetchKitchenTicket } from '@/lib/printing/print-queue'
+import {
+  renderKitchenTicket,
+  renderKitchenTicketText,
+} from '@/lib/printing/escpos'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// A bridge fetches one ticket per print job
+const RATE_LIMIT: RateLimitPolicy = {
+  name: 'print_ticket',
+  limit: 120,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/print/tickets/:routingId
+ * Render a station ticket as ESC/POS bytes for a print bridge, or as text
+ * with ?format=text. ?width= sets the characters per line (default 42).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ routingId: string }> }
+) {
+  return measureApiCall('print_ticket_api', async () => {
+    const { routingId } = await params
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(routingId)) {
+      return NextResponse.json(
+        { error: 'Invalid ticket ID' },
+        { status: 400, headers: Security.headers.getHeaders() }
+      )
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Authentication required' },
+        { status: 401, headers: Security.headers.getHeaders() }
+      )
+    }
+
+    const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(RATE_LIMIT, rateLimit, Security.headers.getHeaders())
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const charsPerLine = Math.max(
+      24,
+      Math.min(64, Number(searchParams.get('width')) || 42)
+    )
+
+    try {
+      const ticket = await fetchKitchenTicket(
+        supabase,
+        routingId,
+        searchParams.get('reprint') === 'true'
+      )
+
+      if (searchParams.get('format') === 'text') {
+        return new NextResponse(renderKitchenTicketText(ticket, { charsPerLine }), {
+          headers: {
+            ...Security.headers.getHeaders(),
+            ...rateLimitHeaders(rateLimit),
+            'Content-Type': 'text/plain; charset=utf-8',
+          },
+        })
+      }
+
+      return new NextResponse(Buffer.from(renderKitchenTicket(ticket, { charsPerLine })), {
+        headers: {
+          ...Security.headers.getHeaders(),
+          ...rateLimitHeaders(rateLimit),
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="ticket-${routingId}.bin"`,
+        },
+      })
+    } catch (error) {
+      console.error('Ticket render error:', error)
+      return NextResponse.json(
+        { error: 'Failed to render ticket' },
+        { status: 404, headers: Security.headers.getHeaders() }
+      )
+    }
+  })
+}
@@ -3,6 +3,12 @@ import { getUsageTracker } from '@/lib/modassembly/openai/usage-tracking'
 import { getTranscriptionCache } from '@/lib/modassembly/openai/transcription-cache'
 import { getBatchProcessor } from '@/lib/modassembly/openai/batch-processor'
 import { Security } from '@/lib/security'
+import {
+  type RateLimitPolicy,
+  checkRateLimit,
+  rateLimitExceeded,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
 import { createClient } from '@/lib/modassembly/supabase/server'
 import { measureApiCall } from '@/lib/performance-utils'
 import { ApiResponse } from '@/types/api'
@@ -31,6 +37,13 @@ interface AnalyticsData {
 
 type AnalyticsResponse = ApiResponse<AnalyticsData>
 
+// Each analytics load runs a dozen aggregate queries
+const RATE_LIMIT: RateLimitPolicy = {
+  name: 'transcribe_analytics',
+  limit: 30,
+  windowMs: 60 * 1000,
+}
+
 export async function GET(request: NextRequest) {
   return measureApiCall('transcribe_analytics_api', async () => {
     // 1. Authentication and Admin Check
@@ -50,6 +63,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(RATE_LIMIT, rateLimit, Security.headers.getHeaders())
+    }
+
     // 2. Check if user has analytics access (admin only)
     const { data: profile } = await supabase
       .from('profiles')
@@ -136,7 +154,10 @@ export async function GET(request: NextRequest) {
       }
 
       return NextResponse.json(response, {
-        headers: Security.headers.getHeaders(),
+        headers: {
+          ...Security.headers.getHeaders(),
+          ...rateLimitHeaders(rateLimit),
+        },
       })
     } catch (error) {
       console.error('Analytics data fetch failed:', {
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { batchTranscribeAudio } from '@/lib/modassembly/openai/batch-processor'
 import { Security } from '@/lib/security'
+import {
+  type RateLimitPolicy,
+  checkRateLimit,
+  rateLimitExceeded,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
 import { createClient } from '@/lib/modassembly/supabase/server'
 import { measureApiCall } from '@/lib/performance-utils'
 import { ApiResponse } from '@/types/api'
@@ -31,6 +37,13 @@ type BatchTranscribeResponse = ApiResponse<{
   }
 }>
 
+const RATE_LIMIT: RateLimitPolicy = {
+  name: 'batch_transcribe',
+  limit: 2,
+  windowMs: 60 * 1000,
+  message: 'Rate limit exceeded. Batch transcription is limited to 2 requests per minute.',
+}
+
 export async function POST(request: NextRequest) {
   return measureApiCall('batch_transcribe_api', async () => {
     // 1. Request Validation
@@ -62,28 +75,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 3. Enhanced Rate Limiting for Batch Operations
-    const isAllowed = Security.rateLimit.isAllowed(
-      user.id,
-      'batch_transcribe',
-      2, // Only 2 batch requests per minute
-      2 / 60
-    )
-
-    if (!isAllowed) {
-      return NextResponse.json(
-        {
-          error:
-            'Rate limit exceeded. Batch transcription is limited to 2 requests per minute.',
-        },
-        {
-          status: 429,
-          headers: {
-            ...Security.headers.getHeaders(),
-            'Retry-After': '60',
-          },
-        }
-      )
+    // 3. Rate Limiting for Batch Operations
+    const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(RATE_LIMIT, rateLimit, Security.headers.getHeaders())
     }
 
     // 4. Parse and Validate Batch Request
@@ -270,7 +265,10 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(response, {
-      headers: Security.headers.getHeaders(),
+      headers: {
+        ...Security.headers.getHeaders(),
+        ...rateLimitHeaders(rateLimit),
+      },
     })
   })
 }
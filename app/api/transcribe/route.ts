@@ -1,13 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { optimizedTranscribeAudioFile } from '@/lib/modassembly/openai/optimized-transcribe'
-import { getUsageTracker } from '@/lib/modassembly/openai/usage-tracking'
+import { checkTranscriptionBudget } from '@/lib/modassembly/openai/transcription-budgets'
 import { Security } from '@/lib/security'
+import {
+  type RateLimitPolicy,
+  checkRateLimit,
+  rateLimitExceeded,
+  rateLimitHeaders,
+} from '@/lib/security/rate-limit'
 import { createClient } from '@/lib/modassembly/supabase/server'
 import { measureApiCall } from '@/lib/performance-utils'
 import { ApiResponse, TranscriptionResult } from '@/types/api'
 
 type TranscribeResponse = ApiResponse<TranscriptionResult>
 
+// Caching should keep most of these from reaching a paid provider
+const RATE_LIMIT: RateLimitPolicy = {
+  name: 'transcribe',
+  limit: 10,
+  windowMs: 60 * 1000,
+  message: 'Rate limit exceeded. Voice transcription is limited to 10 requests per minute.',
+}
+
 export async function POST(request: NextRequest) {
   return measureApiCall('transcribe_api', async () => {
     // 1. Fort Knox Request Validation
@@ -39,51 +53,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 3. Enhanced Rate Limiting with Cost-Based Budgets
-    const usageTracker = getUsageTracker()
-
-    // Check if user is within daily budget
-    const dailyStats = await usageTracker.getUsageStats('day', user.id)
-    const dailyBudget = 5.0 // $5 daily budget per user
-
-    if (dailyStats.totalCost >= dailyBudget) {
-      return NextResponse.json(
-        {
-          error: `Daily budget exceeded ($${dailyBudget}). Current usage: $${dailyStats.totalCost.toFixed(3)}`,
-        },
-        {
-          status: 429,
-          headers: {
-            ...Security.headers.getHeaders(),
-            'Retry-After': '86400', // 24 hours
-          },
-        }
-      )
+    // 3. Rate Limiting, shared across instances
+    const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(RATE_LIMIT, rateLimit, Security.headers.getHeaders())
     }
 
-    // Standard rate limiting
-    const isAllowed = Security.rateLimit.isAllowed(
-      user.id,
-      'transcribe',
-      10, // Increased to 10 per minute (caching should reduce actual OpenAI calls)
-      10 / 60 // Rate per second
-    )
-
-    if (!isAllowed) {
-      return NextResponse.json(
-        {
-          error:
-            'Rate limit exceeded. Voice transcription is limited to 10 requests per minute.',
-        },
-        {
-          status: 429,
-          headers: {
-            ...Security.headers.getHeaders(),
-            'Retry-After': '60',
-          },
-        }
-      )
-    }
+    // Cost-based budgets are managed by admins per facility, role and user. A
+    // spent budget degrades transcription (cheaper model or cache only) rather
+    // than refusing it mid-service.
+    const budget = await checkTranscriptionBudget(user.id)
 
     // 4. Advanced File Security Validation
     let formData: FormData
@@ -186,7 +165,8 @@ export async function POST(request: NextRequest) {
           maxRetries: 3,
           confidenceThreshold: 0.7,
           preferredModel: 'gpt-3.5-turbo', // Cost-effective for menu parsing
-        }
+        },
+        budget.mode
       )
 
       transcriptionResult = result
@@ -217,6 +197,10 @@ export async function POST(request: NextRequest) {
         errorMessage =
           'Audio format not supported. Please use a different recording format.'
         statusCode = 400
+      } else if (transcriptionError.code === 'BUDGET_EXHAUSTED') {
+        errorMessage =
+          'Voice budget is used up, so only repeat orders can be transcribed right now. Please enter this order by hand.'
+        statusCode = 503
       } else if (transcriptionError.code === 'TIMEOUT') {
         errorMessage =
           'Transcription timed out. Please try recording a shorter message.'
@@ -235,7 +219,11 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    const { items: transcriptionItems, transcription } = transcriptionResult
+    const {
+      items: transcriptionItems,
+      transcription,
+      provider,
+    } = transcriptionResult
 
     // 7. Fort Knox Output Sanitization
     const safeTranscription = Security.sanitize.sanitizeHTML(
@@ -260,6 +248,9 @@ export async function POST(request: NextRequest) {
       data: {
         transcript: safeTranscription,
         items: safeItems,
+        provider,
+        budgetMode: budget.mode,
+        budgetChecked: budget.checked,
         // Include optimization metadata for debugging (remove in production)
         // metadata: process.env.NODE_ENV === 'development' ? {
         //   cached: transcriptionResult.metadata?.cached,
@@ -273,7 +264,11 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(response, {
-      headers: Security.headers.getHeaders(),
+      headers: {
+        ...Security.headers.getHeaders(),
+        ...rateLimitHeaders(rateLimit),
+        'X-Transcription-Provider': provider,
+      },
     })
   })
 }
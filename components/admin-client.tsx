@@ -4,6 +4,7 @@ import { Suspense, lazy, useEffect, useState } from 'react'
 import { Sidebar } from '@/components/sidebar'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { LoadingSpinner } from '@/components/loading-states'
+import type { FloorPlan } from '@/types/database'
 
 // PERFORMANCE_OPTIMIZATION: Lazy load admin components
 // Impact: Admin features only loaded when needed, reducing initial bundle size
@@ -17,11 +18,56 @@ const TableList = lazy(() =>
     default: module.TableList,
   }))
 )
+const MenuManagement = lazy(() =>
+  import('@/components/menu-management').then(module => ({
+    default: module.MenuManagement,
+  }))
+)
+const RoutingRulesEditor = lazy(() =>
+  import('@/components/routing-rules-editor').then(module => ({
+    default: module.RoutingRulesEditor,
+  }))
+)
 const PrinterSettings = lazy(() =>
   import('@/components/printer-settings').then(module => ({
     default: module.PrinterSettings,
   }))
 )
+const MealServiceSettings = lazy(() =>
+  import('@/components/meal-service-settings').then(module => ({
+    default: module.MealServiceSettings,
+  }))
+)
+const ResidentDirectory = lazy(() =>
+  import('@/components/resident-directory').then(module => ({
+    default: module.ResidentDirectory,
+  }))
+)
+const OrderAuditLog = lazy(() =>
+  import('@/components/order-audit-log').then(module => ({
+    default: module.OrderAuditLog,
+  }))
+)
+const SectionAssignments = lazy(() =>
+  import('@/components/section-assignments').then(module => ({
+    default: module.SectionAssignments,
+  }))
+)
+const ServerMetrics = lazy(() =>
+  import('@/components/analytics/server-metrics').then(module => ({
+    default: module.ServerMetrics,
+  }))
+)
+const TurnTimeReport = lazy(() =>
+  import('@/components/analytics/turn-time-report').then(module => ({
+    default: module.TurnTimeReport,
+  }))
+)
+const TranscriptionBudgetSettings = lazy(() =>
+  import('@/components/transcription-budget-settings').then(module => ({
+    default: module.TranscriptionBudgetSettings,
+  }))
+)
 
 type AdminClientComponentProps = {
   user: {
@@ -38,7 +84,7 @@ export function AdminClientComponent({
   user,
   profile,
 }: AdminClientComponentProps) {
-  const [floorPlanId, _setFloorPlanId] = useState('default')
+  const [floorPlan, setFloorPlan] = useState<FloorPlan | null>(null)
   const [_activeTab, _setActiveTab] = useState('analytics')
   const [_isLoading, setIsLoading] = useState(true)
 
@@ -89,10 +135,16 @@ export function AdminClientComponent({
           </div>
 
           <Tabs defaultValue='analytics' className='space-y-4'>
-            <TabsList className='grid grid-cols-4 w-full max-w-md'>
+            <TabsList className='grid grid-cols-10 w-full max-w-6xl'>
               <TabsTrigger value='analytics'>Analytics</TabsTrigger>
+              <TabsTrigger value='orders'>Orders</TabsTrigger>
               <TabsTrigger value='floor-plan'>Floor Plan</TabsTrigger>
+              <TabsTrigger value='menu'>Menu</TabsTrigger>
+              <TabsTrigger value='services'>Services</TabsTrigger>
+              <TabsTrigger value='residents'>Residents</TabsTrigger>
+              <TabsTrigger value='routing'>Routing</TabsTrigger>
               <TabsTrigger value='printer'>Printer</TabsTrigger>
+              <TabsTrigger value='voice'>Voice</TabsTrigger>
               <TabsTrigger value='settings'>Settings</TabsTrigger>
             </TabsList>
 
@@ -278,9 +330,30 @@ export function AdminClientComponent({
                   </ul>
                 </div>
               </div>
+
+              <Suspense
+                fallback={
+                  <div className='flex items-center justify-center p-12'>
+                    <LoadingSpinner />{' '}
+                    <span className='ml-2'>Loading server metrics...</span>
+                  </div>
+                }
+              >
+                <ServerMetrics />
+              </Suspense>
+              <Suspense
+                fallback={
+                  <div className='flex items-center justify-center p-12'>
+                    <LoadingSpinner />{' '}
+                    <span className='ml-2'>Loading turn times...</span>
+                  </div>
+                }
+              >
+                <TurnTimeReport />
+              </Suspense>
             </TabsContent>
 
-            <TabsContent value='floor-plan'>
+            <TabsContent value='floor-plan' className='space-y-6'>
               <div className='bg-card p-6 rounded-lg border border-border'>
                 <Suspense
                   fallback={
@@ -290,7 +363,51 @@ export function AdminClientComponent({
                     </div>
                   }
                 >
-                  <FloorPlanEditor floorPlanId={floorPlanId} />
+                  <FloorPlanEditor
+                    floorPlan={floorPlan}
+                    onFloorPlanChange={setFloorPlan}
+                  />
+                </Suspense>
+              </div>
+
+              <Suspense
+                fallback={
+                  <div className='flex items-center justify-center p-12'>
+                    <LoadingSpinner />{' '}
+                    <span className='ml-2'>Loading server sections...</span>
+                  </div>
+                }
+              >
+                <SectionAssignments floorPlan={floorPlan} userId={user.id} />
+              </Suspense>
+            </TabsContent>
+
+            <TabsContent value='menu'>
+              <div className='bg-card p-6 rounded-lg border border-border'>
+                <Suspense
+                  fallback={
+                    <div className='flex items-center justify-center p-12'>
+                      <LoadingSpinner />{' '}
+                      <span className='ml-2'>Loading menu catalog...</span>
+                    </div>
+                  }
+                >
+                  <MenuManagement />
+                </Suspense>
+              </div>
+            </TabsContent>
+
+            <TabsContent value='routing'>
+              <div className='bg-card p-6 rounded-lg border border-border'>
+                <Suspense
+                  fallback={
+                    <div className='flex items-center justify-center p-12'>
+                      <LoadingSpinner />{' '}
+                      <span className='ml-2'>Loading routing rules...</span>
+                    </div>
+                  }
+                >
+                  <RoutingRulesEditor />
                 </Suspense>
               </div>
             </TabsContent>
@@ -310,11 +427,69 @@ export function AdminClientComponent({
               </div>
             </TabsContent>
 
+            <TabsContent value='services'>
+              <div className='bg-card p-6 rounded-lg border border-border'>
+                <Suspense
+                  fallback={
+                    <div className='flex items-center justify-center p-12'>
+                      <LoadingSpinner />{' '}
+                      <span className='ml-2'>Loading services...</span>
+                    </div>
+                  }
+                >
+                  <MealServiceSettings />
+                </Suspense>
+              </div>
+            </TabsContent>
+
+            <TabsContent value='orders'>
+              <Suspense
+                fallback={
+                  <div className='flex items-center justify-center p-12'>
+                    <LoadingSpinner />{' '}
+                    <span className='ml-2'>Loading orders...</span>
+                  </div>
+                }
+              >
+                <OrderAuditLog />
+              </Suspense>
+            </TabsContent>
+
+            <TabsContent value='residents'>
+              <div className='bg-card p-6 rounded-lg border border-border'>
+                <Suspense
+                  fallback={
+                    <div className='flex items-center justify-center p-12'>
+                      <LoadingSpinner />{' '}
+                      <span className='ml-2'>Loading residents...</span>
+                    </div>
+                  }
+                >
+                  <ResidentDirectory />
+                </Suspense>
+              </div>
+            </TabsContent>
+
+            <TabsContent value='voice'>
+              <div className='bg-card p-6 rounded-lg border border-border'>
+                <Suspense
+                  fallback={
+                    <div className='flex items-center justify-center p-12'>
+                      <LoadingSpinner />{' '}
+                      <span className='ml-2'>Loading voice budgets...</span>
+                    </div>
+                  }
+                >
+                  <TranscriptionBudgetSettings />
+                </Suspense>
+              </div>
+            </TabsContent>
+
             <TabsContent value='settings'>
               <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
                 <div className='bg-card p-6 rounded-lg border border-border'>
                   <h3 className='text-lg font-medium mb-4'>Tables</h3>
-                  <TableList floorPlanId={floorPlanId} />
+                  <TableList floorPlanId={floorPlan?.id ?? null} />
                 </div>
 
                 <div className='bg-card p-6 rounded-lg border border-border'>
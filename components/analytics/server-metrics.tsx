@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { RefreshCw, Users } from 'lucide-react'
+import {
+  fetchMealServices,
+  findServiceAt,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import {
+  type ServerShiftMetrics,
+  fetchServerMetrics,
+  toServiceDate,
+} from '@/lib/modassembly/supabase/database/server-sections'
+import {
+  type User,
+  getStaffUsers,
+} from '@/lib/modassembly/supabase/database/users'
+import type { MealService } from '@/types/database'
+
+const ALL_DAY = 'all-day'
+
+/**
+ * Today's orders, tables and transfers per server, following the section
+ * assignments rather than who happened to submit each order
+ */
+export function ServerMetrics() {
+  const [services, setServices] = useState<MealService[]>([])
+  const [staff, setStaff] = useState<User[]>([])
+  const [serviceId, setServiceId] = useState<string | null>(null)
+  const [metrics, setMetrics] = useState<ServerShiftMetrics[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    Promise.all([fetchMealServices(), getStaffUsers()])
+      .then(([mealServices, users]) => {
+        setServices(mealServices)
+        setStaff(users)
+        setServiceId(findServiceAt(mealServices)?.id ?? null)
+      })
+      .catch(error => console.error('Error loading shift options:', error))
+  }, [])
+
+  const loadMetrics = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setMetrics(
+        await fetchServerMetrics({ date: toServiceDate(), serviceId })
+      )
+    } catch (error) {
+      console.error('Error loading server metrics:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [serviceId])
+
+  useEffect(() => {
+    loadMetrics()
+  }, [loadMetrics])
+
+  const getName = (id: string) =>
+    staff.find(member => member.id === id)?.name ?? 'Unknown server'
+
+  return (
+    <Card className='bg-card border-border'>
+      <CardHeader>
+        <div className='flex items-center gap-2'>
+          <Users className='h-5 w-5 text-muted-foreground' />
+          <CardTitle className='text-lg font-medium'>Servers Today</CardTitle>
+          <div className='ml-auto flex items-center gap-2'>
+            <Select
+              value={serviceId ?? ALL_DAY}
+              onValueChange={value =>
+                setServiceId(value === ALL_DAY ? null : value)
+              }
+            >
+              <SelectTrigger className='h-8 w-40'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DAY}>All day</SelectItem>
+                {services.map(service => (
+                  <SelectItem key={service.id} value={service.id}>
+                    {service.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={loadMetrics}
+              disabled={isLoading}
+              title='Refresh'
+            >
+              <RefreshCw className='h-4 w-4' />
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Orders count for the server whose section the table was in, even
+          when someone else took them
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Server</TableHead>
+              <TableHead className='text-right'>Tables</TableHead>
+              <TableHead className='text-right'>Orders</TableHead>
+              <TableHead className='text-right'>Open</TableHead>
+              <TableHead
+                className='text-right'
+                title="Orders taken at other servers' tables"
+              >
+                Covered
+              </TableHead>
+              <TableHead className='text-right'>Transfers in / out</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {metrics.map(row => (
+              <TableRow key={row.serverId}>
+                <TableCell className='font-medium'>
+                  {getName(row.serverId)}
+                </TableCell>
+                <TableCell className='text-right'>{row.tables}</TableCell>
+                <TableCell className='text-right'>{row.orders}</TableCell>
+                <TableCell className='text-right'>{row.openOrders}</TableCell>
+                <TableCell className='text-right'>
+                  {row.coveredOrders}
+                </TableCell>
+                <TableCell className='text-right'>
+                  {row.transfersIn} / {row.transfersOut}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && metrics.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className='text-center text-muted-foreground'
+                >
+                  No sections assigned and no orders yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { RefreshCw, Timer } from 'lucide-react'
+import { toServiceDate } from '@/lib/modassembly/supabase/database/server-sections'
+import {
+  type TurnRecord,
+  type TurnTimeGrouping,
+  fetchTableTurns,
+  summarizeTurnTimes,
+} from '@/lib/modassembly/supabase/database/table-lifecycle'
+
+const formatMinutes = (minutes: number | null) =>
+  minutes === null ? '—' : `${Math.round(minutes)} min`
+
+/**
+ * Average time tables spend in each part of a turn, per table or per meal
+ * period, over a range of service dates
+ */
+export function TurnTimeReport() {
+  const [from, setFrom] = useState(() => {
+    const weekAgo = new Date()
+    weekAgo.setDate(weekAgo.getDate() - 6)
+    return toServiceDate(weekAgo)
+  })
+  const [to, setTo] = useState(() => toServiceDate())
+  const [groupBy, setGroupBy] = useState<TurnTimeGrouping>('table')
+  const [turns, setTurns] = useState<TurnRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadTurns = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setTurns(await fetchTableTurns({ from, to }))
+    } catch (error) {
+      console.error('Error loading table turns:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    loadTurns()
+  }, [loadTurns])
+
+  const summaries = summarizeTurnTimes(turns, groupBy)
+  const inProgress = turns.filter(turn => !turn.available_at).length
+
+  return (
+    <Card className='bg-card border-border'>
+      <CardHeader>
+        <div className='flex items-center gap-2'>
+          <Timer className='h-5 w-5 text-muted-foreground' />
+          <CardTitle className='text-lg font-medium'>
+            Table Turn Times
+          </CardTitle>
+          <div className='ml-auto flex flex-wrap items-center gap-2'>
+            <Input
+              type='date'
+              value={from}
+              max={to}
+              onChange={e => e.target.value && setFrom(e.target.value)}
+              className='h-8 w-40'
+            />
+            <Input
+              type='date'
+              value={to}
+              min={from}
+              onChange={e => e.target.value && setTo(e.target.value)}
+              className='h-8 w-40'
+            />
+            <Select
+              value={groupBy}
+              onValueChange={value => setGroupBy(value as TurnTimeGrouping)}
+            >
+              <SelectTrigger className='h-8 w-40'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='table'>By table</SelectItem>
+                <SelectItem value='service'>By meal period</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={loadTurns}
+              disabled={isLoading}
+              title='Refresh'
+            >
+              <RefreshCw className='h-4 w-4' />
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Averages over finished turns, from seating the party to the table
+          being available again
+          {inProgress > 0 && ` (${inProgress} still in progress)`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                {groupBy === 'table' ? 'Table' : 'Meal period'}
+              </TableHead>
+              <TableHead className='text-right'>Turns</TableHead>
+              <TableHead className='text-right'>Seated to order</TableHead>
+              <TableHead className='text-right'>Kitchen</TableHead>
+              <TableHead className='text-right'>Dining</TableHead>
+              <TableHead className='text-right'>Check &amp; bussing</TableHead>
+              <TableHead className='text-right'>Turn time</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className='font-medium'>{row.label}</TableCell>
+                <TableCell className='text-right'>{row.turns}</TableCell>
+                <TableCell className='text-right'>
+                  {formatMinutes(row.toOrder)}
+                </TableCell>
+                <TableCell className='text-right'>
+                  {formatMinutes(row.kitchen)}
+                </TableCell>
+                <TableCell className='text-right'>
+                  {formatMinutes(row.dining)}
+                </TableCell>
+                <TableCell className='text-right'>
+                  {formatMinutes(row.reset)}
+                </TableCell>
+                <TableCell className='text-right font-medium'>
+                  {formatMinutes(row.total)}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && summaries.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className='text-center text-muted-foreground'
+                >
+                  No finished turns in this period
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Flame, Loader2 } from 'lucide-react'
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import {
+  COURSE_LABELS,
+  fetchTableCourseStatus,
+  fireNextCourse,
+} from '@/lib/modassembly/supabase/database/kds/courses'
+import type { CourseStatus } from '@/lib/modassembly/supabase/database/kds/types'
+
+interface CourseFireControlProps {
+  tableId: string
+}
+
+const STATE_STYLES: Record<CourseStatus['state'], string> = {
+  none: 'bg-gray-800 text-gray-500',
+  held: 'bg-gray-700 text-gray-200 border border-dashed border-gray-500',
+  fired: 'bg-orange-600 text-white',
+  cooking: 'bg-yellow-600 text-white',
+  ready: 'bg-green-600 text-white',
+}
+
+const STATE_LABELS: Record<CourseStatus['state'], string> = {
+  none: '—',
+  held: 'On hold',
+  fired: 'Fired',
+  cooking: 'Cooking',
+  ready: 'Ready',
+}
+
+/**
+ * Course progress for a table with a button to fire the next held course
+ */
+export function CourseFireControl({ tableId }: CourseFireControlProps) {
+  const [courses, setCourses] = useState<CourseStatus[]>([])
+  const [isFiring, setIsFiring] = useState(false)
+  const { toast } = useToast()
+
+  const loadCourses = useCallback(async () => {
+    try {
+      setCourses(await fetchTableCourseStatus(tableId))
+    } catch (error) {
+      console.error('Error loading course status:', error)
+    }
+  }, [tableId])
+
+  // Follow the kitchen as tickets are started and bumped
+  useEffect(() => {
+    const supabase = createClient()
+    loadCourses()
+
+    const channel = supabase
+      .channel(`course-status-${tableId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'kds_order_routing' },
+        () => loadCourses()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [tableId, loadCourses])
+
+  const nextHeld = useMemo(
+    () => courses.find(course => course.state === 'held'),
+    [courses]
+  )
+
+  const handleFire = async () => {
+    setIsFiring(true)
+    try {
+      const fired = await fireNextCourse(tableId)
+      toast({
+        title: fired ? `${COURSE_LABELS[fired]} fired` : 'Nothing on hold',
+        description: fired
+          ? 'The kitchen has been told to start cooking'
+          : 'Every course at this table is already in the kitchen',
+      })
+      await loadCourses()
+    } catch (error) {
+      console.error('Error firing course:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fire the next course',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsFiring(false)
+    }
+  }
+
+  // Nothing coursed at this table (e.g. drinks only)
+  if (courses.every(course => course.state === 'none')) {
+    return null
+  }
+
+  return (
+    <Card className='bg-gray-800/40 border-gray-700'>
+      <CardContent className='p-4 flex flex-wrap items-center justify-between gap-3'>
+        <div className='flex flex-wrap gap-2'>
+          {courses.map(course => (
+            <Badge
+              key={course.course}
+              className={cn('text-xs', STATE_STYLES[course.state])}
+            >
+              {COURSE_LABELS[course.course]}: {STATE_LABELS[course.state]}
+            </Badge>
+          ))}
+        </div>
+        <Button
+          size='sm'
+          onClick={handleFire}
+          disabled={!nextHeld || isFiring}
+          className='bg-orange-600 hover:bg-orange-700 text-white'
+        >
+          {isFiring ? (
+            <Loader2 className='h-4 w-4 mr-1 animate-spin' />
+          ) : (
+            <Flame className='h-4 w-4 mr-1' />
+          )}
+          {nextHeld
+            ? `Fire ${COURSE_LABELS[nextHeld.course]}`
+            : 'Fire next course'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
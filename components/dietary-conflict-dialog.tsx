@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import type { DietaryViolation } from '@/lib/modassembly/supabase/database/dietary'
+
+type DietaryConflictDialogProps = {
+  violations: DietaryViolation[] | null
+  residentName?: string
+  onOverride: (_reason: string) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Blocking warning shown when createOrder rejects an order for a resident's
+ * dietary restrictions. Sending anyway requires a written reason.
+ */
+export function DietaryConflictDialog({
+  violations,
+  residentName,
+  onOverride,
+  onCancel,
+}: DietaryConflictDialogProps) {
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fresh reason for every new conflict
+  useEffect(() => {
+    setReason('')
+    setError(null)
+  }, [violations])
+
+  const hasAllergen = violations?.some(v => v.kind === 'allergen') ?? false
+
+  const handleOverride = async () => {
+    if (!reason.trim()) {
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onOverride(reason.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={!!violations && violations.length > 0}>
+      <AlertDialogContent className='bg-gray-900 border-red-600 text-white'>
+        <AlertDialogHeader>
+          <AlertDialogTitle className='flex items-center gap-2 text-red-400'>
+            <AlertTriangle className='h-5 w-5' />
+            {hasAllergen ? 'Allergy conflict' : 'Dietary conflict'}
+            {residentName ? ` for ${residentName}` : ''}
+          </AlertDialogTitle>
+          <AlertDialogDescription className='text-gray-300'>
+            This order conflicts with the resident&apos;s dietary restrictions.
+            It has not been sent to the kitchen.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className='space-y-2'>
+          {violations?.map((violation, index) => (
+            <li
+              key={`${violation.menuItemId}-${violation.detail}-${index}`}
+              className={`rounded-md border p-2 text-sm ${violation.kind === 'allergen' ? 'border-red-500 bg-red-950/60' : 'border-amber-500 bg-amber-950/40'}`}
+            >
+              <span className='font-semibold'>{violation.itemName}</span>{' '}
+              {violation.kind === 'allergen'
+                ? `contains ${violation.detail.replace('_', ' ')}`
+                : `is not ${violation.detail.replace('_', ' ')}`}
+              <span className='block text-xs text-gray-400'>
+                Restriction: {violation.restriction}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className='space-y-2'>
+          <Label htmlFor='dietary-override-reason'>
+            Reason for sending anyway
+          </Label>
+          <Textarea
+            id='dietary-override-reason'
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder='e.g. Resident confirmed; kitchen preparing without cheese'
+            className='bg-gray-800 border-gray-700'
+          />
+          {error && <p className='text-sm text-red-400'>{error}</p>}
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant='outline' onClick={onCancel} disabled={isSubmitting}>
+            Change order
+          </Button>
+          <Button
+            variant='destructive'
+            onClick={handleOverride}
+            disabled={!reason.trim() || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Override and send
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -1,13 +1,24 @@
 'use client'
 
 import { Shell } from '@/components/shell'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
-import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
 import { useKDSOrders } from '@/hooks/use-kds-orders'
+import { useToast } from '@/hooks/use-toast'
 import { AlertTriangle, CheckCircle2, Clock } from 'lucide-react'
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { bumpOrder } from '@/lib/modassembly/supabase/database/kds'
+import {
+  type RunnerTaskWithTable,
+  fetchOpenRunnerTasks,
+  sendCourseToTable,
+  summarizeExpoTables,
+  updateRunnerTaskStatus,
+} from '@/lib/modassembly/supabase/database/kds/expo'
+import { AllDayBoard } from '@/components/kds/all-day-board'
+import { ExpoTableCard, expoSendKey } from '@/components/kds/expo-table-card'
+import { RunnerTaskList } from '@/components/kds/runner-task-list'
+import { aggregateAllDayCounts } from '@/lib/kds/all-day'
+import type { Course, RunnerTaskStatus } from '@/types/database'
 
 type ExpoClientComponentProps = {
   user: {
@@ -20,15 +31,61 @@ type ExpoClientComponentProps = {
   } | null
 }
 
+const RUNNER_REFRESH_INTERVAL = 10000
+
 export function ExpoClientComponent({
   user,
   profile,
 }: ExpoClientComponentProps) {
   const { orders, loading, error, refetch } = useKDSOrders({
-    stationId: undefined, // Show all orders for expo
+    includeReady: true, // Expo holds bumped tickets until the table is sent
     autoRefresh: true,
   })
+  const { toast } = useToast()
   const [bumpingOrders, setBumpingOrders] = useState<Set<string>>(new Set())
+  const [sendingKey, setSendingKey] = useState<string | null>(null)
+  const [runnerTasks, setRunnerTasks] = useState<RunnerTaskWithTable[]>([])
+  const [updatingTasks, setUpdatingTasks] = useState<Set<string>>(new Set())
+  const [stationFilter, setStationFilter] = useState<string | null>(null)
+  const [selectedItemKey, setSelectedItemKey] = useState<string | null>(null)
+
+  // Readiness is always judged on every station; the filter only narrows
+  // which tables are shown
+  const tables = useMemo(() => {
+    const summaries = summarizeExpoTables(orders)
+    return stationFilter
+      ? summaries.filter(table =>
+          table.seats.some(seat =>
+            seat.orders.some(order => order.station_id === stationFilter)
+          )
+        )
+      : summaries
+  }, [orders, stationFilter])
+
+  // Tickets holding the item tapped on the all-day board
+  const highlightedRoutingIds = useMemo(() => {
+    if (!selectedItemKey) {
+      return new Set<string>()
+    }
+    const item = aggregateAllDayCounts(orders, stationFilter).find(
+      allDay => allDay.key === selectedItemKey
+    )
+    return new Set(item?.routingIds || [])
+  }, [orders, stationFilter, selectedItemKey])
+
+  const loadRunnerTasks = useCallback(async () => {
+    try {
+      setRunnerTasks(await fetchOpenRunnerTasks())
+    } catch (error) {
+      console.error('Error loading runner tasks:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRunnerTasks()
+    const interval = setInterval(loadRunnerTasks, RUNNER_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [loadRunnerTasks])
 
   const handleBumpOrder = async (routingId: string) => {
     if (bumpingOrders.has(routingId)) {return}
@@ -48,25 +105,44 @@ export function ExpoClientComponent({
     }
   }
 
-  const getTimeColor = (routedAt: string) => {
-    const now = new Date()
-    const routed = new Date(routedAt)
-    const diffMinutes = (now.getTime() - routed.getTime()) / (1000 * 60)
-    
-    if (diffMinutes <= 5) {return 'text-green-400'}
-    if (diffMinutes <= 10) {return 'text-yellow-400'}
-    return 'text-red-400'
+  const handleSendCourse = async (tableId: string, course: Course | null) => {
+    if (sendingKey) {return}
+
+    setSendingKey(expoSendKey(tableId, course))
+    try {
+      await sendCourseToTable(tableId, course, user.id)
+      await Promise.all([refetch(), loadRunnerTasks()])
+    } catch (error) {
+      console.error('Error sending course:', error)
+      toast({
+        title: 'Cannot send yet',
+        description:
+          error instanceof Error ? error.message : 'Failed to send to table',
+        variant: 'destructive',
+      })
+      await refetch()
+    } finally {
+      setSendingKey(null)
+    }
   }
 
-  const formatTime = (dateString: string) => {
-    const date = new Date(dateString)
-    const now = new Date()
-    const diffMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60))
-    
-    if (diffMinutes < 1) {return 'Just now'}
-    if (diffMinutes < 60) {return `${diffMinutes}m ago`}
-    const hours = Math.floor(diffMinutes / 60)
-    return `${hours}h ${diffMinutes % 60}m ago`
+  const handleRunnerStatus = async (
+    taskId: string,
+    status: Exclude<RunnerTaskStatus, 'pending'>
+  ) => {
+    setUpdatingTasks(prev => new Set(prev).add(taskId))
+    try {
+      await updateRunnerTaskStatus(taskId, status, user.id)
+      await loadRunnerTasks()
+    } catch (error) {
+      console.error('Error updating runner task:', error)
+    } finally {
+      setUpdatingTasks(prev => {
+        const next = new Set(prev)
+        next.delete(taskId)
+        return next
+      })
+    }
   }
 
   return (
@@ -75,7 +151,7 @@ export function ExpoClientComponent({
         <div className='flex items-center justify-between mb-6'>
           <div>
             <h1 className='text-3xl font-bold text-white mb-2'>Expo Station</h1>
-            <p className='text-gray-400'>Quality control and order dispatch</p>
+            <p className='text-gray-400'>Send each table's course once every station is up</p>
           </div>
           <div className='text-sm text-gray-500'>
             <div>User: {user.email}</div>
@@ -105,92 +181,51 @@ export function ExpoClientComponent({
           </Card>
         )}
 
+        {!loading && !error && orders.length > 0 && (
+          <AllDayBoard
+            orders={orders}
+            stationId={stationFilter}
+            onStationChange={setStationFilter}
+            selectedItemKey={selectedItemKey}
+            onSelectItem={setSelectedItemKey}
+            className='mb-6'
+          />
+        )}
+
         {!loading && !error && (
-          <div className='grid gap-4'>
-            {orders.length === 0 ? (
-              <Card className='bg-gray-800/40 border-gray-700'>
-                <CardContent className='p-6'>
-                  <div className='text-center text-gray-400'>
-                    <CheckCircle2 className='w-12 h-12 mx-auto mb-4' />
-                    <p>No orders pending for expo</p>
-                    <p className='text-sm'>All orders are completed or in preparation</p>
-                  </div>
-                </CardContent>
-              </Card>
-            ) : (
-              orders.map((orderRouting) => (
-                <Card key={orderRouting.id} className='bg-gray-800/40 border-gray-700'>
-                  <CardHeader className='pb-3'>
-                    <div className='flex items-center justify-between'>
-                      <CardTitle className='text-lg text-white'>
-                        {orderRouting.order?.table?.label || 'Unknown Table'} - Seat {orderRouting.order?.seat_id}
-                      </CardTitle>
-                      <div className='flex items-center gap-2'>
-                        <Badge variant='outline' className='text-gray-300 border-gray-600'>
-                          {orderRouting.station?.name || 'Unknown Station'}
-                        </Badge>
-                        <Badge 
-                          variant={orderRouting.priority > 1 ? 'destructive' : 'secondary'}
-                          className={orderRouting.priority > 1 ? 'bg-red-900/20 text-red-400' : 'bg-gray-700 text-gray-300'}
-                        >
-                          Priority {orderRouting.priority}
-                        </Badge>
-                      </div>
-                    </div>
-                    <div className='flex items-center justify-between text-sm'>
-                      <span className={getTimeColor(orderRouting.routed_at)}>
-                        <Clock className='w-4 h-4 inline mr-1' />
-                        {formatTime(orderRouting.routed_at)}
-                      </span>
-                      <span className='text-gray-400'>
-                        Sequence #{orderRouting.sequence}
-                      </span>
-                    </div>
-                  </CardHeader>
-                  <CardContent className='pt-0'>
-                    <div className='space-y-3'>
-                      <div>
-                        <h4 className='text-sm font-medium text-gray-300 mb-2'>Items</h4>
-                        <div className='flex flex-wrap gap-1'>
-                          {(orderRouting.order?.items || []).map((item, idx) => (
-                            <Badge key={idx} variant='outline' className='text-xs text-gray-400 border-gray-600'>
-                              {item}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                      
-                      {orderRouting.notes && (
-                        <div>
-                          <h4 className='text-sm font-medium text-gray-300 mb-1'>Notes</h4>
-                          <p className='text-sm text-gray-400'>{orderRouting.notes}</p>
-                        </div>
-                      )}
-
-                      <div className='flex justify-end'>
-                        <Button
-                          onClick={() => handleBumpOrder(orderRouting.id)}
-                          disabled={bumpingOrders.has(orderRouting.id)}
-                          className='bg-green-600 hover:bg-green-700 text-white'
-                        >
-                          {bumpingOrders.has(orderRouting.id) ? (
-                            <>
-                              <Clock className='w-4 h-4 mr-2 animate-spin' />
-                              Dispatching...
-                            </>
-                          ) : (
-                            <>
-                              <CheckCircle2 className='w-4 h-4 mr-2' />
-                              Dispatch Order
-                            </>
-                          )}
-                        </Button>
-                      </div>
+          <div className='grid gap-6 xl:grid-cols-[1fr_22rem]'>
+            <div className='grid gap-4'>
+              {tables.length === 0 ? (
+                <Card className='bg-gray-800/40 border-gray-700'>
+                  <CardContent className='p-6'>
+                    <div className='text-center text-gray-400'>
+                      <CheckCircle2 className='w-12 h-12 mx-auto mb-4' />
+                      <p>No orders pending for expo</p>
+                      <p className='text-sm'>Every table has been sent its food</p>
                     </div>
                   </CardContent>
                 </Card>
-              ))
-            )}
+              ) : (
+                tables.map(table => (
+                  <ExpoTableCard
+                    key={table.tableId}
+                    table={table}
+                    onSendCourse={handleSendCourse}
+                    onBumpTicket={handleBumpOrder}
+                    sendingKey={sendingKey}
+                    bumpingIds={bumpingOrders}
+                    selectedItemKey={selectedItemKey}
+                    highlightedRoutingIds={highlightedRoutingIds}
+                  />
+                ))
+              )}
+            </div>
+            <RunnerTaskList
+              tasks={runnerTasks}
+              onUpdateStatus={handleRunnerStatus}
+              updatingIds={updatingTasks}
+              className='self-start'
+            />
           </div>
         )}
       </div>
@@ -1,24 +1,83 @@
 'use client'
 
-import { useCallback, useEffect, useRef } from 'react'
-import type { Table } from '@/lib/floor-plan-utils'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  FIXTURE_DEFAULTS,
+  type Fixture,
+  type Table,
+  ZONE_COLORS,
+  type Zone,
+} from '@/lib/floor-plan-utils'
+import { type FloorPlanLayout, getLayoutObjects } from '@/lib/floor-plan-layout'
+import {
+  type Point,
+  assignTablesToZones,
+  getBottomZIndex,
+  getTopZIndex,
+} from '@/lib/floor-plan-geometry'
+import type { FixtureKind, FloorPlan } from '@/types/database'
 import { useFloorPlanReducer } from '@/hooks/use-floor-plan-reducer'
 import { useCanvasInteractionsOptimized } from '@/hooks/use-canvas-interactions-optimized'
+import type { FloorArea } from '@/hooks/use-canvas-drawing'
 import { Toolbar } from './floor-plan/toolbar'
 import { CanvasOptimized as Canvas } from './floor-plan/canvas-optimized'
 import { SidePanel } from './floor-plan/side-panel'
+import { FloorPlanSwitcher } from './floor-plan/plan-switcher'
+import { LayoutActions } from './floor-plan/layout-actions'
 import { FloorPlanErrorBoundary } from './error-boundaries'
 
 type FloorPlanEditorProps = {
-  floorPlanId: string
+  floorPlan: FloorPlan | null
+  onFloorPlanChange: (_floorPlan: FloorPlan | null) => void
 }
 
-export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
+export function FloorPlanEditor({
+  floorPlan,
+  onFloorPlanChange,
+}: FloorPlanEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
   // Floor plan state management - REDUCED FROM 33 useState TO 1 useReducer!
-  const { selectors, actions } = useFloorPlanReducer(floorPlanId)
+  const { selectors, actions } = useFloorPlanReducer(floorPlan?.id ?? '')
+  const [isDrawingZone, setIsDrawingZone] = useState(false)
+
+  const backgroundImageUrl = floorPlan?.background_image_url ?? null
+  const [backgroundImage, setBackgroundImage] =
+    useState<HTMLImageElement | null>(null)
+
+  useEffect(() => {
+    setBackgroundImage(null)
+    if (!backgroundImageUrl) {
+      return
+    }
+    const image = new Image()
+    image.onload = () => setBackgroundImage(image)
+    image.src = backgroundImageUrl
+    return () => {
+      image.onload = null
+    }
+  }, [backgroundImageUrl])
+
+  const floorArea = useMemo<FloorArea | null>(
+    () =>
+      floorPlan
+        ? {
+            width: floorPlan.canvas_width,
+            height: floorPlan.canvas_height,
+            backgroundColor: floorPlan.background_color,
+            backgroundImage,
+          }
+        : null,
+    [floorPlan, backgroundImage]
+  )
+
+  const canSwitchPlan = useCallback(
+    () =>
+      !selectors.unsavedChanges ||
+      window.confirm('Discard unsaved changes to this floor plan?'),
+    [selectors.unsavedChanges]
+  )
 
   // Canvas interactions - optimized version
   const interactions = useCanvasInteractionsOptimized(
@@ -41,6 +100,18 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
     return () => window.removeEventListener('resize', updateCanvasSize)
   }, [actions])
 
+  // Fit the whole room in view when a plan is opened or resized
+  const floorPlanId = floorPlan?.id
+  const roomWidth = floorPlan?.canvas_width
+  useEffect(() => {
+    if (!floorPlanId || !roomWidth || !containerRef.current) {
+      return
+    }
+    const width = Math.min(1200, containerRef.current.clientWidth - 20)
+    actions.setZoom(Math.min(1, width / roomWidth))
+    actions.setPanOffset({ x: 0, y: 0 })
+  }, [floorPlanId, roomWidth, actions])
+
   // Table creation helper
   const createDefaultTable = useCallback(
     (type: Table['type']): Table => {
@@ -101,27 +172,133 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
     actions.duplicateTable(selectors.selectedTable.id)
   }, [selectors.selectedTable, actions, selectors.tables])
 
+  // Tables and fixtures share one stack, so either can go above the other
+  const moveInStack = useCallback(
+    (zIndex: number) => {
+      if (selectors.selectedTable) {
+        actions.addToUndoStack([...selectors.tables])
+        actions.updateTable(selectors.selectedTable.id, { zIndex })
+      } else if (selectors.selectedFixture) {
+        actions.addToUndoStack([...selectors.tables])
+        actions.updateFixture(selectors.selectedFixture.id, { zIndex })
+      }
+    },
+    [
+      selectors.selectedTable,
+      selectors.selectedFixture,
+      selectors.tables,
+      actions,
+    ]
+  )
+
   const handleBringToFront = useCallback(() => {
-    if (!selectors.selectedTable) {
+    moveInStack(getTopZIndex(selectors.tables, selectors.fixtures) + 1)
+  }, [moveInStack, selectors.tables, selectors.fixtures])
+
+  const handleSendToBack = useCallback(() => {
+    moveInStack(getBottomZIndex(selectors.tables, selectors.fixtures) - 1)
+  }, [moveInStack, selectors.tables, selectors.fixtures])
+
+  // New fixtures go under the tables, near the top left like new tables
+  const handleAddFixture = useCallback(
+    (kind: FixtureKind) => {
+      const defaults = FIXTURE_DEFAULTS[kind]
+      const fixture: Fixture = {
+        id: crypto.randomUUID(),
+        kind,
+        x: 100,
+        y: 100,
+        width: defaults.width,
+        height: defaults.height,
+        rotation: 0,
+        zIndex: getBottomZIndex(selectors.tables, selectors.fixtures),
+        label: kind === 'label' ? defaults.name : null,
+      }
+      setIsDrawingZone(false)
+      actions.addToUndoStack([...selectors.tables])
+      actions.addFixture(fixture)
+    },
+    [actions, selectors.tables, selectors.fixtures]
+  )
+
+  const handleDeleteFixture = useCallback(() => {
+    if (!selectors.selectedFixture) {
       return
     }
 
-    const highestZIndex =
-      Math.max(...selectors.tables.map(t => t.zIndex || 0)) + 1
     actions.addToUndoStack([...selectors.tables])
-    actions.updateTable(selectors.selectedTable.id, { zIndex: highestZIndex })
-  }, [selectors.selectedTable, selectors.tables, actions])
+    actions.deleteFixture(selectors.selectedFixture.id)
+  }, [selectors.selectedFixture, selectors.tables, actions])
 
-  const handleSendToBack = useCallback(() => {
-    if (!selectors.selectedTable) {
+  const handleUpdateFixture = useCallback(
+    (updates: Partial<Fixture>) => {
+      if (!selectors.selectedFixture) {
+        return
+      }
+      actions.updateFixture(selectors.selectedFixture.id, updates)
+    },
+    [selectors.selectedFixture, actions]
+  )
+
+  // Zone IDs are made here rather than by the database, so tables can be
+  // put in a zone before it's saved
+  const handleFinishZone = useCallback(
+    (points: Point[]) => {
+      const names = new Set(selectors.zones.map(zone => zone.name))
+      let number = selectors.zones.length + 1
+      while (names.has(`Section ${number}`)) {
+        number++
+      }
+      const zone: Zone = {
+        id: crypto.randomUUID(),
+        name: `Section ${number}`,
+        color: ZONE_COLORS[selectors.zones.length % ZONE_COLORS.length],
+        points,
+      }
+      actions.addToUndoStack([...selectors.tables])
+      actions.addZone(zone)
+      setIsDrawingZone(false)
+    },
+    [actions, selectors.zones, selectors.tables]
+  )
+
+  const handleDeleteZone = useCallback(() => {
+    if (!selectors.selectedZone) {
       return
     }
 
-    const lowestZIndex =
-      Math.min(...selectors.tables.map(t => t.zIndex || 0)) - 1
     actions.addToUndoStack([...selectors.tables])
-    actions.updateTable(selectors.selectedTable.id, { zIndex: lowestZIndex })
-  }, [selectors.selectedTable, selectors.tables, actions])
+    actions.deleteZone(selectors.selectedZone.id)
+  }, [selectors.selectedZone, selectors.tables, actions])
+
+  const handleUpdateZone = useCallback(
+    (updates: Partial<Zone>) => {
+      if (!selectors.selectedZone) {
+        return
+      }
+      actions.updateZone(selectors.selectedZone.id, updates)
+    },
+    [selectors.selectedZone, actions]
+  )
+
+  const handleAssignTablesToZones = useCallback(() => {
+    actions.addToUndoStack([...selectors.tables])
+    actions.setTables(assignTablesToZones(selectors.tables, selectors.zones))
+  }, [actions, selectors.tables, selectors.zones])
+
+  // Restored snapshots and imports stay unsaved until the admin saves
+  const handleApplyLayout = useCallback(
+    (layout: FloorPlanLayout) => {
+      const { tables, fixtures, zones } = getLayoutObjects(layout)
+      actions.addToUndoStack([...selectors.tables])
+      actions.setTables(tables)
+      actions.setLayoutObjects(fixtures, zones)
+      actions.selectTable(null)
+    },
+    [actions, selectors.tables]
+  )
+
+  const handleCancelZone = useCallback(() => setIsDrawingZone(false), [])
 
   const handleUpdateTableProperty = useCallback(
     (property: keyof Table, value: any) => {
@@ -147,6 +324,10 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
       if (e.key === 'Delete' || e.key === 'Backspace') {
         if (selectors.selectedTable) {
           handleDeleteTable()
+        } else if (selectors.selectedFixture) {
+          handleDeleteFixture()
+        } else if (selectors.selectedZone) {
+          handleDeleteZone()
         }
       } else if (e.key === 'z' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault()
@@ -211,11 +392,15 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [
     selectors.selectedTable,
+    selectors.selectedFixture,
+    selectors.selectedZone,
     selectors.isGridVisible,
     selectors.snapToGrid,
     selectors.gridSize,
     selectors.tables,
     handleDeleteTable,
+    handleDeleteFixture,
+    handleDeleteZone,
     handleDuplicateTable,
     actions,
   ])
@@ -223,6 +408,22 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
   return (
     <FloorPlanErrorBoundary>
       <div className='grid grid-cols-1 gap-6'>
+        <div className='flex flex-wrap items-center justify-between gap-2'>
+          <FloorPlanSwitcher
+            floorPlanId={floorPlan?.id ?? null}
+            onChange={onFloorPlanChange}
+            canSwitch={canSwitchPlan}
+          />
+          <LayoutActions
+            floorPlan={floorPlan}
+            tables={selectors.tables}
+            fixtures={selectors.fixtures}
+            zones={selectors.zones}
+            onApplyLayout={handleApplyLayout}
+            disabled={selectors.isLoading || selectors.isSaving}
+          />
+        </div>
+
         {/* Toolbar */}
         <Toolbar
           undoStack={selectors.undoStack}
@@ -236,6 +437,9 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
           }
           onToggleSnap={() => actions.setSnapToGrid(!selectors.snapToGrid)}
           onAddTable={handleAddTable}
+          onAddFixture={handleAddFixture}
+          isDrawingZone={isDrawingZone}
+          onToggleDrawZone={() => setIsDrawingZone(!isDrawingZone)}
           onResetView={actions.resetView}
           onSave={actions.saveTables}
           isSaving={selectors.isSaving}
@@ -247,7 +451,12 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
           <div ref={containerRef} className='flex-1'>
             <Canvas
               tables={selectors.tables}
+              fixtures={selectors.fixtures}
+              zones={selectors.zones}
+              selectedFixtureId={selectors.selectedFixture?.id ?? null}
+              selectedZoneId={selectors.selectedZone?.id ?? null}
               canvasSize={selectors.canvasSize}
+              floorArea={floorArea}
               isLoading={selectors.isLoading}
               selectedTable={selectors.selectedTable}
               hoveredTableId={selectors.hoveredTableId}
@@ -263,11 +472,18 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
               showTableStatus={selectors.showTableStatus}
               // Interaction state
               interactionMode={selectors.interactionMode}
+              isDrawingZone={isDrawingZone}
               // Interactions
               interactions={interactions}
               // Event handlers
               onTableUpdate={actions.updateTable}
               onSelectTable={actions.selectTable}
+              onFixtureUpdate={actions.updateFixture}
+              onSelectFixture={actions.selectFixture}
+              onZoneUpdate={actions.updateZone}
+              onSelectZone={actions.selectZone}
+              onFinishZone={handleFinishZone}
+              onCancelZone={handleCancelZone}
               onSetHoveredTable={actions.setHoveredTable}
               onSetInteractionMode={actions.setInteractionMode}
               onSetDragOffset={actions.setDragOffset}
@@ -290,6 +506,15 @@ export function FloorPlanEditor({ floorPlanId }: FloorPlanEditorProps) {
             selectedTable={selectors.selectedTable}
             onSelectTable={(table: Table) => actions.selectTable(table.id)}
             onUpdateTable={handleUpdateTableProperty}
+            // Fixture and zone state
+            zones={selectors.zones}
+            selectedFixture={selectors.selectedFixture}
+            selectedZone={selectors.selectedZone}
+            onUpdateFixture={handleUpdateFixture}
+            onDeleteFixture={handleDeleteFixture}
+            onUpdateZone={handleUpdateZone}
+            onDeleteZone={handleDeleteZone}
+            onAssignTablesToZones={handleAssignTablesToZones}
             // Table actions
             onDeleteTable={handleDeleteTable}
             onDuplicateTable={handleDuplicateTable}
@@ -4,25 +4,44 @@
 import type React from 'react'
 import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+import { TableStateControl } from '@/components/table-state-control'
 // PERFORMANCE_OPTIMIZATION: Eliminated framer-motion completely
 // Original: Full framer-motion library (~150KB) for table animations
 // Changed to: Pure CSS animations with equivalent functionality
 // Impact: 100% reduction in motion-related bundle size for floor plan
 // Risk: None - same visual effects, better performance
 import { Table } from '@/lib/floor-plan-utils'
+import {
+  TABLE_STATE_COLORS,
+  TABLE_STATE_LABELS,
+  formatElapsed,
+} from '@/lib/modassembly/supabase/database/table-lifecycle'
+import type { TableLifecycleState } from '@/types/database'
 
 type FloorPlanViewProps = {
   floorPlanId: string
   onSelectTable: (table: Table) => void
   tables: Table[]
+  // The server's own section; other tables are drawn faded
+  highlightedTableIds?: Set<string>
+  // Manual lifecycle override for the tapped table
+  onChangeTableState?: (
+    _table: Table,
+    _state: TableLifecycleState
+  ) => Promise<void>
 }
 
 export const FloorPlanView = memo(function FloorPlanView({
   floorPlanId,
   onSelectTable,
   tables,
+  highlightedTableIds,
+  onChangeTableState,
 }: FloorPlanViewProps) {
   const [hoveredTable, setHoveredTable] = useState<string | null>(null)
+  const [focusedTableId, setFocusedTableId] = useState<string | null>(null)
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 })
   const [spotlights, setSpotlights] = useState<
     { x: number; y: number; color: string }[]
@@ -142,8 +161,10 @@ export const FloorPlanView = memo(function FloorPlanView({
       ctx.fillRect(0, 0, canvas.width, canvas.height)
 
       // Draw tables
+      const hasSection = !!highlightedTableIds && highlightedTableIds.size > 0
       tables.forEach(table => {
         const isHovered = hoveredTable === table.id
+        const isOwn = !!highlightedTableIds?.has(table.id)
         const rotationRad = (table.rotation || 0) * (Math.PI / 180)
         const centerX = table.x + table.width / 2,
           centerY = table.y + table.height / 2
@@ -151,9 +172,13 @@ export const FloorPlanView = memo(function FloorPlanView({
         ctx.translate(centerX, centerY)
         ctx.rotate(rotationRad)
         ctx.translate(-centerX, -centerY)
+        ctx.globalAlpha = hasSection && !isOwn ? 0.45 : 1
+        const state = table.lifecycleState ?? 'available'
 
         // Styling
-        const baseColor = 'rgba(13, 148, 136, 1)'
+        const baseColor = isOwn
+          ? 'rgba(251, 191, 36, 1)'
+          : TABLE_STATE_COLORS[state]
         const hoverColor = 'rgba(56, 189, 174, 1)'
         const strokeColor = isHovered ? hoverColor : baseColor
         const gradientStart = isHovered
@@ -174,7 +199,7 @@ export const FloorPlanView = memo(function FloorPlanView({
         tableGradient.addColorStop(1, gradientEnd)
         ctx.fillStyle = tableGradient
         ctx.strokeStyle = strokeColor
-        ctx.lineWidth = isHovered ? 2.5 : 1.5
+        ctx.lineWidth = isHovered || isOwn ? 2.5 : 1.5
 
         // Shadow
         ctx.shadowColor = isHovered
@@ -285,6 +310,27 @@ export const FloorPlanView = memo(function FloorPlanView({
         })
 
         ctx.restore()
+
+        // Timer below the table, upright and clear of the seats
+        if (state !== 'available' && table.lifecycleChangedAt) {
+          const elapsed = formatElapsed(table.lifecycleChangedAt)
+          const text = `${TABLE_STATE_LABELS[state]} ${elapsed}`
+          ctx.save()
+          ctx.globalAlpha = hasSection && !isOwn ? 0.45 : 1
+          ctx.font =
+            "11px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif"
+          const pillWidth = ctx.measureText(text).width + 12
+          const pillY = centerY + Math.max(table.width, table.height) / 2 + 24
+          ctx.fillStyle = TABLE_STATE_COLORS[state]
+          ctx.beginPath()
+          ctx.roundRect(centerX - pillWidth / 2, pillY - 9, pillWidth, 18, 9)
+          ctx.fill()
+          ctx.fillStyle = '#ffffff'
+          ctx.textAlign = 'center'
+          ctx.textBaseline = 'middle'
+          ctx.fillText(text, centerX, pillY)
+          ctx.restore()
+        }
       })
 
       animationFrameRef.current = requestAnimationFrame(drawFrame)
@@ -297,7 +343,14 @@ export const FloorPlanView = memo(function FloorPlanView({
       }
       animationFrameRef.current = null
     }
-  }, [tables, hoveredTable, canvasSize, spotlights, calculateSeatPositions])
+  }, [
+    tables,
+    highlightedTableIds,
+    hoveredTable,
+    canvasSize,
+    spotlights,
+    calculateSeatPositions,
+  ])
 
   // Handle canvas click - Enhanced Hit Detection with rotation support
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -357,6 +410,7 @@ export const FloorPlanView = memo(function FloorPlanView({
 
     if (clickedTable) {
       onSelectTable(clickedTable)
+      setFocusedTableId(clickedTable.id)
     }
   }
 
@@ -420,6 +474,8 @@ export const FloorPlanView = memo(function FloorPlanView({
     }
   }
 
+  const focusedTable = tables.find(table => table.id === focusedTableId)
+
   return (
     <div className='floor-plan-container'>
       <div
@@ -462,6 +518,33 @@ export const FloorPlanView = memo(function FloorPlanView({
           aria-label='Floor plan'
         />
 
+        {/* State override for the tapped table */}
+        {onChangeTableState && focusedTable && (
+          <div className='absolute top-2 left-2 z-10 w-80 max-w-[calc(100%-1rem)] rounded-lg border border-gray-700 bg-gray-900/90 p-3 shadow-lg'>
+            <div className='mb-2 flex items-center justify-between'>
+              <span className='text-sm font-medium text-white'>
+                Table {focusedTable.label}
+              </span>
+              <Button
+                variant='ghost'
+                size='sm'
+                className='h-6 w-6 p-0'
+                onClick={() => setFocusedTableId(null)}
+                title='Close'
+              >
+                <X className='h-4 w-4' />
+              </Button>
+            </div>
+            <TableStateControl
+              state={focusedTable.lifecycleState ?? 'available'}
+              changedAt={focusedTable.lifecycleChangedAt}
+              onChange={async state =>
+                onChangeTableState?.(focusedTable, state)
+              }
+            />
+          </div>
+        )}
+
         {/* Instructions Overlay */}
         {tables.length > 0 && (
           <div className='absolute bottom-2 left-1/2 transform -translate-x-1/2 text-xs text-gray-400 bg-gray-900/60 px-2 py-1 rounded pointer-events-none'>
@@ -1,11 +1,19 @@
 'use client'
 
-import React, { useCallback, useMemo, useRef } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Table } from '@/lib/floor-plan-utils'
-import { useCanvasDrawing } from '@/hooks/use-canvas-drawing'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
+import {
+  type CanvasSelection,
+  type Point,
+  findItemAt,
+  findVertexAt,
+  snapPoint,
+  translatePoints,
+} from '@/lib/floor-plan-geometry'
+import { type FloorArea, useCanvasDrawing } from '@/hooks/use-canvas-drawing'
 import type { CanvasInteractionsOptimized } from '@/hooks/use-canvas-interactions-optimized'
 import type { FloorPlanState } from '@/hooks/use-floor-plan-reducer'
 
@@ -29,9 +37,23 @@ function throttle<T extends (...args: any[]) => any>(
   } as T
 }
 
+// What a drag moves, with where the pointer and the object started
+type DragTarget =
+  | { kind: 'table' | 'fixture'; id: string; start: Point; origin: Point }
+  | { kind: 'zone'; id: string; start: Point; origin: Point[] }
+  | { kind: 'vertex'; id: string; index: number }
+
+// Screen pixels around a zone corner that grab it
+const VERTEX_HIT_RADIUS = 10
+
 interface CanvasOptimizedProps {
   tables: Table[]
+  fixtures: Fixture[]
+  zones: Zone[]
+  selectedFixtureId: string | null
+  selectedZoneId: string | null
   canvasSize: { width: number; height: number }
+  floorArea?: FloorArea | null
   isLoading: boolean
   selectedTable: Table | null
   hoveredTableId: string | null
@@ -50,6 +72,8 @@ interface CanvasOptimizedProps {
 
   // Interaction state
   interactionMode: FloorPlanState['interaction']['mode']
+  // Clicks add corners to a new zone instead of selecting
+  isDrawingZone: boolean
 
   // Interactions
   interactions: CanvasInteractionsOptimized
@@ -57,6 +81,12 @@ interface CanvasOptimizedProps {
   // Event handlers
   onTableUpdate: (tableId: string, updates: Partial<Table>) => void
   onSelectTable: (tableId: string | null) => void
+  onFixtureUpdate: (_fixtureId: string, _updates: Partial<Fixture>) => void
+  onSelectFixture: (_fixtureId: string | null) => void
+  onZoneUpdate: (_zoneId: string, _updates: Partial<Zone>) => void
+  onSelectZone: (_zoneId: string | null) => void
+  onFinishZone: (_points: Point[]) => void
+  onCancelZone: () => void
   onSetHoveredTable: (tableId: string | null) => void
   onSetInteractionMode: (mode: FloorPlanState['interaction']['mode']) => void
   onSetDragOffset: (offset: { x: number; y: number }) => void
@@ -72,7 +102,12 @@ interface CanvasOptimizedProps {
 
 export const CanvasOptimized = React.memo(function CanvasOptimized({
   tables,
+  fixtures,
+  zones,
+  selectedFixtureId,
+  selectedZoneId,
   canvasSize,
+  floorArea = null,
   isLoading,
   selectedTable,
   hoveredTableId,
@@ -90,6 +125,7 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
 
   // Interaction state
   interactionMode,
+  isDrawingZone,
 
   // Interactions
   interactions,
@@ -97,6 +133,12 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
   // Event handlers
   onTableUpdate,
   onSelectTable,
+  onFixtureUpdate,
+  onSelectFixture,
+  onZoneUpdate,
+  onSelectZone,
+  onFinishZone,
+  onCancelZone,
   onSetHoveredTable,
   onSetInteractionMode,
   onSetDragOffset,
@@ -110,26 +152,103 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
   onAddToUndoStack,
   canvasRef,
 }: CanvasOptimizedProps) {
+  const [draftPoints, setDraftPoints] = useState<Point[]>([])
+  const [draftCursor, setDraftCursor] = useState<Point | null>(null)
+  const dragRef = useRef<DragTarget | null>(null)
+
+  const selectedZone = useMemo(
+    () => zones.find(zone => zone.id === selectedZoneId) || null,
+    [zones, selectedZoneId]
+  )
+
+  // Start each zone from scratch
+  useEffect(() => {
+    if (!isDrawingZone) {
+      setDraftPoints([])
+      setDraftCursor(null)
+    }
+  }, [isDrawingZone])
+
+  const finishZone = useCallback(() => {
+    if (draftPoints.length >= 3) {
+      onFinishZone(draftPoints)
+    }
+  }, [draftPoints, onFinishZone])
+
+  useEffect(() => {
+    if (!isDrawingZone) {
+      return
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancelZone()
+      } else if (e.key === 'Enter') {
+        finishZone()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isDrawingZone, finishZone, onCancelZone])
+
   // Memoized drawing options
   const drawingOptions = useMemo(
     () => ({
+      floorArea,
       isGridVisible,
       gridSize,
       showTableLabels,
       showTableSeats,
       showTableDimensions,
       showTableStatus,
+      fixtures,
+      zones,
+      selectedFixtureId,
+      selectedZoneId,
+      draftZone:
+        isDrawingZone && draftPoints.length > 0
+          ? draftCursor
+            ? [...draftPoints, draftCursor]
+            : draftPoints
+          : null,
     }),
     [
+      floorArea,
       isGridVisible,
       gridSize,
       showTableLabels,
       showTableSeats,
       showTableDimensions,
       showTableStatus,
+      fixtures,
+      zones,
+      selectedFixtureId,
+      selectedZoneId,
+      isDrawingZone,
+      draftPoints,
+      draftCursor,
     ]
   )
 
+  const select = useCallback(
+    (selection: CanvasSelection | null) => {
+      if (selection?.kind === 'fixture') {
+        onSelectFixture(selection.id)
+      } else if (selection?.kind === 'zone') {
+        onSelectZone(selection.id)
+      } else {
+        onSelectTable(selection?.id || null)
+      }
+    },
+    [onSelectTable, onSelectFixture, onSelectZone]
+  )
+
+  const isOnSelectedVertex = useCallback(
+    (x: number, y: number) =>
+      !!selectedZone &&
+      findVertexAt(selectedZone, x, y, VERTEX_HIT_RADIUS / zoomLevel) >= 0,
+    [selectedZone, zoomLevel]
+  )
+
   // Drawing hook
   const { calculateSeatPositions } = useCanvasDrawing(
     canvasRef,
@@ -166,6 +285,12 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
         return
       }
 
+      if (isDrawingZone) {
+        setDraftCursor(snapPoint({ x, y }, gridSize, snapToGrid))
+        canvas.style.cursor = 'crosshair'
+        return
+      }
+
       if (interactionMode === 'panning') {
         // Handle panning - get panStart from somewhere or track it
         return
@@ -189,17 +314,60 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
         return
       }
 
-      if (interactionMode === 'dragging' && selectedTable) {
-        // Get dragOffset from state
-        // Handle dragging logic
+      if (interactionMode === 'dragging' && dragRef.current) {
+        const drag = dragRef.current
+        if (drag.kind === 'vertex') {
+          const zone = zones.find(z => z.id === drag.id)
+          if (zone) {
+            const points = [...zone.points]
+            points[drag.index] = snapPoint({ x, y }, gridSize, snapToGrid)
+            onZoneUpdate(zone.id, { points })
+          }
+          return
+        }
+
+        const dx = x - drag.start.x
+        const dy = y - drag.start.y
+        if (drag.kind === 'zone') {
+          // Snap the first corner and carry the others with it
+          const first = drag.origin[0]
+          const snapped = snapPoint(
+            { x: first.x + dx, y: first.y + dy },
+            gridSize,
+            snapToGrid
+          )
+          onZoneUpdate(drag.id, {
+            points: translatePoints(
+              drag.origin,
+              snapped.x - first.x,
+              snapped.y - first.y
+            ),
+          })
+          return
+        }
+
+        const position = snapPoint(
+          { x: drag.origin.x + dx, y: drag.origin.y + dy },
+          gridSize,
+          snapToGrid
+        )
+        if (drag.kind === 'table') {
+          onTableUpdate(drag.id, position)
+        } else {
+          onFixtureUpdate(drag.id, position)
+        }
         return
       }
 
       // Update hover state and cursor
-      const hoveredTable = interactions.findTableAtPosition(x, y, tables)
+      const hit = findItemAt(x, y, tables, fixtures, zones)
+      const hoveredTable =
+        hit?.kind === 'table'
+          ? tables.find(table => table.id === hit.id) || null
+          : null
       onSetHoveredTable(hoveredTable?.id || null)
 
-      const cursorStyle = interactions.getCursorStyle(
+      let cursorStyle = interactions.getCursorStyle(
         x,
         y,
         selectedTable,
@@ -208,26 +376,56 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
         zoomLevel,
         e.ctrlKey || e.metaKey
       )
+      if (isOnSelectedVertex(x, y)) {
+        cursorStyle = 'crosshair'
+      } else if (cursorStyle === 'default' && hit) {
+        cursorStyle = 'move'
+      }
       canvas.style.cursor = cursorStyle
     },
     [
       interactionMode,
+      isDrawingZone,
       selectedTable,
       interactions,
       tables,
+      fixtures,
+      zones,
+      gridSize,
+      snapToGrid,
+      isOnSelectedVertex,
       onSetHoveredTable,
       zoomLevel,
       onTableUpdate,
+      onFixtureUpdate,
+      onZoneUpdate,
     ]
   )
 
   const handleCanvasClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (interactionMode !== 'idle') {
+      const { x, y } = interactions.screenToCanvas(e.clientX, e.clientY)
+
+      if (isDrawingZone) {
+        const point = snapPoint({ x, y }, gridSize, snapToGrid)
+        const first = draftPoints[0]
+        const last = draftPoints[draftPoints.length - 1]
+        // Clicking the first corner again closes the shape
+        if (
+          draftPoints.length >= 3 &&
+          Math.hypot(point.x - first.x, point.y - first.y) <=
+            VERTEX_HIT_RADIUS / zoomLevel
+        ) {
+          finishZone()
+        } else if (!last || last.x !== point.x || last.y !== point.y) {
+          setDraftPoints([...draftPoints, point])
+        }
         return
       }
 
-      const { x, y } = interactions.screenToCanvas(e.clientX, e.clientY)
+      if (interactionMode !== 'idle') {
+        return
+      }
 
       if (selectedTable) {
         if (
@@ -252,22 +450,33 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
         }
       }
 
-      const clickedTable = interactions.findTableAtPosition(x, y, tables)
-      onSelectTable(clickedTable?.id || null)
+      if (isOnSelectedVertex(x, y)) {
+        return
+      }
+
+      select(findItemAt(x, y, tables, fixtures, zones))
     },
     [
       interactionMode,
+      isDrawingZone,
+      draftPoints,
+      gridSize,
+      snapToGrid,
+      finishZone,
       selectedTable,
       interactions,
       tables,
-      onSelectTable,
+      fixtures,
+      zones,
+      isOnSelectedVertex,
+      select,
       zoomLevel,
     ]
   )
 
   const handleMouseDown = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (e.button !== 0) {
+      if (e.button !== 0 || isDrawingZone) {
         return
       } // Only left click
 
@@ -306,13 +515,47 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
         }
       }
 
-      const clickedTable = interactions.findTableAtPosition(x, y, tables)
-      if (clickedTable) {
-        if (!selectedTable || selectedTable.id !== clickedTable.id) {
-          onSelectTable(clickedTable.id)
+      if (selectedZone) {
+        const index = findVertexAt(
+          selectedZone,
+          x,
+          y,
+          VERTEX_HIT_RADIUS / zoomLevel
+        )
+        if (index >= 0) {
+          dragRef.current = { kind: 'vertex', id: selectedZone.id, index }
+          onSetInteractionMode('dragging')
+          onAddToUndoStack([...tables])
+          return
+        }
+      }
+
+      const hit = findItemAt(x, y, tables, fixtures, zones)
+      if (hit) {
+        select(hit)
+        const start = { x, y }
+        if (hit.kind === 'zone') {
+          const zone = zones.find(z => z.id === hit.id)!
+          dragRef.current = {
+            kind: 'zone',
+            id: zone.id,
+            start,
+            origin: zone.points,
+          }
+        } else {
+          const item =
+            hit.kind === 'table'
+              ? tables.find(t => t.id === hit.id)!
+              : fixtures.find(f => f.id === hit.id)!
+          dragRef.current = {
+            kind: hit.kind,
+            id: hit.id,
+            start,
+            origin: { x: item.x, y: item.y },
+          }
+          onSetDragOffset({ x: x - item.x, y: y - item.y })
         }
         onSetInteractionMode('dragging')
-        onSetDragOffset({ x: x - clickedTable.x, y: y - clickedTable.y })
         onAddToUndoStack([...tables])
 
         // Haptic feedback on mobile
@@ -328,8 +571,13 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
     },
     [
       interactions,
+      isDrawingZone,
       selectedTable,
+      selectedZone,
       tables,
+      fixtures,
+      zones,
+      select,
       zoomLevel,
       onSetInteractionMode,
       onSetResizeDirection,
@@ -343,6 +591,12 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
     ]
   )
 
+  const handleDoubleClick = useCallback(() => {
+    if (isDrawingZone) {
+      finishZone()
+    }
+  }, [isDrawingZone, finishZone])
+
   const handleContextMenu = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       e.preventDefault()
@@ -353,6 +607,7 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
   )
 
   const handleMouseUp = useCallback(() => {
+    dragRef.current = null
     onSetInteractionMode('idle')
 
     if (canvasRef.current) {
@@ -401,6 +656,7 @@ export const CanvasOptimized = React.memo(function CanvasOptimized({
       <canvas
         ref={canvasRef}
         onClick={handleCanvasClick}
+        onDoubleClick={handleDoubleClick}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -0,0 +1,428 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  Download,
+  FileJson,
+  GitCompare,
+  History,
+  Image as ImageIcon,
+  Layers,
+  RotateCcw,
+  Trash2,
+  Upload,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
+import {
+  type FloorPlanLayout,
+  createFloorPlanLayout,
+  diffFloorPlanLayouts,
+  floorPlanLayoutToPng,
+  floorPlanLayoutToSvg,
+  getLayoutTables,
+  parseFloorPlanLayoutJson,
+} from '@/lib/floor-plan-layout'
+import {
+  createFloorPlanVersion,
+  deleteFloorPlanVersion,
+  fetchFloorPlanVersions,
+  getVersionLayout,
+} from '@/lib/modassembly/supabase/database/floor-plan-versions'
+import type { FloorPlan, FloorPlanVersion } from '@/types/database'
+import { cn } from '@/lib/utils'
+
+interface LayoutActionsProps {
+  floorPlan: FloorPlan | null
+  tables: Table[]
+  fixtures: Fixture[]
+  zones: Zone[]
+  // Put a layout on the canvas as an unsaved, undoable change
+  onApplyLayout: (_layout: FloorPlanLayout) => void
+  disabled?: boolean
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const fileSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'floor-plan'
+
+/**
+ * Export the layout as JSON, SVG or PNG, import a JSON layout, and keep
+ * named snapshots to compare against and restore
+ */
+export function LayoutActions({
+  floorPlan,
+  tables,
+  fixtures,
+  zones,
+  onApplyLayout,
+  disabled = false,
+}: LayoutActionsProps) {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [versions, setVersions] = useState<FloorPlanVersion[]>([])
+  const [snapshotName, setSnapshotName] = useState('')
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const floorPlanId = floorPlan?.id
+
+  const showError = useCallback(
+    (title: string, error: unknown) => {
+      console.error(`${title}:`, error)
+      toast({
+        title,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+        duration: 4000,
+      })
+    },
+    [toast]
+  )
+
+  const loadVersions = useCallback(async () => {
+    if (!floorPlanId) {
+      return
+    }
+    try {
+      setVersions(await fetchFloorPlanVersions(floorPlanId))
+    } catch (error) {
+      showError('Error loading versions', error)
+    }
+  }, [floorPlanId, showError])
+
+  useEffect(() => {
+    if (isHistoryOpen) {
+      loadVersions()
+    }
+  }, [isHistoryOpen, loadVersions])
+
+  if (!floorPlan) {
+    return null
+  }
+
+  const currentLayout = () =>
+    createFloorPlanLayout(floorPlan, tables, { fixtures, zones })
+
+  const apply = (layout: FloorPlanLayout, source: string) => {
+    onApplyLayout(layout)
+    const { canvas_width: width, canvas_height: height } = layout.floor_plan
+    const sameRoom =
+      width === floorPlan.canvas_width && height === floorPlan.canvas_height
+    toast({
+      title: `${source} loaded`,
+      description: sameRoom
+        ? 'Review the tables, then save to keep them'
+        : `Made for a ${width}×${height} room; resize this plan under Edit if needed, then save`,
+      duration: 4000,
+    })
+  }
+
+  const exportJson = () => {
+    const json = JSON.stringify(currentLayout(), null, 2)
+    downloadBlob(
+      new Blob([json], { type: 'application/json' }),
+      `${fileSlug(floorPlan.name)}.json`
+    )
+  }
+
+  const exportSvg = () => {
+    downloadBlob(
+      new Blob([floorPlanLayoutToSvg(currentLayout())], {
+        type: 'image/svg+xml',
+      }),
+      `${fileSlug(floorPlan.name)}.svg`
+    )
+  }
+
+  const exportPng = async () => {
+    try {
+      downloadBlob(
+        await floorPlanLayoutToPng(currentLayout()),
+        `${fileSlug(floorPlan.name)}.png`
+      )
+    } catch (error) {
+      showError('PNG export failed', error)
+    }
+  }
+
+  const importJson = async (file?: File) => {
+    if (!file) {
+      return
+    }
+    try {
+      apply(parseFloorPlanLayoutJson(await file.text()), file.name)
+    } catch (error) {
+      showError('Import failed', error)
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  const saveSnapshot = async () => {
+    if (!snapshotName.trim()) {
+      return
+    }
+    setIsBusy(true)
+    try {
+      await createFloorPlanVersion(floorPlan.id, snapshotName, currentLayout())
+      setSnapshotName('')
+      await loadVersions()
+    } catch (error) {
+      showError('Snapshot not saved', error)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const restore = (version: FloorPlanVersion) => {
+    try {
+      apply(getVersionLayout(version), `"${version.name}"`)
+      setIsHistoryOpen(false)
+    } catch (error) {
+      showError('Snapshot could not be restored', error)
+    }
+  }
+
+  const remove = async (version: FloorPlanVersion) => {
+    if (!window.confirm(`Delete snapshot "${version.name}"?`)) {
+      return
+    }
+    setIsBusy(true)
+    try {
+      await deleteFloorPlanVersion(version.id)
+      await loadVersions()
+    } catch (error) {
+      showError('Snapshot not deleted', error)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const renderDiff = (version: FloorPlanVersion) => {
+    let diff
+    try {
+      diff = diffFloorPlanLayouts(
+        tables,
+        getLayoutTables(getVersionLayout(version))
+      )
+    } catch (error) {
+      return (
+        <p className='text-xs text-red-500'>
+          {error instanceof Error ? error.message : 'Unreadable snapshot'}
+        </p>
+      )
+    }
+
+    if (
+      diff.added.length === 0 &&
+      diff.removed.length === 0 &&
+      diff.changed.length === 0
+    ) {
+      return (
+        <p className='text-xs text-muted-foreground'>
+          Same tables as the canvas
+        </p>
+      )
+    }
+
+    return (
+      <ul className='space-y-1 text-xs'>
+        {diff.added.map(table => (
+          <li key={`added-${table.id}`} className='text-green-500'>
+            + {table.label} ({table.seats} seats)
+          </li>
+        ))}
+        {diff.removed.map(table => (
+          <li key={`removed-${table.id}`} className='text-red-500'>
+            − {table.label}
+          </li>
+        ))}
+        {diff.changed.map(({ table, changes }) => (
+          <li key={`changed-${table.id}`} className='text-amber-500'>
+            ~ {table.label}: {changes.join(', ')}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant='outline' size='sm' disabled={disabled}>
+            <Layers className='h-4 w-4 mr-1' />
+            Layout
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='end'>
+          <DropdownMenuItem onSelect={() => setIsHistoryOpen(true)}>
+            <History className='h-4 w-4 mr-2' />
+            Versions…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Export</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={exportJson}>
+            <FileJson className='h-4 w-4 mr-2' />
+            Layout (JSON)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={exportSvg}>
+            <Download className='h-4 w-4 mr-2' />
+            Printable (SVG)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={exportPng}>
+            <ImageIcon className='h-4 w-4 mr-2' />
+            Printable (PNG)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className='h-4 w-4 mr-2' />
+            Import JSON…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type='file'
+        accept='application/json,.json'
+        className='hidden'
+        onChange={e => importJson(e.target.files?.[0])}
+      />
+
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent className='max-w-lg'>
+          <DialogHeader>
+            <DialogTitle>{floorPlan.name} versions</DialogTitle>
+            <DialogDescription>
+              Snapshot the layout on the canvas, compare a snapshot's tables
+              with it or restore it
+            </DialogDescription>
+          </DialogHeader>
+          <div className='flex gap-2'>
+            <Input
+              placeholder='e.g. Holiday layout'
+              value={snapshotName}
+              onChange={e => setSnapshotName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && saveSnapshot()}
+            />
+            <Button
+              onClick={saveSnapshot}
+              disabled={isBusy || !snapshotName.trim()}
+            >
+              Save snapshot
+            </Button>
+          </div>
+          <ScrollArea className='max-h-96'>
+            {versions.length === 0 ? (
+              <p className='py-4 text-center text-sm text-muted-foreground'>
+                No snapshots yet
+              </p>
+            ) : (
+              <ul className='divide-y divide-border'>
+                {versions.map(version => (
+                  <li key={version.id} className='py-3'>
+                    <div className='flex items-center justify-between gap-2'>
+                      <div className='min-w-0'>
+                        <div className='truncate font-medium'>
+                          {version.name}
+                        </div>
+                        <div className='text-xs text-muted-foreground'>
+                          {new Date(version.created_at).toLocaleString([], {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: 'numeric',
+                            minute: '2-digit',
+                          })}{' '}
+                          <Badge variant='outline' className='ml-1'>
+                            {version.table_count} tables
+                          </Badge>
+                        </div>
+                      </div>
+                      <div className='flex shrink-0 gap-1'>
+                        <Button
+                          variant='ghost'
+                          size='icon'
+                          title='Compare with canvas'
+                          onClick={() =>
+                            setComparingId(
+                              comparingId === version.id ? null : version.id
+                            )
+                          }
+                          className={cn(
+                            comparingId === version.id && 'bg-muted'
+                          )}
+                        >
+                          <GitCompare className='h-4 w-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='icon'
+                          title='Restore'
+                          onClick={() => restore(version)}
+                        >
+                          <RotateCcw className='h-4 w-4' />
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='icon'
+                          title='Delete'
+                          disabled={isBusy}
+                          onClick={() => remove(version)}
+                          className='text-destructive'
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </Button>
+                      </div>
+                    </div>
+                    {comparingId === version.id && (
+                      <div className='mt-2 rounded-md bg-muted/50 p-2'>
+                        <div className='mb-1 text-xs font-medium'>
+                          Restoring would change
+                        </div>
+                        {renderDiff(version)}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
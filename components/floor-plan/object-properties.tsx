@@ -0,0 +1,225 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Layers, Shapes, Trash2, Users } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  FIXTURE_DEFAULTS,
+  type Fixture,
+  type Table,
+  ZONE_COLORS,
+  type Zone,
+} from '@/lib/floor-plan-utils'
+
+interface ObjectPropertiesProps {
+  tables: Table[]
+  selectedFixture: Fixture | null
+  selectedZone: Zone | null
+  onUpdateFixture: (_updates: Partial<Fixture>) => void
+  onDeleteFixture: () => void
+  onUpdateZone: (_updates: Partial<Zone>) => void
+  onDeleteZone: () => void
+  onAssignTablesToZones: () => void
+  onBringToFront: () => void
+  onSendToBack: () => void
+}
+
+/**
+ * Properties of the selected fixture or zone; hidden when neither is
+ * selected
+ */
+export function ObjectProperties({
+  tables,
+  selectedFixture,
+  selectedZone,
+  onUpdateFixture,
+  onDeleteFixture,
+  onUpdateZone,
+  onDeleteZone,
+  onAssignTablesToZones,
+  onBringToFront,
+  onSendToBack,
+}: ObjectPropertiesProps) {
+  if (!selectedFixture && !selectedZone) {
+    return null
+  }
+
+  return (
+    <div className='bg-gray-900/50 rounded-lg border border-gray-800 overflow-hidden shadow-lg'>
+      <div className='flex items-center gap-2 p-4 border-b border-gray-800'>
+        <Shapes className='h-5 w-5 text-gray-400' />
+        <h3 className='text-lg font-medium'>
+          {selectedFixture
+            ? FIXTURE_DEFAULTS[selectedFixture.kind].name
+            : 'Zone'}
+        </h3>
+      </div>
+
+      {selectedFixture && (
+        <div className='p-4 space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='fixture-label'>
+              {selectedFixture.kind === 'label' ? 'Text' : 'Label'}
+            </Label>
+            <Input
+              id='fixture-label'
+              value={selectedFixture.label || ''}
+              onChange={e => onUpdateFixture({ label: e.target.value || null })}
+              placeholder={FIXTURE_DEFAULTS[selectedFixture.kind].name}
+              className='bg-gray-800 border-gray-700'
+            />
+          </div>
+
+          <div className='grid grid-cols-2 gap-4'>
+            <div className='space-y-2'>
+              <Label htmlFor='fixture-width'>Width</Label>
+              <Input
+                id='fixture-width'
+                type='number'
+                value={Math.round(selectedFixture.width)}
+                onChange={e =>
+                  onUpdateFixture({
+                    width: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                min={1}
+                className='bg-gray-800 border-gray-700'
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='fixture-height'>Height</Label>
+              <Input
+                id='fixture-height'
+                type='number'
+                value={Math.round(selectedFixture.height)}
+                onChange={e =>
+                  onUpdateFixture({
+                    height: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                min={1}
+                className='bg-gray-800 border-gray-700'
+              />
+            </div>
+          </div>
+
+          <div className='space-y-2'>
+            <Label htmlFor='fixture-rotation'>
+              Rotation ({Math.round(selectedFixture.rotation || 0)}°)
+            </Label>
+            <Slider
+              id='fixture-rotation'
+              value={[selectedFixture.rotation || 0]}
+              onValueChange={value => onUpdateFixture({ rotation: value[0] })}
+              min={0}
+              max={360}
+              step={15}
+              className='w-full'
+            />
+          </div>
+
+          <div className='flex flex-wrap gap-2 pt-4 border-t border-gray-800'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={onBringToFront}
+              className='flex-1 min-w-0'
+            >
+              <Layers className='h-4 w-4 mr-1' />
+              To Front
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={onSendToBack}
+              className='flex-1 min-w-0'
+            >
+              <Layers className='h-4 w-4 mr-1' />
+              To Back
+            </Button>
+            <Button
+              variant='destructive'
+              size='sm'
+              onClick={onDeleteFixture}
+              className='flex-1 min-w-0'
+            >
+              <Trash2 className='h-4 w-4 mr-1' />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {selectedZone && (
+        <div className='p-4 space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='zone-name'>Name</Label>
+            <Input
+              id='zone-name'
+              value={selectedZone.name}
+              onChange={e => onUpdateZone({ name: e.target.value })}
+              placeholder='e.g. Window section'
+              className='bg-gray-800 border-gray-700'
+            />
+          </div>
+
+          <div className='space-y-2'>
+            <Label>Colour</Label>
+            <div className='flex gap-2'>
+              {ZONE_COLORS.map(color => (
+                <button
+                  key={color}
+                  type='button'
+                  aria-label={color}
+                  onClick={() => onUpdateZone({ color })}
+                  className={cn(
+                    'h-7 w-7 rounded-full border-2 border-transparent',
+                    selectedZone.color === color && 'border-white'
+                  )}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className='flex items-center justify-between text-sm'>
+            <span className='text-gray-400'>Tables in section</span>
+            <Badge variant='outline'>
+              {tables.filter(t => t.zoneId === selectedZone.id).length}
+            </Badge>
+          </div>
+
+          <p className='text-xs text-gray-400'>
+            Drag the zone to move it or a corner to reshape it
+          </p>
+
+          <div className='flex flex-wrap gap-2 pt-4 border-t border-gray-800'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={onAssignTablesToZones}
+              className='flex-1 min-w-0'
+              title='Put every table in the zone it stands in'
+            >
+              <Users className='h-4 w-4 mr-1' />
+              Assign by Position
+            </Button>
+            <Button
+              variant='destructive'
+              size='sm'
+              onClick={onDeleteZone}
+              className='flex-1 min-w-0'
+            >
+              <Trash2 className='h-4 w-4 mr-1' />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Map as MapIcon, Pencil, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  createFloorPlan,
+  deleteFloorPlan,
+  fetchFloorPlans,
+  updateFloorPlan,
+} from '@/lib/modassembly/supabase/database/floor-plan'
+import type { FloorPlan, FloorPlanInsert } from '@/types/database'
+
+type PlanDraft = Pick<
+  FloorPlanInsert,
+  'name' | 'background_color' | 'background_image_url'
+> & {
+  canvas_width: number
+  canvas_height: number
+  is_active: boolean
+}
+
+const EMPTY_DRAFT: PlanDraft = {
+  name: '',
+  canvas_width: 800,
+  canvas_height: 600,
+  background_color: null,
+  background_image_url: null,
+  is_active: true,
+}
+
+interface FloorPlanSwitcherProps {
+  floorPlanId: string | null
+  onChange: (_floorPlan: FloorPlan | null) => void
+  // Return false to stay on the current plan (e.g. unsaved changes)
+  canSwitch?: () => boolean
+}
+
+/**
+ * Pick which room or area the editor is working on, and add, rename or
+ * resize floor plans
+ */
+export function FloorPlanSwitcher({
+  floorPlanId,
+  onChange,
+  canSwitch = () => true,
+}: FloorPlanSwitcherProps) {
+  const [floorPlans, setFloorPlans] = useState<FloorPlan[]>([])
+  const [editing, setEditing] = useState<{
+    id: string | null
+    draft: PlanDraft
+  } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  // Selecting a plan must not refetch the list
+  const selectionRef = useRef({ floorPlanId, onChange })
+  selectionRef.current = { floorPlanId, onChange }
+
+  const loadFloorPlans = useCallback(
+    async (selectId?: string | null) => {
+      try {
+        const plans = await fetchFloorPlans(true)
+        setFloorPlans(plans)
+        const wanted =
+          selectId === undefined ? selectionRef.current.floorPlanId : selectId
+        selectionRef.current.onChange(
+          plans.find(plan => plan.id === wanted) ?? plans[0] ?? null
+        )
+      } catch (error) {
+        console.error('Error loading floor plans:', error)
+        toast({
+          title: 'Error loading floor plans',
+          description:
+            error instanceof Error
+              ? error.message
+              : 'Could not load floor plans',
+          variant: 'destructive',
+          duration: 3000,
+        })
+      }
+    },
+    [toast]
+  )
+
+  useEffect(() => {
+    loadFloorPlans()
+  }, [loadFloorPlans])
+
+  const current = floorPlans.find(plan => plan.id === floorPlanId) ?? null
+
+  const handleSelect = (id: string) => {
+    if (id === floorPlanId || !canSwitch()) {
+      return
+    }
+    onChange(floorPlans.find(plan => plan.id === id) ?? null)
+  }
+
+  const handleSave = async () => {
+    if (!editing || !editing.draft.name.trim()) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      if (editing.id) {
+        await updateFloorPlan(editing.id, {
+          ...editing.draft,
+          name: editing.draft.name.trim(),
+        })
+        await loadFloorPlans(editing.id)
+      } else {
+        if (!canSwitch()) {
+          return
+        }
+        const created = await createFloorPlan({
+          ...editing.draft,
+          position: floorPlans.length + 1,
+        })
+        await loadFloorPlans(created.id)
+      }
+      setEditing(null)
+    } catch (error) {
+      console.error('Error saving floor plan:', error)
+      toast({
+        title: 'Floor plan not saved',
+        description:
+          error instanceof Error ? error.message : 'Could not save floor plan',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!current || !window.confirm(`Delete floor plan "${current.name}"?`)) {
+      return
+    }
+    try {
+      await deleteFloorPlan(current.id)
+      await loadFloorPlans(null)
+    } catch (error) {
+      console.error('Error deleting floor plan:', error)
+      toast({
+        title: 'Floor plan not deleted',
+        description:
+          error instanceof Error
+            ? error.message
+            : 'Could not delete floor plan',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const updateDraft = (updates: Partial<PlanDraft>) =>
+    setEditing(prev =>
+      prev ? { ...prev, draft: { ...prev.draft, ...updates } } : prev
+    )
+
+  return (
+    <div className='flex flex-wrap items-center gap-2'>
+      <MapIcon className='h-4 w-4 text-muted-foreground' />
+      <Select value={floorPlanId ?? undefined} onValueChange={handleSelect}>
+        <SelectTrigger className='w-56'>
+          <SelectValue placeholder='Select a floor plan' />
+        </SelectTrigger>
+        <SelectContent>
+          {floorPlans.map(plan => (
+            <SelectItem key={plan.id} value={plan.id}>
+              {plan.name}
+              {!plan.is_active && ' (inactive)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant='outline'
+        size='sm'
+        disabled={!current}
+        onClick={() =>
+          current &&
+          setEditing({
+            id: current.id,
+            draft: {
+              name: current.name,
+              canvas_width: current.canvas_width,
+              canvas_height: current.canvas_height,
+              background_color: current.background_color,
+              background_image_url: current.background_image_url,
+              is_active: current.is_active,
+            },
+          })
+        }
+      >
+        <Pencil className='h-4 w-4 mr-1' />
+        Edit
+      </Button>
+      <Button
+        variant='outline'
+        size='sm'
+        onClick={() => setEditing({ id: null, draft: EMPTY_DRAFT })}
+      >
+        <Plus className='h-4 w-4 mr-1' />
+        New plan
+      </Button>
+      <Button
+        variant='ghost'
+        size='sm'
+        disabled={!current}
+        onClick={handleDelete}
+        className='text-destructive'
+      >
+        <Trash2 className='h-4 w-4' />
+      </Button>
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={open => !open && setEditing(null)}
+      >
+        <DialogContent className='max-w-md'>
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.id ? 'Edit floor plan' : 'New floor plan'}
+            </DialogTitle>
+            <DialogDescription>
+              A room or area with its own tables, e.g. Patio or Private Dining
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className='grid gap-4'>
+              <div className='grid gap-2'>
+                <Label htmlFor='floor-plan-name'>Name</Label>
+                <Input
+                  id='floor-plan-name'
+                  value={editing.draft.name}
+                  onChange={e => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div className='grid grid-cols-2 gap-4'>
+                <div className='grid gap-2'>
+                  <Label htmlFor='floor-plan-width'>Width (px)</Label>
+                  <Input
+                    id='floor-plan-width'
+                    type='number'
+                    min={200}
+                    max={5000}
+                    value={editing.draft.canvas_width}
+                    onChange={e =>
+                      updateDraft({ canvas_width: Number(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className='grid gap-2'>
+                  <Label htmlFor='floor-plan-height'>Height (px)</Label>
+                  <Input
+                    id='floor-plan-height'
+                    type='number'
+                    min={200}
+                    max={5000}
+                    value={editing.draft.canvas_height}
+                    onChange={e =>
+                      updateDraft({ canvas_height: Number(e.target.value) })
+                    }
+                  />
+                </div>
+              </div>
+              <div className='grid grid-cols-[auto_1fr] items-end gap-4'>
+                <div className='grid gap-2'>
+                  <Label htmlFor='floor-plan-color'>Background</Label>
+                  <Input
+                    id='floor-plan-color'
+                    type='color'
+                    className='w-16 p-1'
+                    value={editing.draft.background_color || '#1f2937'}
+                    onChange={e =>
+                      updateDraft({ background_color: e.target.value })
+                    }
+                  />
+                </div>
+                <div className='grid gap-2'>
+                  <Label htmlFor='floor-plan-image'>Background image URL</Label>
+                  <Input
+                    id='floor-plan-image'
+                    placeholder='Optional, e.g. a scanned room layout'
+                    value={editing.draft.background_image_url || ''}
+                    onChange={e =>
+                      updateDraft({
+                        background_image_url: e.target.value.trim() || null,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              <div className='flex items-center gap-2'>
+                <Switch
+                  id='floor-plan-active'
+                  checked={editing.draft.is_active}
+                  onCheckedChange={checked => updateDraft({ is_active: checked })}
+                />
+                <Label htmlFor='floor-plan-active'>Available to servers</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant='outline' onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !editing?.draft.name.trim()}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
-import type { Table } from '@/lib/floor-plan-utils'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
 import { TableProperties } from './table-properties'
+import { ObjectProperties } from './object-properties'
 import { DisplayOptions } from './display-options'
 import { TableList } from './table-list'
 
@@ -12,6 +13,16 @@ interface SidePanelProps {
   onSelectTable: (table: Table) => void
   onUpdateTable: (property: keyof Table, value: any) => void
 
+  // Fixture and zone state
+  zones: Zone[]
+  selectedFixture: Fixture | null
+  selectedZone: Zone | null
+  onUpdateFixture: (_updates: Partial<Fixture>) => void
+  onDeleteFixture: () => void
+  onUpdateZone: (_updates: Partial<Zone>) => void
+  onDeleteZone: () => void
+  onAssignTablesToZones: () => void
+
   // Table actions
   onDeleteTable: () => void
   onDuplicateTable: () => void
@@ -52,6 +63,16 @@ export function SidePanel({
   onSelectTable,
   onUpdateTable,
 
+  // Fixture and zone state
+  zones,
+  selectedFixture,
+  selectedZone,
+  onUpdateFixture,
+  onDeleteFixture,
+  onUpdateZone,
+  onDeleteZone,
+  onAssignTablesToZones,
+
   // Table actions
   onDeleteTable,
   onDuplicateTable,
@@ -86,9 +107,24 @@ export function SidePanel({
 }: SidePanelProps) {
   return (
     <div className='w-full lg:w-80 flex flex-col gap-4'>
+      {/* Fixture or Zone Properties */}
+      <ObjectProperties
+        tables={tables}
+        selectedFixture={selectedFixture}
+        selectedZone={selectedZone}
+        onUpdateFixture={onUpdateFixture}
+        onDeleteFixture={onDeleteFixture}
+        onUpdateZone={onUpdateZone}
+        onDeleteZone={onDeleteZone}
+        onAssignTablesToZones={onAssignTablesToZones}
+        onBringToFront={onBringToFront}
+        onSendToBack={onSendToBack}
+      />
+
       {/* Table Properties */}
       <TableProperties
         selectedTable={selectedTable}
+        zones={zones}
         isOpen={isTablesPanelOpen}
         onToggle={onToggleTablesPanel}
         onUpdateTable={onUpdateTable}
@@ -19,10 +19,11 @@ import {
 } from '@/components/ui/collapsible'
 import { ChevronRight, Copy, Layers, Settings, Trash2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Table } from '@/lib/floor-plan-utils'
+import type { Table, Zone } from '@/lib/floor-plan-utils'
 
 interface TablePropertiesProps {
   selectedTable: Table | null
+  zones: Zone[]
   isOpen: boolean
   onToggle: (open: boolean) => void
   onUpdateTable: (property: keyof Table, value: any) => void
@@ -34,6 +35,7 @@ interface TablePropertiesProps {
 
 export function TableProperties({
   selectedTable,
+  zones,
   isOpen,
   onToggle,
   onUpdateTable,
@@ -142,6 +144,33 @@ export function TableProperties({
                 </div>
               </div>
 
+              {/* Server Section */}
+              <div className='space-y-2'>
+                <Label htmlFor='table-zone'>Section</Label>
+                <Select
+                  value={selectedTable.zoneId || 'none'}
+                  onValueChange={value =>
+                    onUpdateTable('zoneId', value === 'none' ? null : value)
+                  }
+                  disabled={zones.length === 0}
+                >
+                  <SelectTrigger
+                    id='table-zone'
+                    className='bg-gray-800 border-gray-700'
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='none'>No section</SelectItem>
+                    {zones.map(zone => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Dimensions */}
               <div className='grid grid-cols-2 gap-4'>
                 <div className='space-y-2'>
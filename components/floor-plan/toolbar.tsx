@@ -7,24 +7,34 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import {
   CircleIcon,
   Grid,
   Loader2,
   Move,
+  Pentagon,
   RectangleHorizontal,
   Redo2,
   Save,
+  Shapes,
   Square,
   Undo2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Table } from '@/lib/floor-plan-utils'
+import { FIXTURE_DEFAULTS, type Table } from '@/lib/floor-plan-utils'
+import type { LayoutSnapshot } from '@/hooks/use-floor-plan-reducer'
+import type { FixtureKind } from '@/types/database'
 
 interface ToolbarProps {
   // Undo/Redo
-  undoStack: Table[][]
-  redoStack: Table[][]
+  undoStack: LayoutSnapshot[]
+  redoStack: LayoutSnapshot[]
   onUndo: () => void
   onRedo: () => void
 
@@ -37,6 +47,11 @@ interface ToolbarProps {
   // Table creation
   onAddTable: (type: Table['type']) => void
 
+  // Fixtures and zones
+  onAddFixture: (_kind: FixtureKind) => void
+  isDrawingZone: boolean
+  onToggleDrawZone: () => void
+
   // View and save
   onResetView: () => void
   onSave: () => void
@@ -56,6 +71,9 @@ export function Toolbar({
   onToggleGrid,
   onToggleSnap,
   onAddTable,
+  onAddFixture,
+  isDrawingZone,
+  onToggleDrawZone,
   onResetView,
   onSave,
   isSaving,
@@ -153,6 +171,42 @@ export function Toolbar({
           onClick={() => onAddTable('rectangle')}
           disabled={isSaving}
         />
+
+        <div className='h-6 border-l border-gray-700 mx-1' />
+
+        {/* Fixtures and Zones */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant='outline'
+              size='icon'
+              disabled={isSaving}
+              className='h-9 w-9'
+              title={showTooltips ? 'Add Fixture' : undefined}
+            >
+              <Shapes className='h-4 w-4' />
+              <span className='sr-only'>Add Fixture</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='start'>
+            {(Object.keys(FIXTURE_DEFAULTS) as FixtureKind[]).map(kind => (
+              <DropdownMenuItem key={kind} onSelect={() => onAddFixture(kind)}>
+                {FIXTURE_DEFAULTS[kind].name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <ToolbarButton
+          icon={<Pentagon className='h-4 w-4' />}
+          label={
+            isDrawingZone
+              ? 'Drawing zone: click corners, double-click to finish, Esc to cancel'
+              : 'Draw Zone'
+          }
+          onClick={onToggleDrawZone}
+          active={isDrawingZone}
+          disabled={isSaving}
+        />
       </div>
 
       {/* Right side - Actions */}
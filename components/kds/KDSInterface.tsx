@@ -24,9 +24,14 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import type { KDSStation } from '@/lib/modassembly/supabase/database/kds'
+import { fetchMealServices } from '@/lib/modassembly/supabase/database/meal-services'
+import type { MealService } from '@/types/database'
+import { startPrintQueueWorker } from '@/services/printer-service'
 
 type LayoutMode = 'single' | 'multi' | 'split'
 
+const ALL_SERVICES = 'all'
+
 interface KDSInterfaceProps {
   initialStations: KDSStation[]
 }
@@ -58,6 +63,18 @@ export function KDSInterface({ initialStations }: KDSInterfaceProps) {
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [splitStations, setSplitStations] = useState<string[]>([])
   const [stations] = useState<KDSStation[]>(initialStations)
+  const [services, setServices] = useState<MealService[]>([])
+  const [serviceId, setServiceId] = useState<string>(ALL_SERVICES)
+  const serviceFilter = serviceId === ALL_SERVICES ? undefined : serviceId
+
+  useEffect(() => {
+    fetchMealServices()
+      .then(setServices)
+      .catch(error => console.error('Error loading meal services:', error))
+  }, [])
+
+  // Drain the kitchen print queue while the KDS is open
+  useEffect(() => startPrintQueueWorker(), [])
 
   // Initialize with first station and auto-select all stations for split view
   useEffect(() => {
@@ -157,6 +174,26 @@ export function KDSInterface({ initialStations }: KDSInterfaceProps) {
                 </Select>
               </div>
 
+              {/* Service filter */}
+              {services.length > 0 && (
+                <div className='flex items-center gap-2'>
+                  <label className='text-sm font-medium'>Service:</label>
+                  <Select value={serviceId} onValueChange={setServiceId}>
+                    <SelectTrigger className='w-36'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SERVICES}>All services</SelectItem>
+                      {services.map(service => (
+                        <SelectItem key={service.id} value={service.id}>
+                          {service.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Station selector for single mode */}
               {layoutMode === 'single' && (
                 <div className='flex items-center gap-2'>
@@ -260,6 +297,7 @@ export function KDSInterface({ initialStations }: KDSInterfaceProps) {
               <div className="h-full overflow-auto">
                 <KDSLayout
                   stationId={selectedStationId}
+                  serviceId={serviceFilter}
                   showHeader={true}
                   isFullscreen={isFullscreen}
                   onToggleFullscreen={toggleFullscreen}
@@ -269,6 +307,7 @@ export function KDSInterface({ initialStations }: KDSInterfaceProps) {
 
             {layoutMode === 'multi' && (
               <KDSLayout
+                serviceId={serviceFilter}
                 showHeader={true}
                 isFullscreen={isFullscreen}
                 onToggleFullscreen={toggleFullscreen}
@@ -313,6 +352,7 @@ export function KDSInterface({ initialStations }: KDSInterfaceProps) {
                           <div className='h-[calc(100%-2.5rem)]'>
                             <KDSLayout
                               stationId={stationId}
+                              serviceId={serviceFilter}
                               showHeader={false}
                               className='h-full'
                             />
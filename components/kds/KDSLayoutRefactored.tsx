@@ -1,10 +1,11 @@
 'use client'
 
-import { memo, useCallback, useMemo, useState } from 'react'
+import { memo, useCallback, useEffect, useMemo, useState } from 'react'
 import { cn } from '@/lib/utils'
 import { useKDSState } from '@/lib/hooks/use-kds-state'
 import { KDSHeader } from './KDSHeader'
 import { KDSMainContent } from './KDSMainContent'
+import { KDSJournalStatus } from './kds-journal-status'
 import {
   BarStation,
   ExpoStation,
@@ -15,18 +16,19 @@ import {
   filterOrdersByStation,
 } from './stations'
 import { getClientUser } from '@/lib/modassembly/supabase/auth/session'
-import { createClient } from '@/lib/modassembly/supabase/client'
 import {
-  addOrderNotes,
-  bumpOrder,
-  recallOrder,
-  startOrderPrep,
-  updateOrderPriority,
-} from '@/lib/modassembly/supabase/database/kds'
+  type KDSAction,
+  KDS_ACTION_LABELS,
+  applyKDSActionLocally,
+} from '@/lib/modassembly/supabase/database/kds/journal'
+import { getKDSJournal } from '@/lib/offline'
+import { useOutbox } from '@/hooks/use-outbox'
 import { useToast } from '@/hooks/use-toast'
 
 interface KDSLayoutRefactoredProps {
   stationId?: string
+  // Only show tickets from this meal service
+  serviceId?: string
   className?: string
   showHeader?: boolean
   isFullscreen?: boolean
@@ -53,13 +55,35 @@ interface KDSLayoutRefactoredProps {
  */
 export const KDSLayoutRefactored = memo<KDSLayoutRefactoredProps>(({ 
   stationId, 
+  serviceId,
   className, 
   showHeader = true, 
   isFullscreen = false, 
   onToggleFullscreen 
 }) => {
-  const kdsState = useKDSState(stationId)
+  const kdsState = useKDSState(stationId, serviceId)
   const { toast } = useToast()
+  const journal = useOutbox(getKDSJournal())
+  const { connectionStatus, refetch, clearOptimisticUpdate } = kdsState
+  const { sync: syncJournal } = journal
+
+  // Replay actions journaled while disconnected as soon as the channel is back
+  useEffect(() => {
+    if (connectionStatus === 'connected') {
+      syncJournal().then(() => refetch())
+    }
+  }, [connectionStatus, syncJournal, refetch])
+
+  // A refused replay leaves the ticket as the server has it
+  const conflictedRoutingIds = journal.conflicts
+    .map(entry => entry.payload.routing_id)
+    .join(',')
+  useEffect(() => {
+    if (conflictedRoutingIds) {
+      conflictedRoutingIds.split(',').forEach(clearOptimisticUpdate)
+      refetch()
+    }
+  }, [conflictedRoutingIds, clearOptimisticUpdate, refetch])
   
   // Local UI state
   const [selectedStation, setSelectedStation] = useState<StationType>(
@@ -77,46 +101,49 @@ export const KDSLayoutRefactored = memo<KDSLayoutRefactoredProps>(({
       try {
         const user = await getClientUser()
         const userId = user?.id || 'unknown-user'
-        const supabase = createClient()
+        const performedAt = new Date().toISOString()
+
+        // Journaled and applied optimistically; sent now or on reconnect
+        const journalAction = async (
+          kdsAction: KDSAction,
+          done: { title: string; description: string }
+        ) => {
+          kdsState.optimisticUpdate(orderId, applyKDSActionLocally(kdsAction))
+          const routing = kdsState.orders.find(order => order.id === orderId)
+          const outcome = await getKDSJournal().submit(
+            kdsAction,
+            `${KDS_ACTION_LABELS[kdsAction.type]} · Table ${routing?.order?.table?.label ?? '?'}`
+          )
+          toast(
+            outcome.status === 'queued'
+              ? {
+                  title: `${KDS_ACTION_LABELS[kdsAction.type]} saved offline`,
+                  description: 'It will sync when the connection returns',
+                }
+              : done
+          )
+        }
         
         switch (action) {
           case 'start':
-            // Optimistic update
-            kdsState.optimisticUpdate(orderId, {
-              started_at: new Date().toISOString()
-            })
-            await startOrderPrep(supabase, orderId)
-            toast({
-              title: 'Preparation started',
-              description: 'Order preparation has begun',
-            })
+            await journalAction(
+              { type: 'start_prep', routing_id: orderId, performed_at: performedAt },
+              { title: 'Preparation started', description: 'Order preparation has begun' }
+            )
             break
             
           case 'complete':
-            // Optimistic update
-            kdsState.optimisticUpdate(orderId, {
-              completed_at: new Date().toISOString(),
-              bumped_at: new Date().toISOString()
-            })
-            await bumpOrder(supabase, orderId, userId)
-            toast({
-              title: 'Order completed',
-              description: 'Order marked as ready for pickup',
-            })
+            await journalAction(
+              { type: 'bump', routing_id: orderId, user_id: userId, performed_at: performedAt },
+              { title: 'Order completed', description: 'Order marked as ready for pickup' }
+            )
             break
             
           case 'recall':
-            // Optimistic update
-            kdsState.optimisticUpdate(orderId, {
-              completed_at: null,
-              bumped_at: null,
-              recalled_at: new Date().toISOString()
-            })
-            await recallOrder(supabase, orderId)
-            toast({
-              title: 'Order recalled',
-              description: 'Order has been recalled to the kitchen',
-            })
+            await journalAction(
+              { type: 'recall', routing_id: orderId, performed_at: performedAt },
+              { title: 'Order recalled', description: 'Order has been recalled to the kitchen' }
+            )
             break
             
           case 'quality_check':
@@ -255,9 +282,17 @@ export const KDSLayoutRefactored = memo<KDSLayoutRefactoredProps>(({
         </div>
       </div>
       
+      <KDSJournalStatus
+        isConnected={connectionStatus === 'connected'}
+        pending={journal.pending}
+        conflicts={journal.conflicts}
+        onDismiss={journal.discard}
+      />
+      
       {/* Main content area */}
       <div className="flex-1 overflow-hidden">
-        {kdsState.error ? (
+        {/* Keep showing the last tickets fetched while disconnected */}
+        {kdsState.error && kdsState.orders.length === 0 ? (
           <div className="flex items-center justify-center h-full text-red-400">
             <div className="text-center">
               <h3 className="text-lg font-medium mb-2">Connection Error</h3>
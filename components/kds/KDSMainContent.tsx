@@ -4,21 +4,28 @@ import { memo, useMemo } from 'react'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { AlertCircle } from 'lucide-react'
+import { AlertCircle, PauseCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { OrderCard } from './order-card'
 import { TableGroupCard } from './table-group-card'
 import { useKDSState } from '@/lib/hooks/use-kds-state'
 import { useTableGroupedOrders } from '@/hooks/use-table-grouped-orders'
+import { addOrderNotes } from '@/lib/modassembly/supabase/database/kds'
 import {
-  bumpOrder,
-  recallOrder,
-  startOrderPrep,
-  updateOrderPriority,
-  addOrderNotes,
-} from '@/lib/modassembly/supabase/database/kds'
+  type KDSAction,
+  KDS_ACTION_LABELS,
+  applyKDSActionLocally,
+  isKDSConflictError,
+} from '@/lib/modassembly/supabase/database/kds/journal'
+import { isRoutingHeld } from '@/lib/modassembly/supabase/database/kds/courses'
+import {
+  applyTicketItemState,
+  setTicketItemState,
+} from '@/lib/modassembly/supabase/database/kds/item-progress'
 import { getClientUser } from '@/lib/modassembly/supabase/auth/session'
+import { getKDSJournal } from '@/lib/offline'
 import { useToast } from '@/hooks/use-toast'
+import type { TicketItemState } from '@/types/database'
 
 interface KDSMainContentProps {
   className?: string
@@ -92,106 +99,136 @@ const getGridClasses = (viewMode: string, orderCount: number) => {
       }
 
 
-// Individual order view
-const IndividualOrderView = memo(({ orders }: { orders: any[] }) => {
+// Start / finish one line on a ticket; the last line done bumps the ticket
+const useItemStateHandler = (orders: any[]) => {
   const kdsState = useKDSState()
   const { toast } = useToast()
-  
-  // Real action handlers connected to KDS database functions
-  const handleBump = async (routingId: string) => {
+
+  return async (itemId: string, state: TicketItemState) => {
+    const routing = orders.find(order =>
+      order.items?.some((item: { id: string }) => item.id === itemId)
+    )
     try {
       const user = await getClientUser()
       const userId = user?.id || 'unknown-user'
-      
+
       // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        completed_at: new Date().toISOString(),
-        bumped_at: new Date().toISOString()
-      })
-      
-      await bumpOrder(routingId, userId)
-      toast({
-        title: 'Order completed',
-        description: 'Order marked as ready for pickup',
-      })
+      if (routing) {
+        kdsState.optimisticUpdate(routing.id, {
+          items: applyTicketItemState(routing.items, itemId, state),
+        })
+      }
+
+      const ticketCompleted = await setTicketItemState(itemId, state, userId)
+      if (ticketCompleted) {
+        toast({
+          title: 'Order completed',
+          description: 'Every item is done - ticket bumped',
+        })
+      }
     } catch (error) {
-      console.error('Error bumping order:', error)
-      kdsState.refetch() // Restore correct state
+      console.error('Error updating item:', error)
+      kdsState.refetch()
       toast({
         title: 'Error',
-        description: 'Failed to bump order',
+        description: 'Failed to update item',
         variant: 'destructive',
       })
     }
   }
-  
-  const handleRecall = async (routingId: string) => {
+}
+
+// Bump, recall, start prep and priority go through the offline journal:
+// shown at once, sent now or replayed in order when the connection returns
+const useKDSActionHandler = (orders: any[]) => {
+  const kdsState = useKDSState()
+  const { toast } = useToast()
+
+  return async (
+    action: KDSAction,
+    done: { title: string; description: string },
+    failed: string
+  ) => {
+    const routing = orders.find(order => order.id === action.routing_id)
+    kdsState.optimisticUpdate(action.routing_id, applyKDSActionLocally(action))
     try {
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        completed_at: null,
-        bumped_at: null,
-        recalled_at: new Date().toISOString()
-      })
-      
-      await recallOrder(routingId)
-      toast({
-        title: 'Order recalled',
-        description: 'Order has been recalled to the kitchen',
-      })
+      const outcome = await getKDSJournal().submit(
+        action,
+        `${KDS_ACTION_LABELS[action.type]} · Table ${routing?.order?.table?.label ?? '?'}`
+      )
+      toast(
+        outcome.status === 'queued'
+          ? {
+              title: `${KDS_ACTION_LABELS[action.type]} saved offline`,
+              description: 'It will sync when the connection returns',
+            }
+          : done
+      )
     } catch (error) {
-      console.error('Error recalling order:', error)
+      console.error(`Error applying ${action.type}:`, error)
       kdsState.refetch()
       toast({
-        title: 'Error',
-        description: 'Failed to recall order',
+        title: isKDSConflictError(error) ? 'Ticket changed elsewhere' : 'Error',
+        description: isKDSConflictError(error) ? error.message : failed,
         variant: 'destructive',
       })
     }
   }
+}
+
+const getBumpUserId = async () => {
+  const user = await getClientUser()
+  return user?.id || 'unknown-user'
+}
+
+// Individual order view
+const IndividualOrderView = memo(({ orders }: { orders: any[] }) => {
+  const kdsState = useKDSState()
+  const { toast } = useToast()
+  const handleItemStateChange = useItemStateHandler(orders)
+  const runAction = useKDSActionHandler(orders)
+  
+  // Real action handlers connected to KDS database functions
+  const handleBump = async (routingId: string) => {
+    await runAction(
+      {
+        type: 'bump',
+        routing_id: routingId,
+        user_id: await getBumpUserId(),
+        performed_at: new Date().toISOString(),
+      },
+      { title: 'Order completed', description: 'Order marked as ready for pickup' },
+      'Failed to bump order'
+    )
+  }
+  
+  const handleRecall = async (routingId: string) => {
+    await runAction(
+      { type: 'recall', routing_id: routingId, performed_at: new Date().toISOString() },
+      { title: 'Order recalled', description: 'Order has been recalled to the kitchen' },
+      'Failed to recall order'
+    )
+  }
   
   const handleStartPrep = async (routingId: string) => {
-    try {
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        started_at: new Date().toISOString()
-      })
-      
-      await startOrderPrep(routingId)
-      toast({
-        title: 'Preparation started',
-        description: 'Order preparation has begun',
-      })
-    } catch (error) {
-      console.error('Error starting prep:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to start preparation',
-        variant: 'destructive',
-      })
-    }
+    await runAction(
+      { type: 'start_prep', routing_id: routingId, performed_at: new Date().toISOString() },
+      { title: 'Preparation started', description: 'Order preparation has begun' },
+      'Failed to start preparation'
+    )
   }
   
   const handleUpdatePriority = async (routingId: string, priority: number) => {
-    try {
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, { priority })
-      
-      await updateOrderPriority(routingId, priority)
-      toast({
-        title: 'Priority updated',
-        description: `Order priority set to ${priority}`,
-      })
-    } catch (error) {
-      console.error('Error updating priority:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to update priority',
-        variant: 'destructive',
-      })
-    }
+    await runAction(
+      {
+        type: 'priority',
+        routing_id: routingId,
+        priority,
+        performed_at: new Date().toISOString(),
+      },
+      { title: 'Priority updated', description: `Order priority set to ${priority}` },
+      'Failed to update priority'
+    )
   }
   
   const handleAddNotes = async (routingId: string, notes: string) => {
@@ -226,6 +263,7 @@ const IndividualOrderView = memo(({ orders }: { orders: any[] }) => {
           onStartPrep={handleStartPrep}
           onUpdatePriority={handleUpdatePriority}
           onAddNotes={handleAddNotes}
+          onItemStateChange={handleItemStateChange}
           isCompact={kdsState.viewMode === 'list'}
         />
       ))}
@@ -236,117 +274,57 @@ IndividualOrderView.displayName = 'IndividualOrderView'
 
 // Table grouped view
 const TableGroupedView = memo(({ orders }: { orders: any[] }) => {
-  const kdsState = useKDSState()
   const tableGroups = useTableGroupedOrders(orders)
-  const { toast } = useToast()
+  const handleItemStateChange = useItemStateHandler(orders)
+  const runAction = useKDSActionHandler(orders)
 
   // Table grouping complete
   
   // Real action handlers for table operations
   const handleBumpOrder = async (routingId: string) => {
-    try {
-      const user = await getClientUser()
-      const userId = user?.id || 'unknown-user'
-      
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        completed_at: new Date().toISOString(),
-        bumped_at: new Date().toISOString()
-      })
-      
-      await bumpOrder(routingId, userId)
-      toast({
-        title: 'Order completed',
-        description: 'Order marked as ready for pickup',
-      })
-    } catch (error) {
-      console.error('Error bumping order:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to bump order',
-        variant: 'destructive',
-      })
-    }
+    await runAction(
+      {
+        type: 'bump',
+        routing_id: routingId,
+        user_id: await getBumpUserId(),
+        performed_at: new Date().toISOString(),
+      },
+      { title: 'Order completed', description: 'Order marked as ready for pickup' },
+      'Failed to bump order'
+    )
   }
   
   const handleBumpTable = async (tableId: string, orderIds: string[]) => {
-    try {
-      const user = await getClientUser()
-      const userId = user?.id || 'unknown-user'
-      
-      // Optimistic updates for all orders
-      orderIds.forEach(orderId => {
-        kdsState.optimisticUpdate(orderId, {
-          completed_at: new Date().toISOString(),
-          bumped_at: new Date().toISOString()
-        })
-      })
-      
-      // Bump all orders in the table
-      await Promise.all(orderIds.map(orderId => bumpOrder(orderId, userId)))
-      
-      toast({
-        title: 'Table completed',
-        description: `All orders for table ${tableId} marked as ready`,
-      })
-    } catch (error) {
-      console.error('Error bumping table:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to bump table orders',
-        variant: 'destructive',
-      })
+    const userId = await getBumpUserId()
+    const performedAt = new Date().toISOString()
+
+    // Journaled one ticket at a time so they replay in order
+    for (const routingId of orderIds) {
+      await runAction(
+        { type: 'bump', routing_id: routingId, user_id: userId, performed_at: performedAt },
+        {
+          title: 'Table completed',
+          description: `All orders for table ${tableId} marked as ready`,
+        },
+        'Failed to bump table orders'
+      )
     }
   }
   
   const handleStartPrep = async (routingId: string) => {
-    try {
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        started_at: new Date().toISOString()
-      })
-      
-      await startOrderPrep(routingId)
-      toast({
-        title: 'Preparation started',
-        description: 'Order preparation has begun',
-      })
-    } catch (error) {
-      console.error('Error starting prep:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to start preparation',
-        variant: 'destructive',
-      })
-    }
+    await runAction(
+      { type: 'start_prep', routing_id: routingId, performed_at: new Date().toISOString() },
+      { title: 'Preparation started', description: 'Order preparation has begun' },
+      'Failed to start preparation'
+    )
   }
   
   const handleRecallOrder = async (routingId: string) => {
-    try {
-      // Optimistic update
-      kdsState.optimisticUpdate(routingId, {
-        completed_at: null,
-        bumped_at: null,
-        recalled_at: new Date().toISOString()
-      })
-      
-      await recallOrder(routingId)
-      toast({
-        title: 'Order recalled',
-        description: 'Order has been recalled to the kitchen',
-      })
-    } catch (error) {
-      console.error('Error recalling order:', error)
-      kdsState.refetch()
-      toast({
-        title: 'Error',
-        description: 'Failed to recall order',
-        variant: 'destructive',
-      })
-    }
+    await runAction(
+      { type: 'recall', routing_id: routingId, performed_at: new Date().toISOString() },
+      { title: 'Order recalled', description: 'Order has been recalled to the kitchen' },
+      'Failed to recall order'
+    )
   }
   
   return (
@@ -359,6 +337,7 @@ const TableGroupedView = memo(({ orders }: { orders: any[] }) => {
           onBumpTable={handleBumpTable}
           onStartPrep={handleStartPrep}
           onRecallOrder={handleRecallOrder}
+          onItemStateChange={handleItemStateChange}
         />
       ))}
     </>
@@ -366,6 +345,28 @@ const TableGroupedView = memo(({ orders }: { orders: any[] }) => {
 })
 TableGroupedView.displayName = 'TableGroupedView'
 
+// Tickets waiting for their course to be fired - read-only until the server fires them
+const HeldOrdersLane = memo(({ orders }: { orders: any[] }) => (
+  <div className="mx-4 mb-4 rounded-lg border border-dashed border-gray-700 bg-gray-900/40 p-4 opacity-70">
+    <div className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-300">
+      <PauseCircle className="h-4 w-4" />
+      On hold ({orders.length})
+    </div>
+    <div className="grid gap-3 grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+      {orders.map(order => (
+        <OrderCard
+          key={order.id}
+          order={order}
+          onBump={async () => {}}
+          showActions={false}
+          isCompact
+        />
+      ))}
+    </div>
+  </div>
+))
+HeldOrdersLane.displayName = 'HeldOrdersLane'
+
 // Helper function to derive order status from KDS routing fields
 const getOrderStatus = (order: any) => {
   if (order.completed_at) {return 'ready'}
@@ -431,6 +432,12 @@ export const KDSMainContent = memo<KDSMainContentProps>(({
   const actualViewMode = viewMode || kdsState.viewMode
   const actualFilterBy = filterBy || kdsState.filterBy
 
+  // Held courses sit in their own lane so they never count toward a table's progress
+  const { activeOrders, heldOrders } = useMemo(() => ({
+    activeOrders: actualOrders.filter(order => !isRoutingHeld(order)),
+    heldOrders: actualOrders.filter(order => isRoutingHeld(order)),
+  }), [actualOrders])
+
   // Component rendering logic complete
   
   if (actualLoading) {
@@ -472,18 +479,19 @@ export const KDSMainContent = memo<KDSMainContentProps>(({
           <div className={cn(
             "p-4 grid gap-4",
             // 🎯 AGENT 2 ENHANCEMENT: Enhanced grid layout for kitchen multi-table visibility
-            getGridClasses(actualViewMode, actualOrders.length)
+            getGridClasses(actualViewMode, activeOrders.length)
           )}>
-            <TableGroupedView orders={actualOrders} />
+            <TableGroupedView orders={activeOrders} />
           </div>
         ) : (
           <div className={cn(
             "p-4 grid gap-4",
-            getGridClasses(actualViewMode, actualOrders.length)
+            getGridClasses(actualViewMode, activeOrders.length)
           )}>
-            <IndividualOrderView orders={actualOrders} />
+            <IndividualOrderView orders={activeOrders} />
           </div>
         )}
+        {heldOrders.length > 0 && <HeldOrdersLane orders={heldOrders} />}
       </div>
     </div>
   )
@@ -0,0 +1,121 @@
+'use client'
+
+import { memo, useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { PauseCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { aggregateAllDayCounts } from '@/lib/kds/all-day'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+
+interface AllDayBoardProps {
+  orders: KDSOrderRouting[]
+  // null counts every station
+  stationId: string | null
+  onStationChange: (_stationId: string | null) => void
+  // Item currently highlighted on the ticket list
+  selectedItemKey: string | null
+  onSelectItem: (_itemKey: string | null) => void
+  className?: string
+}
+
+/**
+ * "All day" board: outstanding quantity of each item across open tickets,
+ * filterable by station. Tapping an item highlights the tickets holding it.
+ */
+export const AllDayBoard = memo(function AllDayBoard({
+  orders,
+  stationId,
+  onStationChange,
+  selectedItemKey,
+  onSelectItem,
+  className,
+}: AllDayBoardProps) {
+  const stations = useMemo(() => {
+    const byId = new Map<string, string>()
+    for (const order of orders) {
+      if (!byId.has(order.station_id)) {
+        byId.set(order.station_id, order.station?.name || 'Station')
+      }
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name }))
+  }, [orders])
+
+  const items = useMemo(
+    () => aggregateAllDayCounts(orders, stationId),
+    [orders, stationId]
+  )
+
+  const selectStation = (id: string | null) => {
+    onStationChange(id)
+    onSelectItem(null)
+  }
+
+  return (
+    <Card className={cn('bg-gray-800/40 border-gray-700', className)}>
+      <CardHeader className='pb-3'>
+        <div className='flex flex-wrap items-center justify-between gap-2'>
+          <CardTitle className='text-lg text-white'>All Day</CardTitle>
+          <div className='flex flex-wrap gap-1'>
+            <Button
+              size='sm'
+              variant={stationId === null ? 'default' : 'outline'}
+              onClick={() => selectStation(null)}
+            >
+              All stations
+            </Button>
+            {stations.map(station => (
+              <Button
+                key={station.id}
+                size='sm'
+                variant={stationId === station.id ? 'default' : 'outline'}
+                onClick={() => selectStation(station.id)}
+              >
+                {station.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className='pt-0'>
+        {items.length === 0 ? (
+          <p className='text-sm text-gray-400'>Nothing outstanding</p>
+        ) : (
+          <div className='grid gap-2 grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6'>
+            {items.map(item => {
+              const isSelected = item.key === selectedItemKey
+              return (
+                <button
+                  key={item.key}
+                  type='button'
+                  onClick={() => onSelectItem(isSelected ? null : item.key)}
+                  className={cn(
+                    'flex min-h-[56px] items-center gap-3 rounded-lg border px-3 py-2 text-left transition-colors',
+                    isSelected
+                      ? 'border-amber-400 bg-amber-500/20'
+                      : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'
+                  )}
+                >
+                  <span className='text-3xl font-bold tabular-nums text-white'>
+                    {item.quantity}
+                  </span>
+                  <span className='min-w-0'>
+                    <span className='block truncate font-medium text-gray-200'>
+                      {item.name}
+                    </span>
+                    {item.heldQuantity > 0 && (
+                      <span className='flex items-center gap-1 text-xs text-gray-400'>
+                        <PauseCircle className='h-3 w-3' />
+                        {item.heldQuantity} on hold
+                      </span>
+                    )}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
@@ -0,0 +1,52 @@
+'use client'
+
+import { memo } from 'react'
+import { AlertTriangle, ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+
+interface AllergyFlagProps {
+  order: KDSOrderRouting['order']
+  isCompact?: boolean
+}
+
+/**
+ * Resident dietary restrictions on a KDS ticket. Orders a server sent
+ * despite a conflict also show the override reason.
+ */
+export const AllergyFlag = memo(function AllergyFlag({
+  order,
+  isCompact = false,
+}: AllergyFlagProps) {
+  const alerts = order?.dietary_alerts || []
+  const overrideReason = order?.dietary_override_reason
+
+  if (alerts.length === 0 && !overrideReason) {
+    return null
+  }
+
+  return (
+    <div
+      className={cn(
+        'mb-2 rounded border-2 border-red-600 bg-red-50 dark:bg-red-950/50 text-red-800 dark:text-red-200',
+        isCompact ? 'p-1 text-xs' : 'p-2 text-sm'
+      )}
+      role='alert'
+    >
+      {alerts.length > 0 && (
+        <div className='flex items-center gap-1 font-bold uppercase'>
+          <ShieldAlert className='h-4 w-4 shrink-0' />
+          {alerts.join(' • ')}
+        </div>
+      )}
+      {overrideReason && (
+        <div className='flex items-start gap-1 mt-1 text-xs'>
+          <AlertTriangle className='h-3 w-3 mt-0.5 shrink-0' />
+          <span>
+            <strong>Conflict overridden:</strong> {overrideReason}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,47 @@
+'use client'
+
+import { memo } from 'react'
+import { PauseCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { COURSE_LABELS } from '@/lib/modassembly/supabase/database/kds/courses'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+
+interface CourseBadgeProps {
+  order: Pick<KDSOrderRouting, 'course' | 'held_at'>
+  className?: string
+}
+
+const COURSE_COLORS = {
+  appetizer: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  entree: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  dessert: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
+}
+
+/**
+ * Course a station ticket belongs to, and whether it is waiting to be fired
+ */
+export const CourseBadge = memo(function CourseBadge({
+  order,
+  className,
+}: CourseBadgeProps) {
+  if (!order.course) {
+    return null
+  }
+
+  return (
+    <Badge
+      className={cn(
+        'flex items-center gap-1 text-xs',
+        order.held_at
+          ? 'bg-gray-200 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+          : COURSE_COLORS[order.course],
+        className
+      )}
+    >
+      {order.held_at && <PauseCircle className='h-3 w-3' />}
+      {COURSE_LABELS[order.course]}
+      {order.held_at && ' · On hold'}
+    </Badge>
+  )
+})
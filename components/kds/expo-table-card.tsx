@@ -0,0 +1,208 @@
+'use client'
+
+import { memo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, Clock, PauseCircle, Send } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getAllDayItemKey } from '@/lib/kds/all-day'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import { COURSE_LABELS } from '@/lib/modassembly/supabase/database/kds/courses'
+import { isTicketComplete } from '@/lib/modassembly/supabase/database/kds/item-progress'
+import type {
+  ExpoCourseStatus,
+  ExpoTable,
+} from '@/lib/modassembly/supabase/database/kds/types'
+import type { Course } from '@/types/database'
+
+interface ExpoTableCardProps {
+  table: ExpoTable
+  onSendCourse: (_tableId: string, _course: Course | null) => void
+  onBumpTicket: (_routingId: string) => void
+  // `${tableId}:${course}` currently being sent
+  sendingKey: string | null
+  bumpingIds: Set<string>
+  // All-day board selection
+  selectedItemKey: string | null
+  highlightedRoutingIds: Set<string>
+}
+
+export const expoSendKey = (tableId: string, course: Course | null) =>
+  `${tableId}:${course ?? ''}`
+
+const courseLabel = (course: Course | null) =>
+  course ? COURSE_LABELS[course] : 'Items'
+
+/**
+ * One table on the expo: each course's food seat by seat, the stations still
+ * working on it, and "Send to table" once everything for the course is up
+ */
+export const ExpoTableCard = memo(function ExpoTableCard({
+  table,
+  onSendCourse,
+  onBumpTicket,
+  sendingKey,
+  bumpingIds,
+  selectedItemKey,
+  highlightedRoutingIds,
+}: ExpoTableCardProps) {
+  const isHighlighted = table.seats.some(seat =>
+    seat.orders.some(order => highlightedRoutingIds.has(order.id))
+  )
+
+  return (
+    <Card
+      className={cn(
+        'bg-gray-800/40 border-gray-700 transition-opacity',
+        isHighlighted && 'ring-2 ring-amber-400 border-amber-400',
+        selectedItemKey && !isHighlighted && 'opacity-40'
+      )}
+    >
+      <CardHeader className='pb-3'>
+        <CardTitle className='text-xl text-white'>
+          Table {table.tableLabel}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-4 pt-0'>
+        {table.courses.map(status => (
+          <ExpoCourseSection
+            key={status.course ?? 'none'}
+            table={table}
+            status={status}
+            onSendCourse={onSendCourse}
+            onBumpTicket={onBumpTicket}
+            isSending={sendingKey === expoSendKey(table.tableId, status.course)}
+            bumpingIds={bumpingIds}
+            selectedItemKey={selectedItemKey}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  )
+})
+
+interface ExpoCourseSectionProps
+  extends Pick<
+    ExpoTableCardProps,
+    'table' | 'onSendCourse' | 'onBumpTicket' | 'bumpingIds' | 'selectedItemKey'
+  > {
+  status: ExpoCourseStatus
+  isSending: boolean
+}
+
+function ExpoCourseSection({
+  table,
+  status,
+  onSendCourse,
+  onBumpTicket,
+  isSending,
+  bumpingIds,
+  selectedItemKey,
+}: ExpoCourseSectionProps) {
+  return (
+    <div
+      className={cn(
+        'rounded-lg border p-3',
+        status.ready ? 'border-green-700 bg-green-900/10' : 'border-gray-700'
+      )}
+    >
+      <div className='mb-2 flex flex-wrap items-center justify-between gap-2'>
+        <div className='flex flex-wrap items-center gap-2'>
+          <span className='font-semibold text-gray-200'>
+            {courseLabel(status.course)}
+          </span>
+          <span className='text-xs text-gray-400'>
+            {status.completed}/{status.tickets} stations up
+          </span>
+          {status.held > 0 && (
+            <Badge variant='outline' className='gap-1 border-gray-600 text-gray-400'>
+              <PauseCircle className='h-3 w-3' />
+              Not fired
+            </Badge>
+          )}
+          {status.outstandingStations.map(station => (
+            <Badge
+              key={station}
+              variant='outline'
+              className='border-yellow-600 text-yellow-400'
+            >
+              <Clock className='mr-1 h-3 w-3' />
+              {station}
+            </Badge>
+          ))}
+        </div>
+        <Button
+          size='sm'
+          onClick={() => onSendCourse(table.tableId, status.course)}
+          disabled={!status.ready || isSending}
+          className='bg-green-600 hover:bg-green-700 text-white'
+        >
+          {isSending ? (
+            <Clock className='mr-2 h-4 w-4 animate-spin' />
+          ) : (
+            <Send className='mr-2 h-4 w-4' />
+          )}
+          Send to table
+        </Button>
+      </div>
+
+      <div className='space-y-2'>
+        {table.seats.map(seat => {
+          const tickets = seat.orders.filter(
+            order => (order.course ?? null) === status.course
+          )
+          if (tickets.length === 0) {
+            return null
+          }
+
+          return (
+            <div key={seat.seatId} className='flex gap-3'>
+              <span className='w-14 shrink-0 text-sm text-gray-400'>
+                Seat {seat.seatLabel ?? '?'}
+              </span>
+              <div className='flex flex-1 flex-wrap items-center gap-1'>
+                {tickets.map(ticket => {
+                  const complete = isTicketComplete(ticket)
+                  return (
+                    <span key={ticket.id} className='flex flex-wrap items-center gap-1'>
+                      {getTicketDisplayLines(ticket).map(line => (
+                        <Badge
+                          key={line.key}
+                          variant='outline'
+                          className={cn(
+                            'text-xs',
+                            complete || line.ticketItem?.completed_at
+                              ? 'border-green-700 text-green-300'
+                              : 'border-gray-600 text-gray-400',
+                            getAllDayItemKey(line) === selectedItemKey &&
+                              'border-amber-400 text-amber-300'
+                          )}
+                        >
+                          {line.quantity > 1 && `${line.quantity}x `}
+                          {line.name}
+                        </Badge>
+                      ))}
+                      {!complete && (
+                        <Button
+                          size='sm'
+                          variant='ghost'
+                          className='h-6 px-2 text-xs text-gray-400'
+                          onClick={() => onBumpTicket(ticket.id)}
+                          disabled={bumpingIds.has(ticket.id)}
+                          title={`Mark ${ticket.station?.name || 'station'} ticket up`}
+                        >
+                          <CheckCircle2 className='h-3 w-3' />
+                        </Button>
+                      )}
+                    </span>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
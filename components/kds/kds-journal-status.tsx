@@ -0,0 +1,64 @@
+'use client'
+
+import { memo } from 'react'
+import { AlertTriangle, CloudOff, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { KDSJournalEntry } from '@/lib/offline'
+
+interface KDSJournalStatusProps {
+  isConnected: boolean
+  pending: KDSJournalEntry[]
+  conflicts: KDSJournalEntry[]
+  onDismiss: (_id: string) => void
+  className?: string
+}
+
+/**
+ * Offline banner for the KDS: tickets shown may be stale, cook actions are
+ * waiting to sync, and replays the server refused because the ticket had
+ * changed elsewhere
+ */
+export const KDSJournalStatus = memo(function KDSJournalStatus({
+  isConnected,
+  pending,
+  conflicts,
+  onDismiss,
+  className,
+}: KDSJournalStatusProps) {
+  if (isConnected && pending.length === 0 && conflicts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn('space-y-2 px-4 py-2 bg-gray-900 border-b border-gray-700', className)}>
+      {(!isConnected || pending.length > 0) && (
+        <div className='flex items-center gap-2 text-sm text-amber-300'>
+          <CloudOff className='h-4 w-4' />
+          {!isConnected && 'Offline - tickets may be out of date. '}
+          {pending.length > 0 &&
+            `${pending.length} action${pending.length === 1 ? '' : 's'} waiting to sync`}
+        </div>
+      )}
+      {conflicts.map(entry => (
+        <div
+          key={entry.id}
+          className='flex items-center gap-2 rounded border border-red-700 bg-red-950/40 px-3 py-1 text-sm text-red-200'
+          role='alert'
+        >
+          <AlertTriangle className='h-4 w-4 shrink-0' />
+          <span className='font-medium'>{entry.label}:</span>
+          <span className='flex-1'>{entry.last_error}</span>
+          <Button
+            variant='ghost'
+            size='sm'
+            className='h-6 w-6 p-0 text-red-200 hover:bg-red-900'
+            onClick={() => onDismiss(entry.id)}
+          >
+            <X className='h-4 w-4' />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+})
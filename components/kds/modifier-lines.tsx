@@ -0,0 +1,57 @@
+'use client'
+
+import { memo } from 'react'
+import { cn } from '@/lib/utils'
+import { formatModifier } from '@/lib/order-modifiers'
+import type { ModifierKind, OrderItemModifier } from '@/types/database'
+
+interface ModifierLinesProps {
+  modifiers: OrderItemModifier[]
+  notes?: string | null
+  className?: string
+}
+
+const MODIFIER_COLORS: Record<ModifierKind, string> = {
+  temperature:
+    'bg-orange-100 text-orange-900 dark:bg-orange-900/40 dark:text-orange-200',
+  thickness:
+    'bg-purple-100 text-purple-900 dark:bg-purple-900/40 dark:text-purple-200',
+  remove: 'bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200',
+  substitute: 'bg-blue-100 text-blue-900 dark:bg-blue-900/40 dark:text-blue-200',
+  add: 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200',
+}
+
+/**
+ * Modifiers and special instructions under an order line, one highlighted
+ * sub-line each so "NO ONION" reads at a glance
+ */
+export const ModifierLines = memo(function ModifierLines({
+  modifiers,
+  notes,
+  className,
+}: ModifierLinesProps) {
+  if (modifiers.length === 0 && !notes) {
+    return null
+  }
+
+  return (
+    <div className={cn('ml-2 mt-0.5 space-y-0.5', className)}>
+      {modifiers.map((modifier, index) => (
+        <div
+          key={`${modifier.kind}-${modifier.name}-${index}`}
+          className={cn(
+            'w-fit rounded px-1.5 text-xs font-semibold',
+            MODIFIER_COLORS[modifier.kind]
+          )}
+        >
+          {formatModifier(modifier)}
+        </div>
+      ))}
+      {notes && (
+        <div className='text-xs italic text-amber-700 dark:text-amber-300'>
+          Note: {notes}
+        </div>
+      )}
+    </div>
+  )
+})
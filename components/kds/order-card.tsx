@@ -4,6 +4,15 @@ import { memo, useCallback, useState } from 'react'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { OrderTimeline } from '@/components/order-timeline'
 import { cn } from '@/lib/utils'
 import {
   AlertTriangle,
@@ -11,6 +20,7 @@ import {
   ArrowUp,
   CheckCircle,
   Clock,
+  History,
   MapPin,
   MessageSquare,
   Play,
@@ -19,7 +29,16 @@ import {
 } from 'lucide-react'
 import { useOrderTiming } from '@/hooks/use-kds-orders'
 import { useSimpleSwipe } from '@/hooks/use-simple-swipe'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import { isRoutingHeld } from '@/lib/modassembly/supabase/database/kds/courses'
+import { getTicketProgress } from '@/lib/modassembly/supabase/database/kds/item-progress'
+import { AllergyFlag } from './allergy-flag'
+import { ResidentCareFlag } from './resident-care-flag'
+import { TextureBadge } from './texture-badge'
+import { CourseBadge } from './course-badge'
+import { TicketItemLines } from './ticket-item-lines'
 import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+import type { TicketItemState } from '@/types/database'
 
 interface OrderCardProps {
   order: KDSOrderRouting
@@ -28,6 +47,7 @@ interface OrderCardProps {
   onStartPrep?: (routingId: string) => Promise<void>
   onUpdatePriority?: (routingId: string, priority: number) => Promise<void>
   onAddNotes?: (routingId: string, notes: string) => Promise<void>
+  onItemStateChange?: (_itemId: string, _state: TicketItemState) => Promise<void>
   isCompact?: boolean
   showActions?: boolean
   className?: string
@@ -42,6 +62,7 @@ export const OrderCard = memo(
     onStartPrep,
     onUpdatePriority,
     onAddNotes,
+    onItemStateChange,
     isCompact = false,
     showActions = true,
     className,
@@ -51,10 +72,13 @@ export const OrderCard = memo(
     const [isLoading, setIsLoading] = useState(false)
     const [showNotes, setShowNotes] = useState(false)
     const [notes, setNotes] = useState(order.notes || '')
+    const [showHistory, setShowHistory] = useState(false)
+    // Held tickets wait for the server to fire their course
+    const isHeld = isRoutingHeld(order)
     
     // Simple swipe to complete (mobile only)
     const { handleTouchStart, handleTouchEnd } = useSimpleSwipe(() => {
-      if (!isLoading) {
+      if (!isLoading && !isHeld) {
         handleBump()
       }
     })
@@ -117,6 +141,24 @@ export const OrderCard = memo(
       [order.id, order.priority, onUpdatePriority]
     )
 
+    // Handle a line being started / finished
+    const handleItemStateChange = useCallback(
+      async (itemId: string, state: TicketItemState) => {
+        if (!onItemStateChange) {
+          return
+        }
+        setIsLoading(true)
+        try {
+          await onItemStateChange(itemId, state)
+        } catch (error) {
+          console.error('Error updating item:', error)
+        } finally {
+          setIsLoading(false)
+        }
+      },
+      [onItemStateChange]
+    )
+
     // Handle notes save
     const handleSaveNotes = useCallback(async () => {
       if (!onAddNotes) {
@@ -184,27 +226,14 @@ export const OrderCard = memo(
     }
 
     // Format order items for display
-    const formatOrderItems = () => {
-      if (!order.order?.items || !Array.isArray(order.order.items)) {
-        return []
-      }
-
-      return order.order.items.map((item, index) => (
-        <div key={index} className='text-sm'>
-          <span className='font-medium'>{item.name || item}</span>
-          {item.modifiers && item.modifiers.length > 0 && (
-            <div className='text-xs text-gray-600 dark:text-gray-400 ml-2'>
-              {item.modifiers.join(', ')}
-            </div>
-          )}
-          {item.notes && (
-            <div className='text-xs text-gray-500 dark:text-gray-500 ml-2 italic'>
-              {item.notes}
-            </div>
-          )}
-        </div>
-      ))
-    }
+    const formatOrderItems = () => (
+      <TicketItemLines
+        lines={getTicketDisplayLines(order)}
+        progress={getTicketProgress(order)}
+        onItemStateChange={showActions ? handleItemStateChange : undefined}
+        disabled={isLoading || isHeld}
+      />
+    )
 
     return (
       <Card
@@ -213,8 +242,9 @@ export const OrderCard = memo(
           'animate-in', // Subtle entrance animation
           colors.border,
           colors.bg,
-          isOverdue && 'animate-pulse',
+          isOverdue && !isHeld && 'animate-pulse',
           order.started_at && 'ring-2 ring-blue-500',
+          isHeld && 'opacity-60 border-dashed',
           'scroll-container', // Smooth scrolling on iOS
           className
         )}
@@ -222,7 +252,7 @@ export const OrderCard = memo(
         onTouchEnd={handleTouchEnd}
       >
         {/* Urgency indicator WITHOUT removing existing UI */}
-        {(order.priority >= 8 || isOverdue) && (
+        {!isHeld && (order.priority >= 8 || isOverdue) && (
           <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-orange-500 to-red-500 animate-subtle-pulse" />
         )}
         <CardHeader className={cn('pb-2', isCompact && 'p-3')}>
@@ -233,16 +263,20 @@ export const OrderCard = memo(
                 #{order.order?.id?.slice(-6) || 'N/A'}
               </Badge>
 
-              {/* Timing - Enhanced visual hierarchy */}
-              <Badge className={cn(
-                colors.badge, 
-                'flex items-center gap-1 tabular-nums font-semibold',
-                timeElapsed > 15 && 'text-red-600 animate-subtle-pulse',
-                timeElapsed > 10 && timeElapsed <= 15 && 'text-orange-600'
-              )}>
-                <Clock className='h-3 w-3' />
-                {formattedTime}
-              </Badge>
+              {/* Timing - Enhanced visual hierarchy; held tickets aren't cooking yet */}
+              {!isHeld && (
+                <Badge className={cn(
+                  colors.badge, 
+                  'flex items-center gap-1 tabular-nums font-semibold',
+                  timeElapsed > 15 && 'text-red-600 animate-subtle-pulse',
+                  timeElapsed > 10 && timeElapsed <= 15 && 'text-orange-600'
+                )}>
+                  <Clock className='h-3 w-3' />
+                  {formattedTime}
+                </Badge>
+              )}
+
+              <CourseBadge order={order} />
 
               {/* Priority */}
               {getPriorityBadge()}
@@ -293,8 +327,13 @@ export const OrderCard = memo(
         </CardHeader>
 
         <CardContent className={cn('pt-0', isCompact && 'p-3 pt-0')}>
+          {/* Allergy / diet and texture flags - shown even in compact mode */}
+          <AllergyFlag order={order.order} isCompact={isCompact} />
+          <TextureBadge order={order.order} isCompact={isCompact} />
+          <ResidentCareFlag order={order.order} isCompact={isCompact} />
+
           {/* Order Items */}
-          <div className='space-y-1 mb-3'>{formatOrderItems()}</div>
+          <div className='mb-3'>{formatOrderItems()}</div>
 
           {/* Notes */}
           {order.notes && !showNotes && (
@@ -343,7 +382,7 @@ export const OrderCard = memo(
               'touch-safe' // Ensure proper touch targets
             )}>
               {/* Start prep button - Mobile optimized */}
-              {!order.started_at && onStartPrep && (
+              {!order.started_at && !isHeld && onStartPrep && (
                 <Button
                   size='sm'
                   variant='outline'
@@ -361,19 +400,21 @@ export const OrderCard = memo(
               )}
 
               {/* Bump button - Mobile optimized */}
-              <Button
-                size='sm'
-                onClick={handleBump}
-                disabled={isLoading}
-                className={cn(
-                  'flex-1 bg-green-600 hover:bg-green-700 text-white active:scale-[0.98] transition-all duration-150',
-                  'touch-safe-mobile min-h-[44px]', // Mobile touch compliance
-                  'font-semibold' // Better readability on mobile
-                )}
-              >
-                <CheckCircle className='h-3 w-3 mr-1' />
-                Ready
-              </Button>
+              {!isHeld && (
+                <Button
+                  size='sm'
+                  onClick={handleBump}
+                  disabled={isLoading}
+                  className={cn(
+                    'flex-1 bg-green-600 hover:bg-green-700 text-white active:scale-[0.98] transition-all duration-150',
+                    'touch-safe-mobile min-h-[44px]', // Mobile touch compliance
+                    'font-semibold' // Better readability on mobile
+                  )}
+                >
+                  <CheckCircle className='h-3 w-3 mr-1' />
+                  Ready
+                </Button>
+              )}
 
               {/* Recall button */}
               {onRecall && (
@@ -424,9 +465,39 @@ export const OrderCard = memo(
                   <MessageSquare className='h-3 w-3' />
                 </Button>
               )}
+
+              {/* Order history */}
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() => setShowHistory(true)}
+                className='px-2'
+                title='Order history'
+              >
+                <History className='h-3 w-3' />
+              </Button>
             </div>
           )}
         </CardContent>
+
+        <Dialog open={showHistory} onOpenChange={setShowHistory}>
+          <DialogContent className='max-w-lg'>
+            <DialogHeader>
+              <DialogTitle className='flex items-center gap-2'>
+                <History className='h-5 w-5' />
+                Order history
+              </DialogTitle>
+              <DialogDescription>
+                Who changed this order, from which device and why
+              </DialogDescription>
+            </DialogHeader>
+            {showHistory && (
+              <ScrollArea className='max-h-[60vh] pr-4'>
+                <OrderTimeline orderId={order.order_id} className='ml-2' />
+              </ScrollArea>
+            )}
+          </DialogContent>
+        </Dialog>
       </Card>
     )
   },
@@ -437,6 +508,8 @@ export const OrderCard = memo(
       prevProps.order.started_at === nextProps.order.started_at &&
       prevProps.order.completed_at === nextProps.order.completed_at &&
       prevProps.order.priority === nextProps.order.priority &&
+      prevProps.order.held_at === nextProps.order.held_at &&
+      prevProps.order.items === nextProps.order.items &&
       prevProps.isCompact === nextProps.isCompact &&
       prevProps.showActions === nextProps.showActions
     )
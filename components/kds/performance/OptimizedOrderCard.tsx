@@ -20,7 +20,14 @@ import {
 import { useOrderTiming } from '@/hooks/use-kds-orders'
 import { useSimpleSwipe } from '@/hooks/use-simple-swipe'
 import { useIntersectionObserver } from '@/hooks/use-intersection-observer'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import { isRoutingHeld } from '@/lib/modassembly/supabase/database/kds/courses'
+import { getTicketProgress } from '@/lib/modassembly/supabase/database/kds/item-progress'
+import { AllergyFlag } from '@/components/kds/allergy-flag'
+import { CourseBadge } from '@/components/kds/course-badge'
+import { TicketItemLines } from '@/components/kds/ticket-item-lines'
 import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+import type { TicketItemState } from '@/types/database'
 
 interface OptimizedOrderCardProps {
   order: KDSOrderRouting
@@ -29,6 +36,7 @@ interface OptimizedOrderCardProps {
   onStartPrep?: (routingId: string) => Promise<void>
   onUpdatePriority?: (routingId: string, priority: number) => Promise<void>
   onAddNotes?: (routingId: string, notes: string) => Promise<void>
+  onItemStateChange?: (_itemId: string, _state: TicketItemState) => Promise<void>
   isCompact?: boolean
   showActions?: boolean
   className?: string
@@ -39,52 +47,31 @@ interface OptimizedOrderCardProps {
 }
 
 // Memoized order items component for performance
-const OrderItems = memo(({ items }: { items: any[] }) => {
+const OrderItems = memo(({
+  order,
+  onItemStateChange,
+  disabled,
+}: {
+  order: KDSOrderRouting
+  onItemStateChange?: (_itemId: string, _state: TicketItemState) => void
+  disabled: boolean
+}) => {
   return useMemo(() => {
-    if (!items || !Array.isArray(items)) {
+    const lines = getTicketDisplayLines(order)
+    if (lines.length === 0) {
       return <div className="text-sm text-gray-500">No items</div>
     }
 
     return (
-      <div className="space-y-1">
-        {items.map((item, index) => {
-          const itemName = typeof item === 'object' ? item.name : item
-          const itemPrice = typeof item === 'object' ? item.price : null
-          const itemCategory = typeof item === 'object' ? item.category : null
-          
-          return (
-            <div key={index} className='text-sm border-l-2 border-blue-500 pl-3 py-1'>
-              <div className='flex items-center justify-between'>
-                <span className='font-medium text-gray-900 dark:text-gray-100'>
-                  {itemName || 'Unknown Item'}
-                </span>
-                {itemPrice && (
-                  <span className='text-xs text-gray-500 font-mono'>
-                    ${itemPrice.toFixed(2)}
-                  </span>
-                )}
-              </div>
-              {itemCategory && (
-                <div className='text-xs text-blue-600 dark:text-blue-400 capitalize'>
-                  {itemCategory} station
-                </div>
-              )}
-              {item.modifiers && item.modifiers.length > 0 && (
-                <div className='text-xs text-gray-600 dark:text-gray-400 ml-2'>
-                  + {item.modifiers.join(', ')}
-                </div>
-              )}
-              {item.notes && (
-                <div className='text-xs text-gray-500 dark:text-gray-500 ml-2 italic'>
-                  Note: {item.notes}
-                </div>
-              )}
-            </div>
-          )
-        })}
-      </div>
+      <TicketItemLines
+        lines={lines}
+        progress={getTicketProgress(order)}
+        onItemStateChange={onItemStateChange}
+        disabled={disabled}
+        lineClassName='border-l-2 border-blue-500 pl-3 py-1 text-gray-900 dark:text-gray-100'
+      />
     )
-  }, [items])
+  }, [order, onItemStateChange, disabled])
 })
 OrderItems.displayName = 'OrderItems'
 
@@ -207,6 +194,9 @@ const ActionButtons = memo(({
     [order.id, order.priority, onUpdatePriority]
   )
 
+  // Held tickets can't be started or bumped until their course is fired
+  const isHeld = isRoutingHeld(order)
+
   return (
     <div className={cn(
       'flex gap-2',
@@ -214,7 +204,7 @@ const ActionButtons = memo(({
       'touch-safe'
     )}>
       {/* Start prep button */}
-      {!order.started_at && onStartPrep && (
+      {!order.started_at && !isHeld && onStartPrep && (
         <Button
           size='sm'
           variant='outline'
@@ -232,19 +222,21 @@ const ActionButtons = memo(({
       )}
 
       {/* Bump button */}
-      <Button
-        size='sm'
-        onClick={handleBump}
-        disabled={isLoading}
-        className={cn(
-          'flex-1 bg-green-600 hover:bg-green-700 text-white active:scale-[0.98] transition-all duration-150',
-          'touch-safe-mobile min-h-[44px]',
-          'font-semibold'
-        )}
-      >
-        <CheckCircle className='h-3 w-3 mr-1' />
-        Ready
-      </Button>
+      {!isHeld && (
+        <Button
+          size='sm'
+          onClick={handleBump}
+          disabled={isLoading}
+          className={cn(
+            'flex-1 bg-green-600 hover:bg-green-700 text-white active:scale-[0.98] transition-all duration-150',
+            'touch-safe-mobile min-h-[44px]',
+            'font-semibold'
+          )}
+        >
+          <CheckCircle className='h-3 w-3 mr-1' />
+          Ready
+        </Button>
+      )}
 
       {/* Recall button */}
       {onRecall && (
@@ -308,6 +300,7 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
   onStartPrep,
   onUpdatePriority,
   onAddNotes,
+  onItemStateChange,
   isCompact = false,
   showActions = true,
   className,
@@ -318,6 +311,7 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
   const [isLoading, setIsLoading] = useState(false)
   const [showNotes, setShowNotes] = useState(false)
   const [notes, setNotes] = useState(order.notes || '')
+  const isHeld = isRoutingHeld(order)
   
   // Intersection observer for lazy loading
   const { isIntersecting, hasIntersected } = useIntersectionObserver(
@@ -333,7 +327,7 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
   
   // Simple swipe to complete (mobile only)
   const { handleTouchStart, handleTouchEnd } = useSimpleSwipe(() => {
-    if (!isLoading) {
+    if (!isLoading && !isHeld) {
       handleBump()
     }
   })
@@ -350,6 +344,19 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
     }
   }, [order.id, onBump])
 
+  // Handle a line being started / finished
+  const handleItemStateChange = useCallback(async (itemId: string, state: TicketItemState) => {
+    if (!onItemStateChange) {return}
+    setIsLoading(true)
+    try {
+      await onItemStateChange(itemId, state)
+    } catch (_error) {
+      console.error('Error updating item:', _error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [onItemStateChange])
+
   // Handle notes save
   const handleSaveNotes = useCallback(async () => {
     if (!onAddNotes) {return}
@@ -428,8 +435,9 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
         'animate-in',
         colors.border,
         colors.bg,
-        isOverdue && 'animate-pulse',
+        isOverdue && !isHeld && 'animate-pulse',
         order.started_at && 'ring-2 ring-blue-500',
+        isHeld && 'opacity-60 border-dashed',
         'scroll-container',
         className
       )}
@@ -437,7 +445,7 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
       onTouchEnd={handleTouchEnd}
     >
       {/* Urgency indicator */}
-      {(order.priority >= 8 || isOverdue) && (
+      {!isHeld && (order.priority >= 8 || isOverdue) && (
         <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-orange-500 to-red-500 animate-subtle-pulse" />
       )}
       
@@ -449,13 +457,17 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
               T{order.order?.table?.label || '?'}-S{order.order?.seat?.label || '?'}
             </Badge>
 
-            {/* Timing */}
-            <TimingDisplay 
-              timeElapsed={timeElapsed}
-              colorStatus={colorStatus}
-              formattedTime={formattedTime}
-              isOverdue={isOverdue}
-            />
+            {/* Timing - held tickets aren't cooking yet */}
+            {!isHeld && (
+              <TimingDisplay 
+                timeElapsed={timeElapsed}
+                colorStatus={colorStatus}
+                formattedTime={formattedTime}
+                isOverdue={isOverdue}
+              />
+            )}
+
+            <CourseBadge order={order} />
 
             {/* Priority */}
             {priorityBadge}
@@ -506,9 +518,16 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
       </CardHeader>
 
       <CardContent className={cn('pt-0', isCompact && 'p-3 pt-0')}>
+        {/* Allergy / diet flag - shown even in compact mode */}
+        <AllergyFlag order={order.order} isCompact={isCompact} />
+
         {/* Order Items - Memoized for performance */}
         <div className='mb-3'>
-          <OrderItems items={order.order?.items || []} />
+          <OrderItems
+            order={order}
+            onItemStateChange={showActions && onItemStateChange ? handleItemStateChange : undefined}
+            disabled={isLoading || isHeld}
+          />
         </div>
 
         {/* Notes */}
@@ -577,6 +596,8 @@ export const OptimizedOrderCard = memo<OptimizedOrderCardProps>(({
     prevProps.order.priority === nextProps.order.priority &&
     prevProps.order.notes === nextProps.order.notes &&
     prevProps.order.recall_count === nextProps.order.recall_count &&
+    prevProps.order.held_at === nextProps.order.held_at &&
+    prevProps.order.items === nextProps.order.items &&
     prevProps.isCompact === nextProps.isCompact &&
     prevProps.showActions === nextProps.showActions &&
     prevProps.lazyLoad === nextProps.lazyLoad &&
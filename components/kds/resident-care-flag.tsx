@@ -0,0 +1,51 @@
+'use client'
+
+import { memo } from 'react'
+import { DoorOpen, HandHelping } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+
+interface ResidentCareFlagProps {
+  order: KDSOrderRouting['order']
+  isCompact?: boolean
+}
+
+/**
+ * Resident room and assistance notes on a KDS ticket, as recorded when the
+ * order was placed. Texture levels show on the TextureBadge.
+ */
+export const ResidentCareFlag = memo(function ResidentCareFlag({
+  order,
+  isCompact = false,
+}: ResidentCareFlagProps) {
+  const care = order?.resident_care
+
+  if (!care || (!care.room_number && !care.assistance_notes)) {
+    return null
+  }
+
+  return (
+    <div
+      className={cn(
+        'mb-2 rounded border',
+        care.assistance_notes
+          ? 'border-amber-500 bg-amber-50 dark:bg-amber-950/40 text-amber-900 dark:text-amber-100'
+          : 'border-border text-muted-foreground',
+        isCompact ? 'p-1 text-xs' : 'p-2 text-sm'
+      )}
+    >
+      {care.room_number && (
+        <div className='flex items-center gap-1'>
+          <DoorOpen className='h-3 w-3 shrink-0' />
+          Room {care.room_number}
+        </div>
+      )}
+      {care.assistance_notes && (
+        <div className='flex items-start gap-1 mt-1 text-xs'>
+          <HandHelping className='h-3 w-3 mt-0.5 shrink-0' />
+          <span>{care.assistance_notes}</span>
+        </div>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,109 @@
+'use client'
+
+import { memo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { COURSE_LABELS } from '@/lib/modassembly/supabase/database/kds/courses'
+import type { RunnerTaskWithTable } from '@/lib/modassembly/supabase/database/kds/expo'
+import type { RunnerTaskStatus } from '@/types/database'
+
+interface RunnerTaskListProps {
+  tasks: RunnerTaskWithTable[]
+  onUpdateStatus: (
+    _taskId: string,
+    _status: Exclude<RunnerTaskStatus, 'pending'>
+  ) => void
+  updatingIds: Set<string>
+  className?: string
+}
+
+/**
+ * Food sent out by the expo, with who gets what at each seat
+ */
+export const RunnerTaskList = memo(function RunnerTaskList({
+  tasks,
+  onUpdateStatus,
+  updatingIds,
+  className,
+}: RunnerTaskListProps) {
+  return (
+    <Card className={cn('bg-gray-800/40 border-gray-700', className)}>
+      <CardHeader className='pb-3'>
+        <CardTitle className='text-lg text-white'>Runners</CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-3 pt-0'>
+        {tasks.length === 0 ? (
+          <p className='text-sm text-gray-400'>Nothing waiting to run</p>
+        ) : (
+          tasks.map(task => (
+            <div key={task.id} className='rounded-lg border border-gray-700 p-3'>
+              <div className='mb-2 flex items-center justify-between gap-2'>
+                <span className='font-semibold text-white'>
+                  Table {task.table?.label || '?'}
+                  {task.course && (
+                    <span className='ml-2 text-sm font-normal text-gray-400'>
+                      {COURSE_LABELS[task.course]}
+                    </span>
+                  )}
+                </span>
+                <Badge
+                  variant='outline'
+                  className={
+                    task.status === 'picked_up'
+                      ? 'border-blue-600 text-blue-400'
+                      : 'border-gray-600 text-gray-300'
+                  }
+                >
+                  {task.status === 'picked_up' ? 'On the way' : 'Waiting'}
+                </Badge>
+              </div>
+
+              <ul className='mb-3 space-y-1 text-sm'>
+                {task.seat_map.map(seat => (
+                  <li key={seat.seat_id ?? 'table'} className='text-gray-300'>
+                    <span className='font-medium text-gray-200'>
+                      Seat {seat.seat_label ?? '?'}
+                    </span>
+                    {seat.resident_name && (
+                      <span className='text-gray-400'> ({seat.resident_name})</span>
+                    )}
+                    :{' '}
+                    {seat.items
+                      .map(item =>
+                        item.quantity > 1 ? `${item.quantity}x ${item.name}` : item.name
+                      )
+                      .join(', ')}
+                  </li>
+                ))}
+              </ul>
+
+              <div className='flex justify-end'>
+                {task.status === 'pending' ? (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    disabled={updatingIds.has(task.id)}
+                    onClick={() => onUpdateStatus(task.id, 'picked_up')}
+                  >
+                    Picked up
+                  </Button>
+                ) : (
+                  <Button
+                    size='sm'
+                    className='bg-green-600 hover:bg-green-700 text-white'
+                    disabled={updatingIds.has(task.id)}
+                    onClick={() => onUpdateStatus(task.id, 'delivered')}
+                  >
+                    Delivered
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+})
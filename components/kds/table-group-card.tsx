@@ -25,6 +25,13 @@ import {
   useTableGroupTiming,
 } from '@/hooks/use-table-grouped-orders'
 import { useAsyncAction, useAsyncSetAction } from '@/hooks/use-async-action'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import { isRoutingHeld } from '@/lib/modassembly/supabase/database/kds/courses'
+import { getTicketProgress } from '@/lib/modassembly/supabase/database/kds/item-progress'
+import type { TicketItemState } from '@/types/database'
+import { ResidentCareFlag } from './resident-care-flag'
+import { TextureBadge } from './texture-badge'
+import { TicketItemLines } from './ticket-item-lines'
 import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
 
 interface TableGroupCardProps {
@@ -33,32 +40,12 @@ interface TableGroupCardProps {
   onBumpTable: (tableId: string, orderIds: string[]) => Promise<void>
   onStartPrep: (routingId: string) => Promise<void>
   onRecallOrder: (routingId: string) => Promise<void>
+  onItemStateChange?: (_itemId: string, _state: TicketItemState) => Promise<void>
   isCompact?: boolean
   showActions?: boolean
   className?: string
 }
 
-// Memoized order item component
-const OrderItem = memo(({ item }: { item: any }) => {
-  const formattedItem = useMemo(() => {
-    if (typeof item === 'string') {
-      return item
-    }
-    return item?.name || String(item)
-  }, [item])
-
-  return (
-    <div className='flex items-center gap-2 py-1'>
-      {/* 🎯 AGENT 2 ENHANCEMENT: Enhanced item visibility with bullet styling */}
-      <div className='w-2 h-2 bg-blue-500 rounded-full flex-shrink-0'></div>
-      <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-        {formattedItem}
-      </span>
-    </div>
-  )
-})
-OrderItem.displayName = 'OrderItem'
-
 // Memoized seat order component
 const SeatOrder = memo(
   ({
@@ -66,6 +53,7 @@ const SeatOrder = memo(
     orderIdx,
     showActions,
     onStartPrep,
+    onItemStateChange,
     bumpOrder,
     startPrep,
   }: {
@@ -73,6 +61,7 @@ const SeatOrder = memo(
     orderIdx: number
     showActions: boolean
     onStartPrep?: (routingId: string) => Promise<void>
+    onItemStateChange?: (_itemId: string, _state: TicketItemState) => Promise<void>
     bumpOrder: {
       execute: (id: string) => Promise<void>
       isLoading: (id: string) => boolean
@@ -161,14 +150,15 @@ const SeatOrder = memo(
           )}
         </div>
 
-        {/* Order items */}
-        {order.order?.items && order.order.items.length > 0 && (
-          <div className='text-sm space-y-0.5'>
-            {order.order.items.map((item, idx) => (
-              <OrderItem key={idx} item={item} />
-            ))}
-          </div>
-        )}
+        {/* Order items - tap a line to start / finish it */}
+        <TicketItemLines
+          lines={getTicketDisplayLines(order)}
+          progress={getTicketProgress(order)}
+          onItemStateChange={
+            showActions && !order.completed_at ? onItemStateChange : undefined
+          }
+          disabled={isBumping || isRoutingHeld(order)}
+        />
 
         {/* Order notes */}
         {order.notes && (
@@ -189,6 +179,7 @@ export const TableGroupCard = memo(function TableGroupCard({
   onBumpTable,
   onStartPrep,
   onRecallOrder,
+  onItemStateChange,
   isCompact = false,
   showActions = true,
   className,
@@ -446,6 +437,11 @@ export const TableGroupCard = memo(function TableGroupCard({
                       </div>
                     </div>
 
+                    {seatOrders.map(order => (
+                      <TextureBadge key={order.id} order={order.order} isCompact />
+                    ))}
+                    <ResidentCareFlag order={seatOrders[0].order} isCompact />
+
                     {/* Seat orders */}
                     {seatOrders.map((order, orderIdx) => (
                       <SeatOrder
@@ -454,6 +450,7 @@ export const TableGroupCard = memo(function TableGroupCard({
                         orderIdx={orderIdx}
                         showActions={showActions}
                         onStartPrep={onStartPrep}
+                        onItemStateChange={onItemStateChange}
                         bumpOrder={bumpOrder}
                         startPrep={startPrep}
                       />
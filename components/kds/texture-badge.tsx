@@ -0,0 +1,48 @@
+'use client'
+
+import { memo } from 'react'
+import { Soup } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  formatTextureLevel,
+  formatThicknessLevel,
+  getOrderTextureLevels,
+} from '@/lib/iddsi'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds'
+
+interface TextureBadgeProps {
+  order: KDSOrderRouting['order']
+  isCompact?: boolean
+}
+
+/**
+ * IDDSI level the ticket must be prepared to: food texture and drink
+ * thickness. Regular diets and thin drinks show nothing.
+ */
+export const TextureBadge = memo(function TextureBadge({
+  order,
+  isCompact = false,
+}: TextureBadgeProps) {
+  const { textures, thicknesses } = getOrderTextureLevels(order)
+  const levels = [
+    ...textures.map(formatTextureLevel),
+    ...thicknesses.map(formatThicknessLevel),
+  ]
+
+  if (levels.length === 0) {
+    return null
+  }
+
+  return (
+    <div
+      className={cn(
+        'mb-2 flex flex-wrap items-center gap-1 rounded border-2 border-purple-600 bg-purple-50 dark:bg-purple-950/50 text-purple-900 dark:text-purple-100 font-bold uppercase',
+        isCompact ? 'p-1 text-xs' : 'p-2 text-base'
+      )}
+      role='alert'
+    >
+      <Soup className='h-4 w-4 shrink-0' />
+      {levels.join(' • ')}
+    </div>
+  )
+})
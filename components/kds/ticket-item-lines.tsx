@@ -0,0 +1,102 @@
+'use client'
+
+import { memo } from 'react'
+import { CheckCircle2, Circle, PlayCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { KDSDisplayLine } from '@/lib/kds/order-lines'
+import {
+  getTicketItemState,
+  nextTicketItemState,
+} from '@/lib/modassembly/supabase/database/kds/item-progress'
+import type { TicketProgress } from '@/lib/modassembly/supabase/database/kds/types'
+import type { TicketItemState } from '@/types/database'
+import { ModifierLines } from './modifier-lines'
+
+interface TicketItemLinesProps {
+  lines: KDSDisplayLine[]
+  progress: TicketProgress
+  // Tap a line to move it pending → started → done
+  onItemStateChange?: (_itemId: string, _state: TicketItemState) => void
+  disabled?: boolean
+  lineClassName?: string
+}
+
+const STATE_ICONS = {
+  pending: <Circle className='h-4 w-4 text-gray-400' />,
+  started: <PlayCircle className='h-4 w-4 text-blue-500' />,
+  done: <CheckCircle2 className='h-4 w-4 text-green-600' />,
+}
+
+/**
+ * Lines on a station ticket with their started/done state and an
+ * "x/y done" bar, so a cook can work the ticket one plate at a time
+ */
+export const TicketItemLines = memo(function TicketItemLines({
+  lines,
+  progress,
+  onItemStateChange,
+  disabled = false,
+  lineClassName,
+}: TicketItemLinesProps) {
+  return (
+    <div className='space-y-1'>
+      {progress.total > 0 && (
+        <div className='flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400'>
+          <div className='h-1.5 flex-1 overflow-hidden rounded bg-gray-200 dark:bg-gray-700'>
+            <div
+              className='h-full bg-green-500 transition-all'
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+          <span className='tabular-nums font-medium'>
+            {progress.done}/{progress.total} done
+          </span>
+        </div>
+      )}
+
+      {lines.map(line => {
+        const item = line.ticketItem
+        const state = item ? getTicketItemState(item) : null
+        const canToggle = !!item && !!onItemStateChange && !disabled
+
+        return (
+          <div key={line.key} className={cn('text-sm', lineClassName)}>
+            <button
+              type='button'
+              disabled={!canToggle}
+              onClick={() =>
+                item &&
+                state &&
+                onItemStateChange?.(item.id, nextTicketItemState(state))
+              }
+              className={cn(
+                'flex w-full items-center gap-2 text-left',
+                canToggle && 'min-h-[32px] cursor-pointer'
+              )}
+            >
+              {state && STATE_ICONS[state]}
+              <span
+                className={cn(
+                  'font-medium',
+                  state === 'done' && 'line-through text-gray-500'
+                )}
+              >
+                {line.quantity > 1 && (
+                  <span className='font-bold mr-1'>{line.quantity}x</span>
+                )}
+                {line.name || 'Unknown Item'}
+              </span>
+            </button>
+            {state !== 'done' && (
+              <ModifierLines
+                modifiers={line.modifiers}
+                notes={line.notes}
+                className={state ? 'ml-6' : undefined}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+})
@@ -1,38 +1,173 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { Shell } from '@/components/shell'
-import { Card, CardContent } from '@/components/ui/card'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/loading-states'
+import { getSystemPerformanceMetrics } from '@/lib/modassembly/supabase/database/kds/metrics'
+import {
+  fetchMealServices,
+  formatServiceHours,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import type { MealService } from '@/types/database'
 
 type KitchenMetricsClientComponentProps = {
   user: { id: string; email?: string }
   profile: { role: string | null; name: string | null } | null
 }
 
+type SystemMetrics = Awaited<ReturnType<typeof getSystemPerformanceMetrics>>
+
+const ALL_SERVICES = 'all'
+const PERIODS = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+]
+
 export function KitchenMetricsClientComponent({
   user,
   profile,
 }: KitchenMetricsClientComponentProps) {
+  const [services, setServices] = useState<MealService[]>([])
+  const [serviceId, setServiceId] = useState(ALL_SERVICES)
+  const [days, setDays] = useState(7)
+  const [metrics, setMetrics] = useState<SystemMetrics | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchMealServices()
+      .then(setServices)
+      .catch(err => console.error('Error loading meal services:', err))
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setMetrics(null)
+    setError(null)
+
+    getSystemPerformanceMetrics(
+      days,
+      serviceId === ALL_SERVICES ? undefined : serviceId
+    )
+      .then(result => {
+        if (!cancelled) {
+          setMetrics(result)
+        }
+      })
+      .catch(err => {
+        console.error('Error loading kitchen metrics:', err)
+        if (!cancelled) {
+          setError('Could not load kitchen metrics')
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [days, serviceId])
+
+  const selectedService = services.find(service => service.id === serviceId)
+
   return (
     <Shell user={user} profile={profile}>
-      <div className='p-6'>
-        <h1 className='text-3xl font-bold text-white mb-6'>Kitchen Metrics</h1>
-        <Card className='bg-gray-800/40 border-gray-700'>
-          <CardContent className='p-6'>
-            <div className='text-center'>
-              <h2 className='text-xl font-semibold text-white mb-2'>
-                Kitchen Performance Metrics
-              </h2>
-              <p className='text-gray-400'>
-                Analytics and performance tracking
-              </p>
-              <div className='mt-4 text-sm text-gray-500'>
-                <div>User: {user.email}</div>
-                <div>Role: {profile?.role || 'N/A'}</div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      <div className='p-6 space-y-6'>
+        <div className='flex flex-wrap items-center justify-between gap-4'>
+          <div>
+            <h1 className='text-3xl font-bold text-white'>Kitchen Metrics</h1>
+            <p className='text-gray-400'>
+              {selectedService
+                ? `${selectedService.name} service (${formatServiceHours(selectedService)})`
+                : 'All services'}
+            </p>
+          </div>
+          <div className='flex items-center gap-2'>
+            <Select value={serviceId} onValueChange={setServiceId}>
+              <SelectTrigger className='w-40 bg-gray-800 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SERVICES}>All services</SelectItem>
+                {services.map(service => (
+                  <SelectItem key={service.id} value={service.id}>
+                    {service.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(days)}
+              onValueChange={value => setDays(Number(value))}
+            >
+              <SelectTrigger className='w-36 bg-gray-800 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => (
+                  <SelectItem key={period.days} value={String(period.days)}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && <p className='text-red-400'>{error}</p>}
+        {!metrics && !error && <LoadingSpinner />}
+
+        {metrics && (
+          <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4'>
+            <MetricCard title='Tickets' value={metrics.totalOrders} />
+            <MetricCard
+              title='Avg prep time'
+              value={`${Math.round(metrics.avgPrepTime / 60)}m`}
+            />
+            <MetricCard
+              title='Completion rate'
+              value={`${metrics.completionRate}%`}
+            />
+            <MetricCard
+              title='Peak hours'
+              value={metrics.peakHours.join(', ') || '—'}
+            />
+            <Card className='bg-gray-800/40 border-gray-700 md:col-span-2 lg:col-span-4'>
+              <CardHeader>
+                <CardTitle className='text-white text-base'>
+                  Top stations
+                </CardTitle>
+              </CardHeader>
+              <CardContent className='text-gray-300'>
+                {metrics.topPerformingStations.length > 0
+                  ? metrics.topPerformingStations.join(' · ')
+                  : 'No completed tickets yet'}
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </div>
     </Shell>
   )
 }
+
+function MetricCard({ title, value }: { title: string; value: string | number }) {
+  return (
+    <Card className='bg-gray-800/40 border-gray-700'>
+      <CardHeader className='pb-2'>
+        <CardTitle className='text-sm font-medium text-gray-400'>
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className='text-2xl font-bold text-white'>{value}</p>
+      </CardContent>
+    </Card>
+  )
+}
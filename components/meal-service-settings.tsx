@@ -0,0 +1,330 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CalendarClock, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  createMealService,
+  deleteMealService,
+  fetchMealServices,
+  findServiceAt,
+  updateMealService,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import type { MealService } from '@/types/database'
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const POLICIES: { value: MealService['out_of_service_policy']; label: string }[] = [
+  { value: 'warn', label: 'Warn server' },
+  { value: 'block', label: 'Block order' },
+]
+
+export function MealServiceSettings() {
+  const [services, setServices] = useState<MealService[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [newName, setNewName] = useState('')
+  const [newStart, setNewStart] = useState('07:00')
+  const [newEnd, setNewEnd] = useState('10:30')
+  const [newPolicy, setNewPolicy] =
+    useState<MealService['out_of_service_policy']>('warn')
+  const { toast } = useToast()
+
+  const loadServices = useCallback(async () => {
+    try {
+      setServices(await fetchMealServices(true))
+    } catch (error) {
+      console.error('Error loading meal services:', error)
+      toast({
+        title: 'Error loading services',
+        description: 'Could not load the service calendar',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadServices()
+  }, [loadServices])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadServices()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Service update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const addService = () => {
+    const name = newName.trim()
+    if (!name || !newStart || newStart >= newEnd) {
+      return
+    }
+    runMutation(
+      () =>
+        createMealService({
+          name,
+          start_time: newStart,
+          end_time: newEnd,
+          out_of_service_policy: newPolicy,
+          position: services.length + 1,
+        }),
+      'add service'
+    )
+    setNewName('')
+  }
+
+  const updateHours = (
+    service: MealService,
+    field: 'start_time' | 'end_time',
+    value: string
+  ) => {
+    if (!value || value === service[field].slice(0, 5)) {
+      return
+    }
+    runMutation(
+      () => updateMealService(service.id, { [field]: value }),
+      'update service hours'
+    )
+  }
+
+  // No days selected means every day
+  const toggleDay = (service: MealService, day: number) => {
+    const current = service.days_of_week || []
+    const next = current.includes(day)
+      ? current.filter(existing => existing !== day)
+      : [...current, day].sort()
+    runMutation(
+      () =>
+        updateMealService(service.id, {
+          days_of_week: next.length > 0 ? next : null,
+        }),
+      'update service days'
+    )
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading services...</div>
+  }
+
+  const current = findServiceAt(services)
+
+  return (
+    <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+      <CardHeader>
+        <div className='flex items-center gap-2'>
+          <CalendarClock className='h-5 w-5 text-gray-400' />
+          <CardTitle>Meal Services</CardTitle>
+          <Badge variant='outline' className='ml-auto'>
+            Now: {current ? current.name : 'between services'}
+          </Badge>
+        </div>
+        <CardDescription>
+          Orders are tagged with the service running when they are placed.
+          Limit menu items to services from the Menu tab; ordering an item
+          outside its services warns the server or blocks the order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='grid grid-cols-1 md:grid-cols-5 gap-2'>
+          <Input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder='e.g. Afternoon Tea'
+            className='bg-gray-800/50 border-gray-700'
+          />
+          <Input
+            type='time'
+            value={newStart}
+            onChange={e => setNewStart(e.target.value)}
+            className='bg-gray-800/50 border-gray-700'
+          />
+          <Input
+            type='time'
+            value={newEnd}
+            onChange={e => setNewEnd(e.target.value)}
+            className='bg-gray-800/50 border-gray-700'
+          />
+          <Select
+            value={newPolicy}
+            onValueChange={value =>
+              setNewPolicy(value as MealService['out_of_service_policy'])
+            }
+          >
+            <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICIES.map(policy => (
+                <SelectItem key={policy.value} value={policy.value}>
+                  {policy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={addService} variant='outline' className='gap-2'>
+            <Plus className='h-4 w-4' />
+            Add service
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Service</TableHead>
+              <TableHead>Opens</TableHead>
+              <TableHead>Closes</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead>Off-menu items</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className='w-12' />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {services.map(service => (
+              <TableRow key={service.id}>
+                <TableCell className='font-medium'>{service.name}</TableCell>
+                <TableCell>
+                  <Input
+                    type='time'
+                    defaultValue={service.start_time.slice(0, 5)}
+                    onBlur={e =>
+                      updateHours(service, 'start_time', e.target.value)
+                    }
+                    className='h-8 w-28 bg-gray-800/50 border-gray-700'
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type='time'
+                    defaultValue={service.end_time.slice(0, 5)}
+                    onBlur={e => updateHours(service, 'end_time', e.target.value)}
+                    className='h-8 w-28 bg-gray-800/50 border-gray-700'
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className='flex flex-wrap gap-1'>
+                    {DAYS.map((day, dayIndex) => (
+                      <Badge
+                        key={day}
+                        variant={
+                          service.days_of_week?.includes(dayIndex)
+                            ? 'default'
+                            : 'outline'
+                        }
+                        className='cursor-pointer'
+                        onClick={() => toggleDay(service, dayIndex)}
+                      >
+                        {day}
+                      </Badge>
+                    ))}
+                  </div>
+                  {!service.days_of_week?.length && (
+                    <p className='text-xs text-gray-500 mt-1'>Every day</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={service.out_of_service_policy}
+                    onValueChange={value =>
+                      runMutation(
+                        () =>
+                          updateMealService(service.id, {
+                            out_of_service_policy:
+                              value as MealService['out_of_service_policy'],
+                          }),
+                        'update service policy'
+                      )
+                    }
+                  >
+                    <SelectTrigger className='h-8 w-36 bg-gray-800/50 border-gray-700'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {POLICIES.map(policy => (
+                        <SelectItem key={policy.value} value={policy.value}>
+                          {policy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={service.is_active}
+                    onCheckedChange={checked =>
+                      runMutation(
+                        () => updateMealService(service.id, { is_active: checked }),
+                        'update service'
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size='sm'
+                    variant='ghost'
+                    onClick={() =>
+                      runMutation(
+                        () => deleteMealService(service.id),
+                        'delete service'
+                      )
+                    }
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {services.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className='text-center text-gray-500'>
+                  No services: orders are not tagged and every item is always
+                  on the menu
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,743 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Clock, Plus, Trash2, UtensilsCrossed } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  createMenuCategory,
+  createMenuItem,
+  createMenuItemSynonym,
+  createMenuModifier,
+  deleteMenuCategory,
+  deleteMenuItem,
+  deleteMenuItemSynonym,
+  deleteMenuModifier,
+  fetchMenuCategories,
+  fetchMenuItems,
+  resolveItemStationType,
+  setMenuItemAvailability,
+  setMenuItemServices,
+  updateMenuCategory,
+  updateMenuItem,
+} from '@/lib/modassembly/supabase/database/menu'
+import {
+  ALLERGENS,
+  DIET_TAGS,
+} from '@/lib/modassembly/supabase/database/dietary'
+import {
+  fetchMealServices,
+  formatServiceHours,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import {
+  MODIFIER_KINDS,
+  MODIFIER_KIND_LABELS,
+  parseModifierPhrase,
+} from '@/lib/order-modifiers'
+import type {
+  MealService,
+  MenuAvailabilityWindow,
+  MenuCategory,
+  MenuItemWithDetails,
+  ModifierKind,
+} from '@/types/database'
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const NO_CATEGORY = 'none'
+
+type WindowDraft = Pick<
+  MenuAvailabilityWindow,
+  'day_of_week' | 'start_time' | 'end_time'
+>
+
+export function MenuManagement() {
+  const [categories, setCategories] = useState<MenuCategory[]>([])
+  const [items, setItems] = useState<MenuItemWithDetails[]>([])
+  const [services, setServices] = useState<MealService[]>([])
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [newCategoryName, setNewCategoryName] = useState('')
+  const [newItemName, setNewItemName] = useState('')
+  const [newItemCategory, setNewItemCategory] = useState(NO_CATEGORY)
+  const [newItemType, setNewItemType] = useState<'food' | 'drink'>('food')
+  const [newItemPrice, setNewItemPrice] = useState('')
+  const [newModifierName, setNewModifierName] = useState('')
+  const [newModifierKind, setNewModifierKind] = useState<ModifierKind>('add')
+  const [newSynonym, setNewSynonym] = useState('')
+  const [windowDrafts, setWindowDrafts] = useState<WindowDraft[]>([])
+  const { toast } = useToast()
+
+  const selectedItem = items.find(item => item.id === selectedItemId) || null
+
+  const loadMenu = useCallback(async () => {
+    try {
+      const [categoryData, itemData, serviceData] = await Promise.all([
+        fetchMenuCategories(true),
+        fetchMenuItems({ includeUnavailable: true }),
+        fetchMealServices(true),
+      ])
+      setCategories(categoryData)
+      setItems(itemData)
+      setServices(serviceData)
+    } catch (error) {
+      console.error('Error loading menu:', error)
+      toast({
+        title: 'Error loading menu',
+        description: 'Could not load the menu catalog',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadMenu()
+  }, [loadMenu])
+
+  // Keep the availability editor in sync with the selected item
+  useEffect(() => {
+    setWindowDrafts(
+      (selectedItem?.availability || []).map(window => ({
+        day_of_week: window.day_of_week,
+        start_time: window.start_time.slice(0, 5),
+        end_time: window.end_time.slice(0, 5),
+      }))
+    )
+  }, [selectedItem?.id, selectedItem?.availability])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadMenu()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Menu update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const addCategory = () => {
+    const name = newCategoryName.trim()
+    if (!name) {
+      return
+    }
+    runMutation(
+      () => createMenuCategory({ name, position: categories.length }),
+      'create category'
+    )
+    setNewCategoryName('')
+  }
+
+  const addItem = () => {
+    const name = newItemName.trim()
+    if (!name) {
+      return
+    }
+    const price = parseFloat(newItemPrice)
+    runMutation(
+      () =>
+        createMenuItem({
+          name,
+          type: newItemType,
+          category_id: newItemCategory === NO_CATEGORY ? null : newItemCategory,
+          price_cents: Number.isFinite(price) ? Math.round(price * 100) : 0,
+          position: items.length,
+        }),
+      'create item'
+    )
+    setNewItemName('')
+    setNewItemPrice('')
+  }
+
+  const addModifier = () => {
+    const name = newModifierName.trim()
+    if (!name || !selectedItem) {
+      return
+    }
+    runMutation(
+      () =>
+        createMenuModifier({
+          name,
+          kind: newModifierKind,
+          menu_item_id: selectedItem.id,
+        }),
+      'create modifier'
+    )
+    setNewModifierName('')
+  }
+
+  const addSynonym = () => {
+    const phrase = newSynonym.trim()
+    if (!phrase || !selectedItem) {
+      return
+    }
+    runMutation(
+      () => createMenuItemSynonym(selectedItem.id, phrase),
+      'create synonym'
+    )
+    setNewSynonym('')
+  }
+
+  // Toggle an allergen or diet tag on the selected item
+  const toggleTag = (field: 'allergens' | 'diet_tags', tag: string) => {
+    if (!selectedItem) {
+      return
+    }
+    const current = selectedItem[field] || []
+    const next = current.includes(tag)
+      ? current.filter(existing => existing !== tag)
+      : [...current, tag]
+    runMutation(
+      () => updateMenuItem(selectedItem.id, { [field]: next }),
+      'update dietary tags'
+    )
+  }
+
+  // Put the selected item on or off a service's menu
+  const toggleService = (serviceId: string) => {
+    if (!selectedItem) {
+      return
+    }
+    const current = (selectedItem.services || []).map(
+      service => service.service_id
+    )
+    const next = current.includes(serviceId)
+      ? current.filter(existing => existing !== serviceId)
+      : [...current, serviceId]
+    runMutation(
+      () => setMenuItemServices(selectedItem.id, next),
+      'update services'
+    )
+  }
+
+  const saveAvailability = () => {
+    if (!selectedItem) {
+      return
+    }
+    const invalid = windowDrafts.some(
+      window => !window.start_time || window.start_time >= window.end_time
+    )
+    if (invalid) {
+      toast({
+        title: 'Invalid availability window',
+        description: 'Each window needs a start time before its end time',
+        variant: 'destructive',
+        duration: 3000,
+      })
+      return
+    }
+    runMutation(
+      () => setMenuItemAvailability(selectedItem.id, windowDrafts),
+      'save availability'
+    )
+  }
+
+  const updateWindowDraft = (index: number, changes: Partial<WindowDraft>) => {
+    setWindowDrafts(prev =>
+      prev.map((window, i) => (i === index ? { ...window, ...changes } : window))
+    )
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading menu...</div>
+  }
+
+  return (
+    <div className='space-y-6'>
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <div className='flex items-center gap-2'>
+            <UtensilsCrossed className='h-5 w-5 text-gray-400' />
+            <CardTitle>Menu Categories</CardTitle>
+          </div>
+          <CardDescription>
+            Categories group items and set the default KDS station
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex gap-2'>
+            <Input
+              value={newCategoryName}
+              onChange={e => setNewCategoryName(e.target.value)}
+              placeholder='New category name'
+              className='bg-gray-800/50 border-gray-700'
+            />
+            <Button onClick={addCategory} variant='outline' className='gap-2'>
+              <Plus className='h-4 w-4' />
+              Add
+            </Button>
+          </div>
+          <div className='flex flex-wrap gap-2'>
+            {categories.map(category => (
+              <div
+                key={category.id}
+                className='flex items-center gap-2 rounded-md border border-gray-700 px-3 py-1'
+              >
+                <span className={category.is_active ? '' : 'text-gray-500'}>
+                  {category.name}
+                </span>
+                {category.station_type && (
+                  <Badge variant='outline'>{category.station_type}</Badge>
+                )}
+                <Switch
+                  checked={category.is_active}
+                  onCheckedChange={checked =>
+                    runMutation(
+                      () =>
+                        updateMenuCategory(category.id, { is_active: checked }),
+                      'update category'
+                    )
+                  }
+                />
+                <Button
+                  size='icon'
+                  variant='ghost'
+                  className='h-6 w-6'
+                  onClick={() =>
+                    runMutation(
+                      () => deleteMenuCategory(category.id),
+                      'delete category'
+                    )
+                  }
+                >
+                  <Trash2 className='h-3 w-3' />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <CardTitle>Menu Items</CardTitle>
+          <CardDescription>
+            Toggle availability to 86 an item; select a row to edit its
+            modifiers and service windows
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-5 gap-2'>
+            <Input
+              value={newItemName}
+              onChange={e => setNewItemName(e.target.value)}
+              placeholder='Item name'
+              className='bg-gray-800/50 border-gray-700 md:col-span-2'
+            />
+            <Select value={newItemCategory} onValueChange={setNewItemCategory}>
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue placeholder='Category' />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={newItemType}
+              onValueChange={value => setNewItemType(value as 'food' | 'drink')}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='food'>Food</SelectItem>
+                <SelectItem value='drink'>Drink</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className='flex gap-2'>
+              <Input
+                value={newItemPrice}
+                onChange={e => setNewItemPrice(e.target.value)}
+                placeholder='Price'
+                inputMode='decimal'
+                className='bg-gray-800/50 border-gray-700'
+              />
+              <Button onClick={addItem} variant='outline' className='gap-2'>
+                <Plus className='h-4 w-4' />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Available</TableHead>
+                <TableHead className='w-12' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow
+                  key={item.id}
+                  onClick={() => setSelectedItemId(item.id)}
+                  className={
+                    item.id === selectedItemId
+                      ? 'bg-gray-800/60 cursor-pointer'
+                      : 'cursor-pointer'
+                  }
+                >
+                  <TableCell className='font-medium'>
+                    {item.name}
+                    {item.type === 'drink' && (
+                      <Badge variant='secondary' className='ml-2'>
+                        drink
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{item.category?.name || '—'}</TableCell>
+                  <TableCell>{resolveItemStationType(item) || 'auto'}</TableCell>
+                  <TableCell>
+                    {item.price_cents !== null
+                      ? `$${(item.price_cents / 100).toFixed(2)}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell onClick={e => e.stopPropagation()}>
+                    <Switch
+                      checked={item.is_available}
+                      onCheckedChange={checked =>
+                        runMutation(
+                          () =>
+                            updateMenuItem(item.id, { is_available: checked }),
+                          'update item'
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell onClick={e => e.stopPropagation()}>
+                    <Button
+                      size='icon'
+                      variant='ghost'
+                      onClick={() => {
+                        if (item.id === selectedItemId) {
+                          setSelectedItemId(null)
+                        }
+                        runMutation(() => deleteMenuItem(item.id), 'delete item')
+                      }}
+                    >
+                      <Trash2 className='h-4 w-4' />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedItem && (
+        <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+          <CardHeader>
+            <CardTitle>{selectedItem.name}</CardTitle>
+            <CardDescription>
+              Dietary tags, services, modifiers, voice synonyms and
+              availability windows
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+            <div className='space-y-3 lg:col-span-2'>
+              <Label className='text-sm font-medium'>Contains allergens</Label>
+              <div className='flex flex-wrap gap-2'>
+                {ALLERGENS.map(allergen => (
+                  <Badge
+                    key={allergen}
+                    variant={
+                      selectedItem.allergens?.includes(allergen)
+                        ? 'destructive'
+                        : 'outline'
+                    }
+                    className='cursor-pointer'
+                    onClick={() => toggleTag('allergens', allergen)}
+                  >
+                    {allergen.replace('_', ' ')}
+                  </Badge>
+                ))}
+              </div>
+              <Label className='text-sm font-medium block'>Suitable for</Label>
+              <div className='flex flex-wrap gap-2'>
+                {DIET_TAGS.map(tag => (
+                  <Badge
+                    key={tag}
+                    variant={
+                      selectedItem.diet_tags?.includes(tag)
+                        ? 'default'
+                        : 'outline'
+                    }
+                    className='cursor-pointer'
+                    onClick={() => toggleTag('diet_tags', tag)}
+                  >
+                    {tag.replace('_', ' ')}
+                  </Badge>
+                ))}
+              </div>
+              {services.length > 0 && (
+                <>
+                  <Label className='text-sm font-medium block'>Served at</Label>
+                  <div className='flex flex-wrap items-center gap-2'>
+                    {services.map(service => (
+                      <Badge
+                        key={service.id}
+                        variant={
+                          selectedItem.services?.some(
+                            entry => entry.service_id === service.id
+                          )
+                            ? 'default'
+                            : 'outline'
+                        }
+                        className='cursor-pointer'
+                        title={formatServiceHours(service)}
+                        onClick={() => toggleService(service.id)}
+                      >
+                        {service.name}
+                      </Badge>
+                    ))}
+                    {(selectedItem.services || []).length === 0 && (
+                      <span className='text-xs text-gray-500'>
+                        Every service
+                      </span>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className='space-y-3'>
+              <Label className='text-sm font-medium'>Modifiers</Label>
+              <div className='flex gap-2'>
+                <Select
+                  value={newModifierKind}
+                  onValueChange={value =>
+                    setNewModifierKind(value as ModifierKind)
+                  }
+                >
+                  <SelectTrigger className='w-28 bg-gray-800/50 border-gray-700'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MODIFIER_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>
+                        {MODIFIER_KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={newModifierName}
+                  onChange={e => {
+                    setNewModifierName(e.target.value)
+                    // Typing "No onions" or "Medium rare" picks the kind
+                    const parsed = parseModifierPhrase(e.target.value)
+                    if (parsed) {
+                      setNewModifierKind(parsed.kind)
+                    }
+                  }}
+                  placeholder='e.g. No onions'
+                  className='bg-gray-800/50 border-gray-700'
+                />
+                <Button onClick={addModifier} variant='outline'>
+                  <Plus className='h-4 w-4' />
+                </Button>
+              </div>
+              <div className='flex flex-wrap gap-2'>
+                {(selectedItem.modifiers || []).map(modifier => (
+                  <Badge
+                    key={modifier.id}
+                    variant='outline'
+                    className='gap-1 pr-1'
+                  >
+                    <span className='text-gray-500'>
+                      {MODIFIER_KIND_LABELS[modifier.kind]}
+                    </span>
+                    {modifier.name}
+                    <button
+                      type='button'
+                      aria-label={`Remove ${modifier.name}`}
+                      onClick={() =>
+                        runMutation(
+                          () => deleteMenuModifier(modifier.id),
+                          'delete modifier'
+                        )
+                      }
+                    >
+                      <Trash2 className='h-3 w-3' />
+                    </button>
+                  </Badge>
+                ))}
+                {(selectedItem.modifiers || []).length === 0 && (
+                  <p className='text-xs text-gray-500'>No modifiers</p>
+                )}
+              </div>
+
+              <Label className='text-sm font-medium block pt-2'>
+                Voice synonyms
+              </Label>
+              <p className='text-xs text-gray-500'>
+                Other ways servers say this item, used to match voice orders
+              </p>
+              <div className='flex gap-2'>
+                <Input
+                  value={newSynonym}
+                  onChange={e => setNewSynonym(e.target.value)}
+                  placeholder='e.g. burger with cheese'
+                  className='bg-gray-800/50 border-gray-700'
+                />
+                <Button onClick={addSynonym} variant='outline'>
+                  <Plus className='h-4 w-4' />
+                </Button>
+              </div>
+              <div className='flex flex-wrap gap-2'>
+                {(selectedItem.synonyms || []).map(synonym => (
+                  <Badge
+                    key={synonym.id}
+                    variant='secondary'
+                    className='gap-1 pr-1'
+                  >
+                    {synonym.phrase}
+                    <button
+                      type='button'
+                      aria-label={`Remove ${synonym.phrase}`}
+                      onClick={() =>
+                        runMutation(
+                          () => deleteMenuItemSynonym(synonym.id),
+                          'delete synonym'
+                        )
+                      }
+                    >
+                      <Trash2 className='h-3 w-3' />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className='space-y-3'>
+              <div className='flex items-center justify-between'>
+                <Label className='text-sm font-medium'>
+                  <Clock className='inline h-4 w-4 mr-1' />
+                  Availability
+                </Label>
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  onClick={() =>
+                    setWindowDrafts(prev => [
+                      ...prev,
+                      { day_of_week: null, start_time: '07:00', end_time: '10:30' },
+                    ])
+                  }
+                >
+                  <Plus className='h-4 w-4' />
+                </Button>
+              </div>
+              {windowDrafts.length === 0 && (
+                <p className='text-xs text-gray-500'>
+                  No windows — available whenever the item is not 86&apos;d
+                </p>
+              )}
+              {windowDrafts.map((window, index) => (
+                <div key={index} className='flex items-center gap-2'>
+                  <Select
+                    value={
+                      window.day_of_week === null
+                        ? 'all'
+                        : String(window.day_of_week)
+                    }
+                    onValueChange={value =>
+                      updateWindowDraft(index, {
+                        day_of_week: value === 'all' ? null : Number(value),
+                      })
+                    }
+                  >
+                    <SelectTrigger className='w-28 bg-gray-800/50 border-gray-700'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value='all'>Every day</SelectItem>
+                      {DAYS.map((day, dayIndex) => (
+                        <SelectItem key={day} value={String(dayIndex)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type='time'
+                    value={window.start_time}
+                    onChange={e =>
+                      updateWindowDraft(index, { start_time: e.target.value })
+                    }
+                    className='bg-gray-800/50 border-gray-700'
+                  />
+                  <Input
+                    type='time'
+                    value={window.end_time}
+                    onChange={e =>
+                      updateWindowDraft(index, { end_time: e.target.value })
+                    }
+                    className='bg-gray-800/50 border-gray-700'
+                  />
+                  <Button
+                    size='icon'
+                    variant='ghost'
+                    onClick={() =>
+                      setWindowDrafts(prev => prev.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </Button>
+                </div>
+              ))}
+              <Button onClick={saveAvailability} className='w-full'>
+                Save availability
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { History, RefreshCw } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { OrderTimeline } from '@/components/order-timeline'
+import { type Order, getOrders } from '@/lib/modassembly/supabase/database/orders'
+import { cn } from '@/lib/utils'
+
+// Select values can't be empty strings
+const ALL = 'all'
+
+const STATUSES: Order['status'][] = [
+  'new',
+  'in_progress',
+  'ready',
+  'delivered',
+  'cancelled',
+]
+
+const RECENT_ORDER_LIMIT = 100
+
+/**
+ * Admin view of recent orders with the full audit trail of the one selected
+ */
+export function OrderAuditLog() {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [status, setStatus] = useState<string>(ALL)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setOrders(
+        await getOrders({
+          status: status === ALL ? undefined : (status as Order['status']),
+          limit: RECENT_ORDER_LIMIT,
+        })
+      )
+    } catch (error) {
+      console.error('Error loading orders:', error)
+      toast({
+        title: 'Error loading orders',
+        description: 'Could not load recent orders',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, toast])
+
+  useEffect(() => {
+    loadOrders()
+  }, [loadOrders])
+
+  const selected = orders.find(order => order.id === selectedId)
+
+  return (
+    <div className='grid grid-cols-1 lg:grid-cols-5 gap-6'>
+      <Card className='lg:col-span-3'>
+        <CardHeader className='flex flex-row items-start justify-between space-y-0'>
+          <div>
+            <CardTitle>Recent orders</CardTitle>
+            <CardDescription>
+              Select an order to see who changed it, from where and why
+            </CardDescription>
+          </div>
+          <div className='flex gap-2'>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className='w-36'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {STATUSES.map(value => (
+                  <SelectItem key={value} value={value}>
+                    {value.replace('_', ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant='outline'
+              size='icon'
+              onClick={loadOrders}
+              disabled={isLoading}
+            >
+              <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Placed</TableHead>
+                <TableHead>Table</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map(order => (
+                <TableRow
+                  key={order.id}
+                  onClick={() => setSelectedId(order.id)}
+                  className={cn(
+                    'cursor-pointer',
+                    order.id === selectedId && 'bg-muted'
+                  )}
+                >
+                  <TableCell className='whitespace-nowrap'>
+                    {new Date(order.created_at).toLocaleString([], {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </TableCell>
+                  <TableCell className='whitespace-nowrap'>
+                    {order.table} · Seat {order.seat}
+                  </TableCell>
+                  <TableCell className='max-w-xs truncate'>
+                    {order.items.join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant='outline'>{order.status.replace('_', ' ')}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!isLoading && orders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className='text-center text-muted-foreground'>
+                    No orders found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className='lg:col-span-2'>
+        <CardHeader>
+          <CardTitle className='flex items-center gap-2'>
+            <History className='h-5 w-5' />
+            Order history
+          </CardTitle>
+          {selected && (
+            <CardDescription>
+              {selected.table} · Seat {selected.seat} · {selected.items.join(', ')}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {selected ? (
+            <OrderTimeline key={selected.id} orderId={selected.id} className='ml-2' />
+          ) : (
+            <p className='text-sm text-muted-foreground'>No order selected</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  MODIFIER_KINDS,
+  MODIFIER_KIND_LABELS,
+  TEMPERATURE_OPTIONS,
+  formatModifier,
+} from '@/lib/order-modifiers'
+import { FLUID_THICKNESSES, FLUID_THICKNESS_LABELS } from '@/lib/iddsi'
+import type {
+  MenuModifier,
+  ModifierKind,
+  OrderItemModifier,
+} from '@/types/database'
+
+interface OrderLineModifierEditorProps {
+  modifiers: OrderItemModifier[]
+  notes: string | null
+  // Modifiers the admin set up for this item, offered as one-tap chips
+  catalogModifiers: MenuModifier[]
+  onChange: (_modifiers: OrderItemModifier[], _notes: string | null) => void
+}
+
+/**
+ * Manual entry for a line's modifiers (add / no / sub / temperature /
+ * thickness) and special instructions, used to correct or extend what
+ * voice picked up
+ */
+export function OrderLineModifierEditor({
+  modifiers,
+  notes,
+  catalogModifiers,
+  onChange,
+}: OrderLineModifierEditorProps) {
+  const [kind, setKind] = useState<ModifierKind>('remove')
+  const [name, setName] = useState('')
+  const [replaces, setReplaces] = useState('')
+  const [noteText, setNoteText] = useState(notes || '')
+
+  const selectedCatalogIds = new Set(
+    modifiers.map(modifier => modifier.modifier_id).filter(Boolean)
+  )
+
+  // A line has one cooking temperature and one thickness; picking another
+  // replaces it
+  const addModifier = (modifier: OrderItemModifier) => {
+    const kept =
+      modifier.kind === 'temperature' || modifier.kind === 'thickness'
+        ? modifiers.filter(existing => existing.kind !== modifier.kind)
+        : modifiers
+    onChange([...kept, modifier], noteText)
+  }
+
+  const toggleCatalogModifier = (catalog: MenuModifier) => {
+    if (selectedCatalogIds.has(catalog.id)) {
+      onChange(
+        modifiers.filter(modifier => modifier.modifier_id !== catalog.id),
+        noteText
+      )
+      return
+    }
+    addModifier({ modifier_id: catalog.id, name: catalog.name, kind: catalog.kind })
+  }
+
+  const addCustomModifier = () => {
+    if (!name.trim() || (kind === 'substitute' && !replaces.trim())) {
+      return
+    }
+    addModifier({
+      modifier_id: null,
+      name: name.trim(),
+      kind,
+      ...(kind === 'substitute' ? { replaces: replaces.trim() } : {}),
+    })
+    setName('')
+    setReplaces('')
+  }
+
+  return (
+    <div className='space-y-3 text-left'>
+      {modifiers.length > 0 && (
+        <div className='flex flex-wrap gap-1'>
+          {modifiers.map((modifier, index) => (
+            <span
+              key={`${modifier.kind}-${modifier.name}-${index}`}
+              className='inline-flex items-center gap-1 rounded bg-muted px-2 py-1 text-xs font-semibold'
+            >
+              {formatModifier(modifier)}
+              <button
+                type='button'
+                aria-label={`Remove ${formatModifier(modifier)}`}
+                onClick={() =>
+                  onChange(
+                    modifiers.filter((_, i) => i !== index),
+                    noteText
+                  )
+                }
+              >
+                <X className='h-3 w-3' />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {catalogModifiers.length > 0 && (
+        <div className='flex flex-wrap gap-1'>
+          {catalogModifiers.map(catalog => (
+            <Button
+              key={catalog.id}
+              type='button'
+              size='sm'
+              variant={selectedCatalogIds.has(catalog.id) ? 'default' : 'outline'}
+              className='min-h-[36px]'
+              onClick={() => toggleCatalogModifier(catalog)}
+            >
+              {catalog.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className='flex flex-wrap items-center gap-2'>
+        <Select
+          value={kind}
+          onValueChange={value => {
+            setKind(value as ModifierKind)
+            setName('')
+          }}
+        >
+          <SelectTrigger className='w-24'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODIFIER_KINDS.map(option => (
+              <SelectItem key={option} value={option}>
+                {MODIFIER_KIND_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {kind === 'temperature' ? (
+          <Select value={name} onValueChange={setName}>
+            <SelectTrigger className='flex-1 min-w-[140px]'>
+              <SelectValue placeholder='Temperature' />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPERATURE_OPTIONS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : kind === 'thickness' ? (
+          <Select value={name} onValueChange={setName}>
+            <SelectTrigger className='flex-1 min-w-[140px]'>
+              <SelectValue placeholder='Thickness' />
+            </SelectTrigger>
+            <SelectContent>
+              {FLUID_THICKNESSES.filter(option => option !== 'thin').map(
+                option => (
+                  <SelectItem key={option} value={FLUID_THICKNESS_LABELS[option]}>
+                    {FLUID_THICKNESS_LABELS[option]}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={kind === 'substitute' ? 'Serve' : 'Ingredient'}
+            className='flex-1 min-w-[120px]'
+          />
+        )}
+        {kind === 'substitute' && (
+          <Input
+            value={replaces}
+            onChange={e => setReplaces(e.target.value)}
+            placeholder='Instead of'
+            className='flex-1 min-w-[120px]'
+          />
+        )}
+        <Button
+          type='button'
+          size='sm'
+          variant='outline'
+          onClick={addCustomModifier}
+          aria-label='Add modifier'
+        >
+          <Plus className='h-4 w-4' />
+        </Button>
+      </div>
+
+      <Input
+        value={noteText}
+        onChange={e => setNoteText(e.target.value)}
+        onBlur={() => onChange(modifiers, noteText)}
+        placeholder='Special instructions'
+      />
+    </div>
+  )
+}
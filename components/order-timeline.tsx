@@ -0,0 +1,129 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Monitor, RefreshCw, User } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { LoadingSpinner } from '@/components/loading-states'
+import { cn } from '@/lib/utils'
+import {
+  type OrderEvent,
+  describeOrderEvent,
+  fetchOrderEvents,
+} from '@/lib/modassembly/supabase/database/order-events'
+import type { OrderEventType } from '@/types/database'
+
+const EVENT_DOT_COLORS: Partial<Record<OrderEventType, string>> = {
+  created: 'bg-blue-500',
+  bumped: 'bg-green-500',
+  recalled: 'bg-amber-500',
+  held: 'bg-purple-500',
+  fired: 'bg-purple-500',
+  deleted: 'bg-red-500',
+}
+
+interface OrderTimelineProps {
+  orderId: string
+  className?: string
+}
+
+/**
+ * Audit trail of an order: every status change and station action with
+ * who made it, from which device and why
+ */
+export function OrderTimeline({ orderId, className }: OrderTimelineProps) {
+  const [events, setEvents] = useState<OrderEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setEvents(await fetchOrderEvents(orderId))
+    } catch (err) {
+      console.error('Error loading order events:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }, [orderId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center p-6'>
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className='flex items-center justify-between gap-2 p-4 text-sm text-red-500'>
+        {error}
+        <Button size='sm' variant='outline' onClick={load}>
+          <RefreshCw className='mr-1 h-3 w-3' />
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className='p-4 text-sm text-muted-foreground'>
+        No history recorded for this order
+      </p>
+    )
+  }
+
+  return (
+    <ol className={cn('relative space-y-4 border-l border-border pl-5', className)}>
+      {events.map(event => (
+        <li key={event.id} className='relative'>
+          <span
+            className={cn(
+              'absolute -left-[27px] top-1.5 h-3 w-3 rounded-full border-2 border-background',
+              EVENT_DOT_COLORS[event.event_type] || 'bg-gray-400'
+            )}
+          />
+          <div className='flex items-baseline justify-between gap-2'>
+            <span className='font-medium text-sm'>{describeOrderEvent(event)}</span>
+            <time
+              className='shrink-0 text-xs text-muted-foreground'
+              dateTime={event.created_at}
+            >
+              {new Date(event.created_at).toLocaleString([], {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit',
+                second: '2-digit',
+              })}
+            </time>
+          </div>
+          <div className='mt-1 flex flex-wrap gap-x-3 text-xs text-muted-foreground'>
+            <span className='flex items-center gap-1'>
+              <User className='h-3 w-3' />
+              {event.actor_name || (event.actor_id ? 'Unknown user' : 'System')}
+            </span>
+            {event.device_id && (
+              <span className='flex items-center gap-1' title={event.device_id}>
+                <Monitor className='h-3 w-3' />
+                Device {event.device_id.slice(0, 8)}
+              </span>
+            )}
+          </div>
+          {event.reason && (
+            <p className='mt-1 text-xs italic text-muted-foreground'>
+              “{event.reason}”
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
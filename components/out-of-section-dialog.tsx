@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2, MapPin } from 'lucide-react'
+import type { OutOfSectionError } from '@/lib/modassembly/supabase/database/server-sections'
+
+type OutOfSectionDialogProps = {
+  conflict: Pick<OutOfSectionError, 'owner'> | null
+  tableLabel?: string
+  onSendAnyway: () => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Shown when createOrder finds the table in another server's section. The
+ * order still counts for that server if sent anyway.
+ */
+export function OutOfSectionDialog({
+  conflict,
+  tableLabel,
+  onSendAnyway,
+  onCancel,
+}: OutOfSectionDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSendAnyway = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSendAnyway()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const table = tableLabel ? `Table ${tableLabel}` : 'This table'
+  const owner = conflict?.owner.name ?? 'another server'
+
+  return (
+    <AlertDialog open={!!conflict}>
+      <AlertDialogContent className='bg-gray-900 border-amber-600 text-white'>
+        <AlertDialogHeader>
+          <AlertDialogTitle className='flex items-center gap-2 text-amber-400'>
+            <MapPin className='h-5 w-5' />
+            Not your section
+          </AlertDialogTitle>
+          <AlertDialogDescription className='text-gray-300'>
+            {`${table} is in ${owner}'s section this shift.`} Let them know,
+            or ask for the table to be transferred to you.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+
+        <AlertDialogFooter>
+          <Button variant='outline' onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSendAnyway} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Send anyway
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Clock, Loader2 } from 'lucide-react'
+import type { OutOfServiceError } from '@/lib/modassembly/supabase/database/meal-services'
+
+type OutOfServiceDialogProps = {
+  conflict: Pick<OutOfServiceError, 'itemNames' | 'service' | 'blocking'> | null
+  onSendAnyway: () => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Shown when createOrder refuses items that are not on the current service's
+ * menu. Services with a warn policy let the server send anyway.
+ */
+export function OutOfServiceDialog({
+  conflict,
+  onSendAnyway,
+  onCancel,
+}: OutOfServiceDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSendAnyway = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSendAnyway()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={!!conflict}>
+      <AlertDialogContent className='bg-gray-900 border-amber-600 text-white'>
+        <AlertDialogHeader>
+          <AlertDialogTitle className='flex items-center gap-2 text-amber-400'>
+            <Clock className='h-5 w-5' />
+            {conflict?.service
+              ? `Not on the ${conflict.service.name} menu`
+              : 'Kitchen is between services'}
+          </AlertDialogTitle>
+          <AlertDialogDescription className='text-gray-300'>
+            {conflict?.blocking
+              ? 'These items cannot be ordered during this service.'
+              : 'These items are not normally served now. Check with the kitchen before sending.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className='space-y-2'>
+          {conflict?.itemNames.map(name => (
+            <li
+              key={name}
+              className='rounded-md border border-amber-500 bg-amber-950/40 p-2 text-sm font-semibold'
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+
+        <AlertDialogFooter>
+          <Button variant='outline' onClick={onCancel} disabled={isSubmitting}>
+            Change order
+          </Button>
+          {!conflict?.blocking && (
+            <Button onClick={handleSendAnyway} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+              Send anyway
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { useOutbox } from '@/hooks/use-outbox'
+import { type OrderOutboxEntry, getOrderOutbox } from '@/lib/offline'
+
+type PendingOrdersBadgeProps = {
+  // Resubmit a refused order so its dialog (dietary, service, thickness) opens
+  onReview: (_entry: OrderOutboxEntry) => Promise<void>
+}
+
+/**
+ * Orders taken on this device that haven't reached the kitchen yet: waiting
+ * for the connection, or refused by the server when they were replayed
+ */
+export function PendingOrdersBadge({ onReview }: PendingOrdersBadgeProps) {
+  const { entries, pending, conflicts, sync, retry, discard } = useOutbox(
+    getOrderOutbox()
+  )
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Pending order action failed:', error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type='button'>
+          <Badge
+            variant='outline'
+            className={
+              conflicts.length > 0
+                ? 'border-red-600 bg-red-900/40 text-red-200'
+                : 'border-amber-600 bg-amber-900/40 text-amber-200'
+            }
+          >
+            {conflicts.length > 0 ? (
+              <AlertTriangle className='mr-1 h-3 w-3' />
+            ) : (
+              <CloudOff className='mr-1 h-3 w-3' />
+            )}
+            {pending.length > 0 && `${pending.length} pending sync`}
+            {pending.length > 0 && conflicts.length > 0 && ' · '}
+            {conflicts.length > 0 && `${conflicts.length} need review`}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className='w-96 bg-gray-900 border-gray-700 text-white'>
+        <div className='mb-3 flex items-center justify-between'>
+          <h3 className='font-semibold'>Orders not yet sent</h3>
+          <Button
+            size='sm'
+            variant='outline'
+            className='border-gray-600 text-gray-300 hover:bg-gray-800'
+            onClick={() => sync()}
+          >
+            <RefreshCw className='mr-1 h-3 w-3' />
+            Sync now
+          </Button>
+        </div>
+        <ul className='max-h-80 space-y-2 overflow-auto'>
+          {entries.map(entry => (
+            <li
+              key={entry.id}
+              className={`rounded-md border p-2 text-sm ${
+                entry.status === 'conflict'
+                  ? 'border-red-700 bg-red-950/40'
+                  : 'border-gray-700 bg-gray-800/50'
+              }`}
+            >
+              <div className='font-medium'>{entry.label}</div>
+              <div className='text-xs text-gray-400'>
+                Taken {new Date(entry.created_at).toLocaleTimeString()}
+                {entry.attempts > 0 && ` · ${entry.attempts} attempts`}
+              </div>
+              {entry.last_error && (
+                <div
+                  className={`mt-1 text-xs ${
+                    entry.status === 'conflict' ? 'text-red-300' : 'text-gray-400'
+                  }`}
+                >
+                  {entry.last_error}
+                </div>
+              )}
+              <div className='mt-2 flex justify-end gap-2'>
+                {busyId === entry.id && (
+                  <Loader2 className='h-4 w-4 animate-spin self-center' />
+                )}
+                {entry.status === 'conflict' ? (
+                  <Button
+                    size='sm'
+                    disabled={busyId === entry.id}
+                    onClick={() => run(entry.id, () => onReview(entry))}
+                  >
+                    Review
+                  </Button>
+                ) : (
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    className='border-gray-600 text-gray-300 hover:bg-gray-800'
+                    disabled={busyId === entry.id}
+                    onClick={() => run(entry.id, async () => {
+                      await retry(entry.id)
+                    })}
+                  >
+                    Retry
+                  </Button>
+                )}
+                <Button
+                  size='sm'
+                  variant='ghost'
+                  className='text-red-300 hover:bg-red-950'
+                  disabled={busyId === entry.id}
+                  onClick={() => run(entry.id, () => discard(entry.id))}
+                >
+                  <Trash2 className='h-3 w-3' />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import {
   Card,
   CardContent,
@@ -8,205 +8,507 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
 import { Button } from '@/components/ui/button'
-import { AlertCircle, Check, Info, Printer } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Plus,
+  Printer,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Trash2,
+} from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getClientUser } from '@/lib/modassembly/supabase/auth/session'
+import { fetchKDSStations } from '@/lib/modassembly/supabase/database/kds/core'
+import {
+  type PrintJobWithDetails,
+  assignStationPrinter,
+  createPrinter,
+  deletePrinter,
+  fetchPrinters,
+  fetchRecentPrintJobs,
+  retryPrintJob,
+  updatePrinter,
+} from '@/lib/modassembly/supabase/database/printing'
 import {
-  getPrinterStatus,
+  processPrintQueue,
+  reprintStationTicket,
   testPrinterConnection,
-  updatePrinterConfig,
 } from '@/services/printer-service'
+import type { KDSPrinter, KDSStation, PrintJobStatus } from '@/types/database'
+
+// Font A columns for common paper widths
+const LINE_WIDTHS = [
+  { value: 32, label: '58mm (32)' },
+  { value: 42, label: '80mm (42)' },
+  { value: 48, label: '80mm condensed (48)' },
+]
+
+const NO_PRINTER = 'none'
+
+const STATUS_STYLES: Record<PrintJobStatus, string> = {
+  pending: 'bg-blue-600',
+  printing: 'bg-yellow-600',
+  printed: 'bg-green-600',
+  failed: 'bg-red-600',
+}
 
 export function PrinterSettings() {
-  const [printerIP, setPrinterIP] = useState('192.168.1.100')
-  const [printFoodOrders, setPrintFoodOrders] = useState(false)
-  const [printDrinkOrders, setPrintDrinkOrders] = useState(false)
-  const [isTestingPrinter, setIsTestingPrinter] = useState(false)
-  const [printerConnected, setPrinterConnected] = useState(false)
+  const [printers, setPrinters] = useState<KDSPrinter[]>([])
+  const [stations, setStations] = useState<KDSStation[]>([])
+  const [jobs, setJobs] = useState<PrintJobWithDetails[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [testingPrinterId, setTestingPrinterId] = useState<string | null>(null)
+
+  const [newName, setNewName] = useState('')
+  const [newHost, setNewHost] = useState('')
+  const [newPort, setNewPort] = useState('9100')
+  const [newWidth, setNewWidth] = useState('42')
   const { toast } = useToast()
 
-  // Load saved settings
-  useEffect(() => {
+  const loadSettings = useCallback(async () => {
     try {
-      const savedSettings = localStorage.getItem('printerSettings')
-      if (savedSettings) {
-        const settings = JSON.parse(savedSettings)
-        setPrinterIP(settings.printerIP || '192.168.1.100')
-        setPrintFoodOrders(settings.printFoodOrders || false)
-        setPrintDrinkOrders(settings.printDrinkOrders || false)
-      }
-
-      // Check initial printer status
-      setPrinterConnected(getPrinterStatus())
+      const [printerData, stationData, jobData] = await Promise.all([
+        fetchPrinters(),
+        fetchKDSStations(),
+        fetchRecentPrintJobs(),
+      ])
+      setPrinters(printerData)
+      setStations(stationData)
+      setJobs(jobData)
     } catch (error) {
       console.error('Error loading printer settings:', error)
-    }
-  }, [])
-
-  // Save settings
-  const saveSettings = () => {
-    try {
-      const settings = {
-        printerIP,
-        printFoodOrders,
-        printDrinkOrders,
-      }
-      localStorage.setItem('printerSettings', JSON.stringify(settings))
-
-      // Update printer config with new IP
-      updatePrinterConfig({
-        ipAddress: printerIP,
-      })
-
       toast({
-        title: 'Settings saved',
-        description: 'Printer settings have been updated',
+        title: 'Error loading printers',
+        description: 'Could not load kitchen printer settings',
+        variant: 'destructive',
         duration: 3000,
       })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadSettings()
     } catch (error) {
-      console.error('Error saving printer settings:', error)
+      console.error(`Error ${label}:`, error)
       toast({
-        title: 'Error saving settings',
-        description: 'There was a problem saving your printer settings',
+        title: 'Printer update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
         variant: 'destructive',
         duration: 3000,
       })
     }
   }
 
-  // Test printer connection
-  const testPrinter = async () => {
-    setIsTestingPrinter(true)
+  const addPrinter = () => {
+    const port = parseInt(newPort, 10)
+    if (!newName.trim() || !newHost.trim()) {
+      return
+    }
 
-    try {
-      // Update printer config with current IP
-      await updatePrinterConfig({
-        ipAddress: printerIP,
-      })
+    runMutation(
+      () =>
+        createPrinter({
+          name: newName,
+          host: newHost,
+          port: Number.isFinite(port) ? port : 9100,
+          chars_per_line: parseInt(newWidth, 10),
+        }),
+      'add printer'
+    )
+    setNewName('')
+    setNewHost('')
+    setNewPort('9100')
+  }
 
-      const result = await testPrinterConnection()
-      setPrinterConnected(result)
+  const testPrinter = async (printer: KDSPrinter) => {
+    setTestingPrinterId(printer.id)
+    try {
+      const user = await getClientUser()
+      const result = await testPrinterConnection(printer.id, user?.id)
 
-      if (result) {
+      if (result.success) {
         toast({
           title: 'Printer connected',
-          description: 'Test page printed successfully',
+          description: `Test page sent to ${printer.name}`,
           duration: 3000,
         })
       } else {
         toast({
           title: 'Printer connection failed',
           description:
-            'Could not connect to the printer. Please check the IP address and ensure the printer is online.',
+            result.error ||
+            'Could not reach the printer. Check its address and that it is online.',
           variant: 'destructive',
           duration: 5000,
         })
       }
     } catch (error) {
       console.error('Error testing printer:', error)
-      setPrinterConnected(false)
       toast({
         title: 'Printer test failed',
-        description: 'An error occurred while testing the printer connection',
+        description:
+          error instanceof Error ? error.message : 'Could not test the printer',
         variant: 'destructive',
         duration: 3000,
       })
     } finally {
-      setIsTestingPrinter(false)
+      setTestingPrinterId(null)
+      await loadSettings()
     }
   }
 
+  const reprintJob = async (job: PrintJobWithDetails) => {
+    const user = await getClientUser()
+    runMutation(
+      () => reprintStationTicket(job.routing_id!, user?.id),
+      'reprint ticket'
+    )
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading printer settings...</div>
+  }
+
   return (
-    <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
-      <CardHeader>
-        <div className='flex items-center gap-2'>
-          <Printer className='h-5 w-5 text-gray-400' />
-          <CardTitle>Kitchen Printer Settings</CardTitle>
-        </div>
-        <CardDescription>
-          Configure your Epson Star SP 700 printer
-        </CardDescription>
-      </CardHeader>
-      <CardContent className='space-y-6'>
-        <div className='space-y-2'>
-          <Label htmlFor='printer-ip'>Printer IP Address</Label>
-          <div className='flex gap-2'>
+    <div className='space-y-6'>
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <div className='flex items-center gap-2'>
+            <Printer className='h-5 w-5 text-gray-400' />
+            <CardTitle>Kitchen Printers</CardTitle>
+          </div>
+          <CardDescription>
+            Network ESC/POS printers (Epson TM, Star SP700 in ESC/POS mode).
+            Printers must be reachable from the server, usually on port 9100.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-5 gap-2'>
+            <Input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder='Name, e.g. Grill printer'
+              className='bg-gray-800/50 border-gray-700'
+            />
             <Input
-              id='printer-ip'
-              value={printerIP}
-              onChange={e => setPrinterIP(e.target.value)}
+              value={newHost}
+              onChange={e => setNewHost(e.target.value)}
               placeholder='192.168.1.100'
               className='bg-gray-800/50 border-gray-700'
             />
-            <Button
-              onClick={testPrinter}
-              disabled={isTestingPrinter}
-              variant='outline'
-              className='gap-2'
-            >
-              {isTestingPrinter ? (
-                <>Testing...</>
-              ) : (
-                <>
-                  {printerConnected ? (
-                    <Check className='h-4 w-4 text-green-500' />
-                  ) : (
-                    <AlertCircle className='h-4 w-4' />
-                  )}
-                  Test
-                </>
-              )}
+            <Input
+              value={newPort}
+              onChange={e => setNewPort(e.target.value)}
+              placeholder='9100'
+              inputMode='numeric'
+              className='bg-gray-800/50 border-gray-700'
+            />
+            <Select value={newWidth} onValueChange={setNewWidth}>
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINE_WIDTHS.map(width => (
+                  <SelectItem key={width.value} value={String(width.value)}>
+                    {width.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addPrinter} variant='outline' className='gap-2'>
+              <Plus className='h-4 w-4' />
+              Add printer
             </Button>
           </div>
-          <p className='text-xs text-gray-500 mt-1'>
-            Enter the IP address of your Epson Star SP 700 printer
-          </p>
-        </div>
 
-        <div className='space-y-4 pt-2'>
-          <div className='flex items-center justify-between'>
-            <div>
-              <Label htmlFor='print-food' className='text-sm font-medium'>
-                Print Food Orders
-              </Label>
-              <p className='text-xs text-gray-500 mt-1'>
-                Automatically print food orders to the kitchen printer
-              </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Printer</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Paper</TableHead>
+                <TableHead>Auto-print</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className='w-32' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {printers.map(printer => (
+                <TableRow key={printer.id}>
+                  <TableCell className='font-medium'>{printer.name}</TableCell>
+                  <TableCell className='font-mono text-xs'>
+                    {printer.host}:{printer.port}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={String(printer.chars_per_line)}
+                      onValueChange={value =>
+                        runMutation(
+                          () =>
+                            updatePrinter(printer.id, {
+                              chars_per_line: parseInt(value, 10),
+                            }),
+                          'update paper width'
+                        )
+                      }
+                    >
+                      <SelectTrigger className='h-8 w-44 bg-gray-800/50 border-gray-700'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LINE_WIDTHS.map(width => (
+                          <SelectItem
+                            key={width.value}
+                            value={String(width.value)}
+                          >
+                            {width.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={printer.auto_print}
+                      onCheckedChange={checked =>
+                        runMutation(
+                          () =>
+                            updatePrinter(printer.id, { auto_print: checked }),
+                          'update auto-print'
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={printer.is_active}
+                      onCheckedChange={checked =>
+                        runMutation(
+                          () =>
+                            updatePrinter(printer.id, { is_active: checked }),
+                          'update printer'
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className='flex gap-1'>
+                      <Button
+                        size='sm'
+                        variant='outline'
+                        onClick={() => testPrinter(printer)}
+                        disabled={testingPrinterId === printer.id}
+                      >
+                        {testingPrinterId === printer.id ? 'Testing...' : 'Test'}
+                      </Button>
+                      <Button
+                        size='sm'
+                        variant='ghost'
+                        onClick={() =>
+                          runMutation(
+                            () => deletePrinter(printer.id),
+                            'delete printer'
+                          )
+                        }
+                      >
+                        <Trash2 className='h-4 w-4' />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {printers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className='text-center text-gray-500'>
+                    No printers yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <CardTitle>Station Printers</CardTitle>
+          <CardDescription>
+            Tickets for a station print on its printer as soon as they reach
+            the KDS, or when their course is fired.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='grid grid-cols-1 md:grid-cols-2 gap-3'>
+          {stations.map(station => (
+            <div
+              key={station.id}
+              className='flex items-center justify-between gap-3'
+            >
+              <Label className='text-sm'>{station.name}</Label>
+              <Select
+                value={station.printer_id || NO_PRINTER}
+                onValueChange={value =>
+                  runMutation(
+                    () =>
+                      assignStationPrinter(
+                        station.id,
+                        value === NO_PRINTER ? null : value
+                      ),
+                    'assign station printer'
+                  )
+                }
+              >
+                <SelectTrigger className='w-48 bg-gray-800/50 border-gray-700'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRINTER}>No printer</SelectItem>
+                  {printers.map(printer => (
+                    <SelectItem key={printer.id} value={printer.id}>
+                      {printer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <Switch
-              id='print-food'
-              checked={printFoodOrders}
-              onCheckedChange={setPrintFoodOrders}
-            />
-          </div>
+          ))}
+        </CardContent>
+      </Card>
 
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
           <div className='flex items-center justify-between'>
-            <div>
-              <Label htmlFor='print-drink' className='text-sm font-medium'>
-                Print Drink Orders
-              </Label>
-              <p className='text-xs text-gray-500 mt-1'>
-                Automatically print drink orders to the kitchen printer
-              </p>
+            <CardTitle>Print Queue</CardTitle>
+            <div className='flex gap-2'>
+              <Button
+                size='sm'
+                variant='outline'
+                className='gap-2'
+                onClick={() =>
+                  runMutation(() => processPrintQueue(), 'process print queue')
+                }
+              >
+                <Send className='h-4 w-4' />
+                Print now
+              </Button>
+              <Button
+                size='sm'
+                variant='ghost'
+                onClick={() => loadSettings()}
+              >
+                <RefreshCw className='h-4 w-4' />
+              </Button>
             </div>
-            <Switch
-              id='print-drink'
-              checked={printDrinkOrders}
-              onCheckedChange={setPrintDrinkOrders}
-            />
           </div>
-        </div>
-
-        <Button
-          onClick={saveSettings}
-          className='w-full mt-4 bg-blue-600 hover:bg-blue-700'
-        >
-          Save Printer Settings
-        </Button>
-      </CardContent>
-    </Card>
+          <CardDescription>
+            Failed tickets are retried with increasing delays before they are
+            marked failed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Printer</TableHead>
+                <TableHead>Kind</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className='w-24' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell className='text-xs'>
+                    {new Date(job.created_at).toLocaleTimeString()}
+                  </TableCell>
+                  <TableCell>{job.printer?.name || 'Deleted printer'}</TableCell>
+                  <TableCell className='capitalize'>{job.kind}</TableCell>
+                  <TableCell>
+                    <Badge className={cn('text-xs', STATUS_STYLES[job.status])}>
+                      {job.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {job.attempts}/{job.max_attempts}
+                  </TableCell>
+                  <TableCell className='max-w-xs truncate text-xs text-red-400'>
+                    {job.last_error}
+                  </TableCell>
+                  <TableCell>
+                    <div className='flex gap-1'>
+                      {job.status === 'failed' && (
+                        <Button
+                          size='sm'
+                          variant='ghost'
+                          title='Retry'
+                          onClick={() =>
+                            runMutation(
+                              () => retryPrintJob(job.id),
+                              'retry print job'
+                            )
+                          }
+                        >
+                          <RotateCcw className='h-4 w-4' />
+                        </Button>
+                      )}
+                      {job.routing_id && (
+                        <Button
+                          size='sm'
+                          variant='ghost'
+                          title='Reprint'
+                          onClick={() => reprintJob(job)}
+                        >
+                          <Printer className='h-4 w-4' />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {jobs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className='text-center text-gray-500'>
+                    Nothing printed yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
   )
 }
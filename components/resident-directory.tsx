@@ -0,0 +1,422 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import { Download, Upload, User, Users } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { getClientUser } from '@/lib/modassembly/supabase/auth/session'
+import { fetchTables } from '@/lib/modassembly/supabase/database/tables'
+import {
+  FLUID_THICKNESSES,
+  TEXTURE_DIETS,
+  formatTextureLevel,
+  formatThicknessLevel,
+} from '@/lib/iddsi'
+import {
+  type ResidentDirectoryEntry,
+  exportResidentDirectoryCsv,
+  fetchResidentDirectory,
+  importResidentDirectory,
+  parseResidentDirectoryCsv,
+  saveResidentDetails,
+  uploadResidentPhoto,
+} from '@/lib/modassembly/supabase/database/residents'
+import type { Table as FloorTable } from '@/lib/floor-plan-utils'
+import type {
+  FluidThickness,
+  ResidentDetailsUpdate,
+  TextureDiet,
+} from '@/types/database'
+
+// Select values can't be empty strings
+const NONE = 'none'
+
+export function ResidentDirectory() {
+  const [residents, setResidents] = useState<ResidentDirectoryEntry[]>([])
+  const [tables, setTables] = useState<FloorTable[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const importInput = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const loadDirectory = useCallback(async () => {
+    try {
+      const [directory, floorTables] = await Promise.all([
+        fetchResidentDirectory(),
+        fetchTables(),
+      ])
+      setResidents(directory)
+      setTables(floorTables)
+    } catch (error) {
+      console.error('Error loading resident directory:', error)
+      toast({
+        title: 'Error loading residents',
+        description: 'Could not load the resident directory',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadDirectory()
+  }, [loadDirectory])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadDirectory()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Resident update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const updateDetails = (
+    resident: ResidentDirectoryEntry,
+    details: Omit<ResidentDetailsUpdate, 'user_id'>
+  ) =>
+    runMutation(async () => {
+      const user = await getClientUser()
+      await saveResidentDetails(resident.id, {
+        ...details,
+        updated_by: user?.id ?? null,
+      })
+    }, 'update resident')
+
+  const updateText = (
+    resident: ResidentDirectoryEntry,
+    field: 'room_number' | 'assistance_notes',
+    value: string
+  ) => {
+    const next = value.trim() || null
+    if (next === (resident.details?.[field] ?? null)) {
+      return
+    }
+    updateDetails(resident, { [field]: next })
+  }
+
+  const updateSeat = (resident: ResidentDirectoryEntry, value: string) => {
+    const seat = value ? Number(value) : null
+    if (
+      seat === (resident.details?.preferred_seat ?? null) ||
+      (seat !== null && (!Number.isInteger(seat) || seat < 1))
+    ) {
+      return
+    }
+    updateDetails(resident, { preferred_seat: seat })
+  }
+
+  const uploadPhoto = (resident: ResidentDirectoryEntry, file?: File) => {
+    if (!file) {
+      return
+    }
+    runMutation(async () => {
+      const user = await getClientUser()
+      await uploadResidentPhoto(resident.id, file, user?.id ?? null)
+    }, 'upload photo')
+  }
+
+  const exportCsv = () => {
+    const csv = exportResidentDirectoryCsv(residents, tables)
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `residents-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importCsv = async (file?: File) => {
+    if (!file) {
+      return
+    }
+    const { rows, errors } = parseResidentDirectoryCsv(
+      await file.text(),
+      residents,
+      tables
+    )
+
+    await runMutation(async () => {
+      const user = await getClientUser()
+      const imported = await importResidentDirectory(rows, user?.id ?? null)
+      toast({
+        title: `Imported ${imported} resident${imported === 1 ? '' : 's'}`,
+        description:
+          errors.length > 0
+            ? errors
+                .slice(0, 3)
+                .map(error => `Line ${error.line}: ${error.reason}`)
+                .join('; ') +
+              (errors.length > 3 ? ` (+${errors.length - 3} more)` : '')
+            : undefined,
+        variant: errors.length > 0 ? 'destructive' : 'default',
+        duration: 5000,
+      })
+    }, 'import residents')
+
+    if (importInput.current) {
+      importInput.current.value = ''
+    }
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading residents...</div>
+  }
+
+  const query = search.trim().toLowerCase()
+  const visibleResidents = residents.filter(
+    resident =>
+      !query ||
+      resident.name.toLowerCase().includes(query) ||
+      resident.details?.room_number?.toLowerCase().includes(query)
+  )
+
+  return (
+    <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+      <CardHeader>
+        <div className='flex items-center gap-2'>
+          <Users className='h-5 w-5 text-gray-400' />
+          <CardTitle>Resident Directory</CardTitle>
+          <div className='ml-auto flex gap-2'>
+            <input
+              ref={importInput}
+              type='file'
+              accept='.csv,text/csv'
+              className='hidden'
+              onChange={e => importCsv(e.target.files?.[0])}
+            />
+            <Button
+              variant='outline'
+              size='sm'
+              className='gap-2'
+              onClick={() => importInput.current?.click()}
+            >
+              <Upload className='h-4 w-4' />
+              Import CSV
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              className='gap-2'
+              onClick={exportCsv}
+            >
+              <Download className='h-4 w-4' />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Photos, rooms and usual seats help servers recognise residents;
+          texture diet, fluid thickness and assistance notes print on every
+          KDS ticket. Imports match residents by name and only change the
+          columns present in the file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <Input
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder='Search by name or room'
+          className='max-w-xs bg-gray-800/50 border-gray-700'
+        />
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Resident</TableHead>
+              <TableHead>Room</TableHead>
+              <TableHead>Usual seat</TableHead>
+              <TableHead>Texture diet</TableHead>
+              <TableHead>Fluids</TableHead>
+              <TableHead>Assistance notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleResidents.map(resident => (
+              <TableRow key={resident.id}>
+                <TableCell>
+                  <label className='flex items-center gap-3 cursor-pointer'>
+                    <Avatar className='h-10 w-10'>
+                      {resident.photo_url && (
+                        <AvatarImage
+                          src={resident.photo_url}
+                          alt={resident.name}
+                          className='object-cover'
+                        />
+                      )}
+                      <AvatarFallback>
+                        <User className='h-5 w-5' />
+                      </AvatarFallback>
+                    </Avatar>
+                    <input
+                      type='file'
+                      accept='image/*'
+                      className='hidden'
+                      onChange={e => uploadPhoto(resident, e.target.files?.[0])}
+                    />
+                    <span>
+                      <span className='font-medium'>{resident.name}</span>
+                      {resident.dietary_restrictions.length > 0 && (
+                        <span className='block text-xs text-yellow-400'>
+                          {resident.dietary_restrictions.join(', ')}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    defaultValue={resident.details?.room_number ?? ''}
+                    onBlur={e => updateText(resident, 'room_number', e.target.value)}
+                    className='h-8 w-20 bg-gray-800/50 border-gray-700'
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className='flex gap-1'>
+                    <Select
+                      value={resident.details?.preferred_table_id ?? NONE}
+                      onValueChange={value =>
+                        updateDetails(
+                          resident,
+                          value === NONE
+                            ? { preferred_table_id: null, preferred_seat: null }
+                            : { preferred_table_id: value }
+                        )
+                      }
+                    >
+                      <SelectTrigger className='h-8 w-28 bg-gray-800/50 border-gray-700'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No table</SelectItem>
+                        {tables.map(table => (
+                          <SelectItem key={table.id} value={table.id}>
+                            Table {table.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type='number'
+                      min={1}
+                      placeholder='Seat'
+                      disabled={!resident.details?.preferred_table_id}
+                      defaultValue={resident.details?.preferred_seat ?? ''}
+                      onBlur={e => updateSeat(resident, e.target.value)}
+                      className='h-8 w-16 bg-gray-800/50 border-gray-700'
+                    />
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={resident.details?.texture_diet ?? NONE}
+                    onValueChange={value =>
+                      updateDetails(resident, {
+                        texture_diet:
+                          value === NONE
+                            ? null
+                            : (value as TextureDiet),
+                      })
+                    }
+                  >
+                    <SelectTrigger className='h-8 w-48 bg-gray-800/50 border-gray-700'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not set</SelectItem>
+                      {TEXTURE_DIETS.map(diet => (
+                        <SelectItem key={diet} value={diet}>
+                          {formatTextureLevel(diet)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={resident.details?.fluid_thickness ?? NONE}
+                    onValueChange={value =>
+                      updateDetails(resident, {
+                        fluid_thickness:
+                          value === NONE
+                            ? null
+                            : (value as FluidThickness),
+                      })
+                    }
+                  >
+                    <SelectTrigger className='h-8 w-48 bg-gray-800/50 border-gray-700'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not set</SelectItem>
+                      {FLUID_THICKNESSES.map(thickness => (
+                        <SelectItem key={thickness} value={thickness}>
+                          {formatThicknessLevel(thickness)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Textarea
+                    defaultValue={resident.details?.assistance_notes ?? ''}
+                    onBlur={e =>
+                      updateText(resident, 'assistance_notes', e.target.value)
+                    }
+                    placeholder='e.g. Needs cutlery adapted, feed slowly'
+                    rows={2}
+                    className='min-w-48 bg-gray-800/50 border-gray-700'
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+            {visibleResidents.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className='text-center text-gray-500'>
+                  {residents.length === 0
+                    ? 'No residents yet: residents appear here once they have an account'
+                    : 'No residents match the search'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
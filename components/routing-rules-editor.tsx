@@ -0,0 +1,546 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { FlaskConical, Plus, Route, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  DEFAULT_ROUTING_PRIORITY,
+  createRoutingRule,
+  deleteRoutingRule,
+  fetchRoutingFallbackStation,
+  fetchRoutingRules,
+  previewOrderRouting,
+  updateRoutingFallbackStation,
+  updateRoutingRule,
+} from '@/lib/modassembly/supabase/database/kds/routing'
+import {
+  fetchMenuCategories,
+  fetchMenuItems,
+} from '@/lib/modassembly/supabase/database/menu'
+import type {
+  KDSRoutingRule,
+  MenuCategory,
+  MenuItemWithDetails,
+  OrderType,
+  RoutingPreviewLine,
+  RoutingRuleMatchType,
+  StationType,
+} from '@/types/database'
+
+const STATION_TYPES: StationType[] = [
+  'grill',
+  'fryer',
+  'salad',
+  'expo',
+  'bar',
+  'prep',
+  'dessert',
+]
+
+const MATCH_TYPE_LABELS: Record<RoutingRuleMatchType, string> = {
+  menu_item: 'Menu item',
+  category: 'Category',
+  keyword: 'Keyword',
+  regex: 'Regex',
+  order_type: 'Order type',
+}
+
+const SOURCE_LABELS: Record<RoutingPreviewLine['source'], string> = {
+  rule: 'Rule',
+  catalog: 'Menu item station',
+  fallback: 'Fallback',
+}
+
+export function RoutingRulesEditor() {
+  const [rules, setRules] = useState<KDSRoutingRule[]>([])
+  const [categories, setCategories] = useState<MenuCategory[]>([])
+  const [menuItems, setMenuItems] = useState<MenuItemWithDetails[]>([])
+  const [fallbackStation, setFallbackStation] = useState<StationType>('expo')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [newMatchType, setNewMatchType] =
+    useState<RoutingRuleMatchType>('keyword')
+  const [newTarget, setNewTarget] = useState('')
+  const [newStation, setNewStation] = useState<StationType>('grill')
+  const [newPriority, setNewPriority] = useState(
+    String(DEFAULT_ROUTING_PRIORITY.keyword)
+  )
+
+  const [previewType, setPreviewType] = useState<OrderType>('food')
+  const [previewText, setPreviewText] = useState('')
+  const [previewLines, setPreviewLines] = useState<RoutingPreviewLine[] | null>(
+    null
+  )
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const { toast } = useToast()
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [ruleData, categoryData, itemData, fallback] = await Promise.all([
+        fetchRoutingRules(),
+        fetchMenuCategories(true),
+        fetchMenuItems({ includeUnavailable: true }),
+        fetchRoutingFallbackStation(),
+      ])
+      setRules(ruleData)
+      setCategories(categoryData)
+      setMenuItems(itemData)
+      setFallbackStation(fallback)
+    } catch (error) {
+      console.error('Error loading routing rules:', error)
+      toast({
+        title: 'Error loading routing rules',
+        description: 'Could not load KDS routing rules',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadRules()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Routing update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const describeTarget = (rule: KDSRoutingRule) => {
+    if (rule.match_type === 'menu_item') {
+      return (
+        menuItems.find(item => item.id === rule.menu_item_id)?.name ||
+        'Unknown item'
+      )
+    }
+    if (rule.match_type === 'category') {
+      return (
+        categories.find(category => category.id === rule.category_id)?.name ||
+        'Unknown category'
+      )
+    }
+    return rule.pattern || ''
+  }
+
+  const changeMatchType = (matchType: RoutingRuleMatchType) => {
+    setNewMatchType(matchType)
+    setNewTarget(matchType === 'order_type' ? 'food' : '')
+    setNewPriority(String(DEFAULT_ROUTING_PRIORITY[matchType]))
+  }
+
+  const addRule = () => {
+    const target = newTarget.trim()
+    if (!target) {
+      return
+    }
+    const priority = parseInt(newPriority, 10)
+    const targetName =
+      newMatchType === 'menu_item'
+        ? menuItems.find(item => item.id === target)?.name
+        : newMatchType === 'category'
+          ? categories.find(category => category.id === target)?.name
+          : target
+
+    runMutation(
+      () =>
+        createRoutingRule({
+          name: `${targetName} → ${newStation}`,
+          match_type: newMatchType,
+          menu_item_id: newMatchType === 'menu_item' ? target : null,
+          category_id: newMatchType === 'category' ? target : null,
+          pattern:
+            newMatchType === 'menu_item' || newMatchType === 'category'
+              ? null
+              : target,
+          station_type: newStation,
+          priority: Number.isFinite(priority)
+            ? priority
+            : DEFAULT_ROUTING_PRIORITY[newMatchType],
+        }),
+      'create rule'
+    )
+    setNewTarget(newMatchType === 'order_type' ? 'food' : '')
+  }
+
+  const runPreview = async () => {
+    // Lines naming a catalog item route as that item; anything else is free text
+    const lines = previewText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(name => ({
+        name,
+        menu_item_id:
+          menuItems.find(
+            item => item.name.toLowerCase() === name.toLowerCase()
+          )?.id || null,
+      }))
+    if (lines.length === 0) {
+      setPreviewLines(null)
+      return
+    }
+
+    setIsPreviewing(true)
+    try {
+      setPreviewLines(await previewOrderRouting(previewType, lines))
+    } catch (error) {
+      console.error('Error previewing routing:', error)
+      toast({
+        title: 'Preview failed',
+        description:
+          error instanceof Error ? error.message : 'Could not preview routing',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading routing rules...</div>
+  }
+
+  return (
+    <div className='space-y-6'>
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <div className='flex items-center gap-2'>
+            <Route className='h-5 w-5 text-gray-400' />
+            <CardTitle>KDS Routing Rules</CardTitle>
+          </div>
+          <CardDescription>
+            Each order line goes to the station of the highest-priority rule
+            that matches it. Keyword and regex rules only apply to items typed
+            or spoken outside the menu.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex items-center gap-3'>
+            <Label className='text-sm'>Fallback station</Label>
+            <Select
+              value={fallbackStation}
+              onValueChange={value =>
+                runMutation(
+                  () => updateRoutingFallbackStation(value as StationType),
+                  'update fallback station'
+                )
+              }
+            >
+              <SelectTrigger className='w-40 bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATION_TYPES.map(station => (
+                  <SelectItem key={station} value={station}>
+                    {station}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className='text-xs text-gray-500'>
+              Used when nothing else places a line
+            </span>
+          </div>
+
+          <div className='grid grid-cols-1 md:grid-cols-6 gap-2'>
+            <Select
+              value={newMatchType}
+              onValueChange={value =>
+                changeMatchType(value as RoutingRuleMatchType)
+              }
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(MATCH_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className='md:col-span-2'>
+              {newMatchType === 'menu_item' && (
+                <Select value={newTarget} onValueChange={setNewTarget}>
+                  <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                    <SelectValue placeholder='Menu item' />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {menuItems.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {newMatchType === 'category' && (
+                <Select value={newTarget} onValueChange={setNewTarget}>
+                  <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                    <SelectValue placeholder='Category' />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {newMatchType === 'order_type' && (
+                <Select value={newTarget} onValueChange={setNewTarget}>
+                  <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='food'>Food</SelectItem>
+                    <SelectItem value='drink'>Drink</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {(newMatchType === 'keyword' || newMatchType === 'regex') && (
+                <Input
+                  value={newTarget}
+                  onChange={e => setNewTarget(e.target.value)}
+                  placeholder={
+                    newMatchType === 'keyword' ? 'e.g. burger' : 'e.g. ^grilled '
+                  }
+                  className='bg-gray-800/50 border-gray-700'
+                />
+              )}
+            </div>
+
+            <Select
+              value={newStation}
+              onValueChange={value => setNewStation(value as StationType)}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATION_TYPES.map(station => (
+                  <SelectItem key={station} value={station}>
+                    {station}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              value={newPriority}
+              onChange={e => setNewPriority(e.target.value)}
+              placeholder='Priority'
+              inputMode='numeric'
+              className='bg-gray-800/50 border-gray-700'
+            />
+
+            <Button onClick={addRule} variant='outline' className='gap-2'>
+              <Plus className='h-4 w-4' />
+              Add rule
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className='w-24'>Priority</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className='w-12' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <Input
+                      defaultValue={rule.priority}
+                      inputMode='numeric'
+                      className='h-8 w-20 bg-gray-800/50 border-gray-700'
+                      onBlur={e => {
+                        const priority = parseInt(e.target.value, 10)
+                        if (
+                          Number.isFinite(priority) &&
+                          priority !== rule.priority
+                        ) {
+                          runMutation(
+                            () => updateRoutingRule(rule.id, { priority }),
+                            'update rule'
+                          )
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant='outline' className='mr-2'>
+                      {MATCH_TYPE_LABELS[rule.match_type]}
+                    </Badge>
+                    <span className={rule.is_active ? '' : 'text-gray-500'}>
+                      {describeTarget(rule)}
+                    </span>
+                  </TableCell>
+                  <TableCell>{rule.station_type}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={checked =>
+                        runMutation(
+                          () =>
+                            updateRoutingRule(rule.id, { is_active: checked }),
+                          'update rule'
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size='icon'
+                      variant='ghost'
+                      onClick={() =>
+                        runMutation(
+                          () => deleteRoutingRule(rule.id),
+                          'delete rule'
+                        )
+                      }
+                    >
+                      <Trash2 className='h-4 w-4' />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <div className='flex items-center gap-2'>
+            <FlaskConical className='h-5 w-5 text-gray-400' />
+            <CardTitle>Routing Preview</CardTitle>
+          </div>
+          <CardDescription>
+            Where would this order go? Nothing is sent to the kitchen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-4 gap-2'>
+            <Textarea
+              value={previewText}
+              onChange={e => setPreviewText(e.target.value)}
+              placeholder={'One item per line, e.g.\nCheeseburger\nChicken bowl'}
+              className='bg-gray-800/50 border-gray-700 md:col-span-3'
+              rows={4}
+            />
+            <div className='space-y-2'>
+              <Select
+                value={previewType}
+                onValueChange={value => setPreviewType(value as OrderType)}
+              >
+                <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value='food'>Food order</SelectItem>
+                  <SelectItem value='drink'>Drink order</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={runPreview}
+                disabled={isPreviewing}
+                className='w-full'
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+
+          {previewLines && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Decided by</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewLines.map(line => (
+                  <TableRow key={line.line_index}>
+                    <TableCell className='font-medium'>
+                      {line.line_name}
+                    </TableCell>
+                    <TableCell>
+                      {line.station_name || (
+                        <span className='text-red-400'>No active station</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={line.source === 'rule' ? 'default' : 'outline'}
+                      >
+                        {SOURCE_LABELS[line.source]}
+                      </Badge>
+                      {line.rule_name && (
+                        <span className='ml-2 text-xs text-gray-400'>
+                          {line.rule_name}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Copy, RefreshCw, Users } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  loadFloorPlanTables,
+  loadFloorPlanZones,
+} from '@/lib/modassembly/supabase/database/floor-plan'
+import {
+  fetchMealServices,
+  findServiceAt,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import {
+  type Shift,
+  copySectionAssignments,
+  fetchSectionAssignments,
+  setSectionAssignment,
+  toServiceDate,
+} from '@/lib/modassembly/supabase/database/server-sections'
+import {
+  type User,
+  getStaffUsers,
+} from '@/lib/modassembly/supabase/database/users'
+import type { Zone } from '@/lib/floor-plan-utils'
+import type {
+  FloorPlan,
+  MealService,
+  SectionAssignment,
+} from '@/types/database'
+
+// Select values cannot be empty
+const ALL_DAY = 'all-day'
+const UNASSIGNED = 'unassigned'
+
+type SectionAssignmentsProps = {
+  floorPlan: FloorPlan | null
+  userId: string
+}
+
+/**
+ * Give each zone of a floor plan to a server for a shift
+ */
+export function SectionAssignments({
+  floorPlan,
+  userId,
+}: SectionAssignmentsProps) {
+  const [zones, setZones] = useState<Zone[]>([])
+  const [tableCounts, setTableCounts] = useState<Map<string, number>>(
+    new Map()
+  )
+  const [services, setServices] = useState<MealService[]>([])
+  const [servers, setServers] = useState<User[]>([])
+  const [assignments, setAssignments] = useState<SectionAssignment[]>([])
+  const [date, setDate] = useState(() => toServiceDate())
+  const [serviceId, setServiceId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const shift: Shift = { date, serviceId }
+
+  useEffect(() => {
+    Promise.all([fetchMealServices(), getStaffUsers(['admin', 'server'])])
+      .then(([mealServices, staff]) => {
+        setServices(mealServices)
+        setServers(staff)
+        setServiceId(findServiceAt(mealServices)?.id ?? null)
+      })
+      .catch(error => console.error('Error loading shift options:', error))
+  }, [])
+
+  const loadZones = useCallback(async () => {
+    if (!floorPlan) {
+      setZones([])
+      return
+    }
+    try {
+      const [planZones, tables] = await Promise.all([
+        loadFloorPlanZones(floorPlan.id),
+        loadFloorPlanTables(floorPlan.id),
+      ])
+      const counts = new Map<string, number>()
+      tables.forEach(table => {
+        if (table.zone_id) {
+          counts.set(table.zone_id, (counts.get(table.zone_id) ?? 0) + 1)
+        }
+      })
+      setZones(planZones)
+      setTableCounts(counts)
+    } catch (error) {
+      console.error('Error loading sections:', error)
+    }
+  }, [floorPlan])
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      setAssignments(await fetchSectionAssignments({ date, serviceId }))
+    } catch (error) {
+      console.error('Error loading section assignments:', error)
+      toast({
+        title: 'Error loading assignments',
+        description: 'Could not load the section assignments',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }, [date, serviceId, toast])
+
+  useEffect(() => {
+    loadZones()
+  }, [loadZones])
+
+  useEffect(() => {
+    loadAssignments()
+  }, [loadAssignments])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadAssignments()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Assignment update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const copyPreviousDay = () => {
+    const previous = new Date(`${date}T00:00:00`)
+    previous.setDate(previous.getDate() - 1)
+    runMutation(async () => {
+      const copied = await copySectionAssignments(
+        { date: toServiceDate(previous), serviceId },
+        shift,
+        userId
+      )
+      toast({
+        title: copied > 0 ? 'Assignments copied' : 'Nothing to copy',
+        description:
+          copied > 0
+            ? `${copied} sections assigned as on ${toServiceDate(previous)}`
+            : `No sections were assigned on ${toServiceDate(previous)}`,
+        duration: 3000,
+      })
+    }, 'copy assignments')
+  }
+
+  const getServerName = (id: string) =>
+    servers.find(server => server.id === id)?.name ?? 'Unknown server'
+
+  if (!floorPlan) {
+    return null
+  }
+
+  return (
+    <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+      <CardHeader>
+        <div className='flex items-center gap-2'>
+          <Users className='h-5 w-5 text-gray-400' />
+          <CardTitle>Server Sections</CardTitle>
+        </div>
+        <CardDescription>
+          Give each zone of {floorPlan.name} to a server for a shift. Servers
+          see their own tables highlighted and are warned before ordering for
+          someone else&apos;s; per-server metrics follow these assignments.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='flex flex-wrap items-center gap-2'>
+          <Input
+            type='date'
+            value={date}
+            onChange={e => e.target.value && setDate(e.target.value)}
+            className='w-44 bg-gray-800/50 border-gray-700'
+          />
+          <Select
+            value={serviceId ?? ALL_DAY}
+            onValueChange={value =>
+              setServiceId(value === ALL_DAY ? null : value)
+            }
+          >
+            <SelectTrigger className='w-44 bg-gray-800/50 border-gray-700'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DAY}>All day</SelectItem>
+              {services.map(service => (
+                <SelectItem key={service.id} value={service.id}>
+                  {service.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant='outline' onClick={copyPreviousDay} className='gap-2'>
+            <Copy className='h-4 w-4' />
+            Copy previous day
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => {
+              loadZones()
+              loadAssignments()
+            }}
+            title='Reload sections'
+          >
+            <RefreshCw className='h-4 w-4' />
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Section</TableHead>
+              <TableHead>Tables</TableHead>
+              <TableHead>Server</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {zones.map(zone => {
+              const own = assignments.find(
+                assignment =>
+                  assignment.zone_id === zone.id &&
+                  assignment.service_id === serviceId
+              )
+              // A service without its own assignment uses the all-day one
+              const allDay = serviceId
+                ? assignments.find(
+                    assignment =>
+                      assignment.zone_id === zone.id &&
+                      assignment.service_id === null
+                  )
+                : undefined
+
+              return (
+                <TableRow key={zone.id}>
+                  <TableCell className='font-medium'>
+                    <span
+                      className='mr-2 inline-block h-3 w-3 rounded-full'
+                      style={{ backgroundColor: zone.color }}
+                    />
+                    {zone.name}
+                  </TableCell>
+                  <TableCell>{tableCounts.get(zone.id) ?? 0}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={own?.server_id ?? UNASSIGNED}
+                      onValueChange={value =>
+                        runMutation(
+                          () =>
+                            setSectionAssignment(
+                              shift,
+                              zone.id,
+                              value === UNASSIGNED ? null : value,
+                              userId
+                            ),
+                          'assign section'
+                        )
+                      }
+                    >
+                      <SelectTrigger className='h-8 w-56 bg-gray-800/50 border-gray-700'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>
+                          {allDay
+                            ? `All day: ${getServerName(allDay.server_id)}`
+                            : 'Unassigned'}
+                        </SelectItem>
+                        {servers.map(server => (
+                          <SelectItem key={server.id} value={server.id}>
+                            {server.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+            {zones.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className='text-center text-gray-500'>
+                  No zones on this floor plan: draw zones in the editor to use
+                  them as server sections
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,6 +3,42 @@
 import { useCallback, useEffect, useState } from 'react'
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { createOrder } from '@/lib/modassembly/supabase/database/orders'
+import { type OrderOutboxEntry, getOrderOutbox } from '@/lib/offline'
+import {
+  type ResidentSuggestion,
+  type UsualOrder,
+  getMealPeriod,
+  getPredictedResident,
+  getSeatResidentSuggestions,
+  getTimeBasedResidentSuggestions,
+  getUsualOrders,
+} from '@/lib/modassembly/supabase/database/suggestions'
+import {
+  type DietaryViolation,
+  formatDietaryWarnings,
+  isDietaryViolationError,
+} from '@/lib/modassembly/supabase/database/dietary'
+import {
+  type OutOfServiceError,
+  isOutOfServiceError,
+} from '@/lib/modassembly/supabase/database/meal-services'
+import {
+  type OutOfSectionError,
+  isOutOfSectionError,
+} from '@/lib/modassembly/supabase/database/server-sections'
+import { setTableState } from '@/lib/modassembly/supabase/database/table-lifecycle'
+import {
+  FLUID_THICKNESS_LABELS,
+  TEXTURE_DIET_LABELS,
+  type ThicknessRequiredError,
+  isTextureModified,
+  isThicknessRequiredError,
+  needsThickenedFluids,
+  withRequiredThickness,
+} from '@/lib/iddsi'
+import { useToast } from '@/hooks/use-toast'
+import { useServerSections } from '@/hooks/use-server-sections'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -13,17 +49,33 @@ import {
   ChevronRight,
   Clock,
   Coffee,
+  MapPin,
   Plus,
+  Repeat,
   User,
   Utensils,
 } from 'lucide-react'
 import { VoiceOrderPanel } from '@/components/voice-order-panel'
+import { DietaryConflictDialog } from '@/components/dietary-conflict-dialog'
+import { OutOfServiceDialog } from '@/components/out-of-service-dialog'
+import { OutOfSectionDialog } from '@/components/out-of-section-dialog'
+import { TransferTableDialog } from '@/components/transfer-table-dialog'
+import { ThicknessRequiredDialog } from '@/components/thickness-required-dialog'
+import { CourseFireControl } from '@/components/course-fire-control'
+import { PendingOrdersBadge } from '@/components/pending-orders-badge'
+import { ServiceFloorPlans } from '@/components/service-floor-plans'
+import { TableStateControl } from '@/components/table-state-control'
+import type { TableLifecycleState } from '@/types/database'
 
 interface Table {
   id: string
   label: string
   status: string
+  lifecycle_state: TableLifecycleState
+  lifecycle_changed_at: string | null
   seat_count: number
+  // Known seats, so an order can be taken without a lookup while offline
+  seats: { id: string; label: number }[]
   orders: Order[]
   position: { x: number; y: number }
   shape: 'round' | 'square' | 'rectangle'
@@ -43,22 +95,21 @@ interface Resident {
   id: string
   name: string
   dietaryRestrictions?: string[]
-  favoriteSeats: string[] // table-seat combinations like "1-2"
-  mealPreferences: MealPreference[]
 }
 
-interface MealPreference {
-  dish: string
-  mealTime: 'breakfast' | 'lunch' | 'dinner'
-  frequency: number // how often they order this (1-10)
-  lastOrdered?: string
+interface SuggestedResident extends ResidentSuggestion {
+  reason: string
 }
 
 interface OrderStep {
   step: 'resident' | 'meal'
   selectedResident?: Resident
+  // Pre-selected because they usually sit here at this meal
+  predicted?: boolean
 }
 
+const GUEST_RESIDENT: Resident = { id: 'guest-user', name: 'Guest' }
+
 type ServerClientComponentProps = {
   user: {
     id: string
@@ -91,6 +142,8 @@ export function ServerClientComponent({
   profile,
 }: ServerClientComponentProps) {
   const [tables, setTables] = useState<Table[]>([])
+  // Room being served; null shows every table
+  const [floorPlanId, setFloorPlanId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedTable, setSelectedTable] = useState<Table | null>(null)
@@ -102,9 +155,37 @@ export function ServerClientComponent({
   } | null>(null)
   const [orderStep, setOrderStep] = useState<OrderStep>({ step: 'resident' })
   const [currentSuggestionIndex, setCurrentSuggestionIndex] = useState(0)
+  const [residentSuggestions, setResidentSuggestions] = useState<
+    SuggestedResident[]
+  >([])
+  const [residentSuggestionsLoading, setResidentSuggestionsLoading] =
+    useState(false)
+  const [usualOrders, setUsualOrders] = useState<UsualOrder[]>([])
+  const [usualOrdersLoading, setUsualOrdersLoading] = useState(false)
   const [showVoiceRecording, setShowVoiceRecording] = useState(false)
+  const [dietaryConflict, setDietaryConflict] = useState<{
+    violations: DietaryViolation[]
+    residentName?: string
+    submitWithOverride: (_reason: string) => Promise<void>
+  } | null>(null)
+  const [outOfService, setOutOfService] = useState<{
+    conflict: OutOfServiceError
+    sendAnyway: () => Promise<void>
+  } | null>(null)
+  const [outOfSection, setOutOfSection] = useState<{
+    conflict: OutOfSectionError
+    tableLabel?: string
+    sendAnyway: () => Promise<void>
+  } | null>(null)
+  const [showTransfer, setShowTransfer] = useState(false)
+  const [thicknessRequired, setThicknessRequired] = useState<{
+    conflict: ThicknessRequiredError
+    thicken: () => Promise<void>
+  } | null>(null)
 
   const supabase = createClient()
+  const { toast } = useToast()
+  const sections = useServerSections(user.id)
 
   // Create mock tables for fallback when RLS blocks access
   const createMockTables = (): Table[] => {
@@ -123,114 +204,120 @@ export function ServerClientComponent({
       id: `mock-table-${index + 1}`,
       label: (index + 1).toString(),
       status: 'available',
+      lifecycle_state: 'available',
+      lifecycle_changed_at: null,
       seat_count: pos.seats,
       position: { x: pos.x, y: pos.y },
       shape: pos.shape,
       size: pos.size,
+      seats: [],
       orders: []
     }))
   }
 
-  // Mock resident data for demo
-  const mockResidents: Resident[] = [
-    {
-      id: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
-      name: 'Salazar Saladbar',
-      dietaryRestrictions: ['vegetarian'],
-      favoriteSeats: ['5-1', '5-2'],
-      mealPreferences: [
-        {
-          dish: 'Grilled Chicken Caesar Salad',
-          mealTime: 'dinner',
-          frequency: 9,
-        },
-        { dish: 'Mediterranean Quinoa Bowl', mealTime: 'lunch', frequency: 7 },
-        {
-          dish: 'Avocado Toast with Eggs',
-          mealTime: 'breakfast',
-          frequency: 8,
-        },
-      ],
-    },
-    {
-      id: 'b2c3d4e5-f6g7-8901-bcde-f23456789012',
-      name: 'Margaret Meatloaf',
-      favoriteSeats: ['1-1', '1-3', '2-1'],
-      mealPreferences: [
-        {
-          dish: 'Classic Meatloaf with Mashed Potatoes',
-          mealTime: 'dinner',
-          frequency: 10,
-        },
-        { dish: 'Beef Stew', mealTime: 'lunch', frequency: 8 },
-        { dish: 'Pancakes with Bacon', mealTime: 'breakfast', frequency: 9 },
-      ],
-    },
-    {
-      id: 'c3d4e5f6-g7h8-9012-cdef-345678901234',
-      name: 'Frank Fisherman',
-      favoriteSeats: ['3-2', '4-1'],
-      mealPreferences: [
-        { dish: 'Grilled Salmon with Rice', mealTime: 'dinner', frequency: 9 },
-        { dish: 'Fish and Chips', mealTime: 'lunch', frequency: 8 },
-        { dish: 'Tuna Sandwich', mealTime: 'breakfast', frequency: 6 },
-      ],
-    },
-    {
-      id: 'd4e5f6g7-h8i9-0123-defg-456789012345',
-      name: 'Betty Burger',
-      favoriteSeats: ['2-2', '3-1'],
-      mealPreferences: [
-        { dish: 'Cheeseburger with Fries', mealTime: 'dinner', frequency: 8 },
-        { dish: 'Chicken Burger', mealTime: 'lunch', frequency: 7 },
-        { dish: 'Breakfast Burger', mealTime: 'breakfast', frequency: 5 },
-      ],
-    },
-  ]
-
-  const getCurrentMealTime = (): 'breakfast' | 'lunch' | 'dinner' => {
-    const hour = new Date().getHours()
-    if (hour < 11) {
-      return 'breakfast'
+  const mealPeriod = getMealPeriod(new Date().getHours())
+
+  // Who usually sits here at this meal; a confident prediction skips
+  // straight to their usual orders
+  useEffect(() => {
+    if (!orderFormData) {
+      return
     }
-    if (hour < 17) {
-      return 'lunch'
+
+    let cancelled = false
+    const loadResidentSuggestions = async () => {
+      setResidentSuggestionsLoading(true)
+      try {
+        const hour = new Date().getHours()
+        const [seatSuggestions, timeSuggestions] = await Promise.all([
+          getSeatResidentSuggestions(
+            orderFormData.tableId,
+            orderFormData.seatNumber,
+            3
+          ),
+          getTimeBasedResidentSuggestions(hour, 2),
+        ])
+        if (cancelled) {
+          return
+        }
+
+        const period = getMealPeriod(hour)
+        setResidentSuggestions([
+          ...seatSuggestions.map(suggestion => ({
+            ...suggestion,
+            reason: suggestion.preferred
+              ? 'Usual seat'
+              : suggestion.visits > 0
+                ? `Sat here ${suggestion.visits}× at ${period}`
+                : 'Usually sits at this table',
+          })),
+          ...timeSuggestions
+            .filter(
+              suggestion =>
+                !seatSuggestions.some(
+                  seat => seat.resident_id === suggestion.resident_id
+                )
+            )
+            .map(suggestion => ({
+              ...suggestion,
+              reason: `Often dines at ${period}`,
+            })),
+        ])
+
+        const predicted = getPredictedResident(seatSuggestions)
+        if (predicted) {
+          setOrderStep({
+            step: 'meal',
+            selectedResident: {
+              id: predicted.resident_id,
+              name: predicted.name,
+              dietaryRestrictions: predicted.dietary_restrictions,
+            },
+            predicted: true,
+          })
+        }
+      } catch (err) {
+        console.error('Error loading resident suggestions:', err)
+      } finally {
+        if (!cancelled) {
+          setResidentSuggestionsLoading(false)
+        }
+      }
     }
-    return 'dinner'
-  }
 
-  const getSuggestedResidents = (
-    tableLabel: string,
-    seatNumber: number
-  ): Resident[] => {
-    const seatKey = `${tableLabel}-${seatNumber}`
-
-    // Find residents who frequently sit in this seat
-    const primaryResidents = mockResidents
-      .filter(r => r.favoriteSeats.includes(seatKey))
-      .sort((a, b) => {
-        const aIndex = a.favoriteSeats.indexOf(seatKey)
-        const bIndex = b.favoriteSeats.indexOf(seatKey)
-        return aIndex - bIndex
-      })
+    loadResidentSuggestions()
+    return () => {
+      cancelled = true
+    }
+  }, [orderFormData])
 
-    // Add other residents from the same table as secondary options
-    const tableResidents = mockResidents.filter(
-      r =>
-        r.favoriteSeats.some(seat => seat.startsWith(`${tableLabel}-`)) &&
-        !primaryResidents.includes(r)
-    )
+  // The selected resident's top combos, already filtered for their diet
+  const selectedResidentId = orderStep.selectedResident?.id
+  useEffect(() => {
+    setUsualOrders([])
+    if (!selectedResidentId) {
+      return
+    }
 
-    return [...primaryResidents, ...tableResidents].slice(0, 3)
-  }
+    let cancelled = false
+    setUsualOrdersLoading(true)
+    getUsualOrders(selectedResidentId, 'food', 3)
+      .then(orders => {
+        if (!cancelled) {
+          setUsualOrders(orders)
+        }
+      })
+      .catch(err => console.error('Error loading usual orders:', err))
+      .finally(() => {
+        if (!cancelled) {
+          setUsualOrdersLoading(false)
+        }
+      })
 
-  const getSuggestedMeals = (resident: Resident): MealPreference[] => {
-    const currentMeal = getCurrentMealTime()
-    return resident.mealPreferences
-      .filter(pref => pref.mealTime === currentMeal)
-      .sort((a, b) => b.frequency - a.frequency)
-      .slice(0, 3)
-  }
+    return () => {
+      cancelled = true
+    }
+  }, [selectedResidentId])
 
   const loadTables = useCallback(async () => {
     try {
@@ -248,13 +335,16 @@ export function ServerClientComponent({
       console.log('[ServerClient] Executing loadTables query...')
       
       // Get tables with orders - handle potential RLS issues
-      const { data: tablesData, error: tablesError } = await supabase
+      let query = supabase
         .from('tables')
         .select(
           `
           id,
           label,
           status,
+          lifecycle_state,
+          lifecycle_changed_at,
+          seats:seats!table_id (id, label),
           orders:orders!table_id (
             id,
             items,
@@ -266,6 +356,10 @@ export function ServerClientComponent({
         `
         )
         .order('label', { ascending: true })
+      if (floorPlanId) {
+        query = query.eq('floor_plan_id', floorPlanId)
+      }
+      const { data: tablesData, error: tablesError } = await query
 
       if (tablesError) {
         console.error('[ServerClient] Tables query error:', tablesError)
@@ -356,10 +450,16 @@ export function ServerClientComponent({
           id: table.id,
           label: table.label.toString(),
           status: table.status || 'available',
+          lifecycle_state: table.lifecycle_state || 'available',
+          lifecycle_changed_at: table.lifecycle_changed_at ?? null,
           seat_count: demoPos.seats,
           position: { x: demoPos.x, y: demoPos.y },
           shape: demoPos.shape,
           size: demoPos.size,
+          seats: (table.seats || []).map((seat: any) => ({
+            id: seat.id,
+            label: seat.label,
+          })),
           orders: (table.orders || [])
             .filter((order: any) => order.status !== 'delivered')
             .map((order: any) => ({
@@ -382,7 +482,7 @@ export function ServerClientComponent({
     } finally {
       setLoading(false)
     }
-  }, [supabase])
+  }, [floorPlanId, supabase])
 
   const getTableStatusColor = (table: Table) => {
     if (table.orders.length === 0) {
@@ -405,6 +505,40 @@ export function ServerClientComponent({
     return 'bg-gray-600'
   }
 
+  const getSectionLabel = (tableId: string) => {
+    const owner = sections.owners.get(tableId)
+    if (!owner) {
+      return 'No section this shift'
+    }
+    if (owner === user.id) {
+      return 'Your section'
+    }
+    return `${sections.getServerName(owner) ?? 'Another server'}'s section`
+  }
+
+  const selectedTableState = tables.find(
+    table => table.id === selectedTable?.id
+  )
+
+  const changeTableState = async (
+    tableId: string,
+    state: TableLifecycleState
+  ) => {
+    try {
+      await setTableState(tableId, state)
+      await loadTables()
+    } catch (err) {
+      console.error('Error updating table state:', err)
+      toast({
+        title: 'Table not updated',
+        description:
+          err instanceof Error ? err.message : 'Could not update table state',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
   const getTimeSinceCreated = (createdAt: string) => {
     const created = new Date(createdAt)
     const now = new Date()
@@ -440,11 +574,104 @@ export function ServerClientComponent({
     }
   }
 
+  // Send an order through the offline outbox. Without a connection it is
+  // kept on this tablet and sent when the connection returns.
+  const sendOrder = async (orderData: Parameters<typeof createOrder>[0]) => {
+    const table = tables.find(t => t.id === orderData.table_id)
+    const outcome = await getOrderOutbox().submit(
+      orderData,
+      `Table ${table?.label ?? '?'} · ${orderData.items?.join(', ') || `${orderData.lines?.length ?? 0} items`}`
+    )
+    if (outcome.status === 'queued') {
+      toast({
+        title: 'Order saved offline',
+        description: 'It will be sent to the kitchen when the connection returns',
+        duration: 4000,
+      })
+    } else if (outcome.result.dietary_warnings?.length) {
+      toast({
+        title: 'Check dietary needs',
+        description: formatDietaryWarnings(outcome.result.dietary_warnings),
+        variant: 'destructive',
+        duration: 8000,
+      })
+    }
+  }
+
+  // Create an order; off-service items, other servers' tables and dietary
+  // conflicts open their dialogs instead of failing
+  const submitOrder = async (
+    orderData: Parameters<typeof createOrder>[0],
+    onCreated: () => void | Promise<void>
+  ) => {
+    try {
+      await sendOrder(orderData)
+      await onCreated()
+    } catch (err) {
+      if (isOutOfServiceError(err)) {
+        setOutOfService({
+          conflict: err,
+          sendAnyway: async () => {
+            setOutOfService(null)
+            await submitOrder({ ...orderData, allow_out_of_service: true }, onCreated)
+          },
+        })
+        return
+      }
+      if (isOutOfSectionError(err)) {
+        setOutOfSection({
+          conflict: err,
+          tableLabel: tables.find(t => t.id === orderData.table_id)?.label,
+          sendAnyway: async () => {
+            setOutOfSection(null)
+            await submitOrder({ ...orderData, allow_out_of_section: true }, onCreated)
+          },
+        })
+        return
+      }
+      if (isThicknessRequiredError(err)) {
+        setThicknessRequired({
+          conflict: err,
+          thicken: async () => {
+            setThicknessRequired(null)
+            await submitOrder(withRequiredThickness(orderData, err), onCreated)
+          },
+        })
+        return
+      }
+      if (!isDietaryViolationError(err)) {
+        throw err
+      }
+      setDietaryConflict({
+        violations: err.violations,
+        residentName: orderStep.selectedResident?.name,
+        submitWithOverride: async reason => {
+          await sendOrder({ ...orderData, dietary_override_reason: reason })
+          setDietaryConflict(null)
+          await onCreated()
+        },
+      })
+    }
+  }
+
+  // A queued order the server refused on replay: send it again so the
+  // usual dialog lets the server resolve it
+  const handleReviewPendingOrder = async (entry: OrderOutboxEntry) => {
+    await getOrderOutbox().discard(entry.id)
+    try {
+      await submitOrder(entry.payload, loadTables)
+    } catch (err) {
+      console.error('Error resubmitting order:', err)
+      setError(`Failed to create order: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
   const handleCloseOrderForm = () => {
     setShowOrderForm(false)
     setOrderFormData(null)
     setOrderStep({ step: 'resident' })
     setCurrentSuggestionIndex(0)
+    setResidentSuggestions([])
   }
 
   const handleSelectResident = (resident: Resident) => {
@@ -452,9 +679,10 @@ export function ServerClientComponent({
     setCurrentSuggestionIndex(0)
   }
 
-  const handleSelectMeal = async (meal: string) => {
-    console.log('🍽️ handleSelectMeal called with:', {
-      meal,
+  // One-tap reorder of a usual combo, no voice needed
+  const handleReorder = async (usual: UsualOrder) => {
+    console.log('🍽️ handleReorder called with:', {
+      items: usual.items,
       orderFormData,
       selectedResident: orderStep.selectedResident
     })
@@ -465,14 +693,6 @@ export function ServerClientComponent({
     }
 
     try {
-      // Get current user ID for server_id
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) {
-        console.error('No authenticated user')
-        setError('Authentication required to place order')
-        return
-      }
-
       // Debug: Log the lookup parameters
       console.log('Looking for seat with:', {
         table_id: orderFormData.tableId,
@@ -494,24 +714,30 @@ export function ServerClientComponent({
         seat_label_type: typeof orderFormData.seatNumber
       })
       
-      let seatData = null
+      // Seats loaded with the floor need no lookup, which also works offline
+      let seatData: { id: string } | null =
+        tables
+          .find(t => t.id === orderFormData.tableId)
+          ?.seats.find(seat => seat.label === orderFormData.seatNumber) || null
       let seatError = null
       
-      try {
-        const result = await supabase
-          .from('seats')
-          .select('id, label, status')
-          .eq('table_id', orderFormData.tableId)
-          .eq('label', orderFormData.seatNumber)
-          .single()
-          
-        seatData = result.data
-        seatError = result.error
-        
-        console.log('🪑 Seat lookup result:', { seatData, seatError })
-      } catch (err) {
-        console.error('Seat lookup failed:', err)
-        seatError = err
+      if (!seatData) {
+        try {
+          const result = await supabase
+            .from('seats')
+            .select('id, label, status')
+            .eq('table_id', orderFormData.tableId)
+            .eq('label', orderFormData.seatNumber)
+            .single()
+
+          seatData = result.data
+          seatError = result.error
+
+          console.log('🪑 Seat lookup result:', { seatData, seatError })
+        } catch (err) {
+          console.error('Seat lookup failed:', err)
+          seatError = err
+        }
       }
 
       // If seat lookup fails, try to create the seat or use a fallback
@@ -554,8 +780,9 @@ export function ServerClientComponent({
         seat_id: seatData.id,
         resident_id: orderStep.selectedResident.id,
         server_id: user.id,
-        items: [meal],
-        transcript: `Order for ${meal}`,
+        items: usual.items,
+        lines: usual.lines.length > 0 ? usual.lines : undefined,
+        transcript: `Usual order: ${usual.items.join(', ')}`,
         type: 'food' as const
       }
       
@@ -569,11 +796,11 @@ export function ServerClientComponent({
         type: orderData.type
       })
       
-      await createOrder(orderData)
-
-      // Close form and reload tables to show updated order
-      handleCloseOrderForm()
-      loadTables()
+      await submitOrder(orderData, () => {
+        // Close form and reload tables to show updated order
+        handleCloseOrderForm()
+        loadTables()
+      })
     } catch (err) {
       console.error('Error creating order:', err)
       setError(`Failed to create order: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -600,6 +827,19 @@ export function ServerClientComponent({
             }
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'tables',
+          },
+          _payload => {
+            if (mounted) {
+              loadTables()
+            }
+          }
+        )
         .subscribe()
 
       return () => {
@@ -662,6 +902,7 @@ export function ServerClientComponent({
               <p className='text-gray-300'>Table management and order taking</p>
             </div>
             <div className='flex items-center space-x-4'>
+              <PendingOrdersBadge onReview={handleReviewPendingOrder} />
               <Badge
                 variant='outline'
                 className='border-gray-600 text-gray-300'
@@ -693,9 +934,20 @@ export function ServerClientComponent({
         <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
           {/* Restaurant Floor Plan - Overhead View */}
           <div>
-            <h2 className='text-xl font-bold text-white mb-4'>
-              Restaurant Floor Plan
-            </h2>
+            <div className='flex flex-wrap items-center justify-between gap-2 mb-4'>
+              <h2 className='text-xl font-bold text-white'>
+                Restaurant Floor Plan
+              </h2>
+              <ServiceFloorPlans
+                floorPlanId={floorPlanId}
+                onChange={plan => {
+                  if ((plan?.id ?? null) !== floorPlanId) {
+                    setSelectedTable(null)
+                    setFloorPlanId(plan?.id ?? null)
+                  }
+                }}
+              />
+            </div>
             <div
               className='relative bg-gradient-to-br from-gray-800/30 to-gray-900/30 border border-gray-700 rounded-lg p-6'
               style={{ minHeight: '500px', minWidth: '600px' }}
@@ -725,12 +977,20 @@ export function ServerClientComponent({
               {tables.map(table => {
                 const isSelected = selectedTable?.id === table.id
                 const statusColor = getTableStatusColor(table)
+                // Highlight this server's section, fade other servers' tables
+                const owner = sections.owners.get(table.id)
+                const sectionClass =
+                  owner === user.id
+                    ? 'ring-2 ring-amber-400'
+                    : owner
+                      ? 'opacity-60'
+                      : ''
 
                 return (
                   <div
                     key={table.id}
                     className={`absolute cursor-pointer transition-all duration-200 hover:scale-110 ${
-                      isSelected ? 'ring-2 ring-blue-400 ring-opacity-75' : ''
+                      isSelected ? 'ring-2 ring-blue-400 ring-opacity-75' : sectionClass
                     }`}
                     style={{
                       left: table.position.x,
@@ -814,6 +1074,10 @@ export function ServerClientComponent({
                     <div className='w-3 h-3 rounded bg-green-600'></div>
                     <span className='text-gray-300'>Ready</span>
                   </div>
+                  <div className='flex items-center gap-2'>
+                    <div className='w-3 h-3 rounded ring-2 ring-amber-400'></div>
+                    <span className='text-gray-300'>Your Section</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -823,9 +1087,34 @@ export function ServerClientComponent({
           <div>
             {selectedTable ? (
               <div>
-                <h2 className='text-xl font-bold text-white mb-4'>
-                  Table {selectedTable.label} Details
-                </h2>
+                <div className='flex items-center justify-between mb-4'>
+                  <div>
+                    <h2 className='text-xl font-bold text-white'>
+                      Table {selectedTable.label} Details
+                    </h2>
+                    <p className='flex items-center gap-1 text-sm text-gray-400'>
+                      <MapPin className='h-3 w-3' />
+                      {getSectionLabel(selectedTable.id)}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => setShowTransfer(true)}
+                    variant='outline'
+                    size='sm'
+                    className='border-gray-600 text-gray-300 hover:bg-gray-800'
+                  >
+                    <Repeat className='h-4 w-4 mr-1' />
+                    Transfer
+                  </Button>
+                </div>
+
+                {/* Live state rather than the snapshot taken on select */}
+                <TableStateControl
+                  state={selectedTableState?.lifecycle_state ?? 'available'}
+                  changedAt={selectedTableState?.lifecycle_changed_at}
+                  onChange={state => changeTableState(selectedTable.id, state)}
+                  className='mb-4 rounded-lg border border-gray-700 bg-gray-800/40 p-3'
+                />
 
                 {selectedTable.orders.length === 0 ? (
                 <Card className='bg-gray-800/40 border-gray-700'>
@@ -858,6 +1147,7 @@ export function ServerClientComponent({
             </Card>
                 ) : (
                   <div className='space-y-4'>
+                    <CourseFireControl tableId={selectedTable.id} />
                     {selectedTable.orders.map(order => (
                       <Card
                         key={order.id}
@@ -1006,19 +1296,24 @@ export function ServerClientComponent({
         }
 
                     // Create the order with the voice data
-                    await createOrder({
-                      table_id: orderFormData.tableId,
-                      seat_id: seatData.id,
-                      resident_id:
-                        orderStep.selectedResident?.id || 'guest-user',
-                      server_id: user.id,
-                      items: orderData.items,
-                      transcript: orderData.transcription,
-                      type: 'food',
-                    })
-                    setShowVoiceRecording(false)
-                    handleCloseOrderForm()
-                    await loadTables() // Refresh the tables
+                    await submitOrder(
+                      {
+                        table_id: orderFormData.tableId,
+                        seat_id: seatData.id,
+                        resident_id:
+                          orderStep.selectedResident?.id || 'guest-user',
+                        server_id: user.id,
+                        items: orderData.items,
+                        lines: orderData.lines,
+                        transcript: orderData.transcription,
+                        type: 'food',
+                      },
+                      async () => {
+                        setShowVoiceRecording(false)
+                        handleCloseOrderForm()
+                        await loadTables() // Refresh the tables
+                      }
+                    )
                   } catch (error) {
                     console.error('Error creating voice order:', error)
                     setError(`Failed to create voice order: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -1040,7 +1335,7 @@ export function ServerClientComponent({
                       orderStep.selectedResident && (
                         <>
                           What would {orderStep.selectedResident.name} like for{' '}
-                          {getCurrentMealTime()}?
+                          {mealPeriod}?
                         </>
                       )}
                     <Button
@@ -1057,12 +1352,15 @@ export function ServerClientComponent({
                   {orderStep.step === 'resident' && (
                     <div className='space-y-4'>
                       {(() => {
-                        const suggestions = getSuggestedResidents(
-                          orderFormData.tableName,
-                          orderFormData.seatNumber
-                        )
+                        if (residentSuggestionsLoading) {
+                          return (
+                            <div className='text-center py-8 text-gray-400'>
+                              Finding who usually sits here...
+                            </div>
+                          )
+                        }
 
-                        if (suggestions.length === 0) {
+                        if (residentSuggestions.length === 0) {
                           return (
                             <div className='text-center py-8'>
                               <div className='text-gray-300 mb-4'>
@@ -1070,14 +1368,7 @@ export function ServerClientComponent({
                               </div>
                               <Button
                                 className='w-full bg-blue-600 hover:bg-blue-700'
-                                onClick={() => {
-                                  handleSelectResident({
-                                    id: 'guest-user',
-                                    name: 'Guest',
-                                    favoriteSeats: [],
-                                    mealPreferences: []
-                                  })
-                                }}
+                                onClick={() => handleSelectResident(GUEST_RESIDENT)}
                               >
                                 👤 Guest
                               </Button>
@@ -1086,35 +1377,95 @@ export function ServerClientComponent({
                         }
 
                         const currentSuggestion =
-                          suggestions[currentSuggestionIndex]
+                          residentSuggestions[
+                            Math.min(
+                              currentSuggestionIndex,
+                              residentSuggestions.length - 1
+                            )
+                          ]
+                        const selectCurrent = () =>
+                          handleSelectResident({
+                            id: currentSuggestion.resident_id,
+                            name: currentSuggestion.name,
+                            dietaryRestrictions:
+                              currentSuggestion.dietary_restrictions,
+                          })
 
                         return (
                           <>
                             {/* Main Suggestion Display */}
                             <div className='bg-gray-900/50 rounded-lg p-6 text-center'>
                               <div className='mb-4'>
-                                <User className='h-16 w-16 text-blue-400 mx-auto mb-3' />
+                                <Avatar className='h-20 w-20 mx-auto mb-3'>
+                                  {currentSuggestion.photo_url && (
+                                    <AvatarImage
+                                      src={currentSuggestion.photo_url}
+                                      alt={currentSuggestion.name}
+                                      className='object-cover'
+                                    />
+                                  )}
+                                  <AvatarFallback className='bg-gray-800'>
+                                    <User className='h-12 w-12 text-blue-400' />
+                                  </AvatarFallback>
+                                </Avatar>
                                 <h3 className='text-xl font-bold text-white mb-2'>
                                   {currentSuggestion.name}
                                 </h3>
                                 <div className='text-sm text-gray-400'>
-                                  Usually sits in:{' '}
-                                  {currentSuggestion.favoriteSeats.join(', ')}
+                                  {currentSuggestion.reason}
+                                  {currentSuggestion.care?.room_number &&
+                                    ` · Room ${currentSuggestion.care.room_number}`}
                                 </div>
-                                {currentSuggestion.dietaryRestrictions && (
+                                {currentSuggestion.care && (
+                                  <div className='flex justify-center gap-2 mt-2'>
+                                    {isTextureModified(
+                                      currentSuggestion.care.texture_diet
+                                    ) && (
+                                      <Badge
+                                        variant='outline'
+                                        className='border-amber-500 text-amber-300'
+                                      >
+                                        {
+                                          TEXTURE_DIET_LABELS[
+                                            currentSuggestion.care.texture_diet
+                                          ]
+                                        }
+                                      </Badge>
+                                    )}
+                                    {needsThickenedFluids(
+                                      currentSuggestion.care.fluid_thickness
+                                    ) && (
+                                      <Badge
+                                        variant='outline'
+                                        className='border-amber-500 text-amber-300'
+                                      >
+                                        {
+                                          FLUID_THICKNESS_LABELS[
+                                            currentSuggestion.care.fluid_thickness
+                                          ]
+                                        }{' '}
+                                        fluids
+                                      </Badge>
+                                    )}
+                                  </div>
+                                )}
+                                {currentSuggestion.dietary_restrictions.length > 0 && (
                                   <div className='text-xs text-yellow-400 mt-1'>
                                     Dietary:{' '}
-                                    {currentSuggestion.dietaryRestrictions.join(
+                                    {currentSuggestion.dietary_restrictions.join(
                                       ', '
                                     )}
                                   </div>
                                 )}
+                                {currentSuggestion.care?.assistance_notes && (
+                                  <div className='text-xs text-gray-300 mt-2'>
+                                    {currentSuggestion.care.assistance_notes}
+                                  </div>
+                                )}
                               </div>
 
                               <Button
-                                onClick={() =>
-                                  handleSelectResident(currentSuggestion)
-                                }
+                                onClick={selectCurrent}
                                 className='w-full bg-green-600 hover:bg-green-700 text-white font-semibold'
                                 size='lg'
                               >
@@ -1123,7 +1474,7 @@ export function ServerClientComponent({
                             </div>
 
                             {/* Navigation */}
-                            {suggestions.length > 1 && (
+                            {residentSuggestions.length > 1 && (
                               <div className='flex items-center justify-between'>
                                 <Button
                                   variant='outline'
@@ -1142,7 +1493,7 @@ export function ServerClientComponent({
 
                                 <div className='text-gray-400 text-sm'>
                                   {currentSuggestionIndex + 1} of{' '}
-                                  {suggestions.length}
+                                  {residentSuggestions.length}
                                 </div>
 
                                 <Button
@@ -1151,14 +1502,14 @@ export function ServerClientComponent({
                                   onClick={() =>
                                     setCurrentSuggestionIndex(
                                       Math.min(
-                                        suggestions.length - 1,
+                                        residentSuggestions.length - 1,
                                         currentSuggestionIndex + 1
                                       )
                                     )
                                   }
                                   disabled={
                                     currentSuggestionIndex ===
-                                    suggestions.length - 1
+                                    residentSuggestions.length - 1
                                   }
                                   className='border-gray-600 text-gray-300'
                                 >
@@ -1173,14 +1524,12 @@ export function ServerClientComponent({
                               <Button
                                 variant='outline'
                                 className='w-full border-gray-600 text-gray-300 hover:bg-gray-700'
-                                onClick={() => {
+                                onClick={() =>
                                   handleSelectResident({
-                                    id: 'guest-user',
+                                    ...GUEST_RESIDENT,
                                     name: 'Guest (Unknown Resident)',
-                                    favoriteSeats: [],
-                                    mealPreferences: []
                                   })
-                                }}
+                                }
                               >
                                 👤 Guest (Unknown Resident)
                               </Button>
@@ -1193,135 +1542,73 @@ export function ServerClientComponent({
 
                   {orderStep.step === 'meal' && orderStep.selectedResident && (
                     <div className='space-y-4'>
-                      {(() => {
-                        const mealSuggestions = getSuggestedMeals(
-                          orderStep.selectedResident
-                        )
-
-                        if (mealSuggestions.length === 0) {
-                          return (
-                            <div className='text-center py-8'>
-                              <div className='text-gray-300 mb-4'>
-                                No meal suggestions for {getCurrentMealTime()}
-                              </div>
-                              <Button
-                                className='w-full bg-blue-600 hover:bg-blue-700'
-                                onClick={() => {
-                                  setShowVoiceRecording(true)
-                                }}
-                              >
-                                🎤 Record New Order
-                              </Button>
-                            </div>
-                          )
-                        }
-
-                        const currentMeal =
-                          mealSuggestions[currentSuggestionIndex]
+                      {/* Back Button */}
+                      <Button
+                        variant='ghost'
+                        size='sm'
+                        onClick={() => {
+                          setOrderStep({ step: 'resident' })
+                          setCurrentSuggestionIndex(0)
+                        }}
+                        className='text-gray-400 hover:text-white'
+                      >
+                        <ChevronLeft className='h-4 w-4 mr-1' />
+                        {orderStep.predicted
+                          ? `Not ${orderStep.selectedResident.name}?`
+                          : 'Back to resident selection'}
+                      </Button>
+
+                      {orderStep.selectedResident.dietaryRestrictions &&
+                        orderStep.selectedResident.dietaryRestrictions.length > 0 && (
+                          <div className='text-xs text-yellow-400'>
+                            Dietary:{' '}
+                            {orderStep.selectedResident.dietaryRestrictions.join(', ')}
+                          </div>
+                        )}
 
-                        return (
-                          <>
-                            {/* Back Button */}
+                      {usualOrdersLoading ? (
+                        <div className='text-center py-8 text-gray-400'>
+                          Loading usual orders...
+                        </div>
+                      ) : usualOrders.length === 0 ? (
+                        <div className='text-center py-6 text-gray-300'>
+                          No usual orders for {orderStep.selectedResident.name}
+                        </div>
+                      ) : (
+                        <div className='space-y-2'>
+                          <div className='text-sm text-gray-400'>
+                            {orderStep.selectedResident.name}&apos;s usual
+                          </div>
+                          {usualOrders.map(usual => (
                             <Button
-                              variant='ghost'
-                              size='sm'
-                              onClick={() => setOrderStep({ step: 'resident' })}
-                              className='text-gray-400 hover:text-white mb-4'
+                              key={usual.items.join('|')}
+                              onClick={() => handleReorder(usual)}
+                              className='w-full h-auto py-3 bg-gray-900/50 hover:bg-green-700 border border-gray-700 text-left justify-between'
                             >
-                              <ChevronLeft className='h-4 w-4 mr-1' />
-                              Back to resident selection
+                              <span className='flex items-center gap-3 min-w-0'>
+                                <Utensils className='h-5 w-5 text-orange-400 flex-shrink-0' />
+                                <span className='text-white font-semibold whitespace-normal'>
+                                  {usual.items.join(', ')}
+                                </span>
+                              </span>
+                              <span className='text-xs text-gray-400 flex-shrink-0 ml-2'>
+                                {usual.frequency}×
+                              </span>
                             </Button>
+                          ))}
+                        </div>
+                      )}
 
-                            {/* Main Meal Suggestion Display */}
-                            <div className='bg-gray-900/50 rounded-lg p-6 text-center'>
-                              <div className='mb-4'>
-                                <Utensils className='h-16 w-16 text-orange-400 mx-auto mb-3' />
-                                <h3 className='text-xl font-bold text-white mb-2'>
-                                  {currentMeal.dish}
-                                </h3>
-                                <div className='text-sm text-gray-400 mb-2'>
-                                  {orderStep.selectedResident.name}'s #
-                                  {currentMeal.frequency}/10 favorite for{' '}
-                                  {getCurrentMealTime()}
-                                </div>
-                                <div className='text-xs text-green-400'>
-                                  Perfect for {getCurrentMealTime()} time
-                                </div>
-                              </div>
-
-                              <Button
-                                onClick={() =>
-                                  handleSelectMeal(currentMeal.dish)
-                                }
-                                className='w-full bg-green-600 hover:bg-green-700 text-white font-semibold'
-                                size='lg'
-                              >
-                                Order {currentMeal.dish}
-                              </Button>
-                            </div>
-
-                            {/* Navigation */}
-                            {mealSuggestions.length > 1 && (
-                              <div className='flex items-center justify-between'>
-                                <Button
-                                  variant='outline'
-                                  size='sm'
-                                  onClick={() =>
-                                    setCurrentSuggestionIndex(
-                                      Math.max(0, currentSuggestionIndex - 1)
-                                    )
-                                  }
-                                  disabled={currentSuggestionIndex === 0}
-                                  className='border-gray-600 text-gray-300'
-                                >
-                                  <ChevronLeft className='h-4 w-4 mr-1' />
-                                  Previous
-                                </Button>
-
-                                <div className='text-gray-400 text-sm'>
-                                  {currentSuggestionIndex + 1} of{' '}
-                                  {mealSuggestions.length}
-                                </div>
-
-                                <Button
-                                  variant='outline'
-                                  size='sm'
-                                  onClick={() =>
-                                    setCurrentSuggestionIndex(
-                                      Math.min(
-                                        mealSuggestions.length - 1,
-                                        currentSuggestionIndex + 1
-                                      )
-                                    )
-                                  }
-                                  disabled={
-                                    currentSuggestionIndex ===
-                                    mealSuggestions.length - 1
-                                  }
-                                  className='border-gray-600 text-gray-300'
-                                >
-                                  Next
-                                  <ChevronRight className='h-4 w-4 ml-1' />
-                                </Button>
-                              </div>
-                            )}
-
-                            {/* Record New Order Option */}
-                            <div className='pt-4 border-t border-gray-600'>
-                              <Button
-                                variant='outline'
-                                className='w-full border-gray-600 text-gray-300 hover:bg-gray-700'
-                                onClick={() => {
-                                  // Recording new order
-                                  setShowVoiceRecording(true)
-                                }}
-                              >
-                                🎤 Record New Order
-                              </Button>
-                            </div>
-                          </>
-                        )
-                      })()}
+                      {/* Record New Order Option */}
+                      <div className='pt-4 border-t border-gray-600'>
+                        <Button
+                          variant='outline'
+                          className='w-full border-gray-600 text-gray-300 hover:bg-gray-700'
+                          onClick={() => setShowVoiceRecording(true)}
+                        >
+                          🎤 Record New Order
+                        </Button>
+                      </div>
                     </div>
                   )}
                 </CardContent>
@@ -1330,6 +1617,62 @@ export function ServerClientComponent({
           </div>
         )}
       </div>
+
+      <DietaryConflictDialog
+        violations={dietaryConflict?.violations ?? null}
+        residentName={dietaryConflict?.residentName}
+        onOverride={reason =>
+          dietaryConflict
+            ? dietaryConflict.submitWithOverride(reason)
+            : Promise.resolve()
+        }
+        onCancel={() => setDietaryConflict(null)}
+      />
+
+      <OutOfServiceDialog
+        conflict={outOfService?.conflict ?? null}
+        onSendAnyway={() =>
+          outOfService ? outOfService.sendAnyway() : Promise.resolve()
+        }
+        onCancel={() => setOutOfService(null)}
+      />
+
+      <OutOfSectionDialog
+        conflict={outOfSection?.conflict ?? null}
+        tableLabel={outOfSection?.tableLabel}
+        onSendAnyway={() =>
+          outOfSection ? outOfSection.sendAnyway() : Promise.resolve()
+        }
+        onCancel={() => setOutOfSection(null)}
+      />
+
+      {selectedTable && (
+        <TransferTableDialog
+          open={showTransfer}
+          tableLabel={selectedTable.label}
+          ownerId={sections.owners.get(selectedTable.id) ?? null}
+          servers={sections.servers}
+          onTransfer={async (toServerId, reason) => {
+            await sections.transfer(selectedTable.id, toServerId, reason)
+            const name = sections.getServerName(toServerId)
+            toast({
+              title: `Table ${selectedTable.label} transferred`,
+              description: name ? `Now in ${name}'s section` : undefined,
+              duration: 3000,
+            })
+          }}
+          onOpenChange={setShowTransfer}
+        />
+      )}
+
+      <ThicknessRequiredDialog
+        conflict={thicknessRequired?.conflict ?? null}
+        residentName={orderStep.selectedResident?.name}
+        onThicken={() =>
+          thicknessRequired ? thicknessRequired.thicken() : Promise.resolve()
+        }
+        onCancel={() => setThicknessRequired(null)}
+      />
     </Shell>
   )
 }
@@ -1,6 +1,6 @@
 'use client'
 
-import { Suspense, memo } from 'react'
+import { Suspense, memo, useCallback } from 'react'
 import dynamic from 'next/dynamic'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -10,6 +10,11 @@ import { AlertCircle, MapPin } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useOrderFlow } from '@/lib/state/order-flow-context'
 import { useServerPageData } from '@/lib/hooks/use-server-page-data'
+import { useServerSections } from '@/hooks/use-server-sections'
+import { useToast } from '@/hooks/use-toast'
+import { setTableState } from '@/lib/modassembly/supabase/database/table-lifecycle'
+import type { Table } from '@/lib/floor-plan-utils'
+import type { TableLifecycleState } from '@/types/database'
 import { PageLoadingState } from '@/components/loading-states'
 
 // Dynamic import for FloorPlanView to reduce bundle size
@@ -89,8 +94,29 @@ function FloorPlanErrorBoundary({ children }: { children: React.ReactNode }) {
 }
 
 function FloorPlanContent() {
-  const { tables, loading, error } = useServerPageData()
+  const { tables, user, loading, error, refreshTables } = useServerPageData()
   const { actions } = useOrderFlow()
+  const { ownTableIds } = useServerSections(user?.id ?? null)
+  const { toast } = useToast()
+
+  const changeTableState = useCallback(
+    async (table: Table, state: TableLifecycleState) => {
+      try {
+        await setTableState(table.id, state)
+        await refreshTables()
+      } catch (err) {
+        console.error("Error updating table state:", err)
+        toast({
+          title: "Table not updated",
+          description:
+            err instanceof Error ? err.message : "Could not update table state",
+          variant: "destructive",
+          duration: 3000,
+        })
+      }
+    },
+    [refreshTables, toast]
+  )
 
   if (loading) {
     return (
@@ -128,11 +154,18 @@ function FloorPlanContent() {
 
   return (
     <div className="p-6">
+      {ownTableIds.size > 0 && (
+        <Badge variant="secondary" className="mb-3 bg-amber-900/40 text-amber-300">
+          {ownTableIds.size} {ownTableIds.size === 1 ? "table" : "tables"} in your section
+        </Badge>
+      )}
       <FloorPlanErrorBoundary>
         <FloorPlanView
           floorPlanId="default"
           onSelectTable={actions.selectTable}
           tables={tables}
+          highlightedTableIds={ownTableIds}
+          onChangeTableState={changeTableState}
         />
       </FloorPlanErrorBoundary>
     </div>
@@ -0,0 +1,177 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Map as MapIcon, Settings2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { useToast } from '@/hooks/use-toast'
+import {
+  fetchFloorPlans,
+  fetchServiceFloorPlanIds,
+  getActiveFloorPlans,
+  setServiceFloorPlans,
+} from '@/lib/modassembly/supabase/database/floor-plan'
+import { getCurrentService } from '@/lib/modassembly/supabase/database/meal-services'
+import type { FloorPlan, MealService } from '@/types/database'
+import { cn } from '@/lib/utils'
+
+type ServiceFloorPlansProps = {
+  floorPlanId: string | null
+  onChange: (_floorPlan: FloorPlan | null) => void
+}
+
+/**
+ * Rooms open for the current meal service, and a picker for staff to open
+ * or close them
+ */
+export function ServiceFloorPlans({
+  floorPlanId,
+  onChange,
+}: ServiceFloorPlansProps) {
+  const [floorPlans, setFloorPlans] = useState<FloorPlan[]>([])
+  const [service, setService] = useState<MealService | null>(null)
+  const [openIds, setOpenIds] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  // Changing rooms must not refetch the plans
+  const selectionRef = useRef({ floorPlanId, onChange })
+  selectionRef.current = { floorPlanId, onChange }
+
+  const selectFrom = useCallback((plans: FloorPlan[]) => {
+    const { floorPlanId: current, onChange: select } = selectionRef.current
+    select(plans.find(plan => plan.id === current) ?? plans[0] ?? null)
+  }, [])
+
+  const loadFloorPlans = useCallback(async () => {
+    try {
+      const [plans, currentService] = await Promise.all([
+        fetchFloorPlans(),
+        getCurrentService(),
+      ])
+      const serviceIds = currentService
+        ? await fetchServiceFloorPlanIds(currentService.id)
+        : []
+      setFloorPlans(plans)
+      setService(currentService)
+      setOpenIds(serviceIds)
+      selectFrom(getActiveFloorPlans(plans, serviceIds))
+    } catch (error) {
+      console.error('Error loading floor plans:', error)
+      toast({
+        title: 'Error loading floor plans',
+        description: 'Showing all tables',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }, [selectFrom, toast])
+
+  useEffect(() => {
+    loadFloorPlans()
+  }, [loadFloorPlans])
+
+  const activePlans = getActiveFloorPlans(floorPlans, openIds)
+
+  const toggleOpen = async (planId: string, open: boolean) => {
+    if (!service) {
+      return
+    }
+    // No rows means every plan is open, so start from the full list
+    const current = openIds.length > 0 ? openIds : floorPlans.map(p => p.id)
+    const next = open
+      ? [...current, planId]
+      : current.filter(id => id !== planId)
+    if (next.length === 0) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const ids = next.length === floorPlans.length ? [] : next
+      await setServiceFloorPlans(service.id, ids)
+      setOpenIds(ids)
+      selectFrom(getActiveFloorPlans(floorPlans, ids))
+    } catch (error) {
+      console.error('Error updating service floor plans:', error)
+      toast({
+        title: 'Rooms not updated',
+        description:
+          error instanceof Error ? error.message : 'Could not update rooms',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (floorPlans.length < 2) {
+    return null
+  }
+
+  return (
+    <div className='flex flex-wrap items-center gap-2'>
+      <MapIcon className='h-4 w-4 text-gray-400' />
+      {activePlans.map(plan => (
+        <Button
+          key={plan.id}
+          size='sm'
+          variant='outline'
+          onClick={() => onChange(plan)}
+          className={cn(
+            'border-gray-600 text-gray-300 hover:bg-gray-800',
+            plan.id === floorPlanId && 'bg-gray-700 text-white'
+          )}
+        >
+          {plan.name}
+        </Button>
+      ))}
+      {service && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              size='sm'
+              variant='ghost'
+              className='text-gray-400 hover:bg-gray-800'
+            >
+              <Settings2 className='h-4 w-4 mr-1' />
+              Rooms
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className='w-64'>
+            <div className='mb-2 text-sm font-medium'>
+              Open for {service.name}
+            </div>
+            <div className='space-y-2'>
+              {floorPlans.map(plan => {
+                const open = openIds.length === 0 || openIds.includes(plan.id)
+                return (
+                  <div key={plan.id} className='flex items-center gap-2'>
+                    <Checkbox
+                      id={`service-plan-${plan.id}`}
+                      checked={open}
+                      disabled={isSaving}
+                      onCheckedChange={checked =>
+                        toggleOpen(plan.id, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`service-plan-${plan.id}`}>
+                      {plan.name}
+                    </Label>
+                  </div>
+                )
+              })}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  )
+}
@@ -11,9 +11,11 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Clock, MapPin, User } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import {
+  getPredictedResident,
   getSeatResidentSuggestions,
   getTimeBasedResidentSuggestions,
 } from '@/lib/modassembly/supabase/database/suggestions'
@@ -35,6 +37,8 @@ interface ResidentSuggestion {
   resident_id: string
   name: string
   reason: string
+  photo_url?: string | null
+  room_number?: string | null
 }
 
 export function SimpleResidentSelector({
@@ -67,7 +71,9 @@ export function SimpleResidentSelector({
         const recentSeatResidents = seatSuggestions.map(sug => ({
           resident_id: sug.resident_id,
           name: sug.name,
-          reason: `Usually sits here`,
+          reason: sug.preferred ? 'Usual seat' : `Usually sits here`,
+          photo_url: sug.photo_url,
+          room_number: sug.care?.room_number,
         }))
 
         // Load residents who typically dine at this time
@@ -85,10 +91,18 @@ export function SimpleResidentSelector({
             resident_id: sug.resident_id,
             name: sug.name,
             reason: `Often dines now`,
+            photo_url: sug.photo_url,
+            room_number: sug.care?.room_number,
           }))
 
         setRecentResidents([...recentSeatResidents, ...recentTimeResidents])
 
+        // Pre-select whoever clearly sits here at this meal
+        const predicted = getPredictedResident(seatSuggestions)
+        if (predicted) {
+          setSelectedResident(predicted.resident_id)
+        }
+
         // Load all residents for manual selection
         const residents = await getAllResidents()
         setAllResidents(residents)
@@ -156,9 +170,29 @@ export function SimpleResidentSelector({
                 className='w-full p-3 h-auto flex items-center justify-between hover:bg-primary/5'
                 onClick={() => handleResidentSelect(resident.resident_id)}
               >
-                <span className='font-medium'>{resident.name}</span>
+                <span className='flex items-center gap-2'>
+                  <Avatar className='h-8 w-8'>
+                    {resident.photo_url && (
+                      <AvatarImage
+                        src={resident.photo_url}
+                        alt={resident.name}
+                        className='object-cover'
+                      />
+                    )}
+                    <AvatarFallback>
+                      <User className='h-4 w-4' />
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className='font-medium'>{resident.name}</span>
+                  {resident.room_number && (
+                    <span className='text-xs text-muted-foreground'>
+                      Room {resident.room_number}
+                    </span>
+                  )}
+                </span>
                 <span className='text-xs text-muted-foreground flex items-center gap-1'>
-                  {resident.reason.includes('sits') ? (
+                  {resident.reason.includes('seat') ||
+                  resident.reason.includes('sits') ? (
                     <MapPin className='h-3 w-3' />
                   ) : (
                     <Clock className='h-3 w-3' />
@@ -187,6 +221,7 @@ export function SimpleResidentSelector({
               {allResidents.map(resident => (
                 <SelectItem key={resident.id} value={resident.id}>
                   {resident.name}
+                  {resident.room_number && ` · Room ${resident.room_number}`}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -23,7 +23,7 @@ type TableType = {
 }
 
 type TableListProps = {
-  floorPlanId: string
+  floorPlanId: string | null
 }
 
 export function TableList({ floorPlanId }: TableListProps) {
@@ -32,8 +32,12 @@ export function TableList({ floorPlanId }: TableListProps) {
   // Load tables from database
   useEffect(() => {
     const loadTables = async () => {
+      if (!floorPlanId) {
+        setTables([])
+        return
+      }
       try {
-        const floorPlanTables = await loadFloorPlanTables()
+        const floorPlanTables = await loadFloorPlanTables(floorPlanId)
         const convertedTables: TableType[] = floorPlanTables.map(
           (table, index) => ({
             id: table.id,
@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Loader2, Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  TABLE_STATES,
+  TABLE_STATE_COLORS,
+  TABLE_STATE_LABELS,
+  formatElapsed,
+  getNextTableState,
+} from '@/lib/modassembly/supabase/database/table-lifecycle'
+import type { TableLifecycleState } from '@/types/database'
+
+// What staff do to move a table on from each state
+const ADVANCE_LABELS: Record<TableLifecycleState, string> = {
+  available: 'Seat party',
+  seated: 'Mark ordered',
+  ordered: 'Mark served',
+  served: 'Close check',
+  finished: 'Start bussing',
+  bussing: 'Mark available',
+}
+
+type TableStateControlProps = {
+  state: TableLifecycleState
+  changedAt?: string | null
+  onChange: (_state: TableLifecycleState) => Promise<void>
+  className?: string
+}
+
+/**
+ * A table's lifecycle state with how long it has been in it, a button for
+ * the usual next step and a picker to override the state
+ */
+export function TableStateControl({
+  state,
+  changedAt,
+  onChange,
+  className,
+}: TableStateControlProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const change = async (next: TableLifecycleState) => {
+    if (next === state) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      await onChange(next)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <span className='flex items-center gap-1.5 text-sm text-gray-300'>
+        <span
+          className='inline-block h-2.5 w-2.5 rounded-full'
+          style={{ backgroundColor: TABLE_STATE_COLORS[state] }}
+        />
+        {TABLE_STATE_LABELS[state]}
+      </span>
+      {state !== 'available' && changedAt && (
+        <span className='flex items-center gap-1 font-mono text-sm text-gray-400'>
+          <Timer className='h-3.5 w-3.5' />
+          {formatElapsed(changedAt, now)}
+        </span>
+      )}
+      <div className='ml-auto flex items-center gap-2'>
+        <Select
+          value={state}
+          onValueChange={value => change(value as TableLifecycleState)}
+          disabled={isSaving}
+        >
+          <SelectTrigger
+            className='h-8 w-40 bg-gray-800 border-gray-700'
+            title='Set state'
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TABLE_STATES.map(option => (
+              <SelectItem key={option} value={option}>
+                {TABLE_STATE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size='sm'
+          onClick={() => change(getNextTableState(state))}
+          disabled={isSaving}
+        >
+          {isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+          {ADVANCE_LABELS[state]}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2, Soup } from 'lucide-react'
+import {
+  FLUID_THICKNESS_LABELS,
+  type ThicknessRequiredError,
+  formatThicknessLevel,
+} from '@/lib/iddsi'
+
+type ThicknessRequiredDialogProps = {
+  conflict: Pick<ThicknessRequiredError, 'itemNames' | 'required'> | null
+  residentName?: string
+  onThicken: () => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Shown when createOrder refuses drinks that are not thickened to the
+ * resident's IDDSI level. The only way through is to thicken them.
+ */
+export function ThicknessRequiredDialog({
+  conflict,
+  residentName,
+  onThicken,
+  onCancel,
+}: ThicknessRequiredDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleThicken = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onThicken()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={!!conflict}>
+      <AlertDialogContent className='bg-gray-900 border-purple-600 text-white'>
+        <AlertDialogHeader>
+          <AlertDialogTitle className='flex items-center gap-2 text-purple-300'>
+            <Soup className='h-5 w-5' />
+            Thickened fluids required
+          </AlertDialogTitle>
+          <AlertDialogDescription className='text-gray-300'>
+            {residentName || 'This resident'} must have drinks at{' '}
+            {conflict && formatThicknessLevel(conflict.required)}. These
+            drinks are not thickened to that level:
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className='space-y-2'>
+          {conflict?.itemNames.map(name => (
+            <li
+              key={name}
+              className='rounded-md border border-purple-500 bg-purple-950/40 p-2 text-sm font-semibold'
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+        {error && <p className='text-sm text-red-400'>{error}</p>}
+
+        <AlertDialogFooter>
+          <Button variant='outline' onClick={onCancel} disabled={isSubmitting}>
+            Change order
+          </Button>
+          <Button onClick={handleThicken} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Make {conflict && FLUID_THICKNESS_LABELS[conflict.required].toLowerCase()}{' '}
+            and send
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
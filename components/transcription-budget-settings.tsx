@@ -0,0 +1,450 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, Mic, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { getClientUser } from '@/lib/modassembly/supabase/auth/session'
+import { type User, getStaffUsers } from '@/lib/modassembly/supabase/database/users'
+import {
+  type TranscriptionBudgetAlert,
+  createTranscriptionBudget,
+  deleteTranscriptionBudget,
+  fetchTranscriptionBudgetAlerts,
+  fetchTranscriptionBudgets,
+  updateTranscriptionBudget,
+} from '@/lib/modassembly/supabase/database/transcription-budgets'
+import type {
+  TranscriptionBudget,
+  TranscriptionBudgetAction,
+  TranscriptionBudgetPeriod,
+  TranscriptionBudgetScope,
+  UserRole,
+} from '@/types/database'
+
+const SCOPES: { value: TranscriptionBudgetScope; label: string }[] = [
+  { value: 'facility', label: 'Facility' },
+  { value: 'role', label: 'Role' },
+  { value: 'user', label: 'User' },
+]
+
+const ROLES: UserRole[] = ['admin', 'cook', 'server', 'resident']
+
+const PERIODS: { value: TranscriptionBudgetPeriod; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+]
+
+const ACTIONS: { value: TranscriptionBudgetAction; label: string }[] = [
+  { value: 'cheaper_model', label: 'Cheaper model' },
+  { value: 'cache_only', label: 'Cache only' },
+]
+
+// Role and user budgets without a specific target apply to everyone else
+const EVERYONE = 'everyone'
+
+export function TranscriptionBudgetSettings() {
+  const [budgets, setBudgets] = useState<TranscriptionBudget[]>([])
+  const [alerts, setAlerts] = useState<TranscriptionBudgetAlert[]>([])
+  const [staff, setStaff] = useState<User[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [newScope, setNewScope] = useState<TranscriptionBudgetScope>('role')
+  const [newScopeValue, setNewScopeValue] = useState(EVERYONE)
+  const [newPeriod, setNewPeriod] = useState<TranscriptionBudgetPeriod>('day')
+  const [newLimit, setNewLimit] = useState('5')
+  const [newAction, setNewAction] =
+    useState<TranscriptionBudgetAction>('cheaper_model')
+  const { toast } = useToast()
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      const [budgetData, alertData, staffData] = await Promise.all([
+        fetchTranscriptionBudgets(),
+        fetchTranscriptionBudgetAlerts(),
+        getStaffUsers(),
+      ])
+      setBudgets(budgetData)
+      setAlerts(alertData)
+      setStaff(staffData)
+    } catch (error) {
+      console.error('Error loading transcription budgets:', error)
+      toast({
+        title: 'Error loading budgets',
+        description: 'Could not load voice transcription budgets',
+        variant: 'destructive',
+        duration: 3000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadBudgets()
+  }, [loadBudgets])
+
+  // Wrap a mutation with reload + error toast
+  const runMutation = async (action: () => Promise<unknown>, label: string) => {
+    try {
+      await action()
+      await loadBudgets()
+    } catch (error) {
+      console.error(`Error ${label}:`, error)
+      toast({
+        title: 'Budget update failed',
+        description:
+          error instanceof Error ? error.message : `Could not ${label}`,
+        variant: 'destructive',
+        duration: 3000,
+      })
+    }
+  }
+
+  const describeTarget = (budget: Pick<TranscriptionBudget, 'scope' | 'scope_value'>) => {
+    if (budget.scope === 'facility') {
+      return 'Whole facility'
+    }
+    if (!budget.scope_value) {
+      return budget.scope === 'role' ? 'Every role' : 'Every user'
+    }
+    if (budget.scope === 'user') {
+      return staff.find(member => member.id === budget.scope_value)?.name || 'Unknown user'
+    }
+    return budget.scope_value.charAt(0).toUpperCase() + budget.scope_value.slice(1)
+  }
+
+  const addBudget = async () => {
+    const limit = parseFloat(newLimit)
+    if (!Number.isFinite(limit) || limit < 0) {
+      return
+    }
+
+    const user = await getClientUser()
+    runMutation(
+      () =>
+        createTranscriptionBudget({
+          scope: newScope,
+          scope_value: newScopeValue === EVERYONE ? null : newScopeValue,
+          period: newPeriod,
+          limit_usd: limit,
+          exhausted_action: newAction,
+          updated_by: user?.id ?? null,
+        }),
+      'add budget'
+    )
+  }
+
+  const updateLimit = (budget: TranscriptionBudget, value: string) => {
+    const limit = parseFloat(value)
+    if (!Number.isFinite(limit) || limit < 0 || limit === budget.limit_usd) {
+      return
+    }
+    runMutation(
+      () => updateTranscriptionBudget(budget.id, { limit_usd: limit }),
+      'update limit'
+    )
+  }
+
+  const updateWarning = (budget: TranscriptionBudget, value: string) => {
+    const pct = parseInt(value, 10)
+    if (!Number.isFinite(pct) || pct < 1 || pct > 100 || pct === budget.warning_pct) {
+      return
+    }
+    runMutation(
+      () => updateTranscriptionBudget(budget.id, { warning_pct: pct }),
+      'update warning threshold'
+    )
+  }
+
+  if (isLoading) {
+    return <div className='p-6 text-gray-400'>Loading voice budgets...</div>
+  }
+
+  return (
+    <div className='space-y-6'>
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <div className='flex items-center gap-2'>
+            <Mic className='h-5 w-5 text-gray-400' />
+            <CardTitle>Voice Transcription Budgets</CardTitle>
+          </div>
+          <CardDescription>
+            Spend limits for voice ordering. A spent budget never stops
+            service: transcription switches to the cheaper model or to cached
+            phrases only until the period resets.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-6 gap-2'>
+            <Select
+              value={newScope}
+              onValueChange={value => {
+                setNewScope(value as TranscriptionBudgetScope)
+                setNewScopeValue(EVERYONE)
+              }}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCOPES.map(scope => (
+                  <SelectItem key={scope.value} value={scope.value}>
+                    {scope.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={newScopeValue}
+              onValueChange={setNewScopeValue}
+              disabled={newScope === 'facility'}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERYONE}>
+                  {newScope === 'user' ? 'Every user' : newScope === 'role' ? 'Every role' : 'Whole facility'}
+                </SelectItem>
+                {newScope === 'role' &&
+                  ROLES.map(role => (
+                    <SelectItem key={role} value={role}>
+                      {role.charAt(0).toUpperCase() + role.slice(1)}
+                    </SelectItem>
+                  ))}
+                {newScope === 'user' &&
+                  staff.map(member => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={newPeriod}
+              onValueChange={value => setNewPeriod(value as TranscriptionBudgetPeriod)}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => (
+                  <SelectItem key={period.value} value={period.value}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={newLimit}
+              onChange={e => setNewLimit(e.target.value)}
+              placeholder='Limit ($)'
+              inputMode='decimal'
+              className='bg-gray-800/50 border-gray-700'
+            />
+            <Select
+              value={newAction}
+              onValueChange={value => setNewAction(value as TranscriptionBudgetAction)}
+            >
+              <SelectTrigger className='bg-gray-800/50 border-gray-700'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACTIONS.map(action => (
+                  <SelectItem key={action.value} value={action.value}>
+                    {action.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addBudget} variant='outline' className='gap-2'>
+              <Plus className='h-4 w-4' />
+              Add budget
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Limit ($)</TableHead>
+                <TableHead>Warn at (%)</TableHead>
+                <TableHead>When spent</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className='w-12' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {budgets.map(budget => (
+                <TableRow key={budget.id}>
+                  <TableCell>
+                    <div className='font-medium'>{describeTarget(budget)}</div>
+                    <div className='text-xs text-gray-500 capitalize'>
+                      {budget.scope}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {PERIODS.find(period => period.value === budget.period)?.label}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      defaultValue={String(budget.limit_usd)}
+                      onBlur={e => updateLimit(budget, e.target.value)}
+                      inputMode='decimal'
+                      className='h-8 w-24 bg-gray-800/50 border-gray-700'
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      defaultValue={String(budget.warning_pct)}
+                      onBlur={e => updateWarning(budget, e.target.value)}
+                      inputMode='numeric'
+                      className='h-8 w-20 bg-gray-800/50 border-gray-700'
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={budget.exhausted_action}
+                      onValueChange={value =>
+                        runMutation(
+                          () =>
+                            updateTranscriptionBudget(budget.id, {
+                              exhausted_action: value as TranscriptionBudgetAction,
+                            }),
+                          'update budget action'
+                        )
+                      }
+                    >
+                      <SelectTrigger className='h-8 w-40 bg-gray-800/50 border-gray-700'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACTIONS.map(action => (
+                          <SelectItem key={action.value} value={action.value}>
+                            {action.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={budget.enabled}
+                      onCheckedChange={checked =>
+                        runMutation(
+                          () => updateTranscriptionBudget(budget.id, { enabled: checked }),
+                          'update budget'
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size='sm'
+                      variant='ghost'
+                      onClick={() =>
+                        runMutation(
+                          () => deleteTranscriptionBudget(budget.id),
+                          'delete budget'
+                        )
+                      }
+                    >
+                      <Trash2 className='h-4 w-4' />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {budgets.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className='text-center text-gray-500'>
+                    No budgets: voice transcription is unlimited
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className='bg-gray-900/50 border-gray-800 shadow-lg'>
+        <CardHeader>
+          <CardTitle>Recent Budget Alerts</CardTitle>
+          <CardDescription>
+            Raised once per budget period when spend reaches the warning
+            threshold and again when the budget is spent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className='space-y-2'>
+          {alerts.length === 0 ? (
+            <p className='text-sm text-gray-500'>No alerts</p>
+          ) : (
+            alerts.map(alert => (
+              <div
+                key={alert.id}
+                className='flex items-center justify-between gap-3 text-sm'
+              >
+                <div className='flex items-center gap-2'>
+                  <AlertTriangle
+                    className={
+                      alert.event_data.severity === 'critical'
+                        ? 'h-4 w-4 text-red-400'
+                        : 'h-4 w-4 text-yellow-400'
+                    }
+                  />
+                  <span>
+                    {describeTarget(alert.event_data)}:{' '}
+                    ${Number(alert.event_data.spent_usd).toFixed(2)} of $
+                    {Number(alert.event_data.limit_usd).toFixed(2)} (
+                    {alert.event_data.period})
+                  </span>
+                </div>
+                <div className='flex items-center gap-2'>
+                  <Badge
+                    className={
+                      alert.event_data.severity === 'critical'
+                        ? 'bg-red-600'
+                        : 'bg-yellow-600'
+                    }
+                  >
+                    {alert.event_data.severity}
+                  </Badge>
+                  <span className='text-xs text-gray-500'>
+                    {new Date(alert.triggered_at).toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import type { User } from '@/lib/modassembly/supabase/database/users'
+
+type TransferTableDialogProps = {
+  open: boolean
+  tableLabel: string
+  ownerId: string | null
+  servers: User[]
+  onTransfer: (_toServerId: string, _reason: string) => Promise<void>
+  onOpenChange: (_open: boolean) => void
+}
+
+/**
+ * Hand a table to another server for the rest of the shift
+ */
+export function TransferTableDialog({
+  open,
+  tableLabel,
+  ownerId,
+  servers,
+  onTransfer,
+  onOpenChange,
+}: TransferTableDialogProps) {
+  const [toServerId, setToServerId] = useState('')
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fresh form every time it opens
+  useEffect(() => {
+    if (open) {
+      setToServerId('')
+      setReason('')
+      setError(null)
+    }
+  }, [open])
+
+  const handleTransfer = async () => {
+    if (!toServerId) {
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onTransfer(toServerId, reason)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer table')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const owner = servers.find(server => server.id === ownerId)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='bg-gray-900 border-gray-700 text-white'>
+        <DialogHeader>
+          <DialogTitle>Transfer Table {tableLabel}</DialogTitle>
+          <DialogDescription className='text-gray-400'>
+            {owner
+              ? `Currently in ${owner.name}'s section.`
+              : "Not in anyone's section this shift."}{' '}
+            The new server takes it for the rest of the shift.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='space-y-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='transfer-server'>Transfer to</Label>
+            <Select value={toServerId} onValueChange={setToServerId}>
+              <SelectTrigger
+                id='transfer-server'
+                className='bg-gray-800 border-gray-700'
+              >
+                <SelectValue placeholder='Choose a server' />
+              </SelectTrigger>
+              <SelectContent>
+                {servers
+                  .filter(server => server.id !== ownerId)
+                  .map(server => (
+                    <SelectItem key={server.id} value={server.id}>
+                      {server.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='transfer-reason'>Reason (optional)</Label>
+            <Input
+              id='transfer-reason'
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder='e.g. Going on break'
+              className='bg-gray-800 border-gray-700'
+            />
+          </div>
+          {error && <p className='text-sm text-red-400'>{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant='outline'
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleTransfer}
+            disabled={!toServerId || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { memo, useCallback, useMemo } from 'react'
+import React, { memo, useCallback, useMemo, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/hooks/use-toast'
 import {
@@ -6,13 +6,22 @@ import {
   CheckCircle2,
   Loader2,
   Mic,
+  Pencil,
   Square,
   XCircle,
 } from 'lucide-react'
 // Removed framer-motion import - using CSS animations
 import { VoiceProcessingLoader } from '@/components/loading-states'
+import { OrderLineModifierEditor } from '@/components/order-line-modifier-editor'
 import { sanitizeText } from '@/lib/utils/security'
 import { useVoiceRecordingState } from '@/lib/hooks/use-voice-recording-state'
+import type { ResolvedOrderLine } from '@/lib/modassembly/openai/menu-item-resolver'
+import { formatModifier } from '@/lib/order-modifiers'
+import type {
+  MenuModifier,
+  OrderItemModifier,
+  OrderLineInput,
+} from '@/types/database'
 
 type VoiceOrderPanelProps = {
   tableId: string
@@ -21,6 +30,8 @@ type VoiceOrderPanelProps = {
   orderType: 'food' | 'drink'
   onOrderSubmitted?: (orderData: {
     items: string[]
+    // Catalog lines resolved from the transcription (empty without a menu)
+    lines: OrderLineInput[]
     transcription: string
   }) => void
   onCancel?: () => void
@@ -54,10 +65,11 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
   const { toast } = useToast()
 
   const voiceState = useVoiceRecordingState({
-    onSuccess: items => {
+    onSuccess: (items, lines) => {
       if (onOrderSubmitted) {
         onOrderSubmitted({
           items,
+          lines,
           transcription: voiceState.transcription,
         })
       }
@@ -70,6 +82,7 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
       })
     },
     maxRetries: 3,
+    orderType: ['food', 'drink'].includes(orderType) ? orderType : 'food',
   })
 
   // Early return if props are invalid
@@ -179,19 +192,41 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
             <p className='text-sm font-medium mb-3 text-muted-foreground'>
               Your Order:
             </p>
-            <ul className='space-y-2 voice-order-list'>
-              {voiceState.transcriptionItems.map(
-                (item: string, index: number) => (
-                  <li
-                    key={index}
-                    className={`text-base flex items-center justify-center bg-white p-2 rounded shadow-sm voice-order-item-${Math.min(index + 1, 10)}`}
-                  >
-                    <span className='w-2 h-2 bg-primary rounded-full mr-3'></span>
-                    {item}
-                  </li>
-                )
-              )}
-            </ul>
+            {voiceState.resolvedLines.length > 0 ? (
+              <ul className='space-y-2 voice-order-list'>
+                {voiceState.resolvedLines.map(
+                  (line: ResolvedOrderLine, index: number) => (
+                    <ResolvedLineItem
+                      key={index}
+                      line={line}
+                      index={index}
+                      onConfirm={voiceState.confirmLine}
+                      onRemove={voiceState.removeLine}
+                      onUpdateModifiers={voiceState.updateLineModifiers}
+                      catalogModifiers={
+                        line.match
+                          ? voiceState.getCatalogModifiers(line.match.menuItemId)
+                          : []
+                      }
+                    />
+                  )
+                )}
+              </ul>
+            ) : (
+              <ul className='space-y-2 voice-order-list'>
+                {voiceState.transcriptionItems.map(
+                  (item: string, index: number) => (
+                    <li
+                      key={index}
+                      className={`text-base flex items-center justify-center bg-white p-2 rounded shadow-sm voice-order-item-${Math.min(index + 1, 10)}`}
+                    >
+                      <span className='w-2 h-2 bg-primary rounded-full mr-3'></span>
+                      {item}
+                    </li>
+                  )
+                )}
+              </ul>
+            )}
           </div>
         ) : (
           <div className='w-full p-4 border rounded-md bg-muted text-muted-foreground text-center'>
@@ -278,7 +313,9 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
             <Button
               size='lg'
               onClick={handleConfirmOrder}
-              disabled={voiceState.isSubmitting}
+              disabled={
+                voiceState.isSubmitting || voiceState.pendingConfirmations > 0
+              }
               className='touch-manipulation touch-safe-mobile min-h-[48px] w-full md:w-auto font-medium shadow-premium'
             >
               {voiceState.isSubmitting ? (
@@ -286,6 +323,12 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
                   <Loader2 className='mr-2 h-5 w-5 animate-spin' />{' '}
                   Submitting...
                 </>
+              ) : voiceState.pendingConfirmations > 0 ? (
+                <>
+                  <AlertCircle className='mr-2 h-5 w-5' /> Confirm{' '}
+                  {voiceState.pendingConfirmations} item
+                  {voiceState.pendingConfirmations === 1 ? '' : 's'}
+                </>
               ) : (
                 <>
                   <CheckCircle2 className='mr-2 h-5 w-5' /> Submit Order
@@ -317,3 +360,112 @@ export const VoiceOrderPanel = memo(function VoiceOrderPanel({
 })
 
 VoiceOrderPanel.displayName = 'VoiceOrderPanel'
+
+// A transcribed line with its catalog match; low-confidence lines ask the
+// server to pick the intended item (or drop the line) before submitting.
+// Confirmed lines can have their modifiers corrected by hand.
+function ResolvedLineItem({
+  line,
+  index,
+  onConfirm,
+  onRemove,
+  onUpdateModifiers,
+  catalogModifiers,
+}: {
+  line: ResolvedOrderLine
+  index: number
+  onConfirm: (_index: number, _menuItemId: string) => void
+  onRemove: (_index: number) => void
+  onUpdateModifiers: (
+    _index: number,
+    _modifiers: OrderItemModifier[],
+    _notes: string | null
+  ) => void
+  catalogModifiers: MenuModifier[]
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const label = line.match ? line.match.name : line.itemPhrase
+  const modifiers = line.modifiers.map(formatModifier).join(', ')
+
+  if (!line.needsConfirmation) {
+    return (
+      <li
+        className={`text-base bg-white p-2 rounded shadow-sm voice-order-item-${Math.min(index + 1, 10)}`}
+      >
+        <div className='flex items-center justify-center'>
+          <span className='w-2 h-2 bg-primary rounded-full mr-3'></span>
+          {line.quantity > 1 && (
+            <span className='font-semibold mr-1'>{line.quantity}x</span>
+          )}
+          {label}
+          {modifiers && (
+            <span className='ml-1 text-sm text-muted-foreground'>
+              - {modifiers}
+            </span>
+          )}
+          <Button
+            size='sm'
+            variant='ghost'
+            className='ml-1 h-8 w-8 p-0'
+            aria-label={`Edit modifiers for ${label}`}
+            onClick={() => setIsEditing(editing => !editing)}
+          >
+            <Pencil className='h-4 w-4' />
+          </Button>
+        </div>
+        {line.notes && !isEditing && (
+          <p className='text-sm italic text-muted-foreground'>{line.notes}</p>
+        )}
+        {isEditing && (
+          <div className='mt-2'>
+            <OrderLineModifierEditor
+              modifiers={line.modifiers}
+              notes={line.notes}
+              catalogModifiers={catalogModifiers}
+              onChange={(nextModifiers, notes) =>
+                onUpdateModifiers(index, nextModifiers, notes)
+              }
+            />
+          </div>
+        )}
+      </li>
+    )
+  }
+
+  const choices = [line.match, ...line.alternatives].filter(
+    (choice): choice is NonNullable<typeof choice> => choice !== null
+  )
+
+  return (
+    <li className='text-left bg-amber-50 border border-amber-300 p-2 rounded shadow-sm'>
+      <p className='text-sm text-amber-900'>
+        <AlertCircle className='inline-block h-4 w-4 mr-1' />
+        Heard &ldquo;{line.itemPhrase}&rdquo;
+        {line.match
+          ? ` (${Math.round(line.confidence * 100)}% match)`
+          : ' - not on the menu'}
+      </p>
+      <div className='flex flex-wrap gap-2 mt-2'>
+        {choices.map(choice => (
+          <Button
+            key={choice.menuItemId}
+            size='sm'
+            variant='outline'
+            className='min-h-[40px]'
+            onClick={() => onConfirm(index, choice.menuItemId)}
+          >
+            {choice.name}
+          </Button>
+        ))}
+        <Button
+          size='sm'
+          variant='ghost'
+          className='min-h-[40px] text-destructive'
+          onClick={() => onRemove(index)}
+        >
+          Remove
+        </Button>
+      </div>
+    </li>
+  )
+}
@@ -112,7 +112,7 @@ export function useFloorPlanState(floorPlanId: string) {
     setAsyncState({ isLoading: true, loadError: null })
 
     try {
-      const floorPlanTables = await loadFloorPlanTables()
+      const floorPlanTables = await loadFloorPlanTables(floorPlanId)
 
       const frontendTables: Table[] = floorPlanTables.map((table, index) => {
         const row = Math.floor(index / 3)
@@ -186,7 +186,7 @@ export function useFloorPlanState(floorPlanId: string) {
         floor_plan_id: floorPlanId,
       }))
 
-      await saveFloorPlanTables(backendTables as any)
+      await saveFloorPlanTables(floorPlanId, backendTables as any)
       
       // Update original tables and mark as saved
       tableState.actions.setOriginalTables(tableState.state.tables)
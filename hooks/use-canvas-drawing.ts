@@ -1,15 +1,40 @@
 'use client'
 
 import { useCallback, useEffect, useRef } from 'react'
-import type { Table } from '@/lib/floor-plan-utils'
+import {
+  FIXTURE_DEFAULTS,
+  type Fixture,
+  type Table,
+  type Zone,
+} from '@/lib/floor-plan-utils'
+import {
+  type Point,
+  getPolygonCentroid,
+  getStackOrder,
+} from '@/lib/floor-plan-geometry'
+
+// A floor plan's room outline and background, in canvas coordinates
+export interface FloorArea {
+  width: number
+  height: number
+  backgroundColor: string | null
+  backgroundImage: HTMLImageElement | null
+}
 
 export interface DrawingOptions {
+  floorArea?: FloorArea | null
   isGridVisible: boolean
   gridSize: number
   showTableLabels: boolean
   showTableSeats: boolean
   showTableDimensions: boolean
   showTableStatus: boolean
+  fixtures?: Fixture[]
+  zones?: Zone[]
+  selectedFixtureId?: string | null
+  selectedZoneId?: string | null
+  // Corners of a zone still being drawn, ending at the cursor
+  draftZone?: Point[] | null
 }
 
 export interface CanvasDrawing {
@@ -116,6 +141,21 @@ export function useCanvasDrawing(
       ctx.translate(panOffset.x, panOffset.y)
       ctx.scale(zoomLevel, zoomLevel)
 
+      // Draw the room
+      const area = drawingOptions.floorArea
+      if (area) {
+        if (area.backgroundColor) {
+          ctx.fillStyle = area.backgroundColor
+          ctx.fillRect(0, 0, area.width, area.height)
+        }
+        if (area.backgroundImage) {
+          ctx.drawImage(area.backgroundImage, 0, 0, area.width, area.height)
+        }
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)'
+        ctx.lineWidth = 2 / zoomLevel
+        ctx.strokeRect(0, 0, area.width, area.height)
+      }
+
       // Draw grid
       if (drawingOptions.isGridVisible) {
         ctx.beginPath()
@@ -153,12 +193,144 @@ export function useCanvasDrawing(
         ctx.stroke()
       }
 
-      // Draw tables
-      const sortedTables = [...tables].sort(
-        (a, b) => (a.zIndex || 0) - (b.zIndex || 0)
-      )
+      // Draw zones, under everything else
+      const zones = drawingOptions.zones || []
+      zones.forEach(zone => {
+        if (zone.points.length < 3) {
+          return
+        }
+
+        const isSelected = drawingOptions.selectedZoneId === zone.id
+        ctx.save()
+        ctx.beginPath()
+        zone.points.forEach((point, index) =>
+          index === 0
+            ? ctx.moveTo(point.x, point.y)
+            : ctx.lineTo(point.x, point.y)
+        )
+        ctx.closePath()
+        ctx.globalAlpha = isSelected ? 0.3 : 0.18
+        ctx.fillStyle = zone.color
+        ctx.fill()
+        ctx.globalAlpha = 1
+        ctx.strokeStyle = zone.color
+        ctx.lineWidth = (isSelected ? 3 : 1.5) / zoomLevel
+        ctx.setLineDash(isSelected ? [] : [6 / zoomLevel, 4 / zoomLevel])
+        ctx.stroke()
+        ctx.setLineDash([])
+
+        const centroid = getPolygonCentroid(zone.points)
+        ctx.fillStyle = zone.color
+        ctx.font = `bold ${13 / zoomLevel}px sans-serif`
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        ctx.fillText(zone.name, centroid.x, centroid.y)
+
+        // Corner handles to reshape the selected zone
+        if (isSelected) {
+          const handleSize = 8 / zoomLevel
+          ctx.fillStyle = '#ffffff'
+          ctx.strokeStyle = zone.color
+          ctx.lineWidth = 1.5 / zoomLevel
+          zone.points.forEach(point => {
+            ctx.fillRect(
+              point.x - handleSize / 2,
+              point.y - handleSize / 2,
+              handleSize,
+              handleSize
+            )
+            ctx.strokeRect(
+              point.x - handleSize / 2,
+              point.y - handleSize / 2,
+              handleSize,
+              handleSize
+            )
+          })
+        }
+        ctx.restore()
+      })
+
+      const drawFixture = (fixture: Fixture) => {
+        const defaults = FIXTURE_DEFAULTS[fixture.kind]
+        const { x, y, width, height } = fixture
+        const centerX = x + width / 2
+        const centerY = y + height / 2
+        const isSelected = drawingOptions.selectedFixtureId === fixture.id
+
+        ctx.save()
+        ctx.translate(centerX, centerY)
+        ctx.rotate(((fixture.rotation || 0) * Math.PI) / 180)
+        ctx.translate(-centerX, -centerY)
+
+        ctx.fillStyle = defaults.color
+        ctx.strokeStyle = defaults.color
+        ctx.lineWidth = 1.5 / zoomLevel
+
+        if (fixture.kind === 'wall') {
+          ctx.fillRect(x, y, width, height)
+        } else if (fixture.kind === 'door') {
+          // The opening, with the door's swing from its left hinge
+          ctx.strokeRect(x, y, width, height)
+          ctx.setLineDash([4 / zoomLevel, 3 / zoomLevel])
+          ctx.beginPath()
+          ctx.moveTo(x, y)
+          ctx.arc(x, y, width, 0, -Math.PI / 2, true)
+          ctx.stroke()
+          ctx.setLineDash([])
+        } else if (fixture.kind === 'pillar') {
+          ctx.beginPath()
+          ctx.ellipse(
+            centerX,
+            centerY,
+            width / 2,
+            height / 2,
+            0,
+            0,
+            2 * Math.PI
+          )
+          ctx.fill()
+        } else if (fixture.kind !== 'label') {
+          ctx.globalAlpha = 0.35
+          ctx.fillRect(x, y, width, height)
+          ctx.globalAlpha = 1
+          ctx.strokeRect(x, y, width, height)
+        }
+
+        const text =
+          fixture.label || (fixture.kind === 'label' ? '' : defaults.name)
+        if (
+          text &&
+          (fixture.kind === 'label' ||
+            fixture.kind === 'server_station' ||
+            fixture.kind === 'buffet')
+        ) {
+          ctx.fillStyle = fixture.kind === 'label' ? defaults.color : '#f9fafb'
+          ctx.font =
+            fixture.kind === 'label'
+              ? `${Math.max(10, height * 0.6)}px sans-serif`
+              : `${12 / zoomLevel}px sans-serif`
+          ctx.textAlign = 'center'
+          ctx.textBaseline = 'middle'
+          ctx.fillText(text, centerX, centerY, width)
+        }
+
+        if (isSelected) {
+          const outline = 4 / zoomLevel
+          ctx.strokeStyle = '#3B82F6'
+          ctx.lineWidth = 2 / zoomLevel
+          ctx.setLineDash([5 / zoomLevel, 3 / zoomLevel])
+          ctx.strokeRect(
+            x - outline,
+            y - outline,
+            width + outline * 2,
+            height + outline * 2
+          )
+          ctx.setLineDash([])
+        }
+        ctx.restore()
+      }
 
-      sortedTables.forEach(table => {
+      const drawTable = (table: Table) => {
         ctx.save()
 
         const rotation = (table.rotation || 0) * (Math.PI / 180)
@@ -255,7 +427,38 @@ export function useCanvasDrawing(
         }
 
         ctx.restore()
-      })
+      }
+
+      // Draw tables and fixtures bottom to top
+      getStackOrder(tables, drawingOptions.fixtures || []).forEach(entry =>
+        entry.kind === 'table'
+          ? drawTable(entry.item)
+          : drawFixture(entry.item)
+      )
+
+      // Draw the zone being drawn
+      const draft = drawingOptions.draftZone
+      if (draft && draft.length > 0) {
+        ctx.save()
+        ctx.strokeStyle = '#3B82F6'
+        ctx.fillStyle = '#3B82F6'
+        ctx.lineWidth = 2 / zoomLevel
+        ctx.setLineDash([6 / zoomLevel, 4 / zoomLevel])
+        ctx.beginPath()
+        draft.forEach((point, index) =>
+          index === 0
+            ? ctx.moveTo(point.x, point.y)
+            : ctx.lineTo(point.x, point.y)
+        )
+        ctx.stroke()
+        ctx.setLineDash([])
+        draft.forEach(point => {
+          ctx.beginPath()
+          ctx.arc(point.x, point.y, 4 / zoomLevel, 0, 2 * Math.PI)
+          ctx.fill()
+        })
+        ctx.restore()
+      }
 
       // Draw selection handles
       if (selectedTable) {
@@ -2,6 +2,7 @@
 
 import { useCallback, useRef } from 'react'
 import type { Table } from '@/lib/floor-plan-utils'
+import { isPointInBox } from '@/lib/floor-plan-geometry'
 import type { FloorPlanState } from './use-floor-plan-reducer'
 
 export interface CanvasInteractionsOptimized {
@@ -55,41 +56,14 @@ export function useCanvasInteractionsOptimized(
 
   const findTableAtPosition = useCallback(
     (x: number, y: number, tables: Table[]): Table | null => {
-      // Iterate in reverse order to check tables with higher z-index first
-      for (let i = tables.length - 1; i >= 0; i--) {
-        const table = tables[i]
-        const rotation = (table.rotation || 0) * (Math.PI / 180)
-        const centerX = table.x + table.width / 2
-        const centerY = table.y + table.height / 2
-
-        // Transform point to table's local coordinate system
-        const translatedX = x - centerX
-        const translatedY = y - centerY
-        const rotatedX =
-          translatedX * Math.cos(-rotation) - translatedY * Math.sin(-rotation)
-        const rotatedY =
-          translatedX * Math.sin(-rotation) + translatedY * Math.cos(-rotation)
-        const localX = rotatedX + centerX
-        const localY = rotatedY + centerY
-
-        // Check if point is inside table
-        if (table.type === 'circle') {
-          const radius = table.width / 2
-          if (
-            (localX - centerX) ** 2 + (localY - centerY) ** 2 <=
-            radius ** 2
-          ) {
-            return table
-          }
-        } else {
-          if (
-            localX >= table.x &&
-            localX <= table.x + table.width &&
-            localY >= table.y &&
-            localY <= table.y + table.height
-          ) {
-            return table
-          }
+      // Check from the top of the stack down, in the order tables are drawn
+      const stacked = [...tables].sort(
+        (a, b) => (a.zIndex || 0) - (b.zIndex || 0)
+      )
+      for (let i = stacked.length - 1; i >= 0; i--) {
+        const table = stacked[i]
+        if (isPointInBox(table, x, y, table.type === 'circle')) {
+          return table
         }
       }
       return null
@@ -2,26 +2,41 @@
 
 import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react'
 import { useToast } from '@/hooks/use-toast'
-import type { Table } from '@/lib/floor-plan-utils'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
 import {
+  loadFloorPlanFixtures,
   loadFloorPlanTables,
+  loadFloorPlanZones,
+  saveFloorPlanFixtures,
   saveFloorPlanTables,
+  saveFloorPlanZones,
 } from '@/lib/modassembly/supabase/database/floor-plan'
 
 const MAX_UNDO_STATES = 20
 
+// Everything undo and redo put back
+export interface LayoutSnapshot {
+  tables: Table[]
+  fixtures: Fixture[]
+  zones: Zone[]
+}
+
 // State structure
 export interface FloorPlanState {
   // Core data
   data: {
     tables: Table[]
     originalTables: Table[]
+    fixtures: Fixture[]
+    zones: Zone[]
     floorPlanId: string
   }
 
   // UI state
   ui: {
     selectedTableId: string | null
+    selectedFixtureId: string | null
+    selectedZoneId: string | null
     hoveredTableId: string | null
     panels: {
       isTablesPanelOpen: boolean
@@ -59,8 +74,8 @@ export interface FloorPlanState {
 
   // History for undo/redo
   history: {
-    undoStack: Table[][]
-    redoStack: Table[][]
+    undoStack: LayoutSnapshot[]
+    redoStack: LayoutSnapshot[]
     position: number
   }
 
@@ -75,12 +90,28 @@ export interface FloorPlanState {
 
 // Action types
 export type FloorPlanAction =
+  | { type: 'SET_FLOOR_PLAN'; payload: string }
   | { type: 'SET_TABLES'; payload: Table[] }
   | { type: 'UPDATE_TABLE'; payload: { id: string; updates: Partial<Table> } }
   | { type: 'ADD_TABLE'; payload: Table }
   | { type: 'DELETE_TABLE'; payload: string }
   | { type: 'DUPLICATE_TABLE'; payload: string }
   | { type: 'SELECT_TABLE'; payload: string | null }
+  | {
+      type: 'SET_LAYOUT_OBJECTS'
+      payload: { fixtures: Fixture[]; zones: Zone[] }
+    }
+  | { type: 'ADD_FIXTURE'; payload: Fixture }
+  | {
+      type: 'UPDATE_FIXTURE'
+      payload: { id: string; updates: Partial<Fixture> }
+    }
+  | { type: 'DELETE_FIXTURE'; payload: string }
+  | { type: 'SELECT_FIXTURE'; payload: string | null }
+  | { type: 'ADD_ZONE'; payload: Zone }
+  | { type: 'UPDATE_ZONE'; payload: { id: string; updates: Partial<Zone> } }
+  | { type: 'DELETE_ZONE'; payload: string }
+  | { type: 'SELECT_ZONE'; payload: string | null }
   | { type: 'SET_HOVERED_TABLE'; payload: string | null }
   | { type: 'SET_UI_STATE'; payload: Partial<FloorPlanState['ui']> }
   | {
@@ -113,10 +144,14 @@ const createInitialState = (floorPlanId: string): FloorPlanState => ({
   data: {
     tables: [],
     originalTables: [],
+    fixtures: [],
+    zones: [],
     floorPlanId,
   },
   ui: {
     selectedTableId: null,
+    selectedFixtureId: null,
+    selectedZoneId: null,
     hoveredTableId: null,
     panels: {
       isTablesPanelOpen: true,
@@ -150,7 +185,7 @@ const createInitialState = (floorPlanId: string): FloorPlanState => ({
     panStart: { x: 0, y: 0 },
   },
   history: {
-    undoStack: [[]],
+    undoStack: [{ tables: [], fixtures: [], zones: [] }],
     redoStack: [],
     position: 0,
   },
@@ -162,12 +197,45 @@ const createInitialState = (floorPlanId: string): FloorPlanState => ({
   },
 })
 
+const takeSnapshot = (state: FloorPlanState): LayoutSnapshot => ({
+  tables: [...state.data.tables],
+  fixtures: state.data.fixtures,
+  zones: state.data.zones,
+})
+
+// Drop the fixture or zone selection if undo/redo removed it
+const keepSelection = (
+  ui: FloorPlanState['ui'],
+  snapshot: LayoutSnapshot
+) => ({
+  selectedFixtureId: snapshot.fixtures.some(f => f.id === ui.selectedFixtureId)
+    ? ui.selectedFixtureId
+    : null,
+  selectedZoneId: snapshot.zones.some(z => z.id === ui.selectedZoneId)
+    ? ui.selectedZoneId
+    : null,
+})
+
 // Reducer function
 function floorPlanReducer(
   state: FloorPlanState,
   action: FloorPlanAction
 ): FloorPlanState {
   switch (action.type) {
+    // Switching plans starts over with its tables and an empty history;
+    // view and display preferences carry over
+    case 'SET_FLOOR_PLAN':
+      return {
+        ...createInitialState(action.payload),
+        ui: {
+          ...state.ui,
+          selectedTableId: null,
+          selectedFixtureId: null,
+          selectedZoneId: null,
+          hoveredTableId: null,
+        },
+      }
+
     case 'SET_TABLES':
       return {
         ...state,
@@ -208,6 +276,8 @@ function floorPlanReducer(
         ui: {
           ...state.ui,
           selectedTableId: action.payload.id,
+          selectedFixtureId: null,
+          selectedZoneId: null,
         },
         async: {
           ...state.async,
@@ -258,6 +328,8 @@ function floorPlanReducer(
         ui: {
           ...state.ui,
           selectedTableId: newTable.id,
+          selectedFixtureId: null,
+          selectedZoneId: null,
         },
         async: {
           ...state.async,
@@ -266,12 +338,172 @@ function floorPlanReducer(
       }
     }
 
+    // One thing is selected at a time, whether table, fixture or zone
     case 'SELECT_TABLE':
       return {
         ...state,
         ui: {
           ...state.ui,
           selectedTableId: action.payload,
+          selectedFixtureId: null,
+          selectedZoneId: null,
+        },
+      }
+
+    case 'SET_LAYOUT_OBJECTS':
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          fixtures: action.payload.fixtures,
+          zones: action.payload.zones,
+        },
+        ui: {
+          ...state.ui,
+          selectedFixtureId: null,
+          selectedZoneId: null,
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+
+    case 'ADD_FIXTURE':
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          fixtures: [...state.data.fixtures, action.payload],
+        },
+        ui: {
+          ...state.ui,
+          selectedTableId: null,
+          selectedFixtureId: action.payload.id,
+          selectedZoneId: null,
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+
+    case 'UPDATE_FIXTURE': {
+      const { id, updates } = action.payload
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          fixtures: state.data.fixtures.map(f =>
+            f.id === id ? { ...f, ...updates } : f
+          ),
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+    }
+
+    case 'DELETE_FIXTURE':
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          fixtures: state.data.fixtures.filter(f => f.id !== action.payload),
+        },
+        ui: {
+          ...state.ui,
+          selectedFixtureId:
+            state.ui.selectedFixtureId === action.payload
+              ? null
+              : state.ui.selectedFixtureId,
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+
+    case 'SELECT_FIXTURE':
+      return {
+        ...state,
+        ui: {
+          ...state.ui,
+          selectedTableId: null,
+          selectedFixtureId: action.payload,
+          selectedZoneId: null,
+        },
+      }
+
+    case 'ADD_ZONE':
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          zones: [...state.data.zones, action.payload],
+        },
+        ui: {
+          ...state.ui,
+          selectedTableId: null,
+          selectedFixtureId: null,
+          selectedZoneId: action.payload.id,
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+
+    case 'UPDATE_ZONE': {
+      const { id, updates } = action.payload
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          zones: state.data.zones.map(z =>
+            z.id === id ? { ...z, ...updates } : z
+          ),
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+    }
+
+    // Tables in a deleted zone are left unassigned, as the database does
+    case 'DELETE_ZONE':
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          zones: state.data.zones.filter(z => z.id !== action.payload),
+          tables: state.data.tables.map(t =>
+            t.zoneId === action.payload ? { ...t, zoneId: null } : t
+          ),
+        },
+        ui: {
+          ...state.ui,
+          selectedZoneId:
+            state.ui.selectedZoneId === action.payload
+              ? null
+              : state.ui.selectedZoneId,
+        },
+        async: {
+          ...state.async,
+          unsavedChanges: true,
+        },
+      }
+
+    case 'SELECT_ZONE':
+      return {
+        ...state,
+        ui: {
+          ...state.ui,
+          selectedTableId: null,
+          selectedFixtureId: null,
+          selectedZoneId: action.payload,
         },
       }
 
@@ -400,10 +632,16 @@ function floorPlanReducer(
         },
       }
 
+    // The payload is the tables before the change; fixtures and zones are
+    // taken from state, as callers record history before changing them
     case 'ADD_TO_HISTORY': {
       const newStack = [
         ...state.history.undoStack.slice(0, state.history.position + 1),
-        [...action.payload],
+        {
+          tables: [...action.payload],
+          fixtures: state.data.fixtures,
+          zones: state.data.zones,
+        },
       ]
       if (newStack.length > MAX_UNDO_STATES) {
         newStack.splice(0, newStack.length - MAX_UNDO_STATES)
@@ -424,7 +662,7 @@ function floorPlanReducer(
         return state
       }
 
-      const currentState = [...state.data.tables]
+      const currentState = takeSnapshot(state)
       const newStack = [...state.history.undoStack]
       newStack.pop()
       const previousState = newStack[newStack.length - 1]
@@ -433,7 +671,7 @@ function floorPlanReducer(
         ...state,
         data: {
           ...state.data,
-          tables: previousState,
+          ...previousState,
         },
         history: {
           undoStack: newStack,
@@ -444,9 +682,10 @@ function floorPlanReducer(
           ...state.ui,
           selectedTableId:
             state.ui.selectedTableId &&
-            previousState.find(t => t.id === state.ui.selectedTableId)
+            previousState.tables.find(t => t.id === state.ui.selectedTableId)
               ? state.ui.selectedTableId
               : null,
+          ...keepSelection(state.ui, previousState),
         },
       }
     }
@@ -456,7 +695,7 @@ function floorPlanReducer(
         return state
       }
 
-      const currentState = [...state.data.tables]
+      const currentState = takeSnapshot(state)
       const newRedoStack = [...state.history.redoStack]
       const nextState = newRedoStack.pop()!
 
@@ -464,7 +703,7 @@ function floorPlanReducer(
         ...state,
         data: {
           ...state.data,
-          tables: nextState,
+          ...nextState,
         },
         history: {
           undoStack: [...state.history.undoStack, currentState],
@@ -475,9 +714,10 @@ function floorPlanReducer(
           ...state.ui,
           selectedTableId:
             state.ui.selectedTableId &&
-            nextState.find(t => t.id === state.ui.selectedTableId)
+            nextState.tables.find(t => t.id === state.ui.selectedTableId)
               ? state.ui.selectedTableId
               : null,
+          ...keepSelection(state.ui, nextState),
         },
       }
     }
@@ -505,6 +745,15 @@ export const createSelectors = (state: FloorPlanState) => ({
     ? state.data.tables.find(t => t.id === state.ui.selectedTableId) || null
     : null,
   hoveredTableId: state.ui.hoveredTableId,
+  fixtures: state.data.fixtures,
+  zones: state.data.zones,
+  selectedFixture: state.ui.selectedFixtureId
+    ? state.data.fixtures.find(f => f.id === state.ui.selectedFixtureId) ||
+      null
+    : null,
+  selectedZone: state.ui.selectedZoneId
+    ? state.data.zones.find(z => z.id === state.ui.selectedZoneId) || null
+    : null,
 
   // UI selectors
   isTablesPanelOpen: state.ui.panels.isTablesPanelOpen,
@@ -610,9 +859,28 @@ export function useFloorPlanReducer(floorPlanId: string) {
       duplicateTable: (id: string) =>
         dispatch({ type: 'DUPLICATE_TABLE', payload: id }),
 
+      // Fixture and zone actions
+      setLayoutObjects: (fixtures: Fixture[], zones: Zone[]) =>
+        dispatch({ type: 'SET_LAYOUT_OBJECTS', payload: { fixtures, zones } }),
+      addFixture: (fixture: Fixture) =>
+        dispatch({ type: 'ADD_FIXTURE', payload: fixture }),
+      updateFixture: (id: string, updates: Partial<Fixture>) =>
+        dispatch({ type: 'UPDATE_FIXTURE', payload: { id, updates } }),
+      deleteFixture: (id: string) =>
+        dispatch({ type: 'DELETE_FIXTURE', payload: id }),
+      addZone: (zone: Zone) => dispatch({ type: 'ADD_ZONE', payload: zone }),
+      updateZone: (id: string, updates: Partial<Zone>) =>
+        dispatch({ type: 'UPDATE_ZONE', payload: { id, updates } }),
+      deleteZone: (id: string) =>
+        dispatch({ type: 'DELETE_ZONE', payload: id }),
+
       // Selection actions
       selectTable: (id: string | null) =>
         dispatch({ type: 'SELECT_TABLE', payload: id }),
+      selectFixture: (id: string | null) =>
+        dispatch({ type: 'SELECT_FIXTURE', payload: id }),
+      selectZone: (id: string | null) =>
+        dispatch({ type: 'SELECT_ZONE', payload: id }),
       setHoveredTable: (id: string | null) =>
         dispatch({ type: 'SET_HOVERED_TABLE', payload: id }),
 
@@ -743,6 +1011,11 @@ export function useFloorPlanReducer(floorPlanId: string) {
 
   // Data operations
   const loadTables = useCallback(async () => {
+    if (!floorPlanId) {
+      dispatch({ type: 'SET_ASYNC_STATE', payload: { isLoading: false } })
+      return
+    }
+
     logger.info(`Loading tables for floor plan: ${floorPlanId}`)
     dispatch({
       type: 'SET_ASYNC_STATE',
@@ -750,7 +1023,11 @@ export function useFloorPlanReducer(floorPlanId: string) {
     })
 
     try {
-      const floorPlanTables = await loadFloorPlanTables()
+      const [floorPlanTables, zones, fixtures] = await Promise.all([
+        loadFloorPlanTables(floorPlanId),
+        loadFloorPlanZones(floorPlanId),
+        loadFloorPlanFixtures(floorPlanId),
+      ])
 
       const frontendTables: Table[] = floorPlanTables.map((table, index) => {
         const row = Math.floor(index / 3)
@@ -778,6 +1055,7 @@ export function useFloorPlanReducer(floorPlanId: string) {
             (table.type === 'circle' ? 80 : table.type === 'square' ? 100 : 80),
           rotation: (table as any).rotation ?? 0,
           zIndex: (table as any).zIndex ?? 1,
+          zoneId: table.zone_id ?? null,
           floor_plan_id: floorPlanId,
         }
       })
@@ -791,6 +1069,7 @@ export function useFloorPlanReducer(floorPlanId: string) {
       }
 
       dispatch({ type: 'SET_TABLES', payload: frontendTables })
+      dispatch({ type: 'SET_LAYOUT_OBJECTS', payload: { fixtures, zones } })
       dispatch({
         type: 'SET_ASYNC_STATE',
         payload: {
@@ -834,9 +1113,13 @@ export function useFloorPlanReducer(floorPlanId: string) {
         height: table.height,
         rotation: table.rotation,
         zIndex: table.zIndex,
+        zone_id: table.zoneId ?? null,
       }))
 
-      await saveFloorPlanTables(floorPlanTables)
+      // Zones first, so the tables' zone_id references exist
+      await saveFloorPlanZones(floorPlanId, state.data.zones)
+      await saveFloorPlanFixtures(floorPlanId, state.data.fixtures)
+      await saveFloorPlanTables(floorPlanId, floorPlanTables)
 
       logger.info('Tables saved successfully')
       dispatch({
@@ -856,10 +1139,18 @@ export function useFloorPlanReducer(floorPlanId: string) {
       showInternalToast('Failed to save floor plan changes', 'error')
       return false
     }
-  }, [floorPlanId, state.data.tables, logger, showInternalToast])
+  }, [
+    floorPlanId,
+    state.data.tables,
+    state.data.fixtures,
+    state.data.zones,
+    logger,
+    showInternalToast,
+  ])
 
   // Load tables on mount - FIXED: Remove loadTables from dependencies to prevent infinite loop
   useEffect(() => {
+    dispatch({ type: 'SET_FLOOR_PLAN', payload: floorPlanId })
     loadTables()
   }, [floorPlanId]) // Only depend on floorPlanId, not the loadTables function
 
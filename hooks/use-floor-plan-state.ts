@@ -263,7 +263,7 @@ export function useFloorPlanState(
     setLoadError(null)
 
     try {
-      const floorPlanTables = await loadFloorPlanTables()
+      const floorPlanTables = await loadFloorPlanTables(floorPlanId)
 
       const frontendTables: Table[] = floorPlanTables.map((table, index) => {
         // AI: Use persisted positions if available, fallback to calculated positions
@@ -336,7 +336,7 @@ export function useFloorPlanState(
         zIndex: table.zIndex,
       }))
 
-      await saveFloorPlanTables(floorPlanTables)
+      await saveFloorPlanTables(floorPlanId, floorPlanTables)
 
       logger.info('Tables saved successfully')
       setUnsavedChanges(false)
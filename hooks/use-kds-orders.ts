@@ -7,10 +7,12 @@ import {
   fetchAllActiveOrders,
   type KDSOrderRouting,
 } from '@/lib/modassembly/supabase/database/kds'
+import { fetchExpoOrders } from '@/lib/modassembly/supabase/database/kds/expo'
 import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js'
 
 interface UseKDSOrdersOptions {
   stationId?: string // If provided, filter to specific station
+  includeReady?: boolean // Expo: keep bumped tickets until they're sent to the table
   autoRefresh?: boolean
   refreshInterval?: number
 }
@@ -35,7 +37,12 @@ const MAX_RETRY_DELAY = 30000
 export function useKDSOrders(
   options: UseKDSOrdersOptions = {}
 ): UseKDSOrdersReturn {
-  const { stationId, autoRefresh = true, refreshInterval = 5000 } = options
+  const {
+    stationId,
+    includeReady = false,
+    autoRefresh = true,
+    refreshInterval = 5000,
+  } = options
 
   const [orders, setOrders] = useState<KDSOrderRouting[]>([])
   const [loading, setLoading] = useState(true)
@@ -75,9 +82,11 @@ export function useKDSOrders(
     try {
       setError(null)
 
-      const data = stationId
-        ? await fetchStationOrders(stationId)
-        : await fetchAllActiveOrders()
+      const data = includeReady
+        ? await fetchExpoOrders()
+        : stationId
+          ? await fetchStationOrders(stationId)
+          : await fetchAllActiveOrders()
 
       if (!isMountedRef.current) return
 
@@ -103,7 +112,7 @@ export function useKDSOrders(
         setLoading(false)
       }
     }
-  }, [stationId])
+  }, [stationId, includeReady])
 
   const optimisticUpdate = useCallback(
     (routingId: string, updates: Partial<KDSOrderRouting>) => {
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { Outbox, OutboxEntry } from '@/lib/offline'
+
+// Work queued on this device: replays it on load, when the connection
+// returns, and when the next backed-off retry is due
+export function useOutbox<P, R>(outbox: Outbox<P, R>) {
+  const [entries, setEntries] = useState<OutboxEntry<P>[]>([])
+
+  const sync = useCallback(async () => {
+    try {
+      await outbox.sync()
+    } catch (error) {
+      console.error('Failed to sync outbox:', error)
+    }
+  }, [outbox])
+
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe(setEntries)
+    outbox.list().then(setEntries).catch(console.error)
+    sync()
+
+    window.addEventListener('online', sync)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', sync)
+    }
+  }, [outbox, sync])
+
+  const pending = entries.filter(entry => entry.status === 'pending')
+  const conflicts = entries.filter(entry => entry.status === 'conflict')
+  const nextAttemptAt = pending.length > 0 ? pending[0].next_attempt_at : null
+
+  useEffect(() => {
+    if (nextAttemptAt === null) {
+      return
+    }
+    const timeout = setTimeout(sync, Math.max(0, nextAttemptAt - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [nextAttemptAt, sync])
+
+  const retry = useCallback(
+    async (id: string) => {
+      await outbox.retry(id)
+    },
+    [outbox]
+  )
+
+  const discard = useCallback(
+    async (id: string) => {
+      await outbox.discard(id)
+    },
+    [outbox]
+  )
+
+  return { entries, pending, conflicts, sync, retry, discard }
+}
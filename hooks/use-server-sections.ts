@@ -0,0 +1,109 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createClient } from '@/lib/modassembly/supabase/client'
+import {
+  type Shift,
+  fetchTableOwners,
+  getCurrentShift,
+  transferTable,
+} from '@/lib/modassembly/supabase/database/server-sections'
+import {
+  type User,
+  getStaffUsers,
+} from '@/lib/modassembly/supabase/database/users'
+
+// The shift changes with the meal service, so owners are re-resolved
+// periodically as well as on every assignment or transfer
+const SHIFT_REFRESH_MS = 60_000
+
+/**
+ * Who owns each table this shift, and which of them are the server's
+ */
+export function useServerSections(serverId: string | null) {
+  const [shift, setShift] = useState<Shift | null>(null)
+  const [owners, setOwners] = useState<Map<string, string>>(new Map())
+  const [servers, setServers] = useState<User[]>([])
+
+  const load = useCallback(async () => {
+    try {
+      const current = await getCurrentShift()
+      setShift(current)
+      setOwners(await fetchTableOwners(current))
+    } catch (error) {
+      console.error('Failed to load server sections:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    getStaffUsers(['admin', 'server']).then(setServers).catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    const supabase = createClient()
+    load()
+
+    const channel = supabase
+      .channel('server-sections')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'section_assignments' },
+        () => load()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'table_transfers' },
+        () => load()
+      )
+      .subscribe()
+    const interval = setInterval(load, SHIFT_REFRESH_MS)
+
+    return () => {
+      clearInterval(interval)
+      supabase.removeChannel(channel)
+    }
+  }, [load])
+
+  const ownTableIds = useMemo(() => {
+    const ids = new Set<string>()
+    owners.forEach((owner, tableId) => {
+      if (owner === serverId) {
+        ids.add(tableId)
+      }
+    })
+    return ids
+  }, [owners, serverId])
+
+  const getServerName = useCallback(
+    (id: string) => servers.find(server => server.id === id)?.name ?? null,
+    [servers]
+  )
+
+  const transfer = useCallback(
+    async (tableId: string, toServerId: string, reason?: string) => {
+      if (!serverId) {
+        throw new Error('Sign in to transfer tables')
+      }
+      await transferTable({
+        tableId,
+        fromServerId: owners.get(tableId) ?? null,
+        toServerId,
+        transferredBy: serverId,
+        shift: shift ?? (await getCurrentShift()),
+        reason,
+      })
+      await load()
+    },
+    [load, owners, serverId, shift]
+  )
+
+  return {
+    shift,
+    owners,
+    ownTableIds,
+    servers,
+    getServerName,
+    transfer,
+    reload: load,
+  }
+}
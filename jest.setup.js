@@ -8,6 +8,9 @@ import './__tests__/utils/jest-matchers'
 // React 19 compatibility - set up React testing environment
 import { configure } from '@testing-library/react'
 
+// Suites marked @jest-environment node have no DOM to mock
+const hasDom = typeof window !== 'undefined'
+
 // Configure React Testing Library for React 19
 configure({
   // Enable React 19 features and compatibility
@@ -117,36 +120,38 @@ global.AudioContext = jest.fn().mockImplementation(() => ({
 global.webkitAudioContext = global.AudioContext
 
 // Enhanced MediaDevices mock
-Object.defineProperty(navigator, 'mediaDevices', {
-  writable: true,
-  value: {
-    getUserMedia: jest.fn().mockResolvedValue({
-      getTracks: jest.fn(() => [
-        {
-          kind: 'audio',
-          stop: jest.fn(),
-          enabled: true,
-        }
-      ]),
-      getAudioTracks: jest.fn(() => [
+if (hasDom) {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    writable: true,
+    value: {
+      getUserMedia: jest.fn().mockResolvedValue({
+        getTracks: jest.fn(() => [
+          {
+            kind: 'audio',
+            stop: jest.fn(),
+            enabled: true,
+          }
+        ]),
+        getAudioTracks: jest.fn(() => [
+          {
+            kind: 'audio',
+            stop: jest.fn(),
+            enabled: true,
+          }
+        ]),
+        addTrack: jest.fn(),
+        removeTrack: jest.fn(),
+      }),
+      enumerateDevices: jest.fn().mockResolvedValue([
         {
-          kind: 'audio',
-          stop: jest.fn(),
-          enabled: true,
+          deviceId: 'test-device-id',
+          kind: 'audioinput',
+          label: 'Test Microphone',
         }
       ]),
-      addTrack: jest.fn(),
-      removeTrack: jest.fn(),
-    }),
-    enumerateDevices: jest.fn().mockResolvedValue([
-      {
-        deviceId: 'test-device-id',
-        kind: 'audioinput',
-        label: 'Test Microphone',
-      }
-    ]),
-  },
-})
+    },
+  })
+}
 
 // Mock URL.createObjectURL and revokeObjectURL
 global.URL.createObjectURL = jest.fn(() => 'mocked-object-url')
@@ -251,27 +256,31 @@ global.MutationObserver = jest.fn().mockImplementation((callback) => ({
   takeRecords: jest.fn(() => []),
 }))
 
-// Mock document.elementFromPoint
-document.elementFromPoint = jest.fn(() => null)
+if (hasDom) {
+  // Mock document.elementFromPoint
+  document.elementFromPoint = jest.fn(() => null)
+}
 
 // Mock CSS.supports
 global.CSS = {
   supports: jest.fn(() => true),
 }
 
-// Mock scroll behavior
-Element.prototype.scrollTo = jest.fn()
-Element.prototype.scrollIntoView = jest.fn()
+if (hasDom) {
+  // Mock scroll behavior
+  Element.prototype.scrollTo = jest.fn()
+  Element.prototype.scrollIntoView = jest.fn()
 
-// Mock clipboard API
-Object.defineProperty(navigator, 'clipboard', {
-  writable: true,
-  configurable: true,
-  value: {
-    writeText: jest.fn().mockResolvedValue(undefined),
-    readText: jest.fn().mockResolvedValue(''),
-  },
-})
+  // Mock clipboard API
+  Object.defineProperty(navigator, 'clipboard', {
+    writable: true,
+    configurable: true,
+    value: {
+      writeText: jest.fn().mockResolvedValue(undefined),
+      readText: jest.fn().mockResolvedValue(''),
+    },
+  })
+}
 
 // Mock crypto.subtle API for hashing operations
 Object.defineProperty(global, 'crypto', {
@@ -314,6 +323,10 @@ afterEach(() => {
   
   // Reset all mocks
   jest.clearAllMocks()
+
+  if (!hasDom) {
+    return
+  }
   
   // Clean up DOM
   document.body.innerHTML = ''
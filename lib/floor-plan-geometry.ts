@@ -0,0 +1,194 @@
+/**
+ * Floor Plan Geometry
+ * Hit-testing, snapping and stacking order for everything on the editor
+ * canvas. Tables and fixtures share one stack ordered by zIndex, with
+ * fixtures under tables at the same level; zones are the floor beneath them.
+ */
+
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
+
+export type Point = { x: number; y: number }
+
+type Box = {
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation?: number
+}
+
+export type CanvasItem =
+  | { kind: 'table'; item: Table }
+  | { kind: 'fixture'; item: Fixture }
+
+export type CanvasSelection = {
+  kind: 'table' | 'fixture' | 'zone'
+  id: string
+}
+
+// Walls and doors are only a few pixels thick; keep them easy to grab
+const MIN_HIT_SIZE = 12
+
+/**
+ * Undo a box's rotation so the point can be compared with the unrotated box
+ */
+export function toLocalPoint(box: Box, x: number, y: number): Point {
+  const rotation = ((box.rotation || 0) * Math.PI) / 180
+  const centerX = box.x + box.width / 2
+  const centerY = box.y + box.height / 2
+  const dx = x - centerX
+  const dy = y - centerY
+  return {
+    x: centerX + dx * Math.cos(-rotation) - dy * Math.sin(-rotation),
+    y: centerY + dx * Math.sin(-rotation) + dy * Math.cos(-rotation),
+  }
+}
+
+export function isPointInBox(
+  box: Box,
+  x: number,
+  y: number,
+  round = false
+): boolean {
+  const local = toLocalPoint(box, x, y)
+  const centerX = box.x + box.width / 2
+  const centerY = box.y + box.height / 2
+
+  if (round) {
+    const radius = box.width / 2
+    return (local.x - centerX) ** 2 + (local.y - centerY) ** 2 <= radius ** 2
+  }
+
+  const halfWidth = Math.max(box.width, MIN_HIT_SIZE) / 2
+  const halfHeight = Math.max(box.height, MIN_HIT_SIZE) / 2
+  return (
+    Math.abs(local.x - centerX) <= halfWidth &&
+    Math.abs(local.y - centerY) <= halfHeight
+  )
+}
+
+/**
+ * Ray casting; points on the boundary may fall either way
+ */
+export function isPointInPolygon(points: Point[], x: number, y: number) {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    if (
+      a.y > y !== b.y > y &&
+      x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export function getPolygonCentroid(points: Point[]): Point {
+  if (points.length === 0) {
+    return { x: 0, y: 0 }
+  }
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  }
+}
+
+/**
+ * Tables and fixtures from bottom to top
+ */
+export function getStackOrder(
+  tables: Table[],
+  fixtures: Fixture[]
+): CanvasItem[] {
+  const items: CanvasItem[] = [
+    ...fixtures.map(item => ({ kind: 'fixture' as const, item })),
+    ...tables.map(item => ({ kind: 'table' as const, item })),
+  ]
+  // Array sort is stable, so fixtures stay under tables at the same level
+  return items.sort((a, b) => (a.item.zIndex || 0) - (b.item.zIndex || 0))
+}
+
+export function getTopZIndex(tables: Table[], fixtures: Fixture[]): number {
+  return Math.max(0, ...[...tables, ...fixtures].map(item => item.zIndex || 0))
+}
+
+export function getBottomZIndex(tables: Table[], fixtures: Fixture[]): number {
+  return Math.min(0, ...[...tables, ...fixtures].map(item => item.zIndex || 0))
+}
+
+export function findZoneAt(zones: Zone[], x: number, y: number): Zone | null {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    if (isPointInPolygon(zones[i].points, x, y)) {
+      return zones[i]
+    }
+  }
+  return null
+}
+
+/**
+ * The topmost thing under the point: a table or fixture, else a zone
+ */
+export function findItemAt(
+  x: number,
+  y: number,
+  tables: Table[],
+  fixtures: Fixture[],
+  zones: Zone[]
+): CanvasSelection | null {
+  const stack = getStackOrder(tables, fixtures)
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const { kind, item } = stack[i]
+    const round = kind === 'table' && item.type === 'circle'
+    if (isPointInBox(item, x, y, round)) {
+      return { kind, id: item.id }
+    }
+  }
+
+  const zone = findZoneAt(zones, x, y)
+  return zone ? { kind: 'zone', id: zone.id } : null
+}
+
+/**
+ * Index of the zone corner within `radius` of the point, or -1
+ */
+export function findVertexAt(
+  zone: Zone,
+  x: number,
+  y: number,
+  radius: number
+): number {
+  return zone.points.findIndex(
+    point => (point.x - x) ** 2 + (point.y - y) ** 2 <= radius ** 2
+  )
+}
+
+export function snapValue(value: number, gridSize: number, enabled = true) {
+  return enabled && gridSize > 0
+    ? Math.round(value / gridSize) * gridSize
+    : value
+}
+
+export function snapPoint(point: Point, gridSize: number, enabled = true) {
+  return {
+    x: snapValue(point.x, gridSize, enabled),
+    y: snapValue(point.y, gridSize, enabled),
+  }
+}
+
+export function translatePoints(points: Point[], dx: number, dy: number) {
+  return points.map(point => ({ x: point.x + dx, y: point.y + dy }))
+}
+
+/**
+ * Put each table in the zone under its centre, or none
+ */
+export function assignTablesToZones(tables: Table[], zones: Zone[]): Table[] {
+  return tables.map(table => ({
+    ...table,
+    zoneId:
+      findZoneAt(zones, table.x + table.width / 2, table.y + table.height / 2)
+        ?.id ?? null,
+  }))
+}
@@ -0,0 +1,370 @@
+/**
+ * Floor Plan Layout Documents
+ * A floor plan's room, tables, fixtures and zones as a self-contained JSON
+ * document. The same format backs file import/export and the saved version
+ * snapshots, and can be rendered to SVG or PNG for printing.
+ */
+
+import { z } from 'zod'
+import type { Fixture, Table, Zone } from '@/lib/floor-plan-utils'
+import type { FloorPlan } from '@/types/database'
+
+export const FLOOR_PLAN_LAYOUT_FORMAT = 'plater.floor-plan-layout'
+export const FLOOR_PLAN_LAYOUT_VERSION = 1
+
+const layoutTableSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(['circle', 'rectangle', 'square']),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  seats: z.number().int().min(0).max(50),
+  rotation: z.number().finite().default(0),
+  status: z.enum(['available', 'occupied', 'reserved']).default('available'),
+  zIndex: z.number().int().default(1),
+  zoneId: z.string().nullable().optional(),
+})
+
+const layoutFixtureSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['wall', 'door', 'server_station', 'buffet', 'pillar', 'label']),
+  label: z.string().nullable().default(null),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  rotation: z.number().finite().default(0),
+  zIndex: z.number().int().default(0),
+})
+
+const layoutZoneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.string().min(1),
+  points: z
+    .array(z.object({ x: z.number().finite(), y: z.number().finite() }))
+    .min(3),
+})
+
+export const floorPlanLayoutSchema = z.object({
+  format: z.literal(FLOOR_PLAN_LAYOUT_FORMAT),
+  version: z.literal(FLOOR_PLAN_LAYOUT_VERSION),
+  exported_at: z.string().optional(),
+  floor_plan: z.object({
+    name: z.string().min(1),
+    canvas_width: z.number().int().min(200).max(5000),
+    canvas_height: z.number().int().min(200).max(5000),
+    background_color: z.string().nullable().default(null),
+    background_image_url: z.string().nullable().default(null),
+  }),
+  tables: z
+    .array(layoutTableSchema)
+    .refine(
+      tables => new Set(tables.map(table => table.id)).size === tables.length,
+      'Table IDs must be unique'
+    ),
+  // Added after the first layouts were saved, so optional
+  fixtures: z.array(layoutFixtureSchema).default([]),
+  zones: z.array(layoutZoneSchema).default([]),
+})
+
+export type FloorPlanLayout = z.infer<typeof floorPlanLayoutSchema>
+export type FloorPlanLayoutRoom = FloorPlanLayout['floor_plan']
+
+export interface FloorPlanLayoutDiff {
+  added: Table[]
+  removed: Table[]
+  changed: { table: Table; changes: string[] }[]
+}
+
+export function createFloorPlanLayout(
+  floorPlan: Pick<
+    FloorPlan,
+    | 'name'
+    | 'canvas_width'
+    | 'canvas_height'
+    | 'background_color'
+    | 'background_image_url'
+  >,
+  tables: Table[],
+  { fixtures = [], zones = [] }: { fixtures?: Fixture[]; zones?: Zone[] } = {}
+): FloorPlanLayout {
+  return {
+    format: FLOOR_PLAN_LAYOUT_FORMAT,
+    version: FLOOR_PLAN_LAYOUT_VERSION,
+    exported_at: new Date().toISOString(),
+    floor_plan: {
+      name: floorPlan.name,
+      canvas_width: floorPlan.canvas_width,
+      canvas_height: floorPlan.canvas_height,
+      background_color: floorPlan.background_color,
+      background_image_url: floorPlan.background_image_url,
+    },
+    tables: tables.map(table => ({
+      id: table.id,
+      label: table.label,
+      type: table.type,
+      x: table.x,
+      y: table.y,
+      width: table.width,
+      height: table.height,
+      seats: table.seats,
+      rotation: table.rotation ?? 0,
+      status: table.status ?? 'available',
+      zIndex: table.zIndex ?? 1,
+      zoneId: table.zoneId,
+    })),
+    fixtures: fixtures.map(fixture => ({
+      id: fixture.id,
+      kind: fixture.kind,
+      label: fixture.label ?? null,
+      x: fixture.x,
+      y: fixture.y,
+      width: fixture.width,
+      height: fixture.height,
+      rotation: fixture.rotation ?? 0,
+      zIndex: fixture.zIndex ?? 0,
+    })),
+    zones: zones.map(zone => ({
+      id: zone.id,
+      name: zone.name,
+      color: zone.color,
+      points: zone.points.map(point => ({ ...point })),
+    })),
+  }
+}
+
+/**
+ * Validate an imported or stored layout document. Throws with the first
+ * problem found, e.g. "tables.3.width: Number must be greater than 0".
+ */
+export function parseFloorPlanLayout(input: unknown): FloorPlanLayout {
+  const result = floorPlanLayoutSchema.safeParse(input)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.join('.')
+    throw new Error(
+      `Invalid floor plan layout: ${path ? `${path}: ` : ''}${issue.message}`
+    )
+  }
+  return result.data
+}
+
+export function parseFloorPlanLayoutJson(json: string): FloorPlanLayout {
+  let document: unknown
+  try {
+    document = JSON.parse(json)
+  } catch {
+    throw new Error('Invalid floor plan layout: not a JSON document')
+  }
+  return parseFloorPlanLayout(document)
+}
+
+export function getLayoutTables(layout: FloorPlanLayout): Table[] {
+  return layout.tables.map(table => ({ ...table }))
+}
+
+/**
+ * Everything in a layout, ready to put on a canvas. Fixtures and zones get
+ * new IDs, as saving upserts them by ID and the layout may come from another
+ * plan; tables follow their zone to its new ID.
+ */
+export function getLayoutObjects(
+  layout: FloorPlanLayout,
+  createId: () => string = () => crypto.randomUUID()
+): { tables: Table[]; fixtures: Fixture[]; zones: Zone[] } {
+  const zoneIds = new Map(layout.zones.map(zone => [zone.id, createId()]))
+
+  return {
+    tables: getLayoutTables(layout).map(table => ({
+      ...table,
+      zoneId: table.zoneId ? (zoneIds.get(table.zoneId) ?? null) : null,
+    })),
+    fixtures: layout.fixtures.map(fixture => ({ ...fixture, id: createId() })),
+    zones: layout.zones.map(zone => ({
+      ...zone,
+      id: zoneIds.get(zone.id)!,
+      points: zone.points.map(point => ({ ...point })),
+    })),
+  }
+}
+
+const describeTableChanges = (before: Table, after: Table): string[] => {
+  const changes: string[] = []
+  if (before.label !== after.label) {
+    changes.push(`renamed ${before.label} → ${after.label}`)
+  }
+  if (before.type !== after.type) {
+    changes.push(`${before.type} → ${after.type}`)
+  }
+  if (before.seats !== after.seats) {
+    changes.push(`seats ${before.seats} → ${after.seats}`)
+  }
+  if (before.x !== after.x || before.y !== after.y) {
+    changes.push('moved')
+  }
+  if (before.width !== after.width || before.height !== after.height) {
+    changes.push('resized')
+  }
+  if ((before.rotation ?? 0) !== (after.rotation ?? 0)) {
+    changes.push('rotated')
+  }
+  return changes
+}
+
+/**
+ * What changes going from one layout to another. Tables are matched by ID,
+ * falling back to the label for layouts imported from another plan.
+ */
+export function diffFloorPlanLayouts(
+  before: Table[],
+  after: Table[]
+): FloorPlanLayoutDiff {
+  const unmatched = new Map(before.map(table => [table.id, table]))
+  const diff: FloorPlanLayoutDiff = { added: [], removed: [], changed: [] }
+
+  for (const table of after) {
+    const previous =
+      unmatched.get(table.id) ??
+      [...unmatched.values()].find(candidate => candidate.label === table.label)
+    if (!previous) {
+      diff.added.push(table)
+      continue
+    }
+    unmatched.delete(previous.id)
+    const changes = describeTableChanges(previous, table)
+    if (changes.length > 0) {
+      diff.changed.push({ table, changes })
+    }
+  }
+
+  diff.removed = [...unmatched.values()]
+  return diff
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const TITLE_HEIGHT = 40
+
+/**
+ * Printable drawing of the layout: black on white whatever the room's
+ * background, so it reads when posted in the staff room. The background
+ * image is left out; it may not be printable or allowed cross-origin.
+ */
+export function floorPlanLayoutToSvg(layout: FloorPlanLayout): string {
+  const { canvas_width: width, canvas_height: height, name } =
+    layout.floor_plan
+  const seatTotal = layout.tables.reduce((sum, table) => sum + table.seats, 0)
+
+  const tables = [...layout.tables]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(table => {
+      const cx = table.x + table.width / 2
+      const cy = table.y + table.height / 2
+      const shape =
+        table.type === 'circle'
+          ? `<ellipse cx="${cx}" cy="${cy}" rx="${table.width / 2}" ry="${table.height / 2}"/>`
+          : `<rect x="${table.x}" y="${table.y}" width="${table.width}" height="${table.height}" rx="4"/>`
+      return [
+        `<g transform="rotate(${table.rotation} ${cx} ${cy})">`,
+        shape,
+        `<text x="${cx}" y="${cy - 2}" class="label">${escapeXml(table.label)}</text>`,
+        `<text x="${cx}" y="${cy + 14}" class="seats">${table.seats} seats</text>`,
+        '</g>',
+      ].join('')
+    })
+
+  const zones = layout.zones.map(zone => {
+    const points = zone.points.map(point => `${point.x},${point.y}`).join(' ')
+    const cx =
+      zone.points.reduce((sum, point) => sum + point.x, 0) / zone.points.length
+    const cy =
+      zone.points.reduce((sum, point) => sum + point.y, 0) / zone.points.length
+    return [
+      `<polygon points="${points}" stroke="${escapeXml(zone.color)}"/>`,
+      `<text x="${cx}" y="${cy}" class="zone-name">${escapeXml(zone.name)}</text>`,
+    ].join('')
+  })
+
+  const fixtures = [...layout.fixtures]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(fixture => {
+      const cx = fixture.x + fixture.width / 2
+      const cy = fixture.y + fixture.height / 2
+      const text = fixture.label ? escapeXml(fixture.label) : ''
+      const shape =
+        fixture.kind === 'label'
+          ? `<text x="${cx}" y="${cy + 5}" class="label">${text}</text>`
+          : fixture.kind === 'pillar'
+            ? `<ellipse cx="${cx}" cy="${cy}" rx="${fixture.width / 2}" ry="${fixture.height / 2}" class="${fixture.kind}"/>`
+            : `<rect x="${fixture.x}" y="${fixture.y}" width="${fixture.width}" height="${fixture.height}" class="${fixture.kind}"/>`
+      const caption =
+        text && fixture.kind !== 'label'
+          ? `<text x="${cx}" y="${cy + 4}" class="seats">${text}</text>`
+          : ''
+      return `<g transform="rotate(${fixture.rotation} ${cx} ${cy})">${shape}${caption}</g>`
+    })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height + TITLE_HEIGHT}" viewBox="0 0 ${width} ${height + TITLE_HEIGHT}">`,
+    '<style>',
+    'text{font-family:sans-serif;fill:#111827;text-anchor:middle}',
+    '.title{font-size:18px;font-weight:bold;text-anchor:start}',
+    '.label{font-size:14px;font-weight:bold}',
+    '.seats{font-size:11px;fill:#4b5563}',
+    '.table-area ellipse,.table-area rect{fill:#f3f4f6;stroke:#111827;stroke-width:2}',
+    '.zones polygon{fill:none;stroke-width:2;stroke-dasharray:6 4}',
+    '.zone-name{font-size:13px;font-weight:bold;fill:#6b7280}',
+    '.fixtures rect,.fixtures ellipse{fill:#e5e7eb;stroke:#6b7280;stroke-width:1}',
+    '.fixtures .wall,.fixtures .pillar{fill:#4b5563}',
+    '</style>',
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<text x="12" y="26" class="title">${escapeXml(name)} · ${layout.tables.length} tables · ${seatTotal} seats</text>`,
+    `<g transform="translate(0 ${TITLE_HEIGHT})">`,
+    `<rect width="${width}" height="${height}" fill="none" stroke="#9ca3af" stroke-width="2"/>`,
+    `<g class="zones">${zones.join('')}</g>`,
+    `<g class="fixtures">${fixtures.join('')}</g>`,
+    `<g class="table-area">${tables.join('')}</g>`,
+    '</g>',
+    '</svg>',
+  ].join('\n')
+}
+
+/**
+ * Rasterise the SVG drawing at print resolution. Browser only.
+ */
+export function floorPlanLayoutToPng(
+  layout: FloorPlanLayout,
+  scale = 2
+): Promise<Blob> {
+  const svg = floorPlanLayoutToSvg(layout)
+  const width = layout.floor_plan.canvas_width * scale
+  const height = (layout.floor_plan.canvas_height + TITLE_HEIGHT) * scale
+
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        reject(new Error('Canvas is not available'))
+        return
+      }
+      ctx.drawImage(image, 0, 0, width, height)
+      canvas.toBlob(blob =>
+        blob ? resolve(blob) : reject(new Error('Failed to render PNG'))
+      )
+    }
+    image.onerror = () => reject(new Error('Failed to render PNG'))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  })
+}
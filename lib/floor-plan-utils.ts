@@ -1,5 +1,7 @@
 // File: frontend/lib/floor-plan-utils.ts
 
+import type { FixtureKind, TableLifecycleState } from '@/types/database'
+
 // Frontend Table Type (matching editor/view)
 export type Table = {
   id: string
@@ -13,8 +15,60 @@ export type Table = {
   rotation?: number
   status?: 'available' | 'occupied' | 'reserved'
   zIndex?: number
+  // Server section the table belongs to
+  zoneId?: string | null
+  // Where the table is in its turn, and since when
+  lifecycleState?: TableLifecycleState
+  lifecycleChangedAt?: string | null
 }
 
+// Non-seating object (wall, door, station...), positioned like a table
+export type Fixture = {
+  id: string
+  kind: FixtureKind
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation?: number
+  zIndex?: number
+  label?: string | null
+}
+
+// Named polygon area of the floor, used as a server section
+export type Zone = {
+  id: string
+  name: string
+  color: string
+  points: { x: number; y: number }[]
+}
+
+export const FIXTURE_DEFAULTS: Record<
+  FixtureKind,
+  { name: string; width: number; height: number; color: string }
+> = {
+  wall: { name: 'Wall', width: 200, height: 10, color: '#9ca3af' },
+  door: { name: 'Door', width: 60, height: 10, color: '#a16207' },
+  server_station: {
+    name: 'Server station',
+    width: 100,
+    height: 50,
+    color: '#0f766e',
+  },
+  buffet: { name: 'Buffet line', width: 240, height: 60, color: '#b45309' },
+  pillar: { name: 'Pillar', width: 30, height: 30, color: '#6b7280' },
+  label: { name: 'Label', width: 120, height: 30, color: '#e5e7eb' },
+}
+
+export const ZONE_COLORS = [
+  '#3b82f6',
+  '#10b981',
+  '#f59e0b',
+  '#ef4444',
+  '#8b5cf6',
+  '#ec4899',
+]
+
 // Backend Table Type (matching editor/view)
 export type BackendTable = {
   id: number
@@ -35,6 +35,8 @@ export interface KDSActions {
     routingId: string,
     updates: Partial<KDSOrderRouting>
   ) => void
+  // Let the server's state show again, e.g. after a journaled action conflicted
+  clearOptimisticUpdate: (_routingId: string) => void
 
   // UI actions
   setViewMode: (mode: KDSViewMode) => void
@@ -43,7 +45,7 @@ export interface KDSActions {
   toggleSound: () => void
 }
 
-export function useKDSState(stationId?: string) {
+export function useKDSState(stationId?: string, serviceId?: string) {
   const { session, loading: sessionLoading } = useSession()
   const [state, setState] = useState<KDSState>({
     orders: [],
@@ -95,11 +97,13 @@ export function useKDSState(stationId?: string) {
         ? await fetchStationOrders(supabase, stationId)
         : await fetchAllActiveOrders(supabase)
 
-      // Apply optimistic updates
-      const updatedData = data.map(order => {
-        const optimisticUpdate = optimisticUpdatesRef.current.get(order.id)
-        return optimisticUpdate ? { ...order, ...optimisticUpdate } : order
-      })
+      // Keep the selected service's tickets and apply optimistic updates
+      const updatedData = data
+        .filter(order => !serviceId || order.order?.service_id === serviceId)
+        .map(order => {
+          const optimisticUpdate = optimisticUpdatesRef.current.get(order.id)
+          return optimisticUpdate ? { ...order, ...optimisticUpdate } : order
+        })
 
       setState(prev => ({
         ...prev,
@@ -117,7 +121,7 @@ export function useKDSState(stationId?: string) {
         connectionStatus: 'disconnected',
       }))
     }
-    }, [stationId, session])
+    }, [stationId, serviceId, session])
 
   // Optimistic update
   const optimisticUpdate = useCallback(
@@ -138,6 +142,10 @@ export function useKDSState(stationId?: string) {
     []
   )
 
+  const clearOptimisticUpdate = useCallback((routingId: string) => {
+    optimisticUpdatesRef.current.delete(routingId)
+  }, [])
+
   // UI actions
   const setViewMode = useCallback((mode: KDSViewMode) => {
     setState(prev => ({ ...prev, viewMode: mode }))
@@ -279,6 +287,7 @@ export function useKDSState(stationId?: string) {
   const actions: KDSActions = {
     refetch: fetchOrders,
     optimisticUpdate,
+    clearOptimisticUpdate,
     setViewMode,
     setSortBy,
     setFilterBy,
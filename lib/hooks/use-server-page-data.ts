@@ -36,7 +36,7 @@ interface ServerPageData {
   error: string | null
 }
 
-export function useServerPageData(floorPlanId: string = 'default') {
+export function useServerPageData(floorPlanId?: string | null) {
   const [data, setData] = useState<ServerPageData>({
     tables: [],
     residents: [],
@@ -57,9 +57,13 @@ export function useServerPageData(floorPlanId: string = 'default') {
         data: { user },
       } = await supabase.auth.getUser()
 
-      // Load all data in parallel
+      // Load all data in parallel; no plan means every room
+      let tablesQuery = supabase.from('tables').select('*').order('label')
+      if (floorPlanId) {
+        tablesQuery = tablesQuery.eq('floor_plan_id', floorPlanId)
+      }
       const [tablesResult, residentsResult, ordersResult] = await Promise.all([
-        supabase.from('tables').select('*').order('label'),
+        tablesQuery,
         supabase.from('profiles').select('*').eq('role', 'resident'),
         supabase
           .from('orders')
@@ -95,6 +99,8 @@ export function useServerPageData(floorPlanId: string = 'default') {
           type: (table.type || 'circle') as 'circle' | 'rectangle' | 'square',
           rotation: table.rotation || 0,
           zIndex: 1,
+          lifecycleState: table.lifecycle_state || 'available',
+          lifecycleChangedAt: table.lifecycle_changed_at ?? null,
         })
       )
 
@@ -176,6 +182,8 @@ export function useServerPageData(floorPlanId: string = 'default') {
           type: (table.type || 'circle') as 'circle' | 'rectangle' | 'square',
           rotation: table.rotation || 0,
           zIndex: 1,
+          lifecycleState: table.lifecycle_state || 'available',
+          lifecycleChangedAt: table.lifecycle_changed_at ?? null,
         })
       )
       setData(prev => ({ ...prev, tables }))
@@ -1,5 +1,18 @@
 import { useCallback, useEffect, useReducer, useRef } from 'react'
 import { transcribeAudioFile } from '@/lib/modassembly/openai/transcribe'
+import {
+  type KnownMenuItem,
+  type ResolvedOrderLine,
+  confirmResolvedLine,
+  resolveOrderPhrases,
+  toOrderLineInput,
+} from '@/lib/modassembly/openai/menu-item-resolver'
+import { fetchMenuItems } from '@/lib/modassembly/supabase/database/menu'
+import type {
+  MenuModifier,
+  OrderItemModifier,
+  OrderLineInput,
+} from '@/types/database'
 
 // Voice recording state machine types
 export type VoiceRecordingStep =
@@ -15,6 +28,8 @@ export interface VoiceRecordingState {
   step: VoiceRecordingStep
   transcription: string
   transcriptionItems: string[]
+  // Catalog matches for transcriptionItems (empty when no menu is configured)
+  resolvedLines: ResolvedOrderLine[]
   dietaryAlerts: string[]
   error: string | null
   retryCount: number
@@ -29,8 +44,11 @@ export type VoiceRecordingAction =
       type: 'TRANSCRIPTION_SUCCESS'
       transcription: string
       items: string[]
+      lines: ResolvedOrderLine[]
       alerts: string[]
     }
+  | { type: 'UPDATE_LINE'; index: number; line: ResolvedOrderLine }
+  | { type: 'REMOVE_LINE'; index: number }
   | { type: 'TRANSCRIPTION_ERROR'; error: string }
   | { type: 'CONFIRM_ORDER' }
   | { type: 'SUBMIT_ORDER' }
@@ -44,6 +62,7 @@ const initialState: VoiceRecordingState = {
   step: 'idle',
   transcription: '',
   transcriptionItems: [],
+  resolvedLines: [],
   dietaryAlerts: [],
   error: null,
   retryCount: 0,
@@ -62,6 +81,7 @@ function voiceRecordingReducer(
         error: null,
         transcription: '',
         transcriptionItems: [],
+        resolvedLines: [],
         dietaryAlerts: [],
       }
 
@@ -83,12 +103,32 @@ function voiceRecordingReducer(
         step: 'confirming',
         transcription: action.transcription,
         transcriptionItems: action.items,
+        resolvedLines: action.lines,
         dietaryAlerts: action.alerts,
         showConfirmation: true,
         error: null,
         retryCount: 0,
       }
 
+    case 'UPDATE_LINE':
+      return {
+        ...state,
+        resolvedLines: state.resolvedLines.map((line, index) =>
+          index === action.index ? action.line : line
+        ),
+      }
+
+    case 'REMOVE_LINE':
+      return {
+        ...state,
+        transcriptionItems: state.transcriptionItems.filter(
+          (_, index) => index !== action.index
+        ),
+        resolvedLines: state.resolvedLines.filter(
+          (_, index) => index !== action.index
+        ),
+      }
+
     case 'TRANSCRIPTION_ERROR':
       const newRetryCount = state.retryCount + 1
       return {
@@ -144,15 +184,34 @@ function voiceRecordingReducer(
 }
 
 export interface VoiceRecordingOptions {
-  onSuccess?: (items: string[]) => void
+  onSuccess?: (_items: string[], _lines: OrderLineInput[]) => void
   onError?: (error: string) => void
   maxRetries?: number
+  orderType?: 'food' | 'drink'
 }
 
 export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
-  const { onSuccess, onError, maxRetries = 3 } = options
+  const { onSuccess, onError, maxRetries = 3, orderType } = options
   const [state, dispatch] = useReducer(voiceRecordingReducer, initialState)
   const audioRecorderRef = useRef<any>(null)
+  const menuItemsRef = useRef<KnownMenuItem[] | null>(null)
+
+  // Known menu items for resolving transcribed phrases, loaded once per panel
+  const loadKnownMenuItems = useCallback(async (): Promise<
+    KnownMenuItem[]
+  > => {
+    if (menuItemsRef.current) {
+      return menuItemsRef.current
+    }
+    try {
+      menuItemsRef.current = await fetchMenuItems({ type: orderType })
+    } catch (error) {
+      // Fall back to free-text items rather than blocking the order
+      console.error('Failed to load menu items for voice matching:', error)
+      return []
+    }
+    return menuItemsRef.current
+  }, [orderType])
 
   // Action creators
   const startRecording = useCallback(async () => {
@@ -214,11 +273,15 @@ export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
           ? result.items
           : parseTranscriptionToItems(transcription)
       const alerts = checkDietaryAlerts(items) // Simple keyword check
+      const knownItems = await loadKnownMenuItems()
+      const lines =
+        knownItems.length > 0 ? resolveOrderPhrases(items, knownItems) : []
 
       dispatch({
         type: 'TRANSCRIPTION_SUCCESS',
         transcription,
-        items,
+        items: lines.length > 0 ? lines.map(line => line.phrase) : items,
+        lines,
         alerts,
       })
     } catch (error) {
@@ -228,9 +291,64 @@ export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
       })
       onError?.(error instanceof Error ? error.message : 'Recording failed')
     }
-  }, [onError])
+  }, [onError, loadKnownMenuItems])
+
+  // Server picked the intended item for a low-confidence line
+  const confirmLine = useCallback(
+    (index: number, menuItemId: string) => {
+      const line = state.resolvedLines[index]
+      if (!line || !menuItemsRef.current) {
+        return
+      }
+      dispatch({
+        type: 'UPDATE_LINE',
+        index,
+        line: confirmResolvedLine(line, menuItemId, menuItemsRef.current),
+      })
+    },
+    [state.resolvedLines]
+  )
+
+  const removeLine = useCallback((index: number) => {
+    dispatch({ type: 'REMOVE_LINE', index })
+  }, [])
+
+  // Server edited a line's modifiers or special instructions by hand
+  const updateLineModifiers = useCallback(
+    (index: number, modifiers: OrderItemModifier[], notes: string | null) => {
+      const line = state.resolvedLines[index]
+      if (!line) {
+        return
+      }
+      dispatch({
+        type: 'UPDATE_LINE',
+        index,
+        line: { ...line, modifiers, notes: notes?.trim() || null },
+      })
+    },
+    [state.resolvedLines]
+  )
+
+  // Catalog modifiers offered for a line's item
+  const getCatalogModifiers = useCallback(
+    (menuItemId: string): MenuModifier[] =>
+      (
+        menuItemsRef.current?.find(item => item.id === menuItemId)?.modifiers ||
+        []
+      ).filter(modifier => modifier.is_active),
+    []
+  )
+
+  const pendingConfirmations = state.resolvedLines.filter(
+    line => line.needsConfirmation
+  ).length
 
   const confirmOrder = useCallback(async () => {
+    // Low-confidence matches must be confirmed before anything is sent
+    if (pendingConfirmations > 0) {
+      return
+    }
+
     try {
       dispatch({ type: 'CONFIRM_ORDER' })
 
@@ -239,7 +357,12 @@ export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
       await new Promise(resolve => setTimeout(resolve, 1000))
 
       dispatch({ type: 'SUBMIT_SUCCESS' })
-      onSuccess?.(state.transcriptionItems)
+      onSuccess?.(
+        state.transcriptionItems,
+        state.resolvedLines
+          .map(toOrderLineInput)
+          .filter((line): line is OrderLineInput => line !== null)
+      )
     } catch (error) {
       dispatch({
         type: 'SUBMIT_ERROR',
@@ -250,7 +373,13 @@ export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
         error instanceof Error ? error.message : 'Failed to submit order'
       )
     }
-  }, [state.transcriptionItems, onSuccess, onError])
+  }, [
+    state.transcriptionItems,
+    state.resolvedLines,
+    pendingConfirmations,
+    onSuccess,
+    onError,
+  ])
 
   const retry = useCallback(() => {
     if (state.retryCount < maxRetries) {
@@ -310,10 +439,15 @@ export function useVoiceRecordingState(options: VoiceRecordingOptions = {}) {
     isSuccess,
     canRetry,
     shouldShowRetryMessage,
+    pendingConfirmations,
 
     // Actions
     startRecording,
     stopRecording,
+    confirmLine,
+    removeLine,
+    updateLineModifiers,
+    getCatalogModifiers,
     confirmOrder,
     retry,
     reset,
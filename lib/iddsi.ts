@@ -0,0 +1,236 @@
+/**
+ * IDDSI Texture Levels
+ * Texture-modified diets and drink thicknesses on the International
+ * Dysphagia Diet Standardisation Initiative scale: drinks run from level 0
+ * (thin) to 4 (extremely thick), foods from 3 (liquidised) to 7 (regular).
+ */
+
+import type {
+  FluidThickness,
+  OrderItem,
+  OrderLineInput,
+  ResidentCareSnapshot,
+  TextureDiet,
+} from '@/types/database'
+
+export const TEXTURE_DIETS: TextureDiet[] = [
+  'regular',
+  'easy_to_chew',
+  'soft_bite_sized',
+  'minced_moist',
+  'pureed',
+  'liquidised',
+]
+
+export const TEXTURE_DIET_LABELS: Record<TextureDiet, string> = {
+  regular: 'Regular',
+  easy_to_chew: 'Easy to chew',
+  soft_bite_sized: 'Soft & bite-sized',
+  minced_moist: 'Minced & moist',
+  pureed: 'Pureed',
+  liquidised: 'Liquidised',
+}
+
+export const FLUID_THICKNESSES: FluidThickness[] = [
+  'thin',
+  'slightly_thick',
+  'mildly_thick',
+  'moderately_thick',
+  'extremely_thick',
+]
+
+export const FLUID_THICKNESS_LABELS: Record<FluidThickness, string> = {
+  thin: 'Thin',
+  slightly_thick: 'Slightly thick',
+  mildly_thick: 'Mildly thick',
+  moderately_thick: 'Moderately thick',
+  extremely_thick: 'Extremely thick',
+}
+
+export const TEXTURE_DIET_LEVELS: Record<TextureDiet, string> = {
+  regular: '7',
+  easy_to_chew: '7EC',
+  soft_bite_sized: '6',
+  minced_moist: '5',
+  pureed: '4',
+  liquidised: '3',
+}
+
+export const FLUID_THICKNESS_LEVELS: Record<FluidThickness, string> = {
+  thin: '0',
+  slightly_thick: '1',
+  mildly_thick: '2',
+  moderately_thick: '3',
+  extremely_thick: '4',
+}
+
+// Spoken variants → thickness, including the pre-IDDSI names staff still use
+const THICKNESS_PHRASES: Record<string, FluidThickness> = {
+  'slightly thick': 'slightly_thick',
+  'mildly thick': 'mildly_thick',
+  'nectar thick': 'mildly_thick',
+  'moderately thick': 'moderately_thick',
+  'honey thick': 'moderately_thick',
+  'extremely thick': 'extremely_thick',
+  'pudding thick': 'extremely_thick',
+  'spoon thick': 'extremely_thick',
+  'level 1': 'slightly_thick',
+  'level 2': 'mildly_thick',
+  'level 3': 'moderately_thick',
+  'level 4': 'extremely_thick',
+}
+
+const THICKNESS_PATTERN = new RegExp(
+  `\\b(${Object.keys(THICKNESS_PHRASES).join('|')})\\b`,
+  'i'
+)
+
+/**
+ * Thickness named by a modifier phrase ("mildly thick", "honey-thick",
+ * "thickened level 2"), or null
+ */
+export function parseThicknessPhrase(phrase: string): FluidThickness | null {
+  const text = phrase
+    .toLowerCase()
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^thickened\s+(?:to\s+)?/, '')
+    .trim()
+  return THICKNESS_PHRASES[text] ?? null
+}
+
+/**
+ * Thickness mentioned anywhere in a free-text item ("tea, mildly thick")
+ */
+export function findThicknessInText(text: string): FluidThickness | null {
+  const match = text.replace(/-/g, ' ').match(THICKNESS_PATTERN)
+  return match ? THICKNESS_PHRASES[match[1].toLowerCase()] : null
+}
+
+/**
+ * "IDDSI 5 · Minced & moist"
+ */
+export function formatTextureLevel(diet: TextureDiet): string {
+  return `IDDSI ${TEXTURE_DIET_LEVELS[diet]} · ${TEXTURE_DIET_LABELS[diet]}`
+}
+
+/**
+ * "IDDSI 2 · Mildly thick"
+ */
+export function formatThicknessLevel(thickness: FluidThickness): string {
+  return `IDDSI ${FLUID_THICKNESS_LEVELS[thickness]} · ${FLUID_THICKNESS_LABELS[thickness]}`
+}
+
+/**
+ * Whether a resident's diet changes how the kitchen prepares their food
+ */
+export function isTextureModified(diet: TextureDiet | null | undefined): diet is TextureDiet {
+  return !!diet && diet !== 'regular'
+}
+
+/**
+ * Whether a resident's drinks must be thickened
+ */
+export function needsThickenedFluids(
+  thickness: FluidThickness | null | undefined
+): thickness is FluidThickness {
+  return !!thickness && thickness !== 'thin'
+}
+
+type LevelledOrder = {
+  type?: string
+  order_items?: Pick<OrderItem, 'texture_diet' | 'fluid_thickness'>[] | null
+  resident_care?: Pick<ResidentCareSnapshot, 'texture_diet' | 'fluid_thickness'> | null
+}
+
+/**
+ * Texture-modified levels an order must be prepared to, from its lines.
+ * Free-text orders have no lines and use the resident's care snapshot.
+ */
+export function getOrderTextureLevels(order: LevelledOrder | null | undefined): {
+  textures: TextureDiet[]
+  thicknesses: FluidThickness[]
+} {
+  const lines = order?.order_items || []
+  if (lines.length === 0) {
+    const texture = order?.resident_care?.texture_diet
+    const thickness = order?.resident_care?.fluid_thickness
+    const drink = order?.type === 'drink'
+    return {
+      textures: !drink && isTextureModified(texture) ? [texture] : [],
+      thicknesses: drink && needsThickenedFluids(thickness) ? [thickness] : [],
+    }
+  }
+
+  return {
+    textures: Array.from(
+      new Set(lines.map(line => line.texture_diet).filter(isTextureModified))
+    ),
+    thicknesses: Array.from(
+      new Set(lines.map(line => line.fluid_thickness).filter(needsThickenedFluids))
+    ),
+  }
+}
+
+export interface ThicknessRequiredError extends Error {
+  code: 'THICKNESS_REQUIRED'
+  // Drinks without the required thickness modifier; catalog lines also
+  // give their menu items
+  itemNames: string[]
+  menuItemIds: string[]
+  required: FluidThickness
+}
+
+export function createThicknessRequiredError(
+  itemNames: string[],
+  required: FluidThickness,
+  menuItemIds: string[] = []
+): ThicknessRequiredError {
+  return Object.assign(
+    new Error(
+      `${FLUID_THICKNESS_LABELS[required]} fluids required: ${itemNames.join(', ')}`
+    ),
+    { code: 'THICKNESS_REQUIRED' as const, itemNames, menuItemIds, required }
+  )
+}
+
+export function isThicknessRequiredError(
+  error: unknown
+): error is ThicknessRequiredError {
+  return (
+    error instanceof Error &&
+    (error as Partial<ThicknessRequiredError>).code === 'THICKNESS_REQUIRED'
+  )
+}
+
+/**
+ * The order again with the refused drinks thickened: catalog lines get a
+ * thickness modifier (replacing any other), free-text items the phrase
+ */
+export function withRequiredThickness<
+  T extends { lines?: OrderLineInput[]; items?: string[] },
+>(
+  order: T,
+  error: Pick<ThicknessRequiredError, 'itemNames' | 'menuItemIds' | 'required'>
+): T {
+  const label = FLUID_THICKNESS_LABELS[error.required]
+  return {
+    ...order,
+    lines: order.lines?.map(line =>
+      error.menuItemIds.includes(line.menu_item_id)
+        ? {
+            ...line,
+            modifiers: [
+              ...(line.modifiers || []).filter(
+                modifier => modifier.kind !== 'thickness'
+              ),
+              { modifier_id: null, name: label, kind: 'thickness' as const },
+            ],
+          }
+        : line
+    ),
+    items: order.items?.map(item =>
+      error.itemNames.includes(item) ? `${item}, ${label.toLowerCase()}` : item
+    ),
+  }
+}
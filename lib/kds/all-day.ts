@@ -0,0 +1,81 @@
+/**
+ * KDS "All Day" Counts
+ * Rolls every open ticket up into outstanding quantities per item
+ * ("7 burgers, 3 caesar") for the expo and the line.
+ */
+
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds/types'
+import { type KDSDisplayLine, getTicketDisplayLines } from './order-lines'
+
+export interface AllDayItem {
+  // menu_item_id for catalog lines, the lowercased name for free text
+  key: string
+  name: string
+  quantity: number
+  // Part of quantity on tickets waiting for their course to be fired
+  heldQuantity: number
+  stationIds: string[]
+  // Tickets carrying this item, for highlighting
+  routingIds: string[]
+}
+
+/**
+ * Lines of the same dish share a key: the catalog item, or the name for free text
+ */
+export function getAllDayItemKey(
+  line: Pick<KDSDisplayLine, 'menuItemId' | 'name'>
+): string {
+  return line.menuItemId ?? line.name.trim().toLowerCase()
+}
+
+/**
+ * Outstanding quantity per item across open tickets, largest first.
+ * Lines already marked done don't count; pass a station to count only its tickets.
+ */
+export function aggregateAllDayCounts(
+  routings: KDSOrderRouting[],
+  stationId?: string | null
+): AllDayItem[] {
+  const items = new Map<string, AllDayItem>()
+
+  for (const routing of routings) {
+    if (routing.completed_at || (stationId && routing.station_id !== stationId)) {
+      continue
+    }
+
+    for (const line of getTicketDisplayLines(routing)) {
+      if (line.ticketItem?.completed_at) {
+        continue
+      }
+
+      const key = getAllDayItemKey(line)
+      if (!key) {
+        continue
+      }
+
+      const item = items.get(key) ?? {
+        key,
+        name: line.name,
+        quantity: 0,
+        heldQuantity: 0,
+        stationIds: [],
+        routingIds: [],
+      }
+      item.quantity += line.quantity
+      if (routing.held_at) {
+        item.heldQuantity += line.quantity
+      }
+      if (!item.stationIds.includes(routing.station_id)) {
+        item.stationIds.push(routing.station_id)
+      }
+      if (!item.routingIds.includes(routing.id)) {
+        item.routingIds.push(routing.id)
+      }
+      items.set(key, item)
+    }
+  }
+
+  return Array.from(items.values()).sort(
+    (a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name)
+  )
+}
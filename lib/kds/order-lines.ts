@@ -0,0 +1,105 @@
+/**
+ * KDS Order Line Helpers
+ * Normalizes catalog order lines and legacy free-text items for ticket display
+ */
+
+import type {
+  KDSOrderRouting,
+  KDSTicketItemProgress,
+} from '@/lib/modassembly/supabase/database/kds/types'
+import { normalizeModifier, sortModifiers } from '@/lib/order-modifiers'
+import type { Course, OrderItemModifier } from '@/types/database'
+
+export interface KDSDisplayLine {
+  key: string
+  menuItemId: string | null
+  name: string
+  quantity: number
+  // Structured, in the order a cook reads them (see sortModifiers)
+  modifiers: OrderItemModifier[]
+  notes: string | null
+  course: Course | null
+  // This line's progress on the station ticket being shown, if tracked
+  ticketItem?: KDSTicketItemProgress | null
+}
+
+/**
+ * Lines to render on a KDS card. Catalog lines win; orders created before
+ * the menu catalog fall back to their free-text `items` array. Pass the
+ * ticket's course to show only the lines fired with it.
+ */
+export function getOrderDisplayLines(
+  order: KDSOrderRouting['order'] | null | undefined,
+  course?: Course | null
+): KDSDisplayLine[] {
+  if (!order) {
+    return []
+  }
+
+  if (order.order_items && order.order_items.length > 0) {
+    return [...order.order_items]
+      .filter(
+        line => course === undefined || (line.course ?? null) === course
+      )
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map(line => ({
+        key: line.id,
+        menuItemId: line.menu_item_id,
+        name: line.name,
+        quantity: line.quantity || 1,
+        modifiers: toDisplayModifiers(line.modifiers),
+        notes: line.notes,
+        course: line.course ?? null,
+      }))
+  }
+
+  if (!Array.isArray(order.items)) {
+    return []
+  }
+
+  return order.items.map((item: any, index: number) => ({
+    key: `legacy-${index}`,
+    menuItemId: null,
+    name: typeof item === 'object' && item ? item.name : String(item),
+    quantity: 1,
+    modifiers:
+      typeof item === 'object' && item ? toDisplayModifiers(item.modifiers) : [],
+    notes: typeof item === 'object' && item?.notes ? item.notes : null,
+    course: null,
+  }))
+}
+
+/**
+ * Lines a station ticket carries, each with its started/done progress.
+ * Tickets routed before per-item tracking show every line of their course.
+ */
+export function getTicketDisplayLines(
+  routing: Pick<KDSOrderRouting, 'order' | 'course' | 'items'>
+): KDSDisplayLine[] {
+  const items = routing.items || []
+  if (items.length === 0) {
+    return getOrderDisplayLines(routing.order, routing.course)
+  }
+
+  const itemsByLine = new Map(
+    items.map(item => [
+      item.order_item_id ?? `legacy-${item.line_index}`,
+      item,
+    ])
+  )
+
+  return getOrderDisplayLines(routing.order)
+    .filter(line => itemsByLine.has(line.key))
+    .map(line => ({ ...line, ticketItem: itemsByLine.get(line.key) }))
+}
+
+function toDisplayModifiers(modifiers: unknown): OrderItemModifier[] {
+  if (!Array.isArray(modifiers)) {
+    return []
+  }
+  return sortModifiers(
+    modifiers
+      .map(normalizeModifier)
+      .filter((modifier): modifier is OrderItemModifier => modifier !== null)
+  )
+}
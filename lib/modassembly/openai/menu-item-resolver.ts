@@ -0,0 +1,364 @@
+/**
+ * Menu Item Resolver
+ * Maps free-form item phrases extracted from a transcription ("cheese burger",
+ * "2x burger w/ cheese - no onions") onto catalog items using the
+ * admin-managed synonym list and edit distance.
+ */
+
+import { parseModifierPhrase } from '@/lib/order-modifiers'
+import type {
+  MenuItemWithDetails,
+  OrderItemModifier,
+  OrderLineInput,
+} from '@/types/database'
+
+// Below this the server has to confirm the match before the order is sent
+export const LOW_CONFIDENCE_THRESHOLD = 0.8
+
+// Candidates scoring below this are not worth offering as alternatives
+const MIN_CANDIDATE_SCORE = 0.45
+const MAX_ALTERNATIVES = 3
+// Two candidates this close together are treated as ambiguous
+const AMBIGUITY_MARGIN = 0.05
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+}
+
+const FILLER_WORDS = new Set(['the', 'some', 'order', 'of', 'please'])
+
+export type KnownMenuItem = Pick<
+  MenuItemWithDetails,
+  'id' | 'name' | 'modifiers' | 'synonyms'
+>
+
+export interface MenuItemMatch {
+  menuItemId: string
+  name: string
+  confidence: number
+  matchedOn: 'name' | 'synonym'
+  matchedPhrase: string
+}
+
+export interface ResolvedOrderLine {
+  /** Phrase as extracted from the transcription */
+  phrase: string
+  /** Phrase with quantity and modifiers stripped */
+  itemPhrase: string
+  quantity: number
+  /** Modifier phrases as heard, re-resolved when the item changes */
+  modifierPhrases: string[]
+  modifiers: OrderItemModifier[]
+  /** Instructions that are not modifiers ("dressing on the side") */
+  notes: string | null
+  match: MenuItemMatch | null
+  alternatives: MenuItemMatch[]
+  confidence: number
+  needsConfirmation: boolean
+}
+
+/**
+ * Resolve every extracted phrase against the known menu items
+ */
+export function resolveOrderPhrases(
+  phrases: string[],
+  items: KnownMenuItem[],
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): ResolvedOrderLine[] {
+  return phrases
+    .filter(phrase => phrase.trim().length > 0)
+    .map(phrase => resolveOrderPhrase(phrase, items, threshold))
+}
+
+export function resolveOrderPhrase(
+  phrase: string,
+  items: KnownMenuItem[],
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): ResolvedOrderLine {
+  const { itemPhrase, quantity, modifierPhrases } = parsePhrase(phrase)
+  const normalizedPhrase = normalize(itemPhrase)
+
+  const candidates = items
+    .map(item => scoreItem(normalizedPhrase, item))
+    .filter(
+      (candidate): candidate is MenuItemMatch =>
+        candidate !== null && candidate.confidence >= MIN_CANDIDATE_SCORE
+    )
+    .sort((a, b) => b.confidence - a.confidence)
+
+  const [match = null, ...rest] = candidates
+  const alternatives = rest.slice(0, MAX_ALTERNATIVES)
+  const confidence = match?.confidence ?? 0
+  const ambiguous =
+    alternatives.length > 0 &&
+    confidence - alternatives[0].confidence <= AMBIGUITY_MARGIN
+  const matchedItem = match
+    ? items.find(item => item.id === match.menuItemId)
+    : undefined
+
+  return {
+    phrase,
+    itemPhrase,
+    quantity,
+    modifierPhrases,
+    ...resolveModifiers(modifierPhrases, matchedItem),
+    match,
+    alternatives,
+    confidence,
+    needsConfirmation: !match || confidence < threshold || ambiguous,
+  }
+}
+
+/**
+ * Apply the server's choice for a line (the best match or one of the
+ * alternatives). Modifiers are re-resolved against the chosen item.
+ */
+export function confirmResolvedLine(
+  line: ResolvedOrderLine,
+  menuItemId: string,
+  items: KnownMenuItem[]
+): ResolvedOrderLine {
+  const item = items.find(candidate => candidate.id === menuItemId)
+  if (!item) {
+    return line
+  }
+
+  const chosen = [line.match, ...line.alternatives].find(
+    candidate => candidate?.menuItemId === menuItemId
+  )
+
+  return {
+    ...line,
+    ...resolveModifiers(line.modifierPhrases, item),
+    match: {
+      menuItemId: item.id,
+      name: item.name,
+      confidence: chosen?.confidence ?? line.confidence,
+      matchedOn: chosen?.matchedOn ?? 'name',
+      matchedPhrase: chosen?.matchedPhrase ?? item.name,
+    },
+    alternatives: [],
+    confidence: 1,
+    needsConfirmation: false,
+  }
+}
+
+/**
+ * Order line for createOrder, or null when the phrase never matched
+ */
+export function toOrderLineInput(
+  line: ResolvedOrderLine
+): OrderLineInput | null {
+  if (!line.match) {
+    return null
+  }
+
+  return {
+    menu_item_id: line.match.menuItemId,
+    quantity: line.quantity,
+    modifiers: line.modifiers,
+    ...(line.notes ? { notes: line.notes } : {}),
+  }
+}
+
+/**
+ * Similarity between two phrases in [0, 1]. Exposed for tests and for
+ * callers that want to compare a single pair.
+ */
+export function phraseSimilarity(a: string, b: string): number {
+  const left = normalize(a)
+  const right = normalize(b)
+
+  if (!left || !right) {
+    return 0
+  }
+  if (left === right) {
+    return 1
+  }
+
+  // "cheese burger" vs "cheeseburger"
+  const compactLeft = left.replace(/ /g, '')
+  const compactRight = right.replace(/ /g, '')
+  if (compactLeft === compactRight) {
+    return 0.97
+  }
+
+  const longest = Math.max(compactLeft.length, compactRight.length)
+  const editScore =
+    1 - levenshteinDistance(compactLeft, compactRight) / longest
+
+  // "caesar" vs "caesar salad": plausible but not certain
+  const leftTokens = left.split(' ')
+  const rightTokens = right.split(' ')
+  const [shorter, longer] =
+    leftTokens.length <= rightTokens.length
+      ? [leftTokens, rightTokens]
+      : [rightTokens, leftTokens]
+  const containmentScore = shorter.every(token => longer.includes(token))
+    ? 0.6 +
+      0.3 *
+        (Math.min(compactLeft.length, compactRight.length) / longest)
+    : 0
+
+  return Math.max(editScore, containmentScore)
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0
+  }
+  if (!a.length) {
+    return b.length
+  }
+  if (!b.length) {
+    return a.length
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+function scoreItem(
+  normalizedPhrase: string,
+  item: KnownMenuItem
+): MenuItemMatch | null {
+  if (!normalizedPhrase) {
+    return null
+  }
+
+  let best: MenuItemMatch | null = null
+  const targets: { text: string; matchedOn: MenuItemMatch['matchedOn'] }[] = [
+    { text: item.name, matchedOn: 'name' },
+    ...(item.synonyms || []).map(synonym => ({
+      text: synonym.phrase,
+      matchedOn: 'synonym' as const,
+    })),
+  ]
+
+  for (const target of targets) {
+    const confidence = phraseSimilarity(normalizedPhrase, target.text)
+    if (!best || confidence > best.confidence) {
+      best = {
+        menuItemId: item.id,
+        name: item.name,
+        confidence: Math.round(confidence * 100) / 100,
+        matchedOn: target.matchedOn,
+        matchedPhrase: target.text,
+      }
+    }
+  }
+
+  return best
+}
+
+// Catalog modifiers win; otherwise the phrase is classified as add/remove/
+// substitute/temperature, and anything else becomes a note on the line
+function resolveModifiers(
+  modifierPhrases: string[],
+  item: KnownMenuItem | undefined
+): { modifiers: OrderItemModifier[]; notes: string | null } {
+  const known = (item?.modifiers || []).filter(modifier => modifier.is_active)
+  const modifiers: OrderItemModifier[] = []
+  const notes: string[] = []
+
+  modifierPhrases.forEach(phrase => {
+    const parsed = parseModifierPhrase(phrase)
+    const catalog = known.find(
+      candidate =>
+        phraseSimilarity(phrase, candidate.name) >= 0.9 ||
+        (parsed?.kind === candidate.kind &&
+          phraseSimilarity(parsed.name, candidate.name) >= 0.9)
+    )
+
+    if (catalog) {
+      modifiers.push({
+        modifier_id: catalog.id,
+        name: catalog.name,
+        kind: catalog.kind,
+      })
+    } else if (parsed) {
+      modifiers.push(parsed)
+    } else {
+      notes.push(phrase)
+    }
+  })
+
+  return { modifiers, notes: notes.length > 0 ? notes.join(', ') : null }
+}
+
+// "2x Cheeseburger - no onions, extra pickles"
+function parsePhrase(phrase: string): {
+  itemPhrase: string
+  quantity: number
+  modifierPhrases: string[]
+} {
+  const [head, ...modifierParts] = phrase.split(/\s+-\s+/)
+  let itemPhrase = head.trim()
+  let quantity = 1
+
+  const numeric = itemPhrase.match(/^(\d+)\s*x?\s+(.+)$/i)
+  if (numeric) {
+    quantity = parseInt(numeric[1], 10)
+    itemPhrase = numeric[2]
+  } else {
+    const [firstWord, ...restWords] = itemPhrase.split(/\s+/)
+    const wordQuantity = NUMBER_WORDS[firstWord?.toLowerCase()]
+    if (wordQuantity && restWords.length > 0) {
+      quantity = wordQuantity
+      itemPhrase = restWords.join(' ')
+    }
+  }
+
+  return {
+    itemPhrase,
+    quantity: Math.max(1, Math.min(50, quantity)),
+    modifierPhrases: modifierParts
+      .join(' - ')
+      .split(',')
+      .map(part => part.trim())
+      .filter(part => part.length > 0),
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\bw\//g, 'with ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !FILLER_WORDS.has(token))
+    .map(singularize)
+    .join(' ')
+}
+
+function singularize(token: string): string {
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1)
+  }
+  return token
+}
@@ -1,12 +1,19 @@
 /**
- * Optimized OpenAI Transcription Service
- * Combines audio optimization, caching, usage tracking, and fallback mechanisms
+ * Optimized Transcription Service
+ * Combines audio optimization, caching, usage tracking, and fallback mechanisms.
+ * Speech-to-text runs on whichever provider the environment selects; OpenAI
+ * is only required for item parsing, which falls back to simple splitting.
  */
 
 import OpenAI from 'openai'
 import { type OptimizationResult, createAudioOptimizer } from '../audio-recording/audio-optimization'
 import { type CacheEntry, generateAudioHash, getTranscriptionCache } from './transcription-cache'
 import { getUsageTracker } from './usage-tracking'
+import type { TranscriptionBudgetMode } from './transcription-budgets'
+import {
+  type TranscriptionProviderName,
+  getTranscriptionProviderChain,
+} from '../transcription'
 
 export interface TranscriptionOptions {
   enableOptimization?: boolean
@@ -34,13 +41,16 @@ export interface TranscriptionResult {
     latency: number
     retryCount: number
     model: string
+    // Speech-to-text backend that served the request
+    provider: TranscriptionProviderName | 'cache'
+    budgetMode: TranscriptionBudgetMode
     cacheHit?: boolean
     optimizationApplied?: string[]
   }
 }
 
 export interface TranscriptionError extends Error {
-  code: 'AUDIO_TOO_LARGE' | 'AUDIO_TOO_SHORT' | 'INVALID_FORMAT' | 'TRANSCRIPTION_FAILED' | 'PARSING_FAILED' | 'RATE_LIMITED' | 'TIMEOUT'
+  code: 'AUDIO_TOO_LARGE' | 'AUDIO_TOO_SHORT' | 'INVALID_FORMAT' | 'TRANSCRIPTION_FAILED' | 'PARSING_FAILED' | 'RATE_LIMITED' | 'TIMEOUT' | 'BUDGET_EXHAUSTED'
   retryable: boolean
   details?: any
 }
@@ -57,28 +67,35 @@ const DEFAULT_OPTIONS: Required<TranscriptionOptions> = {
 }
 
 export class OptimizedTranscriptionService {
-  private openai: OpenAI
+  private openai: OpenAI | null
   private options: Required<TranscriptionOptions>
   private cache = getTranscriptionCache()
   private tracker = getUsageTracker()
   private optimizer = createAudioOptimizer()
 
-  constructor(apiKey: string, options: TranscriptionOptions = {}) {
-    this.openai = new OpenAI({ apiKey })
+  constructor(apiKey: string | undefined, options: TranscriptionOptions = {}) {
+    this.openai = apiKey ? new OpenAI({ apiKey }) : null
     this.options = { ...DEFAULT_OPTIONS, ...options }
   }
 
   /**
-   * Transcribe audio with full optimization pipeline
+   * Transcribe audio with full optimization pipeline.
+   * Once a budget is spent, 'cheaper_model' prefers free engines and the
+   * cheapest parsing model; 'cache_only' makes no paid calls at all.
    */
-  async transcribe(audioBlob: Blob, userId: string, filename?: string): Promise<TranscriptionResult> {
+  async transcribe(
+    audioBlob: Blob,
+    userId: string,
+    filename?: string,
+    budgetMode: TranscriptionBudgetMode = 'normal'
+  ): Promise<TranscriptionResult> {
     const startTime = Date.now()
     let retryCount = 0
     let lastError: TranscriptionError | null = null
 
     while (retryCount <= this.options.maxRetries) {
       try {
-        return await this.attemptTranscription(audioBlob, userId, filename, startTime, retryCount)
+        return await this.attemptTranscription(audioBlob, userId, filename, startTime, retryCount, budgetMode)
       } catch (error) {
         lastError = this.normalizeError(error)
         
@@ -166,7 +183,8 @@ export class OptimizedTranscriptionService {
     userId: string,
     filename: string | undefined,
     startTime: number,
-    retryCount: number
+    retryCount: number,
+    budgetMode: TranscriptionBudgetMode
   ): Promise<TranscriptionResult> {
     let optimizationResult: OptimizationResult | null = null
     let workingBlob = audioBlob
@@ -176,8 +194,8 @@ export class OptimizedTranscriptionService {
     // Step 1: Generate audio hash for caching
     const audioHash = await generateAudioHash(audioBlob)
 
-    // Step 2: Check cache first
-    if (this.options.enableCaching) {
+    // Step 2: Check cache first (always, when the budget allows nothing else)
+    if (this.options.enableCaching || budgetMode === 'cache_only') {
       const cacheEntry = await this.cache.get(audioHash, userId)
       if (cacheEntry) {
         await this.tracker.recordTranscription({
@@ -205,6 +223,8 @@ export class OptimizedTranscriptionService {
             latency: Date.now() - startTime,
             retryCount,
             model: 'cached',
+            provider: 'cache',
+            budgetMode,
             cacheHit: true,
           },
         }
@@ -229,6 +249,8 @@ export class OptimizedTranscriptionService {
             latency: Date.now() - startTime,
             retryCount,
             model: 'similar-cached',
+            provider: 'cache',
+            budgetMode,
             cacheHit: true,
           },
         }
@@ -244,16 +266,15 @@ export class OptimizedTranscriptionService {
     // Step 4: Validate audio file
     this.validateAudioFile(workingBlob)
 
-    // Step 5: Perform transcription with timeout
-    const transcriptionPromise = this.performTranscription(workingBlob, filename)
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('TIMEOUT')), this.options.timeout)
-    })
-
-    const { transcription, confidence } = await Promise.race([transcriptionPromise, timeoutPromise])
+    // Step 5: Perform transcription, failing over between providers
+    const { transcription, confidence, provider, model } = await this.performTranscription(
+      workingBlob,
+      filename,
+      budgetMode
+    )
 
     // Step 6: Parse items with fallback
-    const items = await this.parseTranscriptionItems(transcription, userId)
+    const items = await this.parseTranscriptionItems(transcription, userId, budgetMode)
 
     // Step 7: Cache result if confidence is high enough
     if (this.options.enableCaching && confidence >= this.options.confidenceThreshold) {
@@ -272,6 +293,7 @@ export class OptimizedTranscriptionService {
       confidence,
       latency: Date.now() - startTime,
       retryCount,
+      model,
     })
 
     return {
@@ -285,10 +307,12 @@ export class OptimizedTranscriptionService {
         originalSize: audioBlob.size,
         optimizedSize: workingBlob.size,
         duration,
-        cost: (duration / 60000) * 0.006, // Whisper pricing
+        cost: model === 'whisper-1' ? (duration / 60000) * 0.006 : 0, // Whisper pricing; local is free
         latency: Date.now() - startTime,
         retryCount,
-        model: 'whisper-1',
+        model,
+        provider,
+        budgetMode,
         cacheHit,
         optimizationApplied: optimizationResult?.optimizationApplied,
       },
@@ -297,49 +321,64 @@ export class OptimizedTranscriptionService {
 
   private async performTranscription(
     audioBlob: Blob,
-    filename?: string
-  ): Promise<{ transcription: string; confidence: number }> {
-    // Create file object for OpenAI
-    const audioFile = new File([audioBlob], filename || 'audio.webm', { type: audioBlob.type })
-
-    // Transcribe with Whisper
-    const whisperResult = await this.openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      response_format: 'verbose_json',
-      temperature: 0.1, // Lower temperature for more consistent results
+    filename: string | undefined,
+    budgetMode: TranscriptionBudgetMode
+  ): Promise<{
+    transcription: string
+    confidence: number
+    provider: TranscriptionProviderName
+    model: string
+  }> {
+    const result = await getTranscriptionProviderChain().transcribe(audioBlob, {
+      filename,
+      timeoutMs: this.options.timeout,
+      maxCostPerMinute: budgetMode === 'cache_only' ? 0 : undefined,
+      preferCheapest: budgetMode === 'cheaper_model',
     })
 
-    // Extract confidence from segments if available
-    const confidence = this.calculateConfidence(whisperResult)
-    const transcription = typeof whisperResult === 'string' 
-      ? whisperResult 
-      : whisperResult.text
-
-    return { transcription, confidence }
+    return {
+      transcription: result.text,
+      confidence: result.confidence,
+      provider: result.provider,
+      model: result.model,
+    }
   }
 
-  private async parseTranscriptionItems(transcription: string, userId: string): Promise<string[]> {
+  private async parseTranscriptionItems(
+    transcription: string,
+    userId: string,
+    budgetMode: TranscriptionBudgetMode
+  ): Promise<string[]> {
     if (!transcription.trim()) {
       return []
     }
 
+    // Without OpenAI (local-only environments, or no budget left for it)
+    // items are split out directly
+    if (!this.openai || budgetMode === 'cache_only') {
+      return this.fallbackParsing(transcription)
+    }
+
+    const model = budgetMode === 'cheaper_model' ? 'gpt-3.5-turbo' : this.options.preferredModel
+
     try {
       // Use GPT to extract menu items
       const completion = await this.openai.chat.completions.create({
-        model: this.options.preferredModel,
+        model,
         messages: [
           {
             role: 'system',
             content: `You are a restaurant order parser. Extract menu items with their modifications from the customer's speech. 
                       Remove filler words like "I'd like", "please", "can I have", but KEEP all modifications, special requests, and specifications.
                       Return ONLY a JSON array of food/drink items with their modifications. 
+                      Phrase each modification as "no X", "add X", "X instead of Y" or a cooking temperature such as "medium rare".
                       
                       Examples:
                       "I'd like a cheeseburger with no onions" → ["Cheeseburger - no onions"]
                       "Can I get a salad with ranch dressing on the side" → ["Salad - ranch dressing on the side"]
                       "I want the grilled chicken, extra crispy, with no salt" → ["Grilled Chicken - extra crispy, no salt"]
-                      "Two coffees, one black and one with cream" → ["Coffee - black", "Coffee - with cream"]`,
+                      "Two coffees, one black and one with cream" → ["Coffee - black", "Coffee - with cream"]
+                      "Burger medium rare, hold the onion, and can I get a salad instead of fries" → ["Burger - medium rare, no onion, salad instead of fries"]`,
           },
           {
             role: 'user',
@@ -356,7 +395,7 @@ export class OptimizedTranscriptionService {
       
       await this.tracker.recordChatCompletion({
         userId,
-        model: this.options.preferredModel,
+        model,
         inputTokens,
         outputTokens,
       })
@@ -392,21 +431,6 @@ export class OptimizedTranscriptionService {
       .filter(item => item.length > 2) // Remove very short items
   }
 
-  private calculateConfidence(whisperResult: any): number {
-    // If verbose_json format, calculate from segments
-    if (whisperResult.segments && Array.isArray(whisperResult.segments)) {
-      const avgConfidence = whisperResult.segments.reduce((sum: number, segment: any) => {
-        return sum + (segment.avg_logprob || 0)
-      }, 0) / whisperResult.segments.length
-
-      // Convert log probability to confidence (0-1)
-      return Math.max(0, Math.min(1, Math.exp(avgConfidence)))
-    }
-
-    // Default confidence if no segments available
-    return 0.8
-  }
-
   private validateAudioFile(blob: Blob): void {
     const maxSize = 25 * 1024 * 1024 // 25MB OpenAI limit
     const minSize = 100 // 100 bytes minimum
@@ -441,6 +465,14 @@ export class OptimizedTranscriptionService {
     }
 
     const message = error.message || error.toString()
+
+    if (message.includes('No transcription provider configured')) {
+      return this.createError('TRANSCRIPTION_FAILED', message, false)
+    }
+
+    if (message.includes('No transcription provider within budget')) {
+      return this.createError('BUDGET_EXHAUSTED', message, false)
+    }
     
     if (message.includes('timeout') || message.includes('TIMEOUT')) {
       return this.createError('TIMEOUT', 'Request timed out', true)
@@ -478,10 +510,7 @@ let serviceInstance: OptimizedTranscriptionService | null = null
 
 export function getOptimizedTranscriptionService(apiKey?: string, options?: TranscriptionOptions): OptimizedTranscriptionService {
   if (!serviceInstance) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key required for first initialization')
-    }
-    serviceInstance = new OptimizedTranscriptionService(apiKey, options)
+    serviceInstance = new OptimizedTranscriptionService(apiKey ?? process.env.OPENAI_API_KEY, options)
   }
   return serviceInstance
 }
@@ -491,18 +520,19 @@ export async function optimizedTranscribeAudioFile(
   audioBlob: Blob,
   userId: string,
   filename?: string,
-  options?: TranscriptionOptions
-): Promise<{ items: string[]; transcription: string }> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable not set')
-  }
-
-  const service = getOptimizedTranscriptionService(apiKey, options)
-  const result = await service.transcribe(audioBlob, userId, filename)
+  options?: TranscriptionOptions,
+  budgetMode: TranscriptionBudgetMode = 'normal'
+): Promise<{
+  items: string[]
+  transcription: string
+  provider: TranscriptionResult['metadata']['provider']
+}> {
+  const service = getOptimizedTranscriptionService(process.env.OPENAI_API_KEY, options)
+  const result = await service.transcribe(audioBlob, userId, filename, budgetMode)
   
   return {
     items: result.items,
     transcription: result.transcription,
+    provider: result.metadata.provider,
   }
 }
\ No newline at end of file
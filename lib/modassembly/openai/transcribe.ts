@@ -3,137 +3,47 @@
  * IMPORTANT!!! Ask the user before editing this file.
  */
 
-import OpenAI from 'openai'
-
-// Type definitions for OpenAI API responses
-interface OpenAITranscriptionResponse {
-  text: string
-}
-
-// Lazy initialization to avoid build-time errors
-let openai: OpenAI | null = null
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is not set')
-    }
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  }
-  return openai
-}
+import type { ApiResponse, TranscriptionResult } from '@/types/api'
 
+/**
+ * Transcribe a recording and split it into order items.
+ * Goes through /api/transcribe, which picks the speech-to-text provider for
+ * the environment (OpenAI or the local engine) and fails over between them.
+ */
 export async function transcribeAudioFile(
   audioBlob: Blob,
-  _filename: string = 'audio.webm'
-): Promise<{ items: string[]; transcription: string }> {
+  filename: string = 'audio.webm'
+): Promise<{ items: string[]; transcription: string; provider?: string }> {
   try {
-    // Determine the correct file extension and type for OpenAI
-    let fileExtension = 'webm'
-    const mimeType = audioBlob.type || 'audio/webm'
-
-    // OpenAI supports: mp3, mp4, mpeg, mpga, m4a, wav, webm
-    // Update filename to match the actual format
-    if (mimeType.includes('mp4')) {
-      fileExtension = 'mp4'
-    } else if (mimeType.includes('mpeg') || mimeType.includes('mp3')) {
-      fileExtension = 'mp3'
-    } else if (mimeType.includes('wav')) {
-      fileExtension = 'wav'
-    } else if (mimeType.includes('m4a')) {
-      fileExtension = 'm4a'
-    }
-
-    const audioFileName = `recording.${fileExtension}`
-
-    // Convert Blob to File object for OpenAI API
-    const audioFile = new File([audioBlob], audioFileName, { type: mimeType })
-
-    // Processing audio file for transcription
+    const formData = new FormData()
+    formData.append(
+      'audio',
+      // The API accepts bare MIME types (no ";codecs=" suffix)
+      new File([audioBlob], filename, {
+        type: (audioBlob.type || 'audio/webm').split(';')[0],
+      })
+    )
 
-    // First, transcribe the audio
-    const client = getOpenAIClient()
-    const transcription = await client.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      response_format: 'text',
+    const response = await fetch('/api/transcribe', {
+      method: 'POST',
+      body: formData,
     })
+    const body = (await response.json()) as ApiResponse<TranscriptionResult>
 
-    // Parse the transcription to extract items
-    // Raw transcription received from API
-
-    // The response is the text directly when using response_format: "text"
-    const transcriptionText =
-      typeof transcription === 'string'
-        ? transcription
-        : (transcription as OpenAITranscriptionResponse).text
+    if (!response.ok || !body.success || !body.data) {
+      throw new Error(body.error || `Transcription failed (${response.status})`)
+    }
 
-    if (!transcriptionText) {
+    if (!body.data.transcript) {
       console.error('No transcription text received')
       throw new Error('No transcription text received from API')
     }
 
-    // Processing transcription text
-
-    // Use GPT to extract just the menu items
-    const extraction = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a restaurant order parser. Extract menu items with their modifications from the customer's speech. 
-                    Remove filler words like "I'd like", "please", "can I have", but KEEP all modifications, special requests, and specifications.
-                    Return ONLY a JSON array of food/drink items with their modifications. 
-                    
-                    Examples:
-                    "I'd like a cheeseburger with no onions" → ["Cheeseburger - no onions"]
-                    "Can I get a salad with ranch dressing on the side" → ["Salad - ranch dressing on the side"]
-                    "I want the grilled chicken, extra crispy, with no salt" → ["Grilled Chicken - extra crispy, no salt"]
-                    "Two coffees, one black and one with cream" → ["Coffee - black", "Coffee - with cream"]
-                    "Hamburger with swiss cheese, lettuce, tomato, no pickles" → ["Hamburger - swiss cheese, lettuce, tomato, no pickles"]
-                    "Diet coke with no ice" → ["Diet Coke - no ice"]`,
-        },
-        {
-          role: 'user',
-          content: transcriptionText,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 200,
-    })
-
-    // GPT extraction completed
-
-    try {
-      const parsedItems = JSON.parse(
-        extraction.choices[0].message.content || '[]'
-      )
-      if (Array.isArray(parsedItems) && parsedItems.length > 0) {
-        return {
-          items: parsedItems,
-          transcription: transcriptionText,
-        }
-      }
-    } catch (parseError) {
-      console.error('Failed to parse GPT response as JSON:', parseError)
-    }
-
-    // Fallback to simple parsing if GPT fails
-    const cleanText = transcriptionText.toLowerCase()
-    const items = cleanText
-      .split(/[,\n]|and/)
-      .map((item: string) => item.trim())
-      .filter((item: string) => item.length > 0)
-      .map((item: string) => {
-        // Capitalize first letter of each word
-        return item.replace(/\b\w/g, char => char.toUpperCase())
-      })
-
     return {
-      items: items.length > 0 ? items : [transcriptionText.trim()],
-      transcription: transcriptionText,
+      items:
+        body.data.items.length > 0 ? body.data.items : [body.data.transcript.trim()],
+      transcription: body.data.transcript,
+      provider: body.data.provider,
     }
   } catch (error) {
     console.error('Error transcribing audio:', error)
@@ -0,0 +1,134 @@
+/**
+ * Transcription Budget Enforcement
+ * Checks a user's facility, role and user budgets before transcribing, records
+ * threshold alerts, and picks how to degrade once a budget is spent. Server only.
+ */
+
+import { createClient } from '@/lib/modassembly/supabase/server'
+import { createServiceClient } from '@/lib/modassembly/supabase/service'
+import type { Database, TranscriptionBudgetAction } from '@/types/database'
+
+// How transcription runs for this request
+export type TranscriptionBudgetMode = 'normal' | TranscriptionBudgetAction
+
+export type BudgetSeverity = 'ok' | 'warning' | 'critical'
+
+type BudgetStatusRow =
+  Database['public']['Functions']['transcription_budget_status']['Returns'][number]
+
+export interface BudgetStatus {
+  budgetId: string
+  scope: BudgetStatusRow['scope']
+  scopeValue: string | null
+  period: BudgetStatusRow['period']
+  limitUsd: number
+  spentUsd: number
+  percentUsed: number
+  exhaustedAction: TranscriptionBudgetAction
+  severity: BudgetSeverity
+}
+
+export interface BudgetDecision {
+  mode: TranscriptionBudgetMode
+  statuses: BudgetStatus[]
+  // False when the budgets could not be read and the request runs unmetered
+  checked: boolean
+}
+
+/**
+ * Where one budget stands: critical once spend reaches the limit, warning
+ * from its warning threshold
+ */
+export function evaluateBudgetStatus(row: BudgetStatusRow): BudgetStatus {
+  const limitUsd = Number(row.limit_usd)
+  const spentUsd = Number(row.spent_usd)
+  const percentUsed = limitUsd > 0 ? (spentUsd / limitUsd) * 100 : 100
+
+  return {
+    budgetId: row.budget_id,
+    scope: row.scope,
+    scopeValue: row.scope_value,
+    period: row.period,
+    limitUsd,
+    spentUsd,
+    percentUsed,
+    exhaustedAction: row.exhausted_action,
+    severity:
+      spentUsd >= limitUsd
+        ? 'critical'
+        : percentUsed >= row.warning_pct
+          ? 'warning'
+          : 'ok',
+  }
+}
+
+/**
+ * The strictest degradation any exhausted budget asks for
+ */
+export function decideBudgetMode(statuses: BudgetStatus[]): TranscriptionBudgetMode {
+  const exhausted = statuses.filter(status => status.severity === 'critical')
+
+  if (exhausted.some(status => status.exhaustedAction === 'cache_only')) {
+    return 'cache_only'
+  }
+  return exhausted.length > 0 ? 'cheaper_model' : 'normal'
+}
+
+/**
+ * Raise alerts for budgets past a threshold. The database works out spend
+ * and severity itself; a failed alert never affects the request.
+ */
+async function recordBudgetAlerts(
+  userId: string,
+  statuses: BudgetStatus[]
+): Promise<void> {
+  const alerting = statuses.filter(status => status.severity !== 'ok')
+  if (alerting.length === 0) {
+    return
+  }
+
+  try {
+    const service = createServiceClient()
+
+    await Promise.all(
+      alerting.map(async status => {
+        const { error } = await service.rpc('record_transcription_budget_alert', {
+          p_budget_id: status.budgetId,
+          p_user_id: userId,
+        })
+        if (error) {
+          console.error('Failed to record transcription budget alert:', error)
+        }
+      })
+    )
+  } catch (error) {
+    console.error('Failed to record transcription budget alerts:', error)
+  }
+}
+
+/**
+ * Check the user's budgets and raise any threshold alerts. Budget lookups
+ * never block transcription: on failure the request runs normally, with
+ * `checked` false so the caller can tell.
+ */
+export async function checkTranscriptionBudget(userId: string): Promise<BudgetDecision> {
+  try {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase.rpc('transcription_budget_status', {
+      p_user_id: userId,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const statuses = ((data || []) as BudgetStatusRow[]).map(evaluateBudgetStatus)
+    await recordBudgetAlerts(userId, statuses)
+
+    return { mode: decideBudgetMode(statuses), statuses, checked: true }
+  } catch (error) {
+    console.error('Failed to check transcription budget:', error)
+    return { mode: 'normal', statuses: [], checked: false }
+  }
+}
@@ -103,14 +103,17 @@ export class UsageTracker {
     retryCount?: number
     latency?: number
     errorCode?: string
+    // Speech model that served the request; local models cost nothing
+    model?: string
   }): Promise<void> {
-    const cost = this.calculateTranscriptionCost(params.audioDuration, params.cached || false)
+    const model = params.model || 'whisper-1'
+    const cost = this.calculateTranscriptionCost(params.audioDuration, params.cached || false, model)
     
     const metrics: UsageMetrics = {
       id: crypto.randomUUID(),
       userId: params.userId,
       operation: 'transcription',
-      model: 'whisper-1',
+      model,
       audioDuration: params.audioDuration,
       cost,
       cached: params.cached || false,
@@ -400,8 +403,8 @@ export class UsageTracker {
     }
   }
 
-  private calculateTranscriptionCost(durationMs: number, cached: boolean): number {
-    if (cached) {return 0}
+  private calculateTranscriptionCost(durationMs: number, cached: boolean, model: string): number {
+    if (cached || model !== 'whisper-1') {return 0}
     const minutes = durationMs / 60000
     return minutes * PRICING['whisper-1']
   }
@@ -0,0 +1,309 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type { MenuItem } from '@/types/database'
+
+export const ALLERGENS = [
+  'peanuts',
+  'tree_nuts',
+  'dairy',
+  'gluten',
+  'eggs',
+  'shellfish',
+  'fish',
+  'soy',
+  'sesame',
+] as const
+export type Allergen = (typeof ALLERGENS)[number]
+
+export const DIET_TAGS = [
+  'vegetarian',
+  'vegan',
+  'low_sodium',
+  'diabetic_friendly',
+  'halal',
+  'kosher',
+] as const
+export type DietTag = (typeof DIET_TAGS)[number]
+
+// Words in a free-text restriction ("nut allergy", "lactose intolerant")
+// that mean the resident must avoid an allergen
+const ALLERGEN_KEYWORDS: Record<Allergen, string[]> = {
+  peanuts: ['peanut'],
+  tree_nuts: ['nut', 'tree nut', 'almond', 'walnut', 'pecan', 'cashew'],
+  dairy: ['dairy', 'lactose', 'milk', 'cheese'],
+  gluten: ['gluten', 'celiac', 'coeliac', 'wheat'],
+  eggs: ['egg'],
+  shellfish: ['shellfish', 'shrimp', 'crab', 'lobster', 'prawn'],
+  fish: ['fish', 'seafood'],
+  soy: ['soy', 'soya'],
+  sesame: ['sesame'],
+}
+
+// Restrictions that require every item to carry one of these diet tags
+const DIET_KEYWORDS: Record<string, DietTag[]> = {
+  vegetarian: ['vegetarian', 'vegan'],
+  vegan: ['vegan'],
+  'low sodium': ['low_sodium'],
+  'low salt': ['low_sodium'],
+  diabetic: ['diabetic_friendly'],
+  halal: ['halal'],
+  kosher: ['kosher'],
+}
+
+export type DietaryCheckItem = Pick<
+  MenuItem,
+  'name' | 'allergens' | 'diet_tags'
+> & {
+  menu_item_id: string | null
+}
+
+export interface DietaryViolation {
+  menuItemId: string | null
+  itemName: string
+  restriction: string
+  kind: 'allergen' | 'diet'
+  // Allergen present, or the diet tag the item is missing
+  detail: string
+}
+
+// Something the check could not look at: free text that matched nothing on
+// the menu has no allergens or diet tags to compare, and a restriction the
+// parser doesn't understand can't be compared against anything
+export type DietaryWarning =
+  | { kind: 'unverified_item'; itemName: string }
+  | { kind: 'unrecognised_restriction'; restriction: string }
+
+export interface DietaryViolationError extends Error {
+  code: 'DIETARY_VIOLATION'
+  violations: DietaryViolation[]
+}
+
+export function createDietaryViolationError(
+  violations: DietaryViolation[]
+): DietaryViolationError {
+  return Object.assign(
+    new Error(
+      `Order conflicts with dietary restrictions: ${formatDietaryViolations(violations)}`
+    ),
+    { code: 'DIETARY_VIOLATION' as const, violations }
+  )
+}
+
+export function isDietaryViolationError(
+  error: unknown
+): error is DietaryViolationError {
+  return (
+    error instanceof Error &&
+    (error as Partial<DietaryViolationError>).code === 'DIETARY_VIOLATION'
+  )
+}
+
+/**
+ * Interpret a free-text restriction from profiles.dietary_restrictions.
+ * Unrecognised restrictions yield nothing; findUnrecognisedRestrictions
+ * picks them out so the server can be warned.
+ */
+export function parseDietaryRestriction(restriction: string): {
+  allergens: Allergen[]
+  requiredDietTags: DietTag[]
+} {
+  const text = ` ${restriction
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()} `
+
+  const mentions = (keyword: string) =>
+    text.includes(` ${keyword} `) || text.includes(` ${keyword}s `)
+
+  const allergens = ALLERGENS.filter(allergen =>
+    ALLERGEN_KEYWORDS[allergen].some(mentions)
+  )
+
+  const requiredDietTags = Object.entries(DIET_KEYWORDS)
+    .filter(([keyword]) => mentions(keyword))
+    .flatMap(([, tags]) => tags)
+    // Several keywords can map to the same tag ("low sodium", "low salt")
+    .filter((tag, index, tags) => tags.indexOf(tag) === index)
+
+  return { allergens, requiredDietTags }
+}
+
+/**
+ * Restrictions parseDietaryRestriction finds no allergen or diet in
+ */
+export function findUnrecognisedRestrictions(restrictions: string[]): string[] {
+  return restrictions.filter(restriction => {
+    const { allergens, requiredDietTags } = parseDietaryRestriction(restriction)
+    return allergens.length === 0 && requiredDietTags.length === 0
+  })
+}
+
+/**
+ * Check order items against a resident's restrictions
+ */
+export function checkDietaryConflicts(
+  restrictions: string[],
+  items: DietaryCheckItem[]
+): DietaryViolation[] {
+  const violations: DietaryViolation[] = []
+
+  for (const restriction of restrictions) {
+    const { allergens, requiredDietTags } = parseDietaryRestriction(restriction)
+
+    for (const item of items) {
+      const itemAllergens = item.allergens || []
+      const itemDietTags = item.diet_tags || []
+
+      for (const allergen of allergens) {
+        if (itemAllergens.includes(allergen)) {
+          violations.push({
+            menuItemId: item.menu_item_id,
+            itemName: item.name,
+            restriction,
+            kind: 'allergen',
+            detail: allergen,
+          })
+        }
+      }
+
+      if (
+        requiredDietTags.length > 0 &&
+        !requiredDietTags.some(tag => itemDietTags.includes(tag))
+      ) {
+        violations.push({
+          menuItemId: item.menu_item_id,
+          itemName: item.name,
+          restriction,
+          kind: 'diet',
+          detail: requiredDietTags[0],
+        })
+      }
+    }
+  }
+
+  return violations
+}
+
+export function formatDietaryViolations(violations: DietaryViolation[]): string {
+  return violations
+    .map(violation =>
+      violation.kind === 'allergen'
+        ? `${violation.itemName} contains ${violation.detail.replace(/_/g, ' ')} (${violation.restriction})`
+        : `${violation.itemName} is not ${violation.detail.replace(/_/g, ' ')} (${violation.restriction})`
+    )
+    .join('; ')
+}
+
+export function createUnverifiedItemWarnings(
+  itemNames: string[]
+): DietaryWarning[] {
+  return itemNames.map(itemName => ({ kind: 'unverified_item', itemName }))
+}
+
+export function createUnrecognisedRestrictionWarnings(
+  restrictions: string[]
+): DietaryWarning[] {
+  return findUnrecognisedRestrictions(restrictions).map(restriction => ({
+    kind: 'unrecognised_restriction',
+    restriction,
+  }))
+}
+
+export function formatDietaryWarnings(warnings: DietaryWarning[]): string {
+  const itemNames = warnings.flatMap(warning =>
+    warning.kind === 'unverified_item' ? [warning.itemName] : []
+  )
+  const restrictions = warnings.flatMap(warning =>
+    warning.kind === 'unrecognised_restriction' ? [warning.restriction] : []
+  )
+
+  return [
+    itemNames.length > 0 &&
+      `Not on the menu, so not checked against dietary restrictions: ${itemNames.join(', ')}`,
+    restrictions.length > 0 &&
+      `Restrictions the check does not understand, check these by hand: ${restrictions.join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join('. ')
+}
+
+/**
+ * Restrictions on the resident's profile (empty for guests / unknown IDs)
+ */
+export async function fetchResidentDietaryRestrictions(
+  residentId: string
+): Promise<string[]> {
+  // Guest placeholders ("guest-user") have no profile to check
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(residentId)) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('dietary_restrictions')
+    .eq('user_id', residentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch dietary restrictions: ${error.message}`)
+  }
+
+  return (data?.dietary_restrictions || []).filter(
+    (restriction: string) => restriction.trim().length > 0
+  )
+}
+
+/**
+ * Log an overridden conflict against the order for follow-up
+ */
+export async function recordDietaryViolation(params: {
+  orderId: string
+  tableId: string
+  seatId: string
+  serverId: string
+  violations: DietaryViolation[]
+  overrideReason: string
+}): Promise<void> {
+  const supabase = createClient()
+
+  const { data: anomalyType, error: typeError } = await supabase
+    .from('anomaly_types')
+    .select('id')
+    .eq('code', 'DIETARY_VIOLATION')
+    .single()
+
+  if (typeError || !anomalyType) {
+    throw new Error(
+      `Failed to record dietary violation: ${typeError?.message || 'anomaly type missing'}`
+    )
+  }
+
+  const { error } = await supabase.from('order_anomalies').insert({
+    anomaly_type_id: anomalyType.id,
+    order_id: params.orderId,
+    table_id: params.tableId,
+    seat_id: params.seatId,
+    title: 'Dietary restriction overridden',
+    description: formatDietaryViolations(params.violations),
+    metadata: {
+      violations: params.violations,
+      override_reason: params.overrideReason,
+    },
+    detected_by_system: false,
+    detected_by_user: params.serverId,
+    detection_rule: 'create_order_dietary_check',
+    confidence_score: 1,
+    impact_level: params.violations.some(v => v.kind === 'allergen')
+      ? 'critical'
+      : 'medium',
+    customer_impact: true,
+  })
+
+  if (error) {
+    throw new Error(`Failed to record dietary violation: ${error.message}`)
+  }
+}
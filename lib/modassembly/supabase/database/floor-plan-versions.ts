@@ -0,0 +1,80 @@
+/**
+ * Named snapshots of a floor plan layout
+ */
+
+import { createClient } from '@/lib/modassembly/supabase/client'
+import {
+  type FloorPlanLayout,
+  parseFloorPlanLayout,
+} from '@/lib/floor-plan-layout'
+import type { FloorPlanVersion } from '@/types/database'
+
+/**
+ * Fetch a floor plan's snapshots, newest first
+ */
+export async function fetchFloorPlanVersions(
+  floorPlanId: string
+): Promise<FloorPlanVersion[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('floor_plan_versions')
+    .select('*')
+    .eq('floor_plan_id', floorPlanId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch floor plan versions: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createFloorPlanVersion(
+  floorPlanId: string,
+  name: string,
+  layout: FloorPlanLayout
+): Promise<FloorPlanVersion> {
+  const supabase = createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const { data, error } = await supabase
+    .from('floor_plan_versions')
+    .insert({
+      floor_plan_id: floorPlanId,
+      name: name.trim(),
+      layout,
+      table_count: layout.tables.length,
+      created_by: user?.id ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save floor plan version: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deleteFloorPlanVersion(versionId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('floor_plan_versions')
+    .delete()
+    .eq('id', versionId)
+
+  if (error) {
+    throw new Error(`Failed to delete floor plan version: ${error.message}`)
+  }
+}
+
+/**
+ * A snapshot's layout, validated in case it was saved by an older format
+ */
+export function getVersionLayout(version: FloorPlanVersion): FloorPlanLayout {
+  return parseFloorPlanLayout(version.layout)
+}
@@ -4,6 +4,12 @@
  */
 
 import { createClient } from '@/lib/modassembly/supabase/client'
+import type {
+  FloorPlan,
+  FloorPlanInsert,
+  FloorPlanUpdate,
+} from '@/types/database'
+import type { Fixture, Zone } from '@/lib/floor-plan-utils'
 import { createTable, deleteTable, updateTable } from './tables'
 import {
   createSeatsForTable,
@@ -24,23 +30,179 @@ export interface FloorPlanTable {
   height?: number
   rotation?: number
   zIndex?: number
+  zone_id?: string | null
 }
 
 /**
- * Save tables to database (simplified - core data only)
+ * Fetch floor plans in display order
+ */
+export async function fetchFloorPlans(
+  includeInactive = false
+): Promise<FloorPlan[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('floor_plans')
+    .select('*')
+    .order('position', { ascending: true })
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch floor plans: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createFloorPlan(
+  floorPlan: FloorPlanInsert
+): Promise<FloorPlan> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('floor_plans')
+    .insert({ ...floorPlan, name: floorPlan.name.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create floor plan: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateFloorPlan(
+  floorPlanId: string,
+  updates: FloorPlanUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('floor_plans')
+    .update(updates)
+    .eq('id', floorPlanId)
+
+  if (error) {
+    throw new Error(`Failed to update floor plan: ${error.message}`)
+  }
+}
+
+/**
+ * Delete an empty floor plan. The database refuses plans that still have
+ * tables on them.
+ */
+export async function deleteFloorPlan(floorPlanId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('floor_plans')
+    .delete()
+    .eq('id', floorPlanId)
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new Error('Move or delete the tables on this floor plan first')
+    }
+    throw new Error(`Failed to delete floor plan: ${error.message}`)
+  }
+}
+
+/**
+ * IDs of the plans a service opens; empty means every active plan
+ */
+export async function fetchServiceFloorPlanIds(
+  serviceId: string
+): Promise<string[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('floor_plan_services')
+    .select('floor_plan_id')
+    .eq('service_id', serviceId)
+
+  if (error) {
+    throw new Error(`Failed to fetch service floor plans: ${error.message}`)
+  }
+
+  return (data || []).map(row => row.floor_plan_id)
+}
+
+/**
+ * Replace the plans a service opens
+ */
+export async function setServiceFloorPlans(
+  serviceId: string,
+  floorPlanIds: string[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from('floor_plan_services')
+    .delete()
+    .eq('service_id', serviceId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update service floor plans: ${deleteError.message}`)
+  }
+
+  if (floorPlanIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('floor_plan_services')
+    .insert(
+      floorPlanIds.map(floorPlanId => ({
+        floor_plan_id: floorPlanId,
+        service_id: serviceId,
+      }))
+    )
+
+  if (error) {
+    throw new Error(`Failed to update service floor plans: ${error.message}`)
+  }
+}
+
+/**
+ * Plans open during a service: the ones it lists, or every active plan when
+ * it lists none (or between services)
+ */
+export function getActiveFloorPlans<T extends Pick<FloorPlan, 'id' | 'is_active'>>(
+  floorPlans: T[],
+  serviceFloorPlanIds: string[]
+): T[] {
+  const active = floorPlans.filter(plan => plan.is_active)
+  if (serviceFloorPlanIds.length === 0) {
+    return active
+  }
+  return active.filter(plan => serviceFloorPlanIds.includes(plan.id))
+}
+
+/**
+ * Save a floor plan's tables (simplified - core data only). Tables on other
+ * plans are left alone.
+ * @param floorPlanId Plan the tables belong to
  * @param tables Array of tables to save
  * @returns Promise that resolves when save is complete
  */
 export async function saveFloorPlanTables(
+  floorPlanId: string,
   tables: FloorPlanTable[]
 ): Promise<void> {
   const supabase = createClient()
 
   try {
-    // Get current tables from database
+    // Get the plan's current tables from database
     const { data: currentTables, error: fetchError } = await supabase
       .from('tables')
       .select('*')
+      .eq('floor_plan_id', floorPlanId)
 
     if (fetchError) {
       throw new Error(`Failed to fetch current tables: ${fetchError.message}`)
@@ -63,16 +225,17 @@ export async function saveFloorPlanTables(
       const labelNumber = parseInt(table.label.replace(/\D/g, ''), 10) || 1
 
       if (currentTableIds.has(table.id)) {
-        // Update existing table with position data
+        // Update existing table with position data. Status belongs to the
+        // table lifecycle, so the editor's copy of it is never written back.
         await updateTable(table.id, {
           label: labelNumber.toString(),
           type: table.type,
-          status: table.status,
           position_x: table.position_x,
           position_y: table.position_y,
           width: table.width,
           height: table.height,
           rotation: table.rotation,
+          zone_id: table.zone_id ?? null,
         })
 
         // Update seats count
@@ -80,9 +243,12 @@ export async function saveFloorPlanTables(
       } else {
         // Create new table with position data
         const newTable = await createTable({
+          floor_plan_id: floorPlanId,
+          zone_id: table.zone_id ?? null,
           label: labelNumber.toString(),
           type: table.type,
-          status: table.status,
+          // New tables start the lifecycle empty
+          status: 'available',
           position_x: table.position_x,
           position_y: table.position_y,
           width: table.width,
@@ -101,27 +267,40 @@ export async function saveFloorPlanTables(
 }
 
 /**
- * Load tables for floor plan (uses existing fetchTables but simplified interface)
+ * Load the tables on a floor plan
+ * @param floorPlanId Plan to load
  * @returns Array of floor plan tables
  */
-export async function loadFloorPlanTables(): Promise<FloorPlanTable[]> {
+export async function loadFloorPlanTables(
+  floorPlanId: string
+): Promise<FloorPlanTable[]> {
   const supabase = createClient()
 
-  // Fetch tables and their seats with position data
-  const [tablesResponse, seatsResponse] = await Promise.all([
-    supabase.from('tables').select('id, label, type, status').order('label'),
-    supabase.from('seats').select('*'),
-  ])
+  const tablesResponse = await supabase
+    .from('tables')
+    .select('id, label, type, status, zone_id')
+    .eq('floor_plan_id', floorPlanId)
+    .order('label')
 
   if (tablesResponse.error) {
     throw new Error(`Failed to fetch tables: ${tablesResponse.error.message}`)
   }
 
+  const tables = tablesResponse.data || []
+  if (tables.length === 0) {
+    return []
+  }
+
+  // Seats for this plan's tables only
+  const seatsResponse = await supabase
+    .from('seats')
+    .select('*')
+    .in('table_id', tables.map(table => table.id))
+
   if (seatsResponse.error) {
     throw new Error(`Failed to fetch seats: ${seatsResponse.error.message}`)
   }
 
-  const tables = tablesResponse.data || []
   const seats = seatsResponse.data || []
 
   // Create a map of table_id to seat count
@@ -147,5 +326,163 @@ export async function loadFloorPlanTables(): Promise<FloorPlanTable[]> {
     height: undefined,
     rotation: undefined,
     zIndex: undefined,
+    zone_id: table.zone_id,
+  }))
+}
+
+/**
+ * Load a floor plan's zones in drawing order
+ */
+export async function loadFloorPlanZones(floorPlanId: string): Promise<Zone[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('floor_plan_zones')
+    .select('*')
+    .eq('floor_plan_id', floorPlanId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch zones: ${error.message}`)
+  }
+
+  return (data || []).map(zone => ({
+    id: zone.id,
+    name: zone.name,
+    color: zone.color,
+    points: zone.points,
   }))
 }
+
+export async function loadFloorPlanFixtures(
+  floorPlanId: string
+): Promise<Fixture[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('floor_plan_fixtures')
+    .select('*')
+    .eq('floor_plan_id', floorPlanId)
+
+  if (error) {
+    throw new Error(`Failed to fetch fixtures: ${error.message}`)
+  }
+
+  return (data || []).map(fixture => ({
+    id: fixture.id,
+    kind: fixture.kind,
+    label: fixture.label,
+    x: Number(fixture.position_x),
+    y: Number(fixture.position_y),
+    width: Number(fixture.width),
+    height: Number(fixture.height),
+    rotation: Number(fixture.rotation),
+    zIndex: fixture.z_index,
+  }))
+}
+
+/**
+ * Delete the rows of a plan that are no longer in `keepIds`
+ */
+async function deleteRemovedRows(
+  table: 'floor_plan_zones' | 'floor_plan_fixtures',
+  floorPlanId: string,
+  keepIds: string[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('id')
+    .eq('floor_plan_id', floorPlanId)
+
+  if (error) {
+    throw new Error(`Failed to fetch ${table}: ${error.message}`)
+  }
+
+  const removed = (data || [])
+    .map(row => row.id)
+    .filter(id => !keepIds.includes(id))
+  if (removed.length === 0) {
+    return
+  }
+
+  const { error: deleteError } = await supabase
+    .from(table)
+    .delete()
+    .in('id', removed)
+
+  if (deleteError) {
+    throw new Error(`Failed to delete ${table}: ${deleteError.message}`)
+  }
+}
+
+/**
+ * Save a floor plan's zones. Zone IDs are generated in the editor, so tables
+ * can point at a new zone before it's saved; save zones before tables.
+ */
+export async function saveFloorPlanZones(
+  floorPlanId: string,
+  zones: Zone[]
+): Promise<void> {
+  const supabase = createClient()
+
+  await deleteRemovedRows(
+    'floor_plan_zones',
+    floorPlanId,
+    zones.map(zone => zone.id)
+  )
+  if (zones.length === 0) {
+    return
+  }
+
+  const { error } = await supabase.from('floor_plan_zones').upsert(
+    zones.map((zone, index) => ({
+      id: zone.id,
+      floor_plan_id: floorPlanId,
+      name: zone.name,
+      color: zone.color,
+      points: zone.points,
+      position: index,
+    }))
+  )
+
+  if (error) {
+    throw new Error(`Failed to save zones: ${error.message}`)
+  }
+}
+
+export async function saveFloorPlanFixtures(
+  floorPlanId: string,
+  fixtures: Fixture[]
+): Promise<void> {
+  const supabase = createClient()
+
+  await deleteRemovedRows(
+    'floor_plan_fixtures',
+    floorPlanId,
+    fixtures.map(fixture => fixture.id)
+  )
+  if (fixtures.length === 0) {
+    return
+  }
+
+  const { error } = await supabase.from('floor_plan_fixtures').upsert(
+    fixtures.map(fixture => ({
+      id: fixture.id,
+      floor_plan_id: floorPlanId,
+      kind: fixture.kind,
+      label: fixture.label ?? null,
+      position_x: fixture.x,
+      position_y: fixture.y,
+      width: fixture.width,
+      height: fixture.height,
+      rotation: fixture.rotation ?? 0,
+      z_index: fixture.zIndex ?? 0,
+    }))
+  )
+
+  if (error) {
+    throw new Error(`Failed to save fixtures: ${error.message}`)
+  }
+}
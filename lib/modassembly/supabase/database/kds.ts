@@ -2,13 +2,18 @@ import type { createClient } from '@/lib/modassembly/supabase/server'
 import { createClient as createBrowserClient } from '@/lib/modassembly/supabase/client'
 import { Security } from '@/lib/security'
 import { measureApiCall } from '@/lib/performance-utils'
+import { isTicketComplete } from '@/lib/modassembly/supabase/database/kds/item-progress'
+import { withEventContext } from '@/lib/modassembly/supabase/database/order-events'
 import {
   KDSConfiguration as DatabaseKDSConfiguration,
   KDSMetric as DatabaseKDSMetric,
   KDSOrderRouting as DatabaseKDSOrderRouting,
   KDSStation as DatabaseKDSStation,
   KDSOrderWithJoins,
+  KDSTicketItem,
+  OrderItemWithMenu,
   OrderType,
+  ResidentCareSnapshot,
 } from '@/types/database'
 
 // Re-export database types for backward compatibility
@@ -21,6 +26,14 @@ export type KDSOrderRouting = DatabaseKDSOrderRouting & {
     seat_id: string
     server_id?: string
     items: any[]
+    order_items?: OrderItemWithMenu[]
+    // Resident restrictions and any server override, for the allergy flag
+    dietary_alerts?: string[]
+    dietary_override_reason?: string | null
+    // Meal service the order was placed in
+    service_id?: string | null
+    // Resident room and care details, for the care flag
+    resident_care?: ResidentCareSnapshot | null
     transcript?: string
     status: string
     type: OrderType
@@ -41,7 +54,13 @@ export type KDSOrderRouting = DatabaseKDSOrderRouting & {
     }
   }
   station?: KDSStation
+  // Lines on this ticket and how far along each is
+  items?: KDSTicketItemProgress[]
 }
+export type KDSTicketItemProgress = Pick<
+  KDSTicketItem,
+  'id' | 'order_item_id' | 'line_index' | 'started_at' | 'completed_at'
+>
 export type KDSMetric = DatabaseKDSMetric
 export type KDSConfiguration = DatabaseKDSConfiguration
 
@@ -106,10 +125,13 @@ export async function fetchStationOrders(
         *,
         order:orders!inner (
           id, items, status, type, created_at, transcript, seat_id,
+          dietary_alerts, dietary_override_reason, service_id, resident_care,
           table:tables!table_id (id, label),
-          seat:seats!seat_id (id, label)
+          seat:seats!seat_id (id, label),
+          order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course, texture_diet, fluid_thickness)
         ),
-        station:kds_stations!station_id (id, name, type, color)
+        station:kds_stations!station_id (id, name, type, color),
+        items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at)
       `
       )
       .eq('station_id', sanitizedStationId)
@@ -161,10 +183,13 @@ export async function fetchAllActiveOrders(
         *,
         order:orders!inner (
           id, items, status, type, created_at, transcript, seat_id,
+          dietary_alerts, dietary_override_reason, service_id, resident_care,
           table:tables!table_id (id, label),
-          seat:seats!seat_id (id, label)
+          seat:seats!seat_id (id, label),
+          order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course, texture_diet, fluid_thickness)
         ),
-        station:kds_stations!station_id (id, name, type, color)
+        station:kds_stations!station_id (id, name, type, color),
+        items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at)
       `
       )
       .is('completed_at', null)
@@ -235,6 +260,7 @@ export async function bumpOrder(
         completed_at: new Date().toISOString(),
         bumped_by: sanitizedUserId,
         bumped_at: new Date().toISOString(),
+        ...withEventContext(),
       })
       .eq('id', sanitizedRoutingId)
 
@@ -269,7 +295,8 @@ export async function bumpOrder(
  */
 export async function recallOrder(
   routingId: string,
-  supabaseClient?: Awaited<ReturnType<typeof createClient>>
+  supabaseClient?: Awaited<ReturnType<typeof createClient>>,
+  reason?: string
 ): Promise<void> {
   const supabase = supabaseClient || createBrowserClient()
 
@@ -293,6 +320,7 @@ export async function recallOrder(
       bumped_at: null,
       recalled_at: new Date().toISOString(),
       recall_count: (currentData?.recall_count || 0) + 1,
+      ...withEventContext(reason),
     })
     .eq('id', routingId)
 
@@ -315,6 +343,7 @@ export async function startOrderPrep(
     .from('kds_order_routing')
     .update({
       started_at: new Date().toISOString(),
+      ...withEventContext(),
     })
     .eq('id', routingId)
 
@@ -336,7 +365,7 @@ export async function updateOrderPriority(
 
   const { error } = await supabase
     .from('kds_order_routing')
-    .update({ priority })
+    .update({ priority, ...withEventContext() })
     .eq('id', routingId)
 
   if (error) {
@@ -606,13 +635,17 @@ export async function calculateAveragePrepTimes(
 export async function bulkBumpTableOrders(
   tableId: string,
   userId: string,
-  supabaseClient?: Awaited<ReturnType<typeof createClient>>
+  supabaseClient?: Awaited<ReturnType<typeof createClient>>,
+  reason?: string
 ): Promise<number> {
   const supabase = supabaseClient || createBrowserClient()
+  const context = withEventContext(reason)
 
   const { data, error } = await supabase.rpc('bulk_bump_table_orders', {
     p_table_id: tableId,
     p_user_id: userId,
+    p_device_id: context.event_device_id,
+    p_reason: context.event_reason,
   })
 
   if (error) {
@@ -647,7 +680,7 @@ export async function fetchKDSTableSummary(
 }
 
 /**
- * Automatically routes orders to appropriate stations based on order type and items
+ * Routes an order to its stations using the database routing rules
  */
 export async function intelligentOrderRouting(
   orderId: string,
@@ -668,157 +701,15 @@ export async function intelligentOrderRouting(
 
     const supabase = supabaseClient || createBrowserClient()
 
-    // Fetch the order details
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('id, type, items')
-      .eq('id', sanitizedOrderId)
-      .single()
-
-    if (orderError) {
-      console.error('Error fetching order for routing:', orderError)
-      throw orderError
-    }
-
-    if (!order) {
-      throw new Error('Order not found')
-    }
-
-    // Fetch active stations
-    const stations = await fetchKDSStations(supabase)
-
-    if (stations.length === 0) {
-      throw new Error('No active stations available for routing')
-    }
-
-    // Intelligent routing logic
-    const targetStations: {
-      station: KDSStation
-      priority: number
-      sequence: number
-    }[] = []
-
-    if (order.type === 'beverage' || order.type === 'drink') {
-      // Route beverages to bar station
-      const barStation = stations.find(s => s.type === 'bar')
-      if (barStation) {
-        targetStations.push({ station: barStation, priority: 1, sequence: 1 })
-      }
-    } else {
-      // Analyze food items to determine routing
-      const items = Array.isArray(order.items) ? order.items : []
-
-      // Keywords for different stations - Enhanced coverage
-      const routingRules = {
-        grill: [
-          'steak',
-          'burger',
-          'chicken',
-          'beef',
-          'pork',
-          'grilled',
-          'barbecue',
-          'bbq',
-          'ribeye',
-          'filet',
-          'sirloin',
-          'cheeseburger',
-          'bacon',
-          'patty',
-        ],
-        fryer: [
-          'fries', 
-          'fried', 
-          'tempura', 
-          'wings', 
-          'nuggets', 
-          'crispy',
-          'loaded',
-          'onion rings',
-          'calamari',
-          'fish and chips',
-        ],
-        salad: [
-          'salad', 
-          'greens', 
-          'vegetables', 
-          'fresh', 
-          'raw', 
-          'lettuce',
-          'caesar',
-          'greek',
-          'chef',
-          'garden',
-          'spinach',
-        ],
-        prep: [
-          'soup', 
-          'sauce', 
-          'dressing', 
-          'marinade', 
-          'prep',
-          'mashed',
-          'potatoes',
-          'side',
-          'fondue',
-          'pot',
-        ],
-        dessert: [
-          'dessert',
-          'cake',
-          'ice cream',
-          'sweet',
-          'chocolate',
-          'fruit',
-          'tiramisu',
-          'waffle',
-          'belgian',
-          'stack',
-          'slice',
-          'birthday',
-          'bowl',
-        ],
-      }
-
-      // Analyze items and route to appropriate stations
-      const itemText = items.join(' ').toLowerCase()
-      let sequence = 1
-
-      for (const [stationType, keywords] of Object.entries(routingRules)) {
-        if (keywords.some(keyword => itemText.includes(keyword))) {
-          const station = stations.find(s => s.type === stationType)
-          if (station) {
-            const priority = stationType === 'grill' ? 2 : 1 // Grill gets higher priority
-            targetStations.push({ station, priority, sequence: sequence++ })
-          }
-        }
-      }
-
-      // If no specific routing, route to expo station or first available station
-      if (targetStations.length === 0) {
-        const expoStation = stations.find(s => s.type === 'expo') || stations[0]
-        if (expoStation) {
-          targetStations.push({
-            station: expoStation,
-            priority: 1,
-            sequence: 1,
-          })
-        }
-      }
-    }
+    // Same database rules as the insert triggers so the two never disagree
+    const { error } = await supabase.rpc('route_order_to_stations', {
+      p_order_id: sanitizedOrderId,
+    })
 
-    // Route to all determined stations
-    for (const { station, priority, sequence } of targetStations) {
-      await routeOrderToStation(
-        sanitizedOrderId,
-        station.id,
-        sequence,
-        priority,
-        supabase
-      )
+    if (error) {
+      console.error('Error routing order to stations:', error)
+      throw error
     }
-
-    // Order routed to stations successfully
   })
 }
 
@@ -841,7 +732,7 @@ export async function checkAndCompleteOrder(
     // Check if all routing entries for this order are completed
     const { data: routings, error } = await supabase
       .from('kds_order_routing')
-      .select('id, completed_at')
+      .select('id, completed_at, items:kds_ticket_items (completed_at)')
       .eq('order_id', sanitizedOrderId)
 
     if (error) {
@@ -853,10 +744,8 @@ export async function checkAndCompleteOrder(
       return false // No routing entries, nothing to complete
     }
 
-    // Check if all routings are completed
-    const allCompleted = routings.every(
-      routing => routing.completed_at !== null
-    )
+    // Check if all routings are completed, bumped or with every line done
+    const allCompleted = routings.every(routing => isTicketComplete(routing))
 
     if (allCompleted) {
       // Update main order status to ready
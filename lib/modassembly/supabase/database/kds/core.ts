@@ -3,6 +3,7 @@ import { Security } from '@/lib/security'
 import { measureApiCall } from '@/lib/performance-utils'
 import { KDSCacheManager } from '@/lib/cache/kds-cache'
 import { KDSCache } from '@/lib/cache/ultra-smart-cache'
+import { withEventContext } from '@/lib/modassembly/supabase/database/order-events'
 import type { KDSOrderRouting, KDSStation } from './types'
 
 // Import ultra-fast performance optimizations
@@ -93,10 +94,13 @@ export async function fetchStationOrders(
           *,
           order:orders!inner (
             id, items, status, type, created_at, transcript, seat_id,
+            dietary_alerts, dietary_override_reason, resident_care,
             table:tables!table_id (id, label),
-            seat:seats!seat_id (id, label)
+            seat:seats!seat_id (id, label),
+            order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course, texture_diet, fluid_thickness)
           ),
-          station:kds_stations!station_id (id, name, type, color)
+          station:kds_stations!station_id (id, name, type, color),
+          items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at)
         `
         )
         .eq('station_id', sanitizedStationId)
@@ -188,6 +192,13 @@ export async function fetchAllActiveOrders(): Promise<KDSOrderRouting[]> {
         routed_at: routingOrder.routed_at,
         started_at: routingOrder.started_at,
         completed_at: routingOrder.completed_at,
+        course: routingOrder.course,
+        held_at: routingOrder.held_at,
+        fired_at: routingOrder.fired_at,
+        items: routingOrder.items || [],
+        fired_by: null,
+        runner_task_id: null,
+        sent_at: null,
         bumped_by: null,
         bumped_at: null,
         recalled_at: null,
@@ -203,6 +214,10 @@ export async function fetchAllActiveOrders(): Promise<KDSOrderRouting[]> {
           items: Array.isArray(orderDetail.items) 
             ? orderDetail.items.slice(0, 10) // Limit items for performance
             : [],
+          order_items: orderDetail.order_items || [],
+          dietary_alerts: orderDetail.dietary_alerts || [],
+          dietary_override_reason: orderDetail.dietary_override_reason,
+          resident_care: orderDetail.resident_care,
           status: 'active',
           type: 'dine-in',
           created_at: orderDetail.created_at,
@@ -255,6 +270,7 @@ export async function bumpOrder(
         completed_at: new Date().toISOString(),
         bumped_by: sanitizedUserId,
         bumped_at: new Date().toISOString(),
+        ...withEventContext(),
       })
       .eq('id', sanitizedRoutingId)
 
@@ -310,7 +326,10 @@ export async function bumpOrder(
 /**
  * Recall a bumped order (undo bump)
  */
-export async function recallOrder(routingId: string): Promise<void> {
+export async function recallOrder(
+  routingId: string,
+  reason?: string
+): Promise<void> {
   const supabase = createClient()
 
   // First get current recall count
@@ -336,6 +355,7 @@ export async function recallOrder(routingId: string): Promise<void> {
       bumped_at: null,
       recalled_at: new Date().toISOString(),
       recall_count: (currentData?.recall_count || 0) + 1,
+      ...withEventContext(reason),
     })
     .eq('id', routingId)
 
@@ -362,6 +382,7 @@ export async function startOrderPrep(routingId: string): Promise<void> {
     .from('kds_order_routing')
     .update({
       started_at: new Date().toISOString(),
+      ...withEventContext(),
     })
     .eq('id', routingId)
 
@@ -385,7 +406,7 @@ export async function updateOrderPriority(
 
   const { error } = await supabase
     .from('kds_order_routing')
-    .update({ priority })
+    .update({ priority, ...withEventContext() })
     .eq('id', routingId)
 
   if (error) {
@@ -500,13 +521,17 @@ export async function updateKDSStation(
  */
 export async function bulkBumpTableOrders(
   tableId: string,
-  userId: string
+  userId: string,
+  reason?: string
 ): Promise<number> {
   const supabase = createClient()
+  const context = withEventContext(reason)
 
   const { data, error } = await supabase.rpc('bulk_bump_table_orders', {
     p_table_id: tableId,
     p_user_id: userId,
+    p_device_id: context.event_device_id,
+    p_reason: context.event_reason,
   })
 
   if (error) {
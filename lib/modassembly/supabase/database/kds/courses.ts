@@ -0,0 +1,134 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { Security } from '@/lib/security'
+import { measureApiCall } from '@/lib/performance-utils'
+import { KDSCacheManager } from '@/lib/cache/kds-cache'
+import { KDSCache } from '@/lib/cache/ultra-smart-cache'
+import type { Course } from '@/types/database'
+import { invalidateOrderCachesUltraFast } from './performance-optimized'
+import type { CourseStatus, KDSOrderRouting } from './types'
+
+// Firing order
+export const COURSES: Course[] = ['appetizer', 'entree', 'dessert']
+
+export const COURSE_LABELS: Record<Course, string> = {
+  appetizer: 'Appetizer',
+  entree: 'Entrée',
+  dessert: 'Dessert',
+}
+
+/**
+ * Position of a course in the firing order; uncoursed tickets (drinks) sort first
+ */
+export function courseRank(course: Course | null | undefined): number {
+  return course ? COURSES.indexOf(course) + 1 : 0
+}
+
+/**
+ * Whether a station ticket is waiting for its course to be fired
+ */
+export function isRoutingHeld(
+  routing: Pick<KDSOrderRouting, 'held_at'>
+): boolean {
+  return !!routing.held_at
+}
+
+/**
+ * Release the table's earliest held course to the kitchen (secure).
+ * Returns the course fired, or null when nothing was on hold.
+ */
+export async function fireNextCourse(tableId: string): Promise<Course | null> {
+  return measureApiCall('fire_next_course', async () => {
+    const sanitizedTableId = Security.sanitize.sanitizeIdentifier(tableId)
+    if (!sanitizedTableId) {
+      throw new Error('Invalid table ID')
+    }
+
+    const supabase = createClient()
+
+    // The database records the signed-in user as the one who fired it
+    const { data, error } = await supabase.rpc('fire_next_course', {
+      p_table_id: sanitizedTableId,
+    })
+
+    if (error) {
+      console.error('Error firing next course:', error)
+      throw error
+    }
+
+    invalidateOrderCachesUltraFast()
+    KDSCacheManager.invalidateOrderCaches()
+    KDSCache.invalidateOrders()
+
+    return data ?? null
+  })
+}
+
+/**
+ * Where each course stands at a table, in firing order (secure)
+ */
+export async function fetchTableCourseStatus(
+  tableId: string
+): Promise<CourseStatus[]> {
+  return measureApiCall('fetch_table_course_status', async () => {
+    const sanitizedTableId = Security.sanitize.sanitizeIdentifier(tableId)
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(sanitizedTableId)) {
+      throw new Error('Invalid table ID')
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('kds_order_routing')
+      .select(
+        `
+        course, held_at, started_at, completed_at,
+        order:orders!inner (table_id, status)
+      `
+      )
+      .eq('order.table_id', sanitizedTableId)
+      .not('order.status', 'in', '(delivered,cancelled)')
+      .not('course', 'is', null)
+
+    if (error) {
+      console.error('Error fetching table course status:', error)
+      throw error
+    }
+
+    return summarizeCourses(data || [])
+  })
+}
+
+/**
+ * Roll station tickets up into one status per course
+ */
+export function summarizeCourses(
+  routings: Pick<
+    KDSOrderRouting,
+    'course' | 'held_at' | 'started_at' | 'completed_at'
+  >[]
+): CourseStatus[] {
+  return COURSES.map(course => {
+    const tickets = routings.filter(routing => routing.course === course)
+    const held = tickets.filter(isRoutingHeld).length
+    const completed = tickets.filter(routing => routing.completed_at).length
+    const started = tickets.filter(
+      routing => routing.started_at && !routing.completed_at
+    ).length
+
+    let state: CourseStatus['state'] = 'fired'
+    if (tickets.length === 0) {
+      state = 'none'
+    } else if (held > 0) {
+      state = 'held'
+    } else if (completed === tickets.length) {
+      state = 'ready'
+    } else if (started > 0) {
+      state = 'cooking'
+    }
+
+    return { course, tickets: tickets.length, held, completed, state }
+  })
+}
@@ -0,0 +1,223 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { Security } from '@/lib/security'
+import { measureApiCall } from '@/lib/performance-utils'
+import { KDSCacheManager } from '@/lib/cache/kds-cache'
+import { KDSCache } from '@/lib/cache/ultra-smart-cache'
+import type { Course, RunnerTask, RunnerTaskStatus } from '@/types/database'
+import { COURSES, courseRank, isRoutingHeld } from './courses'
+import { isTicketComplete } from './item-progress'
+import { invalidateOrderCachesUltraFast } from './performance-optimized'
+import { groupOrdersByTableAndSeat } from './table-grouping'
+import type { ExpoCourseStatus, ExpoTable, KDSOrderRouting } from './types'
+
+export type RunnerTaskWithTable = RunnerTask & {
+  table: { id: string; label: string } | null
+}
+
+/**
+ * Tickets the expo is still responsible for: everything not yet sent to the
+ * table, including tickets the stations have already bumped (secure)
+ */
+export async function fetchExpoOrders(): Promise<KDSOrderRouting[]> {
+  return measureApiCall('fetch_expo_orders', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('kds_order_routing')
+      .select(
+        `
+        *,
+        order:orders!inner (
+          id, items, status, type, created_at, transcript, seat_id,
+          dietary_alerts, dietary_override_reason, resident_care,
+          table:tables!table_id (id, label),
+          seat:seats!seat_id (id, label),
+          order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course, texture_diet, fluid_thickness)
+        ),
+        station:kds_stations!station_id (id, name, type, color),
+        items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at)
+      `
+      )
+      .is('sent_at', null)
+      .not('order.status', 'in', '(delivered,cancelled)')
+      .order('routed_at', { ascending: true })
+      .limit(200) // Security: Limit results to prevent excessive data
+
+    if (error) {
+      console.error('Error fetching expo orders:', error)
+      throw error
+    }
+
+    return ((data || []) as KDSOrderRouting[]).map(routing => ({
+      ...routing,
+      notes: routing.notes ? Security.sanitize.sanitizeHTML(routing.notes) : null,
+      priority: Math.max(0, Math.min(10, routing.priority || 0)),
+    }))
+  })
+}
+
+/**
+ * Where each course at each table stands, for the expo. Tables with the
+ * oldest unsent food come first.
+ */
+export function summarizeExpoTables(orders: KDSOrderRouting[]): ExpoTable[] {
+  const tables: ExpoTable[] = []
+
+  groupOrdersByTableAndSeat(orders).forEach((seatMap, tableId) => {
+    const tableOrders = Array.from(seatMap.values()).flat()
+    const first = tableOrders[0]
+
+    const courseKeys = Array.from(
+      new Set(tableOrders.map(order => order.course ?? null))
+    ).sort((a, b) => courseRank(a) - courseRank(b))
+
+    tables.push({
+      tableId,
+      tableLabel: first.order?.table?.label || 'Unknown',
+      seats: Array.from(seatMap, ([seatId, seatOrders]) => ({
+        seatId,
+        seatLabel: seatOrders[0].order?.seat?.label ?? null,
+        orders: seatOrders,
+      })).sort(
+        (a, b) => Number(a.seatLabel ?? 0) - Number(b.seatLabel ?? 0)
+      ),
+      courses: courseKeys.map(course =>
+        summarizeExpoCourse(
+          course,
+          tableOrders.filter(order => (order.course ?? null) === course)
+        )
+      ),
+      oldestRoutedAt: tableOrders
+        .map(order => order.routed_at)
+        .sort()[0],
+    })
+  })
+
+  return tables.sort((a, b) => a.oldestRoutedAt.localeCompare(b.oldestRoutedAt))
+}
+
+/**
+ * Readiness of one course at a table: ready to send once every station
+ * ticket for it is finished and none is waiting to be fired
+ */
+export function summarizeExpoCourse(
+  course: Course | null,
+  tickets: KDSOrderRouting[]
+): ExpoCourseStatus {
+  const outstanding = tickets.filter(ticket => !isTicketComplete(ticket))
+  const held = tickets.filter(isRoutingHeld).length
+
+  return {
+    course,
+    tickets: tickets.length,
+    completed: tickets.length - outstanding.length,
+    held,
+    outstandingStations: Array.from(
+      new Set(outstanding.map(ticket => ticket.station?.name || 'Station'))
+    ),
+    ready: tickets.length > 0 && outstanding.length === 0 && held === 0,
+  }
+}
+
+/**
+ * Send a table's finished course out: creates the runner task with its
+ * seat map and marks the tickets sent (secure). Returns the task ID.
+ */
+export async function sendCourseToTable(
+  tableId: string,
+  course: Course | null,
+  userId: string
+): Promise<string> {
+  return measureApiCall('send_course_to_table', async () => {
+    const sanitizedTableId = Security.sanitize.sanitizeIdentifier(tableId)
+    const sanitizedUserId = Security.sanitize.sanitizeIdentifier(userId)
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(sanitizedTableId) || !uuidRegex.test(sanitizedUserId)) {
+      throw new Error('Invalid table ID or user ID')
+    }
+    if (course !== null && !COURSES.includes(course)) {
+      throw new Error(`Invalid course: ${course}`)
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase.rpc('send_course_to_table', {
+      p_table_id: sanitizedTableId,
+      p_course: course,
+      p_user_id: sanitizedUserId,
+    })
+
+    if (error) {
+      console.error('Error sending course to table:', error)
+      throw error
+    }
+
+    invalidateOrderCachesUltraFast()
+    KDSCacheManager.invalidateOrderCaches()
+    KDSCache.invalidateOrders()
+
+    return data
+  })
+}
+
+/**
+ * Runner tasks not yet delivered, oldest first
+ */
+export async function fetchOpenRunnerTasks(): Promise<RunnerTaskWithTable[]> {
+  return measureApiCall('fetch_open_runner_tasks', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('runner_tasks')
+      .select('*, table:tables!table_id (id, label)')
+      .neq('status', 'delivered')
+      .order('created_at', { ascending: true })
+      .limit(50)
+
+    if (error) {
+      console.error('Error fetching runner tasks:', error)
+      throw error
+    }
+
+    return (data || []) as RunnerTaskWithTable[]
+  })
+}
+
+/**
+ * Record a runner picking up or delivering a task (secure)
+ */
+export async function updateRunnerTaskStatus(
+  taskId: string,
+  status: Exclude<RunnerTaskStatus, 'pending'>,
+  userId: string
+): Promise<void> {
+  return measureApiCall('update_runner_task_status', async () => {
+    const sanitizedTaskId = Security.sanitize.sanitizeIdentifier(taskId)
+    const sanitizedUserId = Security.sanitize.sanitizeIdentifier(userId)
+    if (!sanitizedTaskId) {
+      throw new Error('Invalid runner task ID')
+    }
+    if (!sanitizedUserId) {
+      throw new Error('Invalid user ID')
+    }
+
+    const supabase = createClient()
+    const now = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('runner_tasks')
+      .update(
+        status === 'picked_up'
+          ? { status, picked_up_at: now, picked_up_by: sanitizedUserId }
+          : { status, delivered_at: now }
+      )
+      .eq('id', sanitizedTaskId)
+
+    if (error) {
+      console.error('Error updating runner task:', error)
+      throw error
+    }
+  })
+}
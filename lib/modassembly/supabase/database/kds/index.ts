@@ -7,8 +7,16 @@ export type {
   KDSOrderRouting,
   KDSMetric,
   KDSConfiguration,
+  KDSRoutingRule,
+  KDSTicketItemProgress,
   RoutingTarget,
-  RoutingRules,
+  RoutableOrderLine,
+  RoutingPreviewLine,
+  RoutingRuleMatchType,
+  CourseStatus,
+  TicketProgress,
+  ExpoCourseStatus,
+  ExpoTable,
   TableSummary,
   StationPerformance
 } from './types'
@@ -30,13 +38,61 @@ export {
 
 // Order routing functionality
 export {
+  DEFAULT_ROUTING_PRIORITY,
   routeOrderToStation,
-  getRoutingRules,
-  analyzeOrderForRouting,
+  fetchRoutingRules,
+  createRoutingRule,
+  updateRoutingRule,
+  deleteRoutingRule,
+  fetchRoutingFallbackStation,
+  updateRoutingFallbackStation,
+  previewOrderRouting,
   intelligentOrderRouting,
   checkAndCompleteOrder
 } from './routing'
 
+// Course holds and firing
+export {
+  COURSES,
+  COURSE_LABELS,
+  courseRank,
+  isRoutingHeld,
+  fireNextCourse,
+  fetchTableCourseStatus,
+  summarizeCourses
+} from './courses'
+
+// Per-item progress on station tickets
+export {
+  getTicketItemState,
+  nextTicketItemState,
+  getTicketProgress,
+  isTicketComplete,
+  applyTicketItemState,
+  setTicketItemState
+} from './item-progress'
+
+// Expo table readiness and runner dispatch
+export {
+  fetchExpoOrders,
+  summarizeExpoTables,
+  summarizeExpoCourse,
+  sendCourseToTable,
+  fetchOpenRunnerTasks,
+  updateRunnerTaskStatus
+} from './expo'
+export type { RunnerTaskWithTable } from './expo'
+
+// Journaled cook actions and conflict checks on replay
+export {
+  KDS_ACTION_LABELS,
+  applyKDSActionLocally,
+  createKDSConflictError,
+  isKDSConflictError,
+  applyKDSAction
+} from './journal'
+export type { KDSAction, KDSConflictError } from './journal'
+
 // Metrics and performance analytics
 export {
   fetchStationMetrics,
@@ -0,0 +1,159 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { Security } from '@/lib/security'
+import { measureApiCall } from '@/lib/performance-utils'
+import { KDSCacheManager } from '@/lib/cache/kds-cache'
+import { KDSCache } from '@/lib/cache/ultra-smart-cache'
+import type { TicketItemState } from '@/types/database'
+import { invalidateOrderCachesUltraFast } from './performance-optimized'
+import type {
+  KDSOrderRouting,
+  KDSTicketItemProgress,
+  TicketProgress,
+} from './types'
+
+// Tapping a line on a ticket moves it one step along
+const NEXT_ITEM_STATE: Record<TicketItemState, TicketItemState> = {
+  pending: 'started',
+  started: 'done',
+  done: 'pending',
+}
+
+/**
+ * Where a cook is with one line on a station ticket
+ */
+export function getTicketItemState(
+  item: Pick<KDSTicketItemProgress, 'started_at' | 'completed_at'>
+): TicketItemState {
+  if (item.completed_at) {
+    return 'done'
+  }
+  return item.started_at ? 'started' : 'pending'
+}
+
+/**
+ * State a line moves to when tapped: pending → started → done → pending
+ */
+export function nextTicketItemState(state: TicketItemState): TicketItemState {
+  return NEXT_ITEM_STATE[state]
+}
+
+/**
+ * Count of lines on a ticket, and how many are started or done
+ */
+export function getTicketProgress(routing: {
+  items?: Pick<KDSTicketItemProgress, 'started_at' | 'completed_at'>[] | null
+}): TicketProgress {
+  const items = routing.items || []
+  return {
+    total: items.length,
+    started: items.filter(item => getTicketItemState(item) === 'started')
+      .length,
+    done: items.filter(item => item.completed_at).length,
+  }
+}
+
+/**
+ * A ticket is finished once it is bumped or every line on it is done
+ */
+export function isTicketComplete(
+  routing: Pick<KDSOrderRouting, 'completed_at'> & {
+    items?: Pick<KDSTicketItemProgress, 'completed_at'>[] | null
+  }
+): boolean {
+  if (routing.completed_at) {
+    return true
+  }
+  const items = routing.items || []
+  return items.length > 0 && items.every(item => item.completed_at)
+}
+
+/**
+ * A ticket's lines with one moved to a new state, mirroring
+ * set_ticket_item_state for optimistic updates
+ */
+export function applyTicketItemState<T extends KDSTicketItemProgress>(
+  items: T[],
+  itemId: string,
+  state: TicketItemState,
+  now: string = new Date().toISOString()
+): T[] {
+  return items.map(item =>
+    item.id === itemId
+      ? {
+          ...item,
+          started_at: state === 'pending' ? null : (item.started_at ?? now),
+          completed_at: state === 'done' ? (item.completed_at ?? now) : null,
+        }
+      : item
+  )
+}
+
+/**
+ * Mark one line on a station ticket pending, started or done (secure).
+ * Finishing the last line bumps the ticket; returns true when it did.
+ */
+export async function setTicketItemState(
+  itemId: string,
+  state: TicketItemState,
+  userId: string
+): Promise<boolean> {
+  return measureApiCall('set_ticket_item_state', async () => {
+    const sanitizedItemId = Security.sanitize.sanitizeIdentifier(itemId)
+    const sanitizedUserId = Security.sanitize.sanitizeIdentifier(userId)
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(sanitizedItemId) || !uuidRegex.test(sanitizedUserId)) {
+      throw new Error('Invalid item ID or user ID')
+    }
+    if (!(state in NEXT_ITEM_STATE)) {
+      throw new Error(`Invalid item state: ${state}`)
+    }
+
+    const supabase = createClient()
+
+    const { data: ticketCompleted, error } = await supabase.rpc(
+      'set_ticket_item_state',
+      {
+        p_item_id: sanitizedItemId,
+        p_state: state,
+        p_user_id: sanitizedUserId,
+      }
+    )
+
+    if (error) {
+      console.error('Error updating ticket item:', error)
+      throw error
+    }
+
+    invalidateOrderCachesUltraFast()
+    KDSCacheManager.invalidateOrderCaches()
+    KDSCache.invalidateOrders()
+
+    if (ticketCompleted) {
+      try {
+        const { data: item, error: itemError } = await supabase
+          .from('kds_ticket_items')
+          .select('routing:kds_order_routing!routing_id (order_id)')
+          .eq('id', sanitizedItemId)
+          .single()
+
+        const orderId = (item?.routing as { order_id: string } | null)
+          ?.order_id
+        if (!itemError && orderId) {
+          // Import checkAndCompleteOrder from routing module to avoid circular dependency
+          const { checkAndCompleteOrder } = await import('./routing')
+          await checkAndCompleteOrder(orderId)
+        }
+      } catch (completionError) {
+        console.error(
+          'Error checking order completion after item bump:',
+          completionError
+        )
+        // The ticket is bumped either way
+      }
+    }
+
+    return !!ticketCompleted
+  })
+}
@@ -0,0 +1,138 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { Security } from '@/lib/security'
+import { measureApiCall } from '@/lib/performance-utils'
+import { KDSCacheManager } from '@/lib/cache/kds-cache'
+import { KDSCache } from '@/lib/cache/ultra-smart-cache'
+import type { KDSActionResult, KDSActionType } from '@/types/database'
+import { getDeviceId } from '@/lib/modassembly/supabase/database/order-events'
+import { invalidateOrderCachesUltraFast } from './performance-optimized'
+import { checkAndCompleteOrder } from './routing'
+import type { KDSOrderRouting } from './types'
+
+// One cook action on a station ticket, stamped with when it was made so a
+// replay can be checked against what happened on the ticket since
+export type KDSAction =
+  | { type: 'bump'; routing_id: string; user_id: string; performed_at: string }
+  | { type: 'recall'; routing_id: string; performed_at: string }
+  | { type: 'start_prep'; routing_id: string; performed_at: string }
+  | { type: 'priority'; routing_id: string; priority: number; performed_at: string }
+
+export const KDS_ACTION_LABELS: Record<KDSActionType, string> = {
+  bump: 'Bump',
+  recall: 'Recall',
+  start_prep: 'Start prep',
+  priority: 'Priority change',
+}
+
+/**
+ * The ticket fields an action changes, for showing it before the server
+ * has it
+ */
+export function applyKDSActionLocally(action: KDSAction): Partial<KDSOrderRouting> {
+  switch (action.type) {
+    case 'bump':
+      return {
+        completed_at: action.performed_at,
+        bumped_at: action.performed_at,
+        bumped_by: action.user_id,
+      }
+    case 'recall':
+      return {
+        completed_at: null,
+        bumped_at: null,
+        bumped_by: null,
+        recalled_at: action.performed_at,
+      }
+    case 'start_prep':
+      return { started_at: action.performed_at }
+    case 'priority':
+      return { priority: action.priority }
+  }
+}
+
+export interface KDSConflictError extends Error {
+  code: 'KDS_CONFLICT'
+  action: KDSAction
+  // What happened on the ticket instead ("Already bumped by Sam")
+  reason: string
+}
+
+export function createKDSConflictError(
+  action: KDSAction,
+  reason: string
+): KDSConflictError {
+  return Object.assign(
+    new Error(`${KDS_ACTION_LABELS[action.type]} not applied: ${reason}`),
+    { code: 'KDS_CONFLICT' as const, action, reason }
+  )
+}
+
+export function isKDSConflictError(error: unknown): error is KDSConflictError {
+  return (
+    error instanceof Error &&
+    (error as Partial<KDSConflictError>).code === 'KDS_CONFLICT'
+  )
+}
+
+/**
+ * Apply a cook action if the ticket is still in the state it was made
+ * against (secure). Replays of an action already applied are ignored; an
+ * action another screen or expo has overtaken throws a KDSConflictError.
+ */
+export async function applyKDSAction(action: KDSAction): Promise<KDSActionResult> {
+  return measureApiCall('apply_kds_action', async () => {
+    const sanitizedRoutingId = Security.sanitize.sanitizeIdentifier(action.routing_id)
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (
+      !uuidRegex.test(sanitizedRoutingId) ||
+      (action.type === 'bump' && !uuidRegex.test(action.user_id))
+    ) {
+      throw new Error('Invalid routing ID or user ID')
+    }
+
+    const supabase = createClient()
+
+    const { data, error } = await supabase.rpc('apply_kds_action', {
+      p_routing_id: sanitizedRoutingId,
+      p_action: action.type,
+      p_performed_at: action.performed_at,
+      p_user_id: action.type === 'bump' ? action.user_id : null,
+      p_priority: action.type === 'priority' ? action.priority : null,
+      p_device_id: getDeviceId(),
+    })
+
+    if (error) {
+      console.error('Error applying KDS action:', error)
+      throw error
+    }
+
+    if (data.status === 'conflict') {
+      throw createKDSConflictError(action, data.reason || 'Ticket has changed')
+    }
+
+    invalidateOrderCachesUltraFast()
+    KDSCacheManager.invalidateOrderCaches()
+    KDSCache.invalidateOrders()
+
+    if (action.type === 'bump' && data.status === 'applied') {
+      try {
+        const { data: routing } = await supabase
+          .from('kds_order_routing')
+          .select('order_id')
+          .eq('id', sanitizedRoutingId)
+          .single()
+
+        if (routing) {
+          await checkAndCompleteOrder(routing.order_id)
+        }
+      } catch (completionError) {
+        // Don't fail the bump if completion check fails
+        console.error('Error checking order completion after bump:', completionError)
+      }
+    }
+
+    return data
+  })
+}
@@ -155,9 +155,12 @@ export async function recordStationMetric(
 }
 
 /**
- * Get system-wide KDS performance metrics
+ * Get system-wide KDS performance metrics, optionally for one meal service
  */
-export async function getSystemPerformanceMetrics(days: number = 7): Promise<{
+export async function getSystemPerformanceMetrics(
+  days: number = 7,
+  serviceId?: string
+): Promise<{
   totalOrders: number
   avgPrepTime: number
   completionRate: number
@@ -170,20 +173,33 @@ export async function getSystemPerformanceMetrics(days: number = 7): Promise<{
     startDate.setDate(startDate.getDate() - days)
 
     // Get total orders in period
-    const { data: totalOrdersData, error: totalError } = await supabase
+    let totalQuery = supabase
       .from('kds_order_routing')
-      .select('id')
+      .select('id, order:orders!inner (service_id)')
       .gte('routed_at', startDate.toISOString())
 
+    if (serviceId) {
+      totalQuery = totalQuery.eq('order.service_id', serviceId)
+    }
+
+    const { data: totalOrdersData, error: totalError } = await totalQuery
+
     const totalOrders = totalOrdersData?.length || 0
 
     // Get completed orders
-    const { data: completedOrdersData, error: completedError } = await supabase
+    let completedQuery = supabase
       .from('kds_order_routing')
-      .select('id, completed_at, routed_at')
+      .select('id, completed_at, routed_at, order:orders!inner (service_id)')
       .not('completed_at', 'is', null)
       .gte('routed_at', startDate.toISOString())
 
+    if (serviceId) {
+      completedQuery = completedQuery.eq('order.service_id', serviceId)
+    }
+
+    const { data: completedOrdersData, error: completedError } =
+      await completedQuery
+
     const completedOrders = completedOrdersData?.length || 0
     const completionRate = totalOrders > 0 ? (completedOrders / totalOrders) * 100 : 0
 
@@ -221,18 +237,23 @@ export async function getSystemPerformanceMetrics(days: number = 7): Promise<{
       .from('kds_stations')
       .select(`
         id, name,
-        kds_order_routing(id, completed_at)
+        kds_order_routing(id, completed_at, order:orders (service_id))
       `)
       .eq('is_active', true)
 
     const topPerformingStations = stationPerformance
-      ?.map(station => ({
-        name: station.name,
-        completionRate: station.kds_order_routing
-          ? (station.kds_order_routing.filter((r: any) => r.completed_at).length / 
-             station.kds_order_routing.length) * 100
-          : 0
-      }))
+      ?.map(station => {
+        const routings = (station.kds_order_routing || []).filter(
+          (r: any) => !serviceId || r.order?.service_id === serviceId
+        )
+        return {
+          name: station.name,
+          completionRate: routings.length > 0
+            ? (routings.filter((r: any) => r.completed_at).length /
+               routings.length) * 100
+            : 0
+        }
+      })
       .sort((a, b) => b.completionRate - a.completionRate)
       .slice(0, 3)
       .map(station => station.name) || []
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { measureApiCall } from '@/lib/performance-utils'
+import { withEventContext } from '@/lib/modassembly/supabase/database/order-events'
 import type { KDSOrderRouting, KDSStation } from './types'
 
 /**
@@ -236,10 +237,12 @@ export async function batchUpdateOrders(updates: Array<{
     // Clear relevant cache entries
     queryCache.clear()
 
+    const context = withEventContext()
+
     // Batch update using upsert
     const { error } = await supabase
       .from('kds_order_routing')
-      .upsert(updates, {
+      .upsert(updates.map(update => ({ ...update, ...context })), {
         onConflict: 'id',
         ignoreDuplicates: false
       })
@@ -266,7 +269,7 @@ export async function completeOrderOptimized(orderIds: string[]): Promise<void>
 
     const { error } = await supabase
       .from('kds_order_routing')
-      .update({ completed_at: now })
+      .update({ completed_at: now, ...withEventContext() })
       .in('id', orderIds)
 
     if (error) {
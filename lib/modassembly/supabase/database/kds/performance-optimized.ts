@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { measureApiCall } from '@/lib/performance-utils'
+import type { Course, KDSTicketItem, ResidentCareSnapshot } from '@/types/database'
 import type { KDSOrderRouting, KDSStation } from './types'
 
 /**
@@ -86,6 +87,13 @@ export async function fetchActiveOrdersUltraFast(): Promise<{
   priority: number
   started_at: string | null
   completed_at: string | null
+  course: Course | null
+  held_at: string | null
+  fired_at: string | null
+  items: Pick<
+    KDSTicketItem,
+    'id' | 'order_item_id' | 'line_index' | 'started_at' | 'completed_at'
+  >[]
 }[]> {
   const cacheKey = 'ultra_active_orders'
   const cached = ultraCache.get<any[]>(cacheKey)
@@ -96,7 +104,9 @@ export async function fetchActiveOrdersUltraFast(): Promise<{
 
     const { data, error } = await supabase
       .from('kds_order_routing')
-      .select('id, order_id, station_id, routed_at, priority, started_at, completed_at')
+      .select(
+        'id, order_id, station_id, routed_at, priority, started_at, completed_at, course, held_at, fired_at, items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at)'
+      )
       .is('completed_at', null)
       .order('priority', { ascending: false })
       .order('routed_at', { ascending: true })
@@ -197,9 +207,13 @@ export async function fetchStationOrdersLightningFast(stationId: string): Promis
 export async function fetchOrderDetailsOptimized(orderIds: string[]): Promise<{
   id: string
   items: any[]
+  order_items: any[]
   table_id: string
   seat_id: string
   created_at: string
+  dietary_alerts: string[] | null
+  dietary_override_reason: string | null
+  resident_care: ResidentCareSnapshot | null
 }[]> {
   if (orderIds.length === 0) {return []}
 
@@ -212,7 +226,9 @@ export async function fetchOrderDetailsOptimized(orderIds: string[]): Promise<{
 
     const { data, error } = await supabase
       .from('orders')
-      .select('id, items, table_id, seat_id, created_at')
+      .select(
+        'id, items, table_id, seat_id, created_at, dietary_alerts, dietary_override_reason, resident_care, order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course, texture_diet, fluid_thickness)'
+      )
       .in('id', orderIds.slice(0, 10)) // Limit to prevent large queries
 
     if (error) {
@@ -1,8 +1,43 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { Security } from '@/lib/security'
 import { measureApiCall } from '@/lib/performance-utils'
-import type { KDSStation, RoutingRules, RoutingTarget } from './types'
-import { fetchKDSStations } from './core'
+import type {
+  KDSRoutingRuleInsert,
+  KDSRoutingRuleUpdate,
+  OrderType,
+  StationType,
+} from '@/types/database'
+import { isTicketComplete } from './item-progress'
+import type {
+  KDSRoutingRule,
+  RoutableOrderLine,
+  RoutingPreviewLine,
+  RoutingRuleMatchType,
+} from './types'
+
+const ROUTING_FALLBACK_KEY = 'routing_fallback_station'
+
+const ROUTING_RULE_MATCH_TYPES: RoutingRuleMatchType[] = [
+  'menu_item',
+  'category',
+  'keyword',
+  'regex',
+  'order_type',
+]
+
+/**
+ * Starting priority for a new rule of each match type; explicit beats broad.
+ * An order's type outranks guesses from a line's text, so a drink order for
+ * "hot chocolate" stays at the bar instead of matching a dessert keyword.
+ * The seeded rules in the routing migration use the same values.
+ */
+export const DEFAULT_ROUTING_PRIORITY: Record<RoutingRuleMatchType, number> = {
+  menu_item: 100,
+  category: 50,
+  order_type: 30,
+  regex: 20,
+  keyword: 10,
+}
 
 /**
  * Route an order to a specific station manually (secure)
@@ -55,186 +90,219 @@ export async function routeOrderToStation(
 }
 
 /**
- * Get routing rules for different station types
+ * Fetch routing rules, highest priority first
  */
-export function getRoutingRules(): RoutingRules {
-  return {
-    grill: [
-      'steak',
-      'burger',
-      'chicken',
-      'beef',
-      'pork',
-      'grilled',
-      'barbecue',
-      'bbq',
-      'ribeye',
-      'filet',
-      'sirloin',
-      'cheeseburger',
-      'bacon',
-      'patty',
-    ],
-    fryer: [
-      'fries', 
-      'fried', 
-      'tempura', 
-      'wings', 
-      'nuggets', 
-      'crispy',
-      'loaded',
-      'onion rings',
-      'calamari',
-      'fish and chips',
-    ],
-    salad: [
-      'salad', 
-      'greens', 
-      'vegetables', 
-      'fresh', 
-      'raw', 
-      'lettuce',
-      'caesar',
-      'greek',
-      'chef',
-      'garden',
-      'spinach',
-    ],
-    prep: [
-      'soup', 
-      'sauce', 
-      'dressing', 
-      'marinade', 
-      'prep',
-      'mashed',
-      'potatoes',
-      'side',
-      'fondue',
-      'pot',
-    ],
-    dessert: [
-      'dessert',
-      'cake',
-      'ice cream',
-      'sweet',
-      'chocolate',
-      'fruit',
-      'tiramisu',
-      'waffle',
-      'belgian',
-      'stack',
-      'slice',
-      'birthday',
-      'bowl',
-    ],
+export async function fetchRoutingRules(): Promise<KDSRoutingRule[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_routing_rules')
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching routing rules:', error)
+    throw error
   }
+
+  return data || []
 }
 
 /**
- * Analyze order items and determine appropriate routing targets
+ * Rules must name exactly what they match; the database rejects bad regexes
  */
-export function analyzeOrderForRouting(
-  orderType: string,
-  items: any[],
-  stations: KDSStation[]
-): RoutingTarget[] {
-  const targetStations: RoutingTarget[] = []
-
-  if (orderType === 'beverage' || orderType === 'drink') {
-    // Route beverages to bar station
-    const barStation = stations.find(s => s.type === 'bar')
-    if (barStation) {
-      targetStations.push({ station: barStation, priority: 1, sequence: 1 })
-    }
-  } else {
-    // Analyze food items to determine routing
-    const routingRules = getRoutingRules()
-    const itemText = items.join(' ').toLowerCase()
-    let sequence = 1
-
-    for (const [stationType, keywords] of Object.entries(routingRules)) {
-      if (keywords.some(keyword => itemText.includes(keyword))) {
-        const station = stations.find(s => s.type === stationType)
-        if (station) {
-          const priority = stationType === 'grill' ? 2 : 1 // Grill gets higher priority
-          targetStations.push({ station, priority, sequence: sequence++ })
-        }
-      }
-    }
+function validateRoutingRule(rule: Partial<KDSRoutingRuleInsert>): void {
+  if (rule.match_type && !ROUTING_RULE_MATCH_TYPES.includes(rule.match_type)) {
+    throw new Error('Invalid routing rule match type')
+  }
+  if (rule.match_type === 'menu_item' && !rule.menu_item_id) {
+    throw new Error('Menu item rules need a menu item')
+  }
+  if (rule.match_type === 'category' && !rule.category_id) {
+    throw new Error('Category rules need a category')
+  }
+  if (
+    rule.match_type &&
+    ['keyword', 'regex', 'order_type'].includes(rule.match_type) &&
+    !rule.pattern?.trim()
+  ) {
+    throw new Error('Routing rule pattern is required')
+  }
+}
 
-    // If no specific routing, route to expo station or first available station
-    if (targetStations.length === 0) {
-      const expoStation = stations.find(s => s.type === 'expo') || stations[0]
-      if (expoStation) {
-        targetStations.push({
-          station: expoStation,
-          priority: 1,
-          sequence: 1,
-        })
-      }
-    }
+/**
+ * Create a routing rule
+ */
+export async function createRoutingRule(
+  rule: KDSRoutingRuleInsert
+): Promise<KDSRoutingRule> {
+  validateRoutingRule(rule)
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_routing_rules')
+    .insert({
+      ...rule,
+      name: Security.sanitize.sanitizeUserName(rule.name),
+      pattern: rule.pattern?.trim() || null,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error creating routing rule:', error)
+    throw error
   }
 
-  return targetStations
+  return data
 }
 
 /**
- * Automatically routes orders to appropriate stations based on order type and items
+ * Update a routing rule
  */
-export async function intelligentOrderRouting(orderId: string): Promise<void> {
-  return measureApiCall('intelligent_order_routing', async () => {
-    // Security: Validate order ID
-    const sanitizedOrderId = Security.sanitize.sanitizeIdentifier(orderId)
-    if (!sanitizedOrderId) {
-      throw new Error('Invalid order ID')
-    }
+export async function updateRoutingRule(
+  ruleId: string,
+  updates: KDSRoutingRuleUpdate
+): Promise<KDSRoutingRule> {
+  validateRoutingRule(updates)
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_routing_rules')
+    .update({
+      ...updates,
+      ...(updates.name !== undefined && {
+        name: Security.sanitize.sanitizeUserName(updates.name),
+      }),
+      ...(updates.pattern !== undefined && {
+        pattern: updates.pattern?.trim() || null,
+      }),
+    })
+    .eq('id', ruleId)
+    .select('*')
+    .single()
 
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
-    if (!uuidRegex.test(sanitizedOrderId)) {
-      throw new Error('Invalid order ID format')
-    }
+  if (error) {
+    console.error('Error updating routing rule:', error)
+    throw error
+  }
 
+  return data
+}
+
+/**
+ * Delete a routing rule
+ */
+export async function deleteRoutingRule(ruleId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('kds_routing_rules')
+    .delete()
+    .eq('id', ruleId)
+
+  if (error) {
+    console.error('Error deleting routing rule:', error)
+    throw error
+  }
+}
+
+/**
+ * Station type that receives lines no rule or menu item places
+ */
+export async function fetchRoutingFallbackStation(): Promise<StationType> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_configuration')
+    .select('value')
+    .eq('key', ROUTING_FALLBACK_KEY)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching routing fallback station:', error)
+    throw error
+  }
+
+  return (data?.value as StationType) || 'expo'
+}
+
+export async function updateRoutingFallbackStation(
+  stationType: StationType
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('kds_configuration')
+    .upsert(
+      {
+        key: ROUTING_FALLBACK_KEY,
+        value: stationType,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'key' }
+    )
+
+  if (error) {
+    console.error('Error updating routing fallback station:', error)
+    throw error
+  }
+}
+
+/**
+ * Dry run: where each line of an order would be routed, and which rule
+ * decided it. Uses the same database function as live routing.
+ */
+export async function previewOrderRouting(
+  orderType: OrderType,
+  lines: RoutableOrderLine[]
+): Promise<RoutingPreviewLine[]> {
+  return measureApiCall('preview_order_routing', async () => {
     const supabase = createClient()
 
-    // Fetch the order details
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('id, type, items')
-      .eq('id', sanitizedOrderId)
-      .single()
+    const { data, error } = await supabase.rpc('preview_order_routing', {
+      p_order_type: orderType,
+      p_lines: lines.map(line => ({
+        name: line.name,
+        menu_item_id: line.menu_item_id || null,
+      })),
+    })
 
-    if (orderError) {
-      console.error('Error fetching order for routing:', orderError)
-      throw orderError
+    if (error) {
+      console.error('Error previewing order routing:', error)
+      throw error
     }
 
-    if (!order) {
-      throw new Error('Order not found')
+    return data || []
+  })
+}
+
+/**
+ * Routes an order to its stations using the routing rules. The insert
+ * triggers already do this; calling it again is safe and re-routes any
+ * station that hasn't started the order.
+ */
+export async function intelligentOrderRouting(orderId: string): Promise<void> {
+  return measureApiCall('intelligent_order_routing', async () => {
+    // Security: Validate order ID
+    const sanitizedOrderId = Security.sanitize.sanitizeIdentifier(orderId)
+    if (!sanitizedOrderId) {
+      throw new Error('Invalid order ID')
     }
 
-    // Fetch active stations
-    const stations = await fetchKDSStations()
+    const supabase = createClient()
 
-    if (stations.length === 0) {
-      throw new Error('No active stations available for routing')
-    }
+    const { error } = await supabase.rpc('route_order_to_stations', {
+      p_order_id: sanitizedOrderId,
+    })
 
-    // Analyze order and get routing targets
-    const items = Array.isArray(order.items) ? order.items : []
-    const targetStations = analyzeOrderForRouting(order.type, items, stations)
-
-    // Route to all determined stations
-    for (const { station, priority, sequence } of targetStations) {
-      await routeOrderToStation(
-        sanitizedOrderId,
-        station.id,
-        sequence,
-        priority
-      )
+    if (error) {
+      console.error('Error routing order to stations:', error)
+      throw error
     }
-
-    // Order routed to stations successfully
   })
 }
 
@@ -254,7 +322,7 @@ export async function checkAndCompleteOrder(orderId: string): Promise<boolean> {
     // Check if all routing entries for this order are completed
     const { data: routings, error } = await supabase
       .from('kds_order_routing')
-      .select('id, completed_at')
+      .select('id, completed_at, items:kds_ticket_items (completed_at)')
       .eq('order_id', sanitizedOrderId)
 
     if (error) {
@@ -266,10 +334,8 @@ export async function checkAndCompleteOrder(orderId: string): Promise<boolean> {
       return false // No routing entries, nothing to complete
     }
 
-    // Check if all routings are completed
-    const allCompleted = routings.every(
-      routing => routing.completed_at !== null
-    )
+    // Check if all routings are completed, bumped or with every line done
+    const allCompleted = routings.every(routing => isTicketComplete(routing))
 
     if (allCompleted) {
       // Update main order status to ready
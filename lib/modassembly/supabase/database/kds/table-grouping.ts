@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { measureApiCall } from '@/lib/performance-utils'
+import { courseRank, isRoutingHeld } from './courses'
 import type { KDSOrderRouting, TableSummary } from './types'
 
 /**
@@ -46,17 +47,20 @@ export function groupOrdersByTableAndSeat(orders: KDSOrderRouting[]): Map<string
 }
 
 /**
- * Calculate table priority based on order age, item count, and special flags
+ * Calculate table priority based on order age, item count, course, and special flags.
+ * Held courses don't count; fired courses age from when they were fired.
  */
 export function calculateTablePriority(orders: KDSOrderRouting[]): number {
-  if (orders.length === 0) {return 0}
+  const firedOrders = orders.filter(order => !isRoutingHeld(order))
+  if (firedOrders.length === 0) {return 0}
   
   let totalPriority = 0
   let totalWeight = 0
   
-  orders.forEach(order => {
-    const orderAge = order.order?.created_at 
-      ? (Date.now() - new Date(order.order.created_at).getTime()) / (1000 * 60) // minutes
+  firedOrders.forEach(order => {
+    const firedAt = order.fired_at || order.order?.created_at
+    const orderAge = firedAt 
+      ? (Date.now() - new Date(firedAt).getTime()) / (1000 * 60) // minutes
       : 0
     
     const itemCount = order.order?.items?.length || 0
@@ -73,7 +77,10 @@ export function calculateTablePriority(orders: KDSOrderRouting[]): number {
     // Note: These would need to be actual enum values from OrderType
     // For now, just use base weight for all types
     
-    const orderPriority = (basePriority + 1) * (1 + ageWeight + itemWeight) * typeWeight
+    // Course weight: an earlier course holds up everything after it
+    const courseWeight = order.course ? 1 + (3 - courseRank(order.course)) * 0.25 : 1
+    
+    const orderPriority = (basePriority + 1) * (1 + ageWeight + itemWeight) * typeWeight * courseWeight
     
     totalPriority += orderPriority
     totalWeight += 1
@@ -130,14 +137,16 @@ export function generateTableSummary(orders: KDSOrderRouting[]): TableSummary {
   const tableId = firstOrder.order?.table?.id || ''
   const tableLabel = firstOrder.order?.table?.label || ''
   
-  const activeOrders = orders.filter(order => !order.completed_at).length
-  const totalItems = orders.reduce((sum, order) => sum + (order.order?.items?.length || 0), 0)
+  // Held courses aren't in the kitchen yet
+  const firedOrders = orders.filter(order => !isRoutingHeld(order))
+  const activeOrders = firedOrders.filter(order => !order.completed_at).length
+  const totalItems = firedOrders.reduce((sum, order) => sum + (order.order?.items?.length || 0), 0)
   
   // Calculate average wait time
   const now = Date.now()
-  const waitTimes = orders
-    .filter(order => order.order?.created_at)
-    .map(order => (now - new Date(order.order!.created_at).getTime()) / (1000 * 60)) // minutes
+  const waitTimes = firedOrders
+    .filter(order => order.fired_at || order.order?.created_at)
+    .map(order => (now - new Date(order.fired_at || order.order!.created_at).getTime()) / (1000 * 60)) // minutes
   
   const avgWaitTime = waitTimes.length > 0 
     ? Math.round(waitTimes.reduce((sum, time) => sum + time, 0) / waitTimes.length)
@@ -146,10 +155,12 @@ export function generateTableSummary(orders: KDSOrderRouting[]): TableSummary {
   // Determine status
   let status: 'waiting' | 'preparing' | 'ready' | 'served' = 'waiting'
   
-  const completedOrders = orders.filter(order => order.completed_at).length
-  const startedOrders = orders.filter(order => order.started_at && !order.completed_at).length
+  const completedOrders = firedOrders.filter(order => order.completed_at).length
+  const startedOrders = firedOrders.filter(order => order.started_at && !order.completed_at).length
   
-  if (completedOrders === orders.length) {
+  if (firedOrders.length === 0) {
+    status = 'waiting'
+  } else if (completedOrders === firedOrders.length) {
     status = 'ready'
   } else if (startedOrders > 0) {
     status = 'preparing'
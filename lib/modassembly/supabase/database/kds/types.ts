@@ -1,9 +1,14 @@
 import {
+  Course,
   KDSConfiguration as DatabaseKDSConfiguration,
   KDSMetric as DatabaseKDSMetric,
   KDSOrderRouting as DatabaseKDSOrderRouting,
+  KDSRoutingRule as DatabaseKDSRoutingRule,
   KDSStation as DatabaseKDSStation,
+  KDSTicketItem,
+  OrderItemWithMenu,
   OrderType,
+  ResidentCareSnapshot,
 } from '@/types/database'
 
 // Re-export database types for backward compatibility
@@ -16,6 +21,12 @@ export type KDSOrderRouting = DatabaseKDSOrderRouting & {
     seat_id: string
     server_id?: string
     items: any[]
+    order_items?: OrderItemWithMenu[]
+    // Resident restrictions and any server override, for the allergy flag
+    dietary_alerts?: string[]
+    dietary_override_reason?: string | null
+    // Resident room and care details, for the care flag
+    resident_care?: ResidentCareSnapshot | null
     transcript?: string
     status: string
     type: OrderType
@@ -39,9 +50,17 @@ export type KDSOrderRouting = DatabaseKDSOrderRouting & {
     }
   }
   station?: KDSStation
+  // Lines on this ticket and how far along each is
+  items?: KDSTicketItemProgress[]
 }
+export type KDSTicketItemProgress = Pick<
+  KDSTicketItem,
+  'id' | 'order_item_id' | 'line_index' | 'started_at' | 'completed_at'
+>
 export type KDSMetric = DatabaseKDSMetric
 export type KDSConfiguration = DatabaseKDSConfiguration
+export type KDSRoutingRule = DatabaseKDSRoutingRule
+export type { RoutingPreviewLine, RoutingRuleMatchType } from '@/types/database'
 
 // Additional shared types for the KDS modules
 export interface RoutingTarget {
@@ -50,8 +69,49 @@ export interface RoutingTarget {
   sequence: number
 }
 
-export interface RoutingRules {
-  [stationType: string]: string[]
+// Order line as seen by the router; menu_item_id is null for free text
+export interface RoutableOrderLine {
+  name: string
+  menu_item_id?: string | null
+}
+
+// Item-level progress of one station ticket
+export interface TicketProgress {
+  total: number
+  started: number
+  done: number
+}
+
+// Where one course stands at a table, rolled up from its station tickets
+export interface CourseStatus {
+  course: Course
+  tickets: number
+  held: number
+  completed: number
+  state: 'none' | 'held' | 'fired' | 'cooking' | 'ready'
+}
+
+// Readiness of one course at a table, as the expo sees it
+export interface ExpoCourseStatus {
+  course: Course | null
+  tickets: number
+  completed: number
+  held: number
+  // Stations still working on this course
+  outstandingStations: string[]
+  ready: boolean
+}
+
+export interface ExpoTable {
+  tableId: string
+  tableLabel: string
+  seats: {
+    seatId: string
+    seatLabel: string | null
+    orders: KDSOrderRouting[]
+  }[]
+  courses: ExpoCourseStatus[]
+  oldestRoutedAt: string
 }
 
 export interface TableSummary {
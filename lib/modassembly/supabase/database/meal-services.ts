@@ -0,0 +1,185 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type {
+  MealService,
+  MealServiceInsert,
+  MealServiceUpdate,
+  MenuItemWithDetails,
+} from '@/types/database'
+import { timeToMinutes } from './menu'
+
+/**
+ * Fetch the service calendar in display order
+ */
+export async function fetchMealServices(
+  includeInactive = false
+): Promise<MealService[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('meal_services')
+    .select('*')
+    .order('position', { ascending: true })
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch meal services: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createMealService(
+  service: MealServiceInsert
+): Promise<MealService> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('meal_services')
+    .insert({ ...service, name: service.name.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create meal service: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateMealService(
+  serviceId: string,
+  updates: MealServiceUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('meal_services')
+    .update(updates)
+    .eq('id', serviceId)
+
+  if (error) {
+    throw new Error(`Failed to update meal service: ${error.message}`)
+  }
+}
+
+export async function deleteMealService(serviceId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('meal_services')
+    .delete()
+    .eq('id', serviceId)
+
+  if (error) {
+    throw new Error(`Failed to delete meal service: ${error.message}`)
+  }
+}
+
+/**
+ * Whether a service is open at the given moment (local time)
+ */
+export function isServiceOpenAt(
+  service: Pick<
+    MealService,
+    'is_active' | 'days_of_week' | 'start_time' | 'end_time'
+  >,
+  at: Date = new Date()
+): boolean {
+  if (!service.is_active) {
+    return false
+  }
+
+  const days = service.days_of_week
+  if (days && days.length > 0 && !days.includes(at.getDay())) {
+    return false
+  }
+
+  const minutes = at.getHours() * 60 + at.getMinutes()
+  return (
+    minutes >= timeToMinutes(service.start_time) &&
+    minutes < timeToMinutes(service.end_time)
+  )
+}
+
+/**
+ * Service running at the given moment, or null between services. Overlapping
+ * services resolve to the first in calendar order.
+ */
+export function findServiceAt<T extends MealService>(
+  services: T[],
+  at: Date = new Date()
+): T | null {
+  return (
+    [...services]
+      .sort((a, b) => a.position - b.position)
+      .find(service => isServiceOpenAt(service, at)) ?? null
+  )
+}
+
+export async function getCurrentService(
+  at: Date = new Date()
+): Promise<MealService | null> {
+  return findServiceAt(await fetchMealServices(), at)
+}
+
+/**
+ * Whether an item is on a service's menu. Items not tied to any service are
+ * served in all of them; items tied to services are off the menu between
+ * services.
+ */
+export function isItemServedIn(
+  item: Pick<MenuItemWithDetails, 'services'>,
+  serviceId: string | null
+): boolean {
+  const services = item.services || []
+  if (services.length === 0) {
+    return true
+  }
+  return (
+    serviceId !== null &&
+    services.some(service => service.service_id === serviceId)
+  )
+}
+
+/**
+ * "07:00–10:30"
+ */
+export function formatServiceHours(
+  service: Pick<MealService, 'start_time' | 'end_time'>
+): string {
+  return `${service.start_time.slice(0, 5)}–${service.end_time.slice(0, 5)}`
+}
+
+export interface OutOfServiceError extends Error {
+  code: 'OUT_OF_SERVICE'
+  itemNames: string[]
+  service: Pick<MealService, 'id' | 'name'> | null
+  // Blocked by the service policy; a warning can be sent anyway
+  blocking: boolean
+}
+
+export function createOutOfServiceError(
+  itemNames: string[],
+  service: Pick<MealService, 'id' | 'name'> | null,
+  blocking: boolean
+): OutOfServiceError {
+  const where = service ? `the ${service.name} menu` : 'any open service'
+  return Object.assign(
+    new Error(`Not on ${where}: ${itemNames.join(', ')}`),
+    { code: 'OUT_OF_SERVICE' as const, itemNames, service, blocking }
+  )
+}
+
+export function isOutOfServiceError(
+  error: unknown
+): error is OutOfServiceError {
+  return (
+    error instanceof Error &&
+    (error as Partial<OutOfServiceError>).code === 'OUT_OF_SERVICE'
+  )
+}
@@ -0,0 +1,404 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { formatModifier } from '@/lib/order-modifiers'
+import type {
+  Course,
+  MenuAvailabilityWindow,
+  MenuCategory,
+  MenuCategoryInsert,
+  MenuCategoryUpdate,
+  MenuItem,
+  MenuItemInsert,
+  MenuItemSynonym,
+  MenuItemUpdate,
+  MenuItemWithDetails,
+  MenuModifier,
+  MenuModifierInsert,
+  OrderItemModifier,
+  StationType,
+} from '@/types/database'
+
+const MENU_ITEM_SELECT = `
+  *,
+  category:menu_categories!category_id (id, name, station_type, default_course),
+  modifiers:menu_modifiers (*),
+  availability:menu_availability_windows (*),
+  synonyms:menu_item_synonyms (*),
+  services:menu_item_services (service_id)
+`
+
+/**
+ * Fetch all menu categories ordered for display
+ */
+export async function fetchMenuCategories(
+  includeInactive = false
+): Promise<MenuCategory[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('menu_categories')
+    .select('*')
+    .order('position', { ascending: true })
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch menu categories: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Fetch menu items with their category, modifiers and availability windows
+ */
+export async function fetchMenuItems(options?: {
+  type?: 'food' | 'drink'
+  includeUnavailable?: boolean
+}): Promise<MenuItemWithDetails[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('menu_items')
+    .select(MENU_ITEM_SELECT)
+    .order('position', { ascending: true })
+
+  if (options?.type) {
+    query = query.eq('type', options.type)
+  }
+
+  if (!options?.includeUnavailable) {
+    query = query.eq('is_available', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch menu items: ${error.message}`)
+  }
+
+  return (data || []) as MenuItemWithDetails[]
+}
+
+/**
+ * Fetch specific menu items by ID (used when resolving order lines)
+ */
+export async function fetchMenuItemsByIds(
+  ids: string[]
+): Promise<MenuItemWithDetails[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('menu_items')
+    .select(MENU_ITEM_SELECT)
+    .in('id', Array.from(new Set(ids)))
+
+  if (error) {
+    throw new Error(`Failed to fetch menu items: ${error.message}`)
+  }
+
+  return (data || []) as MenuItemWithDetails[]
+}
+
+export async function createMenuCategory(
+  category: MenuCategoryInsert
+): Promise<MenuCategory> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('menu_categories')
+    .insert(category)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create menu category: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateMenuCategory(
+  categoryId: string,
+  updates: MenuCategoryUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('menu_categories')
+    .update(updates)
+    .eq('id', categoryId)
+
+  if (error) {
+    throw new Error(`Failed to update menu category: ${error.message}`)
+  }
+}
+
+export async function deleteMenuCategory(categoryId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('menu_categories')
+    .delete()
+    .eq('id', categoryId)
+
+  if (error) {
+    throw new Error(`Failed to delete menu category: ${error.message}`)
+  }
+}
+
+export async function createMenuItem(item: MenuItemInsert): Promise<MenuItem> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('menu_items')
+    .insert({ ...item, name: item.name.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create menu item: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateMenuItem(
+  itemId: string,
+  updates: MenuItemUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('menu_items')
+    .update(updates)
+    .eq('id', itemId)
+
+  if (error) {
+    throw new Error(`Failed to update menu item: ${error.message}`)
+  }
+}
+
+export async function deleteMenuItem(itemId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from('menu_items').delete().eq('id', itemId)
+
+  if (error) {
+    throw new Error(`Failed to delete menu item: ${error.message}`)
+  }
+}
+
+export async function createMenuModifier(
+  modifier: MenuModifierInsert
+): Promise<MenuModifier> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('menu_modifiers')
+    .insert(modifier)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create menu modifier: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deleteMenuModifier(modifierId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('menu_modifiers')
+    .delete()
+    .eq('id', modifierId)
+
+  if (error) {
+    throw new Error(`Failed to delete menu modifier: ${error.message}`)
+  }
+}
+
+export async function createMenuItemSynonym(
+  menuItemId: string,
+  phrase: string
+): Promise<MenuItemSynonym> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('menu_item_synonyms')
+    .insert({ menu_item_id: menuItemId, phrase: phrase.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create menu item synonym: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deleteMenuItemSynonym(synonymId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('menu_item_synonyms')
+    .delete()
+    .eq('id', synonymId)
+
+  if (error) {
+    throw new Error(`Failed to delete menu item synonym: ${error.message}`)
+  }
+}
+
+/**
+ * Replace all availability windows for a menu item
+ */
+export async function setMenuItemAvailability(
+  itemId: string,
+  windows: Pick<
+    MenuAvailabilityWindow,
+    'day_of_week' | 'start_time' | 'end_time'
+  >[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from('menu_availability_windows')
+    .delete()
+    .eq('menu_item_id', itemId)
+
+  if (deleteError) {
+    throw new Error(
+      `Failed to update menu availability: ${deleteError.message}`
+    )
+  }
+
+  if (windows.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('menu_availability_windows')
+    .insert(windows.map(window => ({ ...window, menu_item_id: itemId })))
+
+  if (error) {
+    throw new Error(`Failed to update menu availability: ${error.message}`)
+  }
+}
+
+/**
+ * Replace the services a menu item is served in (none = every service)
+ */
+export async function setMenuItemServices(
+  itemId: string,
+  serviceIds: string[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from('menu_item_services')
+    .delete()
+    .eq('menu_item_id', itemId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update menu services: ${deleteError.message}`)
+  }
+
+  if (serviceIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('menu_item_services')
+    .insert(
+      serviceIds.map(serviceId => ({
+        menu_item_id: itemId,
+        service_id: serviceId,
+      }))
+    )
+
+  if (error) {
+    throw new Error(`Failed to update menu services: ${error.message}`)
+  }
+}
+
+/**
+ * Station an item should be prepared at: item override, then category default
+ */
+export function resolveItemStationType(
+  item: Pick<MenuItemWithDetails, 'station_type' | 'category'>
+): StationType | null {
+  return item.station_type ?? item.category?.station_type ?? null
+}
+
+/**
+ * Course a line is served in. Drinks go out as soon as they're made, so they
+ * have no course; food defaults to its category's course, else the entrée.
+ */
+export function resolveItemCourse(
+  item: Pick<MenuItemWithDetails, 'type' | 'category'>
+): Course | null {
+  if (item.type === 'drink') {
+    return null
+  }
+  return item.category?.default_course ?? 'entree'
+}
+
+/**
+ * Whether an item can be ordered at the given moment. Items without
+ * availability windows are available whenever they are not 86'd.
+ */
+export function isMenuItemAvailableAt(
+  item: Pick<MenuItemWithDetails, 'is_available' | 'availability'>,
+  at: Date = new Date()
+): boolean {
+  if (!item.is_available) {
+    return false
+  }
+
+  const windows = item.availability || []
+  if (windows.length === 0) {
+    return true
+  }
+
+  const day = at.getDay()
+  const minutes = at.getHours() * 60 + at.getMinutes()
+
+  return windows.some(window => {
+    if (window.day_of_week !== null && window.day_of_week !== day) {
+      return false
+    }
+    return (
+      minutes >= timeToMinutes(window.start_time) &&
+      minutes < timeToMinutes(window.end_time)
+    )
+  })
+}
+
+/**
+ * Human-readable label for an order line, e.g. "2x Cheeseburger - NO onion, MEDIUM RARE"
+ */
+export function formatOrderLine(line: {
+  name: string
+  quantity?: number
+  modifiers?: OrderItemModifier[]
+}): string {
+  const quantity = line.quantity && line.quantity > 1 ? `${line.quantity}x ` : ''
+  const modifiers = (line.modifiers || []).map(formatModifier).join(', ')
+  return `${quantity}${line.name}${modifiers ? ` - ${modifiers}` : ''}`
+}
+
+// "HH:MM" or "HH:MM:SS" → minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
@@ -0,0 +1,154 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type { OrderEventType, Tables } from '@/types/database'
+
+export type OrderEvent = Tables<'order_events'> & {
+  actor_name: string | null
+  station_name: string | null
+}
+
+const DEVICE_ID_KEY = 'plater-device-id'
+
+/**
+ * Stable ID for this browser, so the audit trail can tell which tablet or
+ * KDS screen made a change. Null when rendered on the server.
+ */
+export function getDeviceId(): string | null {
+  if (typeof window === 'undefined') {
+    return null
+  }
+
+  try {
+    let deviceId = window.localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      window.localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+  } catch {
+    // Private browsing can refuse storage; log the change without a device
+    return null
+  }
+}
+
+/**
+ * Columns to add to an orders or kds_order_routing write so its event
+ * records the device and reason. The database moves them into
+ * order_events and clears them.
+ */
+export function withEventContext(reason?: string | null): {
+  event_device_id: string | null
+  event_reason: string | null
+} {
+  return {
+    event_device_id: getDeviceId(),
+    event_reason: reason?.trim() || null,
+  }
+}
+
+const EVENT_LABELS: Record<OrderEventType, string> = {
+  created: 'Order placed',
+  status_changed: 'Status changed',
+  deleted: 'Order deleted',
+  routed: 'Sent to station',
+  started: 'Prep started',
+  bumped: 'Bumped',
+  recalled: 'Recalled',
+  held: 'Held for course',
+  fired: 'Course fired',
+  priority_changed: 'Priority changed',
+}
+
+const STATE_LABELS: Record<string, string> = {
+  new: 'New',
+  in_progress: 'In progress',
+  ready: 'Ready',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  bumped: 'Bumped',
+  held: 'Held',
+}
+
+function formatState(state: string | null): string | null {
+  return state ? STATE_LABELS[state] || state : null
+}
+
+/**
+ * One-line summary of an event for the order timeline, e.g.
+ * "Bumped at Grill" or "Status changed: New → Ready"
+ */
+export function describeOrderEvent(
+  event: Pick<
+    OrderEvent,
+    'event_type' | 'previous_state' | 'new_state' | 'metadata' | 'station_name'
+  >
+): string {
+  let summary = EVENT_LABELS[event.event_type] || event.event_type
+
+  if (event.station_name) {
+    summary += ` at ${event.station_name}`
+  }
+
+  if (event.event_type === 'priority_changed' && event.metadata) {
+    return `${summary}: ${event.metadata.from} → ${event.metadata.to}`
+  }
+
+  if (event.event_type === 'status_changed') {
+    const from = formatState(event.previous_state)
+    const to = formatState(event.new_state)
+    return from ? `${summary}: ${from} → ${to}` : `${summary}: ${to}`
+  }
+
+  return summary
+}
+
+/**
+ * Everything that has happened to an order and its station tickets, oldest
+ * first, with who did it and where
+ */
+export async function fetchOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch order events: ${error.message}`)
+  }
+
+  const events = (data || []) as Tables<'order_events'>[]
+  const actorIds = Array.from(
+    new Set(events.map(event => event.actor_id).filter((id): id is string => !!id))
+  )
+  const stationIds = Array.from(
+    new Set(events.map(event => event.station_id).filter((id): id is string => !!id))
+  )
+
+  const [profiles, stations] = await Promise.all([
+    actorIds.length > 0
+      ? supabase.from('profiles').select('user_id, name').in('user_id', actorIds)
+      : Promise.resolve({ data: [], error: null }),
+    stationIds.length > 0
+      ? supabase.from('kds_stations').select('id, name').in('id', stationIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const actorNames = new Map(
+    ((profiles.data || []) as Pick<Tables<'profiles'>, 'user_id' | 'name'>[]).map(
+      profile => [profile.user_id, profile.name]
+    )
+  )
+  const stationNames = new Map(
+    ((stations.data || []) as Pick<Tables<'kds_stations'>, 'id' | 'name'>[]).map(
+      station => [station.id, station.name]
+    )
+  )
+
+  return events.map(event => ({
+    ...event,
+    actor_name: event.actor_id ? actorNames.get(event.actor_id) || null : null,
+    station_name: event.station_id ? stationNames.get(event.station_id) || null : null,
+  }))
+}
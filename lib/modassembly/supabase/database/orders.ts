@@ -1,5 +1,51 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
-import { intelligentOrderRouting } from './kds'
+import type {
+  MenuItemWithDetails,
+  OrderItem,
+  OrderItemModifier,
+  OrderLineInput,
+  ResidentCareSnapshot,
+  Tables,
+} from '@/types/database'
+import { resolveOrderPhrases } from '@/lib/modassembly/openai/menu-item-resolver'
+import { getModifierThickness, normalizeModifier } from '@/lib/order-modifiers'
+import {
+  createThicknessRequiredError,
+  findThicknessInText,
+  needsThickenedFluids,
+} from '@/lib/iddsi'
+import { intelligentOrderRouting } from './kds/routing'
+import {
+  fetchMenuItems,
+  fetchMenuItemsByIds,
+  formatOrderLine,
+  isMenuItemAvailableAt,
+  resolveItemCourse,
+} from './menu'
+import {
+  type DietaryCheckItem,
+  type DietaryViolation,
+  type DietaryWarning,
+  checkDietaryConflicts,
+  createDietaryViolationError,
+  createUnrecognisedRestrictionWarnings,
+  createUnverifiedItemWarnings,
+  fetchResidentDietaryRestrictions,
+  recordDietaryViolation,
+} from './dietary'
+import {
+  createOutOfServiceError,
+  getCurrentService,
+  isItemServedIn,
+} from './meal-services'
+import { withEventContext } from './order-events'
+import { fetchResidentCareSnapshot } from './residents'
+import {
+  createOutOfSectionError,
+  fetchTableOwner,
+  toServiceDate,
+} from './server-sections'
+import { getUserName } from './users'
 
 interface OrderRow {
   id: string
@@ -14,6 +60,12 @@ interface OrderRow {
   special_requests?: string
   estimated_prep_time?: number
   actual_prep_time?: number
+  dietary_alerts?: string[]
+  dietary_override_reason?: string | null
+  service_id?: string | null
+  section_server_id?: string | null
+  resident_care?: ResidentCareSnapshot | null
+  idempotency_key?: string | null
   created_at: string
   tables: {
     label: string
@@ -21,11 +73,15 @@ interface OrderRow {
   seats: {
     label: string
   }
+  order_items?: OrderItem[]
 }
 
 export interface Order extends OrderRow {
   table: string
   seat: string
+  // From createOrder: items the dietary check could not verify, for the
+  // server to check by hand
+  dietary_warnings?: DietaryWarning[]
 }
 
 export async function fetchRecentOrders(limit = 5): Promise<Order[]> {
@@ -36,7 +92,8 @@ export async function fetchRecentOrders(limit = 5): Promise<Order[]> {
       `
       *,
       tables!inner(label),
-      seats!inner(label)
+      seats!inner(label),
+      order_items(*)
     `
     )
     .order('created_at', { ascending: false })
@@ -59,14 +116,30 @@ export async function createOrder(orderData: {
   seat_id: string
   resident_id: string
   server_id: string
-  items: string[]
+  items?: string[]
+  lines?: OrderLineInput[]
   transcript: string
   type: 'food' | 'drink'
   special_requests?: string
   estimated_prep_time?: number
   actual_prep_time?: number
+  // Required to submit an order that conflicts with the resident's restrictions
+  dietary_override_reason?: string | null
+  // Send items that are not on the current service's menu (warn policy only)
+  allow_out_of_service?: boolean
+  // Take an order at a table in another server's section
+  allow_out_of_section?: boolean
+  // Client-generated key: replaying the same order returns the first one
+  idempotency_key?: string | null
 }): Promise<Order> {
   const supabase = createClient()
+  const {
+    lines = [],
+    dietary_override_reason,
+    allow_out_of_service,
+    allow_out_of_section,
+    ...orderFields
+  } = orderData
 
   // Validate required data
   if (
@@ -80,18 +153,146 @@ export async function createOrder(orderData: {
     )
   }
 
+  if (lines.length === 0 && (!orderData.items || orderData.items.length === 0)) {
+    throw new Error('Order must contain at least one item')
+  }
+
+  // A replayed submission (e.g. from the offline outbox after a lost
+  // response) gets the order that was already created
+  if (orderData.idempotency_key) {
+    const existing = await fetchOrderByIdempotencyKey(orderData.idempotency_key)
+    if (existing) {
+      return existing
+    }
+  }
+
+  const { rows: orderItems, menuItems } = await buildOrderItems(lines)
+
+  // Tag the order with the running service. Items off that service's menu
+  // are refused or need confirming, depending on the service's policy.
+  const service = await getCurrentService()
+  const offMenu = Array.from(menuItems.values()).filter(
+    item => !isItemServedIn(item, service?.id ?? null)
+  )
+  if (offMenu.length > 0) {
+    const blocking = service?.out_of_service_policy === 'block'
+    if (blocking || !allow_out_of_service) {
+      throw createOutOfServiceError(
+        offMenu.map(item => item.name),
+        service && { id: service.id, name: service.name },
+        blocking
+      )
+    }
+  }
+
+  // Orders count for the server whose section the table is in; taking one
+  // at someone else's table needs confirming
+  const sectionServerId = await fetchTableOwner(orderData.table_id, {
+    date: toServiceDate(),
+    serviceId: service?.id ?? null,
+  })
+  if (
+    sectionServerId &&
+    sectionServerId !== orderData.server_id &&
+    !allow_out_of_section
+  ) {
+    throw createOutOfSectionError(orderData.table_id, {
+      id: sectionServerId,
+      name: await getUserName(sectionServerId),
+    })
+  }
+
+  const [restrictions, residentCare] = await Promise.all([
+    fetchResidentDietaryRestrictions(orderData.resident_id),
+    fetchResidentCareSnapshot(orderData.resident_id),
+  ])
+
+  // Texture-modified diets: every line carries the resident's IDDSI level,
+  // and drinks without the required thickness are refused outright
+  const levelledItems = orderItems.map(line => {
+    const drink = isDrinkItem(menuItems.get(line.menu_item_id!)!, orderData.type)
+    return {
+      ...line,
+      texture_diet: drink ? null : (residentCare?.texture_diet ?? null),
+      fluid_thickness: drink ? (residentCare?.fluid_thickness ?? null) : null,
+    }
+  })
+  const requiredThickness = residentCare?.fluid_thickness ?? null
+  if (needsThickenedFluids(requiredThickness)) {
+    const unthickenedLines = levelledItems.filter(
+      line =>
+        line.fluid_thickness &&
+        getModifierThickness(line.modifiers) !== requiredThickness
+    )
+    const unthickenedItems =
+      levelledItems.length === 0 && orderData.type === 'drink'
+        ? (orderData.items || []).filter(
+            item => findThicknessInText(item) !== requiredThickness
+          )
+        : []
+    if (unthickenedLines.length > 0 || unthickenedItems.length > 0) {
+      throw createThicknessRequiredError(
+        [...unthickenedLines.map(line => line.name), ...unthickenedItems],
+        requiredThickness,
+        unthickenedLines.map(line => line.menu_item_id!)
+      )
+    }
+  }
+
+  // Dietary check: conflicts block the order unless the server gives a reason
+  const overrideReason = dietary_override_reason?.trim() || null
+  let violations: DietaryViolation[] = []
+  let dietaryWarnings: DietaryWarning[] = []
+  if (restrictions.length > 0) {
+    let checkItems: DietaryCheckItem[]
+    if (orderItems.length > 0) {
+      checkItems = orderItems.map(line =>
+        toDietaryCheckItem(menuItems.get(line.menu_item_id!)!)
+      )
+    } else {
+      const matched = await matchFreeTextItems(orderData.items || [])
+      checkItems = matched.items
+      dietaryWarnings = createUnverifiedItemWarnings(matched.unverified)
+    }
+    dietaryWarnings.push(...createUnrecognisedRestrictionWarnings(restrictions))
+    violations = checkDietaryConflicts(restrictions, checkItems)
+    if (violations.length > 0 && !overrideReason) {
+      throw createDietaryViolationError(violations)
+    }
+  }
+
   const { data, error } = await supabase
     .from('orders')
     .insert([
       {
-        ...orderData,
+        ...orderFields,
+        // Keep the display list in sync with the structured lines
+        items:
+          orderItems.length > 0
+            ? orderItems.map(line => formatOrderLine(line))
+            : orderData.items,
+        dietary_alerts: restrictions,
+        dietary_override_reason: violations.length > 0 ? overrideReason : null,
+        service_id: service?.id ?? null,
+        section_server_id: sectionServerId,
+        resident_care: residentCare,
+        // Route once the catalog lines below are in, not from the display list
+        awaiting_lines: orderItems.length > 0,
         status: 'new',
+        ...withEventContext(),
       },
     ])
     .select('*')
     .single()
 
   if (error) {
+    // Lost the race with a concurrent replay of the same order
+    if (error.code === '23505' && orderData.idempotency_key) {
+      const existing = await fetchOrderByIdempotencyKey(orderData.idempotency_key)
+      if (existing) {
+        return existing
+      }
+    }
     throw new Error(`Failed to create order: ${error.message}`)
   }
 
@@ -99,11 +300,37 @@ export async function createOrder(orderData: {
     throw new Error('No data returned from order creation')
   }
 
-  // Fetch table and seat info separately to build the complete Order object
-  const [tableData, seatData] = await Promise.all([
-    supabase.from('tables').select('label').eq('id', data.table_id).single(),
-    supabase.from('seats').select('label').eq('id', data.seat_id).single(),
-  ])
+  let insertedItems: OrderItem[] = []
+  if (orderItems.length > 0) {
+    const { data: itemRows, error: itemsError } = await supabase
+      .from('order_items')
+      .insert(levelledItems.map(line => ({ ...line, order_id: data.id })))
+      .select('*')
+
+    if (itemsError) {
+      // Don't leave a half-written order behind for the KDS to pick up
+      await supabase.from('orders').delete().eq('id', data.id)
+      throw new Error(`Failed to create order items: ${itemsError.message}`)
+    }
+
+    insertedItems = itemRows || []
+  }
+
+  if (violations.length > 0 && overrideReason) {
+    try {
+      await recordDietaryViolation({
+        orderId: data.id,
+        tableId: data.table_id,
+        seatId: data.seat_id,
+        serverId: data.server_id,
+        violations,
+        overrideReason,
+      })
+    } catch (anomalyError) {
+      // The override reason is already on the order; the anomaly is for follow-up
+      console.error('Failed to record dietary violation:', anomalyError)
+    }
+  }
 
   // Automatically route the order to appropriate KDS stations
   try {
@@ -114,22 +341,171 @@ export async function createOrder(orderData: {
     // Don't fail the order creation if routing fails - this is a secondary operation
   }
 
+  const order = await withTableAndSeat(data, insertedItems)
+  return { ...order, dietary_warnings: dietaryWarnings }
+}
+
+/**
+ * The order already created under an idempotency key, or null
+ */
+async function fetchOrderByIdempotencyKey(key: string): Promise<Order | null> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*, order_items(*)')
+    .eq('idempotency_key', key)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up order: ${error.message}`)
+  }
+
+  return data ? withTableAndSeat(data, data.order_items || []) : null
+}
+
+/**
+ * Fetch table and seat info separately to build the complete Order object
+ */
+async function withTableAndSeat(
+  data: Tables<'orders'>,
+  orderItems: OrderItem[]
+): Promise<Order> {
+  const supabase = createClient()
+  const [tableData, seatData] = await Promise.all([
+    supabase.from('tables').select('label').eq('id', data.table_id).single(),
+    supabase.from('seats').select('label').eq('id', data.seat_id).single(),
+  ])
+
   return {
     ...data,
     table: `Table ${tableData.data?.label || 'Unknown'}`,
     seat: seatData.data?.label || 0,
     items: data.items || [],
+    order_items: orderItems,
   } as Order
 }
 
+/**
+ * Resolve submitted lines against the menu catalog. Unknown or currently
+ * unavailable items are rejected so the kitchen never gets a ticket it can't make.
+ */
+async function buildOrderItems(lines: OrderLineInput[]): Promise<{
+  rows: Omit<
+    OrderItem,
+    | 'id'
+    | 'order_id'
+    | 'texture_diet'
+    | 'fluid_thickness'
+    | 'created_at'
+    | 'updated_at'
+  >[]
+  menuItems: Map<string, MenuItemWithDetails>
+}> {
+  if (lines.length === 0) {
+    return { rows: [], menuItems: new Map() }
+  }
+
+  const menuItems = await fetchMenuItemsByIds(
+    lines.map(line => line.menu_item_id)
+  )
+  const menuItemMap = new Map(menuItems.map(item => [item.id, item]))
+
+  const unknown = lines.filter(line => !menuItemMap.has(line.menu_item_id))
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown menu items: ${unknown.map(line => line.menu_item_id).join(', ')}`
+    )
+  }
+
+  const unavailable = menuItems.filter(item => !isMenuItemAvailableAt(item))
+  if (unavailable.length > 0) {
+    throw new Error(
+      `Menu items not currently available: ${unavailable.map(item => item.name).join(', ')}`
+    )
+  }
+
+  const rows = lines.map((line, index) => {
+    const item = menuItemMap.get(line.menu_item_id)!
+    return {
+      menu_item_id: line.menu_item_id,
+      name: item.name,
+      quantity: Math.max(1, Math.min(50, Math.floor(line.quantity ?? 1))),
+      // Stored structured even when a caller sends plain or kind-less modifiers
+      modifiers: (line.modifiers || [])
+        .map(normalizeModifier)
+        .filter((modifier): modifier is OrderItemModifier => modifier !== null),
+      notes: line.notes?.trim() || null,
+      position: index,
+      course:
+        line.course === undefined ? resolveItemCourse(item) : line.course,
+    }
+  })
+
+  return { rows, menuItems: menuItemMap }
+}
+
+/**
+ * Drinks are thickened for residents on thickened fluids: every line of a
+ * drink order, and drink items on food orders
+ */
+export function isDrinkItem(
+  item: Pick<MenuItemWithDetails, 'type'>,
+  orderType: 'food' | 'drink'
+): boolean {
+  return orderType === 'drink' || item.type === 'drink'
+}
+
+export function toDietaryCheckItem(item: MenuItemWithDetails): DietaryCheckItem {
+  return {
+    menu_item_id: item.id,
+    name: item.name,
+    allergens: item.allergens,
+    diet_tags: item.diet_tags,
+  }
+}
+
+/**
+ * Free-text orders carry no tags; borrow them from confidently matched
+ * catalog items. Anything unmatched can't be checked, so it comes back as
+ * unverified for staff to check by hand.
+ */
+export async function matchFreeTextItems(
+  items: string[],
+  catalog?: MenuItemWithDetails[]
+): Promise<{ items: DietaryCheckItem[]; unverified: string[] }> {
+  if (items.length === 0) {
+    return { items: [], unverified: [] }
+  }
+
+  // Callers checking many orders pass the catalog in to fetch it once
+  const menu = catalog ?? (await fetchMenuItems({ includeUnavailable: true }))
+  const catalogMap = new Map(menu.map(item => [item.id, item]))
+
+  const checkItems: DietaryCheckItem[] = []
+  const unverified: string[] = []
+  for (const line of resolveOrderPhrases(items, menu)) {
+    if (line.match && !line.needsConfirmation) {
+      checkItems.push({
+        ...toDietaryCheckItem(catalogMap.get(line.match.menuItemId)!),
+        name: line.phrase,
+      })
+    } else {
+      unverified.push(line.phrase)
+    }
+  }
+
+  return { items: checkItems, unverified }
+}
+
 export async function updateOrderStatus(
   orderId: string,
-  status: OrderRow['status']
+  status: OrderRow['status'],
+  reason?: string
 ): Promise<void> {
   const supabase = createClient()
   const { error } = await supabase
     .from('orders')
-    .update({ status })
+    .update({ status, ...withEventContext(reason) })
     .eq('id', orderId)
 
   if (error) {
@@ -151,6 +527,7 @@ export async function deleteOrder(orderId: string): Promise<void> {
 export async function getOrders(filters?: {
   status?: OrderRow['status']
   tableId?: string
+  serviceId?: string
   limit?: number
 }): Promise<Order[]> {
   const supabase = createClient()
@@ -161,7 +538,8 @@ export async function getOrders(filters?: {
       `
       *,
       tables!inner(label),
-      seats!inner(label)
+      seats!inner(label),
+      order_items(*)
     `
     )
     .order('created_at', { ascending: false })
@@ -174,6 +552,10 @@ export async function getOrders(filters?: {
     query = query.eq('table_id', filters.tableId)
   }
 
+  if (filters?.serviceId) {
+    query = query.eq('service_id', filters.serviceId)
+  }
+
   if (filters?.limit) {
     query = query.limit(filters.limit)
   }
@@ -200,13 +582,14 @@ export async function updateOrder(
 
   const { data, error } = await supabase
     .from('orders')
-    .update(updates)
+    .update({ ...updates, ...withEventContext() })
     .eq('id', orderId)
     .select(
       `
       *,
       tables!inner(label),
-      seats!inner(label)
+      seats!inner(label),
+      order_items(*)
     `
     )
     .single()
@@ -0,0 +1,224 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type {
+  KDSPrinter,
+  KDSPrinterInsert,
+  KDSPrinterUpdate,
+  PrintJob,
+} from '@/types/database'
+
+export type PrintJobWithDetails = PrintJob & {
+  printer?: Pick<KDSPrinter, 'id' | 'name'> | null
+}
+
+/**
+ * Fetch kitchen printers ordered by name
+ */
+export async function fetchPrinters(): Promise<KDSPrinter[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_printers')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch printers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createPrinter(
+  printer: KDSPrinterInsert
+): Promise<KDSPrinter> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('kds_printers')
+    .insert({ ...printer, name: printer.name.trim(), host: printer.host.trim() })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create printer: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updatePrinter(
+  printerId: string,
+  updates: KDSPrinterUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('kds_printers')
+    .update(updates)
+    .eq('id', printerId)
+
+  if (error) {
+    throw new Error(`Failed to update printer: ${error.message}`)
+  }
+}
+
+export async function deletePrinter(printerId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('kds_printers')
+    .delete()
+    .eq('id', printerId)
+
+  if (error) {
+    throw new Error(`Failed to delete printer: ${error.message}`)
+  }
+}
+
+/**
+ * Send a station's tickets to a printer, or stop printing them with null
+ */
+export async function assignStationPrinter(
+  stationId: string,
+  printerId: string | null
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('kds_stations')
+    .update({ printer_id: printerId })
+    .eq('id', stationId)
+
+  if (error) {
+    throw new Error(`Failed to assign station printer: ${error.message}`)
+  }
+}
+
+/**
+ * Most recent print jobs, newest first
+ */
+export async function fetchRecentPrintJobs(
+  limit = 25
+): Promise<PrintJobWithDetails[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('print_jobs')
+    .select('*, printer:kds_printers!printer_id (id, name)')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch print jobs: ${error.message}`)
+  }
+
+  return (data || []) as PrintJobWithDetails[]
+}
+
+export async function fetchPrintJob(jobId: string): Promise<PrintJob> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('print_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch print job: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Queue a reprint of a station ticket on that station's printer
+ */
+export async function reprintTicket(
+  routingId: string,
+  userId?: string
+): Promise<PrintJob> {
+  const supabase = createClient()
+
+  const { data: routing, error: routingError } = await supabase
+    .from('kds_order_routing')
+    .select('id, station:kds_stations!station_id (printer_id)')
+    .eq('id', routingId)
+    .single()
+
+  if (routingError) {
+    throw new Error(`Failed to load ticket: ${routingError.message}`)
+  }
+
+  const printerId = (routing.station as { printer_id: string | null } | null)
+    ?.printer_id
+  if (!printerId) {
+    throw new Error('This station has no printer assigned')
+  }
+
+  const { data, error } = await supabase
+    .from('print_jobs')
+    .insert({
+      printer_id: printerId,
+      routing_id: routingId,
+      kind: 'reprint',
+      requested_by: userId ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to queue reprint: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Queue a test page for a printer
+ */
+export async function queueTestPrint(
+  printerId: string,
+  userId?: string
+): Promise<PrintJob> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('print_jobs')
+    .insert({
+      printer_id: printerId,
+      kind: 'test',
+      // A test only tells you something if it runs now
+      max_attempts: 1,
+      requested_by: userId ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to queue test print: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts
+ */
+export async function retryPrintJob(jobId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('print_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .eq('id', jobId)
+
+  if (error) {
+    throw new Error(`Failed to retry print job: ${error.message}`)
+  }
+}
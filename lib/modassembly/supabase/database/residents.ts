@@ -0,0 +1,461 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import { parseCsv, toCsv } from '@/lib/utils/csv'
+import { FLUID_THICKNESS_LABELS, TEXTURE_DIET_LABELS } from '@/lib/iddsi'
+import type {
+  ResidentCareSnapshot,
+  ResidentDetails,
+  ResidentDetailsUpdate,
+} from '@/types/database'
+
+const PHOTO_BUCKET = 'resident-photos'
+// Signed photo URLs outlive a service but not a day
+const PHOTO_URL_TTL_SECONDS = 6 * 60 * 60
+
+export type ResidentDirectoryEntry = {
+  id: string
+  name: string
+  dietary_restrictions: string[]
+  details: ResidentDetails | null
+  photo_url: string | null
+}
+
+type ResidentProfileRow = {
+  user_id: string
+  name: string
+  dietary_restrictions: string[] | null
+  details: ResidentDetails | ResidentDetails[] | null
+}
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Every resident with their directory details, by name
+ */
+export async function fetchResidentDirectory(): Promise<ResidentDirectoryEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, name, dietary_restrictions, details:resident_details (*)')
+    .eq('role', 'resident')
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch residents: ${error.message}`)
+  }
+
+  return withPhotoUrls((data || []) as ResidentProfileRow[])
+}
+
+/**
+ * Directory entries for specific residents (guests and unknown IDs are skipped)
+ */
+export async function fetchResidentsByIds(
+  ids: string[]
+): Promise<Map<string, ResidentDirectoryEntry>> {
+  const residentIds = Array.from(new Set(ids.filter(id => uuidRegex.test(id))))
+  if (residentIds.length === 0) {
+    return new Map()
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, name, dietary_restrictions, details:resident_details (*)')
+    .in('user_id', residentIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch residents: ${error.message}`)
+  }
+
+  const entries = await withPhotoUrls((data || []) as ResidentProfileRow[])
+  return new Map(entries.map(entry => [entry.id, entry]))
+}
+
+/**
+ * Residents whose usual seat is this one
+ */
+export async function fetchPreferredSeatResidents(
+  tableId: string,
+  seatNumber: number
+): Promise<string[]> {
+  if (!uuidRegex.test(tableId)) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('resident_details')
+    .select('user_id')
+    .eq('preferred_table_id', tableId)
+    .eq('preferred_seat', seatNumber)
+
+  if (error) {
+    throw new Error(`Failed to fetch preferred seats: ${error.message}`)
+  }
+
+  return (data || []).map(row => row.user_id)
+}
+
+/**
+ * Care details to copy onto an order, or null for guests and residents
+ * without directory details
+ */
+export async function fetchResidentCareSnapshot(
+  residentId: string
+): Promise<ResidentCareSnapshot | null> {
+  if (!uuidRegex.test(residentId)) {
+    return null
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('resident_details')
+    .select('room_number, texture_diet, fluid_thickness, assistance_notes')
+    .eq('user_id', residentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch resident care details: ${error.message}`)
+  }
+
+  return data ? toCareSnapshot(data) : null
+}
+
+export function toCareSnapshot(
+  details: Pick<
+    ResidentDetails,
+    'room_number' | 'texture_diet' | 'fluid_thickness' | 'assistance_notes'
+  >
+): ResidentCareSnapshot {
+  return {
+    room_number: details.room_number,
+    texture_diet: details.texture_diet,
+    fluid_thickness: details.fluid_thickness,
+    assistance_notes: details.assistance_notes?.trim() || null,
+  }
+}
+
+export async function saveResidentDetails(
+  userId: string,
+  details: Omit<ResidentDetailsUpdate, 'user_id'>
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('resident_details')
+    .upsert({ ...details, user_id: userId })
+
+  if (error) {
+    throw new Error(`Failed to save resident details: ${error.message}`)
+  }
+}
+
+export async function updateResidentDietaryRestrictions(
+  userId: string,
+  restrictions: string[]
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      dietary_restrictions: restrictions
+        .map(restriction => restriction.trim())
+        .filter(Boolean),
+    })
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to update dietary restrictions: ${error.message}`)
+  }
+}
+
+/**
+ * Upload a resident's photo and point their directory entry at it
+ */
+export async function uploadResidentPhoto(
+  userId: string,
+  file: File,
+  updatedBy: string | null
+): Promise<void> {
+  const supabase = createClient()
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg'
+  const path = `${userId}/${Date.now()}.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: true })
+
+  if (uploadError) {
+    throw new Error(`Failed to upload photo: ${uploadError.message}`)
+  }
+
+  await saveResidentDetails(userId, { photo_path: path, updated_by: updatedBy })
+}
+
+async function withPhotoUrls(
+  rows: ResidentProfileRow[]
+): Promise<ResidentDirectoryEntry[]> {
+  const entries = rows.map(row => ({
+    id: row.user_id,
+    name: row.name,
+    dietary_restrictions: row.dietary_restrictions || [],
+    // One-to-one embeds come back as an object, older PostgREST returns an array
+    details: (Array.isArray(row.details) ? row.details[0] : row.details) ?? null,
+    photo_url: null as string | null,
+  }))
+
+  const paths = entries
+    .map(entry => entry.details?.photo_path)
+    .filter((path): path is string => !!path)
+  if (paths.length === 0) {
+    return entries
+  }
+
+  const supabase = createClient()
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(paths, PHOTO_URL_TTL_SECONDS)
+
+  if (error) {
+    // Names still identify residents; photos are a convenience
+    console.error('Failed to sign resident photos:', error)
+    return entries
+  }
+
+  const urls = new Map(
+    (data || [])
+      .filter(signed => signed.path && signed.signedUrl)
+      .map(signed => [signed.path!, signed.signedUrl])
+  )
+
+  return entries.map(entry => ({
+    ...entry,
+    photo_url: entry.details?.photo_path
+      ? urls.get(entry.details.photo_path) ?? null
+      : null,
+  }))
+}
+
+// ==============================================================================
+// IMPORT / EXPORT
+// ==============================================================================
+
+const DIRECTORY_COLUMNS = [
+  'name',
+  'room_number',
+  'preferred_table',
+  'preferred_seat',
+  'texture_diet',
+  'fluid_thickness',
+  'dietary_restrictions',
+  'assistance_notes',
+] as const
+
+type DirectoryTable = { id: string; label: string | number }
+
+export type ResidentImportRow = {
+  user_id: string
+  name: string
+  details: Omit<ResidentDetailsUpdate, 'user_id' | 'photo_path'>
+  // Only set when the file has a dietary_restrictions column
+  dietary_restrictions?: string[]
+}
+
+export type ResidentImportError = {
+  line: number
+  name: string
+  reason: string
+}
+
+/**
+ * Directory as CSV. Dietary restrictions are separated by semicolons.
+ */
+export function exportResidentDirectoryCsv(
+  residents: ResidentDirectoryEntry[],
+  tables: DirectoryTable[]
+): string {
+  const tableLabels = new Map(tables.map(table => [table.id, String(table.label)]))
+
+  return toCsv([
+    [...DIRECTORY_COLUMNS],
+    ...residents.map(resident => [
+      resident.name,
+      resident.details?.room_number,
+      resident.details?.preferred_table_id
+        ? tableLabels.get(resident.details.preferred_table_id)
+        : '',
+      resident.details?.preferred_seat,
+      resident.details?.texture_diet,
+      resident.details?.fluid_thickness,
+      resident.dietary_restrictions.join('; '),
+      resident.details?.assistance_notes,
+    ]),
+  ])
+}
+
+/**
+ * Match an import file to existing residents by name. Rows for unknown
+ * residents or with invalid values are reported rather than imported;
+ * residents themselves are created through sign-up, not the import.
+ */
+export function parseResidentDirectoryCsv(
+  text: string,
+  residents: Pick<ResidentDirectoryEntry, 'id' | 'name'>[],
+  tables: DirectoryTable[]
+): { rows: ResidentImportRow[]; errors: ResidentImportError[] } {
+  const [header, ...lines] = parseCsv(text)
+  if (!header) {
+    return { rows: [], errors: [] }
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase().replace(/\s+/g, '_'))
+  if (!columns.includes('name')) {
+    return {
+      rows: [],
+      errors: [{ line: 1, name: '', reason: 'Missing "name" column' }],
+    }
+  }
+
+  const residentsByName = new Map(
+    residents.map(resident => [normalizeName(resident.name), resident])
+  )
+  const tablesByLabel = new Map(
+    tables.map(table => [String(table.label).trim().toLowerCase(), table])
+  )
+
+  const rows: ResidentImportRow[] = []
+  const errors: ResidentImportError[] = []
+
+  lines.forEach((cells, index) => {
+    const line = index + 2
+    const value = (column: (typeof DIRECTORY_COLUMNS)[number]) => {
+      const position = columns.indexOf(column)
+      return position === -1 ? undefined : (cells[position] ?? '').trim()
+    }
+    const name = value('name') || ''
+    const fail = (reason: string) => errors.push({ line, name, reason })
+
+    const resident = residentsByName.get(normalizeName(name))
+    if (!resident) {
+      fail('No resident with this name')
+      return
+    }
+
+    const texture = parseChoice(value('texture_diet'), TEXTURE_DIET_LABELS)
+    if (texture === undefined) {
+      fail(`Unknown texture diet "${value('texture_diet')}"`)
+      return
+    }
+
+    const fluid = parseChoice(value('fluid_thickness'), FLUID_THICKNESS_LABELS)
+    if (fluid === undefined) {
+      fail(`Unknown fluid thickness "${value('fluid_thickness')}"`)
+      return
+    }
+
+    const tableLabel = value('preferred_table')
+    const table = tableLabel
+      ? tablesByLabel.get(tableLabel.toLowerCase())
+      : null
+    if (table === undefined) {
+      fail(`Unknown table "${tableLabel}"`)
+      return
+    }
+
+    const seatText = value('preferred_seat')
+    const seat = seatText ? Number(seatText) : null
+    if (seat !== null && (!Number.isInteger(seat) || seat < 1)) {
+      fail(`Invalid seat "${seatText}"`)
+      return
+    }
+    if (seat !== null && !table) {
+      fail('A preferred seat needs a preferred table')
+      return
+    }
+
+    const details: ResidentImportRow['details'] = {}
+    if (value('room_number') !== undefined) {
+      details.room_number = value('room_number') || null
+    }
+    if (tableLabel !== undefined) {
+      details.preferred_table_id = table?.id ?? null
+    }
+    if (seatText !== undefined) {
+      details.preferred_seat = seat
+    }
+    if (value('texture_diet') !== undefined) {
+      details.texture_diet = texture
+    }
+    if (value('fluid_thickness') !== undefined) {
+      details.fluid_thickness = fluid
+    }
+    if (value('assistance_notes') !== undefined) {
+      details.assistance_notes = value('assistance_notes') || null
+    }
+
+    const restrictions = value('dietary_restrictions')
+    rows.push({
+      user_id: resident.id,
+      name: resident.name,
+      details,
+      dietary_restrictions:
+        restrictions === undefined
+          ? undefined
+          : restrictions
+              .split(';')
+              .map(restriction => restriction.trim())
+              .filter(Boolean),
+    })
+  })
+
+  return { rows, errors }
+}
+
+/**
+ * Save parsed import rows; returns how many residents were updated
+ */
+export async function importResidentDirectory(
+  rows: ResidentImportRow[],
+  updatedBy: string | null
+): Promise<number> {
+  for (const row of rows) {
+    await saveResidentDetails(row.user_id, {
+      ...row.details,
+      updated_by: updatedBy,
+    })
+    if (row.dietary_restrictions) {
+      await updateResidentDietaryRestrictions(
+        row.user_id,
+        row.dietary_restrictions
+      )
+    }
+  }
+  return rows.length
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+// Accepts the stored value ("minced_moist") or its label ("Minced & moist");
+// blank means none, undefined means unrecognised
+function parseChoice<T extends string>(
+  text: string | undefined,
+  labels: Record<T, string>
+): T | null | undefined {
+  if (!text) {
+    return null
+  }
+  const wanted = text.toLowerCase().replace(/[^a-z]/g, '')
+  return (Object.keys(labels) as T[]).find(
+    key =>
+      key.replace(/_/g, '') === wanted ||
+      labels[key].toLowerCase().replace(/[^a-z]/g, '') === wanted
+  )
+}
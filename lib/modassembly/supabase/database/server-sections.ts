@@ -0,0 +1,387 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type { Order, SectionAssignment, TableTransfer } from '@/types/database'
+import { getCurrentService } from './meal-services'
+
+/**
+ * A service on a date: what a section assignment or table transfer covers.
+ * A null service is the whole day.
+ */
+export type Shift = {
+  date: string
+  serviceId: string | null
+}
+
+export type SectionTable = {
+  id: string
+  zone_id: string | null
+}
+
+export type ServerShiftMetrics = {
+  serverId: string
+  tables: number
+  // Orders at the server's tables, whoever took them
+  orders: number
+  openOrders: number
+  // Orders the server took at someone else's tables
+  coveredOrders: number
+  transfersIn: number
+  transfersOut: number
+}
+
+type MetricsOrder = Pick<Order, 'server_id' | 'section_server_id' | 'status'>
+
+const CLOSED_STATUSES = ['delivered', 'cancelled']
+
+/**
+ * YYYY-MM-DD in local time, like the service calendar
+ */
+export function toServiceDate(at: Date = new Date()): string {
+  const month = String(at.getMonth() + 1).padStart(2, '0')
+  const day = String(at.getDate()).padStart(2, '0')
+  return `${at.getFullYear()}-${month}-${day}`
+}
+
+export async function getCurrentShift(at: Date = new Date()): Promise<Shift> {
+  const service = await getCurrentService(at)
+  return { date: toServiceDate(at), serviceId: service?.id ?? null }
+}
+
+/**
+ * Assignments that apply to a shift: its own and the whole-day ones
+ */
+export async function fetchSectionAssignments(
+  shift: Shift
+): Promise<SectionAssignment[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('section_assignments')
+    .select('*')
+    .eq('service_date', shift.date)
+  query = shift.serviceId
+    ? query.or(`service_id.is.null,service_id.eq.${shift.serviceId}`)
+    : query.is('service_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch section assignments: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Give a section to a server for the shift, or clear it with null
+ */
+export async function setSectionAssignment(
+  shift: Shift,
+  zoneId: string,
+  serverId: string | null,
+  assignedBy?: string
+): Promise<void> {
+  const supabase = createClient()
+
+  let remove = supabase
+    .from('section_assignments')
+    .delete()
+    .eq('zone_id', zoneId)
+    .eq('service_date', shift.date)
+  remove = shift.serviceId
+    ? remove.eq('service_id', shift.serviceId)
+    : remove.is('service_id', null)
+
+  const { error: deleteError } = await remove
+
+  if (deleteError) {
+    throw new Error(
+      `Failed to update section assignment: ${deleteError.message}`
+    )
+  }
+
+  if (!serverId) {
+    return
+  }
+
+  const { error } = await supabase.from('section_assignments').insert({
+    zone_id: zoneId,
+    server_id: serverId,
+    service_date: shift.date,
+    service_id: shift.serviceId,
+    assigned_by: assignedBy ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update section assignment: ${error.message}`)
+  }
+}
+
+/**
+ * Repeat one shift's assignments in another, replacing what it had for the
+ * same sections
+ */
+export async function copySectionAssignments(
+  from: Shift,
+  to: Shift,
+  assignedBy?: string
+): Promise<number> {
+  const source = (await fetchSectionAssignments(from)).filter(
+    assignment => assignment.service_id === from.serviceId
+  )
+
+  for (const assignment of source) {
+    await setSectionAssignment(
+      to,
+      assignment.zone_id,
+      assignment.server_id,
+      assignedBy
+    )
+  }
+
+  return source.length
+}
+
+/**
+ * Transfers made during a shift, oldest first
+ */
+export async function fetchTableTransfers(
+  shift: Shift,
+  tableIds?: string[]
+): Promise<TableTransfer[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('table_transfers')
+    .select('*')
+    .eq('service_date', shift.date)
+    .order('created_at', { ascending: true })
+  query = shift.serviceId
+    ? query.eq('service_id', shift.serviceId)
+    : query.is('service_id', null)
+  if (tableIds) {
+    query = query.in('table_id', tableIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch table transfers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Hand a table to another server for the rest of the shift
+ */
+export async function transferTable(transfer: {
+  tableId: string
+  fromServerId: string | null
+  toServerId: string
+  transferredBy: string
+  shift: Shift
+  reason?: string
+}): Promise<TableTransfer> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('table_transfers')
+    .insert({
+      table_id: transfer.tableId,
+      from_server_id: transfer.fromServerId,
+      to_server_id: transfer.toServerId,
+      service_date: transfer.shift.date,
+      service_id: transfer.shift.serviceId,
+      reason: transfer.reason?.trim() || null,
+      transferred_by: transfer.transferredBy,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to transfer table: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Server owning each table: the latest transfer, else the server assigned
+ * the table's section. Service assignments win over whole-day ones. Tables
+ * without an owner are left out.
+ */
+export function resolveTableOwners(
+  tables: SectionTable[],
+  assignments: SectionAssignment[],
+  transfers: TableTransfer[]
+): Map<string, string> {
+  const sectionServers = new Map<string, string>()
+  // Whole-day rows first so the service's own rows overwrite them
+  const byScope = [
+    ...assignments.filter(assignment => assignment.service_id === null),
+    ...assignments.filter(assignment => assignment.service_id !== null),
+  ]
+  byScope.forEach(assignment =>
+    sectionServers.set(assignment.zone_id, assignment.server_id)
+  )
+
+  const owners = new Map<string, string>()
+  tables.forEach(table => {
+    const server = table.zone_id && sectionServers.get(table.zone_id)
+    if (server) {
+      owners.set(table.id, server)
+    }
+  })
+
+  const latestLast = [...transfers].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  )
+  latestLast.forEach(transfer =>
+    owners.set(transfer.table_id, transfer.to_server_id)
+  )
+
+  return owners
+}
+
+/**
+ * Table owners for a shift, limited to the given tables if any
+ */
+export async function fetchTableOwners(
+  shift: Shift,
+  tableIds?: string[]
+): Promise<Map<string, string>> {
+  const supabase = createClient()
+
+  let tablesQuery = supabase.from('tables').select('id, zone_id')
+  if (tableIds) {
+    tablesQuery = tablesQuery.in('id', tableIds)
+  }
+
+  const [tablesResult, assignments, transfers] = await Promise.all([
+    tablesQuery,
+    fetchSectionAssignments(shift),
+    fetchTableTransfers(shift, tableIds),
+  ])
+
+  if (tablesResult.error) {
+    throw new Error(`Failed to fetch tables: ${tablesResult.error.message}`)
+  }
+
+  return resolveTableOwners(tablesResult.data || [], assignments, transfers)
+}
+
+export async function fetchTableOwner(
+  tableId: string,
+  shift: Shift
+): Promise<string | null> {
+  return (await fetchTableOwners(shift, [tableId])).get(tableId) ?? null
+}
+
+/**
+ * Per-server totals for a shift. Orders count for the server whose section
+ * the table was in when they were placed, falling back to whoever took them.
+ */
+export function summarizeServerMetrics(
+  owners: Map<string, string>,
+  orders: MetricsOrder[],
+  transfers: TableTransfer[]
+): ServerShiftMetrics[] {
+  const metrics = new Map<string, ServerShiftMetrics>()
+  const forServer = (serverId: string) => {
+    let entry = metrics.get(serverId)
+    if (!entry) {
+      entry = {
+        serverId,
+        tables: 0,
+        orders: 0,
+        openOrders: 0,
+        coveredOrders: 0,
+        transfersIn: 0,
+        transfersOut: 0,
+      }
+      metrics.set(serverId, entry)
+    }
+    return entry
+  }
+
+  owners.forEach(serverId => forServer(serverId).tables++)
+
+  orders.forEach(order => {
+    const owner = forServer(order.section_server_id ?? order.server_id)
+    owner.orders++
+    if (!CLOSED_STATUSES.includes(order.status)) {
+      owner.openOrders++
+    }
+    const covered =
+      order.section_server_id && order.section_server_id !== order.server_id
+    if (covered) {
+      forServer(order.server_id).coveredOrders++
+    }
+  })
+
+  transfers.forEach(transfer => {
+    forServer(transfer.to_server_id).transfersIn++
+    if (transfer.from_server_id) {
+      forServer(transfer.from_server_id).transfersOut++
+    }
+  })
+
+  return Array.from(metrics.values()).sort((a, b) => b.orders - a.orders)
+}
+
+export async function fetchServerMetrics(
+  shift: Shift
+): Promise<ServerShiftMetrics[]> {
+  const supabase = createClient()
+
+  // Service dates are local, so the day is bounded in local time
+  const dayStart = new Date(`${shift.date}T00:00:00`)
+  const dayEnd = new Date(dayStart)
+  dayEnd.setDate(dayEnd.getDate() + 1)
+
+  let ordersQuery = supabase
+    .from('orders')
+    .select('server_id, section_server_id, status')
+    .gte('created_at', dayStart.toISOString())
+    .lt('created_at', dayEnd.toISOString())
+  if (shift.serviceId) {
+    ordersQuery = ordersQuery.eq('service_id', shift.serviceId)
+  }
+
+  const [owners, transfers, ordersResult] = await Promise.all([
+    fetchTableOwners(shift),
+    fetchTableTransfers(shift),
+    ordersQuery,
+  ])
+
+  if (ordersResult.error) {
+    throw new Error(`Failed to fetch orders: ${ordersResult.error.message}`)
+  }
+
+  return summarizeServerMetrics(owners, ordersResult.data || [], transfers)
+}
+
+export interface OutOfSectionError extends Error {
+  code: 'OUT_OF_SECTION'
+  tableId: string
+  owner: { id: string; name: string | null }
+}
+
+export function createOutOfSectionError(
+  tableId: string,
+  owner: { id: string; name: string | null }
+): OutOfSectionError {
+  return Object.assign(
+    new Error(`Table is in ${owner.name ?? 'another server'}'s section`),
+    { code: 'OUT_OF_SECTION' as const, tableId, owner }
+  )
+}
+
+export function isOutOfSectionError(
+  error: unknown
+): error is OutOfSectionError {
+  return (
+    error instanceof Error &&
+    (error as Partial<OutOfSectionError>).code === 'OUT_OF_SECTION'
+  )
+}
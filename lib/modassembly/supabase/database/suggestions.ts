@@ -10,6 +10,23 @@
 
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { sanitizeOrderItems } from '@/lib/utils/security'
+import type {
+  OrderItem,
+  OrderLineInput,
+  ResidentCareSnapshot,
+} from '@/types/database'
+import {
+  type DietaryCheckItem,
+  checkDietaryConflicts,
+  fetchResidentDietaryRestrictions,
+} from './dietary'
+import { fetchMenuItems, isMenuItemAvailableAt } from './menu'
+import { matchFreeTextItems, toDietaryCheckItem } from './orders'
+import {
+  fetchPreferredSeatResidents,
+  fetchResidentsByIds,
+  toCareSnapshot,
+} from './residents'
 
 type OrderSuggestion = {
   items: string[]
@@ -66,7 +83,9 @@ export async function getOrderSuggestions(
     .slice(0, Math.max(1, Math.min(10, _limit)))
 }
 
-// Quick single-item suggestions for autocomplete
+// Quick single-item suggestions for autocomplete.
+// Counts catalog order lines by menu item (weighted by quantity); orders
+// placed before the menu catalog fall back to their free-text items.
 export async function getPopularItems(
   orderType: 'food' | 'drink' = 'food',
   _limit: number = 10
@@ -75,7 +94,7 @@ export async function getPopularItems(
 
   const { data: orders } = await supabase
     .from('orders')
-    .select('items')
+    .select('items, order_items(name, quantity, menu_item_id)')
     .eq('type', orderType)
     .gte(
       'created_at',
@@ -90,6 +109,16 @@ export async function getPopularItems(
   const itemCounts = new Map<string, number>()
 
   for (const order of orders) {
+    if (Array.isArray(order.order_items) && order.order_items.length > 0) {
+      for (const line of order.order_items) {
+        const [name] = sanitizeOrderItems([line.name])
+        if (name) {
+          itemCounts.set(name, (itemCounts.get(name) || 0) + (line.quantity || 1))
+        }
+      }
+      continue
+    }
+
     if (!Array.isArray(order.items)) {
       continue
     }
@@ -106,20 +135,408 @@ export async function getPopularItems(
     .map(([item]) => item)
 }
 
-// Placeholder functions for resident suggestions (simplified)
+export type MealPeriod = 'breakfast' | 'lunch' | 'dinner'
+
+export function getMealPeriod(hour: number): MealPeriod {
+  if (hour < 11) {
+    return 'breakfast'
+  }
+  if (hour < 17) {
+    return 'lunch'
+  }
+  return 'dinner'
+}
+
+export type ResidentSuggestion = {
+  resident_id: string
+  name: string
+  dietary_restrictions: string[]
+  // Meals at this seat in this meal period (seat suggestions) or meals in
+  // this period anywhere (time suggestions)
+  visits: number
+  score: number
+  // Directory details: the seat is this resident's usual seat, their photo
+  // and what the kitchen needs to know
+  preferred?: boolean
+  photo_url?: string | null
+  care?: ResidentCareSnapshot | null
+}
+
+type ResidentVisit = {
+  resident_id: string
+  created_at: string
+  seats?: { label: number } | null
+}
+
+type RankedResident = Pick<
+  ResidentSuggestion,
+  'resident_id' | 'visits' | 'score' | 'preferred'
+>
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Score residents by past meals at a table. A meal is one resident, day and
+ * meal period, however many orders it took. Meals at this seat count fully,
+ * elsewhere at the table a quarter; meals in another period count half.
+ */
+export function rankSeatResidents(
+  orders: ResidentVisit[],
+  seatNumber: number,
+  period: MealPeriod
+): RankedResident[] {
+  const seen = new Set<string>()
+  const ranking = new Map<string, RankedResident>()
+
+  for (const order of orders) {
+    // Guests have no profile to predict
+    if (!uuidRegex.test(order.resident_id)) {
+      continue
+    }
+
+    const at = new Date(order.created_at)
+    const orderPeriod = getMealPeriod(at.getHours())
+    const sameSeat = order.seats?.label === seatNumber
+    const mealKey = `${order.resident_id}|${at.toDateString()}|${orderPeriod}|${sameSeat}`
+    if (seen.has(mealKey)) {
+      continue
+    }
+    seen.add(mealKey)
+
+    const entry = ranking.get(order.resident_id) || {
+      resident_id: order.resident_id,
+      visits: 0,
+      score: 0,
+    }
+    entry.score += (sameSeat ? 1 : 0.25) * (orderPeriod === period ? 1 : 0.5)
+    if (sameSeat && orderPeriod === period) {
+      entry.visits += 1
+    }
+    ranking.set(order.resident_id, entry)
+  }
+
+  return Array.from(ranking.values()).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * The resident to pre-select: the only resident whose usual seat this is,
+ * or one who has sat here at this meal more than once and more often than
+ * anyone else
+ */
+export function getPredictedResident(
+  suggestions: ResidentSuggestion[]
+): ResidentSuggestion | null {
+  const [top, runnerUp] = suggestions
+  if (top?.preferred) {
+    return runnerUp?.preferred ? null : top
+  }
+  if (!top || top.visits < 2 || (runnerUp && runnerUp.visits >= top.visits)) {
+    return null
+  }
+  return top
+}
+
+async function withResidentProfiles(
+  ranked: RankedResident[],
+  limit: number
+): Promise<ResidentSuggestion[]> {
+  if (ranked.length === 0) {
+    return []
+  }
+
+  const candidates = ranked.slice(0, limit * 2)
+  const residents = await fetchResidentsByIds(
+    candidates.map(candidate => candidate.resident_id)
+  )
+
+  // Residents whose profiles were removed drop out of the suggestions
+  return candidates
+    .filter(candidate => residents.has(candidate.resident_id))
+    .slice(0, limit)
+    .map(candidate => {
+      const resident = residents.get(candidate.resident_id)!
+      return {
+        ...candidate,
+        name: resident.name,
+        dietary_restrictions: resident.dietary_restrictions,
+        photo_url: resident.photo_url,
+        care: resident.details ? toCareSnapshot(resident.details) : null,
+      }
+    })
+}
+
+/**
+ * Put residents whose directory seat is this one first; history only
+ * orders the rest
+ */
+export function withPreferredResidents(
+  ranked: RankedResident[],
+  preferredIds: string[]
+): RankedResident[] {
+  if (preferredIds.length === 0) {
+    return ranked
+  }
+
+  const preferred = preferredIds.map(
+    residentId =>
+      ({
+        ...(ranked.find(entry => entry.resident_id === residentId) || {
+          resident_id: residentId,
+          visits: 0,
+          score: 0,
+        }),
+        preferred: true,
+      }) as RankedResident
+  )
+
+  return [
+    ...preferred.sort((a, b) => b.score - a.score),
+    ...ranked.filter(entry => !preferredIds.includes(entry.resident_id)),
+  ]
+}
+
+/**
+ * Who usually sits at this table and seat at this meal period, best first
+ */
 export async function getSeatResidentSuggestions(
-  _tableId: string,
-  _seatNumber: number,
-  _limit: number = 3
-): Promise<any[]> {
-  // TODO: Implement seat-based resident suggestions
-  return []
+  tableId: string,
+  seatNumber: number,
+  limit: number = 3,
+  at: Date = new Date()
+): Promise<ResidentSuggestion[]> {
+  if (!uuidRegex.test(tableId)) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  const [{ data: orders, error }, preferredIds] = await Promise.all([
+    supabase
+      .from('orders')
+      .select('resident_id, created_at, seats(label)')
+      .eq('table_id', tableId)
+      .gte(
+        'created_at',
+        new Date(at.getTime() - 60 * 24 * 60 * 60 * 1000).toISOString()
+      ) // Last 60 days
+      .order('created_at', { ascending: false })
+      .limit(500),
+    fetchPreferredSeatResidents(tableId, seatNumber),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to fetch seat history: ${error.message}`)
+  }
+
+  return withResidentProfiles(
+    withPreferredResidents(
+      rankSeatResidents(
+        (orders || []) as ResidentVisit[],
+        seatNumber,
+        getMealPeriod(at.getHours())
+      ),
+      preferredIds
+    ),
+    limit
+  )
 }
 
+/**
+ * Residents who most often eat during the current meal period
+ */
 export async function getTimeBasedResidentSuggestions(
-  _currentHour: number,
-  _limit: number = 2
-): Promise<any[]> {
-  // TODO: Implement time-based resident suggestions
-  return []
+  currentHour: number,
+  limit: number = 2
+): Promise<ResidentSuggestion[]> {
+  const supabase = createClient()
+  const period = getMealPeriod(currentHour)
+
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select('resident_id, created_at')
+    .gte(
+      'created_at',
+      new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+    ) // Last 30 days
+    .order('created_at', { ascending: false })
+    .limit(500)
+
+  if (error) {
+    throw new Error(`Failed to fetch meal history: ${error.message}`)
+  }
+
+  // One meal per resident per day, wherever they sat
+  const meals = new Set<string>()
+  const ranking = new Map<string, RankedResident>()
+
+  for (const order of (orders || []) as ResidentVisit[]) {
+    const at = new Date(order.created_at)
+    const mealKey = `${order.resident_id}|${at.toDateString()}`
+    if (
+      !uuidRegex.test(order.resident_id) ||
+      getMealPeriod(at.getHours()) !== period ||
+      meals.has(mealKey)
+    ) {
+      continue
+    }
+    meals.add(mealKey)
+
+    const entry = ranking.get(order.resident_id) || {
+      resident_id: order.resident_id,
+      visits: 0,
+      score: 0,
+    }
+    entry.visits += 1
+    entry.score += 1
+    ranking.set(order.resident_id, entry)
+  }
+
+  const ranked = Array.from(ranking.values()).sort((a, b) => b.score - a.score)
+
+  return withResidentProfiles(ranked, limit)
+}
+
+export type UsualOrder = {
+  items: string[]
+  // Catalog lines from the latest time it was ordered; empty for orders
+  // placed before the menu catalog, which reorder as free text
+  lines: OrderLineInput[]
+  frequency: number
+  lastOrderedAt: string
+}
+
+type PastOrder = {
+  items: unknown
+  created_at: string
+  order_items?: Array<
+    Pick<
+      OrderItem,
+      'menu_item_id' | 'quantity' | 'modifiers' | 'notes' | 'course' | 'position'
+    >
+  > | null
+}
+
+/**
+ * Group a resident's orders (newest first) into repeatable combos
+ */
+export function groupUsualOrders(orders: PastOrder[]): UsualOrder[] {
+  const combos = new Map<string, UsualOrder>()
+
+  for (const order of orders) {
+    if (!Array.isArray(order.items)) {
+      continue
+    }
+
+    const cleanItems = sanitizeOrderItems(order.items)
+    if (cleanItems.length === 0) {
+      continue
+    }
+
+    const sortedItems = [...cleanItems].sort()
+    const key = JSON.stringify(sortedItems)
+
+    const existing = combos.get(key)
+    if (existing) {
+      existing.frequency += 1
+      continue
+    }
+
+    const orderLines = [...(order.order_items || [])].sort(
+      (a, b) => a.position - b.position
+    )
+    const lines = orderLines.every(line => line.menu_item_id)
+      ? orderLines.map(line => ({
+          menu_item_id: line.menu_item_id!,
+          quantity: line.quantity,
+          modifiers: line.modifiers || [],
+          notes: line.notes || undefined,
+          course: line.course,
+        }))
+      : []
+
+    combos.set(key, {
+      items: cleanItems,
+      lines,
+      frequency: 1,
+      lastOrderedAt: order.created_at,
+    })
+  }
+
+  return Array.from(combos.values()).sort(
+    (a, b) =>
+      b.frequency - a.frequency || b.lastOrderedAt.localeCompare(a.lastOrderedAt)
+  )
+}
+
+/**
+ * A resident's top combos that can be reordered in one tap right now: every
+ * catalog item still on the menu and nothing that conflicts with their
+ * dietary restrictions
+ */
+export async function getUsualOrders(
+  residentId: string,
+  orderType: 'food' | 'drink' = 'food',
+  limit: number = 3
+): Promise<UsualOrder[]> {
+  if (!uuidRegex.test(residentId)) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select(
+      'items, created_at, order_items(menu_item_id, quantity, modifiers, notes, course, position)'
+    )
+    .eq('resident_id', residentId)
+    .eq('type', orderType)
+    .neq('status', 'cancelled')
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  if (error) {
+    throw new Error(`Failed to fetch order history: ${error.message}`)
+  }
+
+  const combos = groupUsualOrders((orders || []) as PastOrder[])
+  if (combos.length === 0) {
+    return []
+  }
+
+  const [restrictions, catalog] = await Promise.all([
+    fetchResidentDietaryRestrictions(residentId),
+    fetchMenuItems({ includeUnavailable: true }),
+  ])
+  const catalogMap = new Map(catalog.map(item => [item.id, item]))
+
+  const usable: UsualOrder[] = []
+  for (const combo of combos) {
+    if (usable.length >= limit) {
+      break
+    }
+
+    let checkItems: DietaryCheckItem[]
+    if (combo.lines.length > 0) {
+      const menuItems = combo.lines.map(line => catalogMap.get(line.menu_item_id))
+      if (menuItems.some(item => !item || !isMenuItemAvailableAt(item))) {
+        continue
+      }
+      checkItems = menuItems.map(item => toDietaryCheckItem(item!))
+    } else {
+      checkItems = (await matchFreeTextItems(combo.items, catalog)).items
+    }
+
+    if (
+      restrictions.length > 0 &&
+      checkDietaryConflicts(restrictions, checkItems).length > 0
+    ) {
+      continue
+    }
+
+    usable.push(combo)
+  }
+
+  return usable
 }
@@ -0,0 +1,245 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type { MealService, TableLifecycleState, TableTurn, Tables } from '@/types/database'
+import { getCurrentService } from './meal-services'
+
+/**
+ * A turn with the names the turn-time report shows
+ */
+export type TurnRecord = TableTurn & {
+  table_label: string | null
+  service_name: string | null
+}
+
+export type TurnTimeGrouping = 'table' | 'service'
+
+/**
+ * Average minutes spent in each part of a turn; null when no completed turn
+ * went through both ends of that part
+ */
+export type TurnTimeSummary = {
+  key: string
+  label: string
+  turns: number
+  toOrder: number | null
+  kitchen: number | null
+  dining: number | null
+  reset: number | null
+  total: number | null
+}
+
+// In the order a table goes through them
+export const TABLE_STATES: TableLifecycleState[] = [
+  'available',
+  'seated',
+  'ordered',
+  'served',
+  'finished',
+  'bussing',
+]
+
+export const TABLE_STATE_LABELS: Record<TableLifecycleState, string> = {
+  available: 'Available',
+  seated: 'Seated',
+  ordered: 'Ordered',
+  served: 'Food served',
+  finished: 'Check / finished',
+  bussing: 'Bussing',
+}
+
+// Hex so the floor plan canvas and CSS can share them
+export const TABLE_STATE_COLORS: Record<TableLifecycleState, string> = {
+  available: '#0d9488',
+  seated: '#3b82f6',
+  ordered: '#f59e0b',
+  served: '#22c55e',
+  finished: '#a855f7',
+  bussing: '#ef4444',
+}
+
+const NO_SERVICE = 'none'
+
+/**
+ * The state a table moves to when staff advance it by hand
+ */
+export function getNextTableState(
+  state: TableLifecycleState
+): TableLifecycleState {
+  return TABLE_STATES[(TABLE_STATES.indexOf(state) + 1) % TABLE_STATES.length]
+}
+
+/**
+ * Time since a table changed state, as m:ss or h:mm:ss like the KDS timers
+ */
+export function formatElapsed(since: string, now: number = Date.now()): string {
+  const seconds = Math.max(
+    0,
+    Math.floor((now - new Date(since).getTime()) / 1000)
+  )
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const remainingSeconds = String(seconds % 60).padStart(2, '0')
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${remainingSeconds}`
+    : `${minutes}:${remainingSeconds}`
+}
+
+/**
+ * Move a table to a state by hand. Orders move tables through seated,
+ * ordered and served on their own; this is for seating a party, closing the
+ * check, bussing and corrections. Returns the state the table left.
+ */
+export async function setTableState(
+  tableId: string,
+  state: TableLifecycleState
+): Promise<TableLifecycleState> {
+  const supabase = createClient()
+  const service = await getCurrentService()
+
+  const { data, error } = await supabase.rpc('set_table_state', {
+    p_table_id: tableId,
+    p_state: state,
+    p_service_id: service?.id ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update table state: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Turns seated between two service dates (YYYY-MM-DD, inclusive), oldest
+ * first
+ */
+export async function fetchTableTurns(range: {
+  from: string
+  to: string
+  serviceId?: string | null
+}): Promise<TurnRecord[]> {
+  const supabase = createClient()
+
+  const end = new Date(`${range.to}T00:00:00`)
+  end.setDate(end.getDate() + 1)
+
+  let query = supabase
+    .from('table_turns')
+    .select('*')
+    .gte('seated_at', new Date(`${range.from}T00:00:00`).toISOString())
+    .lt('seated_at', end.toISOString())
+    .order('seated_at', { ascending: true })
+  if (range.serviceId) {
+    query = query.eq('service_id', range.serviceId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch table turns: ${error.message}`)
+  }
+
+  const turns = (data || []) as TableTurn[]
+  const tableIds = Array.from(new Set(turns.map(turn => turn.table_id)))
+  const serviceIds = Array.from(
+    new Set(
+      turns.map(turn => turn.service_id).filter((id): id is string => !!id)
+    )
+  )
+
+  const [tables, services] = await Promise.all([
+    tableIds.length > 0
+      ? supabase.from('tables').select('id, label').in('id', tableIds)
+      : Promise.resolve({ data: [], error: null }),
+    serviceIds.length > 0
+      ? supabase.from('meal_services').select('id, name').in('id', serviceIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const tableLabels = new Map(
+    ((tables.data || []) as Pick<Tables<'tables'>, 'id' | 'label'>[]).map(
+      table => [table.id, String(table.label)]
+    )
+  )
+  const serviceNames = new Map(
+    ((services.data || []) as Pick<MealService, 'id' | 'name'>[]).map(
+      service => [service.id, service.name]
+    )
+  )
+
+  return turns.map(turn => ({
+    ...turn,
+    table_label: tableLabels.get(turn.table_id) ?? null,
+    service_name: turn.service_id
+      ? serviceNames.get(turn.service_id) ?? null
+      : null,
+  }))
+}
+
+function minutesBetween(from: string | null, to: string | null) {
+  return from && to
+    ? (new Date(to).getTime() - new Date(from).getTime()) / 60000
+    : null
+}
+
+function average(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null)
+  return known.length > 0
+    ? known.reduce((sum, value) => sum + value, 0) / known.length
+    : null
+}
+
+/**
+ * Average turn times per table or per meal service. Only turns that ended
+ * with the table available again count; parts a turn skipped (say, nobody
+ * marked it bussing) are left out of that part's average only.
+ */
+export function summarizeTurnTimes(
+  turns: TurnRecord[],
+  groupBy: TurnTimeGrouping
+): TurnTimeSummary[] {
+  const groups = new Map<string, { label: string; turns: TurnRecord[] }>()
+
+  turns
+    .filter(turn => turn.available_at)
+    .forEach(turn => {
+      const key =
+        groupBy === 'table' ? turn.table_id : turn.service_id ?? NO_SERVICE
+      const label =
+        groupBy === 'table'
+          ? `Table ${turn.table_label ?? '?'}`
+          : turn.service_name ?? 'Outside services'
+      const group = groups.get(key) ?? { label, turns: [] }
+      group.turns.push(turn)
+      groups.set(key, group)
+    })
+
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    turns: group.turns.length,
+    toOrder: average(
+      group.turns.map(turn => minutesBetween(turn.seated_at, turn.ordered_at))
+    ),
+    kitchen: average(
+      group.turns.map(turn => minutesBetween(turn.ordered_at, turn.served_at))
+    ),
+    dining: average(
+      group.turns.map(turn => minutesBetween(turn.served_at, turn.finished_at))
+    ),
+    reset: average(
+      group.turns.map(turn =>
+        minutesBetween(turn.finished_at, turn.available_at)
+      )
+    ),
+    total: average(
+      group.turns.map(turn => minutesBetween(turn.seated_at, turn.available_at))
+    ),
+  })).sort((a, b) =>
+    a.key === NO_SERVICE
+      ? 1
+      : b.key === NO_SERVICE
+        ? -1
+        : a.label.localeCompare(b.label, undefined, { numeric: true })
+  )
+}
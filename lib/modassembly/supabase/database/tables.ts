@@ -40,12 +40,17 @@ const GRID_CONFIG = {
   tablesPerRow: 3,
 }
 
-export async function fetchTables(): Promise<Table[]> {
+export async function fetchTables(floorPlanId?: string): Promise<Table[]> {
   const supabase = createClient()
 
+  let tablesQuery = supabase.from('tables').select('*').order('label')
+  if (floorPlanId) {
+    tablesQuery = tablesQuery.eq('floor_plan_id', floorPlanId)
+  }
+
   // Fetch tables and their seats in parallel
   const [tablesResponse, seatsResponse] = await Promise.all([
-    supabase.from('tables').select('*').order('label'),
+    tablesQuery,
     supabase.from('seats').select('*'),
   ])
 
@@ -102,6 +107,8 @@ export async function fetchTables(): Promise<Table[]> {
 
 // Additional CRUD functions following Luis's patterns
 export async function createTable(tableData: {
+  floor_plan_id?: string
+  zone_id?: string | null
   label: string
   type: string
   status: string
@@ -120,6 +127,8 @@ export async function createTable(tableData: {
         label: parseInt(tableData.label) || 1,
         type: tableData.type,
         status: tableData.status,
+        floor_plan_id: tableData.floor_plan_id ?? null,
+        zone_id: tableData.zone_id ?? null,
         // Note: position fields don't exist in current schema
         // Would need migration to add: position_x, position_y, width, height, rotation
       },
@@ -146,6 +155,7 @@ export async function updateTable(
     width?: number
     height?: number
     rotation?: number
+    zone_id?: string | null
   }
 ): Promise<void> {
   const supabase = createClient()
@@ -161,6 +171,9 @@ export async function updateTable(
   if (updates.status) {
     schemaUpdates.status = updates.status
   }
+  if (updates.zone_id !== undefined) {
+    schemaUpdates.zone_id = updates.zone_id
+  }
 
   const { error } = await supabase
     .from('tables')
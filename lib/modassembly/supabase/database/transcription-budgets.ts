@@ -0,0 +1,119 @@
+import { createClient } from '@/lib/modassembly/supabase/client'
+import type {
+  TranscriptionBudget,
+  TranscriptionBudgetInsert,
+  TranscriptionBudgetUpdate,
+} from '@/types/database'
+
+export interface TranscriptionBudgetAlert {
+  id: string
+  triggered_at: string
+  event_data: {
+    severity: 'warning' | 'critical'
+    budget_id: string
+    scope: TranscriptionBudget['scope']
+    scope_value: string | null
+    period: TranscriptionBudget['period']
+    limit_usd: number
+    spent_usd: number
+    user_id: string
+  }
+}
+
+const SCOPE_ORDER: Record<TranscriptionBudget['scope'], number> = {
+  facility: 0,
+  role: 1,
+  user: 2,
+}
+
+/**
+ * Fetch transcription budgets, facility first, then role, then user
+ */
+export async function fetchTranscriptionBudgets(): Promise<TranscriptionBudget[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('transcription_budgets')
+    .select('*')
+    .order('created_at')
+
+  if (error) {
+    throw new Error(`Failed to fetch transcription budgets: ${error.message}`)
+  }
+
+  return ((data || []) as TranscriptionBudget[]).sort(
+    (a, b) => SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope]
+  )
+}
+
+export async function createTranscriptionBudget(
+  budget: TranscriptionBudgetInsert
+): Promise<TranscriptionBudget> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('transcription_budgets')
+    .insert({
+      ...budget,
+      scope_value: budget.scope === 'facility' ? null : budget.scope_value ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create transcription budget: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateTranscriptionBudget(
+  budgetId: string,
+  updates: TranscriptionBudgetUpdate
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('transcription_budgets')
+    .update(updates)
+    .eq('id', budgetId)
+
+  if (error) {
+    throw new Error(`Failed to update transcription budget: ${error.message}`)
+  }
+}
+
+export async function deleteTranscriptionBudget(budgetId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('transcription_budgets')
+    .delete()
+    .eq('id', budgetId)
+
+  if (error) {
+    throw new Error(`Failed to delete transcription budget: ${error.message}`)
+  }
+}
+
+/**
+ * Most recent budget threshold alerts from alert_history, newest first
+ */
+export async function fetchTranscriptionBudgetAlerts(
+  limit = 20
+): Promise<TranscriptionBudgetAlert[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('alert_history')
+    .select('id, triggered_at, event_data')
+    .eq('event_data->>type', 'transcription_budget')
+    .order('triggered_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch budget alerts: ${error.message}`)
+  }
+
+  return (data || []) as TranscriptionBudgetAlert[]
+}
@@ -1,15 +1,19 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
+import type { UserRole } from '@/types/database'
 
 // Type definitions
 export type User = {
   id: string
   name: string
+  // Residents only, from the resident directory
+  room_number?: string | null
 }
 
 // Type for the resident data from Supabase
 type ResidentProfile = {
   user_id: string
   name: string
+  details?: { room_number: string | null } | { room_number: string | null }[] | null
 }
 
 /**
@@ -38,8 +42,8 @@ export async function getUser() {
 }
 
 /**
- * Fetches all users with the 'resident' role from the database
- * @returns Array of residents
+ * Fetches all users with the 'resident' role from the database, by name
+ * @returns Array of residents with their room numbers
  */
 export async function getAllResidents(): Promise<User[]> {
   const supabase = createClient()
@@ -47,8 +51,9 @@ export async function getAllResidents(): Promise<User[]> {
   // Get all residents from profiles
   const { data: residents, error } = await supabase
     .from('profiles')
-    .select('user_id, name')
+    .select('user_id, name, details:resident_details (room_number)')
     .eq('role', 'resident')
+    .order('name')
 
   if (error) {
     throw new Error(`Failed to fetch residents: ${error.message}`)
@@ -59,8 +64,61 @@ export async function getAllResidents(): Promise<User[]> {
   }
 
   // Transform the data into the expected format
-  return residents.map((resident: ResidentProfile) => ({
-    id: resident.user_id,
-    name: resident.name,
+  return residents.map((resident: ResidentProfile) => {
+    const details = Array.isArray(resident.details)
+      ? resident.details[0]
+      : resident.details
+    return {
+      id: resident.user_id,
+      name: resident.name,
+      room_number: details?.room_number ?? null,
+    }
+  })
+}
+
+/**
+ * Fetches staff (admins, cooks and servers by default) by name
+ * @param roles - Staff roles to include
+ * @returns Array of staff users
+ */
+export async function getStaffUsers(
+  roles: UserRole[] = ['admin', 'cook', 'server']
+): Promise<User[]> {
+  const supabase = createClient()
+
+  const { data: staff, error } = await supabase
+    .from('profiles')
+    .select('user_id, name')
+    .in('role', roles)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch staff: ${error.message}`)
+  }
+
+  return (staff || []).map((member: ResidentProfile) => ({
+    id: member.user_id,
+    name: member.name,
   }))
-} 
\ No newline at end of file
+}
+
+/**
+ * Fetches a user's display name
+ * @param userId - The user's ID
+ * @returns The name, or null if the profile is missing
+ */
+export async function getUserName(userId: string): Promise<string | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('name')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`)
+  }
+
+  return data?.name ?? null
+}
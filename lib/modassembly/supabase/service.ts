@@ -0,0 +1,15 @@
+// Service-role client for server-side writes that signed-in users must not be
+// able to make themselves: rate limit counters, budget alerts. Server only.
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+
+export function createServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required on server side')
+  }
+
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,167 @@
+/**
+ * Transcription Providers
+ * Picks the speech-to-text backends for this environment and fails over
+ * between them, so voice ordering survives an OpenAI outage or a missing key.
+ *
+ * TRANSCRIPTION_PROVIDERS sets the order per environment ("local,openai");
+ * without it production prefers OpenAI and everything else the local engine.
+ */
+
+import { LocalTranscriptionProvider } from './local-provider'
+import { OpenAITranscriptionProvider } from './openai-provider'
+import type {
+  ProviderTranscription,
+  ProviderTranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from './types'
+
+export type {
+  ProviderTranscription,
+  ProviderTranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from './types'
+export { OpenAITranscriptionProvider } from './openai-provider'
+export { LocalTranscriptionProvider, parseLocalSttAddress } from './local-provider'
+
+export interface ChainTranscriptionOptions extends ProviderTranscriptionOptions {
+  // Only use providers at or under this price (0 = free engines only)
+  maxCostPerMinute?: number
+  // Try the cheapest providers first, e.g. when a budget is running out
+  preferCheapest?: boolean
+}
+
+export interface FailoverTranscription extends ProviderTranscription {
+  provider: TranscriptionProviderName
+  // Providers tried before this one, with why they failed
+  failedOver: Array<{ provider: TranscriptionProviderName; error: string }>
+}
+
+const PROVIDER_NAMES: TranscriptionProviderName[] = ['openai', 'local']
+
+// A provider that just failed is skipped for this long unless nothing else is left
+const PROVIDER_COOLDOWN_MS = 30000
+
+/**
+ * Provider order for the environment
+ */
+export function getProviderOrder(
+  env: { TRANSCRIPTION_PROVIDERS?: string; NODE_ENV?: string } = process.env
+): TranscriptionProviderName[] {
+  const configured = (env.TRANSCRIPTION_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is TranscriptionProviderName =>
+      PROVIDER_NAMES.includes(name as TranscriptionProviderName)
+    )
+
+  if (configured.length > 0) {
+    return Array.from(new Set(configured))
+  }
+
+  return env.NODE_ENV === 'production' ? ['openai', 'local'] : ['local', 'openai']
+}
+
+function createProvider(name: TranscriptionProviderName): TranscriptionProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAITranscriptionProvider()
+    case 'local':
+      return new LocalTranscriptionProvider()
+  }
+}
+
+export class TranscriptionProviderChain {
+  private unhealthyUntil = new Map<TranscriptionProviderName, number>()
+  private providers: TranscriptionProvider[]
+
+  constructor(providers: TranscriptionProvider[]) {
+    this.providers = providers
+  }
+
+  /**
+   * Configured providers within the price limit, healthy ones first in
+   * preference order (or cheapest first)
+   */
+  getCandidates(
+    now: number = Date.now(),
+    options: Pick<ChainTranscriptionOptions, 'maxCostPerMinute' | 'preferCheapest'> = {}
+  ): TranscriptionProvider[] {
+    let configured = this.providers.filter(
+      provider =>
+        provider.isConfigured() &&
+        (options.maxCostPerMinute === undefined ||
+          provider.costPerMinute <= options.maxCostPerMinute)
+    )
+    if (options.preferCheapest) {
+      configured = [...configured].sort((a, b) => a.costPerMinute - b.costPerMinute)
+    }
+
+    const healthy = configured.filter(
+      provider => (this.unhealthyUntil.get(provider.name) ?? 0) <= now
+    )
+    return [...healthy, ...configured.filter(provider => !healthy.includes(provider))]
+  }
+
+  async transcribe(
+    audio: Blob,
+    options: ChainTranscriptionOptions
+  ): Promise<FailoverTranscription> {
+    const candidates = this.getCandidates(Date.now(), options)
+    if (candidates.length === 0) {
+      throw new Error(
+        this.providers.some(provider => provider.isConfigured())
+          ? 'No transcription provider within budget'
+          : 'No transcription provider configured (set OPENAI_API_KEY or LOCAL_STT_ADDRESS)'
+      )
+    }
+
+    const failedOver: FailoverTranscription['failedOver'] = []
+
+    for (const provider of candidates) {
+      try {
+        const result = await withTimeout(
+          provider.transcribe(audio, {
+            filename: options.filename,
+            timeoutMs: options.timeoutMs,
+          }),
+          options.timeoutMs
+        )
+        this.unhealthyUntil.delete(provider.name)
+        return { ...result, provider: provider.name, failedOver }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.warn(`Transcription provider ${provider.name} failed:`, message)
+        this.unhealthyUntil.set(provider.name, Date.now() + PROVIDER_COOLDOWN_MS)
+        failedOver.push({ provider: provider.name, error: message })
+      }
+    }
+
+    throw new Error(
+      `All transcription providers failed: ${failedOver
+        .map(failure => `${failure.provider} (${failure.error})`)
+        .join('; ')}`
+    )
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('TIMEOUT')), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+// Singleton
+let chainInstance: TranscriptionProviderChain | null = null
+
+export function getTranscriptionProviderChain(): TranscriptionProviderChain {
+  if (!chainInstance) {
+    chainInstance = new TranscriptionProviderChain(
+      getProviderOrder().map(createProvider)
+    )
+  }
+  return chainInstance
+}
@@ -0,0 +1,151 @@
+/**
+ * Local Speech-to-Text Provider
+ * Talks to a whisper.cpp / Vosk process on the same machine so voice ordering
+ * keeps working without OpenAI. Server only.
+ *
+ * Wire protocol, one request per connection:
+ *   -> {"format":"audio/webm","bytes":<n>}\n followed by <n> bytes of audio
+ *   <- {"text":"...","confidence":0.91}\n  or  {"error":"..."}\n
+ * The sidecar wrapping the engine is expected to speak this and nothing else.
+ */
+
+import net from 'node:net'
+import type {
+  ProviderTranscription,
+  ProviderTranscriptionOptions,
+  TranscriptionProvider,
+} from './types'
+
+export type LocalSttAddress = { path: string } | { host: string; port: number }
+
+// Engines without per-word scores get this
+const DEFAULT_CONFIDENCE = 0.75
+
+/**
+ * LOCAL_STT_ADDRESS accepts a Unix socket ("/run/stt.sock", "unix:/run/stt.sock")
+ * or a TCP address ("127.0.0.1:8910", "tcp://127.0.0.1:8910")
+ */
+export function parseLocalSttAddress(value: string | undefined): LocalSttAddress | null {
+  const address = value?.trim()
+  if (!address) {
+    return null
+  }
+
+  if (address.startsWith('unix:')) {
+    return { path: address.slice('unix:'.length) }
+  }
+  if (address.startsWith('/')) {
+    return { path: address }
+  }
+
+  const match = address.replace(/^tcp:\/\//, '').match(/^([^:]+):(\d+)$/)
+  if (!match) {
+    return null
+  }
+  return { host: match[1], port: Number(match[2]) }
+}
+
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local' as const
+  readonly costPerMinute = 0
+  private address: LocalSttAddress | null
+  private model: string
+
+  constructor(
+    address: string | undefined = process.env.LOCAL_STT_ADDRESS,
+    model: string = process.env.LOCAL_STT_MODEL || 'whisper.cpp'
+  ) {
+    this.address = parseLocalSttAddress(address)
+    this.model = model
+  }
+
+  isConfigured(): boolean {
+    return this.address !== null
+  }
+
+  async transcribe(
+    audio: Blob,
+    options: ProviderTranscriptionOptions
+  ): Promise<ProviderTranscription> {
+    if (!this.address) {
+      throw new Error('LOCAL_STT_ADDRESS environment variable is not set')
+    }
+
+    const bytes = Buffer.from(await audio.arrayBuffer())
+    const reply = await this.request(
+      this.address,
+      JSON.stringify({ format: audio.type || 'audio/webm', bytes: bytes.length }),
+      bytes,
+      options.timeoutMs
+    )
+
+    let parsed: { text?: unknown; confidence?: unknown; error?: unknown }
+    try {
+      parsed = JSON.parse(reply)
+    } catch {
+      throw new Error('Local speech engine sent an unreadable reply')
+    }
+
+    if (typeof parsed.error === 'string') {
+      throw new Error(`Local speech engine failed: ${parsed.error}`)
+    }
+    if (typeof parsed.text !== 'string') {
+      throw new Error('Local speech engine returned no transcription text')
+    }
+
+    return {
+      text: parsed.text.trim(),
+      confidence:
+        typeof parsed.confidence === 'number'
+          ? Math.max(0, Math.min(1, parsed.confidence))
+          : DEFAULT_CONFIDENCE,
+      model: this.model,
+    }
+  }
+
+  private request(
+    address: LocalSttAddress,
+    header: string,
+    body: Buffer,
+    timeoutMs: number
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let settled = false
+      let reply = ''
+      const socket = net.createConnection(address)
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return
+        }
+        settled = true
+        socket.destroy()
+        if (error) {
+          reject(error)
+        } else {
+          resolve(reply.split('\n')[0])
+        }
+      }
+
+      socket.setEncoding('utf8')
+      socket.setTimeout(timeoutMs)
+      socket.on('timeout', () =>
+        finish(new Error(`Local speech engine timed out after ${timeoutMs}ms`))
+      )
+      socket.on('error', error =>
+        finish(new Error(`Local speech engine unreachable: ${error.message}`))
+      )
+      socket.on('connect', () => {
+        socket.write(`${header}\n`)
+        socket.end(body)
+      })
+      socket.on('data', chunk => {
+        reply += chunk
+        if (reply.includes('\n')) {
+          finish()
+        }
+      })
+      socket.on('end', () => finish())
+    })
+  }
+}
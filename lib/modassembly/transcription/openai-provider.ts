@@ -0,0 +1,76 @@
+/**
+ * OpenAI Whisper Transcription Provider
+ */
+
+import OpenAI from 'openai'
+import type {
+  ProviderTranscription,
+  ProviderTranscriptionOptions,
+  TranscriptionProvider,
+} from './types'
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai' as const
+  readonly costPerMinute = 0.006 // Whisper pricing
+  private client: OpenAI | null = null
+  private apiKey: string | undefined
+
+  constructor(apiKey: string | undefined = process.env.OPENAI_API_KEY) {
+    this.apiKey = apiKey
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  async transcribe(
+    audio: Blob,
+    options: ProviderTranscriptionOptions
+  ): Promise<ProviderTranscription> {
+    const audioFile = new File([audio], options.filename || 'audio.webm', {
+      type: audio.type,
+    })
+
+    const result = await this.getClient().audio.transcriptions.create(
+      {
+        file: audioFile,
+        model: 'whisper-1',
+        response_format: 'verbose_json',
+        temperature: 0.1, // Lower temperature for more consistent results
+      },
+      { timeout: options.timeoutMs, maxRetries: 0 }
+    )
+
+    return {
+      text: typeof result === 'string' ? result : result.text,
+      confidence: calculateWhisperConfidence(result),
+      model: 'whisper-1',
+    }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is not set')
+      }
+      this.client = new OpenAI({ apiKey: this.apiKey })
+    }
+    return this.client
+  }
+}
+
+/**
+ * Average segment log probability as a 0-1 confidence; 0.8 when Whisper
+ * returns no segments
+ */
+export function calculateWhisperConfidence(whisperResult: any): number {
+  if (whisperResult?.segments && Array.isArray(whisperResult.segments) && whisperResult.segments.length > 0) {
+    const avgLogprob = whisperResult.segments.reduce((sum: number, segment: any) => {
+      return sum + (segment.avg_logprob || 0)
+    }, 0) / whisperResult.segments.length
+
+    return Math.max(0, Math.min(1, Math.exp(avgLogprob)))
+  }
+
+  return 0.8
+}
@@ -0,0 +1,30 @@
+/**
+ * Transcription Provider Types
+ * Speech-to-text backends the voice ordering pipeline can fail over between
+ */
+
+export type TranscriptionProviderName = 'openai' | 'local'
+
+export interface ProviderTranscriptionOptions {
+  filename?: string
+  timeoutMs: number
+}
+
+export interface ProviderTranscription {
+  text: string
+  // 0-1
+  confidence: number
+  model: string
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName
+  // USD per audio minute; 0 for engines running on our own hardware
+  readonly costPerMinute: number
+  // Whether the environment has what this provider needs (keys, socket address)
+  isConfigured(): boolean
+  transcribe(
+    _audio: Blob,
+    _options: ProviderTranscriptionOptions
+  ): Promise<ProviderTranscription>
+}
@@ -0,0 +1,46 @@
+/**
+ * IndexedDB database shared by the offline stores. Bump the version and add
+ * the object store here when a new kind of offline work is kept.
+ */
+
+export const OFFLINE_DB_NAME = 'plater-offline'
+export const OFFLINE_DB_VERSION = 2
+
+export type OfflineObjectStore = 'order_outbox' | 'kds_journal'
+
+const OBJECT_STORES: OfflineObjectStore[] = ['order_outbox', 'kds_journal']
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export function openOfflineDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        for (const name of OBJECT_STORES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' })
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
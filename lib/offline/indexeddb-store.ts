@@ -0,0 +1,40 @@
+/**
+ * IndexedDB offline store. Survives reloads and the tablet going to sleep,
+ * so queued work is not lost with the page.
+ */
+
+import {
+  type OfflineObjectStore,
+  openOfflineDatabase,
+  requestToPromise,
+} from './idb'
+import type { OfflineStore } from './types'
+
+export class IndexedDbOfflineStore<T extends { id: string }>
+  implements OfflineStore<T>
+{
+  readonly name = 'indexeddb' as const
+  private objectStore: OfflineObjectStore
+
+  constructor(objectStore: OfflineObjectStore) {
+    this.objectStore = objectStore
+  }
+
+  async list(): Promise<T[]> {
+    const db = await openOfflineDatabase()
+    const store = db.transaction(this.objectStore, 'readonly').objectStore(this.objectStore)
+    return requestToPromise(store.getAll() as IDBRequest<T[]>)
+  }
+
+  async put(entry: T): Promise<void> {
+    const db = await openOfflineDatabase()
+    const store = db.transaction(this.objectStore, 'readwrite').objectStore(this.objectStore)
+    await requestToPromise(store.put(entry))
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openOfflineDatabase()
+    const store = db.transaction(this.objectStore, 'readwrite').objectStore(this.objectStore)
+    await requestToPromise(store.delete(id))
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * In-memory offline store. Lost on reload, so use it for tests and browsers
+ * without IndexedDB.
+ */
+
+import type { OfflineStore } from './types'
+
+export class MemoryOfflineStore<T extends { id: string }> implements OfflineStore<T> {
+  readonly name = 'memory' as const
+  private entries = new Map<string, T>()
+
+  async list(): Promise<T[]> {
+    return Array.from(this.entries.values())
+  }
+
+  async put(entry: T): Promise<void> {
+    this.entries.set(entry.id, entry)
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id)
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Offline Outbox
+ * Work that must reach the server even if the connection drops while it is
+ * sent. Each entry is written to the store before the first attempt and only
+ * removed once the server has it; the entry ID goes with every attempt as an
+ * idempotency key, so replaying after a lost response cannot duplicate it.
+ *
+ * Entries replay oldest first. A network failure stops the replay and backs
+ * off; any other failure means the server refused the entry, which is kept
+ * as a conflict for someone to review.
+ */
+
+import type {
+  OfflineStore,
+  OutboxEntry,
+  OutboxSubmitResult,
+  OutboxSyncResult,
+} from './types'
+
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 5 * 60 * 1000
+
+const NETWORK_ERROR_PATTERN =
+  /failed to fetch|fetch failed|networkerror|network request failed|load failed|network error/i
+
+function getErrorCode(error: unknown): string | null {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' ? code : null
+}
+
+// Supabase errors are plain objects with a message
+function getErrorMessage(error: unknown): string {
+  const message = (error as { message?: unknown } | null)?.message
+  return typeof message === 'string' ? message : String(error)
+}
+
+/**
+ * Exponential backoff with jitter: 2s, 4s, 8s, ... capped at 5 minutes, and
+ * spread over the upper half of the delay so tablets don't retry in lockstep
+ */
+export function getRetryDelay(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.round(delay * (0.5 + random() / 2))
+}
+
+/**
+ * Whether a failure means the server was not reached (so retrying may work)
+ * rather than that it refused the request
+ */
+export function isNetworkError(error: unknown, online = true): boolean {
+  if (!online) {
+    return true
+  }
+  return NETWORK_ERROR_PATTERN.test(getErrorMessage(error))
+}
+
+export interface OutboxOptions<P, R> {
+  store: OfflineStore<OutboxEntry<P>>
+  // Deliver one entry; the key must make repeated deliveries a no-op
+  send: (_payload: P, _idempotencyKey: string) => Promise<R>
+  now?: () => number
+  random?: () => number
+  isOnline?: () => boolean
+  createId?: () => string
+  // New entries wait behind pending ones instead of being sent at once, for
+  // work that must reach the server in the order it was done
+  ordered?: boolean
+}
+
+type OutboxListener<P> = (_entries: OutboxEntry<P>[]) => void
+
+export class Outbox<P, R> {
+  private store: OfflineStore<OutboxEntry<P>>
+  private send: (_payload: P, _idempotencyKey: string) => Promise<R>
+  private now: () => number
+  private random: () => number
+  private isOnline: () => boolean
+  private createId: () => string
+  private ordered: boolean
+  private listeners = new Set<OutboxListener<P>>()
+  // Entries being sent right now, so a sync doesn't send them a second time
+  private inFlight = new Set<string>()
+  private syncing: Promise<OutboxSyncResult> | null = null
+
+  constructor(options: OutboxOptions<P, R>) {
+    this.store = options.store
+    this.send = options.send
+    this.now = options.now ?? Date.now
+    this.random = options.random ?? Math.random
+    this.isOnline =
+      options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine)
+    this.createId = options.createId ?? (() => crypto.randomUUID())
+    this.ordered = options.ordered ?? false
+  }
+
+  /**
+   * Entries oldest first
+   */
+  async list(): Promise<OutboxEntry<P>[]> {
+    const entries = await this.store.list()
+    return entries.sort((a, b) => a.created_at - b.created_at)
+  }
+
+  subscribe(listener: OutboxListener<P>): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Queue and send at once. Resolves with the server's result, or with the
+   * queued entry when the server can't be reached. A refusal is thrown as
+   * it was received so the caller can resolve it with the user.
+   */
+  async submit(payload: P, label: string): Promise<OutboxSubmitResult<P, R>> {
+    const entry: OutboxEntry<P> = {
+      id: this.createId(),
+      payload,
+      label,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: this.now(),
+      last_error: null,
+      error_code: null,
+      created_at: this.now(),
+    }
+    const waiting =
+      this.ordered &&
+      (await this.store.list()).some(item => item.status === 'pending')
+    await this.store.put(entry)
+
+    if (!this.isOnline() || waiting) {
+      await this.notify()
+      if (waiting && this.isOnline()) {
+        this.sync().catch(error => console.error('Failed to sync outbox:', error))
+      }
+      return { status: 'queued', entry }
+    }
+
+    this.inFlight.add(entry.id)
+    try {
+      const result = await this.send(payload, entry.id)
+      await this.store.delete(entry.id)
+      return { status: 'sent', result }
+    } catch (error) {
+      if (isNetworkError(error, this.isOnline())) {
+        const queued = this.withRetry(entry, error)
+        await this.store.put(queued)
+        return { status: 'queued', entry: queued }
+      }
+      await this.store.delete(entry.id)
+      throw error
+    } finally {
+      this.inFlight.delete(entry.id)
+      await this.notify()
+    }
+  }
+
+  /**
+   * Replay due entries in order. Concurrent calls share one replay.
+   */
+  sync(): Promise<OutboxSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.replay().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  /**
+   * Send a conflicted or backed-off entry again now
+   */
+  async retry(id: string): Promise<OutboxSyncResult> {
+    const entry = (await this.store.list()).find(item => item.id === id)
+    if (entry) {
+      await this.store.put({ ...entry, status: 'pending', next_attempt_at: this.now() })
+    }
+    return this.sync()
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.store.delete(id)
+    await this.notify()
+  }
+
+  private async replay(): Promise<OutboxSyncResult> {
+    let sent = 0
+    for (const entry of await this.list()) {
+      if (entry.status !== 'pending' || this.inFlight.has(entry.id)) {
+        continue
+      }
+      // Later entries wait their turn so they reach the server in order
+      if (!this.isOnline() || entry.next_attempt_at > this.now()) {
+        break
+      }
+
+      this.inFlight.add(entry.id)
+      try {
+        await this.send(entry.payload, entry.id)
+        await this.store.delete(entry.id)
+        sent += 1
+      } catch (error) {
+        if (isNetworkError(error, this.isOnline())) {
+          await this.store.put(this.withRetry(entry, error))
+          break
+        }
+        await this.store.put({
+          ...entry,
+          status: 'conflict',
+          attempts: entry.attempts + 1,
+          last_error: getErrorMessage(error),
+          error_code: getErrorCode(error),
+        })
+      } finally {
+        this.inFlight.delete(entry.id)
+      }
+    }
+
+    const entries = await this.notify()
+    return {
+      sent,
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      conflicts: entries.filter(entry => entry.status === 'conflict').length,
+    }
+  }
+
+  private withRetry(entry: OutboxEntry<P>, error: unknown): OutboxEntry<P> {
+    const attempts = entry.attempts + 1
+    return {
+      ...entry,
+      attempts,
+      next_attempt_at: this.now() + getRetryDelay(attempts, this.random),
+      last_error: getErrorMessage(error),
+    }
+  }
+
+  private async notify(): Promise<OutboxEntry<P>[]> {
+    const entries = await this.list()
+    this.listeners.forEach(listener => listener(entries))
+    return entries
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Offline Types
+ * Work done on a device while the connection is down, kept until it can be
+ * sent to the server
+ */
+
+export type OfflineStoreName = 'indexeddb' | 'memory'
+
+export interface OfflineStore<T extends { id: string }> {
+  readonly name: OfflineStoreName
+  list(): Promise<T[]>
+  put(_entry: T): Promise<void>
+  delete(_id: string): Promise<void>
+}
+
+// pending: waiting to be sent; conflict: the server refused it and someone
+// has to review it
+export type OutboxEntryStatus = 'pending' | 'conflict'
+
+export interface OutboxEntry<P> {
+  // Doubles as the idempotency key, so a replay never creates a duplicate
+  id: string
+  payload: P
+  // Shown in the pending list ("Table 4 · Seat 2")
+  label: string
+  status: OutboxEntryStatus
+  attempts: number
+  // Epoch ms before which the entry is not retried
+  next_attempt_at: number
+  last_error: string | null
+  // Code of the server's refusal (DIETARY_VIOLATION, OUT_OF_SERVICE, ...)
+  error_code: string | null
+  created_at: number
+}
+
+export type OutboxSubmitResult<P, R> =
+  | { status: 'sent'; result: R }
+  | { status: 'queued'; entry: OutboxEntry<P> }
+
+export interface OutboxSyncResult {
+  sent: number
+  pending: number
+  conflicts: number
+}
@@ -0,0 +1,208 @@
+/**
+ * Order Line Modifiers
+ * Classifies modifier phrases ("no onion", "salad instead of fries",
+ * "medium rare", "mildly thick") into structured modifiers and formats them
+ * for tickets.
+ */
+
+import { FLUID_THICKNESS_LABELS, parseThicknessPhrase } from '@/lib/iddsi'
+import type {
+  FluidThickness,
+  ModifierKind,
+  OrderItemModifier,
+} from '@/types/database'
+
+export const MODIFIER_KINDS: ModifierKind[] = [
+  'temperature',
+  'thickness',
+  'remove',
+  'substitute',
+  'add',
+]
+
+export const MODIFIER_KIND_LABELS: Record<ModifierKind, string> = {
+  add: 'Add',
+  remove: 'No',
+  substitute: 'Sub',
+  temperature: 'Temp',
+  thickness: 'Thicken',
+}
+
+// Spoken variants → the temperature printed on the ticket
+const TEMPERATURES: Record<string, string> = {
+  rare: 'Rare',
+  'medium rare': 'Medium Rare',
+  'mid rare': 'Medium Rare',
+  medium: 'Medium',
+  'medium well': 'Medium Well',
+  'mid well': 'Medium Well',
+  'well done': 'Well Done',
+  well: 'Well Done',
+  'extra hot': 'Extra Hot',
+  hot: 'Hot',
+  warm: 'Warm',
+  'room temperature': 'Room Temperature',
+  cold: 'Cold',
+  iced: 'Iced',
+}
+
+export const TEMPERATURE_OPTIONS = Array.from(new Set(Object.values(TEMPERATURES)))
+
+const REMOVE_PATTERN = /^(?:no|without|hold(?: the)?|minus|remove|take off)\s+(.+)$/i
+const ADD_PATTERN = /^(?:add|with|plus|side of)\s+(.+)$/i
+const EXTRA_PATTERN = /^(?:extra|double)\s+(.+)$/i
+// "sub salad for fries", "substitute salad for the fries"
+const SUBSTITUTE_PATTERN = /^(?:sub|substitute)\s+(.+?)\s+(?:for|instead of)\s+(?:the\s+)?(.+)$/i
+// "swap fries for salad", "replace fries with salad"
+const REPLACE_PATTERN = /^(?:swap|replace)\s+(?:the\s+)?(.+?)\s+(?:for|with)\s+(.+)$/i
+// "salad instead of fries"
+const INSTEAD_PATTERN = /^(.+?)\s+(?:instead of|in place of)\s+(?:the\s+)?(.+)$/i
+
+/**
+ * Structured modifier for a spoken or typed phrase, or null when the phrase
+ * is a free-form instruction ("ranch on the side") better kept as a note
+ */
+export function parseModifierPhrase(phrase: string): OrderItemModifier | null {
+  const text = phrase
+    .trim()
+    .replace(/\s+/g, ' ')
+    // "with no ice"
+    .replace(/^with\s+(?=no\s)/i, '')
+  if (!text) {
+    return null
+  }
+
+  const temperature =
+    TEMPERATURES[text.toLowerCase().replace(/^cooked\s+/, '').replace(/-/g, ' ')]
+  if (temperature) {
+    return { modifier_id: null, name: temperature, kind: 'temperature' }
+  }
+
+  const thickness = parseThicknessPhrase(text)
+  if (thickness) {
+    return {
+      modifier_id: null,
+      name: FLUID_THICKNESS_LABELS[thickness],
+      kind: 'thickness',
+    }
+  }
+
+  const substitute = text.match(SUBSTITUTE_PATTERN) || text.match(INSTEAD_PATTERN)
+  if (substitute) {
+    return {
+      modifier_id: null,
+      name: substitute[1],
+      kind: 'substitute',
+      replaces: substitute[2],
+    }
+  }
+
+  const replace = text.match(REPLACE_PATTERN)
+  if (replace) {
+    return {
+      modifier_id: null,
+      name: replace[2],
+      kind: 'substitute',
+      replaces: replace[1],
+    }
+  }
+
+  const remove = text.match(REMOVE_PATTERN)
+  if (remove) {
+    return { modifier_id: null, name: remove[1], kind: 'remove' }
+  }
+
+  const add = text.match(ADD_PATTERN)
+  if (add) {
+    return { modifier_id: null, name: add[1], kind: 'add' }
+  }
+
+  if (EXTRA_PATTERN.test(text)) {
+    return { modifier_id: null, name: text, kind: 'add' }
+  }
+
+  return null
+}
+
+/**
+ * Ticket text for a modifier: "NO onion", "ADD bacon", "SUB salad for fries",
+ * "MEDIUM RARE". The result parses back to the same modifier.
+ */
+export function formatModifier(modifier: OrderItemModifier): string {
+  switch (modifier.kind) {
+    case 'temperature':
+    case 'thickness':
+      return modifier.name.toUpperCase()
+    case 'remove':
+      return `NO ${modifier.name.replace(/^(?:no|without|hold)\s+/i, '')}`
+    case 'substitute':
+      return modifier.replaces
+        ? `SUB ${modifier.name} for ${modifier.replaces}`
+        : `SUB ${modifier.name.replace(/^(?:sub|substitute)\s+/i, '')}`
+    default:
+      return EXTRA_PATTERN.test(modifier.name)
+        ? modifier.name.toUpperCase()
+        : `ADD ${modifier.name.replace(/^(?:add|with|plus)\s+/i, '')}`
+  }
+}
+
+/**
+ * Read a stored modifier. Older rows and legacy free-text items hold plain
+ * strings or modifiers without a kind.
+ */
+export function normalizeModifier(raw: unknown): OrderItemModifier | null {
+  if (typeof raw === 'string') {
+    const name = raw.trim()
+    if (!name) {
+      return null
+    }
+    return parseModifierPhrase(name) ?? { modifier_id: null, name, kind: 'add' }
+  }
+
+  if (
+    !raw ||
+    typeof raw !== 'object' ||
+    !('name' in raw) ||
+    typeof (raw as { name?: unknown }).name !== 'string'
+  ) {
+    return null
+  }
+
+  const modifier = raw as Partial<OrderItemModifier> & { name: string }
+  const kind =
+    modifier.kind && MODIFIER_KINDS.includes(modifier.kind)
+      ? modifier.kind
+      : (parseModifierPhrase(modifier.name)?.kind ?? 'add')
+
+  return {
+    modifier_id: modifier.modifier_id ?? null,
+    name: modifier.name,
+    kind,
+    replaces: modifier.replaces ?? null,
+  }
+}
+
+/**
+ * Temperature first, then removals, substitutions and additions - the order
+ * a cook needs them while building the plate
+ */
+export function sortModifiers(modifiers: OrderItemModifier[]): OrderItemModifier[] {
+  return modifiers
+    .map((modifier, index) => ({ modifier, index }))
+    .sort(
+      (a, b) =>
+        MODIFIER_KINDS.indexOf(a.modifier.kind) -
+          MODIFIER_KINDS.indexOf(b.modifier.kind) || a.index - b.index
+    )
+    .map(({ modifier }) => modifier)
+}
+
+/**
+ * The IDDSI thickness a line's modifiers ask for, if any
+ */
+export function getModifierThickness(
+  modifiers: OrderItemModifier[]
+): FluidThickness | null {
+  const thickness = modifiers.find(modifier => modifier.kind === 'thickness')
+  return thickness ? parseThicknessPhrase(thickness.name) : null
+}
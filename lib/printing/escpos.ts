@@ -0,0 +1,323 @@
+/**
+ * ESC/POS Ticket Rendering
+ * Renders kitchen tickets to the raw byte stream network receipt printers accept on port 9100
+ */
+
+import type { Course } from '@/types/database'
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+export interface KitchenTicketLine {
+  quantity: number
+  name: string
+  modifiers: string[]
+  notes: string | null
+}
+
+export interface KitchenTicket {
+  stationName: string
+  orderNumber: string
+  tableLabel: string | null
+  seatLabel: string | null
+  residentName: string | null
+  course: Course | null
+  routedAt: string
+  lines: KitchenTicketLine[]
+  dietaryAlerts: string[]
+  overrideReason: string | null
+  notes: string | null
+  reprint?: boolean
+}
+
+export interface RenderOptions {
+  // Font A columns: 42 on 80mm paper, 32 on 58mm
+  charsPerLine?: number
+}
+
+type Alignment = 'left' | 'center' | 'right'
+
+const ALIGNMENT_CODES: Record<Alignment, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+}
+
+/**
+ * Printers run in a single-byte code page, so accents are folded to ASCII
+ * ("Entrée" prints as "Entree") and anything else becomes '?'
+ */
+export function toPrintableAscii(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\n]/g, '?')
+}
+
+/**
+ * Break text into lines of at most `width` characters. Leading spaces are
+ * kept on the first line; continuations are indented by `indent`.
+ */
+export function wrapText(text: string, width: number, indent = 0): string[] {
+  const lines: string[] = []
+  const pad = ' '.repeat(indent)
+  const lead = text.match(/^ */)![0]
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const prefix = lines.length === 0 && !current ? lead : pad
+    const candidate = current ? `${current} ${word}` : `${prefix}${word}`
+
+    if (candidate.length <= width) {
+      current = candidate
+      continue
+    }
+
+    if (current) {
+      lines.push(current)
+    }
+
+    // Words longer than a line are hard-split
+    let rest = `${pad}${word}`
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width))
+      rest = `${pad}${rest.slice(width)}`
+    }
+    current = rest
+  }
+
+  if (current) {
+    lines.push(current)
+  }
+
+  return lines
+}
+
+/**
+ * Accumulates ESC/POS commands alongside a plain-text rendering of the same
+ * ticket, so previews and the stand-in printer show what the paper will say
+ */
+export class EscPosBuilder {
+  private bytes: number[] = []
+  private plainText: string[] = []
+  private readonly charsPerLine: number
+
+  constructor(charsPerLine: number) {
+    this.charsPerLine = charsPerLine
+    // ESC @ (reset), ESC t 0 (PC437 code page)
+    this.bytes.push(ESC, 0x40, ESC, 0x74, 0x00)
+  }
+
+  align(alignment: Alignment): this {
+    this.bytes.push(ESC, 0x61, ALIGNMENT_CODES[alignment])
+    return this
+  }
+
+  bold(on: boolean): this {
+    this.bytes.push(ESC, 0x45, on ? 1 : 0)
+    return this
+  }
+
+  // White on black, used for the allergy banner
+  inverse(on: boolean): this {
+    this.bytes.push(GS, 0x42, on ? 1 : 0)
+    return this
+  }
+
+  size(width: 1 | 2, height: 1 | 2): this {
+    this.bytes.push(GS, 0x21, ((width - 1) << 4) | (height - 1))
+    return this
+  }
+
+  line(text = ''): this {
+    const printable = toPrintableAscii(text)
+    for (let i = 0; i < printable.length; i++) {
+      this.bytes.push(printable.charCodeAt(i))
+    }
+    this.bytes.push(LF)
+    this.plainText.push(printable)
+    return this
+  }
+
+  // Word-wrapped lines at the current character width
+  wrapped(text: string, { indent = 0, widthDivisor = 1 } = {}): this {
+    const width = Math.floor(this.charsPerLine / widthDivisor)
+    wrapText(toPrintableAscii(text), width, indent).forEach(line =>
+      this.line(line)
+    )
+    return this
+  }
+
+  rule(char = '-'): this {
+    return this.line(char.repeat(this.charsPerLine))
+  }
+
+  feed(lines: number): this {
+    this.bytes.push(ESC, 0x64, Math.max(0, Math.min(255, lines)))
+    for (let i = 0; i < lines; i++) {
+      this.plainText.push('')
+    }
+    return this
+  }
+
+  // GS V 66 n: feed n dots then partial cut
+  cut(): this {
+    this.bytes.push(GS, 0x56, 0x42, 0x03)
+    this.plainText.push('--- cut ---')
+    return this
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes)
+  }
+
+  toText(): string {
+    return this.plainText.join('\n')
+  }
+}
+
+function formatTicketTime(iso: string): string {
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) {
+    return ''
+  }
+  return date.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function buildKitchenTicket(
+  ticket: KitchenTicket,
+  charsPerLine: number
+): EscPosBuilder {
+  const builder = new EscPosBuilder(charsPerLine)
+
+  if (ticket.reprint) {
+    builder
+      .align('center')
+      .inverse(true)
+      .bold(true)
+      .line(' ** REPRINT ** ')
+      .bold(false)
+      .inverse(false)
+  }
+
+  // Header: station, order number and time
+  builder
+    .align('center')
+    .size(2, 2)
+    .bold(true)
+    .wrapped(ticket.stationName.toUpperCase(), { widthDivisor: 2 })
+    .size(1, 1)
+    .bold(false)
+    .line(`#${ticket.orderNumber}  ${formatTicketTime(ticket.routedAt)}`)
+    .align('left')
+    .rule('=')
+
+  // Table and seat in double height so they read from across the pass
+  const location = [
+    ticket.tableLabel ? `TABLE ${ticket.tableLabel}` : null,
+    ticket.seatLabel ? `SEAT ${ticket.seatLabel}` : null,
+  ]
+    .filter(Boolean)
+    .join(' / ')
+  if (location) {
+    builder.size(1, 2).bold(true).wrapped(location).bold(false).size(1, 1)
+  }
+  if (ticket.residentName) {
+    builder.wrapped(ticket.residentName)
+  }
+  if (ticket.course) {
+    builder.bold(true).line(`COURSE: ${ticket.course.toUpperCase()}`).bold(false)
+  }
+
+  // Allergy banner
+  if (ticket.dietaryAlerts.length > 0) {
+    builder
+      .rule()
+      .align('center')
+      .inverse(true)
+      .bold(true)
+      .wrapped(`ALLERGY: ${ticket.dietaryAlerts.join(', ').toUpperCase()}`)
+      .bold(false)
+      .inverse(false)
+      .align('left')
+  }
+  if (ticket.overrideReason) {
+    builder.wrapped(`Conflict overridden: ${ticket.overrideReason}`)
+  }
+
+  builder.rule()
+
+  // Items with their modifiers and notes indented underneath
+  ticket.lines.forEach(line => {
+    builder
+      .size(1, 2)
+      .bold(true)
+      .wrapped(`${line.quantity}x ${line.name}`, { indent: 3 })
+      .bold(false)
+      .size(1, 1)
+    line.modifiers.forEach(modifier =>
+      builder.wrapped(`   + ${modifier}`, { indent: 5 })
+    )
+    if (line.notes) {
+      builder.wrapped(`   * ${line.notes}`, { indent: 5 })
+    }
+  })
+
+  if (ticket.notes) {
+    builder.rule().wrapped(`Notes: ${ticket.notes}`)
+  }
+
+  return builder.rule('=').feed(3).cut()
+}
+
+/**
+ * Render a kitchen ticket to ESC/POS bytes
+ */
+export function renderKitchenTicket(
+  ticket: KitchenTicket,
+  { charsPerLine = 42 }: RenderOptions = {}
+): Uint8Array {
+  return buildKitchenTicket(ticket, charsPerLine).toBytes()
+}
+
+/**
+ * Plain-text preview of exactly what renderKitchenTicket prints
+ */
+export function renderKitchenTicketText(
+  ticket: KitchenTicket,
+  { charsPerLine = 42 }: RenderOptions = {}
+): string {
+  return buildKitchenTicket(ticket, charsPerLine).toText()
+}
+
+/**
+ * Short page confirming a printer is reachable and its line width is right
+ */
+export function renderTestPage(
+  printerName: string,
+  { charsPerLine = 42 }: RenderOptions = {}
+): Uint8Array {
+  return new EscPosBuilder(charsPerLine)
+    .align('center')
+    .size(2, 2)
+    .bold(true)
+    .line('TEST PRINT')
+    .size(1, 1)
+    .bold(false)
+    .wrapped(printerName)
+    .line(new Date().toLocaleString('en-US'))
+    .align('left')
+    .rule()
+    .line('0123456789'.repeat(Math.ceil(charsPerLine / 10)).slice(0, charsPerLine))
+    .rule()
+    .feed(3)
+    .cut()
+    .toBytes()
+}
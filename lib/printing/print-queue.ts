@@ -0,0 +1,270 @@
+/**
+ * Kitchen Print Queue Worker
+ * Claims due print_jobs, renders them to ESC/POS and sends them to the
+ * station's printer, rescheduling failures with exponential backoff. Server only.
+ */
+
+import type { KDSPrinter, PrintJob } from '@/types/database'
+import { getTicketDisplayLines } from '@/lib/kds/order-lines'
+import { formatModifier } from '@/lib/order-modifiers'
+import type { KDSOrderRouting } from '@/lib/modassembly/supabase/database/kds/types'
+import type { createClient } from '@/lib/modassembly/supabase/server'
+import {
+  type KitchenTicket,
+  renderKitchenTicket,
+  renderTestPage,
+} from './escpos'
+import { sendToPrinter } from './transport'
+
+type Client = Awaited<ReturnType<typeof createClient>>
+
+const BASE_RETRY_DELAY_MS = 5000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+// How long a KDS screen keeps the print worker lease without renewing it
+export const PRINT_WORKER_LEASE_SECONDS = 30
+
+export interface PrintQueueResult {
+  claimed: number
+  printed: number
+  retrying: number
+  failed: number
+}
+
+/**
+ * Delay before the next attempt: 5s, 10s, 20s ... capped at five minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS
+  )
+}
+
+/**
+ * Load everything printed on a station ticket
+ */
+export async function fetchKitchenTicket(
+  supabase: Client,
+  routingId: string,
+  reprint = false
+): Promise<KitchenTicket> {
+  const { data: routing, error } = await supabase
+    .from('kds_order_routing')
+    .select(
+      `
+      id, routed_at, notes, course,
+      station:kds_stations!station_id (name),
+      items:kds_ticket_items (id, order_item_id, line_index, started_at, completed_at),
+      order:orders!order_id (
+        id, items, resident_id, dietary_alerts, dietary_override_reason,
+        table:tables!table_id (id, label),
+        seat:seats!seat_id (id, label),
+        order_items (id, name, quantity, modifiers, notes, position, menu_item_id, course)
+      )
+    `
+    )
+    .eq('id', routingId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to load ticket ${routingId}: ${error.message}`)
+  }
+
+  const ticketRouting = routing as unknown as Pick<
+    KDSOrderRouting,
+    'id' | 'routed_at' | 'notes' | 'course' | 'items'
+  > & {
+    station: { name: string } | null
+    order?: NonNullable<KDSOrderRouting['order']> & { resident_id: string | null }
+  }
+  const order = ticketRouting.order
+
+  let residentName: string | null = null
+  if (order?.resident_id) {
+    const { data: resident } = await supabase
+      .from('profiles')
+      .select('name')
+      .eq('user_id', order.resident_id)
+      .maybeSingle()
+    residentName = (resident as { name: string } | null)?.name ?? null
+  }
+
+  return {
+    stationName: ticketRouting.station?.name || 'Kitchen',
+    orderNumber: order?.id?.slice(-6) || 'N/A',
+    tableLabel: order?.table?.label ?? null,
+    seatLabel: order?.seat?.label ?? null,
+    residentName,
+    course: ticketRouting.course ?? null,
+    routedAt: ticketRouting.routed_at,
+    // Only this station's lines
+    lines: getTicketDisplayLines(ticketRouting).map(line => ({
+      quantity: line.quantity,
+      name: line.name,
+      modifiers: line.modifiers.map(formatModifier),
+      notes: line.notes,
+    })),
+    dietaryAlerts: order?.dietary_alerts || [],
+    overrideReason: order?.dietary_override_reason ?? null,
+    notes: ticketRouting.notes,
+    reprint,
+  }
+}
+
+async function renderJob(
+  supabase: Client,
+  job: PrintJob,
+  printer: KDSPrinter
+): Promise<Uint8Array> {
+  const options = { charsPerLine: printer.chars_per_line }
+
+  if (job.kind === 'test') {
+    return renderTestPage(printer.name, options)
+  }
+
+  const ticket = await fetchKitchenTicket(
+    supabase,
+    job.routing_id!,
+    job.kind === 'reprint'
+  )
+  return renderKitchenTicket(ticket, options)
+}
+
+async function printJob(
+  supabase: Client,
+  job: PrintJob,
+  printers: Map<string, KDSPrinter>
+): Promise<'printed' | 'retrying' | 'failed'> {
+  const printer = printers.get(job.printer_id)
+
+  try {
+    if (!printer || !printer.is_active) {
+      throw new Error('Printer is missing or disabled')
+    }
+
+    const bytes = await renderJob(supabase, job, printer)
+    await sendToPrinter({ host: printer.host, port: printer.port }, bytes)
+
+    await supabase
+      .from('print_jobs')
+      .update({
+        status: 'printed',
+        printed_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq('id', job.id)
+
+    return 'printed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const exhausted = job.attempts >= job.max_attempts
+
+    await supabase
+      .from('print_jobs')
+      .update({
+        status: exhausted ? 'failed' : 'pending',
+        last_error: message,
+        next_attempt_at: new Date(
+          Date.now() + getRetryDelay(job.attempts)
+        ).toISOString(),
+      })
+      .eq('id', job.id)
+
+    console.error(`Print job ${job.id} failed (attempt ${job.attempts}):`, message)
+    return exhausted ? 'failed' : 'retrying'
+  }
+}
+
+/**
+ * Take or renew the print worker lease for a screen. Only the holder drains
+ * the queue on a timer; everyone else stands by until the lease expires.
+ */
+export async function acquirePrintWorkerLease(
+  supabase: Client,
+  holder: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('acquire_print_worker_lease', {
+    p_holder: holder,
+    p_ttl_seconds: PRINT_WORKER_LEASE_SECONDS,
+  })
+
+  if (error) {
+    throw new Error(`Failed to acquire print worker lease: ${error.message}`)
+  }
+
+  return data === true
+}
+
+/**
+ * Print every due job once. Jobs for the same printer go out in order so
+ * tickets never interleave on the paper.
+ */
+export async function processPrintQueue(
+  supabase: Client,
+  limit = 10
+): Promise<PrintQueueResult> {
+  const { data, error } = await supabase.rpc('claim_print_jobs', {
+    p_limit: limit,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim print jobs: ${error.message}`)
+  }
+
+  const jobs = (data || []) as PrintJob[]
+  const result: PrintQueueResult = {
+    claimed: jobs.length,
+    printed: 0,
+    retrying: 0,
+    failed: 0,
+  }
+  if (jobs.length === 0) {
+    return result
+  }
+
+  const { data: printerRows, error: printerError } = await supabase
+    .from('kds_printers')
+    .select('*')
+    .in('id', Array.from(new Set(jobs.map(job => job.printer_id))))
+
+  if (printerError) {
+    throw new Error(`Failed to load printers: ${printerError.message}`)
+  }
+
+  const printers = new Map(
+    ((printerRows || []) as KDSPrinter[]).map(printer => [printer.id, printer])
+  )
+  const jobsByPrinter = new Map<string, PrintJob[]>()
+  jobs.forEach(job => {
+    jobsByPrinter.set(job.printer_id, [...(jobsByPrinter.get(job.printer_id) || []), job])
+  })
+
+  await Promise.all(
+    Array.from(jobsByPrinter.values()).map(async printerJobs => {
+      for (const [index, job] of printerJobs.entries()) {
+        const outcome = await printJob(supabase, job, printers)
+        result[outcome]++
+
+        // The printer is down: hand the rest back untouched, keeping their
+        // order. claim_print_jobs holds them behind the failed job until its
+        // next attempt.
+        if (outcome !== 'printed') {
+          const remaining = printerJobs.slice(index + 1)
+          await Promise.all(
+            remaining.map(pending =>
+              supabase
+                .from('print_jobs')
+                .update({ status: 'pending', attempts: pending.attempts - 1 })
+                .eq('id', pending.id)
+            )
+          )
+          result.retrying += remaining.length
+          break
+        }
+      }
+    })
+  )
+
+  return result
+}
@@ -0,0 +1,63 @@
+/**
+ * Raw TCP Printer Transport
+ * Sends ESC/POS bytes to a network printer (JetDirect / "RAW 9100"). Server only.
+ */
+
+import net from 'node:net'
+
+export interface PrinterAddress {
+  host: string
+  port: number
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+
+/**
+ * Write a ticket to the printer and resolve once the socket has flushed and
+ * closed. Rejects on connection errors and when the printer stops responding.
+ */
+export function sendToPrinter(
+  address: PrinterAddress,
+  data: Uint8Array,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const socket = net.createConnection({
+      host: address.host,
+      port: address.port,
+    })
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return
+      }
+      settled = true
+      socket.destroy()
+      if (error) {
+        reject(error)
+      } else {
+        resolve()
+      }
+    }
+
+    socket.setTimeout(timeoutMs)
+    socket.on('timeout', () =>
+      finish(
+        new Error(
+          `Printer ${address.host}:${address.port} timed out after ${timeoutMs}ms`
+        )
+      )
+    )
+    socket.on('error', error =>
+      finish(
+        new Error(
+          `Printer ${address.host}:${address.port} unreachable: ${error.message}`
+        )
+      )
+    )
+    socket.on('connect', () => {
+      socket.end(Buffer.from(data), () => finish())
+    })
+  })
+}
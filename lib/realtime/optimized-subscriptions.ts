@@ -6,6 +6,7 @@
 import { createClient } from '@/lib/modassembly/supabase/client'
 import { KDSCacheManager } from '@/lib/cache/kds-cache'
 import { debounce, measureApiCall, throttle } from '@/lib/performance-utils'
+import { getKDSJournal } from '@/lib/offline'
 import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js'
 
 interface SubscriptionConfig {
@@ -351,6 +352,13 @@ class OptimizedRealtimeManager {
           // Wait a bit before reconnecting to ensure clean state
           await new Promise(resolve => setTimeout(resolve, 500))
           await this.getOrCreateChannel(table)
+
+          // Replay bumps and recalls journaled while the channel was down
+          if (table === 'kds_order_routing') {
+            getKDSJournal()
+              .sync()
+              .catch(error => console.error('KDS journal replay failed:', error))
+          }
         }
       } catch (reconnectError) {
         console.error(`Reconnection failed for ${channelKey}:`, reconnectError)
@@ -1,4 +1,5 @@
 import DOMPurify from 'isomorphic-dompurify'
+import { checkRateLimit, getRateLimitStore } from './rate-limit'
 
 /**
  * Input Sanitization - Nothing less than Fort Knox
@@ -70,62 +71,25 @@ export class InputSanitizer {
 }
 
 /**
- * Rate Limiting - Token bucket algorithm for API calls
+ * Rate Limiting - Sliding windows in a store shared by every instance
+ * (Postgres in production, see ./rate-limit). API routes declare their own
+ * RateLimitPolicy and call checkRateLimit directly for RateLimit-* headers.
  */
-interface RateLimitBucket {
-  tokens: number
-  lastRefill: number
-  maxTokens: number
-  refillRate: number // tokens per second
-}
-
 export class RateLimiter {
-  private static buckets = new Map<string, RateLimitBucket>()
-
   // Check if action is allowed for a user/IP
-  static isAllowed(
+  static async isAllowed(
     identifier: string,
     action: string,
-    maxTokens: number = 10,
-    refillRate: number = 1
-  ): boolean {
-    const key = `${identifier}:${action}`
-    const now = Date.now()
-
-    let bucket = this.buckets.get(key)
-    if (!bucket) {
-      bucket = {
-        tokens: maxTokens,
-        lastRefill: now,
-        maxTokens,
-        refillRate,
-      }
-      this.buckets.set(key, bucket)
-    }
-
-    // Refill tokens based on time passed
-    const timePassed = (now - bucket.lastRefill) / 1000
-    const tokensToAdd = Math.floor(timePassed * bucket.refillRate)
-    bucket.tokens = Math.min(bucket.maxTokens, bucket.tokens + tokensToAdd)
-    bucket.lastRefill = now
-
-    // Check if action is allowed
-    if (bucket.tokens >= 1) {
-      bucket.tokens -= 1
-      return true
-    }
-
-    return false
+    limit: number = 10,
+    windowMs: number = 60 * 1000
+  ): Promise<boolean> {
+    const result = await checkRateLimit({ name: action, limit, windowMs }, identifier)
+    return result.allowed
   }
 
-  // Clean old buckets to prevent memory leaks
-  static cleanup(): void {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000
-    for (const [key, bucket] of this.buckets.entries()) {
-      if (bucket.lastRefill < oneHourAgo) {
-        this.buckets.delete(key)
-      }
-    }
+  // Drop expired in-memory windows; Postgres windows expire on their own
+  static async cleanup(): Promise<void> {
+    await getRateLimitStore().cleanup?.()
   }
 }
 
@@ -0,0 +1,112 @@
+/**
+ * Rate Limiting
+ * Per-route sliding-window limits. Each API route declares its policy next to
+ * its handler and checks it once the caller is known:
+ *
+ *   const RATE_LIMIT: RateLimitPolicy = { name: 'transcribe', limit: 10, windowMs: 60000 }
+ *   const rateLimit = await checkRateLimit(RATE_LIMIT, user.id)
+ *   if (!rateLimit.allowed) return rateLimitExceeded(RATE_LIMIT, rateLimit, headers)
+ *
+ * RATE_LIMIT_STORE picks where counters live (postgres, memory); without it
+ * production shares them through Postgres and everything else keeps them in
+ * memory.
+ */
+
+import { NextResponse } from 'next/server'
+import { MemoryRateLimitStore } from './memory-store'
+import { PostgresRateLimitStore } from './postgres-store'
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitStoreName,
+} from './types'
+
+export type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitStoreName,
+} from './types'
+export { MemoryRateLimitStore } from './memory-store'
+export { PostgresRateLimitStore } from './postgres-store'
+export { slidingWindowCount } from './sliding-window'
+
+/**
+ * Store for the environment
+ */
+export function getRateLimitStoreName(
+  env: { RATE_LIMIT_STORE?: string; NODE_ENV?: string } = process.env
+): RateLimitStoreName {
+  const configured = (env.RATE_LIMIT_STORE || '').trim().toLowerCase()
+  if (configured === 'postgres' || configured === 'memory') {
+    return configured
+  }
+  return env.NODE_ENV === 'production' ? 'postgres' : 'memory'
+}
+
+// Singleton
+let storeInstance: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!storeInstance) {
+    storeInstance =
+      getRateLimitStoreName() === 'postgres'
+        ? new PostgresRateLimitStore()
+        : new MemoryRateLimitStore()
+  }
+  return storeInstance
+}
+
+/**
+ * Count a request from `identifier` (usually the user ID) against a policy
+ */
+export function checkRateLimit(
+  policy: RateLimitPolicy,
+  identifier: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  return store.hit(`${policy.name}:${identifier}`, policy.limit, policy.windowMs)
+}
+
+/**
+ * RateLimit-* response headers (IETF draft "RateLimit header fields for HTTP")
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+  }
+
+  return headers
+}
+
+/**
+ * 429 response for a denied request
+ */
+export function rateLimitExceeded(
+  policy: RateLimitPolicy,
+  result: RateLimitResult,
+  headers: Record<string, string> = {}
+): NextResponse {
+  return NextResponse.json(
+    {
+      error:
+        policy.message ||
+        `Rate limit exceeded. Limited to ${policy.limit} requests per ${Math.ceil(policy.windowMs / 1000)} seconds.`,
+    },
+    {
+      status: 429,
+      headers: {
+        ...headers,
+        ...rateLimitHeaders(result),
+      },
+    }
+  )
+}
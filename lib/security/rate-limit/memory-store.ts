@@ -0,0 +1,61 @@
+/**
+ * In-memory rate limit store. Limits are per instance and reset on restart,
+ * so use it for development, tests, and as the fallback when Postgres is down.
+ */
+
+import {
+  type WindowCounts,
+  alignWindow,
+  buildRateLimitResult,
+  hasRoom,
+} from './sliding-window'
+import type { RateLimitResult, RateLimitStore } from './types'
+
+interface MemoryWindow extends WindowCounts {
+  windowMs: number
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const
+  private windows = new Map<string, MemoryWindow>()
+
+  async hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number = Date.now()
+  ): Promise<RateLimitResult> {
+    const windowStart = alignWindow(now, windowMs)
+    const stored = this.windows.get(key)
+
+    let counts: MemoryWindow
+    if (stored && stored.windowMs === windowMs && stored.windowStart === windowStart) {
+      counts = stored
+    } else if (
+      stored &&
+      stored.windowMs === windowMs &&
+      stored.windowStart === windowStart - windowMs
+    ) {
+      counts = { windowStart, windowMs, previous: stored.current, current: 0 }
+    } else {
+      counts = { windowStart, windowMs, previous: 0, current: 0 }
+    }
+
+    const allowed = hasRoom(counts, now, limit, windowMs)
+    if (allowed) {
+      counts.current += 1
+    }
+    this.windows.set(key, counts)
+
+    return buildRateLimitResult(counts, now, limit, windowMs, allowed)
+  }
+
+  // Windows older than two spans no longer affect any count
+  cleanup(now: number = Date.now()): void {
+    for (const [key, window] of this.windows.entries()) {
+      if (window.windowStart + 2 * window.windowMs <= now) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Postgres rate limit store. Counters live in rate_limit_windows and are
+ * checked and bumped atomically by rate_limit_hit(), so limits hold across
+ * serverless instances and cold starts. Only the service role may call it,
+ * so nobody can spend someone else's limit. Server only.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/modassembly/supabase/service'
+import type { Database } from '@/types/database'
+import { MemoryRateLimitStore } from './memory-store'
+import { buildRateLimitResult } from './sliding-window'
+import type { RateLimitResult, RateLimitStore } from './types'
+
+type Client = SupabaseClient<Database>
+type RateLimitHitRow = Database['public']['Functions']['rate_limit_hit']['Returns'][number]
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres' as const
+  private getClient: () => Client | Promise<Client>
+  // Keeps limits per instance while the database is unreachable
+  private fallback: RateLimitStore
+
+  constructor(
+    getClient: () => Client | Promise<Client> = createServiceClient,
+    fallback: RateLimitStore = new MemoryRateLimitStore()
+  ) {
+    this.getClient = getClient
+    this.fallback = fallback
+  }
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    try {
+      const supabase = await this.getClient()
+      const { data, error } = await supabase.rpc('rate_limit_hit', {
+        p_key: key,
+        p_limit: limit,
+        p_window_ms: windowMs,
+      })
+
+      if (error) {
+        throw error
+      }
+
+      const row = (data as RateLimitHitRow[] | null)?.[0]
+      if (!row) {
+        throw new Error('rate_limit_hit returned no row')
+      }
+
+      // Use the database clock so every instance computes the same window
+      return buildRateLimitResult(
+        {
+          windowStart: Number(row.window_start_ms),
+          previous: row.previous_hits,
+          current: row.current_hits,
+        },
+        Number(row.now_ms),
+        limit,
+        windowMs,
+        row.allowed
+      )
+    } catch (error) {
+      console.error('Rate limit store unavailable, using in-memory limits:', error)
+      return this.fallback.hit(key, limit, windowMs)
+    }
+  }
+}
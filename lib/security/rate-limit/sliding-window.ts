@@ -0,0 +1,92 @@
+/**
+ * Sliding Window Counter
+ * Each key keeps a hit count for the current and previous fixed window. The
+ * previous window's count is weighted by how much of it still overlaps the
+ * sliding window, which is accurate enough for request limits and needs two
+ * counters instead of a timestamp per request. The Postgres store runs the
+ * same arithmetic in rate_limit_hit().
+ */
+
+import type { RateLimitResult } from './types'
+
+export interface WindowCounts {
+  // Start of the current fixed window (epoch ms)
+  windowStart: number
+  previous: number
+  current: number
+}
+
+export function alignWindow(now: number, windowMs: number): number {
+  return Math.floor(now / windowMs) * windowMs
+}
+
+/**
+ * Requests counted in the sliding window ending at `now`
+ */
+export function slidingWindowCount(
+  counts: WindowCounts,
+  now: number,
+  windowMs: number
+): number {
+  const elapsed = now - counts.windowStart
+  const previousWeight = Math.max(0, 1 - elapsed / windowMs)
+  return counts.previous * previousWeight + counts.current
+}
+
+/**
+ * Whether one more request fits
+ */
+export function hasRoom(
+  counts: WindowCounts,
+  now: number,
+  limit: number,
+  windowMs: number
+): boolean {
+  return slidingWindowCount(counts, now, windowMs) + 1 <= limit
+}
+
+/**
+ * How long until one more request fits: either once enough of the previous
+ * window has slid out, or some way into the next window
+ */
+function retryAfter(
+  counts: WindowCounts,
+  now: number,
+  limit: number,
+  windowMs: number
+): number {
+  const elapsed = now - counts.windowStart
+  const resetMs = counts.windowStart + windowMs - now
+  const room = limit - 1 - counts.current
+
+  if (room >= 0 && counts.previous > 0) {
+    const wait = windowMs * (1 - room / counts.previous) - elapsed
+    if (wait < resetMs) {
+      return Math.max(0, Math.ceil(wait))
+    }
+  }
+
+  const nextWindowWait =
+    counts.current > 0 ? windowMs * Math.max(0, 1 - (limit - 1) / counts.current) : 0
+  return Math.ceil(resetMs + nextWindowWait)
+}
+
+/**
+ * Describe a hit given the counts after it was (or was not) recorded
+ */
+export function buildRateLimitResult(
+  counts: WindowCounts,
+  now: number,
+  limit: number,
+  windowMs: number,
+  allowed: boolean
+): RateLimitResult {
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - slidingWindowCount(counts, now, windowMs))),
+    resetMs: Math.max(0, counts.windowStart + windowMs - now),
+    retryAfterMs: allowed ? 0 : retryAfter(counts, now, limit, windowMs),
+    windowMs,
+  }
+}
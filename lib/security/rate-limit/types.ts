@@ -0,0 +1,36 @@
+/**
+ * Rate Limit Types
+ * Sliding-window limits kept in a store every server instance shares
+ */
+
+export type RateLimitStoreName = 'memory' | 'postgres'
+
+export interface RateLimitPolicy {
+  // Key namespace, one per route or action ("transcribe", "print_process")
+  name: string
+  // Requests allowed per window
+  limit: number
+  windowMs: number
+  // Shown to the caller when the limit is hit
+  message?: string
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  // Requests left in the sliding window after this one
+  remaining: number
+  // Until the current fixed window ends
+  resetMs: number
+  // How long a denied caller should wait; 0 when allowed
+  retryAfterMs: number
+  windowMs: number
+}
+
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName
+  // Count one request against the key if the window has room
+  hit(_key: string, _limit: number, _windowMs: number): Promise<RateLimitResult>
+  // Drop expired windows; stores that expire on their own can skip this
+  cleanup?(): Promise<void> | void
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal RFC 4180 CSV for admin import/export: quoted fields may contain
+ * commas, quotes ("") and line breaks.
+ */
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const text = value === null || value === undefined ? '' : String(value)
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(',')
+    )
+    .join('\r\n')
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
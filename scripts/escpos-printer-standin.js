@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * ESC/POS PRINTER STAND-IN
+ *
+ * Listens like a network kitchen printer (RAW port 9100) and prints each
+ * ticket it receives to the console, so printing can be tested without
+ * hardware. Add a printer at 127.0.0.1:9100 in Admin > Printer.
+ *
+ * Usage: npm run printer:standin   (PORT=9101 to listen elsewhere)
+ */
+
+const net = require('net')
+
+const PORT = parseInt(process.env.PORT || '9100', 10)
+
+const ESC = 0x1b
+const GS = 0x1d
+
+// Parameter bytes that follow each command we emit
+const ESC_PARAMS = { 0x40: 0, 0x74: 1, 0x61: 1, 0x45: 1, 0x64: 1 }
+const GS_PARAMS = { 0x42: 1, 0x21: 1 }
+
+function decode(buffer) {
+  let text = ''
+  let cuts = 0
+
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i]
+
+    if (byte === ESC) {
+      i += 1 + (ESC_PARAMS[buffer[i + 1]] ?? 1)
+    } else if (byte === GS) {
+      if (buffer[i + 1] === 0x56) {
+        // GS V m [n]
+        cuts++
+        text += `\n${'-'.repeat(12)} cut ${'-'.repeat(12)}\n`
+        i += buffer[i + 2] >= 65 ? 3 : 2
+      } else {
+        i += 1 + (GS_PARAMS[buffer[i + 1]] ?? 1)
+      }
+    } else if (byte === 0x0a || (byte >= 0x20 && byte < 0x7f)) {
+      text += String.fromCharCode(byte)
+    }
+  }
+
+  return { text, cuts }
+}
+
+const server = net.createServer(socket => {
+  const chunks = []
+  const from = `${socket.remoteAddress}:${socket.remotePort}`
+
+  socket.on('data', chunk => chunks.push(chunk))
+  socket.on('end', () => {
+    const buffer = Buffer.concat(chunks)
+    const { text, cuts } = decode(buffer)
+
+    console.log(`\n🖨️  ${new Date().toLocaleTimeString()} ${buffer.length} bytes from ${from}, ${cuts} cut(s)`)
+    console.log(text)
+  })
+  socket.on('error', error => console.error(`❌ ${from}: ${error.message}`))
+})
+
+server.listen(PORT, () => {
+  console.log(`🖨️  ESC/POS printer stand-in listening on port ${PORT}`)
+})
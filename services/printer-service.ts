@@ -1,186 +1,112 @@
-// Mock printer service for browser environment
-// In a real implementation, this would communicate with a backend API
-
-// Printer configuration
-type PrinterConfig = {
-  ipAddress: string
-  port?: number
-  width?: number
-  characterSet?: string
-}
+// Kitchen printer service for the browser
+// Tickets are queued in the database (see print_jobs) and printed by
+// /api/print/process, which runs on the server on the printers' network.
+
+import {
+  fetchPrintJob,
+  queueTestPrint,
+  reprintTicket,
+} from '@/lib/modassembly/supabase/database/printing'
+import {
+  PRINT_WORKER_LEASE_SECONDS,
+  type PrintQueueResult,
+} from '@/lib/printing/print-queue'
+
+// How often the screen holding the print worker lease drains the queue
+const DEFAULT_POLL_INTERVAL = 5000
+
+// How often the other screens check whether the lease has lapsed
+const STANDBY_POLL_INTERVAL = (PRINT_WORKER_LEASE_SECONDS * 1000) / 2
+
+// Drain due print jobs now. With a worker ID the queue is only drained while
+// that worker holds the lease; `leased` says whether it did.
+export const processPrintQueue = async (
+  workerId?: string
+): Promise<PrintQueueResult & { leased: boolean }> => {
+  const url = workerId
+    ? `/api/print/process?${new URLSearchParams({ worker: workerId })}`
+    : '/api/print/process'
+  const response = await fetch(url, { method: 'POST' })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.message || body.error || 'Failed to process print queue')
+  }
 
-// Default configuration
-let printerConfig: PrinterConfig = {
-  ipAddress: '192.168.1.100',
-  port: 9100,
-  width: 42, // Number of characters per line
-  characterSet: 'UTF-8',
+  return body
 }
 
-// Mock printer connection status
-let isPrinterConnected = false
-
-// Add caching for printer status to reduce redundant operations
-let lastConnectionAttempt = 0
-const CONNECTION_CACHE_TIME = 30000 // 30 seconds
-
-// Initialize printer connection
-export const initializePrinter = async (
-  config?: Partial<PrinterConfig>
-): Promise<boolean> => {
-  try {
-    // Update config if provided
-    if (config) {
-      printerConfig = { ...printerConfig, ...config }
+// Keep draining the queue in the background; returns a stop function.
+// Every screen may run this, but only the one holding the print worker lease
+// drains the queue - the rest check back at a slower pace.
+export const startPrintQueueWorker = (
+  intervalMs: number = DEFAULT_POLL_INTERVAL
+): (() => void) => {
+  const workerId = crypto.randomUUID()
+  let stopped = false
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  const tick = async () => {
+    let delay = intervalMs
+    try {
+      const { leased } = await processPrintQueue(workerId)
+      if (!leased) {
+        delay = Math.max(intervalMs, STANDBY_POLL_INTERVAL)
+      }
+    } catch (error) {
+      console.error('Error processing print queue:', error)
     }
 
-    const now = Date.now()
-
-    // Use cached result if recent
-    if (now - lastConnectionAttempt < CONNECTION_CACHE_TIME) {
-      console.log('Using cached printer connection status:', isPrinterConnected)
-      return isPrinterConnected
+    if (!stopped) {
+      timeout = setTimeout(tick, delay)
     }
-
-    // In a real implementation, this would attempt to connect to the printer
-    console.log('Initializing printer with config:', printerConfig)
-
-    // Simulate connection success (80% of the time)
-    isPrinterConnected = Math.random() < 0.8
-    lastConnectionAttempt = now
-
-    return isPrinterConnected
-  } catch (error) {
-    console.error('Error initializing printer:', error)
-    isPrinterConnected = false
-    return false
   }
-}
-
-// Print food order ticket
-export const printFoodOrder = async (order: any): Promise<boolean> => {
-  // Check if printer is connected
-  if (!isPrinterConnected) {
-    console.error('Printer not connected')
-    return false
-  }
-
-  try {
-    // Get printer settings from localStorage
-    const settingsStr = localStorage.getItem('printerSettings')
-    const settings = settingsStr ? JSON.parse(settingsStr) : {}
 
-    if (!settings.printFoodOrders) {
-      console.log('Food order printing disabled in settings')
-      return true // Return true as this is an intentional skip
-    }
-
-    // In a real implementation, this would format and send the ticket to the printer
-    console.log('Printing food order:', order)
-
-    // Format ticket (for logging purposes)
-    const ticket = [
-      '===== FOOD ORDER =====',
-      `Table: ${order.table}`,
-      `Seat: ${order.seat}`,
-      `Time: ${new Date().toLocaleTimeString()}`,
-      '---------------------',
-      ...order.orderText
-        .split(',')
-        .map((item: string, index: number) => `${index + 1}. ${item.trim()}`),
-      '---------------------',
-      `Order ID: ${order.id}`,
-    ].join('\n')
-
-    console.log('Ticket content:\n', ticket)
-
-    // Simulate successful printing
-    return true
-  } catch (error) {
-    console.error('Error printing food order:', error)
-    return false
+  tick()
+  return () => {
+    stopped = true
+    clearTimeout(timeout)
   }
 }
 
-// Print drink order ticket
-export const printDrinkOrder = async (order: any): Promise<boolean> => {
-  // Check if printer is connected
-  if (!isPrinterConnected) {
-    console.error('Printer not connected')
-    return false
-  }
-
-  try {
-    // Get printer settings from localStorage
-    const settingsStr = localStorage.getItem('printerSettings')
-    const settings = settingsStr ? JSON.parse(settingsStr) : {}
-
-    if (!settings.printDrinkOrders) {
-      console.log('Drink order printing disabled in settings')
-      return true // Return true as this is an intentional skip
-    }
-
-    // In a real implementation, this would format and send the ticket to the printer
-    console.log('Printing drink order:', order)
-
-    // Format ticket (for logging purposes)
-    const ticket = [
-      '===== DRINK ORDER =====',
-      `Table: ${order.table}`,
-      `Seat: ${order.seat}`,
-      `Time: ${new Date().toLocaleTimeString()}`,
-      '----------------------',
-      ...order.orderText
-        .split(',')
-        .map((item: string, index: number) => `${index + 1}. ${item.trim()}`),
-      '----------------------',
-      `Order ID: ${order.id}`,
-    ].join('\n')
-
-    console.log('Ticket content:\n', ticket)
-
-    // Simulate successful printing
-    return true
-  } catch (error) {
-    console.error('Error printing drink order:', error)
-    return false
+// Print a test page; resolves with the printer's error when it fails
+export const testPrinterConnection = async (
+  printerId: string,
+  userId?: string
+): Promise<{ success: boolean; error: string | null }> => {
+  const job = await queueTestPrint(printerId, userId)
+  await processPrintQueue()
+
+  const result = await fetchPrintJob(job.id)
+  return {
+    success: result.status === 'printed',
+    error: result.last_error,
   }
 }
 
-// Update printer configuration
-export const updatePrinterConfig = async (
-  config: Partial<PrinterConfig>
-): Promise<boolean> => {
-  printerConfig = { ...printerConfig, ...config }
-  return initializePrinter(printerConfig)
+// Reprint a station ticket on its station's printer
+export const reprintStationTicket = async (
+  routingId: string,
+  userId?: string
+): Promise<void> => {
+  await reprintTicket(routingId, userId)
+  await processPrintQueue()
 }
 
-// Test printer connection
-export const testPrinterConnection = async (): Promise<boolean> => {
-  try {
-    // In a real implementation, this would send a test page to the printer
-    console.log('Testing printer connection to:', printerConfig.ipAddress)
-
-    // Simulate connection test (70% success rate)
-    const success = Math.random() < 0.7
-
-    if (success) {
-      console.log('Printer test successful')
-      isPrinterConnected = true
-    } else {
-      console.log('Printer test failed')
-      isPrinterConnected = false
-    }
+// Plain-text rendering of a ticket as it will print
+export const getTicketPreview = async (
+  routingId: string,
+  charsPerLine?: number
+): Promise<string> => {
+  const params = new URLSearchParams({ format: 'text' })
+  if (charsPerLine) {
+    params.set('width', String(charsPerLine))
+  }
 
-    return success
-  } catch (error) {
-    console.error('Error testing printer:', error)
-    isPrinterConnected = false
-    return false
+  const response = await fetch(`/api/print/tickets/${routingId}?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to load ticket preview')
   }
-}
 
-// Get printer connection status
-export const getPrinterStatus = (): boolean => {
-  return isPrinterConnected
+  return response.text()
 }
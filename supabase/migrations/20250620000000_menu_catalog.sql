@@ -0,0 +1,214 @@
+-- Menu Catalog Migration
+-- Structured menu (categories, items, modifiers, availability windows) and
+-- order lines that reference catalog items instead of free-text strings.
+-- orders.items is kept as a denormalized display list for legacy readers.
+
+-- ==============================================================================
+-- MENU CATEGORIES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS menu_categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  position INTEGER DEFAULT 0,
+  -- Default KDS station for items in this category (items may override)
+  station_type TEXT CHECK (station_type IN ('grill', 'fryer', 'salad', 'expo', 'bar', 'prep', 'dessert')),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_menu_category_name UNIQUE(name)
+);
+
+-- ==============================================================================
+-- MENU ITEMS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS menu_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID REFERENCES menu_categories(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL DEFAULT 'food' CHECK (type IN ('food', 'drink')),
+  station_type TEXT CHECK (station_type IN ('grill', 'fryer', 'salad', 'expo', 'bar', 'prep', 'dessert')),
+  price_cents INTEGER CHECK (price_cents IS NULL OR price_cents >= 0),
+  estimated_prep_time INTEGER, -- Seconds
+  is_available BOOLEAN DEFAULT true, -- Manual 86 switch
+  position INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_menu_item_name UNIQUE(name)
+);
+
+-- ==============================================================================
+-- MENU MODIFIERS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS menu_modifiers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE CASCADE, -- NULL = applies to any item
+  name TEXT NOT NULL,
+  price_delta_cents INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ==============================================================================
+-- AVAILABILITY WINDOWS
+-- ==============================================================================
+-- An item with no windows is always available. With windows, it is available
+-- only inside one of them (local time of day, optionally per weekday).
+CREATE TABLE IF NOT EXISTS menu_availability_windows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Sunday, NULL = every day
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_availability_window CHECK (start_time < end_time)
+);
+
+-- ==============================================================================
+-- ORDER LINES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS order_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE SET NULL,
+  name TEXT NOT NULL, -- Snapshot of the item name at order time
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 50),
+  modifiers JSONB NOT NULL DEFAULT '[]', -- [{ modifier_id, name }]
+  notes TEXT,
+  position INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_menu_items_category ON menu_items(category_id);
+CREATE INDEX IF NOT EXISTS idx_menu_items_available ON menu_items(type) WHERE is_available = true;
+CREATE INDEX IF NOT EXISTS idx_menu_modifiers_item ON menu_modifiers(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_menu_availability_item ON menu_availability_windows(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_menu_item ON order_items(menu_item_id);
+
+-- updated_at triggers (function created by the KDS migration)
+CREATE TRIGGER trigger_menu_categories_updated_at
+  BEFORE UPDATE ON menu_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_menu_items_updated_at
+  BEFORE UPDATE ON menu_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_menu_modifiers_updated_at
+  BEFORE UPDATE ON menu_modifiers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_order_items_updated_at
+  BEFORE UPDATE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_modifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view menu categories" ON menu_categories
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu categories" ON menu_categories
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view menu items" ON menu_items
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu items" ON menu_items
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view menu modifiers" ON menu_modifiers
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu modifiers" ON menu_modifiers
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view menu availability" ON menu_availability_windows
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu availability" ON menu_availability_windows
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Staff can view order items" ON order_items
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (
+      SELECT user_id FROM profiles WHERE role IN ('admin', 'server', 'cook')
+    )
+  );
+
+CREATE POLICY "Staff can create order items" ON order_items
+  FOR INSERT TO authenticated WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM profiles WHERE role IN ('admin', 'server', 'cook')
+    )
+  );
+
+CREATE POLICY "Staff can update order items" ON order_items
+  FOR UPDATE TO authenticated USING (
+    auth.uid() IN (
+      SELECT user_id FROM profiles WHERE role IN ('admin', 'server', 'cook')
+    )
+  );
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+INSERT INTO menu_categories (name, position, station_type) VALUES
+  ('Grill', 1, 'grill'),
+  ('Fryer', 2, 'fryer'),
+  ('Salads', 3, 'salad'),
+  ('Soups & Sides', 4, 'prep'),
+  ('Desserts', 5, 'dessert'),
+  ('Beverages', 6, 'bar')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO menu_items (category_id, name, type, position)
+SELECT c.id, i.name, i.type, i.position
+FROM (VALUES
+  ('Grill', 'Cheeseburger', 'food', 1),
+  ('Grill', 'Grilled Chicken', 'food', 2),
+  ('Grill', 'Ribeye Steak', 'food', 3),
+  ('Fryer', 'French Fries', 'food', 1),
+  ('Fryer', 'Onion Rings', 'food', 2),
+  ('Fryer', 'Fish and Chips', 'food', 3),
+  ('Salads', 'Caesar Salad', 'food', 1),
+  ('Salads', 'Garden Salad', 'food', 2),
+  ('Soups & Sides', 'Soup of the Day', 'food', 1),
+  ('Soups & Sides', 'Mashed Potatoes', 'food', 2),
+  ('Desserts', 'Chocolate Cake', 'food', 1),
+  ('Desserts', 'Ice Cream', 'food', 2),
+  ('Beverages', 'Coffee', 'drink', 1),
+  ('Beverages', 'Iced Tea', 'drink', 2),
+  ('Beverages', 'Orange Juice', 'drink', 3)
+) AS i(category, name, type, position)
+JOIN menu_categories c ON c.name = i.category
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE menu_items IS 'Menu catalog; order_items reference these rows';
+COMMENT ON TABLE order_items IS 'Structured order lines (catalog item, quantity, modifiers)';
@@ -0,0 +1,52 @@
+-- Menu Item Synonyms Migration
+-- Admin-managed alternate phrasings used to resolve voice-transcribed item
+-- names ("cheese burger", "burger with cheese") onto catalog items.
+
+-- ==============================================================================
+-- MENU ITEM SYNONYMS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS menu_item_synonyms (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  phrase TEXT NOT NULL CHECK (length(trim(phrase)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A phrase can only point at one item, regardless of casing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_item_synonyms_phrase
+  ON menu_item_synonyms(lower(trim(phrase)));
+CREATE INDEX IF NOT EXISTS idx_menu_item_synonyms_item
+  ON menu_item_synonyms(menu_item_id);
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE menu_item_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view menu item synonyms" ON menu_item_synonyms
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu item synonyms" ON menu_item_synonyms
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+INSERT INTO menu_item_synonyms (menu_item_id, phrase)
+SELECT m.id, s.phrase
+FROM (VALUES
+  ('Cheeseburger', 'burger with cheese'),
+  ('Cheeseburger', 'cheese burger'),
+  ('French Fries', 'fries'),
+  ('French Fries', 'chips'),
+  ('Soup of the Day', 'soup'),
+  ('Ice Cream', 'vanilla ice cream'),
+  ('Iced Tea', 'ice tea'),
+  ('Orange Juice', 'OJ')
+) AS s(item, phrase)
+JOIN menu_items m ON m.name = s.item
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE menu_item_synonyms IS 'Alternate phrasings matched by the post-transcription item resolver';
@@ -0,0 +1,54 @@
+-- Dietary Enforcement Migration
+-- Allergen and diet tags on menu items, checked against
+-- profiles.dietary_restrictions when an order is placed. Overridden
+-- conflicts are kept on the order and logged as DIETARY_VIOLATION anomalies.
+
+-- ==============================================================================
+-- MENU ITEM TAGS
+-- ==============================================================================
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS diet_tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE menu_items
+  ADD CONSTRAINT valid_menu_item_allergens CHECK (
+    allergens <@ ARRAY['peanuts', 'tree_nuts', 'dairy', 'gluten', 'eggs', 'shellfish', 'fish', 'soy', 'sesame']
+  ),
+  ADD CONSTRAINT valid_menu_item_diet_tags CHECK (
+    diet_tags <@ ARRAY['vegetarian', 'vegan', 'low_sodium', 'diabetic_friendly', 'halal', 'kosher']
+  );
+
+-- ==============================================================================
+-- ORDER DIETARY CONTEXT
+-- ==============================================================================
+ALTER TABLE orders
+  -- Resident restrictions at the time of ordering, shown on KDS tickets
+  ADD COLUMN IF NOT EXISTS dietary_alerts TEXT[] NOT NULL DEFAULT '{}',
+  -- Set when a server knowingly submitted a conflicting order
+  ADD COLUMN IF NOT EXISTS dietary_override_reason TEXT;
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+UPDATE menu_items m
+SET allergens = t.allergens, diet_tags = t.diet_tags
+FROM (VALUES
+  ('Cheeseburger', ARRAY['dairy', 'gluten', 'sesame'], ARRAY[]::TEXT[]),
+  ('Grilled Chicken', ARRAY[]::TEXT[], ARRAY['low_sodium', 'diabetic_friendly']),
+  ('French Fries', ARRAY[]::TEXT[], ARRAY['vegetarian', 'vegan']),
+  ('Onion Rings', ARRAY['gluten', 'eggs'], ARRAY['vegetarian']),
+  ('Fish and Chips', ARRAY['fish', 'gluten', 'eggs'], ARRAY[]::TEXT[]),
+  ('Caesar Salad', ARRAY['dairy', 'eggs', 'fish', 'gluten'], ARRAY[]::TEXT[]),
+  ('Garden Salad', ARRAY[]::TEXT[], ARRAY['vegetarian', 'vegan', 'low_sodium', 'diabetic_friendly']),
+  ('Mashed Potatoes', ARRAY['dairy'], ARRAY['vegetarian']),
+  ('Chocolate Cake', ARRAY['dairy', 'eggs', 'gluten'], ARRAY['vegetarian']),
+  ('Ice Cream', ARRAY['dairy', 'eggs'], ARRAY['vegetarian']),
+  ('Coffee', ARRAY[]::TEXT[], ARRAY['vegetarian', 'vegan', 'low_sodium', 'diabetic_friendly']),
+  ('Iced Tea', ARRAY[]::TEXT[], ARRAY['vegetarian', 'vegan', 'low_sodium']),
+  ('Orange Juice', ARRAY[]::TEXT[], ARRAY['vegetarian', 'vegan', 'low_sodium'])
+) AS t(name, allergens, diet_tags)
+WHERE m.name = t.name;
+
+COMMENT ON COLUMN menu_items.allergens IS 'Allergens present in the item (checked against resident restrictions)';
+COMMENT ON COLUMN menu_items.diet_tags IS 'Diets the item satisfies (e.g. vegetarian, low_sodium)';
+COMMENT ON COLUMN orders.dietary_override_reason IS 'Server-provided reason for submitting despite a dietary conflict';
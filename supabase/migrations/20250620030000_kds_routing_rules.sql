@@ -0,0 +1,318 @@
+-- KDS Routing Rules Migration
+-- Routing rules move from the hard-coded keyword map in kds/routing.ts into
+-- the database. A single SQL evaluator decides where every order line goes;
+-- the insert triggers and intelligentOrderRouting (via RPC) both call it, so
+-- the application and the database can no longer route an order differently.
+
+-- ==============================================================================
+-- ROUTING RULES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS kds_routing_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- menu_item/category match catalog lines, keyword/regex match the text of
+  -- free-text lines, order_type matches every line of an order of that type
+  match_type TEXT NOT NULL CHECK (match_type IN ('menu_item', 'category', 'keyword', 'regex', 'order_type')),
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES menu_categories(id) ON DELETE CASCADE,
+  pattern TEXT,
+  station_type TEXT NOT NULL CHECK (station_type IN ('grill', 'fryer', 'salad', 'expo', 'bar', 'prep', 'dessert')),
+  -- Higher priority rules win when several match the same line
+  priority INTEGER NOT NULL DEFAULT 10,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_routing_rule_target CHECK (
+    (match_type = 'menu_item' AND menu_item_id IS NOT NULL) OR
+    (match_type = 'category' AND category_id IS NOT NULL) OR
+    (match_type IN ('keyword', 'regex', 'order_type') AND COALESCE(TRIM(pattern), '') <> '')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_kds_routing_rules_active ON kds_routing_rules(priority DESC) WHERE is_active = true;
+
+CREATE TRIGGER update_kds_routing_rules_updated_at
+  BEFORE UPDATE ON kds_routing_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A bad pattern would break routing for every order, so reject it on save
+CREATE OR REPLACE FUNCTION validate_kds_routing_rule()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.match_type = 'regex' THEN
+    BEGIN
+      PERFORM '' ~* NEW.pattern;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RAISE EXCEPTION 'Invalid routing rule pattern: %', NEW.pattern
+        USING ERRCODE = 'check_violation';
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_validate_kds_routing_rule
+  BEFORE INSERT OR UPDATE ON kds_routing_rules
+  FOR EACH ROW EXECUTE FUNCTION validate_kds_routing_rule();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE kds_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view KDS routing rules" ON kds_routing_rules
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage KDS routing rules" ON kds_routing_rules
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+-- ==============================================================================
+-- RULE EVALUATION
+-- ==============================================================================
+
+-- Where each line of a (possibly hypothetical) order would go. Lines are
+-- JSON objects with a name and an optional menu_item_id. A line takes the
+-- highest-priority matching rule; catalog lines no rule claims use their menu
+-- item's (or category's) station; anything else goes to the fallback station.
+CREATE OR REPLACE FUNCTION preview_order_routing(
+  p_order_type TEXT,
+  p_lines JSONB
+)
+RETURNS TABLE (
+  line_index INTEGER,
+  line_name TEXT,
+  station_type TEXT,
+  station_id UUID,
+  station_name TEXT,
+  rule_id UUID,
+  rule_name TEXT,
+  source TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_fallback TEXT;
+  v_line RECORD;
+  v_menu_item RECORD;
+  v_rule RECORD;
+  v_station RECORD;
+  v_type TEXT;
+BEGIN
+  SELECT c.value #>> '{}' INTO v_fallback
+  FROM kds_configuration c
+  WHERE c.key = 'routing_fallback_station';
+  v_fallback := COALESCE(v_fallback, 'expo');
+
+  FOR v_line IN
+    SELECT
+      (l.ordinality - 1)::INTEGER AS idx,
+      COALESCE(l.value->>'name', '') AS name,
+      NULLIF(l.value->>'menu_item_id', '')::UUID AS menu_item_id
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB)) WITH ORDINALITY AS l(value, ordinality)
+  LOOP
+    SELECT mi.category_id, mi.station_type AS item_station, mc.station_type AS category_station
+    INTO v_menu_item
+    FROM menu_items mi
+    LEFT JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = v_line.menu_item_id;
+
+    SELECT r.id, r.name, r.station_type INTO v_rule
+    FROM kds_routing_rules r
+    WHERE r.is_active = true
+      AND CASE r.match_type
+        WHEN 'menu_item' THEN r.menu_item_id = v_line.menu_item_id
+        WHEN 'category' THEN r.category_id = v_menu_item.category_id
+        -- Whole words only, so "pot" no longer matches "potatoes"
+        WHEN 'keyword' THEN v_line.menu_item_id IS NULL
+          AND v_line.name ~* ('\m' || regexp_replace(TRIM(r.pattern), '([^[:alnum:][:space:]])', '\\\1', 'g') || '\M')
+        WHEN 'regex' THEN v_line.menu_item_id IS NULL AND v_line.name ~* r.pattern
+        WHEN 'order_type' THEN r.pattern = p_order_type
+        ELSE false
+      END
+    ORDER BY
+      r.priority DESC,
+      -- Equal priority: the more specific rule wins, and an order's type
+      -- beats guesses from the line's text
+      array_position(ARRAY['menu_item', 'category', 'order_type', 'regex', 'keyword'], r.match_type),
+      r.created_at
+    LIMIT 1;
+
+    rule_id := v_rule.id;
+    rule_name := v_rule.name;
+    IF v_rule.id IS NOT NULL THEN
+      v_type := v_rule.station_type;
+      source := 'rule';
+    ELSIF COALESCE(v_menu_item.item_station, v_menu_item.category_station) IS NOT NULL THEN
+      v_type := COALESCE(v_menu_item.item_station, v_menu_item.category_station);
+      source := 'catalog';
+    ELSE
+      v_type := v_fallback;
+      source := 'fallback';
+    END IF;
+
+    SELECT s.id, s.name INTO v_station
+    FROM kds_stations s
+    WHERE s.type = v_type AND s.is_active = true
+    ORDER BY s.position, s.created_at
+    LIMIT 1;
+
+    -- Target station type has no active station: use the fallback, and
+    -- failing that the first active station so the ticket is never lost
+    IF v_station.id IS NULL AND v_type <> v_fallback THEN
+      v_type := v_fallback;
+      source := 'fallback';
+      SELECT s.id, s.name INTO v_station
+      FROM kds_stations s
+      WHERE s.type = v_type AND s.is_active = true
+      ORDER BY s.position, s.created_at
+      LIMIT 1;
+    END IF;
+
+    IF v_station.id IS NULL THEN
+      SELECT s.id, s.name, s.type INTO v_station
+      FROM kds_stations s
+      WHERE s.is_active = true
+      ORDER BY s.position, s.created_at
+      LIMIT 1;
+      v_type := COALESCE(v_station.type, v_type);
+      source := 'fallback';
+    END IF;
+
+    line_index := v_line.idx;
+    line_name := v_line.name;
+    station_type := v_type;
+    station_id := v_station.id;
+    station_name := v_station.name;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Route an order from its catalog lines (or orders.items for free-text
+-- orders). Safe to call repeatedly: routings no station has started are
+-- replaced, started or completed ones are kept.
+CREATE OR REPLACE FUNCTION route_order_to_stations(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order RECORD;
+  v_lines JSONB;
+  v_station_ids UUID[];
+  v_station_types TEXT[];
+BEGIN
+  SELECT o.id, o.type, o.items INTO v_order FROM orders o WHERE o.id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object('name', oi.name, 'menu_item_id', oi.menu_item_id)
+    ORDER BY oi.created_at, oi.id
+  )
+  INTO v_lines
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  IF v_lines IS NULL AND jsonb_typeof(v_order.items) = 'array' THEN
+    SELECT jsonb_agg(jsonb_build_object('name', item) ORDER BY ordinality)
+    INTO v_lines
+    FROM jsonb_array_elements_text(v_order.items) WITH ORDINALITY AS t(item, ordinality);
+  END IF;
+
+  -- Stations in the order their first line appears
+  SELECT
+    COALESCE(array_agg(t.station_id ORDER BY t.first_line), '{}'),
+    COALESCE(array_agg(t.station_type ORDER BY t.first_line), '{}')
+  INTO v_station_ids, v_station_types
+  FROM (
+    SELECT p.station_id, MIN(p.station_type) AS station_type, MIN(p.line_index) AS first_line
+    FROM preview_order_routing(v_order.type, v_lines) p
+    WHERE p.station_id IS NOT NULL
+    GROUP BY p.station_id
+  ) t;
+
+  DELETE FROM kds_order_routing r
+  WHERE r.order_id = p_order_id
+    AND r.started_at IS NULL
+    AND r.completed_at IS NULL
+    AND NOT (r.station_id = ANY(v_station_ids));
+
+  INSERT INTO kds_order_routing (order_id, station_id, sequence, priority)
+  SELECT
+    p_order_id,
+    t.station_id,
+    t.seq::INTEGER,
+    -- Grill gets higher priority
+    CASE WHEN t.station_type = 'grill' THEN 2 ELSE 1 END
+  FROM unnest(v_station_ids, v_station_types) WITH ORDINALITY AS t(station_id, station_type, seq)
+  ON CONFLICT ON CONSTRAINT unique_order_station DO NOTHING;
+
+  RETURN COALESCE(array_length(v_station_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ==============================================================================
+-- TRIGGERS
+-- ==============================================================================
+
+-- Replaces the original food→grill/expo, beverage→bar trigger body
+CREATE OR REPLACE FUNCTION auto_route_order_to_stations()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM route_order_to_stations(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Catalog lines are inserted after their order, so route again once they exist
+CREATE OR REPLACE FUNCTION auto_route_order_items_to_stations()
+RETURNS trigger AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  FOR v_order_id IN SELECT DISTINCT order_id FROM new_order_items LOOP
+    PERFORM route_order_to_stations(v_order_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_auto_route_order_items
+  AFTER INSERT ON order_items
+  REFERENCING NEW TABLE AS new_order_items
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION auto_route_order_items_to_stations();
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+INSERT INTO kds_configuration (key, value, description) VALUES
+  ('routing_fallback_station', '"expo"', 'Station type for order lines no routing rule or menu item places')
+ON CONFLICT (key) DO NOTHING;
+
+-- The previous keyword map, minus "bowl" (it sent salad and grain bowls to dessert)
+INSERT INTO kds_routing_rules (name, match_type, pattern, station_type, priority)
+SELECT initcap(k.keyword) || ' → ' || s.station_type, 'keyword', k.keyword, s.station_type, 10
+FROM (VALUES
+  ('grill', ARRAY['steak', 'burger', 'chicken', 'beef', 'pork', 'grilled', 'barbecue', 'bbq', 'ribeye', 'filet', 'sirloin', 'cheeseburger', 'bacon', 'patty']),
+  ('fryer', ARRAY['fries', 'fried', 'tempura', 'wings', 'nuggets', 'crispy', 'loaded', 'onion rings', 'calamari', 'fish and chips']),
+  ('salad', ARRAY['salad', 'greens', 'vegetables', 'fresh', 'raw', 'lettuce', 'caesar', 'greek', 'chef', 'garden', 'spinach']),
+  ('prep', ARRAY['soup', 'sauce', 'dressing', 'marinade', 'prep', 'mashed', 'potatoes', 'side', 'fondue', 'pot']),
+  ('dessert', ARRAY['dessert', 'cake', 'ice cream', 'sweet', 'chocolate', 'fruit', 'tiramisu', 'waffle', 'belgian', 'stack', 'slice', 'birthday'])
+) AS s(station_type, keywords)
+CROSS JOIN LATERAL unnest(s.keywords) AS k(keyword);
+
+-- Drink orders go to the bar. Only a rule with a higher priority sends a
+-- drink elsewhere: menu item and category rules do at the editor's starting
+-- priorities (100 and 50), but a menu item's or category's own station does
+-- not. They outrank the keyword rules above, so a "hot chocolate" on a drink
+-- order is not sent to dessert for "chocolate".
+INSERT INTO kds_routing_rules (name, match_type, pattern, station_type, priority) VALUES
+  ('Drink orders → bar', 'order_type', 'drink', 'bar', 30),
+  ('Beverage orders → bar', 'order_type', 'beverage', 'bar', 30);
+
+COMMENT ON TABLE kds_routing_rules IS 'Admin-editable rules deciding which KDS station prepares each order line';
+COMMENT ON FUNCTION preview_order_routing(TEXT, JSONB) IS 'Dry run: where each line of an order would be routed, and why';
+COMMENT ON FUNCTION route_order_to_stations(UUID) IS 'Route (or re-route) an order using kds_routing_rules';
@@ -0,0 +1,240 @@
+-- Course Firing Migration
+-- Order lines carry a course (appetizer, entree, dessert). Each course is
+-- routed as its own station ticket; later courses are held until the server
+-- fires them, so a table's entrées no longer cook alongside its appetizers.
+-- Lines without a course (drinks, legacy free-text orders) are never held.
+
+-- ==============================================================================
+-- COURSES ON MENU CATEGORIES AND ORDER LINES
+-- ==============================================================================
+ALTER TABLE menu_categories
+  -- Course new lines from this category default to
+  ADD COLUMN IF NOT EXISTS default_course TEXT CHECK (default_course IN ('appetizer', 'entree', 'dessert'));
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS course TEXT CHECK (course IN ('appetizer', 'entree', 'dessert'));
+
+-- ==============================================================================
+-- HOLD / FIRE STATE ON STATION TICKETS
+-- ==============================================================================
+ALTER TABLE kds_order_routing
+  ADD COLUMN IF NOT EXISTS course TEXT CHECK (course IN ('appetizer', 'entree', 'dessert')),
+  -- Set while the ticket waits for its course to be fired
+  ADD COLUMN IF NOT EXISTS held_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS fired_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS fired_by UUID;
+
+-- One ticket per order, station and course
+ALTER TABLE kds_order_routing DROP CONSTRAINT IF EXISTS unique_order_station;
+CREATE UNIQUE INDEX IF NOT EXISTS unique_order_station_course
+  ON kds_order_routing(order_id, station_id, (COALESCE(course, '')));
+
+CREATE INDEX IF NOT EXISTS idx_kds_order_routing_held
+  ON kds_order_routing(order_id) WHERE held_at IS NOT NULL;
+
+-- ==============================================================================
+-- COURSE HELPERS
+-- ==============================================================================
+CREATE OR REPLACE FUNCTION course_rank(p_course TEXT)
+RETURNS INTEGER AS $$
+  SELECT array_position(ARRAY['appetizer', 'entree', 'dessert'], p_course);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Route (or re-route) an order using kds_routing_rules, one ticket per
+-- station and course. A coursed ticket is held while its table still has an
+-- earlier course in the kitchen, or an earlier-or-same course on hold.
+CREATE OR REPLACE FUNCTION route_order_to_stations(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order RECORD;
+  v_lines JSONB;
+  v_station_ids UUID[];
+  v_station_types TEXT[];
+  v_courses TEXT[];
+BEGIN
+  SELECT o.id, o.type, o.items, o.table_id INTO v_order FROM orders o WHERE o.id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object('name', oi.name, 'menu_item_id', oi.menu_item_id, 'course', oi.course)
+    ORDER BY oi.created_at, oi.id
+  )
+  INTO v_lines
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  IF v_lines IS NULL AND jsonb_typeof(v_order.items) = 'array' THEN
+    SELECT jsonb_agg(jsonb_build_object('name', item) ORDER BY ordinality)
+    INTO v_lines
+    FROM jsonb_array_elements_text(v_order.items) WITH ORDINALITY AS t(item, ordinality);
+  END IF;
+
+  -- Tickets in the order their first line appears
+  SELECT
+    COALESCE(array_agg(t.station_id ORDER BY t.first_line), '{}'),
+    COALESCE(array_agg(t.station_type ORDER BY t.first_line), '{}'),
+    COALESCE(array_agg(t.course ORDER BY t.first_line), '{}')
+  INTO v_station_ids, v_station_types, v_courses
+  FROM (
+    SELECT
+      p.station_id,
+      MIN(p.station_type) AS station_type,
+      l.value->>'course' AS course,
+      MIN(p.line_index) AS first_line
+    FROM preview_order_routing(v_order.type, v_lines) p
+    JOIN jsonb_array_elements(v_lines) WITH ORDINALITY AS l(value, ordinality)
+      ON l.ordinality - 1 = p.line_index
+    WHERE p.station_id IS NOT NULL
+    GROUP BY p.station_id, l.value->>'course'
+  ) t;
+
+  DELETE FROM kds_order_routing r
+  WHERE r.order_id = p_order_id
+    AND r.started_at IS NULL
+    AND r.completed_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(v_station_ids, v_courses) AS t(station_id, course)
+      WHERE t.station_id = r.station_id
+        AND COALESCE(t.course, '') = COALESCE(r.course, '')
+    );
+
+  INSERT INTO kds_order_routing (order_id, station_id, sequence, priority, course)
+  SELECT
+    p_order_id,
+    t.station_id,
+    t.seq::INTEGER,
+    -- Grill gets higher priority
+    CASE WHEN t.station_type = 'grill' THEN 2 ELSE 1 END,
+    t.course
+  FROM unnest(v_station_ids, v_station_types, v_courses) WITH ORDINALITY AS t(station_id, station_type, course, seq)
+  ON CONFLICT (order_id, station_id, (COALESCE(course, ''))) DO NOTHING;
+
+  UPDATE kds_order_routing r
+  SET held_at = NOW()
+  WHERE r.order_id = p_order_id
+    AND r.course IS NOT NULL
+    AND r.held_at IS NULL
+    AND r.fired_at IS NULL
+    AND r.started_at IS NULL
+    AND r.completed_at IS NULL
+    AND EXISTS (
+      SELECT 1
+      FROM kds_order_routing other
+      INNER JOIN orders o ON o.id = other.order_id
+      WHERE o.table_id = v_order.table_id
+        AND o.status NOT IN ('delivered', 'cancelled')
+        AND other.id <> r.id
+        AND other.course IS NOT NULL
+        AND other.completed_at IS NULL
+        AND (
+          course_rank(other.course) < course_rank(r.course)
+          OR (other.held_at IS NOT NULL AND course_rank(other.course) <= course_rank(r.course))
+        )
+    );
+
+  RETURN COALESCE(array_length(v_station_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Release the table's earliest held course to the kitchen. Returns the
+-- course fired, or NULL when nothing is on hold. Staff only; the firing
+-- user is whoever is signed in.
+CREATE OR REPLACE FUNCTION fire_next_course(p_table_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_rank INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid() AND role IN ('admin', 'cook', 'server')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can fire courses';
+  END IF;
+
+  SELECT MIN(course_rank(r.course)) INTO v_rank
+  FROM kds_order_routing r
+  INNER JOIN orders o ON o.id = r.order_id
+  WHERE o.table_id = p_table_id
+    AND o.status NOT IN ('delivered', 'cancelled')
+    AND r.held_at IS NOT NULL;
+
+  IF v_rank IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE kds_order_routing r
+  SET
+    held_at = NULL,
+    fired_at = NOW(),
+    fired_by = auth.uid(),
+    -- KDS timers count from when the kitchen was told to cook
+    routed_at = NOW(),
+    updated_at = NOW()
+  FROM orders o
+  WHERE o.id = r.order_id
+    AND o.table_id = p_table_id
+    AND o.status NOT IN ('delivered', 'cancelled')
+    AND r.held_at IS NOT NULL
+    AND course_rank(r.course) = v_rank;
+
+  RETURN (ARRAY['appetizer', 'entree', 'dessert'])[v_rank];
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION fire_next_course(UUID) TO authenticated;
+
+-- Bumping a table only completes tickets the kitchen has been told to cook
+CREATE OR REPLACE FUNCTION bulk_bump_table_orders(
+  p_table_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated_count INTEGER;
+BEGIN
+  UPDATE kds_order_routing
+  SET
+    completed_at = NOW(),
+    bumped_by = p_user_id,
+    bumped_at = NOW(),
+    updated_at = NOW()
+  WHERE
+    order_id IN (
+      SELECT id FROM orders WHERE table_id = p_table_id
+    )
+    AND completed_at IS NULL
+    AND held_at IS NULL;
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+
+  -- Record metrics for each bumped order
+  INSERT INTO kds_metrics (station_id, order_id, metric_type, value_seconds)
+  SELECT
+    kor.station_id,
+    kor.order_id,
+    'prep_time',
+    EXTRACT(EPOCH FROM (NOW() - kor.routed_at))::INTEGER
+  FROM kds_order_routing kor
+  INNER JOIN orders o ON o.id = kor.order_id
+  WHERE
+    o.table_id = p_table_id
+    AND kor.completed_at = NOW()
+    AND kor.bumped_by = p_user_id;
+
+  RETURN v_updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+UPDATE menu_categories SET default_course = 'appetizer' WHERE name IN ('Salads');
+UPDATE menu_categories SET default_course = 'entree' WHERE name IN ('Grill', 'Fryer', 'Soups & Sides');
+UPDATE menu_categories SET default_course = 'dessert' WHERE name IN ('Desserts');
+
+COMMENT ON COLUMN order_items.course IS 'Course the line is served in; NULL lines are never held';
+COMMENT ON COLUMN kds_order_routing.held_at IS 'Ticket is waiting for its course to be fired';
+COMMENT ON FUNCTION fire_next_course(UUID) IS 'Release the earliest held course at a table to the kitchen';
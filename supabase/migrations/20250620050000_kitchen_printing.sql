@@ -0,0 +1,234 @@
+-- Kitchen Printing Migration
+-- Network ESC/POS printers (raw TCP, usually port 9100) are assigned to KDS
+-- stations. Every ticket sent to a station with a printer is queued in
+-- print_jobs; /api/print/process claims due jobs, renders them to ESC/POS and
+-- retries with backoff until the printer accepts them. One KDS screen at a
+-- time holds the print worker lease and drains the queue.
+
+-- ==============================================================================
+-- PRINTERS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS kds_printers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 9100 CHECK (port BETWEEN 1 AND 65535),
+  -- Font A columns: 42 on 80mm paper, 32 on 58mm
+  chars_per_line INTEGER NOT NULL DEFAULT 42 CHECK (chars_per_line BETWEEN 24 AND 64),
+  -- Queue a ticket automatically whenever an assigned station receives one
+  auto_print BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_kds_printers_updated_at
+  BEFORE UPDATE ON kds_printers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE kds_stations
+  ADD COLUMN IF NOT EXISTS printer_id UUID REFERENCES kds_printers(id) ON DELETE SET NULL;
+
+-- ==============================================================================
+-- PRINT QUEUE
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS print_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  printer_id UUID NOT NULL REFERENCES kds_printers(id) ON DELETE CASCADE,
+  -- Re-routing replaces tickets nobody has started; their jobs go with them
+  routing_id UUID REFERENCES kds_order_routing(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'ticket' CHECK (kind IN ('ticket', 'reprint', 'test')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'printing', 'printed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  printed_at TIMESTAMPTZ,
+  requested_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT print_job_has_ticket CHECK (kind = 'test' OR routing_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_print_jobs_due ON print_jobs(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_print_jobs_routing ON print_jobs(routing_id);
+CREATE INDEX IF NOT EXISTS idx_print_jobs_created ON print_jobs(created_at DESC);
+
+CREATE TRIGGER update_print_jobs_updated_at
+  BEFORE UPDATE ON print_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ROUTING CATALOG ORDERS
+-- ==============================================================================
+-- createOrder inserts a catalog order's lines right after the order. Routing
+-- the order's free-text items first would put a short-lived, uncoursed
+-- ticket on the screens (and the printer) ahead of the real ones, so those
+-- orders are routed by the order_items trigger alone.
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS awaiting_lines BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION auto_route_order_to_stations()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT NEW.awaiting_lines THEN
+    PERFORM route_order_to_stations(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue a ticket when a station receives work: on routing, or when a held
+-- course is fired. Runs at commit, after route_order_to_stations has held
+-- later courses and dropped tickets it replaced, so only what the station
+-- actually has to cook gets printed.
+CREATE OR REPLACE FUNCTION enqueue_kitchen_ticket()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_routing RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.held_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.id, r.station_id, r.held_at, r.completed_at
+  INTO v_routing
+  FROM kds_order_routing r
+  WHERE r.id = NEW.id;
+
+  IF NOT FOUND OR v_routing.held_at IS NOT NULL OR v_routing.completed_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO print_jobs (printer_id, routing_id, kind)
+  SELECT p.id, v_routing.id, 'ticket'
+  FROM kds_stations s
+  INNER JOIN kds_printers p ON p.id = s.printer_id
+  WHERE s.id = v_routing.station_id
+    AND p.is_active = true
+    AND p.auto_print = true
+    AND NOT EXISTS (
+      SELECT 1 FROM print_jobs j
+      WHERE j.routing_id = v_routing.id
+        AND j.kind = 'ticket'
+        AND j.status IN ('pending', 'printing')
+    );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER trigger_enqueue_kitchen_ticket
+  AFTER INSERT OR UPDATE OF held_at ON kds_order_routing
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION enqueue_kitchen_ticket();
+
+-- Claim due jobs for printing. Jobs stuck in 'printing' (the worker died
+-- mid-send) are picked up again after two minutes. A printer's jobs wait
+-- behind any earlier job of its that is backing off or still being printed,
+-- so tickets always come out in the order they were queued.
+CREATE OR REPLACE FUNCTION claim_print_jobs(p_limit INTEGER DEFAULT 10)
+RETURNS SETOF print_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE print_jobs j
+  SET
+    status = 'printing',
+    attempts = j.attempts + 1,
+    updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id
+    FROM print_jobs
+    WHERE ((status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'printing' AND updated_at < NOW() - INTERVAL '2 minutes'))
+      AND NOT EXISTS (
+        SELECT 1
+        FROM print_jobs earlier
+        WHERE earlier.printer_id = print_jobs.printer_id
+          AND earlier.created_at < print_jobs.created_at
+          AND (
+            (earlier.status = 'pending' AND earlier.next_attempt_at > NOW())
+            OR (earlier.status = 'printing' AND earlier.updated_at >= NOW() - INTERVAL '2 minutes')
+          )
+      )
+    ORDER BY created_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION claim_print_jobs(INTEGER) TO authenticated;
+
+-- ==============================================================================
+-- PRINT WORKER LEASE
+-- ==============================================================================
+-- Every open KDS screen offers to drain the queue; only the lease holder
+-- does, renewing the lease each time. When it goes away the lease expires
+-- and another screen takes over.
+CREATE TABLE IF NOT EXISTS print_worker_lease (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  holder TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION acquire_print_worker_lease(
+  p_holder TEXT,
+  p_ttl_seconds INTEGER DEFAULT 30
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_holder TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid() AND role IN ('admin', 'cook', 'server')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can run the print worker';
+  END IF;
+
+  INSERT INTO print_worker_lease (id, holder, expires_at)
+  VALUES (true, p_holder, NOW() + make_interval(secs => LEAST(GREATEST(p_ttl_seconds, 5), 300)))
+  ON CONFLICT (id) DO UPDATE
+  SET holder = EXCLUDED.holder, expires_at = EXCLUDED.expires_at
+  WHERE print_worker_lease.holder = EXCLUDED.holder
+     OR print_worker_lease.expires_at < NOW()
+  RETURNING holder INTO v_holder;
+
+  RETURN v_holder IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION acquire_print_worker_lease(TEXT, INTEGER) TO authenticated;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE kds_printers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE print_jobs ENABLE ROW LEVEL SECURITY;
+-- Only acquire_print_worker_lease touches the lease
+ALTER TABLE print_worker_lease ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view KDS printers" ON kds_printers
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage KDS printers" ON kds_printers
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view print jobs" ON print_jobs
+  FOR SELECT TO authenticated USING (true);
+
+-- Cooks and servers reprint tickets; the print worker runs as staff
+CREATE POLICY "Staff can manage print jobs" ON print_jobs
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+COMMENT ON TABLE kds_printers IS 'Network ESC/POS kitchen printers, assigned to stations via kds_stations.printer_id';
+COMMENT ON TABLE print_jobs IS 'Kitchen ticket print queue with retry state';
+COMMENT ON FUNCTION claim_print_jobs(INTEGER) IS 'Atomically claim due print jobs for the print worker';
+COMMENT ON FUNCTION acquire_print_worker_lease(TEXT, INTEGER) IS 'Take or renew the lease that lets one KDS screen drain the print queue';
@@ -0,0 +1,75 @@
+-- Structured Modifiers Migration
+-- Modifiers on an order line say what kind of change they are (add, remove,
+-- substitute, cooking temperature) so the KDS can highlight "NO ONION" and
+-- "MEDIUM RARE" instead of burying them in free text.
+-- order_items.modifiers: [{ modifier_id, name, kind, replaces }]
+
+-- ==============================================================================
+-- MODIFIER KINDS ON THE CATALOG
+-- ==============================================================================
+ALTER TABLE menu_modifiers
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'add'
+    CHECK (kind IN ('add', 'remove', 'substitute', 'temperature'));
+
+-- Existing "No ..." modifiers are removals
+UPDATE menu_modifiers
+SET kind = 'remove'
+WHERE kind = 'add' AND name ~* '^(no|without|hold)\s';
+
+-- ==============================================================================
+-- BACKFILL ORDER LINES
+-- ==============================================================================
+-- Lines saved before modifiers had a kind take it from their catalog modifier,
+-- or from a leading "no" for free-text modifiers
+UPDATE order_items oi
+SET modifiers = (
+  SELECT COALESCE(jsonb_agg(
+    m.value || jsonb_build_object(
+      'kind', COALESCE(
+        mm.kind,
+        CASE WHEN m.value->>'name' ~* '^(no|without|hold)\s' THEN 'remove' ELSE 'add' END
+      ),
+      'replaces', NULL
+    )
+    ORDER BY m.ordinality
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(oi.modifiers) WITH ORDINALITY AS m(value, ordinality)
+  LEFT JOIN menu_modifiers mm ON mm.id::text = m.value->>'modifier_id'
+)
+WHERE jsonb_typeof(oi.modifiers) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(oi.modifiers) AS e(value)
+    WHERE NOT (e.value ? 'kind')
+  );
+
+COMMENT ON COLUMN order_items.modifiers IS 'Structured modifiers: [{ modifier_id, name, kind: add|remove|substitute|temperature, replaces }]';
+COMMENT ON COLUMN order_items.notes IS 'Special instructions for this line that are not a modifier';
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+INSERT INTO menu_modifiers (menu_item_id, name, kind)
+SELECT i.id, m.name, m.kind
+FROM (VALUES
+  ('Cheeseburger', 'Rare', 'temperature'),
+  ('Cheeseburger', 'Medium Rare', 'temperature'),
+  ('Cheeseburger', 'Medium', 'temperature'),
+  ('Cheeseburger', 'Medium Well', 'temperature'),
+  ('Cheeseburger', 'Well Done', 'temperature'),
+  ('Cheeseburger', 'No Onion', 'remove'),
+  ('Cheeseburger', 'No Pickles', 'remove'),
+  ('Cheeseburger', 'Bacon', 'add'),
+  ('Ribeye Steak', 'Rare', 'temperature'),
+  ('Ribeye Steak', 'Medium Rare', 'temperature'),
+  ('Ribeye Steak', 'Medium', 'temperature'),
+  ('Ribeye Steak', 'Medium Well', 'temperature'),
+  ('Ribeye Steak', 'Well Done', 'temperature'),
+  ('Coffee', 'Decaf', 'substitute'),
+  ('Coffee', 'Cream', 'add'),
+  ('Iced Tea', 'No Ice', 'remove')
+) AS m(item, name, kind)
+JOIN menu_items i ON i.name = m.item
+WHERE NOT EXISTS (
+  SELECT 1 FROM menu_modifiers existing
+  WHERE existing.menu_item_id = i.id AND existing.name = m.name
+);
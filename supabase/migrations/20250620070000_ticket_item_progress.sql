@@ -0,0 +1,326 @@
+-- Ticket Item Progress Migration
+-- Each station ticket lists the order lines routed to it, and cooks mark
+-- those lines started / done one at a time. A ticket bumps itself once
+-- every line on it is done, so the grill can finish the steak while the
+-- fryer is still on the fries.
+
+-- ==============================================================================
+-- TICKET ITEMS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS kds_ticket_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  routing_id UUID REFERENCES kds_order_routing(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for orders without catalog lines; line_index then points into orders.items
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+  line_index INTEGER NOT NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_ticket_line UNIQUE(routing_id, line_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kds_ticket_items_routing ON kds_ticket_items(routing_id);
+
+CREATE TRIGGER trigger_kds_ticket_items_updated_at
+  BEFORE UPDATE ON kds_ticket_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ROUTING
+-- ==============================================================================
+-- Same as before, plus: record which lines each ticket carries. Progress on
+-- a line survives re-routing (e.g. when catalog lines replace the free-text
+-- items the order was first routed with).
+CREATE OR REPLACE FUNCTION route_order_to_stations(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order RECORD;
+  v_lines JSONB;
+  v_station_ids UUID[];
+  v_station_types TEXT[];
+  v_courses TEXT[];
+  v_ticket_lines JSONB;
+BEGIN
+  SELECT o.id, o.type, o.items, o.table_id INTO v_order FROM orders o WHERE o.id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object('id', oi.id, 'name', oi.name, 'menu_item_id', oi.menu_item_id, 'course', oi.course)
+    ORDER BY oi.created_at, oi.id
+  )
+  INTO v_lines
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  IF v_lines IS NULL AND jsonb_typeof(v_order.items) = 'array' THEN
+    SELECT jsonb_agg(jsonb_build_object('name', item) ORDER BY ordinality)
+    INTO v_lines
+    FROM jsonb_array_elements_text(v_order.items) WITH ORDINALITY AS t(item, ordinality);
+  END IF;
+
+  -- Tickets in the order their first line appears
+  SELECT
+    COALESCE(array_agg(t.station_id ORDER BY t.first_line), '{}'),
+    COALESCE(array_agg(t.station_type ORDER BY t.first_line), '{}'),
+    COALESCE(array_agg(t.course ORDER BY t.first_line), '{}')
+  INTO v_station_ids, v_station_types, v_courses
+  FROM (
+    SELECT
+      p.station_id,
+      MIN(p.station_type) AS station_type,
+      l.value->>'course' AS course,
+      MIN(p.line_index) AS first_line
+    FROM preview_order_routing(v_order.type, v_lines) p
+    JOIN jsonb_array_elements(v_lines) WITH ORDINALITY AS l(value, ordinality)
+      ON l.ordinality - 1 = p.line_index
+    WHERE p.station_id IS NOT NULL
+    GROUP BY p.station_id, l.value->>'course'
+  ) t;
+
+  DELETE FROM kds_order_routing r
+  WHERE r.order_id = p_order_id
+    AND r.started_at IS NULL
+    AND r.completed_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(v_station_ids, v_courses) AS t(station_id, course)
+      WHERE t.station_id = r.station_id
+        AND COALESCE(t.course, '') = COALESCE(r.course, '')
+    );
+
+  INSERT INTO kds_order_routing (order_id, station_id, sequence, priority, course)
+  SELECT
+    p_order_id,
+    t.station_id,
+    t.seq::INTEGER,
+    -- Grill gets higher priority
+    CASE WHEN t.station_type = 'grill' THEN 2 ELSE 1 END,
+    t.course
+  FROM unnest(v_station_ids, v_station_types, v_courses) WITH ORDINALITY AS t(station_id, station_type, course, seq)
+  ON CONFLICT (order_id, station_id, (COALESCE(course, ''))) DO NOTHING;
+
+  UPDATE kds_order_routing r
+  SET held_at = NOW()
+  WHERE r.order_id = p_order_id
+    AND r.course IS NOT NULL
+    AND r.held_at IS NULL
+    AND r.fired_at IS NULL
+    AND r.started_at IS NULL
+    AND r.completed_at IS NULL
+    AND EXISTS (
+      SELECT 1
+      FROM kds_order_routing other
+      INNER JOIN orders o ON o.id = other.order_id
+      WHERE o.table_id = v_order.table_id
+        AND o.status NOT IN ('delivered', 'cancelled')
+        AND other.id <> r.id
+        AND other.course IS NOT NULL
+        AND other.completed_at IS NULL
+        AND (
+          course_rank(other.course) < course_rank(r.course)
+          OR (other.held_at IS NOT NULL AND course_rank(other.course) <= course_rank(r.course))
+        )
+    );
+
+  -- The lines each open ticket carries
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'routing_id', r.id,
+    'order_item_id', l.value->>'id',
+    'line_index', p.line_index
+  )), '[]'::jsonb)
+  INTO v_ticket_lines
+  FROM preview_order_routing(v_order.type, v_lines) p
+  JOIN jsonb_array_elements(v_lines) WITH ORDINALITY AS l(value, ordinality)
+    ON l.ordinality - 1 = p.line_index
+  JOIN kds_order_routing r
+    ON r.order_id = p_order_id
+    AND r.station_id = p.station_id
+    AND COALESCE(r.course, '') = COALESCE(l.value->>'course', '')
+  WHERE r.completed_at IS NULL;
+
+  DELETE FROM kds_ticket_items ti
+  USING kds_order_routing r
+  WHERE ti.routing_id = r.id
+    AND r.order_id = p_order_id
+    AND r.completed_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(v_ticket_lines) AS tl(routing_id UUID, order_item_id UUID, line_index INTEGER)
+      WHERE tl.routing_id = ti.routing_id AND tl.line_index = ti.line_index
+    );
+
+  INSERT INTO kds_ticket_items (routing_id, order_item_id, line_index)
+  SELECT tl.routing_id, tl.order_item_id, tl.line_index
+  FROM jsonb_to_recordset(v_ticket_lines) AS tl(routing_id UUID, order_item_id UUID, line_index INTEGER)
+  ON CONFLICT (routing_id, line_index) DO UPDATE
+    SET order_item_id = EXCLUDED.order_item_id
+    WHERE kds_ticket_items.order_item_id IS DISTINCT FROM EXCLUDED.order_item_id;
+
+  RETURN COALESCE(array_length(v_station_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ==============================================================================
+-- ITEM STATE
+-- ==============================================================================
+-- Mark one line on a ticket 'pending', 'started' or 'done'. Starting a line
+-- starts the ticket; finishing the last line bumps it. Returns true when
+-- this call completed the ticket.
+CREATE OR REPLACE FUNCTION set_ticket_item_state(
+  p_item_id UUID,
+  p_state TEXT,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_routing RECORD;
+BEGIN
+  IF p_state NOT IN ('pending', 'started', 'done') THEN
+    RAISE EXCEPTION 'Invalid item state: %', p_state;
+  END IF;
+
+  SELECT r.id, r.held_at, r.completed_at INTO v_routing
+  FROM kds_order_routing r
+  INNER JOIN kds_ticket_items ti ON ti.routing_id = r.id
+  WHERE ti.id = p_item_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket item % not found', p_item_id;
+  END IF;
+  IF v_routing.held_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket is on hold until its course is fired';
+  END IF;
+  IF v_routing.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket is already bumped';
+  END IF;
+
+  UPDATE kds_ticket_items
+  SET
+    started_at = CASE
+      WHEN p_state = 'pending' THEN NULL
+      ELSE COALESCE(started_at, NOW())
+    END,
+    completed_at = CASE WHEN p_state = 'done' THEN COALESCE(completed_at, NOW()) END,
+    completed_by = CASE WHEN p_state = 'done' THEN COALESCE(completed_by, p_user_id) END
+  WHERE id = p_item_id;
+
+  -- Touch the ticket so KDS screens subscribed to routing changes refresh
+  UPDATE kds_order_routing
+  SET
+    started_at = CASE
+      WHEN p_state = 'pending' THEN started_at
+      ELSE COALESCE(started_at, NOW())
+    END,
+    updated_at = NOW()
+  WHERE id = v_routing.id;
+
+  IF p_state = 'done' AND NOT EXISTS (
+    SELECT 1 FROM kds_ticket_items
+    WHERE routing_id = v_routing.id AND completed_at IS NULL
+  ) THEN
+    UPDATE kds_order_routing
+    SET
+      completed_at = NOW(),
+      bumped_by = p_user_id,
+      bumped_at = NOW()
+    WHERE id = v_routing.id;
+
+    INSERT INTO kds_metrics (station_id, order_id, metric_type, value_seconds)
+    SELECT station_id, order_id, 'prep_time', EXTRACT(EPOCH FROM (NOW() - routed_at))::INTEGER
+    FROM kds_order_routing
+    WHERE id = v_routing.id;
+
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_ticket_item_state(UUID, TEXT, UUID) TO authenticated;
+
+-- ==============================================================================
+-- KEEP LINES IN STEP WITH WHOLE-TICKET BUMP / RECALL
+-- ==============================================================================
+-- Bumping a ticket finishes its remaining lines; recalling it reopens them
+CREATE OR REPLACE FUNCTION sync_ticket_items_on_bump()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed_at IS NOT NULL AND OLD.completed_at IS NULL THEN
+    UPDATE kds_ticket_items
+    SET
+      started_at = COALESCE(started_at, NEW.completed_at),
+      completed_at = NEW.completed_at,
+      completed_by = NEW.bumped_by
+    WHERE routing_id = NEW.id AND completed_at IS NULL;
+  ELSIF NEW.completed_at IS NULL AND OLD.completed_at IS NOT NULL THEN
+    UPDATE kds_ticket_items
+    SET completed_at = NULL, completed_by = NULL
+    WHERE routing_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_sync_ticket_items_on_bump
+  AFTER UPDATE OF completed_at ON kds_order_routing
+  FOR EACH ROW EXECUTE FUNCTION sync_ticket_items_on_bump();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE kds_ticket_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ticket items" ON kds_ticket_items
+  FOR SELECT TO authenticated USING (true);
+
+-- Item state changes go through set_ticket_item_state
+CREATE POLICY "Admins can manage ticket items" ON kds_ticket_items
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+-- ==============================================================================
+-- BACKFILL
+-- ==============================================================================
+-- Give tickets already in the kitchen the lines routed to their station and
+-- course. The tickets themselves are left as they are: re-routing here would
+-- hold or drop tickets cooks are already working from. Tickets no line maps
+-- to keep showing their whole course.
+INSERT INTO kds_ticket_items (routing_id, order_item_id, line_index)
+SELECT r.id, (l.value->>'id')::UUID, p.line_index
+FROM orders o
+CROSS JOIN LATERAL (
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object('id', oi.id, 'name', oi.name, 'menu_item_id', oi.menu_item_id, 'course', oi.course)
+        ORDER BY oi.created_at, oi.id
+      )
+      FROM order_items oi
+      WHERE oi.order_id = o.id
+    ),
+    CASE WHEN jsonb_typeof(o.items) = 'array' THEN (
+      SELECT jsonb_agg(jsonb_build_object('name', item) ORDER BY ordinality)
+      FROM jsonb_array_elements_text(o.items) WITH ORDINALITY AS t(item, ordinality)
+    ) END
+  ) AS lines
+) v
+CROSS JOIN LATERAL preview_order_routing(o.type, v.lines) p
+JOIN jsonb_array_elements(v.lines) WITH ORDINALITY AS l(value, ordinality)
+  ON l.ordinality - 1 = p.line_index
+JOIN kds_order_routing r
+  ON r.order_id = o.id
+  AND r.station_id = p.station_id
+  AND COALESCE(r.course, '') = COALESCE(l.value->>'course', '')
+WHERE v.lines IS NOT NULL
+  AND r.completed_at IS NULL
+ON CONFLICT (routing_id, line_index) DO NOTHING;
+
+COMMENT ON TABLE kds_ticket_items IS 'Order lines on a station ticket, each marked started/done by the cook';
+COMMENT ON FUNCTION set_ticket_item_state(UUID, TEXT, UUID) IS 'Mark a ticket line pending/started/done; bumps the ticket when its last line is done';
@@ -0,0 +1,158 @@
+-- Expo Runner Tasks Migration
+-- The expo sends a table's course out only once every station has finished
+-- it. Sending creates a runner task with a seat map ("seat 1: steak, seat 3:
+-- salmon") and marks the tickets sent; orders with every ticket sent are
+-- delivered.
+
+-- ==============================================================================
+-- RUNNER TASKS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS runner_tasks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_id UUID REFERENCES tables(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for uncoursed tickets (drinks, single-course orders)
+  course TEXT CHECK (course IN ('appetizer', 'entree', 'dessert')),
+  -- [{ seat_id, seat_label, resident_name, items: [{ name, quantity, modifiers, notes }] }]
+  seat_map JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'picked_up', 'delivered')),
+  created_by UUID,
+  picked_up_by UUID,
+  picked_up_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_runner_tasks_open ON runner_tasks(created_at)
+  WHERE status <> 'delivered';
+
+CREATE TRIGGER trigger_runner_tasks_updated_at
+  BEFORE UPDATE ON runner_tasks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE kds_order_routing
+  ADD COLUMN IF NOT EXISTS runner_task_id UUID REFERENCES runner_tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_kds_order_routing_unsent
+  ON kds_order_routing(order_id) WHERE sent_at IS NULL;
+
+-- ==============================================================================
+-- SEND A COURSE TO THE TABLE
+-- ==============================================================================
+-- Refuses while any station still has the course's food, so a table is
+-- never served half its entrées. Returns the runner task.
+CREATE OR REPLACE FUNCTION send_course_to_table(
+  p_table_id UUID,
+  p_course TEXT,
+  p_user_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_routing_ids UUID[];
+  v_outstanding TEXT[];
+  v_seat_map JSONB;
+  v_task_id UUID;
+BEGIN
+  SELECT
+    array_agg(r.id),
+    array_agg(DISTINCT s.name) FILTER (
+      WHERE r.completed_at IS NULL
+        AND (
+          NOT EXISTS (SELECT 1 FROM kds_ticket_items ti WHERE ti.routing_id = r.id)
+          OR EXISTS (
+            SELECT 1 FROM kds_ticket_items ti
+            WHERE ti.routing_id = r.id AND ti.completed_at IS NULL
+          )
+        )
+    )
+  INTO v_routing_ids, v_outstanding
+  FROM kds_order_routing r
+  INNER JOIN orders o ON o.id = r.order_id
+  INNER JOIN kds_stations s ON s.id = r.station_id
+  WHERE o.table_id = p_table_id
+    AND o.status NOT IN ('delivered', 'cancelled')
+    AND r.sent_at IS NULL
+    AND COALESCE(r.course, '') = COALESCE(p_course, '');
+
+  IF v_routing_ids IS NULL THEN
+    RAISE EXCEPTION 'Nothing to send for this course';
+  END IF;
+  IF v_outstanding IS NOT NULL THEN
+    RAISE EXCEPTION 'Still cooking at: %', array_to_string(v_outstanding, ', ');
+  END IF;
+
+  -- Who gets what, seat by seat
+  SELECT COALESCE(jsonb_agg(seat ORDER BY seat->>'seat_label'), '[]'::jsonb)
+  INTO v_seat_map
+  FROM (
+    SELECT jsonb_build_object(
+      'seat_id', o.seat_id,
+      'seat_label', st.label,
+      'resident_name', MIN(p.name),
+      'items', jsonb_agg(
+        jsonb_build_object(
+          'name', COALESCE(oi.name, o.items->>ti.line_index),
+          'quantity', COALESCE(oi.quantity, 1),
+          'modifiers', COALESCE(oi.modifiers, '[]'::jsonb),
+          'notes', oi.notes
+        )
+        ORDER BY COALESCE(oi.position, ti.line_index)
+      )
+    ) AS seat
+    FROM kds_order_routing r
+    INNER JOIN orders o ON o.id = r.order_id
+    INNER JOIN kds_ticket_items ti ON ti.routing_id = r.id
+    LEFT JOIN order_items oi ON oi.id = ti.order_item_id
+    LEFT JOIN seats st ON st.id = o.seat_id
+    LEFT JOIN profiles p ON p.user_id = o.resident_id
+    WHERE r.id = ANY(v_routing_ids)
+    GROUP BY o.seat_id, st.label
+  ) seats;
+
+  INSERT INTO runner_tasks (table_id, course, seat_map, created_by)
+  VALUES (p_table_id, p_course, v_seat_map, p_user_id)
+  RETURNING id INTO v_task_id;
+
+  UPDATE kds_order_routing
+  SET
+    runner_task_id = v_task_id,
+    sent_at = NOW(),
+    -- Sending finishes any ticket whose lines were all marked done
+    completed_at = COALESCE(completed_at, NOW()),
+    bumped_by = COALESCE(bumped_by, p_user_id),
+    bumped_at = COALESCE(bumped_at, NOW())
+  WHERE id = ANY(v_routing_ids);
+
+  -- Orders with every ticket sent have left the kitchen
+  UPDATE orders o
+  SET status = 'delivered'
+  WHERE o.id IN (SELECT order_id FROM kds_order_routing WHERE id = ANY(v_routing_ids))
+    AND NOT EXISTS (
+      SELECT 1 FROM kds_order_routing r
+      WHERE r.order_id = o.id AND r.sent_at IS NULL
+    );
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION send_course_to_table(UUID, TEXT, UUID) TO authenticated;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE runner_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view runner tasks" ON runner_tasks
+  FOR SELECT TO authenticated USING (true);
+
+-- Runners are servers; they pick up and deliver
+CREATE POLICY "Staff can update runner tasks" ON runner_tasks
+  FOR UPDATE TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+COMMENT ON TABLE runner_tasks IS 'Food the expo has sent to a table, with a seat map for the runner';
+COMMENT ON COLUMN kds_order_routing.sent_at IS 'When the expo sent this ticket''s food to the table';
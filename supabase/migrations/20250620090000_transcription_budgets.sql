@@ -0,0 +1,271 @@
+-- Transcription Budgets Migration
+-- Voice transcription spend limits at facility, role and user level, managed
+-- by admins. Crossing a threshold records an alert in alert_history; an
+-- exhausted budget degrades transcription instead of refusing it.
+
+-- ==============================================================================
+-- BUDGETS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS transcription_budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- A deployment serves one facility, so facility budgets have no scope_value.
+  -- Role and user budgets with no scope_value apply to every role / user
+  -- that has no budget of its own.
+  scope TEXT NOT NULL CHECK (scope IN ('facility', 'role', 'user')),
+  scope_value TEXT,
+  period TEXT NOT NULL DEFAULT 'day' CHECK (period IN ('day', 'week', 'month')),
+  limit_usd NUMERIC(10, 2) NOT NULL CHECK (limit_usd >= 0),
+  warning_pct INTEGER NOT NULL DEFAULT 80 CHECK (warning_pct BETWEEN 1 AND 100),
+  -- What happens once spend reaches the limit
+  exhausted_action TEXT NOT NULL DEFAULT 'cheaper_model'
+    CHECK (exhausted_action IN ('cheaper_model', 'cache_only')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  alert_rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  updated_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (scope <> 'facility' OR scope_value IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcription_budgets_scope
+  ON transcription_budgets(scope, COALESCE(scope_value, ''), period);
+
+CREATE TRIGGER trigger_transcription_budgets_updated_at
+  BEFORE UPDATE ON transcription_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every budget owns an alert rule, so its alerts land in alert_history
+CREATE OR REPLACE FUNCTION sync_transcription_budget_alert_rule()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name TEXT := 'Transcription budget: ' || NEW.scope
+    || COALESCE(' ' || NEW.scope_value, '') || ' (' || NEW.period || ')';
+  v_condition JSONB := jsonb_build_object(
+    'type', 'transcription_budget',
+    'scope', NEW.scope,
+    'scope_value', NEW.scope_value,
+    'period', NEW.period,
+    'limit_usd', NEW.limit_usd,
+    'warning_pct', NEW.warning_pct
+  );
+BEGIN
+  IF NEW.alert_rule_id IS NULL THEN
+    INSERT INTO alert_rules (name, description, condition, enabled, created_by)
+    VALUES (
+      v_name,
+      'Voice transcription spend against its budget',
+      v_condition,
+      NEW.enabled,
+      NEW.updated_by
+    )
+    RETURNING id INTO NEW.alert_rule_id;
+  ELSE
+    UPDATE alert_rules
+    SET name = v_name, condition = v_condition, enabled = NEW.enabled
+    WHERE id = NEW.alert_rule_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_transcription_budget_alert_rule
+  BEFORE INSERT OR UPDATE ON transcription_budgets
+  FOR EACH ROW EXECUTE FUNCTION sync_transcription_budget_alert_rule();
+
+CREATE OR REPLACE FUNCTION delete_transcription_budget_alert_rule()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM alert_rules WHERE id = OLD.alert_rule_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_transcription_budget_alert_rule_delete
+  AFTER DELETE ON transcription_budgets
+  FOR EACH ROW EXECUTE FUNCTION delete_transcription_budget_alert_rule();
+
+-- Keeps the old hard-coded limit: $5 a day for each user
+INSERT INTO transcription_budgets (scope, scope_value, period, limit_usd)
+VALUES ('user', NULL, 'day', 5.00)
+ON CONFLICT DO NOTHING;
+
+-- ==============================================================================
+-- BUDGET STATUS FOR A USER
+-- ==============================================================================
+-- Every budget that applies to the user with spend so far this period. A
+-- role or user budget of their own replaces the matching default.
+CREATE OR REPLACE FUNCTION transcription_budget_status(p_user_id UUID)
+RETURNS TABLE (
+  budget_id UUID,
+  scope TEXT,
+  scope_value TEXT,
+  period TEXT,
+  limit_usd NUMERIC,
+  warning_pct INTEGER,
+  exhausted_action TEXT,
+  spent_usd NUMERIC
+) AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  SELECT p.role::TEXT INTO v_role FROM profiles p WHERE p.user_id = p_user_id;
+
+  RETURN QUERY
+  WITH applicable AS (
+    SELECT b.*
+    FROM transcription_budgets b
+    WHERE b.enabled
+      AND (
+        b.scope = 'facility'
+        OR (
+          b.scope = 'role'
+          AND (
+            b.scope_value = v_role
+            OR (
+              b.scope_value IS NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM transcription_budgets o
+                WHERE o.enabled AND o.scope = 'role'
+                  AND o.scope_value = v_role AND o.period = b.period
+              )
+            )
+          )
+        )
+        OR (
+          b.scope = 'user'
+          AND (
+            b.scope_value = p_user_id::TEXT
+            OR (
+              b.scope_value IS NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM transcription_budgets o
+                WHERE o.enabled AND o.scope = 'user'
+                  AND o.scope_value = p_user_id::TEXT AND o.period = b.period
+              )
+            )
+          )
+        )
+      )
+  )
+  SELECT
+    a.id,
+    a.scope,
+    a.scope_value,
+    a.period,
+    a.limit_usd,
+    a.warning_pct,
+    a.exhausted_action,
+    COALESCE((
+      SELECT SUM(m.cost)
+      FROM openai_usage_metrics m
+      LEFT JOIN profiles p ON p.user_id = m.user_id
+      WHERE m.timestamp >= date_trunc(a.period, NOW())
+        AND (
+          a.scope = 'facility'
+          OR (a.scope = 'role' AND p.role::TEXT = v_role)
+          OR (a.scope = 'user' AND m.user_id = p_user_id)
+        )
+    ), 0)
+  FROM applicable a;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION transcription_budget_status(UUID) TO authenticated;
+
+-- ==============================================================================
+-- BUDGET ALERTS
+-- ==============================================================================
+-- Records a warning or critical alert for the budget at most once per
+-- severity per budget period. Spend and severity are worked out here from
+-- the usage metrics, never taken from the caller. Returns whether a new
+-- alert was recorded.
+CREATE OR REPLACE FUNCTION record_transcription_budget_alert(
+  p_budget_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_budget transcription_budgets%ROWTYPE;
+  v_spent NUMERIC;
+  v_severity TEXT;
+BEGIN
+  SELECT * INTO v_budget FROM transcription_budgets WHERE id = p_budget_id;
+  IF NOT FOUND OR v_budget.alert_rule_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Spend as the user's own budget check sees it; a budget that doesn't
+  -- apply to them never alerts on their behalf
+  SELECT s.spent_usd INTO v_spent
+  FROM transcription_budget_status(p_user_id) s
+  WHERE s.budget_id = p_budget_id;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  v_severity := CASE
+    WHEN v_spent >= v_budget.limit_usd THEN 'critical'
+    WHEN v_spent * 100 >= v_budget.limit_usd * v_budget.warning_pct THEN 'warning'
+  END;
+  IF v_severity IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM alert_history h
+    WHERE h.rule_id = v_budget.alert_rule_id
+      AND h.event_data->>'severity' = v_severity
+      AND h.triggered_at >= date_trunc(v_budget.period, NOW())
+      -- User-default budgets alert separately for each user
+      AND (
+        v_budget.scope <> 'user' OR v_budget.scope_value IS NOT NULL
+        OR h.event_data->>'user_id' = p_user_id::TEXT
+      )
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO alert_history (rule_id, event_data, actions_taken)
+  VALUES (
+    v_budget.alert_rule_id,
+    jsonb_build_object(
+      'type', 'transcription_budget',
+      'severity', v_severity,
+      'budget_id', v_budget.id,
+      'scope', v_budget.scope,
+      'scope_value', v_budget.scope_value,
+      'period', v_budget.period,
+      'limit_usd', v_budget.limit_usd,
+      'spent_usd', v_spent,
+      'user_id', p_user_id
+    ),
+    CASE WHEN v_severity = 'critical'
+      THEN jsonb_build_array(v_budget.exhausted_action)
+      ELSE '[]'::jsonb
+    END
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The server records alerts as the service role; signed-in users could
+-- otherwise raise alerts for anyone
+REVOKE EXECUTE ON FUNCTION record_transcription_budget_alert(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_transcription_budget_alert(UUID, UUID) TO service_role;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE transcription_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transcription budgets" ON transcription_budgets
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage transcription budgets" ON transcription_budgets
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE transcription_budgets IS 'Voice transcription spend limits by facility, role and user';
@@ -0,0 +1,101 @@
+-- Rate Limit Windows Migration
+-- Shared sliding-window counters for API rate limits, so limits hold across
+-- serverless instances and survive cold starts. Each key keeps a hit count per
+-- fixed window; the previous window is weighted by how much of it still
+-- overlaps the sliding window (see lib/security/rate-limit/sliding-window.ts).
+
+-- ==============================================================================
+-- COUNTERS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS rate_limit_windows (
+  -- "<policy>:<identifier>", e.g. "transcribe:<user id>"
+  key TEXT NOT NULL,
+  -- Window start, epoch milliseconds aligned to the window size
+  window_start BIGINT NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_windows_window_start
+  ON rate_limit_windows(window_start);
+
+-- ==============================================================================
+-- RPC: COUNT A REQUEST
+-- ==============================================================================
+-- Counts the request if the sliding window has room and returns the counts
+-- the caller needs for RateLimit-* headers. The current window row is locked,
+-- so concurrent requests for one key are serialised.
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  current_hits INTEGER,
+  previous_hits INTEGER,
+  window_start_ms BIGINT,
+  now_ms BIGINT
+) AS $$
+DECLARE
+  v_now BIGINT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+  v_window BIGINT;
+  v_current INTEGER;
+  v_previous INTEGER;
+  v_allowed BOOLEAN;
+BEGIN
+  IF p_window_ms IS NULL OR p_window_ms < 1000 OR p_window_ms > 86400000 THEN
+    RAISE EXCEPTION 'Rate limit window must be between 1 second and 1 day';
+  END IF;
+
+  v_window := (v_now / p_window_ms) * p_window_ms;
+
+  INSERT INTO rate_limit_windows (key, window_start, hits)
+  VALUES (p_key, v_window, 0)
+  ON CONFLICT (key, window_start) DO NOTHING;
+
+  SELECT w.hits INTO v_current
+  FROM rate_limit_windows w
+  WHERE w.key = p_key AND w.window_start = v_window
+  FOR UPDATE;
+
+  SELECT COALESCE((
+    SELECT w.hits FROM rate_limit_windows w
+    WHERE w.key = p_key AND w.window_start = v_window - p_window_ms
+  ), 0) INTO v_previous;
+
+  v_allowed := v_previous * GREATEST(0, 1 - (v_now - v_window)::NUMERIC / p_window_ms)
+    + v_current + 1 <= p_limit;
+
+  IF v_allowed THEN
+    UPDATE rate_limit_windows w
+    SET hits = w.hits + 1
+    WHERE w.key = p_key AND w.window_start = v_window;
+    v_current := v_current + 1;
+  END IF;
+
+  -- Windows before the previous one no longer count for this key
+  DELETE FROM rate_limit_windows w
+  WHERE w.key = p_key AND w.window_start < v_window - p_window_ms;
+
+  -- Occasionally sweep keys nobody has hit for a day (the longest window)
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_windows w WHERE w.window_start < v_now - 2 * 86400000;
+  END IF;
+
+  RETURN QUERY SELECT v_allowed, v_current, v_previous, v_window, v_now;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keys are "<policy>:<user id>", so a signed-in user calling this directly
+-- could use up anyone's limit. Only the server, as the service role, counts.
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+-- No policies: counters are only read and written through rate_limit_hit()
+ALTER TABLE rate_limit_windows ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE rate_limit_windows IS 'Sliding-window API rate limit counters shared across server instances';
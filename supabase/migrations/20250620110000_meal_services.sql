@@ -0,0 +1,90 @@
+-- Meal Services Migration
+-- Service calendar for the dining room (breakfast, lunch, dinner). Every order
+-- is tagged with the service it was placed in so the KDS, metrics and
+-- dashboards can be filtered per service, and menu items can be limited to
+-- the services that serve them.
+
+-- ==============================================================================
+-- SERVICES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS meal_services (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Local time of day the service opens and closes
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  -- 0 = Sunday; NULL = every day
+  days_of_week INTEGER[],
+  -- What happens when an item not on this service's menu is ordered
+  out_of_service_policy TEXT NOT NULL DEFAULT 'warn' CHECK (out_of_service_policy IN ('warn', 'block')),
+  position INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_meal_service_name UNIQUE(name),
+  CONSTRAINT valid_meal_service_hours CHECK (start_time < end_time),
+  CONSTRAINT valid_meal_service_days CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6])
+);
+
+-- ==============================================================================
+-- PER-SERVICE MENUS
+-- ==============================================================================
+-- An item with no rows here is served in every service. With rows, it is only
+-- on the menu of those services.
+CREATE TABLE IF NOT EXISTS menu_item_services (
+  menu_item_id UUID REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  service_id UUID REFERENCES meal_services(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (menu_item_id, service_id)
+);
+
+-- ==============================================================================
+-- ORDERS
+-- ==============================================================================
+-- NULL for orders placed outside every service and for orders that predate
+-- the calendar
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS service_id UUID REFERENCES meal_services(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_service ON orders(service_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_menu_item_services_service ON menu_item_services(service_id);
+
+CREATE TRIGGER trigger_meal_services_updated_at
+  BEFORE UPDATE ON meal_services
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE meal_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view meal services" ON meal_services
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage meal services" ON meal_services
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view menu item services" ON menu_item_services
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage menu item services" ON menu_item_services
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+-- ==============================================================================
+-- SEED DATA
+-- ==============================================================================
+INSERT INTO meal_services (name, start_time, end_time, position) VALUES
+  ('Breakfast', '07:00', '10:30', 1),
+  ('Lunch', '11:30', '14:00', 2),
+  ('Dinner', '17:00', '19:30', 3)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE meal_services IS 'Service calendar: meal periods with opening hours';
+COMMENT ON TABLE menu_item_services IS 'Services a menu item is served in; none means all';
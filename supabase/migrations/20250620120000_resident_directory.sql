@@ -0,0 +1,86 @@
+-- Resident Directory Migration
+-- What servers and cooks need to recognise and safely serve an assisted-living
+-- resident: photo, room, usual seat, texture-modified diet, fluid thickness
+-- and assistance notes. Kept beside profiles (one row per resident) so staff
+-- profiles stay lean. Care details are copied onto each order so KDS tickets
+-- show what applied when the order was placed.
+
+-- ==============================================================================
+-- RESIDENT DETAILS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS resident_details (
+  user_id UUID PRIMARY KEY REFERENCES profiles(user_id) ON DELETE CASCADE,
+  -- Object path in the resident-photos storage bucket
+  photo_path TEXT,
+  room_number TEXT,
+  preferred_table_id UUID REFERENCES tables(id) ON DELETE SET NULL,
+  preferred_seat INTEGER CHECK (preferred_seat > 0),
+  -- Texture-modified diet, named after the IDDSI food levels
+  texture_diet TEXT CHECK (texture_diet IN (
+    'regular', 'easy_to_chew', 'soft_bite_sized', 'minced_moist', 'pureed', 'liquidised'
+  )),
+  -- Drink consistency, named after the IDDSI drink levels
+  fluid_thickness TEXT CHECK (fluid_thickness IN (
+    'thin', 'slightly_thick', 'mildly_thick', 'moderately_thick', 'extremely_thick'
+  )),
+  assistance_notes TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT preferred_seat_needs_table CHECK (preferred_seat IS NULL OR preferred_table_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_resident_details_preferred_seat
+  ON resident_details(preferred_table_id, preferred_seat);
+
+CREATE TRIGGER trigger_resident_details_updated_at
+  BEFORE UPDATE ON resident_details
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ORDERS
+-- ==============================================================================
+-- { room_number, texture_diet, fluid_thickness, assistance_notes } at order time
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS resident_care JSONB;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE resident_details ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view resident details" ON resident_details
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+    OR auth.uid() = user_id
+  );
+
+CREATE POLICY "Admins can manage resident details" ON resident_details
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+-- ==============================================================================
+-- PHOTO STORAGE
+-- ==============================================================================
+-- Private bucket; the app hands out short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('resident-photos', 'resident-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can view resident photos" ON storage.objects
+  FOR SELECT TO authenticated USING (
+    bucket_id = 'resident-photos'
+    AND auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+CREATE POLICY "Admins can manage resident photos" ON storage.objects
+  FOR ALL TO authenticated USING (
+    bucket_id = 'resident-photos'
+    AND auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE resident_details IS 'Resident directory: photo, room, usual seat and care details';
+COMMENT ON COLUMN orders.resident_care IS 'Resident care details copied at order time for the KDS ticket';
@@ -0,0 +1,29 @@
+-- IDDSI Texture Levels Migration
+-- Residents on texture-modified diets or thickened fluids (resident_details)
+-- have their level copied onto every order line: texture for food, thickness
+-- for drinks. Drinks are thickened through a 'thickness' modifier, which
+-- createOrder requires to match the resident's level.
+
+-- ==============================================================================
+-- THICKNESS MODIFIERS
+-- ==============================================================================
+ALTER TABLE menu_modifiers
+  DROP CONSTRAINT IF EXISTS menu_modifiers_kind_check;
+
+ALTER TABLE menu_modifiers
+  ADD CONSTRAINT menu_modifiers_kind_check
+    CHECK (kind IN ('add', 'remove', 'substitute', 'temperature', 'thickness'));
+
+-- ==============================================================================
+-- ORDER LINES
+-- ==============================================================================
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS texture_diet TEXT CHECK (texture_diet IN (
+    'regular', 'easy_to_chew', 'soft_bite_sized', 'minced_moist', 'pureed', 'liquidised'
+  )),
+  ADD COLUMN IF NOT EXISTS fluid_thickness TEXT CHECK (fluid_thickness IN (
+    'thin', 'slightly_thick', 'mildly_thick', 'moderately_thick', 'extremely_thick'
+  ));
+
+COMMENT ON COLUMN order_items.texture_diet IS 'Resident IDDSI food level at order time (food lines)';
+COMMENT ON COLUMN order_items.fluid_thickness IS 'Resident IDDSI drink level at order time (drink lines)';
@@ -0,0 +1,16 @@
+-- Order Idempotency Migration
+-- Servers' tablets queue orders while offline and replay them when the
+-- connection returns. Each queued order carries a client-generated key so a
+-- replay after a lost response finds the order instead of sending it twice.
+
+-- ==============================================================================
+-- IDEMPOTENCY KEY
+-- ==============================================================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_idempotency_key
+  ON orders(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+COMMENT ON COLUMN orders.idempotency_key IS 'Client-generated key; a replayed order with the same key returns the existing order';
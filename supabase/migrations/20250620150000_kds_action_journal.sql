@@ -0,0 +1,134 @@
+-- KDS Action Journal Migration
+-- KDS screens journal bumps, recalls, prep starts and priority changes while
+-- disconnected and replay them in order on reconnect. Each replayed action
+-- carries the time it was made; apply_kds_action checks it against the
+-- ticket's current state so a ticket bumped from another screen, or already
+-- recalled by expo, is reported as a conflict instead of being overwritten.
+
+-- ==============================================================================
+-- APPLY ACTION
+-- ==============================================================================
+CREATE OR REPLACE FUNCTION apply_kds_action(
+  p_routing_id UUID,
+  p_action TEXT,
+  p_performed_at TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL,
+  p_priority INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_routing kds_order_routing%ROWTYPE;
+  v_bumped_by TEXT;
+BEGIN
+  SELECT * INTO v_routing
+  FROM kds_order_routing
+  WHERE id = p_routing_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'Ticket no longer exists');
+  END IF;
+
+  SELECT name INTO v_bumped_by FROM profiles WHERE user_id = v_routing.bumped_by;
+
+  IF p_action = 'bump' THEN
+    -- Replay of a bump whose response was lost
+    IF v_routing.bumped_at = p_performed_at THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+    IF v_routing.recalled_at > p_performed_at THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Recalled after this bump was made',
+        'recalled_at', v_routing.recalled_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET
+      completed_at = p_performed_at,
+      bumped_by = p_user_id,
+      bumped_at = p_performed_at,
+      updated_at = NOW()
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'recall' THEN
+    IF v_routing.recalled_at = p_performed_at THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already recalled',
+        'recalled_at', v_routing.recalled_at
+      );
+    END IF;
+    IF v_routing.bumped_at > p_performed_at THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Bumped again' || COALESCE(' by ' || v_bumped_by, '') || ' after this recall was made',
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET
+      completed_at = NULL,
+      bumped_by = NULL,
+      bumped_at = NULL,
+      recalled_at = p_performed_at,
+      recall_count = recall_count + 1,
+      updated_at = NOW()
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'start_prep' THEN
+    -- Another screen starting it first is harmless; keep the earlier start
+    IF v_routing.started_at IS NOT NULL THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET started_at = p_performed_at, updated_at = NOW()
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'priority' THEN
+    IF v_routing.priority = p_priority THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET priority = p_priority, updated_at = NOW()
+    WHERE id = p_routing_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown KDS action: %', p_action;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'applied');
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_kds_action(UUID, TEXT, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION apply_kds_action(UUID, TEXT, TIMESTAMPTZ, UUID, INTEGER) IS 'Apply a journaled KDS action, reporting conflicts with the ticket''s current state';
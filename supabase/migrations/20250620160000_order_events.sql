@@ -0,0 +1,363 @@
+-- Order Events Migration
+-- Append-only audit trail of everything that happens to an order and its
+-- station tickets: who did it, from which device, the state before and
+-- after, and why. Events are written by triggers so every mutation path is
+-- covered - direct table updates from the app, apply_kds_action replays and
+-- bulk_bump_table_orders alike.
+--
+-- Callers pass the device and reason by setting the transient
+-- event_device_id / event_reason columns in the same write; the triggers
+-- copy them into the event and clear them, so they are always NULL at rest.
+
+-- ==============================================================================
+-- EVENT LOG
+-- ==============================================================================
+-- No foreign key to orders: the trail outlives a deleted order
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL,
+  routing_id UUID,
+  station_id UUID,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'created', 'status_changed', 'deleted',
+    'routed', 'started', 'bumped', 'recalled', 'held', 'fired', 'priority_changed'
+  )),
+  previous_state TEXT,
+  new_state TEXT,
+  actor_id UUID,
+  device_id TEXT,
+  reason TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_events_created ON order_events(created_at DESC);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view order events" ON order_events
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+-- Events are only ever inserted by the triggers below
+CREATE OR REPLACE FUNCTION prevent_order_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'order_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER order_events_append_only
+  BEFORE UPDATE OR DELETE ON order_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_order_event_changes();
+
+-- ==============================================================================
+-- EVENT CONTEXT
+-- ==============================================================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS event_device_id TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS event_reason TEXT;
+ALTER TABLE kds_order_routing ADD COLUMN IF NOT EXISTS event_device_id TEXT;
+ALTER TABLE kds_order_routing ADD COLUMN IF NOT EXISTS event_reason TEXT;
+
+-- ==============================================================================
+-- ORDER TRIGGERS
+-- ==============================================================================
+CREATE OR REPLACE FUNCTION log_order_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO order_events (order_id, event_type, previous_state, actor_id)
+    VALUES (OLD.id, 'deleted', OLD.status, auth.uid());
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_events (
+      order_id, event_type, new_state, actor_id, device_id, reason, metadata
+    )
+    VALUES (
+      NEW.id, 'created', NEW.status, COALESCE(auth.uid(), NEW.server_id),
+      NEW.event_device_id, COALESCE(NEW.event_reason, NEW.dietary_override_reason),
+      jsonb_build_object('table_id', NEW.table_id, 'seat_id', NEW.seat_id)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_events (
+      order_id, event_type, previous_state, new_state, actor_id, device_id, reason
+    )
+    VALUES (
+      NEW.id, 'status_changed', OLD.status, NEW.status, auth.uid(),
+      NEW.event_device_id, NEW.event_reason
+    );
+  END IF;
+
+  NEW.event_device_id := NULL;
+  NEW.event_reason := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_order_event ON orders;
+CREATE TRIGGER log_order_event
+  BEFORE INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_order_event();
+
+-- ==============================================================================
+-- TICKET TRIGGERS
+-- ==============================================================================
+CREATE OR REPLACE FUNCTION kds_routing_state(p_routing kds_order_routing)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_routing.completed_at IS NOT NULL THEN 'bumped'
+    WHEN p_routing.held_at IS NOT NULL THEN 'held'
+    WHEN p_routing.started_at IS NOT NULL THEN 'in_progress'
+    ELSE 'new'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION log_kds_routing_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event_type TEXT;
+  v_previous_state TEXT;
+  v_actor UUID := auth.uid();
+  v_metadata JSONB := '{}'::JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_event_type := 'routed';
+  ELSIF NEW.recall_count > OLD.recall_count
+    OR (OLD.completed_at IS NOT NULL AND NEW.completed_at IS NULL) THEN
+    v_event_type := 'recalled';
+  ELSIF OLD.completed_at IS NULL AND NEW.completed_at IS NOT NULL THEN
+    v_event_type := 'bumped';
+    v_actor := COALESCE(NEW.bumped_by, v_actor);
+  ELSIF OLD.held_at IS NULL AND NEW.held_at IS NOT NULL THEN
+    v_event_type := 'held';
+  ELSIF OLD.held_at IS NOT NULL AND NEW.held_at IS NULL THEN
+    v_event_type := 'fired';
+    v_actor := COALESCE(NEW.fired_by, v_actor);
+  ELSIF OLD.started_at IS NULL AND NEW.started_at IS NOT NULL THEN
+    v_event_type := 'started';
+  ELSIF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    v_event_type := 'priority_changed';
+    v_metadata := jsonb_build_object('from', OLD.priority, 'to', NEW.priority);
+  END IF;
+
+  IF v_event_type IS NOT NULL THEN
+    IF TG_OP = 'UPDATE' THEN
+      v_previous_state := kds_routing_state(OLD);
+    END IF;
+
+    INSERT INTO order_events (
+      order_id, routing_id, station_id, event_type, previous_state, new_state,
+      actor_id, device_id, reason, metadata
+    )
+    VALUES (
+      NEW.order_id, NEW.id, NEW.station_id, v_event_type, v_previous_state,
+      kds_routing_state(NEW), v_actor, NEW.event_device_id, NEW.event_reason,
+      v_metadata || jsonb_build_object('course', NEW.course)
+    );
+  END IF;
+
+  NEW.event_device_id := NULL;
+  NEW.event_reason := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_kds_routing_event ON kds_order_routing;
+CREATE TRIGGER log_kds_routing_event
+  BEFORE INSERT OR UPDATE ON kds_order_routing
+  FOR EACH ROW
+  EXECUTE FUNCTION log_kds_routing_event();
+
+-- ==============================================================================
+-- SQL MUTATION PATHS
+-- ==============================================================================
+-- Same checks as before; the device and reason now reach the event log
+DROP FUNCTION IF EXISTS apply_kds_action(UUID, TEXT, TIMESTAMPTZ, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION apply_kds_action(
+  p_routing_id UUID,
+  p_action TEXT,
+  p_performed_at TIMESTAMPTZ,
+  p_user_id UUID DEFAULT NULL,
+  p_priority INTEGER DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_routing kds_order_routing%ROWTYPE;
+  v_bumped_by TEXT;
+BEGIN
+  SELECT * INTO v_routing
+  FROM kds_order_routing
+  WHERE id = p_routing_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'Ticket no longer exists');
+  END IF;
+
+  SELECT name INTO v_bumped_by FROM profiles WHERE user_id = v_routing.bumped_by;
+
+  IF p_action = 'bump' THEN
+    -- Replay of a bump whose response was lost
+    IF v_routing.bumped_at = p_performed_at THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+    IF v_routing.recalled_at > p_performed_at THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Recalled after this bump was made',
+        'recalled_at', v_routing.recalled_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET
+      completed_at = p_performed_at,
+      bumped_by = p_user_id,
+      bumped_at = p_performed_at,
+      updated_at = NOW(),
+      event_device_id = p_device_id
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'recall' THEN
+    IF v_routing.recalled_at = p_performed_at THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already recalled',
+        'recalled_at', v_routing.recalled_at
+      );
+    END IF;
+    IF v_routing.bumped_at > p_performed_at THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Bumped again' || COALESCE(' by ' || v_bumped_by, '') || ' after this recall was made',
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET
+      completed_at = NULL,
+      bumped_by = NULL,
+      bumped_at = NULL,
+      recalled_at = p_performed_at,
+      recall_count = recall_count + 1,
+      updated_at = NOW(),
+      event_device_id = p_device_id
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'start_prep' THEN
+    -- Another screen starting it first is harmless; keep the earlier start
+    IF v_routing.started_at IS NOT NULL THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET started_at = p_performed_at, updated_at = NOW(), event_device_id = p_device_id
+    WHERE id = p_routing_id;
+
+  ELSIF p_action = 'priority' THEN
+    IF v_routing.priority = p_priority THEN
+      RETURN jsonb_build_object('status', 'duplicate');
+    END IF;
+    IF v_routing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'conflict',
+        'reason', 'Already bumped' || COALESCE(' by ' || v_bumped_by, ''),
+        'bumped_at', v_routing.bumped_at
+      );
+    END IF;
+
+    UPDATE kds_order_routing
+    SET priority = p_priority, updated_at = NOW(), event_device_id = p_device_id
+    WHERE id = p_routing_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown KDS action: %', p_action;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'applied');
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_kds_action(UUID, TEXT, TIMESTAMPTZ, UUID, INTEGER, TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS bulk_bump_table_orders(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION bulk_bump_table_orders(
+  p_table_id UUID,
+  p_user_id UUID,
+  p_device_id TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated_count INTEGER;
+BEGIN
+  UPDATE kds_order_routing
+  SET
+    completed_at = NOW(),
+    bumped_by = p_user_id,
+    bumped_at = NOW(),
+    updated_at = NOW(),
+    event_device_id = p_device_id,
+    event_reason = COALESCE(p_reason, 'Table bumped')
+  WHERE
+    order_id IN (
+      SELECT id FROM orders WHERE table_id = p_table_id
+    )
+    AND completed_at IS NULL
+    AND held_at IS NULL;
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+
+  -- Record metrics for each bumped order
+  INSERT INTO kds_metrics (station_id, order_id, metric_type, value_seconds)
+  SELECT
+    kor.station_id,
+    kor.order_id,
+    'prep_time',
+    EXTRACT(EPOCH FROM (NOW() - kor.routed_at))::INTEGER
+  FROM kds_order_routing kor
+  INNER JOIN orders o ON o.id = kor.order_id
+  WHERE
+    o.table_id = p_table_id
+    AND kor.completed_at = NOW()
+    AND kor.bumped_by = p_user_id;
+
+  RETURN v_updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION bulk_bump_table_orders(UUID, UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON TABLE order_events IS 'Append-only audit trail of order and station ticket changes';
+COMMENT ON COLUMN orders.event_device_id IS 'Write-only: device making this change, moved into order_events by trigger';
+COMMENT ON COLUMN orders.event_reason IS 'Write-only: reason for this change, moved into order_events by trigger';
+COMMENT ON COLUMN kds_order_routing.event_device_id IS 'Write-only: device making this change, moved into order_events by trigger';
+COMMENT ON COLUMN kds_order_routing.event_reason IS 'Write-only: reason for this change, moved into order_events by trigger';
+COMMENT ON FUNCTION apply_kds_action(UUID, TEXT, TIMESTAMPTZ, UUID, INTEGER, TEXT) IS 'Apply a journaled KDS action, reporting conflicts with the ticket''s current state';
@@ -0,0 +1,90 @@
+-- Floor Plans Migration
+-- Named floor plans for each room or area (main dining room, private
+-- dining, patio, memory-care wing), each with its own canvas size and
+-- background. Tables belong to exactly one plan, and each meal service can
+-- open a subset of plans so servers only see the rooms in use.
+
+-- ==============================================================================
+-- FLOOR PLANS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS floor_plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  canvas_width INTEGER NOT NULL DEFAULT 800,
+  canvas_height INTEGER NOT NULL DEFAULT 600,
+  background_color TEXT,
+  background_image_url TEXT,
+  position INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_floor_plan_name UNIQUE(name),
+  CONSTRAINT valid_floor_plan_canvas CHECK (
+    canvas_width BETWEEN 200 AND 5000 AND canvas_height BETWEEN 200 AND 5000
+  )
+);
+
+CREATE TRIGGER trigger_floor_plans_updated_at
+  BEFORE UPDATE ON floor_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- PER-SERVICE ACTIVATION
+-- ==============================================================================
+-- A service with no rows here opens every active plan. With rows, servers
+-- only see those plans during the service.
+CREATE TABLE IF NOT EXISTS floor_plan_services (
+  floor_plan_id UUID REFERENCES floor_plans(id) ON DELETE CASCADE NOT NULL,
+  service_id UUID REFERENCES meal_services(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (floor_plan_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_floor_plan_services_service ON floor_plan_services(service_id);
+
+-- ==============================================================================
+-- TABLES
+-- ==============================================================================
+INSERT INTO floor_plans (name, position) VALUES ('Main Dining Room', 1)
+ON CONFLICT (name) DO NOTHING;
+
+-- floor_plan_id had no referenced table until now; move every existing table
+-- into the main dining room
+UPDATE tables
+SET floor_plan_id = (SELECT id FROM floor_plans WHERE name = 'Main Dining Room')
+WHERE floor_plan_id IS NULL
+  OR floor_plan_id NOT IN (SELECT id FROM floor_plans);
+
+-- A plan with tables on it can't be deleted; move or remove the tables first
+ALTER TABLE tables
+  ADD CONSTRAINT tables_floor_plan_id_fkey
+  FOREIGN KEY (floor_plan_id) REFERENCES floor_plans(id) ON DELETE RESTRICT;
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE floor_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE floor_plan_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view floor plans" ON floor_plans
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage floor plans" ON floor_plans
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view floor plan services" ON floor_plan_services
+  FOR SELECT TO authenticated USING (true);
+
+-- Servers open and close rooms for the service they're working
+CREATE POLICY "Staff can manage floor plan services" ON floor_plan_services
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'server'))
+  );
+
+COMMENT ON TABLE floor_plans IS 'Named rooms or areas, each with its own canvas and tables';
+COMMENT ON TABLE floor_plan_services IS 'Floor plans open during a meal service; none means all';
+COMMENT ON COLUMN tables.floor_plan_id IS 'Floor plan the table is placed on';
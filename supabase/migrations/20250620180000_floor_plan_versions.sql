@@ -0,0 +1,35 @@
+-- Floor Plan Versions Migration
+-- Named snapshots of a floor plan's layout ("Normal", "Holiday layout") so a
+-- saved arrangement can be compared against and restored later. The layout
+-- is stored in the same JSON document format the editor imports and exports.
+
+-- ==============================================================================
+-- VERSIONS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS floor_plan_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  floor_plan_id UUID REFERENCES floor_plans(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  layout JSONB NOT NULL,
+  table_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_floor_plan_versions_plan ON floor_plan_versions(floor_plan_id, created_at DESC);
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE floor_plan_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view floor plan versions" ON floor_plan_versions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage floor plan versions" ON floor_plan_versions
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE floor_plan_versions IS 'Named snapshots of a floor plan layout';
+COMMENT ON COLUMN floor_plan_versions.layout IS 'Layout document, same format as the editor JSON export';
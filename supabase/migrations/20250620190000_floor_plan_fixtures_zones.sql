@@ -0,0 +1,88 @@
+-- Floor Plan Fixtures and Zones Migration
+-- Non-seating objects on a floor plan (walls, doors, the server station, the
+-- buffet line, pillars and text labels) and named zones drawn as polygons.
+-- Zones are the server sections: each table can belong to one.
+
+-- ==============================================================================
+-- ZONES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS floor_plan_zones (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  floor_plan_id UUID REFERENCES floor_plans(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  -- [{"x": 0, "y": 0}, ...] in canvas coordinates, at least a triangle
+  points JSONB NOT NULL CHECK (
+    jsonb_typeof(points) = 'array' AND jsonb_array_length(points) >= 3
+  ),
+  position INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_zone_name_per_plan UNIQUE(floor_plan_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_floor_plan_zones_plan ON floor_plan_zones(floor_plan_id);
+
+CREATE TRIGGER trigger_floor_plan_zones_updated_at
+  BEFORE UPDATE ON floor_plan_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS zone_id UUID REFERENCES floor_plan_zones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tables_zone ON tables(zone_id);
+
+-- ==============================================================================
+-- FIXTURES
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS floor_plan_fixtures (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  floor_plan_id UUID REFERENCES floor_plans(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN (
+    'wall', 'door', 'server_station', 'buffet', 'pillar', 'label'
+  )),
+  label TEXT,
+  position_x NUMERIC NOT NULL DEFAULT 0,
+  position_y NUMERIC NOT NULL DEFAULT 0,
+  width NUMERIC NOT NULL CHECK (width > 0),
+  height NUMERIC NOT NULL CHECK (height > 0),
+  rotation NUMERIC NOT NULL DEFAULT 0,
+  z_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_floor_plan_fixtures_plan ON floor_plan_fixtures(floor_plan_id);
+
+CREATE TRIGGER trigger_floor_plan_fixtures_updated_at
+  BEFORE UPDATE ON floor_plan_fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE floor_plan_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE floor_plan_fixtures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view floor plan zones" ON floor_plan_zones
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage floor plan zones" ON floor_plan_zones
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Users can view floor plan fixtures" ON floor_plan_fixtures
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage floor plan fixtures" ON floor_plan_fixtures
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+COMMENT ON TABLE floor_plan_zones IS 'Named polygon areas of a floor plan, used as server sections';
+COMMENT ON TABLE floor_plan_fixtures IS 'Non-seating objects drawn on a floor plan';
+COMMENT ON COLUMN tables.zone_id IS 'Zone (server section) the table belongs to';
@@ -0,0 +1,99 @@
+-- Server Sections Migration
+-- Shift-based section assignment: for a service date and meal service, each
+-- floor plan zone (section) is given to a server, who owns its tables for
+-- that shift. A table can be handed to another server mid-shift; transfers
+-- are recorded and take precedence over the section assignment.
+--
+-- Orders keep server_id as whoever submitted them and also record the
+-- section owner at the time, so per-server metrics follow the assignments.
+
+-- ==============================================================================
+-- SECTION ASSIGNMENTS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS section_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  zone_id UUID REFERENCES floor_plan_zones(id) ON DELETE CASCADE NOT NULL,
+  server_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  service_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- NULL covers the whole day; a service-specific row wins over it
+  service_id UUID REFERENCES meal_services(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One server per section per shift
+CREATE UNIQUE INDEX IF NOT EXISTS idx_section_assignments_shift
+  ON section_assignments(
+    zone_id,
+    service_date,
+    COALESCE(service_id, '00000000-0000-0000-0000-000000000000'::UUID)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_section_assignments_date ON section_assignments(service_date);
+CREATE INDEX IF NOT EXISTS idx_section_assignments_server ON section_assignments(server_id, service_date);
+
+CREATE TRIGGER trigger_section_assignments_updated_at
+  BEFORE UPDATE ON section_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- TABLE TRANSFERS
+-- ==============================================================================
+-- A transfer lasts for the shift it was made in; the latest one wins
+CREATE TABLE IF NOT EXISTS table_transfers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_id UUID REFERENCES tables(id) ON DELETE CASCADE NOT NULL,
+  -- NULL when the table was unassigned
+  from_server_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  to_server_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  service_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  service_id UUID REFERENCES meal_services(id) ON DELETE SET NULL,
+  reason TEXT,
+  transferred_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_transfers_shift ON table_transfers(service_date, service_id);
+CREATE INDEX IF NOT EXISTS idx_table_transfers_table ON table_transfers(table_id, created_at DESC);
+
+-- ==============================================================================
+-- ORDER ATTRIBUTION
+-- ==============================================================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS section_server_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_section_server ON orders(section_server_id, created_at);
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+ALTER TABLE section_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view section assignments" ON section_assignments
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+CREATE POLICY "Admins can manage section assignments" ON section_assignments
+  FOR ALL TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role = 'admin')
+  );
+
+CREATE POLICY "Staff can view table transfers" ON table_transfers
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+-- Transfers are a record: servers add them, nobody edits them
+CREATE POLICY "Servers can record table transfers" ON table_transfers
+  FOR INSERT TO authenticated WITH CHECK (
+    transferred_by = auth.uid() AND
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'server'))
+  );
+
+COMMENT ON TABLE section_assignments IS 'Server given each floor plan zone for a service date and meal service';
+COMMENT ON TABLE table_transfers IS 'Tables handed from one server to another during a shift';
+COMMENT ON COLUMN orders.section_server_id IS 'Server whose section the table was in when the order was placed';
@@ -0,0 +1,226 @@
+-- Table Lifecycle Migration
+-- Explicit state machine for a table's turn:
+--   available -> seated -> ordered -> served -> finished -> bussing -> available
+-- Orders drive seated/ordered/served automatically; servers override any state
+-- from the floor plan. tables.status is kept in step so existing screens that
+-- only know available/occupied/cleaning keep working.
+--
+-- Every turn (seated until available again) is recorded with the time each
+-- state was first reached, for turn-time reporting per table and meal service.
+
+-- ==============================================================================
+-- TABLE STATE
+-- ==============================================================================
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS lifecycle_state TEXT NOT NULL DEFAULT 'available'
+    CHECK (lifecycle_state IN ('available', 'seated', 'ordered', 'served', 'finished', 'bussing')),
+  ADD COLUMN IF NOT EXISTS lifecycle_changed_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Start tables that are already in use part-way through a turn
+UPDATE tables SET lifecycle_state = 'seated' WHERE status = 'occupied';
+UPDATE tables SET lifecycle_state = 'bussing' WHERE status = 'cleaning';
+
+-- ==============================================================================
+-- TURNS
+-- ==============================================================================
+CREATE TABLE IF NOT EXISTS table_turns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_id UUID REFERENCES tables(id) ON DELETE CASCADE NOT NULL,
+  -- Service of the first order, or the one open when the party was seated
+  service_id UUID REFERENCES meal_services(id) ON DELETE SET NULL,
+  seated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ordered_at TIMESTAMPTZ,
+  served_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  bussing_at TIMESTAMPTZ,
+  -- NULL while the turn is in progress
+  available_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one turn in progress per table
+CREATE UNIQUE INDEX IF NOT EXISTS idx_table_turns_open
+  ON table_turns(table_id) WHERE available_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_table_turns_seated ON table_turns(seated_at);
+CREATE INDEX IF NOT EXISTS idx_table_turns_service ON table_turns(service_id, seated_at);
+
+INSERT INTO table_turns (table_id, seated_at)
+SELECT id, NOW() FROM tables WHERE lifecycle_state <> 'available';
+
+-- ==============================================================================
+-- TRANSITIONS
+-- ==============================================================================
+-- Move a table to a state, opening a turn when a party arrives and closing it
+-- when the table is available again. Any state can be set directly so staff
+-- can correct the floor; skipped states just leave their time empty.
+-- Returns the state the table was in.
+CREATE OR REPLACE FUNCTION apply_table_state(
+  p_table_id UUID,
+  p_state TEXT,
+  p_service_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_previous TEXT;
+  v_turn_id UUID;
+BEGIN
+  IF p_state NOT IN ('available', 'seated', 'ordered', 'served', 'finished', 'bussing') THEN
+    RAISE EXCEPTION 'Invalid table state: %', p_state;
+  END IF;
+
+  SELECT lifecycle_state INTO v_previous
+  FROM tables
+  WHERE id = p_table_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % not found', p_table_id;
+  END IF;
+  IF v_previous = p_state THEN
+    RETURN v_previous;
+  END IF;
+
+  SELECT id INTO v_turn_id
+  FROM table_turns
+  WHERE table_id = p_table_id AND available_at IS NULL;
+
+  IF p_state = 'available' THEN
+    UPDATE table_turns SET available_at = NOW() WHERE id = v_turn_id;
+  ELSE
+    IF v_turn_id IS NULL THEN
+      INSERT INTO table_turns (table_id, service_id)
+      VALUES (p_table_id, p_service_id)
+      RETURNING id INTO v_turn_id;
+    END IF;
+
+    UPDATE table_turns
+    SET
+      service_id = COALESCE(service_id, p_service_id),
+      ordered_at = CASE WHEN p_state = 'ordered' THEN COALESCE(ordered_at, NOW()) ELSE ordered_at END,
+      served_at = CASE WHEN p_state = 'served' THEN COALESCE(served_at, NOW()) ELSE served_at END,
+      finished_at = CASE WHEN p_state = 'finished' THEN COALESCE(finished_at, NOW()) ELSE finished_at END,
+      bussing_at = CASE WHEN p_state = 'bussing' THEN COALESCE(bussing_at, NOW()) ELSE bussing_at END
+    WHERE id = v_turn_id;
+  END IF;
+
+  UPDATE tables
+  SET
+    lifecycle_state = p_state,
+    lifecycle_changed_at = NOW(),
+    status = CASE p_state
+      WHEN 'available' THEN 'available'
+      WHEN 'bussing' THEN 'cleaning'
+      ELSE 'occupied'
+    END,
+    updated_at = NOW()
+  WHERE id = p_table_id;
+
+  RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only reachable through set_table_state and the order trigger
+REVOKE EXECUTE ON FUNCTION apply_table_state(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Manual override from the floor plan; staff only
+CREATE OR REPLACE FUNCTION set_table_state(
+  p_table_id UUID,
+  p_state TEXT,
+  p_service_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid() AND role IN ('admin', 'cook', 'server')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can change table state';
+  END IF;
+
+  RETURN apply_table_state(p_table_id, p_state, p_service_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_table_state(UUID, TEXT, UUID) TO authenticated;
+
+-- ==============================================================================
+-- ORDER TRIGGER
+-- ==============================================================================
+-- A new order puts the table in 'ordered'. As orders are delivered or
+-- cancelled the table follows: anything still in the kitchen keeps it
+-- 'ordered', otherwise it is 'served' once something arrived, or back to
+-- 'seated' if everything was cancelled. Tables marked finished or bussing
+-- by staff are left alone.
+CREATE OR REPLACE FUNCTION sync_table_state_from_orders()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_state TEXT;
+  v_seated_at TIMESTAMPTZ;
+  v_open INTEGER;
+  v_delivered INTEGER;
+BEGIN
+  IF NEW.table_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT lifecycle_state INTO v_state FROM tables WHERE id = NEW.table_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'cancelled' AND v_state IN ('available', 'seated', 'served') THEN
+      PERFORM apply_table_state(NEW.table_id, 'ordered', NEW.service_id);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR v_state NOT IN ('ordered', 'served') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT seated_at INTO v_seated_at
+  FROM table_turns
+  WHERE table_id = NEW.table_id AND available_at IS NULL;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status NOT IN ('delivered', 'cancelled')),
+    COUNT(*) FILTER (WHERE status = 'delivered')
+  INTO v_open, v_delivered
+  FROM orders
+  WHERE table_id = NEW.table_id
+    AND created_at >= COALESCE(v_seated_at, NEW.created_at);
+
+  PERFORM apply_table_state(
+    NEW.table_id,
+    CASE
+      WHEN v_open > 0 THEN 'ordered'
+      WHEN v_delivered > 0 THEN 'served'
+      ELSE 'seated'
+    END,
+    NEW.service_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_table_state_from_orders ON orders;
+CREATE TRIGGER sync_table_state_from_orders
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_table_state_from_orders();
+
+-- ==============================================================================
+-- ROW LEVEL SECURITY
+-- ==============================================================================
+-- Turns are only written by apply_table_state
+ALTER TABLE table_turns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view table turns" ON table_turns
+  FOR SELECT TO authenticated USING (
+    auth.uid() IN (SELECT user_id FROM profiles WHERE role IN ('admin', 'cook', 'server'))
+  );
+
+COMMENT ON COLUMN tables.lifecycle_state IS 'Where the table is in its turn: available, seated, ordered, served, finished or bussing';
+COMMENT ON TABLE table_turns IS 'One row per party at a table, with when each lifecycle state was first reached';
+COMMENT ON FUNCTION set_table_state(UUID, TEXT, UUID) IS 'Move a table to a lifecycle state, opening or closing its turn';
@@ -169,6 +169,12 @@ export type TranscriptionResult = {
   confidence?: number
   items: string[]
   duration?: number
+  // Speech-to-text backend that served the request ('openai', 'local' or 'cache')
+  provider?: string
+  // 'normal', or how transcription was degraded by a spent budget
+  budgetMode?: string
+  // False when spend could not be checked against the budgets
+  budgetChecked?: boolean
 }
 
 // =============================================
@@ -1,6 +1,138 @@
 // Database Type Definitions for Plater Restaurant System
 // Auto-generated and maintained for type safety
 
+// What a modifier does to the dish; thickness sets a drink's IDDSI level
+export type ModifierKind =
+  | 'add'
+  | 'remove'
+  | 'substitute'
+  | 'temperature'
+  | 'thickness'
+
+// JSON shapes stored inside jsonb columns
+export type OrderItemModifier = {
+  modifier_id: string | null
+  // The added/removed ingredient, the substitute, or the temperature
+  name: string
+  kind: ModifierKind
+  // What a substitution replaces ("fries" in "salad instead of fries")
+  replaces?: string | null
+}
+
+// One seat on a runner task: who sits there and what they get
+export type RunnerSeat = {
+  seat_id: string
+  seat_label: number | null
+  resident_name: string | null
+  items: {
+    name: string
+    quantity: number
+    modifiers: OrderItemModifier[]
+    notes: string | null
+  }[]
+}
+
+export type RunnerTaskStatus = 'pending' | 'picked_up' | 'delivered'
+
+// Texture-modified diets and drink consistencies, named after IDDSI levels
+export type TextureDiet =
+  | 'regular'
+  | 'easy_to_chew'
+  | 'soft_bite_sized'
+  | 'minced_moist'
+  | 'pureed'
+  | 'liquidised'
+export type FluidThickness =
+  | 'thin'
+  | 'slightly_thick'
+  | 'mildly_thick'
+  | 'moderately_thick'
+  | 'extremely_thick'
+
+// Resident care details copied onto an order for the KDS ticket
+export type ResidentCareSnapshot = {
+  room_number: string | null
+  texture_diet: TextureDiet | null
+  fluid_thickness: FluidThickness | null
+  assistance_notes: string | null
+}
+
+export type TranscriptionBudgetScope = 'facility' | 'role' | 'user'
+export type TranscriptionBudgetPeriod = 'day' | 'week' | 'month'
+// What transcription falls back to once a budget is spent
+export type TranscriptionBudgetAction = 'cheaper_model' | 'cache_only'
+
+// Courses a table is served in, in firing order
+export type Course = 'appetizer' | 'entree' | 'dessert'
+
+// Where a cook is with one line on a station ticket
+export type TicketItemState = 'pending' | 'started' | 'done'
+
+// What a KDS routing rule matches an order line against
+export type RoutingRuleMatchType =
+  | 'menu_item'
+  | 'category'
+  | 'keyword'
+  | 'regex'
+  | 'order_type'
+
+// Lifecycle of a queued kitchen print job
+export type PrintJobKind = 'ticket' | 'reprint' | 'test'
+export type PrintJobStatus = 'pending' | 'printing' | 'printed' | 'failed'
+
+// One line of preview_order_routing: where the line goes and which rule sent it
+export type RoutingPreviewLine = {
+  line_index: number
+  line_name: string
+  station_type: string | null
+  station_id: string | null
+  station_name: string | null
+  rule_id: string | null
+  rule_name: string | null
+  source: 'rule' | 'catalog' | 'fallback'
+}
+
+// KDS actions a screen journals while disconnected
+export type KDSActionType = 'bump' | 'recall' | 'start_prep' | 'priority'
+
+// What apply_kds_action did with a journaled action
+export type KDSActionResult = {
+  status: 'applied' | 'duplicate' | 'conflict'
+  reason?: string
+  bumped_at?: string | null
+  recalled_at?: string | null
+}
+
+export type OrderEventType =
+  | 'created'
+  | 'status_changed'
+  | 'deleted'
+  | 'routed'
+  | 'started'
+  | 'bumped'
+  | 'recalled'
+  | 'held'
+  | 'fired'
+  | 'priority_changed'
+
+// Where a table is in its turn, from seating the party to resetting it
+export type TableLifecycleState =
+  | 'available'
+  | 'seated'
+  | 'ordered'
+  | 'served'
+  | 'finished'
+  | 'bussing'
+
+// Non-seating objects on a floor plan
+export type FixtureKind =
+  | 'wall'
+  | 'door'
+  | 'server_station'
+  | 'buffet'
+  | 'pillar'
+  | 'label'
+
 export type Database = {
   public: {
     Tables: {
@@ -49,6 +181,9 @@ export type Database = {
           shape: 'rectangle' | 'circle' | 'oval' | null
           color: string | null
           floor_plan_id: string | null
+          zone_id: string | null
+          lifecycle_state: TableLifecycleState
+          lifecycle_changed_at: string | null
           created_at: string
           updated_at: string
         }
@@ -66,6 +201,9 @@ export type Database = {
           shape?: 'rectangle' | 'circle' | 'oval' | null
           color?: string | null
           floor_plan_id?: string | null
+          zone_id?: string | null
+          lifecycle_state?: TableLifecycleState
+          lifecycle_changed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -83,6 +221,9 @@ export type Database = {
           shape?: 'rectangle' | 'circle' | 'oval' | null
           color?: string | null
           floor_plan_id?: string | null
+          zone_id?: string | null
+          lifecycle_state?: TableLifecycleState
+          lifecycle_changed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -139,6 +280,15 @@ export type Database = {
           special_requests: string | null
           estimated_time: number | null
           actual_time: number | null
+          dietary_alerts: string[]
+          dietary_override_reason: string | null
+          service_id: string | null
+          section_server_id: string | null
+          resident_care: ResidentCareSnapshot | null
+          awaiting_lines: boolean
+          idempotency_key: string | null
+          event_device_id: string | null
+          event_reason: string | null
           created_at: string
           updated_at: string
         }
@@ -155,6 +305,15 @@ export type Database = {
           special_requests?: string | null
           estimated_time?: number | null
           actual_time?: number | null
+          dietary_alerts?: string[]
+          dietary_override_reason?: string | null
+          service_id?: string | null
+          section_server_id?: string | null
+          resident_care?: ResidentCareSnapshot | null
+          awaiting_lines?: boolean
+          idempotency_key?: string | null
+          event_device_id?: string | null
+          event_reason?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -171,6 +330,15 @@ export type Database = {
           special_requests?: string | null
           estimated_time?: number | null
           actual_time?: number | null
+          dietary_alerts?: string[]
+          dietary_override_reason?: string | null
+          service_id?: string | null
+          section_server_id?: string | null
+          resident_care?: ResidentCareSnapshot | null
+          awaiting_lines?: boolean
+          idempotency_key?: string | null
+          event_device_id?: string | null
+          event_reason?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -191,6 +359,7 @@ export type Database = {
           position: number
           is_active: boolean
           settings: Record<string, any> | null
+          printer_id: string | null
           created_at: string
           updated_at: string
         }
@@ -209,6 +378,7 @@ export type Database = {
           position?: number
           is_active?: boolean
           settings?: Record<string, any> | null
+          printer_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -227,6 +397,7 @@ export type Database = {
           position?: number
           is_active?: boolean
           settings?: Record<string, any> | null
+          printer_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -248,6 +419,14 @@ export type Database = {
           actual_prep_time: number | null
           notes: string | null
           priority: number
+          course: Course | null
+          held_at: string | null
+          fired_at: string | null
+          fired_by: string | null
+          runner_task_id: string | null
+          sent_at: string | null
+          event_device_id: string | null
+          event_reason: string | null
           created_at: string
           updated_at: string
         }
@@ -267,6 +446,14 @@ export type Database = {
           actual_prep_time?: number | null
           notes?: string | null
           priority?: number
+          course?: Course | null
+          held_at?: string | null
+          fired_at?: string | null
+          fired_by?: string | null
+          runner_task_id?: string | null
+          sent_at?: string | null
+          event_device_id?: string | null
+          event_reason?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -286,6 +473,90 @@ export type Database = {
           actual_prep_time?: number | null
           notes?: string | null
           priority?: number
+          course?: Course | null
+          held_at?: string | null
+          fired_at?: string | null
+          fired_by?: string | null
+          runner_task_id?: string | null
+          sent_at?: string | null
+          event_device_id?: string | null
+          event_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      kds_ticket_items: {
+        Row: {
+          id: string
+          routing_id: string
+          order_item_id: string | null
+          line_index: number
+          started_at: string | null
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          routing_id: string
+          order_item_id?: string | null
+          line_index: number
+          started_at?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          routing_id?: string
+          order_item_id?: string | null
+          line_index?: number
+          started_at?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      runner_tasks: {
+        Row: {
+          id: string
+          table_id: string
+          course: Course | null
+          seat_map: RunnerSeat[]
+          status: RunnerTaskStatus
+          created_by: string | null
+          picked_up_by: string | null
+          picked_up_at: string | null
+          delivered_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          table_id: string
+          course?: Course | null
+          seat_map?: RunnerSeat[]
+          status?: RunnerTaskStatus
+          created_by?: string | null
+          picked_up_by?: string | null
+          picked_up_at?: string | null
+          delivered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          table_id?: string
+          course?: Course | null
+          seat_map?: RunnerSeat[]
+          status?: RunnerTaskStatus
+          created_by?: string | null
+          picked_up_by?: string | null
+          picked_up_at?: string | null
+          delivered_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -427,181 +698,1290 @@ export type Database = {
           metadata?: Record<string, any>
         }
       }
-    }
-    Views: {
-      kds_table_summary: {
+      alert_rules: {
         Row: {
-          table_id: string
-          table_label: string
-          total_orders: number
-          pending_orders: number
-          ready_orders: number
-          average_prep_time: number | null
-          oldest_order_time: string | null
-          priority_score: number
+          id: string
+          name: string
+          description: string | null
+          condition: Record<string, any>
+          actions: any[]
+          enabled: boolean | null
+          created_at: string | null
+          updated_at: string | null
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          condition: Record<string, any>
+          actions?: any[]
+          enabled?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          condition?: Record<string, any>
+          actions?: any[]
+          enabled?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+          created_by?: string | null
         }
       }
-    }
-    Functions: {
-      bulk_bump_table_orders: {
-        Args: {
-          p_table_id: string
-          p_user_id: string
+      alert_history: {
+        Row: {
+          id: string
+          rule_id: string | null
+          triggered_at: string
+          event_data: Record<string, any>
+          actions_taken: any[] | null
+          resolved_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          rule_id?: string | null
+          triggered_at?: string
+          event_data?: Record<string, any>
+          actions_taken?: any[] | null
+          resolved_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          rule_id?: string | null
+          triggered_at?: string
+          event_data?: Record<string, any>
+          actions_taken?: any[] | null
+          resolved_at?: string | null
+          created_at?: string | null
         }
-        Returns: number
       }
-    }
-    Enums: {
-      user_role: 'admin' | 'cook' | 'server' | 'resident'
-      order_status: 'new' | 'in_progress' | 'ready' | 'delivered' | 'cancelled'
-      order_type: 'food' | 'drink'
-      table_status: 'available' | 'occupied' | 'cleaning' | 'reserved'
-      station_type:
-        | 'grill'
-        | 'fryer'
-        | 'salad'
-        | 'expo'
-        | 'bar'
-        | 'prep'
-        | 'dessert'
-      metric_type: 'prep_time' | 'throughput' | 'efficiency' | 'errors'
-      openai_operation: 'transcription' | 'chat_completion' | 'batch_processing'
-    }
-  }
-}
-
-// Type helpers for common operations
-export type Tables<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Row']
-export type InsertTables<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Insert']
-export type UpdateTables<T extends keyof Database['public']['Tables']> =
-  Database['public']['Tables'][T]['Update']
-
-// Common type aliases
-export type Profile = Tables<'profiles'>
-export type Table = Tables<'tables'>
-export type Seat = Tables<'seats'>
-export type Order = Tables<'orders'>
-export type KDSStation = Tables<'kds_stations'>
-export type KDSOrderRouting = Tables<'kds_order_routing'>
-export type KDSMetric = Tables<'kds_metrics'>
-export type KDSConfiguration = Tables<'kds_configuration'>
-export type TranscriptionCache = Tables<'transcription_cache'>
-export type OpenAIUsageMetric = Tables<'openai_usage_metrics'>
-
-// Insert types
-export type ProfileInsert = InsertTables<'profiles'>
-export type TableInsert = InsertTables<'tables'>
-export type SeatInsert = InsertTables<'seats'>
-export type OrderInsert = InsertTables<'orders'>
-export type KDSStationInsert = InsertTables<'kds_stations'>
-export type KDSOrderRoutingInsert = InsertTables<'kds_order_routing'>
-export type TranscriptionCacheInsert = InsertTables<'transcription_cache'>
-export type OpenAIUsageMetricInsert = InsertTables<'openai_usage_metrics'>
-
-// Update types
-export type ProfileUpdate = UpdateTables<'profiles'>
-export type TableUpdate = UpdateTables<'tables'>
-export type SeatUpdate = UpdateTables<'seats'>
-export type OrderUpdate = UpdateTables<'orders'>
-export type KDSStationUpdate = UpdateTables<'kds_stations'>
-export type KDSOrderRoutingUpdate = UpdateTables<'kds_order_routing'>
-export type TranscriptionCacheUpdate = UpdateTables<'transcription_cache'>
-export type OpenAIUsageMetricUpdate = UpdateTables<'openai_usage_metrics'>
-
-// Enum types
-export type UserRole = Database['public']['Enums']['user_role']
-export type OrderStatus = Database['public']['Enums']['order_status']
-export type OrderType = Database['public']['Enums']['order_type']
-export type TableStatus = Database['public']['Enums']['table_status']
-export type StationType = Database['public']['Enums']['station_type']
-export type MetricType = Database['public']['Enums']['metric_type']
-export type OpenAIOperation = Database['public']['Enums']['openai_operation']
-
-// View types
-export type KDSTableSummary =
-  Database['public']['Views']['kds_table_summary']['Row']
-
-// Composite types for queries with joins
-export type OrderWithJoins = Order & {
-  tables: Pick<Table, 'label'>
-  seats: Pick<Seat, 'label'>
-  resident?: Pick<Profile, 'name'>
-  server?: Pick<Profile, 'name'>
-}
-
-export type KDSOrderWithJoins = KDSOrderRouting & {
-  order: OrderWithJoins
-  station: KDSStation
-}
-
-export type TableWithSeats = Table & {
-  seats: Seat[]
-}
-
-export type SeatWithResident = Seat & {
-  resident?: Pick<Profile, 'name' | 'dietary_restrictions'>
-}
-
-// API Response types
-export type ApiResponse<T = any> = {
-  success: boolean
-  data?: T
-  error?: string
-  message?: string
-}
-
-export type PaginatedResponse<T = any> = {
-  data: T[]
-  count: number
-  page: number
-  limit: number
-  totalPages: number
-  hasNext: boolean
-  hasPrev: boolean
-}
-
-// Common query filters
-export type OrderFilters = {
-  status?: OrderStatus[]
-  type?: OrderType[]
-  table_id?: string
-  resident_id?: string
-  server_id?: string
-  date_from?: string
-  date_to?: string
-}
-
-export type KDSFilters = {
-  station_id?: string
-  status?: ('pending' | 'in_progress' | 'completed')[]
-  priority?: number[]
-  date_from?: string
-  date_to?: string
-}
-
-// Real-time subscription types
-export type RealtimePayload<T = any> = {
-  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
-  new: T | null
-  old: T | null
-  schema: string
-  table: string
-  commit_timestamp: string
-}
-
-// Error types
-export type DatabaseError = {
-  message: string
-  details: string | null
-  hint: string | null
-  code: string
-}
-
-// Session and auth types
-export type UserSession = {
-  user: {
+      transcription_budgets: {
+        Row: {
+          id: string
+          scope: TranscriptionBudgetScope
+          scope_value: string | null
+          period: TranscriptionBudgetPeriod
+          limit_usd: number
+          warning_pct: number
+          exhausted_action: TranscriptionBudgetAction
+          enabled: boolean
+          alert_rule_id: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          scope: TranscriptionBudgetScope
+          scope_value?: string | null
+          period?: TranscriptionBudgetPeriod
+          limit_usd: number
+          warning_pct?: number
+          exhausted_action?: TranscriptionBudgetAction
+          enabled?: boolean
+          alert_rule_id?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          scope?: TranscriptionBudgetScope
+          scope_value?: string | null
+          period?: TranscriptionBudgetPeriod
+          limit_usd?: number
+          warning_pct?: number
+          exhausted_action?: TranscriptionBudgetAction
+          enabled?: boolean
+          alert_rule_id?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      menu_categories: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          position: number
+          station_type:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          default_course: Course | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          position?: number
+          station_type?:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          default_course?: Course | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          position?: number
+          station_type?:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          default_course?: Course | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      menu_items: {
+        Row: {
+          id: string
+          category_id: string | null
+          name: string
+          description: string | null
+          type: 'food' | 'drink'
+          station_type:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          price_cents: number | null
+          estimated_prep_time: number | null
+          allergens: string[]
+          diet_tags: string[]
+          is_available: boolean
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          category_id?: string | null
+          name: string
+          description?: string | null
+          type?: 'food' | 'drink'
+          station_type?:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          price_cents?: number | null
+          estimated_prep_time?: number | null
+          allergens?: string[]
+          diet_tags?: string[]
+          is_available?: boolean
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          category_id?: string | null
+          name?: string
+          description?: string | null
+          type?: 'food' | 'drink'
+          station_type?:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+            | null
+          price_cents?: number | null
+          estimated_prep_time?: number | null
+          allergens?: string[]
+          diet_tags?: string[]
+          is_available?: boolean
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      menu_modifiers: {
+        Row: {
+          id: string
+          menu_item_id: string | null
+          name: string
+          kind: ModifierKind
+          price_delta_cents: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          menu_item_id?: string | null
+          name: string
+          kind?: ModifierKind
+          price_delta_cents?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          menu_item_id?: string | null
+          name?: string
+          kind?: ModifierKind
+          price_delta_cents?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      menu_availability_windows: {
+        Row: {
+          id: string
+          menu_item_id: string
+          day_of_week: number | null
+          start_time: string
+          end_time: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          menu_item_id: string
+          day_of_week?: number | null
+          start_time: string
+          end_time: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          menu_item_id?: string
+          day_of_week?: number | null
+          start_time?: string
+          end_time?: string
+          created_at?: string
+        }
+      }
+      resident_details: {
+        Row: {
+          user_id: string
+          photo_path: string | null
+          room_number: string | null
+          preferred_table_id: string | null
+          preferred_seat: number | null
+          texture_diet: TextureDiet | null
+          fluid_thickness: FluidThickness | null
+          assistance_notes: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          photo_path?: string | null
+          room_number?: string | null
+          preferred_table_id?: string | null
+          preferred_seat?: number | null
+          texture_diet?: TextureDiet | null
+          fluid_thickness?: FluidThickness | null
+          assistance_notes?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          photo_path?: string | null
+          room_number?: string | null
+          preferred_table_id?: string | null
+          preferred_seat?: number | null
+          texture_diet?: TextureDiet | null
+          fluid_thickness?: FluidThickness | null
+          assistance_notes?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      meal_services: {
+        Row: {
+          id: string
+          name: string
+          start_time: string
+          end_time: string
+          days_of_week: number[] | null
+          out_of_service_policy: 'warn' | 'block'
+          position: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          start_time: string
+          end_time: string
+          days_of_week?: number[] | null
+          out_of_service_policy?: 'warn' | 'block'
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          start_time?: string
+          end_time?: string
+          days_of_week?: number[] | null
+          out_of_service_policy?: 'warn' | 'block'
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      menu_item_services: {
+        Row: {
+          menu_item_id: string
+          service_id: string
+          created_at: string
+        }
+        Insert: {
+          menu_item_id: string
+          service_id: string
+          created_at?: string
+        }
+        Update: {
+          menu_item_id?: string
+          service_id?: string
+          created_at?: string
+        }
+      }
+      floor_plans: {
+        Row: {
+          id: string
+          name: string
+          canvas_width: number
+          canvas_height: number
+          background_color: string | null
+          background_image_url: string | null
+          position: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          canvas_width?: number
+          canvas_height?: number
+          background_color?: string | null
+          background_image_url?: string | null
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          canvas_width?: number
+          canvas_height?: number
+          background_color?: string | null
+          background_image_url?: string | null
+          position?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      floor_plan_services: {
+        Row: {
+          floor_plan_id: string
+          service_id: string
+          created_at: string
+        }
+        Insert: {
+          floor_plan_id: string
+          service_id: string
+          created_at?: string
+        }
+        Update: {
+          floor_plan_id?: string
+          service_id?: string
+          created_at?: string
+        }
+      }
+      floor_plan_versions: {
+        Row: {
+          id: string
+          floor_plan_id: string
+          name: string
+          layout: Record<string, any>
+          table_count: number
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          floor_plan_id: string
+          name: string
+          layout: Record<string, any>
+          table_count?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          floor_plan_id?: string
+          name?: string
+          layout?: Record<string, any>
+          table_count?: number
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      floor_plan_zones: {
+        Row: {
+          id: string
+          floor_plan_id: string
+          name: string
+          color: string
+          points: { x: number; y: number }[]
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          floor_plan_id: string
+          name: string
+          color?: string
+          points: { x: number; y: number }[]
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          floor_plan_id?: string
+          name?: string
+          color?: string
+          points?: { x: number; y: number }[]
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      floor_plan_fixtures: {
+        Row: {
+          id: string
+          floor_plan_id: string
+          kind: FixtureKind
+          label: string | null
+          position_x: number
+          position_y: number
+          width: number
+          height: number
+          rotation: number
+          z_index: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          floor_plan_id: string
+          kind: FixtureKind
+          label?: string | null
+          position_x?: number
+          position_y?: number
+          width: number
+          height: number
+          rotation?: number
+          z_index?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          floor_plan_id?: string
+          kind?: FixtureKind
+          label?: string | null
+          position_x?: number
+          position_y?: number
+          width?: number
+          height?: number
+          rotation?: number
+          z_index?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      section_assignments: {
+        Row: {
+          id: string
+          zone_id: string
+          server_id: string
+          service_date: string
+          service_id: string | null
+          assigned_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          zone_id: string
+          server_id: string
+          service_date?: string
+          service_id?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          zone_id?: string
+          server_id?: string
+          service_date?: string
+          service_id?: string | null
+          assigned_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      table_transfers: {
+        Row: {
+          id: string
+          table_id: string
+          from_server_id: string | null
+          to_server_id: string
+          service_date: string
+          service_id: string | null
+          reason: string | null
+          transferred_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          table_id: string
+          from_server_id?: string | null
+          to_server_id: string
+          service_date?: string
+          service_id?: string | null
+          reason?: string | null
+          transferred_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          table_id?: string
+          from_server_id?: string | null
+          to_server_id?: string
+          service_date?: string
+          service_id?: string | null
+          reason?: string | null
+          transferred_by?: string | null
+          created_at?: string
+        }
+      }
+      table_turns: {
+        Row: {
+          id: string
+          table_id: string
+          service_id: string | null
+          seated_at: string
+          ordered_at: string | null
+          served_at: string | null
+          finished_at: string | null
+          bussing_at: string | null
+          available_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          table_id: string
+          service_id?: string | null
+          seated_at?: string
+          ordered_at?: string | null
+          served_at?: string | null
+          finished_at?: string | null
+          bussing_at?: string | null
+          available_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          table_id?: string
+          service_id?: string | null
+          seated_at?: string
+          ordered_at?: string | null
+          served_at?: string | null
+          finished_at?: string | null
+          bussing_at?: string | null
+          available_at?: string | null
+          created_at?: string
+        }
+      }
+      menu_item_synonyms: {
+        Row: {
+          id: string
+          menu_item_id: string
+          phrase: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          menu_item_id: string
+          phrase: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          menu_item_id?: string
+          phrase?: string
+          created_at?: string
+        }
+      }
+      order_items: {
+        Row: {
+          id: string
+          order_id: string
+          menu_item_id: string | null
+          name: string
+          quantity: number
+          modifiers: OrderItemModifier[]
+          notes: string | null
+          position: number
+          course: Course | null
+          // The resident's IDDSI level for this line: texture for food,
+          // thickness for drinks
+          texture_diet: TextureDiet | null
+          fluid_thickness: FluidThickness | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          menu_item_id?: string | null
+          name: string
+          quantity?: number
+          modifiers?: OrderItemModifier[]
+          notes?: string | null
+          position?: number
+          course?: Course | null
+          texture_diet?: TextureDiet | null
+          fluid_thickness?: FluidThickness | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          menu_item_id?: string | null
+          name?: string
+          quantity?: number
+          modifiers?: OrderItemModifier[]
+          notes?: string | null
+          position?: number
+          course?: Course | null
+          texture_diet?: TextureDiet | null
+          fluid_thickness?: FluidThickness | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      kds_routing_rules: {
+        Row: {
+          id: string
+          name: string
+          match_type: RoutingRuleMatchType
+          menu_item_id: string | null
+          category_id: string | null
+          pattern: string | null
+          station_type:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+          priority: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          match_type: RoutingRuleMatchType
+          menu_item_id?: string | null
+          category_id?: string | null
+          pattern?: string | null
+          station_type:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          match_type?: RoutingRuleMatchType
+          menu_item_id?: string | null
+          category_id?: string | null
+          pattern?: string | null
+          station_type?:
+            | 'grill'
+            | 'fryer'
+            | 'salad'
+            | 'expo'
+            | 'bar'
+            | 'prep'
+            | 'dessert'
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      kds_printers: {
+        Row: {
+          id: string
+          name: string
+          host: string
+          port: number
+          chars_per_line: number
+          auto_print: boolean
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          host: string
+          port?: number
+          chars_per_line?: number
+          auto_print?: boolean
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          host?: string
+          port?: number
+          chars_per_line?: number
+          auto_print?: boolean
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      print_jobs: {
+        Row: {
+          id: string
+          printer_id: string
+          routing_id: string | null
+          kind: PrintJobKind
+          status: PrintJobStatus
+          attempts: number
+          max_attempts: number
+          next_attempt_at: string
+          last_error: string | null
+          printed_at: string | null
+          requested_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          printer_id: string
+          routing_id?: string | null
+          kind?: PrintJobKind
+          status?: PrintJobStatus
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          printed_at?: string | null
+          requested_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          printer_id?: string
+          routing_id?: string | null
+          kind?: PrintJobKind
+          status?: PrintJobStatus
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          printed_at?: string | null
+          requested_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      order_events: {
+        Row: {
+          id: string
+          order_id: string
+          routing_id: string | null
+          station_id: string | null
+          event_type: OrderEventType
+          previous_state: string | null
+          new_state: string | null
+          actor_id: string | null
+          device_id: string | null
+          reason: string | null
+          metadata: Record<string, any>
+          created_at: string
+        }
+        // Written by database triggers; updates and deletes are refused
+        Insert: {
+          id?: string
+          order_id: string
+          routing_id?: string | null
+          station_id?: string | null
+          event_type: OrderEventType
+          previous_state?: string | null
+          new_state?: string | null
+          actor_id?: string | null
+          device_id?: string | null
+          reason?: string | null
+          metadata?: Record<string, any>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          routing_id?: string | null
+          station_id?: string | null
+          event_type?: OrderEventType
+          previous_state?: string | null
+          new_state?: string | null
+          actor_id?: string | null
+          device_id?: string | null
+          reason?: string | null
+          metadata?: Record<string, any>
+          created_at?: string
+        }
+      }
+      rate_limit_windows: {
+        Row: {
+          key: string
+          window_start: number
+          hits: number
+        }
+        Insert: {
+          key: string
+          window_start: number
+          hits?: number
+        }
+        Update: {
+          key?: string
+          window_start?: number
+          hits?: number
+        }
+      }
+    }
+    Views: {
+      kds_table_summary: {
+        Row: {
+          table_id: string
+          table_label: string
+          total_orders: number
+          pending_orders: number
+          ready_orders: number
+          average_prep_time: number | null
+          oldest_order_time: string | null
+          priority_score: number
+        }
+      }
+    }
+    Functions: {
+      apply_kds_action: {
+        Args: {
+          p_routing_id: string
+          p_action: KDSActionType
+          p_performed_at: string
+          p_user_id?: string | null
+          p_priority?: number | null
+          p_device_id?: string | null
+        }
+        Returns: KDSActionResult
+      }
+      bulk_bump_table_orders: {
+        Args: {
+          p_table_id: string
+          p_user_id: string
+          p_device_id?: string | null
+          p_reason?: string | null
+        }
+        Returns: number
+      }
+      preview_order_routing: {
+        Args: {
+          p_order_type: string
+          p_lines: { name: string; menu_item_id?: string | null }[]
+        }
+        Returns: RoutingPreviewLine[]
+      }
+      route_order_to_stations: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: number
+      }
+      fire_next_course: {
+        Args: {
+          p_table_id: string
+        }
+        Returns: Course | null
+      }
+      set_ticket_item_state: {
+        Args: {
+          p_item_id: string
+          p_state: TicketItemState
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      transcription_budget_status: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          budget_id: string
+          scope: TranscriptionBudgetScope
+          scope_value: string | null
+          period: TranscriptionBudgetPeriod
+          limit_usd: number
+          warning_pct: number
+          exhausted_action: TranscriptionBudgetAction
+          spent_usd: number
+        }[]
+      }
+      record_transcription_budget_alert: {
+        Args: {
+          p_budget_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      set_table_state: {
+        Args: {
+          p_table_id: string
+          p_state: TableLifecycleState
+          p_service_id?: string | null
+        }
+        Returns: TableLifecycleState
+      }
+      send_course_to_table: {
+        Args: {
+          p_table_id: string
+          p_course: Course | null
+          p_user_id: string
+        }
+        Returns: string
+      }
+      claim_print_jobs: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database['public']['Tables']['print_jobs']['Row'][]
+      }
+      acquire_print_worker_lease: {
+        Args: {
+          p_holder: string
+          p_ttl_seconds?: number
+        }
+        Returns: boolean
+      }
+      rate_limit_hit: {
+        Args: {
+          p_key: string
+          p_limit: number
+          p_window_ms: number
+        }
+        Returns: {
+          allowed: boolean
+          current_hits: number
+          previous_hits: number
+          window_start_ms: number
+          now_ms: number
+        }[]
+      }
+    }
+    Enums: {
+      user_role: 'admin' | 'cook' | 'server' | 'resident'
+      order_status: 'new' | 'in_progress' | 'ready' | 'delivered' | 'cancelled'
+      order_type: 'food' | 'drink'
+      table_status: 'available' | 'occupied' | 'cleaning' | 'reserved'
+      station_type:
+        | 'grill'
+        | 'fryer'
+        | 'salad'
+        | 'expo'
+        | 'bar'
+        | 'prep'
+        | 'dessert'
+      metric_type: 'prep_time' | 'throughput' | 'efficiency' | 'errors'
+      openai_operation: 'transcription' | 'chat_completion' | 'batch_processing'
+    }
+  }
+}
+
+// Type helpers for common operations
+export type Tables<T extends keyof Database['public']['Tables']> =
+  Database['public']['Tables'][T]['Row']
+export type InsertTables<T extends keyof Database['public']['Tables']> =
+  Database['public']['Tables'][T]['Insert']
+export type UpdateTables<T extends keyof Database['public']['Tables']> =
+  Database['public']['Tables'][T]['Update']
+
+// Common type aliases
+export type Profile = Tables<'profiles'>
+export type Table = Tables<'tables'>
+export type Seat = Tables<'seats'>
+export type Order = Tables<'orders'>
+export type KDSStation = Tables<'kds_stations'>
+export type KDSOrderRouting = Tables<'kds_order_routing'>
+export type KDSTicketItem = Tables<'kds_ticket_items'>
+export type RunnerTask = Tables<'runner_tasks'>
+export type KDSMetric = Tables<'kds_metrics'>
+export type KDSConfiguration = Tables<'kds_configuration'>
+export type TranscriptionCache = Tables<'transcription_cache'>
+export type OpenAIUsageMetric = Tables<'openai_usage_metrics'>
+export type TranscriptionBudget = Tables<'transcription_budgets'>
+export type MenuCategory = Tables<'menu_categories'>
+export type MenuItem = Tables<'menu_items'>
+export type MenuModifier = Tables<'menu_modifiers'>
+export type MenuAvailabilityWindow = Tables<'menu_availability_windows'>
+export type MenuItemSynonym = Tables<'menu_item_synonyms'>
+export type MealService = Tables<'meal_services'>
+export type ResidentDetails = Tables<'resident_details'>
+export type MenuItemService = Tables<'menu_item_services'>
+export type FloorPlan = Tables<'floor_plans'>
+export type FloorPlanService = Tables<'floor_plan_services'>
+export type FloorPlanVersion = Tables<'floor_plan_versions'>
+export type FloorPlanZone = Tables<'floor_plan_zones'>
+export type FloorPlanFixture = Tables<'floor_plan_fixtures'>
+export type SectionAssignment = Tables<'section_assignments'>
+export type TableTransfer = Tables<'table_transfers'>
+export type TableTurn = Tables<'table_turns'>
+export type OrderItem = Tables<'order_items'>
+export type KDSRoutingRule = Tables<'kds_routing_rules'>
+export type KDSPrinter = Tables<'kds_printers'>
+export type PrintJob = Tables<'print_jobs'>
+
+// Insert types
+export type ProfileInsert = InsertTables<'profiles'>
+export type TableInsert = InsertTables<'tables'>
+export type SeatInsert = InsertTables<'seats'>
+export type OrderInsert = InsertTables<'orders'>
+export type KDSStationInsert = InsertTables<'kds_stations'>
+export type KDSOrderRoutingInsert = InsertTables<'kds_order_routing'>
+export type KDSTicketItemInsert = InsertTables<'kds_ticket_items'>
+export type RunnerTaskInsert = InsertTables<'runner_tasks'>
+export type TranscriptionCacheInsert = InsertTables<'transcription_cache'>
+export type OpenAIUsageMetricInsert = InsertTables<'openai_usage_metrics'>
+export type TranscriptionBudgetInsert = InsertTables<'transcription_budgets'>
+export type MenuCategoryInsert = InsertTables<'menu_categories'>
+export type MenuItemInsert = InsertTables<'menu_items'>
+export type MenuModifierInsert = InsertTables<'menu_modifiers'>
+export type MenuAvailabilityWindowInsert =
+  InsertTables<'menu_availability_windows'>
+export type MealServiceInsert = InsertTables<'meal_services'>
+export type FloorPlanInsert = InsertTables<'floor_plans'>
+export type SectionAssignmentInsert = InsertTables<'section_assignments'>
+export type TableTransferInsert = InsertTables<'table_transfers'>
+export type ResidentDetailsInsert = InsertTables<'resident_details'>
+export type OrderItemInsert = InsertTables<'order_items'>
+export type KDSRoutingRuleInsert = InsertTables<'kds_routing_rules'>
+export type KDSPrinterInsert = InsertTables<'kds_printers'>
+export type PrintJobInsert = InsertTables<'print_jobs'>
+
+// Update types
+export type ProfileUpdate = UpdateTables<'profiles'>
+export type TableUpdate = UpdateTables<'tables'>
+export type SeatUpdate = UpdateTables<'seats'>
+export type OrderUpdate = UpdateTables<'orders'>
+export type KDSStationUpdate = UpdateTables<'kds_stations'>
+export type KDSOrderRoutingUpdate = UpdateTables<'kds_order_routing'>
+export type KDSTicketItemUpdate = UpdateTables<'kds_ticket_items'>
+export type RunnerTaskUpdate = UpdateTables<'runner_tasks'>
+export type TranscriptionCacheUpdate = UpdateTables<'transcription_cache'>
+export type OpenAIUsageMetricUpdate = UpdateTables<'openai_usage_metrics'>
+export type TranscriptionBudgetUpdate = UpdateTables<'transcription_budgets'>
+export type MenuCategoryUpdate = UpdateTables<'menu_categories'>
+export type MenuItemUpdate = UpdateTables<'menu_items'>
+export type MenuModifierUpdate = UpdateTables<'menu_modifiers'>
+export type MealServiceUpdate = UpdateTables<'meal_services'>
+export type FloorPlanUpdate = UpdateTables<'floor_plans'>
+export type ResidentDetailsUpdate = UpdateTables<'resident_details'>
+export type OrderItemUpdate = UpdateTables<'order_items'>
+export type KDSRoutingRuleUpdate = UpdateTables<'kds_routing_rules'>
+export type KDSPrinterUpdate = UpdateTables<'kds_printers'>
+export type PrintJobUpdate = UpdateTables<'print_jobs'>
+
+// Enum types
+export type UserRole = Database['public']['Enums']['user_role']
+export type OrderStatus = Database['public']['Enums']['order_status']
+export type OrderType = Database['public']['Enums']['order_type']
+export type TableStatus = Database['public']['Enums']['table_status']
+export type StationType = Database['public']['Enums']['station_type']
+export type MetricType = Database['public']['Enums']['metric_type']
+export type OpenAIOperation = Database['public']['Enums']['openai_operation']
+
+// View types
+export type KDSTableSummary =
+  Database['public']['Views']['kds_table_summary']['Row']
+
+// Composite types for queries with joins
+export type OrderWithJoins = Order & {
+  tables: Pick<Table, 'label'>
+  seats: Pick<Seat, 'label'>
+  resident?: Pick<Profile, 'name'>
+  server?: Pick<Profile, 'name'>
+}
+
+export type KDSOrderWithJoins = KDSOrderRouting & {
+  order: OrderWithJoins
+  station: KDSStation
+}
+
+export type MenuItemWithDetails = MenuItem & {
+  category?: Pick<
+    MenuCategory,
+    'id' | 'name' | 'station_type' | 'default_course'
+  > | null
+  modifiers?: MenuModifier[]
+  availability?: MenuAvailabilityWindow[]
+  synonyms?: MenuItemSynonym[]
+  // Services the item is served in; empty means every service
+  services?: Pick<MenuItemService, 'service_id'>[]
+}
+
+export type OrderItemWithMenu = OrderItem & {
+  menu_item?: Pick<MenuItem, 'id' | 'name' | 'station_type' | 'category_id'> | null
+}
+
+export type TableWithSeats = Table & {
+  seats: Seat[]
+}
+
+export type SeatWithResident = Seat & {
+  resident?: Pick<Profile, 'name' | 'dietary_restrictions'>
+}
+
+// API Response types
+export type ApiResponse<T = any> = {
+  success: boolean
+  data?: T
+  error?: string
+  message?: string
+}
+
+export type PaginatedResponse<T = any> = {
+  data: T[]
+  count: number
+  page: number
+  limit: number
+  totalPages: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+// Common query filters
+export type OrderFilters = {
+  status?: OrderStatus[]
+  type?: OrderType[]
+  table_id?: string
+  resident_id?: string
+  server_id?: string
+  date_from?: string
+  date_to?: string
+}
+
+export type KDSFilters = {
+  station_id?: string
+  status?: ('pending' | 'in_progress' | 'completed')[]
+  priority?: number[]
+  date_from?: string
+  date_to?: string
+}
+
+// Real-time subscription types
+export type RealtimePayload<T = any> = {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new: T | null
+  old: T | null
+  schema: string
+  table: string
+  commit_timestamp: string
+}
+
+// Error types
+export type DatabaseError = {
+  message: string
+  details: string | null
+  hint: string | null
+  code: string
+}
+
+// Session and auth types
+export type UserSession = {
+  user: {
     id: string
     email?: string
     role?: UserRole
@@ -616,11 +1996,22 @@ export type OrderForm = {
   seat_id: string
   resident_id: string
   items: string[]
+  lines?: OrderLineInput[]
   transcript?: string
   type: OrderType
   special_requests?: string
 }
 
+// A catalog-backed order line as submitted by the server UI
+export type OrderLineInput = {
+  menu_item_id: string
+  quantity?: number
+  modifiers?: OrderItemModifier[]
+  notes?: string
+  // Defaults to the menu category's course
+  course?: Course | null
+}
+
 export type TableForm = {
   label: string
   type: string